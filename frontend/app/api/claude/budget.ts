@@ -0,0 +1,95 @@
+/**
+ * Usage Budgets for the Claude API Routes
+ *
+ * Meters each Anthropic response into the monthly usage counters and checks
+ * the budgets in claudeApiSettings before a request is sent to Claude.
+ * Shared by /api/claude, /api/claude/summarize and /api/claude/remote.
+ */
+
+import type { SanityClient } from '@sanity/client'
+import {
+  DEFAULT_MODEL_PRICES,
+  estimateCost,
+  evaluateBudget,
+  getBudgetMonth,
+  getTotalTokens,
+  hasBudgets,
+  loadUsageCounters,
+  recordBudgetUsage,
+  type BudgetIdentity,
+  type BudgetStatus,
+  type TokenUsage,
+  type UsageCounter,
+} from 'claude-core'
+import { createSanityClient, loadApiSettings } from './remote/sanity-loader'
+import type { ApiSettingsDocument } from './remote/types'
+
+/**
+ * Budget state for one request
+ */
+export interface BudgetMeter {
+  /** Status before the request: refuse it when not allowed */
+  status: BudgetStatus
+  /** Meter a response and return the status after it */
+  record: (usage: TokenUsage, model: string) => Promise<BudgetStatus>
+}
+
+/**
+ * Add a response to a counter
+ */
+function addToCounter(counter: UsageCounter | undefined, tokens: number, cost: number): UsageCounter {
+  return { tokens: (counter?.tokens || 0) + tokens, cost: (counter?.cost || 0) + cost }
+}
+
+/**
+ * Load a request's budget status and return a meter for its responses
+ * Usage is always metered, so counters are accurate when an admin adds a budget mid-month.
+ */
+export async function openBudgetMeter(
+  client: SanityClient,
+  settings: ApiSettingsDocument | null,
+  identity: BudgetIdentity
+): Promise<BudgetMeter> {
+  const budgets = hasBudgets(settings) ? settings : null
+  const prices = settings?.modelPrices?.length ? settings.modelPrices : DEFAULT_MODEL_PRICES
+  let counters = budgets ? await loadUsageCounters(client, identity) : {}
+
+  const getStatus = (): BudgetStatus =>
+    budgets
+      ? evaluateBudget(budgets, identity, counters)
+      : { month: getBudgetMonth(), allowed: true, scopes: [] }
+
+  return {
+    status: getStatus(),
+    async record(usage, model) {
+      const cost = estimateCost(usage, model, prices)
+      try {
+        await recordBudgetUsage(client, identity, usage, cost)
+      } catch (error) {
+        // Metering must never fail a response Claude has already produced
+        console.error('[Claude API] Failed to record usage:', error)
+      }
+
+      const tokens = getTotalTokens(usage)
+      counters = {
+        global: addToCounter(counters.global, tokens, cost ?? 0),
+        user: identity.userId ? addToCounter(counters.user, tokens, cost ?? 0) : undefined,
+      }
+      return getStatus()
+    },
+  }
+}
+
+/**
+ * Open the budget meter for a request
+ * Returns null when no Sanity token is configured, in which case usage is not metered.
+ * The identity comes from getStudioUserIdentity, resolved from the request's Sanity
+ * token; anonymous requests are checked against the global budget only.
+ */
+export async function openRequestBudget(identity: BudgetIdentity): Promise<BudgetMeter | null> {
+  if (!process.env.SANITY_API_TOKEN) {
+    return null
+  }
+  const client = createSanityClient()
+  return openBudgetMeter(client, await loadApiSettings(client), identity)
+}
@@ -0,0 +1,68 @@
+/**
+ * MCP Resources
+ *
+ * Read-only context for MCP clients: the content schema, section templates
+ * and the claudeInstructions guidelines the Studio assistant follows.
+ */
+
+import { getServerSchemaContext, loadInstructions, loadSectionTemplates } from '../remote/sanity-loader'
+import type { McpContext, McpResource } from './types'
+
+const SCHEMA_CONTEXT_URI = 'sanity://schema-context'
+const SECTION_TEMPLATES_URI = 'sanity://section-templates'
+const INSTRUCTIONS_URI = 'sanity://claude-instructions'
+
+/**
+ * Resources listed by resources/list
+ */
+export const MCP_RESOURCES: McpResource[] = [
+  {
+    uri: SCHEMA_CONTEXT_URI,
+    name: 'Schema context',
+    description: 'Document types, fields and nesting rules of the content schema. Read before creating or patching documents.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uri: SECTION_TEMPLATES_URI,
+    name: 'Section templates',
+    description: 'Reusable page section layouts to base new page sections on',
+    mimeType: 'application/json',
+  },
+  {
+    uri: INSTRUCTIONS_URI,
+    name: 'Claude instructions',
+    description: 'Writing, design and technical guidelines, and forbidden and preferred terms, from claudeInstructions',
+    mimeType: 'application/json',
+  },
+]
+
+/**
+ * Read a resource, or return null for an unknown URI
+ */
+export async function readResource(
+  context: McpContext,
+  uri: string
+): Promise<{ uri: string; mimeType: string; text: string } | null> {
+  switch (uri) {
+    case SCHEMA_CONTEXT_URI:
+      return {
+        uri,
+        mimeType: 'text/markdown',
+        text: getServerSchemaContext(await context.getAccessControl()),
+      }
+    case SECTION_TEMPLATES_URI:
+      return {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(await loadSectionTemplates(context.client), null, 2),
+      }
+    case INSTRUCTIONS_URI:
+      return {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(await loadInstructions(context.client), null, 2),
+      }
+    default:
+      return null
+  }
+}
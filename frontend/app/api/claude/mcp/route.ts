@@ -0,0 +1,117 @@
+/**
+ * MCP Server - HTTP Transport
+ *
+ * Exposes the content operations to Model Context Protocol clients (desktop
+ * AI apps, IDEs) over the Streamable HTTP transport. The server is stateless:
+ * every request carries its API key, and each JSON-RPC request is answered
+ * with a JSON response. For clients that launch local servers, the same
+ * server runs over stdio with `npm run mcp:stdio` (scripts/mcp-stdio.ts).
+ *
+ * Tools: query, create, patch, delete, upload_image, list_workflows
+ * Resources: sanity://schema-context, sanity://section-templates, sanity://claude-instructions
+ *
+ * Authentication: A remote API key (claudeApiKey) in the Authorization
+ * header; its access level and scopes apply to every tool call. Each message
+ * counts against the key's rate limit, shared with the remote API, and failed
+ * authentication is throttled per client address as there.
+ *
+ * @example
+ * POST /api/claude/mcp
+ * Authorization: Bearer your-api-key
+ * Content-Type: application/json
+ * Accept: application/json, text/event-stream
+ *
+ * { "jsonrpc": "2.0", "id": 1, "method": "tools/list" }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '../remote/auth'
+import { checkApiKeyRateLimit, checkRateLimit, getAuthFailureId } from '../remote/rate-limit'
+import { createSanityClient } from '../remote/sanity-loader'
+import { createMcpContext, handleMcpMessage } from './server'
+
+// Most messages one JSON-RPC batch may hold
+const MAX_BATCH_SIZE = 10
+
+/**
+ * JSON-RPC error response for a request that was refused before any message ran
+ */
+function refuse(code: number, message: string, status: number, headers?: Record<string, string>) {
+  return NextResponse.json({ jsonrpc: '2.0', id: null, error: { code, message } }, { status, headers })
+}
+
+/**
+ * POST handler - One JSON-RPC message, or a batch of them
+ */
+export async function POST(request: NextRequest) {
+  const authResult = await authenticateRequest(request)
+  if (!authResult.valid) {
+    // Failed attempts are rate limited per client address
+    const failures = checkRateLimit(getAuthFailureId(request))
+    if (!failures.allowed) {
+      const retryAfter = Math.ceil(failures.resetIn / 1000)
+      return refuse(-32001, `Too many failed authentication attempts. Try again in ${retryAfter} seconds.`, 429, {
+        'Retry-After': retryAfter.toString(),
+      })
+    }
+    return refuse(-32001, authResult.error, 401, { 'WWW-Authenticate': 'Bearer' })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return refuse(-32700, 'Parse error', 400)
+  }
+
+  const messages = Array.isArray(body) ? body : [body]
+  if (messages.length > MAX_BATCH_SIZE) {
+    return refuse(-32600, `Batches may hold at most ${MAX_BATCH_SIZE} messages`, 400)
+  }
+
+  // Every message in a batch counts against the key's limit
+  const rateLimit = checkApiKeyRateLimit(authResult.key, messages.length)
+  if (!rateLimit.allowed) {
+    const retryAfter = Math.ceil(rateLimit.resetIn / 1000)
+    return refuse(-32000, `Rate limit exceeded. Try again in ${retryAfter} seconds.`, 429, {
+      'X-RateLimit-Limit': rateLimit.limit.toString(),
+      'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+      'Retry-After': retryAfter.toString(),
+    })
+  }
+
+  try {
+    const context = createMcpContext(createSanityClient(), authResult.key)
+
+    const responses = []
+    for (const message of messages) {
+      const response = await handleMcpMessage(context, message)
+      if (response) responses.push(response)
+    }
+
+    // Notifications and client responses are only acknowledged
+    if (responses.length === 0) {
+      return new NextResponse(null, { status: 202 })
+    }
+    return NextResponse.json(Array.isArray(body) ? responses : responses[0], {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (error) {
+    console.error('[Claude MCP] Request error:', error)
+    return refuse(-32603, 'Internal error', 500)
+  }
+}
+
+/**
+ * GET handler - The server sends no messages of its own, so there is no event stream
+ */
+export async function GET() {
+  return new NextResponse(null, { status: 405, headers: { Allow: 'POST' } })
+}
+
+/**
+ * DELETE handler - The server keeps no sessions to end
+ */
+export async function DELETE() {
+  return new NextResponse(null, { status: 405, headers: { Allow: 'POST' } })
+}
@@ -0,0 +1,124 @@
+/**
+ * MCP Server
+ *
+ * Handles Model Context Protocol messages for both transports: the HTTP
+ * route (route.ts) and the stdio entry point (scripts/mcp-stdio.ts). Both
+ * authenticate with a remote API key before creating an McpContext, so a
+ * client can only do what its key allows.
+ */
+
+import type { SanityClient } from '@sanity/client'
+import { loadAccessControl } from '../remote/sanity-loader'
+import type { AccessControlDocument, RemoteApiKey } from '../remote/types'
+import { MCP_RESOURCES, readResource } from './resources'
+import { MCP_TOOLS, callTool } from './tools'
+import type { JsonRpcRequest, JsonRpcResponse, McpContext } from './types'
+
+/**
+ * Protocol versions the server speaks, newest first
+ */
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+
+const SERVER_INFO = { name: 'sanity-claude-content', version: '1.0.0' }
+
+const SERVER_INSTRUCTIONS =
+  'Tools for reading and editing the Sanity content of this site. Read the schema-context resource before creating or patching documents, query for real _id and _key values instead of guessing them, and note that new documents are created as drafts.'
+
+// JSON-RPC error codes
+const INVALID_REQUEST = -32600
+const METHOD_NOT_FOUND = -32601
+const INVALID_PARAMS = -32602
+const INTERNAL_ERROR = -32603
+
+/**
+ * Create the context for an authenticated client
+ */
+export function createMcpContext(client: SanityClient, apiKey: RemoteApiKey): McpContext {
+  let accessControl: Promise<AccessControlDocument | null> | undefined
+  return {
+    client,
+    apiKey,
+    getAccessControl: () => (accessControl ??= loadAccessControl(client)),
+  }
+}
+
+function errorResponse(id: JsonRpcRequest['id'], code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id: id ?? null, error: { code, message } }
+}
+
+/**
+ * Whether a parsed message is a JSON-RPC request or notification
+ */
+export function isJsonRpcRequest(message: unknown): message is JsonRpcRequest {
+  return (
+    !!message &&
+    typeof message === 'object' &&
+    (message as JsonRpcRequest).jsonrpc === '2.0' &&
+    typeof (message as JsonRpcRequest).method === 'string'
+  )
+}
+
+/**
+ * Handle one message. Returns the response, or null for notifications
+ * and for responses from the client, which need no answer.
+ */
+export async function handleMcpMessage(context: McpContext, message: unknown): Promise<JsonRpcResponse | null> {
+  if (!isJsonRpcRequest(message)) {
+    // Responses to server requests are ignored; the server never sends any
+    const isClientResponse = !!message && typeof message === 'object' && 'id' in message && !('method' in message)
+    return isClientResponse ? null : errorResponse(null, INVALID_REQUEST, 'Invalid JSON-RPC message')
+  }
+
+  // Notifications (no id) such as notifications/initialized need no response
+  if (message.id === undefined) {
+    return null
+  }
+
+  const { id, method, params = {} } = message
+  try {
+    switch (method) {
+      case 'initialize': {
+        const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : ''
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+            capabilities: { tools: {}, resources: {} },
+            serverInfo: SERVER_INFO,
+            instructions: SERVER_INSTRUCTIONS,
+          },
+        }
+      }
+      case 'ping':
+        return { jsonrpc: '2.0', id, result: {} }
+      case 'tools/list':
+        return { jsonrpc: '2.0', id, result: { tools: MCP_TOOLS } }
+      case 'tools/call': {
+        if (typeof params.name !== 'string') {
+          return errorResponse(id, INVALID_PARAMS, 'Tool name is required')
+        }
+        const args = params.arguments && typeof params.arguments === 'object'
+          ? params.arguments as Record<string, unknown>
+          : {}
+        return { jsonrpc: '2.0', id, result: await callTool(context, params.name, args) }
+      }
+      case 'resources/list':
+        return { jsonrpc: '2.0', id, result: { resources: MCP_RESOURCES } }
+      case 'resources/templates/list':
+        return { jsonrpc: '2.0', id, result: { resourceTemplates: [] } }
+      case 'resources/read': {
+        const contents = typeof params.uri === 'string' ? await readResource(context, params.uri) : null
+        if (!contents) {
+          return errorResponse(id, INVALID_PARAMS, `Unknown resource: ${String(params.uri)}`)
+        }
+        return { jsonrpc: '2.0', id, result: { contents: [contents] } }
+      }
+      default:
+        return errorResponse(id, METHOD_NOT_FOUND, `Method not found: ${method}`)
+    }
+  } catch (error) {
+    console.error('[Claude MCP] Error handling', method, error)
+    return errorResponse(id, INTERNAL_ERROR, error instanceof Error ? error.message : 'Internal error')
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * MCP Tools
+ *
+ * The content operations exposed to MCP clients. query, create, patch and
+ * delete use the remote API's tool schemas and run through the shared
+ * claude-core executor, so GROQ validation, access control and the API key's
+ * scopes apply exactly as for remote API requests.
+ */
+
+import { randomUUID } from 'crypto'
+import {
+  checkAccess,
+  executeAction,
+  getActionTools,
+  getApiKeyQueryScope,
+  getDefaultDescription,
+  isDestructiveActionType,
+  parseToolUse,
+  recordAuditEntries,
+  validateAction,
+  type ActionResult,
+  type ActionType,
+  type ParsedAction,
+} from 'claude-core'
+import { checkApiKeyAction, getApiKeyAuditContext } from '../remote/auth'
+import { getServerValidator, loadWorkflows } from '../remote/sanity-loader'
+import { fetchPublicUrl } from '../public-url'
+import type { McpContext, McpTool, McpToolResult } from './types'
+
+/**
+ * Action types exposed as tools, with the same input schemas as the Studio and remote API
+ */
+const ACTION_TOOL_TYPES: ActionType[] = ['query', 'create', 'patch', 'delete']
+
+// Largest image upload_image accepts
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+// How long upload_image waits for an image URL
+const IMAGE_FETCH_TIMEOUT_MS = 15000
+
+const UPLOAD_IMAGE_TOOL: McpTool = {
+  name: 'upload_image',
+  description:
+    'Upload an image to the Sanity media library from an https URL or base64 data. Returns the asset ID and an image value to set on image fields.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      description: { type: 'string', description: 'Short human-readable description of what this upload is for' },
+      url: { type: 'string', description: 'https URL of the image' },
+      data: { type: 'string', description: 'Base64-encoded image data, instead of url' },
+      mimeType: { type: 'string', description: 'MIME type of data, e.g. image/png' },
+      filename: { type: 'string', description: 'File name to store the asset under' },
+    },
+    required: ['description'],
+  },
+  annotations: { readOnlyHint: false, destructiveHint: false },
+}
+
+const LIST_WORKFLOWS_TOOL: McpTool = {
+  name: 'list_workflows',
+  description:
+    'List the active Claude workflows: reusable instructions for recurring content tasks, such as building a landing page.',
+  inputSchema: { type: 'object', properties: {} },
+  annotations: { readOnlyHint: true },
+}
+
+/**
+ * Tools listed by tools/list
+ */
+export const MCP_TOOLS: McpTool[] = [
+  ...getActionTools({ actionTypes: ACTION_TOOL_TYPES }).map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.input_schema,
+    annotations: {
+      readOnlyHint: tool.name === 'query',
+      destructiveHint: isDestructiveActionType(tool.name),
+    },
+  })),
+  UPLOAD_IMAGE_TOOL,
+  LIST_WORKFLOWS_TOOL,
+]
+
+/**
+ * Format a tool's outcome for the client
+ */
+function toToolResult(data: unknown, isError = false): McpToolResult {
+  return {
+    content: [{ type: 'text', text: typeof data === 'string' ? data : JSON.stringify(data, null, 2) }],
+    ...(isError ? { isError: true } : {}),
+  }
+}
+
+/**
+ * Run query, create, patch or delete through the shared executor
+ */
+async function runActionTool(
+  context: McpContext,
+  type: ActionType,
+  args: Record<string, unknown>
+): Promise<ActionResult> {
+  const action = parseToolUse({ id: randomUUID(), name: type, input: args })
+  if (!action) {
+    return { success: false, message: `Unknown tool: ${type}` }
+  }
+
+  const errors = validateAction(action)
+  if (errors.length > 0) {
+    return { success: false, message: errors.join('. ') }
+  }
+
+  const denied = await checkApiKeyAction(context.client, action, context.apiKey)
+  if (denied) {
+    return { success: false, message: denied }
+  }
+
+  // Documents created over MCP always start as drafts, as over the remote API
+  return executeAction(context.client, action, {
+    accessControl: await context.getAccessControl(),
+    createDrafts: true,
+    validator: getServerValidator(context.client),
+    audit: getApiKeyAuditContext(context.apiKey, 'mcp'),
+    queryScope: getApiKeyQueryScope(context.apiKey),
+  })
+}
+
+/**
+ * Read the image upload_image was given, from its URL or base64 data
+ */
+async function readImage(args: Record<string, unknown>): Promise<{ buffer: Buffer; contentType: string } | string> {
+  if (typeof args.url === 'string' && args.url) {
+    let url: URL
+    try {
+      url = new URL(args.url)
+    } catch {
+      return 'url is not a valid URL'
+    }
+    if (url.protocol !== 'https:') {
+      return 'url must use https'
+    }
+
+    // Only public hosts are fetched, and redirects are not followed
+    let res: Response
+    try {
+      res = await fetchPublicUrl(url, 'url', { signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) })
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Could not fetch the image'
+    }
+    if (!res.ok) {
+      return `Could not fetch the image: HTTP ${res.status}`
+    }
+    const contentType = res.headers.get('content-type')?.split(';')[0] || ''
+    if (!contentType.startsWith('image/')) {
+      return `url is not an image (${contentType || 'unknown content type'})`
+    }
+    const buffer = Buffer.from(await res.arrayBuffer())
+    return buffer.length > MAX_IMAGE_BYTES ? `Image exceeds ${MAX_IMAGE_BYTES / 1024 / 1024} MB` : { buffer, contentType }
+  }
+
+  if (typeof args.data === 'string' && args.data) {
+    if (typeof args.mimeType !== 'string' || !args.mimeType.startsWith('image/')) {
+      return 'mimeType must be an image MIME type, e.g. image/png'
+    }
+    const buffer = Buffer.from(args.data, 'base64')
+    if (buffer.length === 0) {
+      return 'data is not valid base64'
+    }
+    return buffer.length > MAX_IMAGE_BYTES ? `Image exceeds ${MAX_IMAGE_BYTES / 1024 / 1024} MB` : { buffer, contentType: args.mimeType }
+  }
+
+  return 'Either url or data is required'
+}
+
+/**
+ * Upload an image to the media library
+ */
+async function uploadImage(context: McpContext, args: Record<string, unknown>): Promise<ActionResult> {
+  const filename = typeof args.filename === 'string' && args.filename ? args.filename : undefined
+  const action: ParsedAction = {
+    id: randomUUID(),
+    type: 'uploadImage',
+    description: typeof args.description === 'string' ? args.description : getDefaultDescription('uploadImage'),
+    status: 'pending',
+    payload: { filename },
+  }
+
+  // Uploads do not go through the executor, so they are audited here
+  const result = await runUpload(context, action, args)
+  await recordAuditEntries(context.client, [{ action, result }], getApiKeyAuditContext(context.apiKey, 'mcp'))
+  return result
+}
+
+/**
+ * Check and run an upload
+ */
+async function runUpload(context: McpContext, action: ParsedAction, args: Record<string, unknown>): Promise<ActionResult> {
+  // Uploads do not go through the executor, so access control is checked here
+  const denied = await checkApiKeyAction(context.client, action, context.apiKey)
+    || await checkAccess(context.client, action, await context.getAccessControl())
+  if (denied) {
+    return { success: false, message: denied }
+  }
+
+  const image = await readImage(args)
+  if (typeof image === 'string') {
+    return { success: false, message: image }
+  }
+
+  const asset = await context.client.assets.upload('image', image.buffer, {
+    filename: action.payload.filename,
+    contentType: image.contentType,
+  })
+
+  return {
+    success: true,
+    documentId: asset._id,
+    message: `Uploaded ${asset.originalFilename || 'image'}`,
+    data: {
+      assetId: asset._id,
+      url: asset.url,
+      image: { _type: 'image', asset: { _type: 'reference', _ref: asset._id } },
+    },
+  }
+}
+
+/**
+ * List the active workflows the API key may use
+ */
+async function listWorkflows(context: McpContext): Promise<ActionResult> {
+  const workflows = await loadWorkflows(context.client)
+  const allowed = context.apiKey.allowedWorkflows?.length
+    ? workflows.filter(workflow => context.apiKey.allowedWorkflows!.includes(workflow._id))
+    : workflows
+
+  return {
+    success: true,
+    message: `Found ${allowed.length} workflow(s)`,
+    data: allowed,
+  }
+}
+
+/**
+ * Run a tool call
+ */
+export async function callTool(
+  context: McpContext,
+  name: string,
+  args: Record<string, unknown> = {}
+): Promise<McpToolResult> {
+  let result: ActionResult
+  try {
+    if (ACTION_TOOL_TYPES.includes(name as ActionType)) {
+      result = await runActionTool(context, name as ActionType, args)
+    } else if (name === UPLOAD_IMAGE_TOOL.name) {
+      result = await uploadImage(context, args)
+    } else if (name === LIST_WORKFLOWS_TOOL.name) {
+      result = await listWorkflows(context)
+    } else {
+      return toToolResult(`Unknown tool: ${name}`, true)
+    }
+  } catch (error) {
+    result = { success: false, message: error instanceof Error ? error.message : 'Tool call failed' }
+  }
+
+  console.info('[Claude MCP]', JSON.stringify({
+    timestamp: new Date().toISOString(),
+    apiKey: { id: context.apiKey.id, name: context.apiKey.name },
+    tool: name,
+    success: result.success,
+    documentId: result.documentId || null,
+  }))
+
+  if (!result.success) {
+    return toToolResult(result.message || 'Tool call failed', true)
+  }
+  return toToolResult({ message: result.message, documentId: result.documentId, data: result.data })
+}
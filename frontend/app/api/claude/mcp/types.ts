@@ -0,0 +1,68 @@
+/**
+ * MCP Server Types
+ *
+ * The JSON-RPC 2.0 messages and Model Context Protocol shapes the server
+ * uses. See https://modelcontextprotocol.io/specification for the full
+ * protocol.
+ */
+
+import type { SanityClient } from '@sanity/client'
+import type { AccessControlDocument, RemoteApiKey } from '../remote/types'
+
+/**
+ * JSON-RPC request, or a notification when id is absent
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0'
+  id?: string | number | null
+  method: string
+  params?: Record<string, unknown>
+}
+
+/**
+ * JSON-RPC response to a request
+ */
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: string | number | null; result: unknown }
+  | { jsonrpc: '2.0'; id: string | number | null; error: { code: number; message: string; data?: unknown } }
+
+/**
+ * Everything a tool call or resource read needs, for one authenticated client
+ */
+export interface McpContext {
+  client: SanityClient
+  apiKey: RemoteApiKey
+  /** Loaded once per context, on first use */
+  getAccessControl: () => Promise<AccessControlDocument | null>
+}
+
+/**
+ * Tool listed by tools/list
+ */
+export interface McpTool {
+  name: string
+  description: string
+  inputSchema: Record<string, unknown>
+  annotations?: {
+    readOnlyHint?: boolean
+    destructiveHint?: boolean
+  }
+}
+
+/**
+ * Result of tools/call; tool failures are results with isError, not JSON-RPC errors
+ */
+export interface McpToolResult {
+  content: Array<{ type: 'text'; text: string }>
+  isError?: boolean
+}
+
+/**
+ * Resource listed by resources/list
+ */
+export interface McpResource {
+  uri: string
+  name: string
+  description: string
+  mimeType: string
+}
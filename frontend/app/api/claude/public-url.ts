@@ -0,0 +1,186 @@
+/**
+ * Public URLs for Outbound Requests
+ *
+ * The server fetches URLs that API clients choose: job callbacks and MCP
+ * image uploads. Their hosts must resolve to public addresses only, so a
+ * client cannot reach loopback, private networks, link-local addresses or
+ * cloud metadata endpoints through the server. Redirects are never followed,
+ * since a redirect could lead anywhere the first check did not see. Requests
+ * connect to the addresses that were checked, so a DNS answer that changes
+ * between the check and the connection (DNS rebinding) cannot reach them either.
+ * Shared by /api/claude/remote and the MCP server.
+ */
+
+import { lookup as lookupCallback, type LookupAddress } from 'dns'
+import { lookup } from 'dns/promises'
+import http from 'http'
+import https from 'https'
+import { BlockList, isIP, type LookupFunction } from 'net'
+import { Readable } from 'stream'
+
+/**
+ * Addresses outbound requests may never reach
+ * IPv4 and IPv6 are kept apart: BlockList matches IPv4 addresses against
+ * IPv4-mapped IPv6 rules, which would block every IPv4 address.
+ */
+const BLOCKED_IPV4 = new BlockList()
+const BLOCKED_IPV6 = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including 169.254.169.254 metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+] as const) {
+  BLOCKED_IPV4.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['::ffff:0:0', 96], // IPv4-mapped, which could map to any blocked IPv4 address
+  ['64:ff9b::', 96], // NAT64, which maps to IPv4 addresses
+  ['fc00::', 7], // unique local, including fd00:ec2::254 metadata
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_IPV6.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * Host names of cloud metadata services that do not need to resolve publicly
+ */
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata', 'metadata.google.internal', 'metadata.goog']
+
+/**
+ * Check if an IP address is public
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address)
+  if (version === 4) {
+    return !BLOCKED_IPV4.check(address, 'ipv4')
+  }
+  if (version === 6) {
+    return !BLOCKED_IPV6.check(address, 'ipv6')
+  }
+  return false
+}
+
+/**
+ * Check that a URL's host resolves to public addresses only, returning an
+ * error message when it does not
+ *
+ * @param label - Name of the URL in error messages, e.g. "callbackUrl"
+ */
+export async function checkPublicHost(url: URL, label: string): Promise<string | null> {
+  // URL keeps IPv6 literals in brackets
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (BLOCKED_HOSTNAMES.includes(hostname) || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    return `${label} must point to a public host`
+  }
+
+  let addresses: string[]
+  if (isIP(hostname)) {
+    addresses = [hostname]
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address)
+    } catch {
+      return `${label} host could not be resolved`
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return `${label} must point to a public host`
+  }
+  return null
+}
+
+/**
+ * Options for fetchPublicUrl, a subset of fetch's
+ */
+export interface PublicFetchInit {
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+  signal?: AbortSignal
+}
+
+/**
+ * DNS lookup for outbound requests that only answers with public addresses
+ * The connection uses the addresses checked here, never a second lookup.
+ */
+function lookupPublicAddress(label: string): LookupFunction {
+  return (hostname, options, callback) => {
+    lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+      if (error) {
+        callback(error, [])
+      } else if (addresses.length === 0 || !addresses.every(entry => isPublicAddress(entry.address))) {
+        callback(new Error(`${label} must point to a public host`), [])
+      } else if (options.all) {
+        callback(null, addresses)
+      } else {
+        callback(null, addresses[0].address, addresses[0].family)
+      }
+    })
+  }
+}
+
+/**
+ * Convert Node's response headers to fetch Headers
+ */
+function toHeaders(incoming: http.IncomingHttpHeaders): Headers {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(incoming)) {
+    for (const item of value === undefined ? [] : [value].flat()) {
+      headers.append(name, item)
+    }
+  }
+  return headers
+}
+
+/**
+ * Fetch a URL whose host has been checked with checkPublicHost
+ * The host is checked again right before the request and the connection is
+ * pinned to the checked addresses. A redirect is returned as an error rather
+ * than followed.
+ */
+export async function fetchPublicUrl(url: URL, label: string, init: PublicFetchInit = {}): Promise<Response> {
+  const hostError = await checkPublicHost(url, label)
+  if (hostError) {
+    throw new Error(hostError)
+  }
+
+  return new Promise<Response>((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(
+      url,
+      {
+        method: init.method || 'GET',
+        headers: init.headers,
+        lookup: lookupPublicAddress(label),
+        signal: init.signal,
+      },
+      res => {
+        const status = res.statusCode || 0
+        if (status >= 300 && status < 400) {
+          res.resume()
+          reject(new Error(`${label} redirected (HTTP ${status}); redirects are not followed`))
+          return
+        }
+
+        const hasBody = ![204, 205, 304].includes(status) && init.method !== 'HEAD'
+        resolve(new Response(hasBody ? (Readable.toWeb(res) as ReadableStream<Uint8Array>) : null, {
+          status,
+          headers: toHeaders(res.headers),
+        }))
+      }
+    )
+    request.on('error', reject)
+    request.end(init.body)
+  })
+}
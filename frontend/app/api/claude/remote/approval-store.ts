@@ -0,0 +1,127 @@
+/**
+ * Approvals for Remote API
+ *
+ * Actions a request holds for approval (holdActions) are stored in a
+ * claudeRemoteApproval document instead of running. The approvals endpoint
+ * runs them once approved, so callers such as the Slack adapter only pass
+ * an approval ID and can never change what runs.
+ */
+
+import { randomUUID } from 'crypto'
+import type { SanityClient } from '@sanity/client'
+import type {
+  ExecutedAction,
+  ParsedAction,
+  RemoteApiKey,
+  RemoteApprovalDocument,
+  RemoteApprovalStatus,
+} from './types'
+
+// Held actions expire if nobody decides within a day
+const APPROVAL_TTL_MS = 24 * 60 * 60 * 1000
+
+/**
+ * ID prefix of approvals. IDs with a dot are not publicly readable, even in
+ * public datasets, and approvals hold the actions waiting to run.
+ */
+const APPROVAL_ID_PREFIX = 'claude-approval.'
+
+// Approval IDs are the prefix and a UUID generated here
+const APPROVAL_ID_PATTERN = /^claude-approval\.[0-9a-f-]{36}$/
+
+/**
+ * Check that an approval ID has the shape of one this API generated
+ */
+export function isValidApprovalId(approvalId: string): boolean {
+  return APPROVAL_ID_PATTERN.test(approvalId)
+}
+
+/**
+ * Store held actions and return the approval
+ */
+export async function createRemoteApproval(
+  client: SanityClient,
+  clientId: string,
+  apiKey: RemoteApiKey,
+  actions: ParsedAction[]
+): Promise<RemoteApprovalDocument> {
+  const now = Date.now()
+  const approval: RemoteApprovalDocument = {
+    _id: `${APPROVAL_ID_PREFIX}${randomUUID()}`,
+    _type: 'claudeRemoteApproval',
+    status: 'pending',
+    apiKeyId: apiKey.id,
+    apiKeyName: apiKey.name,
+    clientId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + APPROVAL_TTL_MS).toISOString(),
+    actions: JSON.stringify(actions),
+  }
+
+  return client.create(approval)
+}
+
+/**
+ * Load an approval created with an API key
+ */
+export async function loadRemoteApproval(
+  client: SanityClient,
+  approvalId: string,
+  apiKey: RemoteApiKey
+): Promise<RemoteApprovalDocument | null> {
+  const approval = await client.fetch<RemoteApprovalDocument | null>(
+    `*[_type == "claudeRemoteApproval" && _id == $approvalId][0]`,
+    { approvalId }
+  )
+  return approval && approval.apiKeyId === apiKey.id ? approval : null
+}
+
+/**
+ * The held actions of an approval
+ */
+export function getApprovalActions(approval: RemoteApprovalDocument): ParsedAction[] {
+  return JSON.parse(approval.actions) as ParsedAction[]
+}
+
+/**
+ * Record a decision, only if nobody else has decided since the approval was loaded
+ * Returns false when the approval changed in the meantime.
+ */
+export async function decideRemoteApproval(
+  client: SanityClient,
+  approval: RemoteApprovalDocument,
+  status: Exclude<RemoteApprovalStatus, 'pending'>,
+  decidedBy?: string
+): Promise<boolean> {
+  try {
+    await client
+      .patch(approval._id)
+      .ifRevisionId(approval._rev || '')
+      .set({
+        status,
+        decidedAt: new Date().toISOString(),
+        ...(decidedBy ? { decidedBy } : {}),
+      })
+      .commit()
+    return true
+  } catch (error) {
+    console.warn('[Remote Claude API] Approval was already decided:', approval._id, error)
+    return false
+  }
+}
+
+/**
+ * Store the results of approved actions
+ * Failures are logged rather than thrown since the actions have already run
+ */
+export async function recordApprovalResults(
+  client: SanityClient,
+  approvalId: string,
+  results: ExecutedAction[]
+): Promise<void> {
+  try {
+    await client.patch(approvalId).set({ results: JSON.stringify(results) }).commit()
+  } catch (error) {
+    console.error('[Remote Claude API] Failed to record approval results:', error)
+  }
+}
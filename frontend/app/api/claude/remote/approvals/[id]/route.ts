@@ -0,0 +1,221 @@
+/**
+ * Remote Claude API Approval Endpoint
+ *
+ * Approves or rejects actions a remote request held for approval
+ * (holdActions). Approved actions run exactly as Claude requested them,
+ * under the same API key scopes and access control as the original request.
+ *
+ * Authentication: Same API key as the request that held the actions
+ *
+ * @example
+ * POST /api/claude/remote/approvals/8f14e45f-ceea-4e7a-9b1c-6f5e2d3a4b5c
+ * Authorization: Bearer your-api-key
+ * Content-Type: application/json
+ *
+ * { "decision": "approve", "decidedBy": "U024BE7LH" }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { executeAction, executeBatch, getApiKeyQueryScope, isBatchableAction, type ActionResult } from 'claude-core'
+import type { SanityClient } from '@sanity/client'
+import {
+  decideRemoteApproval,
+  getApprovalActions,
+  isValidApprovalId,
+  loadRemoteApproval,
+  recordApprovalResults,
+} from '../../approval-store'
+import { authenticateRequest, checkApiKeyAction, getApiKeyAuditContext } from '../../auth'
+import { createSanityClient, getServerValidator, loadAccessControl } from '../../sanity-loader'
+import { generateStudioLinks } from '../../studio-links'
+import type {
+  AccessControlDocument,
+  ExecutedAction,
+  ParsedAction,
+  RemoteApiKey,
+  RemoteApprovalDecision,
+  RemoteApprovalResponse,
+} from '../../types'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Validates the request body
+ */
+function validateDecision(body: unknown): body is RemoteApprovalDecision {
+  if (!body || typeof body !== 'object') {
+    return false
+  }
+
+  const decision = body as RemoteApprovalDecision
+  if (decision.decision !== 'approve' && decision.decision !== 'reject') {
+    return false
+  }
+  if (decision.decidedBy !== undefined && typeof decision.decidedBy !== 'string') {
+    return false
+  }
+  return true
+}
+
+/**
+ * Run approved actions; two or more write actions run as one all-or-nothing batch
+ */
+async function runApprovedActions(
+  client: SanityClient,
+  actions: ParsedAction[],
+  apiKey: RemoteApiKey,
+  accessControl: AccessControlDocument | null,
+  clientId: string
+): Promise<ExecutedAction[]> {
+  // Documents created over the remote API always start as drafts
+  const executorOptions = {
+    accessControl,
+    createDrafts: true,
+    validator: getServerValidator(client),
+    audit: getApiKeyAuditContext(apiKey, 'remote', clientId),
+    queryScope: getApiKeyQueryScope(apiKey),
+  }
+
+  // The key's scopes are checked again, in case they changed since the actions were held
+  const deniedActions = new Map<string, string>()
+  for (const action of actions) {
+    const denied = await checkApiKeyAction(client, action, apiKey)
+    if (denied) {
+      deniedActions.set(action.id, denied)
+    }
+  }
+
+  const batchActions = actions.filter(action => isBatchableAction(action) && !deniedActions.has(action.id))
+  const batchResults = new Map<string, ActionResult>()
+  if (batchActions.length >= 2) {
+    const results = await executeBatch(client, batchActions, executorOptions)
+    batchActions.forEach((action, index) => batchResults.set(action.id, results[index]))
+  }
+
+  const executed: ExecutedAction[] = []
+  for (const action of actions) {
+    const denied = deniedActions.get(action.id)
+    if (denied) {
+      executed.push({
+        action: { ...action, status: 'failed', error: denied },
+        result: { success: false, message: denied },
+        dryRun: false,
+      })
+      continue
+    }
+
+    try {
+      const result = batchResults.get(action.id) ?? await executeAction(client, action, executorOptions)
+      executed.push({
+        action: { ...action, status: result.success ? 'completed' : 'failed', result },
+        result,
+        dryRun: false,
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Action execution failed'
+      executed.push({
+        action: { ...action, status: 'failed', error: message },
+        result: { success: false, message },
+        dryRun: false,
+      })
+    }
+  }
+
+  return executed
+}
+
+/**
+ * POST handler - Approve or reject held actions
+ */
+export async function POST(request: NextRequest, props: Props) {
+  const authResult = await authenticateRequest(request)
+  if (!authResult.valid) {
+    return NextResponse.json({ success: false, error: authResult.error }, { status: 401 })
+  }
+  const apiKey = authResult.key
+
+  const { id } = await props.params
+  if (!isValidApprovalId(id)) {
+    return NextResponse.json({ success: false, error: 'Approval not found' }, { status: 404 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 })
+  }
+
+  if (!validateDecision(body)) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid request body. Expected { decision: "approve" | "reject", decidedBy?: string }' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const sanityClient = createSanityClient()
+
+    const approval = await loadRemoteApproval(sanityClient, id, apiKey)
+    if (!approval) {
+      return NextResponse.json({ success: false, error: 'Approval not found' }, { status: 404 })
+    }
+    if (approval.status !== 'pending') {
+      return NextResponse.json(
+        { success: false, error: `These actions were already ${approval.status}` },
+        { status: 409 }
+      )
+    }
+    if (new Date(approval.expiresAt).getTime() <= Date.now()) {
+      return NextResponse.json({ success: false, error: 'This approval has expired' }, { status: 410 })
+    }
+
+    const status = body.decision === 'approve' ? 'approved' : 'rejected'
+    if (!(await decideRemoteApproval(sanityClient, approval, status, body.decidedBy))) {
+      return NextResponse.json(
+        { success: false, error: 'These actions were already approved or rejected' },
+        { status: 409 }
+      )
+    }
+
+    if (status === 'rejected') {
+      const response: RemoteApprovalResponse = { success: true, approvalId: id, status, actions: [] }
+      return NextResponse.json(response)
+    }
+
+    const accessControl = await loadAccessControl(sanityClient)
+    const actions = await runApprovedActions(sanityClient, getApprovalActions(approval), apiKey, accessControl, approval.clientId)
+    await recordApprovalResults(sanityClient, id, actions)
+
+    // Link the documents that still exist
+    const linkedDocuments = actions
+      .filter(({ action, result }) => result.success && result.documentId && action.type !== 'delete')
+      .map(({ result }) => result.documentId!)
+
+    const response: RemoteApprovalResponse = {
+      success: actions.every(({ result }) => result.success),
+      approvalId: id,
+      status,
+      actions,
+      studioLinks: linkedDocuments.length > 0 ? generateStudioLinks(linkedDocuments, new Map()) : undefined,
+    }
+
+    console.info('[Remote Claude API]', JSON.stringify({
+      timestamp: new Date().toISOString(),
+      approvalId: id,
+      apiKey: { id: apiKey.id, name: apiKey.name },
+      decidedBy: body.decidedBy || null,
+      actionsExecuted: actions.filter(({ result }) => result.success).length,
+    }))
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('[Remote Claude API] Approval error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to process the approval' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Authentication for Remote API
+ *
+ * Requests authenticate with an API key in the Authorization header. Keys
+ * are claudeApiKey documents, stored as SHA-256 hashes and looked up on
+ * every request, so revoking or editing a key applies without a redeploy.
+ * CLAUDE_REMOTE_API_SECRET, when set, still works as a full-access key.
+ *
+ * Each key's scopes are checked here: access level, workflows, document
+ * types and action types.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto'
+import type { NextRequest } from 'next/server'
+import { checkAccess, checkApiKeyAccess, type AuditContext } from 'claude-core'
+import type { SanityClient } from '@sanity/client'
+import { createSanityClient, loadApiKey } from './sanity-loader'
+import type { ApiKeyDocument, ParsedAction, RemoteApiKey, RemoteClaudeRequest, WorkflowDocument } from './types'
+
+/**
+ * The key CLAUDE_REMOTE_API_SECRET authenticates as
+ */
+const ENV_API_KEY: RemoteApiKey = {
+  id: 'env',
+  name: 'CLAUDE_REMOTE_API_SECRET',
+  access: 'full',
+}
+
+export type AuthResult = { valid: true; key: RemoteApiKey } | { valid: false; error: string }
+
+/**
+ * Timing-safe string comparison to prevent timing attacks
+ */
+export function secureCompare(a: string, b: string): boolean {
+  // Hash both strings to ensure equal length comparison
+  const hashA = createHash('sha256').update(a).digest()
+  const hashB = createHash('sha256').update(b).digest()
+  return timingSafeEqual(hashA, hashB)
+}
+
+/**
+ * Hex-encoded SHA-256 hash of an API key, as stored on claudeApiKey documents
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * Convert a stored key to the scopes requests are checked against
+ */
+function toRemoteApiKey(doc: ApiKeyDocument): RemoteApiKey {
+  return {
+    id: doc._id,
+    name: doc.name,
+    access: doc.access || 'full',
+    allowedWorkflows: doc.allowedWorkflows || undefined,
+    allowedDocumentTypes: doc.allowedDocumentTypes || undefined,
+    allowedActions: doc.allowedActions || undefined,
+    rateLimit: doc.rateLimit || undefined,
+  }
+}
+
+/**
+ * Authenticate a request by its API key
+ */
+export async function authenticateRequest(request: NextRequest): Promise<AuthResult> {
+  const authHeader = request.headers.get('authorization')
+
+  if (!authHeader) {
+    return { valid: false, error: 'Missing Authorization header' }
+  }
+
+  // Support both "Bearer <token>" and just "<token>"
+  const token = authHeader.startsWith('Bearer ')
+    ? authHeader.slice(7)
+    : authHeader
+
+  return authenticateApiKey(token)
+}
+
+/**
+ * Authenticate an API key, from a request header or the MCP server's environment
+ */
+export async function authenticateApiKey(token: string): Promise<AuthResult> {
+  // Use timing-safe comparison to prevent timing attacks
+  const secret = process.env.CLAUDE_REMOTE_API_SECRET
+  if (secret && secureCompare(token, secret)) {
+    return { valid: true, key: ENV_API_KEY }
+  }
+
+  let doc: ApiKeyDocument | null
+  try {
+    doc = await loadApiKey(createSanityClient(), hashApiKey(token))
+  } catch (error) {
+    console.error('[Remote Claude API] Failed to load API key:', error)
+    return { valid: false, error: 'Could not verify the API key' }
+  }
+
+  if (!doc) {
+    return { valid: false, error: 'Invalid API key' }
+  }
+  if (doc.revoked) {
+    return { valid: false, error: 'API key has been revoked' }
+  }
+  if (doc.expiresAt && new Date(doc.expiresAt).getTime() <= Date.now()) {
+    return { valid: false, error: 'API key has expired' }
+  }
+
+  return { valid: true, key: toRemoteApiKey(doc) }
+}
+
+/**
+ * Audit context for actions run with a key, so audit entries name the key
+ */
+export function getApiKeyAuditContext(
+  key: RemoteApiKey,
+  source: 'remote' | 'mcp',
+  clientId?: string
+): AuditContext {
+  return { source, apiKeyId: key.id, apiKeyName: key.name, clientId }
+}
+
+/**
+ * Check a request against its key's access level
+ * Returns an error message if the request is not allowed, or null.
+ */
+export function checkApiKeyRequest(key: RemoteApiKey, request: RemoteClaudeRequest): string | null {
+  if (key.access === 'dryRunOnly' && !request.dryRun) {
+    return `API key "${key.name}" only allows dry runs. Set "dryRun": true.`
+  }
+  return null
+}
+
+/**
+ * Check the workflow a request uses against its key's allowed workflows
+ * Returns an error message if the workflow is not allowed, or null.
+ */
+export function checkApiKeyWorkflow(key: RemoteApiKey, workflow: WorkflowDocument | null): string | null {
+  if (!key.allowedWorkflows?.length) return null
+
+  if (!workflow) {
+    return `API key "${key.name}" requires a workflow. Set "workflow" to one of the workflows it allows.`
+  }
+  if (!key.allowedWorkflows.includes(workflow._id)) {
+    return `API key "${key.name}" is not allowed to use the workflow "${workflow.name}".`
+  }
+  return null
+}
+
+/**
+ * Check an action against its key's scopes, before it runs
+ * Every entry point - remote requests, approvals and MCP tools - calls this,
+ * so a dryRunOnly key cannot write anywhere. Returns an error message if the
+ * action is denied, or null if it may run.
+ *
+ * @param options.dryRun - Whether the action is only planned, as in a dry run request
+ */
+export async function checkApiKeyAction(
+  client: SanityClient,
+  action: ParsedAction,
+  key: RemoteApiKey,
+  options: { dryRun?: boolean } = {}
+): Promise<string | null> {
+  const denied = checkApiKeyAccess(key, action, options.dryRun)
+  if (denied) {
+    return denied
+  }
+
+  // Document types are checked by the shared access control, which resolves stored types
+  if (key.allowedDocumentTypes?.length) {
+    return checkAccess(client, action, { allowedDocumentTypes: key.allowedDocumentTypes })
+  }
+
+  return null
+}
@@ -0,0 +1,261 @@
+/**
+ * Async Jobs for Remote API
+ *
+ * Requests sent with async: true run after the 202 response. Their state is
+ * kept in a claudeRemoteJob document, and when a callbackUrl is given the
+ * final response is POSTed to it, signed with HMAC-SHA256.
+ *
+ * Callbacks carry two headers:
+ * - X-Claude-Timestamp: Unix time in seconds when the callback was signed
+ * - X-Claude-Signature: sha256=<hex HMAC of "{timestamp}.{raw body}">
+ * The key is CLAUDE_REMOTE_CALLBACK_SECRET, or CLAUDE_REMOTE_API_SECRET when unset.
+ */
+
+import { createHmac, randomUUID } from 'crypto'
+import type { SanityClient } from '@sanity/client'
+import { checkPublicHost, fetchPublicUrl } from '../public-url'
+import type {
+  RemoteApiKey,
+  RemoteClaudeRequest,
+  RemoteClaudeResponse,
+  RemoteJobCallback,
+  RemoteJobDocument,
+  RemoteJobStatusResponse,
+} from './types'
+
+// Callback delivery: attempts and the wait before each retry
+const CALLBACK_RETRY_DELAYS_MS = [1000, 5000]
+const CALLBACK_TIMEOUT_MS = 10000
+
+/**
+ * ID prefix of jobs. IDs with a dot are not publicly readable, even in public
+ * datasets, and jobs hold request messages and responses.
+ */
+const JOB_ID_PREFIX = 'claude-job.'
+
+// Job IDs are the prefix and a UUID generated here
+const JOB_ID_PATTERN = /^claude-job\.[0-9a-f-]{36}$/
+
+/**
+ * Key callbacks are signed with, or null when none is configured
+ */
+function getCallbackSecret(): string | null {
+  return process.env.CLAUDE_REMOTE_CALLBACK_SECRET || process.env.CLAUDE_REMOTE_API_SECRET || null
+}
+
+/**
+ * Check a callback URL, returning an error message when it cannot be used
+ * Plain http is only accepted outside production. The host must resolve to
+ * public addresses only.
+ */
+export async function validateCallbackUrl(callbackUrl: string): Promise<string | null> {
+  if (!getCallbackSecret()) {
+    return 'callbackUrl requires CLAUDE_REMOTE_CALLBACK_SECRET to be configured on the server'
+  }
+
+  let url: URL
+  try {
+    url = new URL(callbackUrl)
+  } catch {
+    return 'callbackUrl must be a valid URL'
+  }
+
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && process.env.NODE_ENV !== 'production')) {
+    return 'callbackUrl must use https'
+  }
+  return checkPublicHost(url, 'callbackUrl')
+}
+
+/**
+ * Check that a job ID has the shape of one this API generated
+ */
+export function isValidJobId(jobId: string): boolean {
+  return JOB_ID_PATTERN.test(jobId)
+}
+
+/**
+ * Create a queued job for a request and return its ID
+ */
+export async function createRemoteJob(
+  client: SanityClient,
+  clientId: string,
+  apiKey: RemoteApiKey,
+  request: RemoteClaudeRequest
+): Promise<string> {
+  const job: RemoteJobDocument = {
+    _id: `${JOB_ID_PREFIX}${randomUUID()}`,
+    _type: 'claudeRemoteJob',
+    status: 'queued',
+    clientId,
+    apiKeyId: apiKey.id,
+    apiKeyName: apiKey.name,
+    message: request.message,
+    workflow: request.workflow,
+    dryRun: request.dryRun || false,
+    createdAt: new Date().toISOString(),
+    ...(request.callbackUrl ? { callbackUrl: request.callbackUrl, callbackStatus: 'pending' as const } : {}),
+  }
+
+  const created = await client.create(job)
+  return created._id
+}
+
+/**
+ * Mark a job as running
+ * Failures are logged rather than thrown so they never stop the run
+ */
+export async function startRemoteJob(client: SanityClient, jobId: string): Promise<void> {
+  try {
+    await client.patch(jobId).set({ status: 'running', startedAt: new Date().toISOString() }).commit()
+  } catch (error) {
+    console.error('[Remote Claude API] Failed to update job:', error)
+  }
+}
+
+/**
+ * Store a finished job's response
+ * Failures are logged rather than thrown so the callback is still sent
+ */
+export async function completeRemoteJob(
+  client: SanityClient,
+  jobId: string,
+  response: Partial<RemoteClaudeResponse>
+): Promise<void> {
+  try {
+    await client
+      .patch(jobId)
+      .set({
+        status: response.success ? 'succeeded' : 'failed',
+        completedAt: new Date().toISOString(),
+        result: JSON.stringify(response),
+        ...(response.error ? { error: response.error } : {}),
+      })
+      .commit()
+  } catch (error) {
+    console.error('[Remote Claude API] Failed to update job:', error)
+  }
+}
+
+/**
+ * Load a job queued with an API key
+ * Jobs from before API keys were added belong to the CLAUDE_REMOTE_API_SECRET key.
+ */
+export async function loadRemoteJob(
+  client: SanityClient,
+  jobId: string,
+  apiKey: RemoteApiKey
+): Promise<RemoteJobDocument | null> {
+  const job = await client.fetch<RemoteJobDocument | null>(
+    `*[_type == "claudeRemoteJob" && _id == $jobId][0]`,
+    { jobId }
+  )
+  return job && (job.apiKeyId || 'env') === apiKey.id ? job : null
+}
+
+/**
+ * Public view of a job, as returned by the job status endpoint
+ */
+export function toJobStatusResponse(job: RemoteJobDocument): RemoteJobStatusResponse {
+  let response: Partial<RemoteClaudeResponse> | undefined
+  if (job.result) {
+    try {
+      response = JSON.parse(job.result)
+    } catch {
+      response = undefined
+    }
+  }
+
+  return {
+    success: true,
+    jobId: job._id,
+    status: job.status,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    response,
+    error: job.error,
+    callback: job.callbackUrl
+      ? {
+          status: job.callbackStatus || 'pending',
+          attempts: job.callbackAttempts || 0,
+          error: job.callbackError,
+        }
+      : undefined,
+  }
+}
+
+/**
+ * HMAC-SHA256 signature of a callback body
+ */
+export function signCallback(body: string, timestamp: number, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+/**
+ * POST a finished job's response to its callback URL, retrying on failure,
+ * and record the outcome on the job
+ */
+export async function deliverJobCallback(
+  client: SanityClient,
+  jobId: string,
+  callbackUrl: string,
+  response: Partial<RemoteClaudeResponse>
+): Promise<void> {
+  const secret = getCallbackSecret() || ''
+  const payload: RemoteJobCallback = {
+    jobId,
+    status: response.success ? 'succeeded' : 'failed',
+    response,
+  }
+  const body = JSON.stringify(payload)
+
+  let attempts = 0
+  let lastError = ''
+  for (const delay of [0, ...CALLBACK_RETRY_DELAYS_MS]) {
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+    attempts++
+
+    try {
+      // Sign each attempt so receivers can reject stale timestamps
+      const timestamp = Math.floor(Date.now() / 1000)
+      // The host is checked again on every attempt, and redirects are not followed
+      const res = await fetchPublicUrl(new URL(callbackUrl), 'callbackUrl', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Claude-Job-Id': jobId,
+          'X-Claude-Timestamp': timestamp.toString(),
+          'X-Claude-Signature': signCallback(body, timestamp, secret),
+        },
+        body,
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      })
+      if (res.ok) {
+        lastError = ''
+        break
+      }
+      lastError = `Callback returned HTTP ${res.status}`
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Callback request failed'
+    }
+  }
+
+  if (lastError) {
+    console.warn('[Remote Claude API] Job callback failed:', jobId, lastError)
+  }
+
+  try {
+    await client
+      .patch(jobId)
+      .set({
+        callbackStatus: lastError ? 'failed' : 'delivered',
+        callbackAttempts: attempts,
+        ...(lastError ? { callbackError: lastError } : {}),
+      })
+      .commit()
+  } catch (error) {
+    console.error('[Remote Claude API] Failed to update job:', error)
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Remote Claude API Job Status Endpoint
+ *
+ * Returns the state of a job queued with "async": true on /api/claude/remote,
+ * and its response once it has finished.
+ *
+ * Authentication: Same API keys as the remote endpoint. Jobs are only
+ * visible to the key that queued them.
+ *
+ * @example
+ * GET /api/claude/remote/jobs/8f14e45f-ceea-4e7a-9b1c-6f5e2d3a4b5c
+ * Authorization: Bearer your-secret-key
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '../../auth'
+import { isValidJobId, loadRemoteJob, toJobStatusResponse } from '../../job-store'
+import { createSanityClient } from '../../sanity-loader'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * GET handler - Job status and result
+ */
+export async function GET(request: NextRequest, props: Props) {
+  const authResult = await authenticateRequest(request)
+  if (!authResult.valid) {
+    return NextResponse.json({ success: false, error: authResult.error }, { status: 401 })
+  }
+
+  const { id } = await props.params
+  if (!isValidJobId(id)) {
+    return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 })
+  }
+
+  try {
+    const job = await loadRemoteJob(createSanityClient(), id, authResult.key)
+    if (!job) {
+      return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(toJobStatusResponse(job), {
+      headers: { 'Cache-Control': 'no-store' },
+    })
+  } catch (error) {
+    console.error('[Remote Claude API] Failed to load job:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load job' },
+      { status: 500 }
+    )
+  }
+}
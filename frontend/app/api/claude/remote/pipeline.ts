@@ -0,0 +1,92 @@
+/**
+ * Workflow Pipelines for Remote API
+ *
+ * A workflow with steps runs one step after another within a request, and
+ * stops after the first step that requires approval. The caller continues
+ * with a new request that sets workflowStep. Step checks and step prompts
+ * come from claude-core, shared with the studio plugin.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk'
+import {
+  buildToolResults,
+  contentToMarkdown,
+  getActionTools,
+  REMOTE_ACTION_TYPES,
+  type WorkflowStep,
+} from 'claude-core'
+import type { ExecutedAction, RemotePipelineStatus, RemotePipelineStopReason, WorkflowDocument } from './types'
+
+/**
+ * The workflow's steps, with their instructions as Markdown
+ */
+export function getWorkflowSteps(workflow: WorkflowDocument | null): WorkflowStep[] {
+  return (workflow?.steps || []).map(step => ({
+    key: step.key,
+    title: step.title || 'Untitled step',
+    instructions: contentToMarkdown(step.instructions),
+    allowedActions: step.allowedActions || undefined,
+    requireApproval: step.requireApproval || undefined,
+  }))
+}
+
+/**
+ * Tools offered in a step: only those for the step's allowed actions
+ */
+export function getStepTools(step: WorkflowStep | undefined): Anthropic.Tool[] {
+  return getActionTools({ actionTypes: REMOTE_ACTION_TYPES, workflowStep: step })
+}
+
+/**
+ * Build the user message that moves the run on to the next step: a
+ * tool_result for every tool call of the finished step, then the hand-over
+ */
+export function buildStepTransition(
+  executed: ExecutedAction[],
+  steps: WorkflowStep[],
+  nextIndex: number
+): Anthropic.ContentBlockParam[] {
+  const finished = steps[nextIndex - 1]
+  const next = steps[nextIndex]
+
+  return [
+    ...buildToolResults(executed),
+    {
+      type: 'text',
+      text: `Step ${nextIndex} "${finished.title}" is done. Continue with step ${nextIndex + 1}: ${next.title}.`,
+    },
+  ]
+}
+
+/**
+ * Describe where a pipeline run got to
+ *
+ * @param completed - Indexes of the steps that finished in this run
+ * @param stoppedIndex - Index of the step the run stopped in before it finished
+ */
+export function buildPipelineStatus(
+  steps: WorkflowStep[],
+  status: RemotePipelineStopReason,
+  completed: number[],
+  stoppedIndex?: number
+): RemotePipelineStatus {
+  const lastCompleted = completed.length > 0 ? completed[completed.length - 1] : undefined
+
+  let nextStep: number | undefined
+  if (status === 'stopped' && stoppedIndex !== undefined) {
+    nextStep = stoppedIndex + 1
+  } else if (status === 'awaitingApproval' && lastCompleted !== undefined) {
+    nextStep = lastCompleted + 2
+  }
+
+  return {
+    status,
+    steps: steps.map((step, index) => ({
+      step: index + 1,
+      title: step.title,
+      requireApproval: !!step.requireApproval,
+      status: completed.includes(index) ? 'completed' : index === stoppedIndex ? 'stopped' : 'notRun',
+    })),
+    ...(nextStep ? { nextStep } : {}),
+  }
+}
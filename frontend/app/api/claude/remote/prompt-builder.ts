@@ -2,19 +2,35 @@
  * Prompt Builder for Remote API
  *
  * Builds the system prompt for Claude using instructions, workflows,
- * and schema context. Mirrors the logic from the Studio plugin but
- * works in a server-side context.
+ * and schema context. Claude Training instructions are formatted by
+ * claude-core, exactly as in the Studio. The prompt is assembled from
+ * described sections, so ?explainPrompt=1 reports exactly what is sent.
  */
 
+import {
+  describePromptSection,
+  explainInstructionsForClaude,
+  explainPromptSections,
+  formatAccessControlForPrompt,
+  INSTRUCTION_CATEGORIES,
+  joinPromptSections,
+  matchInstructionCategories,
+  omitPromptSection,
+  selectPromptCategories,
+  type PromptSection,
+} from 'claude-core'
 import type {
   InstructionsDocument,
   WorkflowDocument,
+  AccessControlDocument,
   InstructionCategory,
+  RemotePromptExplanation,
 } from './types'
-import { getServerSchemaContext, detectRelevantCategories } from './sanity-loader'
+import { getServerSchemaContext } from './sanity-loader'
 
 /**
- * Base system prompt for the Claude assistant (same as Studio plugin)
+ * Base system prompt for the remote API - tools and instructions are shared with the Studio,
+ * but the rules for acting without a user differ
  */
 const BASE_SYSTEM_PROMPT = `You are an AI assistant that helps create and manage content in Sanity CMS. You are being accessed via a remote API, which means:
 
@@ -27,78 +43,64 @@ const BASE_SYSTEM_PROMPT = `You are an AI assistant that helps create and manage
 1. **Create Content**: You can create new documents of any available type
 2. **Update Content**: You can modify existing documents
 3. **Delete Content**: You can remove documents
-4. **Query Content**: You can search and retrieve documents using GROQ queries
+4. **Publish Content**: You can publish, unpublish, discard drafts and schedule publishing
+5. **Query Content**: You can search and retrieve documents using GROQ queries
 
-## Action Format
+## Performing Actions
 
-When you need to perform an action, output it in this format:
+Perform actions by calling the provided tools: \`create\`, \`update\`, \`patch\`, \`delete\`, \`publish\`, \`unpublish\`, \`discardDraft\`, \`schedulePublish\`, \`query\`, \`navigate\` and \`explain\`. Every tool takes a \`description\` of what the action does. Do NOT write actions as JSON code blocks in your reply - only tool calls are executed.
 
-\`\`\`action
-{
-  "type": "create|update|delete|query",
-  "description": "Human-readable description of what this action does",
-  "payload": {
-    // For create:
-    "documentType": "page",
-    "fields": { "title": "New Page", "slug": { "current": "new-page" } }
-
-    // For update:
-    "documentId": "abc123",
-    "fields": { "title": "Updated Title" }
-
-    // For delete:
-    "documentId": "abc123"
-
-    // For query:
-    "query": "*[_type == 'page'][0...10]{ _id, _type, ... }"
-  }
-}
-\`\`\`
+- \`create\`: \`documentType\` and \`fields\`, e.g. \`{ "title": "New Page", "slug": { "current": "new-page" } }\`
+- \`update\`: \`documentId\` and \`fields\`, e.g. \`{ "title": "Updated Title" }\`
+- \`patch\`: \`documentId\` and \`operations\`, e.g. \`[{ "op": "insert", "path": "pageBuilder[_key==\\"abc123\\"]", "position": "after", "items": [...] }]\`. Ops: insert and move (before/after a keyed item), append (to the end of an array), replace, unset and inc. Prefer patch over update for adding, removing or reordering array items - existing items are never rewritten, and all operations apply together or not at all.
+- \`delete\`: \`documentId\`
+- \`publish\`, \`unpublish\`, \`discardDraft\`: \`documentId\`. Writes only ever change drafts - only publish, unpublish or discard when the request explicitly asks for it
+- \`schedulePublish\`: \`documentId\` and \`publishAt\`, an ISO 8601 date-time with time zone offset. Resolve relative times against the current date below
+- \`query\`: \`query\`, e.g. \`*[_type == 'page'][0...10]{ _id, _type, ... }\`
+
+Query results are sent back to you automatically, so you can look up real \`_id\` and \`_key\` values before writing. Write actions (create, update, patch, delete and the publishing actions) end the request - only call them once you have the IDs you need, and never in the same response as a query they depend on. When one response calls two or more of create, update, patch and delete, they run as one batch in a single transaction: either every change applies or none does, so put related changes in the same response.
 
 ## Creating Pages with Nested Content
 
-When creating pages with the page builder, include complete nested structures:
+When creating pages with the page builder, call the \`create\` tool with complete nested structures:
 
-\`\`\`action
+\`\`\`json
 {
-  "type": "create",
   "description": "Create a new landing page with hero section",
-  "payload": {
-    "documentType": "page",
-    "fields": {
-      "name": "Landing Page",
-      "slug": { "_type": "slug", "current": "landing-page" },
-      "pageBuilder": [
-        {
-          "_key": "abc123def4",
-          "_type": "section",
-          "label": "Hero",
-          "paddingTop": "default",
-          "maxWidth": "container",
-          "rows": [
-            {
-              "_key": "row123abc4",
-              "_type": "row",
-              "columns": [
-                {
-                  "_key": "col123abc4",
-                  "_type": "column",
-                  "widthDesktop": "12",
-                  "content": [
-                    {
-                      "_key": "blk123abc4",
-                      "_type": "headingBlock",
-                      "text": "Welcome",
-                      "level": "h1"
-                    }
-                  ]
-                }
-              ]
-            }
-          ]
-        }
-      ]
-    }
+  "documentType": "page",
+  "fields": {
+    "name": "Landing Page",
+    "slug": { "_type": "slug", "current": "landing-page" },
+    "pageBuilder": [
+      {
+        "_key": "abc123def4",
+        "_type": "section",
+        "label": "Hero",
+        "paddingTop": "default",
+        "maxWidth": "container",
+        "rows": [
+          {
+            "_key": "row123abc4",
+            "_type": "row",
+            "columns": [
+              {
+                "_key": "col123abc4",
+                "_type": "column",
+                "widthDesktop": "12",
+                "content": [
+                  {
+                    "_key": "blk123abc4",
+                    "_type": "headingBlock",
+                    "text": "Welcome",
+                    "level": "h1"
+                  }
+                ]
+              }
+            ]
+          }
+        ]
+      }
+    ]
   }
 }
 \`\`\`
@@ -120,127 +122,6 @@ Since this is a remote/automated context:
 - If the request is ambiguous, ask a clarifying question in your response
 `
 
-/**
- * Convert Portable Text to plain text (simplified version for server-side)
- */
-function portableTextToPlainText(content: unknown): string {
-  if (!content) return ''
-  if (typeof content === 'string') return content
-
-  if (Array.isArray(content)) {
-    return content
-      .filter((block): block is { _type: string; children?: Array<{ text?: string }> } =>
-        block && typeof block === 'object' && block._type === 'block'
-      )
-      .map(block => {
-        if (!block.children) return ''
-        return block.children
-          .filter((child): child is { text: string } => child && typeof child.text === 'string')
-          .map(child => child.text)
-          .join('')
-      })
-      .join('\n\n')
-  }
-
-  return ''
-}
-
-/**
- * Format instructions for the prompt based on selected categories
- */
-function formatInstructions(
-  instructions: InstructionsDocument,
-  categories: Set<InstructionCategory>
-): string {
-  const parts: string[] = []
-
-  // Always include forbidden terms (critical for brand safety)
-  if (instructions.forbiddenTerms && instructions.forbiddenTerms.length > 0) {
-    parts.push('## Forbidden Terms (ALWAYS FOLLOW)')
-    instructions.forbiddenTerms.forEach(term => {
-      parts.push(`- Never use: "${term}"`)
-    })
-    parts.push('')
-  }
-
-  // Always include max nesting depth
-  const maxNesting = instructions.maxNestingDepth || 12
-  parts.push('## Core Technical Constraints')
-  parts.push(`- Maximum nesting depth: ${maxNesting} levels`)
-  parts.push('- Build pages incrementally to avoid depth limits')
-  parts.push('')
-
-  // Writing guidelines (conditional)
-  if (categories.has('writing')) {
-    const writingContent = portableTextToPlainText(instructions.writingGuidelines)
-    if (writingContent) {
-      parts.push('## Writing Guidelines')
-      parts.push(writingContent)
-      parts.push('')
-    }
-
-    const brandVoice = portableTextToPlainText(instructions.brandVoice)
-    if (brandVoice) {
-      parts.push('### Brand Voice')
-      parts.push(brandVoice)
-      parts.push('')
-    }
-
-    if (instructions.preferredTerms && instructions.preferredTerms.length > 0) {
-      parts.push('### Preferred Terms')
-      instructions.preferredTerms.forEach(term => {
-        parts.push(`- Instead of "${term.avoid}", use "${term.useInstead}"`)
-      })
-      parts.push('')
-    }
-  }
-
-  // Design guidelines (conditional)
-  if (categories.has('design')) {
-    const designContent = portableTextToPlainText(instructions.designSystemRules)
-    if (designContent) {
-      parts.push('## Design System Rules')
-      parts.push(designContent)
-      parts.push('')
-    }
-
-    if (instructions.componentGuidelines && instructions.componentGuidelines.length > 0) {
-      parts.push('### Component Guidelines')
-      instructions.componentGuidelines.forEach(comp => {
-        parts.push(`**${comp.component}**`)
-        if (comp.guidelines) {
-          parts.push(`- Guidelines: ${comp.guidelines}`)
-        }
-        if (comp.doNot) {
-          parts.push(`- Avoid: ${comp.doNot}`)
-        }
-        parts.push('')
-      })
-    }
-  }
-
-  // Technical constraints (conditional)
-  if (categories.has('technical')) {
-    const technicalContent = portableTextToPlainText(instructions.technicalConstraints)
-    if (technicalContent) {
-      parts.push('## Technical Constraints')
-      parts.push(technicalContent)
-      parts.push('')
-    }
-
-    if (instructions.requiredFields && instructions.requiredFields.length > 0) {
-      parts.push('### Required Fields')
-      instructions.requiredFields.forEach(rule => {
-        const fields = rule.fields?.join(', ') || 'None specified'
-        parts.push(`- ${rule.component}: ${fields}`)
-      })
-      parts.push('')
-    }
-  }
-
-  return parts.join('\n')
-}
-
 /**
  * Build context string for selected documents
  */
@@ -284,6 +165,9 @@ export interface BuildPromptOptions {
 
   /** Additional context text */
   additionalContext?: string
+
+  /** Access restrictions from the claudeAccessControl singleton */
+  accessControl?: AccessControlDocument | null
 }
 
 /**
@@ -293,49 +177,108 @@ export function buildSystemPrompt(options: BuildPromptOptions): {
   prompt: string
   includedCategories: InstructionCategory[]
 } {
-  const parts: string[] = [BASE_SYSTEM_PROMPT]
+  const { prompt, includedCategories } = explainSystemPrompt(options)
+  return { prompt, includedCategories }
+}
 
-  // Add schema context
-  parts.push('\n## Available Schema\n')
-  parts.push(getServerSchemaContext())
+/**
+ * Build the system prompt as buildSystemPrompt does, section by section, with
+ * why each section was included or left out and its estimated token count
+ */
+export function explainSystemPrompt(options: BuildPromptOptions): RemotePromptExplanation {
+  const sections: PromptSection[] = [
+    describePromptSection('Base Prompt', [BASE_SYSTEM_PROMPT], 'Always included: capabilities and remote API rules'),
+  ]
+
+  // Add the current date so relative publish times can be resolved
+  sections.push(describePromptSection(
+    'Current Date',
+    ['\n## Current Date\n', `${new Date().toISOString()} (UTC)`],
+    'Always included so relative publish times can be resolved'
+  ))
 
-  // Determine which instruction categories to include
-  let categories: Set<InstructionCategory>
-  if (options.includeCategories) {
-    categories = new Set(options.includeCategories)
+  // Add schema context
+  sections.push(describePromptSection(
+    'Available Schema',
+    ['\n## Available Schema\n', getServerSchemaContext(options.accessControl)],
+    'Always included: the document types Claude may work with'
+  ))
+
+  // Add access restrictions
+  const accessRestrictions = formatAccessControlForPrompt(options.accessControl)
+  if (accessRestrictions) {
+    sections.push(describePromptSection(
+      'Access Restrictions',
+      ['\n## Access Restrictions\n', accessRestrictions],
+      'Access control restricts what Claude may change'
+    ))
   } else {
-    categories = detectRelevantCategories(options.userMessage, options.instructions)
+    sections.push(omitPromptSection('Access Restrictions', 'Access control sets no restrictions'))
   }
 
+  // Determine which instruction categories to include
+  const categories = options.includeCategories
+    ? selectPromptCategories(
+        INSTRUCTION_CATEGORIES,
+        options.includeCategories,
+        'Requested in includeInstructions',
+        'Not requested in includeInstructions'
+      )
+    : matchInstructionCategories(options.userMessage, options.instructions)
+
   // Add instructions
   if (options.instructions) {
-    const formattedInstructions = formatInstructions(options.instructions, categories)
-    if (formattedInstructions) {
-      parts.push('\n## Custom Instructions\n')
-      parts.push(formattedInstructions)
-    }
+    const { sections: instructionSections } = explainInstructionsForClaude(options.instructions, { categories })
+    sections.push(describePromptSection(
+      'Custom Instructions',
+      ['\n## Custom Instructions\n', joinPromptSections(instructionSections)],
+      options.includeCategories
+        ? 'Claude Training, with the categories in includeInstructions'
+        : 'Claude Training, filtered by the keywords in the message',
+      { sections: instructionSections }
+    ))
+  } else {
+    sections.push(omitPromptSection('Custom Instructions', 'No Claude Training document is published'))
   }
 
   // Add workflow context
   if (options.workflow?.systemInstructions) {
-    parts.push('\n## Active Workflow: ' + options.workflow.name + '\n')
-    parts.push(options.workflow.systemInstructions)
+    sections.push(describePromptSection(
+      'Active Workflow',
+      ['\n## Active Workflow: ' + options.workflow.name + '\n', options.workflow.systemInstructions],
+      `The request uses workflow "${options.workflow.name}"`
+    ))
+  } else {
+    sections.push(omitPromptSection(
+      'Active Workflow',
+      options.workflow ? `Workflow "${options.workflow.name}" has no system instructions` : 'The request uses no workflow'
+    ))
   }
 
   // Add document context
   if (options.contextDocuments && options.contextDocuments.length > 0) {
-    parts.push('\n')
-    parts.push(formatDocumentContext(options.contextDocuments))
+    sections.push(describePromptSection(
+      'Document Context',
+      ['\n', formatDocumentContext(options.contextDocuments)],
+      `${options.contextDocuments.length} document${options.contextDocuments.length === 1 ? '' : 's'} given in context.documents`
+    ))
+  } else {
+    sections.push(omitPromptSection('Document Context', 'No documents given in context.documents'))
   }
 
   // Add additional context
   if (options.additionalContext) {
-    parts.push('\n## Additional Context\n')
-    parts.push(options.additionalContext)
+    sections.push(describePromptSection(
+      'Additional Context',
+      ['\n## Additional Context\n', options.additionalContext],
+      'Given in context.additionalContext'
+    ))
+  } else {
+    sections.push(omitPromptSection('Additional Context', 'No context.additionalContext given'))
   }
 
   return {
-    prompt: parts.join('\n'),
-    includedCategories: Array.from(categories),
+    ...explainPromptSections(sections, categories),
+    includedCategories: categories.filter(match => match.included).map(match => match.category),
   }
 }
@@ -0,0 +1,83 @@
+/**
+ * Rate Limits for Remote API Keys
+ *
+ * Each API key has one request budget per minute, shared by every endpoint
+ * it can call (the remote API and the MCP server), so a key cannot get
+ * around its limit by switching endpoints. Failed authentication attempts
+ * are limited per client address, so keys cannot be guessed.
+ */
+
+import type { NextRequest } from 'next/server'
+import type { RemoteApiKey } from './types'
+
+// Rate limiting configuration
+const RATE_LIMIT_WINDOW_MS = 60 * 1000 // 1 minute window
+const RATE_LIMIT_MAX_REQUESTS = parseInt(process.env.CLAUDE_REMOTE_RATE_LIMIT || '30', 10) // 30 requests per minute default
+
+// In-memory rate limit store (for single-instance deployments)
+// For production with multiple instances, use Redis or similar
+const rateLimitStore = new Map<string, { count: number; windowStart: number }>()
+
+/**
+ * Result of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetIn: number
+}
+
+/**
+ * Simple sliding window rate limiter
+ * Returns { allowed, limit, remaining, resetIn }
+ *
+ * @param cost - Requests to count, e.g. the messages in a JSON-RPC batch
+ */
+export function checkRateLimit(clientId: string, limit: number = RATE_LIMIT_MAX_REQUESTS, cost: number = 1): RateLimitResult {
+  const now = Date.now()
+  const record = rateLimitStore.get(clientId)
+
+  // Clean up old entries periodically (every 100 checks)
+  if (Math.random() < 0.01) {
+    for (const [key, value] of rateLimitStore.entries()) {
+      if (now - value.windowStart > RATE_LIMIT_WINDOW_MS * 2) {
+        rateLimitStore.delete(key)
+      }
+    }
+  }
+
+  if (!record || now - record.windowStart > RATE_LIMIT_WINDOW_MS) {
+    // New window
+    // More requests at once than the limit allows are never allowed
+    if (cost > limit) {
+      return { allowed: false, limit, remaining: limit, resetIn: RATE_LIMIT_WINDOW_MS }
+    }
+    rateLimitStore.set(clientId, { count: cost, windowStart: now })
+    return { allowed: true, limit, remaining: limit - cost, resetIn: RATE_LIMIT_WINDOW_MS }
+  }
+
+  if (record.count + cost > limit) {
+    const resetIn = RATE_LIMIT_WINDOW_MS - (now - record.windowStart)
+    return { allowed: false, limit, remaining: limit - record.count, resetIn }
+  }
+
+  record.count += cost
+  const resetIn = RATE_LIMIT_WINDOW_MS - (now - record.windowStart)
+  return { allowed: true, limit, remaining: limit - record.count, resetIn }
+}
+
+/**
+ * Check and count requests against an API key's own limit
+ */
+export function checkApiKeyRateLimit(key: RemoteApiKey, cost: number = 1): RateLimitResult {
+  return checkRateLimit(`key:${key.id}`, key.rateLimit || RATE_LIMIT_MAX_REQUESTS, cost)
+}
+
+/**
+ * Rate limit key for failed authentication attempts, by client address,
+ * so keys cannot be guessed by varying the Authorization header
+ */
+export function getAuthFailureId(request: NextRequest): string {
+  return `auth:${request.headers.get('x-forwarded-for') || 'unknown'}`
+}
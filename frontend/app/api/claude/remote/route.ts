@@ -10,16 +10,54 @@
  * - Apply specific workflows by name
  * - Create, update, and query content in Sanity
  *
- * Authentication: Requires CLAUDE_REMOTE_API_SECRET in the Authorization header
+ * Read-only actions (query, explain) run automatically and their results are
+ * sent back to Claude, so one request can look up real IDs before writing.
+ * The run ends when Claude requests a write action or the step/token budget
+ * (maxSteps / tokenBudget) runs out.
+ *
+ * Long conversation histories are compacted: once the history passes the
+ * summary threshold in API settings, its older messages are summarized and
+ * the summary is returned in metadata.conversationSummary to send back.
+ *
+ * With "stream": true the run is sent as Server-Sent Events: `text` deltas,
+ * each `action` Claude requests, each `actionResult`, then `done` with the
+ * same body as the JSON response (or `error`). See RemoteStreamEvents.
+ *
+ * With "holdActions" (e.g. ["delete"], or claude-core's DESTRUCTIVE_ACTION_TYPES
+ * for everything the Studio asks to confirm) actions of those types are not
+ * run but returned in pendingApproval; POST /api/claude/remote/approvals/{approvalId}
+ * approves or rejects them.
+ *
+ * Workflows with steps run as pipelines: each step has its own instructions
+ * and allowed actions, and maxSteps applies per step. The run stops after a
+ * step that requires approval; response.pipeline reports progress, and
+ * sending its nextStep as "workflowStep" continues the pipeline.
+ *
+ * Workflows with parameters take their values as "params": they are
+ * validated, referenced documents and images are looked up, and the filled-in
+ * starter prompt starts the user message ("message" is then optional).
+ *
+ * With ?explainPrompt=1 nothing runs: the response is the system prompt the
+ * request would run with, section by section, with why each section and
+ * instruction category was included or left out and estimated token counts.
+ *
+ * With "async": true the request is queued as a claudeRemoteJob and a job ID
+ * is returned (202). Poll GET /api/claude/remote/jobs/{jobId}, or pass a
+ * "callbackUrl" to receive the response as a signed POST (see job-store.ts).
+ *
+ * Authentication: Requires an API key in the Authorization header. Keys are
+ * claudeApiKey documents with their own scopes, rate limit and expiry (see
+ * auth.ts); CLAUDE_REMOTE_API_SECRET, if set, is accepted as a full-access key.
  *
  * Required Environment Variables:
  * - ANTHROPIC_API_KEY: Anthropic API key for Claude calls
- * - CLAUDE_REMOTE_API_SECRET: Secret for authenticating remote API requests
+ * - CLAUDE_REMOTE_API_SECRET: Full-access key for remote API requests (optional with claudeApiKey documents)
  * - SANITY_API_TOKEN: Sanity API token with write access
  * - SANITY_PROJECT_ID: Sanity project ID (or NEXT_PUBLIC_SANITY_PROJECT_ID)
  * - SANITY_STUDIO_URL: URL to Sanity Studio for generating links (optional)
  * - ALLOWED_CORS_ORIGINS: Comma-separated list of allowed CORS origins (optional)
- * - CLAUDE_REMOTE_RATE_LIMIT: Max requests per minute per client (default: 30)
+ * - CLAUDE_REMOTE_RATE_LIMIT: Max requests per minute per API key without its own limit (default: 30)
+ * - CLAUDE_REMOTE_CALLBACK_SECRET: Key for signing async job callbacks (optional, defaults to CLAUDE_REMOTE_API_SECRET)
  *
  * @example
  * POST /api/claude/remote
@@ -32,27 +70,91 @@
  * }
  */
 
-import { createHash, timingSafeEqual } from 'crypto'
+import { createHash } from 'crypto'
 import Anthropic from '@anthropic-ai/sdk'
-import { NextRequest, NextResponse } from 'next/server'
+import { after, NextRequest, NextResponse } from 'next/server'
+import type { SanityClient } from '@sanity/client'
+import {
+  addUsage,
+  buildAgentFollowUp,
+  buildToolResults,
+  checkStepAction,
+  DEFAULT_MODEL_PRICES,
+  DEFAULT_SUMMARY_THRESHOLD_TOKENS,
+  describePromptSection,
+  EMPTY_USAGE,
+  estimateCost,
+  executeAction,
+  executeBatch,
+  explainPromptSections,
+  extractTextContent,
+  findCompactionPoint,
+  formatSummaryForPrompt,
+  formatWorkflowStepForPrompt,
+  getAgentStopReason,
+  getApiKeyQueryScope,
+  isBatchableAction,
+  isReadOnlyAction,
+  isValidActionType,
+  omitPromptSection,
+  parseResponseActions,
+  toTokenUsage,
+  type ExecutorOptions,
+  type TokenUsage,
+  type ToolUseBlock,
+  type WorkflowStep,
+} from 'claude-core'
 import {
   createSanityClient,
+  getServerValidator,
   loadInstructions,
   loadApiSettings,
+  loadAccessControl,
   loadWorkflow,
   loadDocumentsForContext,
 } from './sanity-loader'
-import { buildSystemPrompt } from './prompt-builder'
+import {
+  authenticateRequest,
+  checkApiKeyAction,
+  checkApiKeyRequest,
+  checkApiKeyWorkflow,
+  getApiKeyAuditContext,
+} from './auth'
+import { createRemoteApproval } from './approval-store'
+import { checkApiKeyRateLimit, checkRateLimit, getAuthFailureId, type RateLimitResult } from './rate-limit'
+import {
+  completeRemoteJob,
+  createRemoteJob,
+  deliverJobCallback,
+  startRemoteJob,
+  validateCallbackUrl,
+} from './job-store'
+import { buildSystemPrompt, explainSystemPrompt, type BuildPromptOptions } from './prompt-builder'
+import { generateStudioLinks } from './studio-links'
+import { recordRemoteUsage } from './usage'
+import { openBudgetMeter, type BudgetMeter } from '../budget'
+import { summarizeMessages } from '../summary'
 import type {
   RemoteClaudeRequest,
   RemoteClaudeResponse,
   ExecutedAction,
+  ActionResult,
   InstructionCategory,
+  AgentStepRecord,
+  ApiSettingsDocument,
+  ParsedAction,
+  RemoteApiKey,
+  RemoteExplainPromptResponse,
+  RemoteJobAcceptedResponse,
+  RemotePipelineStopReason,
+  RemotePromptExplanation,
+  RemoteStopReason,
+  RemoteStreamEmitter,
+  WorkflowDocument,
 } from './types'
 
-// Import local utilities for server-side action parsing and execution
-import { parseActions, extractTextContent } from './action-parser'
-import { executeAction } from './content-operations'
+import { buildPipelineStatus, buildStepTransition, getStepTools, getWorkflowSteps } from './pipeline'
+import { resolveWorkflowParams } from './workflow-parameters'
 
 // Initialize Anthropic client
 const anthropic = new Anthropic({
@@ -63,52 +165,17 @@ const anthropic = new Anthropic({
 const DEFAULT_MODEL = 'claude-sonnet-4-20250514'
 const DEFAULT_MAX_TOKENS = 4096
 const DEFAULT_TEMPERATURE = 0.7
+const DEFAULT_AGENT_MAX_STEPS = 5
+const DEFAULT_AGENT_TOKEN_BUDGET = 100000
 
 // Input size limits
 const MAX_MESSAGE_LENGTH = 50000
-const MAX_CONVERSATION_HISTORY = 50
+// History past the summary threshold is compacted into a summary before the
+// model sees it (see findCompactionPoint), so this cap only bounds how many
+// messages one summary request reads. It matches the Slack adapter's thread limit.
+const MAX_CONVERSATION_HISTORY = 200
 const MAX_CONTEXT_DOCUMENTS = 20
-
-// Rate limiting configuration
-const RATE_LIMIT_WINDOW_MS = 60 * 1000 // 1 minute window
-const RATE_LIMIT_MAX_REQUESTS = parseInt(process.env.CLAUDE_REMOTE_RATE_LIMIT || '30', 10) // 30 requests per minute default
-
-// In-memory rate limit store (for single-instance deployments)
-// For production with multiple instances, use Redis or similar
-const rateLimitStore = new Map<string, { count: number; windowStart: number }>()
-
-/**
- * Simple sliding window rate limiter
- * Returns { allowed: boolean, remaining: number, resetIn: number }
- */
-function checkRateLimit(clientId: string): { allowed: boolean; remaining: number; resetIn: number } {
-  const now = Date.now()
-  const record = rateLimitStore.get(clientId)
-
-  // Clean up old entries periodically (every 100 checks)
-  if (Math.random() < 0.01) {
-    for (const [key, value] of rateLimitStore.entries()) {
-      if (now - value.windowStart > RATE_LIMIT_WINDOW_MS * 2) {
-        rateLimitStore.delete(key)
-      }
-    }
-  }
-
-  if (!record || now - record.windowStart > RATE_LIMIT_WINDOW_MS) {
-    // New window
-    rateLimitStore.set(clientId, { count: 1, windowStart: now })
-    return { allowed: true, remaining: RATE_LIMIT_MAX_REQUESTS - 1, resetIn: RATE_LIMIT_WINDOW_MS }
-  }
-
-  if (record.count >= RATE_LIMIT_MAX_REQUESTS) {
-    const resetIn = RATE_LIMIT_WINDOW_MS - (now - record.windowStart)
-    return { allowed: false, remaining: 0, resetIn }
-  }
-
-  record.count++
-  const resetIn = RATE_LIMIT_WINDOW_MS - (now - record.windowStart)
-  return { allowed: true, remaining: RATE_LIMIT_MAX_REQUESTS - record.count, resetIn }
-}
+const MAX_AGENT_STEPS = 20
 
 /**
  * Generate a client identifier for rate limiting
@@ -130,6 +197,7 @@ function logRequest(
     message: string
     workflow?: string
     dryRun?: boolean
+    apiKey?: RemoteApiKey
   },
   response: {
     success: boolean
@@ -147,6 +215,7 @@ function logRequest(
       messagePreview: request.message.substring(0, 100) + (request.message.length > 100 ? '...' : ''),
       workflow: request.workflow || null,
       dryRun: request.dryRun || false,
+      apiKey: request.apiKey ? { id: request.apiKey.id, name: request.apiKey.name } : null,
     },
     response: {
       success: response.success,
@@ -160,64 +229,29 @@ function logRequest(
   console[logLevel]('[Remote Claude API]', JSON.stringify(logEntry))
 }
 
-/**
- * Timing-safe string comparison to prevent timing attacks
- */
-function secureCompare(a: string, b: string): boolean {
-  // Hash both strings to ensure equal length comparison
-  const hashA = createHash('sha256').update(a).digest()
-  const hashB = createHash('sha256').update(b).digest()
-  return timingSafeEqual(hashA, hashB)
-}
-
-/**
- * Validate the API secret using timing-safe comparison
- */
-function validateAuth(request: NextRequest): { valid: boolean; error?: string } {
-  const authHeader = request.headers.get('authorization')
-
-  if (!authHeader) {
-    return { valid: false, error: 'Missing Authorization header' }
-  }
-
-  const secret = process.env.CLAUDE_REMOTE_API_SECRET
-  if (!secret) {
-    return { valid: false, error: 'CLAUDE_REMOTE_API_SECRET not configured on server' }
-  }
-
-  // Support both "Bearer <token>" and just "<token>"
-  const token = authHeader.startsWith('Bearer ')
-    ? authHeader.slice(7)
-    : authHeader
-
-  // Use timing-safe comparison to prevent timing attacks
-  if (!secureCompare(token, secret)) {
-    return { valid: false, error: 'Invalid API secret' }
-  }
-
-  return { valid: true }
-}
-
 /**
  * Validate the request body with size limits
  */
-function validateRequest(body: unknown): { valid: boolean; error?: string; data?: RemoteClaudeRequest } {
+async function validateRequest(body: unknown): Promise<{ valid: boolean; error?: string; data?: RemoteClaudeRequest }> {
   if (!body || typeof body !== 'object') {
     return { valid: false, error: 'Request body must be a JSON object' }
   }
 
   const request = body as RemoteClaudeRequest
 
-  if (!request.message || typeof request.message !== 'string') {
+  // With workflow params the message is optional: the filled-in starter prompt is sent
+  const message = request.message ?? (request.params !== undefined ? '' : undefined)
+
+  if (typeof message !== 'string') {
     return { valid: false, error: 'message field is required and must be a string' }
   }
 
-  if (request.message.trim().length === 0) {
+  if (request.params === undefined && message.trim().length === 0) {
     return { valid: false, error: 'message cannot be empty' }
   }
 
   // Input size limits
-  if (request.message.length > MAX_MESSAGE_LENGTH) {
+  if (message.length > MAX_MESSAGE_LENGTH) {
     return { valid: false, error: `Message exceeds maximum length of ${MAX_MESSAGE_LENGTH} characters` }
   }
 
@@ -226,6 +260,24 @@ function validateRequest(body: unknown): { valid: boolean; error?: string; data?
     return { valid: false, error: 'workflow must be a string (name or ID)' }
   }
 
+  if (request.workflowStep !== undefined) {
+    if (!Number.isInteger(request.workflowStep) || request.workflowStep < 1) {
+      return { valid: false, error: 'workflowStep must be a positive integer' }
+    }
+    if (!request.workflow) {
+      return { valid: false, error: 'workflowStep requires workflow' }
+    }
+  }
+
+  if (request.params !== undefined) {
+    if (!request.params || typeof request.params !== 'object' || Array.isArray(request.params)) {
+      return { valid: false, error: 'params must be an object of parameter values by name' }
+    }
+    if (!request.workflow) {
+      return { valid: false, error: 'params requires workflow' }
+    }
+  }
+
   if (request.includeInstructions !== undefined) {
     if (!Array.isArray(request.includeInstructions)) {
       return { valid: false, error: 'includeInstructions must be an array' }
@@ -255,33 +307,63 @@ function validateRequest(body: unknown): { valid: boolean; error?: string; data?
     }
   }
 
-  if (request.context?.documents && request.context.documents.length > MAX_CONTEXT_DOCUMENTS) {
-    return { valid: false, error: `Context documents exceeds maximum of ${MAX_CONTEXT_DOCUMENTS}` }
+  if (request.conversationSummary !== undefined) {
+    if (typeof request.conversationSummary !== 'string') {
+      return { valid: false, error: 'conversationSummary must be a string' }
+    }
+    if (request.conversationSummary.length > MAX_MESSAGE_LENGTH) {
+      return { valid: false, error: `conversationSummary exceeds maximum length of ${MAX_MESSAGE_LENGTH} characters` }
+    }
   }
 
-  return { valid: true, data: request }
-}
+  if (request.maxSteps !== undefined) {
+    if (!Number.isInteger(request.maxSteps) || request.maxSteps < 1 || request.maxSteps > MAX_AGENT_STEPS) {
+      return { valid: false, error: `maxSteps must be an integer between 1 and ${MAX_AGENT_STEPS}` }
+    }
+  }
 
-/**
- * Generate Studio URLs for documents
- */
-function generateStudioLinks(
-  documentIds: string[],
-  documentTypes: Map<string, string>
-): RemoteClaudeResponse['studioLinks'] {
-  const studioUrl = process.env.SANITY_STUDIO_URL || process.env.NEXT_PUBLIC_SANITY_STUDIO_URL || ''
-
-  return documentIds.map(docId => {
-    const docType = documentTypes.get(docId) || 'document'
-    const baseDocId = docId.replace(/^drafts\./, '')
-
-    return {
-      documentId: docId,
-      documentType: docType,
-      structureUrl: `${studioUrl}/structure/${docType};${docId}`,
-      presentationUrl: docType === 'page' ? `${studioUrl}/presentation?preview=/${baseDocId}` : undefined,
+  if (request.tokenBudget !== undefined) {
+    if (typeof request.tokenBudget !== 'number' || request.tokenBudget <= 0) {
+      return { valid: false, error: 'tokenBudget must be a positive number' }
     }
-  })
+  }
+
+  if (request.stream !== undefined && typeof request.stream !== 'boolean') {
+    return { valid: false, error: 'stream must be a boolean' }
+  }
+
+  if (request.async !== undefined && typeof request.async !== 'boolean') {
+    return { valid: false, error: 'async must be a boolean' }
+  }
+
+  if (request.async && request.stream) {
+    return { valid: false, error: 'async and stream cannot be combined' }
+  }
+
+  if (request.callbackUrl !== undefined) {
+    if (typeof request.callbackUrl !== 'string') {
+      return { valid: false, error: 'callbackUrl must be a string' }
+    }
+    if (!request.async) {
+      return { valid: false, error: 'callbackUrl requires async: true' }
+    }
+    const callbackError = await validateCallbackUrl(request.callbackUrl)
+    if (callbackError) {
+      return { valid: false, error: callbackError }
+    }
+  }
+
+  if (request.holdActions !== undefined) {
+    if (!Array.isArray(request.holdActions) || !request.holdActions.every(isValidActionType)) {
+      return { valid: false, error: 'holdActions must be an array of action types' }
+    }
+  }
+
+  if (request.context?.documents && request.context.documents.length > MAX_CONTEXT_DOCUMENTS) {
+    return { valid: false, error: `Context documents exceeds maximum of ${MAX_CONTEXT_DOCUMENTS}` }
+  }
+
+  return { valid: true, data: { ...request, message } }
 }
 
 /**
@@ -320,6 +402,605 @@ export async function OPTIONS(request: NextRequest) {
   })
 }
 
+/**
+ * Everything a validated request needs to run, loaded before any response is sent
+ */
+interface RemoteRun {
+  requestData: RemoteClaudeRequest
+  clientId: string
+  apiKey: RemoteApiKey
+  startTime: number
+  sanityClient: SanityClient
+  apiSettings: ApiSettingsDocument | null
+  workflow: WorkflowDocument | null
+  budget: BudgetMeter
+  executorOptions: ExecutorOptions
+  systemPrompt: string
+  includedCategories: InstructionCategory[]
+}
+
+/**
+ * Rate limit headers for a successful request
+ */
+function getRateLimitHeaders(rateLimit: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': rateLimit.limit.toString(),
+    'X-RateLimit-Remaining': rateLimit.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil((Date.now() + rateLimit.resetIn) / 1000).toString(),
+  }
+}
+
+/**
+ * Explain the system prompt a request runs with, including the sections the
+ * run adds: the conversation summary sent with the request and the workflow
+ * step the run starts in
+ */
+function explainRequestPrompt(
+  requestData: RemoteClaudeRequest,
+  workflow: WorkflowDocument | null,
+  promptOptions: BuildPromptOptions
+): RemotePromptExplanation {
+  const { sections, categories, includedCategories } = explainSystemPrompt(promptOptions)
+  const pipelineSteps = getWorkflowSteps(workflow)
+  const stageIndex = requestData.workflowStep ? requestData.workflowStep - 1 : 0
+
+  const runSections = [
+    ...sections,
+    requestData.conversationSummary
+      ? describePromptSection(
+          'Conversation Summary',
+          ['', formatSummaryForPrompt(requestData.conversationSummary)],
+          'Sent in conversationSummary; a long history may be summarized again when the request runs'
+        )
+      : omitPromptSection('Conversation Summary', 'No conversationSummary sent'),
+    pipelineSteps[stageIndex]
+      ? describePromptSection(
+          'Workflow Step',
+          ['', formatWorkflowStepForPrompt(workflow!.name, pipelineSteps, stageIndex)],
+          `The run starts in step ${stageIndex + 1} of ${pipelineSteps.length}; each later step replaces this section`
+        )
+      : omitPromptSection('Workflow Step', workflow ? `Workflow "${workflow.name}" has no steps` : 'The request uses no workflow'),
+  ]
+
+  return { ...explainPromptSections(runSections, categories), includedCategories }
+}
+
+/**
+ * Run the agent loop for a request and build the response
+ * When emit is given, text deltas, actions and action results are sent as they happen.
+ */
+async function runRemoteRequest(run: RemoteRun, emit?: RemoteStreamEmitter): Promise<RemoteClaudeResponse> {
+  const {
+    requestData,
+    clientId,
+    apiKey,
+    startTime,
+    sanityClient,
+    apiSettings,
+    workflow,
+    budget,
+    executorOptions,
+    systemPrompt,
+  } = run
+
+  // Determine model and settings
+  const model = requestData.model || apiSettings?.model || DEFAULT_MODEL
+  const maxTokens = requestData.maxTokens || apiSettings?.maxTokens || DEFAULT_MAX_TOKENS
+  const temperature = requestData.temperature ?? apiSettings?.temperature ?? DEFAULT_TEMPERATURE
+
+  // Summarize the older part of a long history instead of sending all of it
+  let history = requestData.conversationHistory || []
+  let conversationSummary = requestData.conversationSummary
+  let compactedSummary: { content: string; messageCount: number } | undefined
+  let usage: TokenUsage = EMPTY_USAGE
+  let budgetStatus = budget.status
+
+  // Every model call is metered as soon as it returns, so a run that fails
+  // later still counts against the budget
+  const meter = async (callUsage: TokenUsage) => {
+    usage = addUsage(usage, callUsage)
+    budgetStatus = await budget.record(callUsage, model)
+  }
+
+  const compactionPoint = findCompactionPoint(
+    history,
+    apiSettings?.summaryThresholdTokens || DEFAULT_SUMMARY_THRESHOLD_TOKENS
+  )
+  if (compactionPoint > 0) {
+    const result = await summarizeMessages(anthropic, {
+      messages: history.slice(0, compactionPoint),
+      previousSummary: conversationSummary,
+      model,
+    })
+    await meter(result.usage)
+    if (result.summary) {
+      conversationSummary = result.summary
+      compactedSummary = { content: result.summary, messageCount: compactionPoint }
+      history = history.slice(compactionPoint)
+    }
+  }
+
+  const system = conversationSummary
+    ? `${systemPrompt}\n\n${formatSummaryForPrompt(conversationSummary)}`
+    : systemPrompt
+
+  // Build messages array: the (compacted) history, then the current user message
+  const messages: Anthropic.MessageParam[] = history.map(msg => ({
+    role: msg.role,
+    content: msg.content,
+  }))
+  messages.push({
+    role: 'user',
+    content: requestData.message,
+  })
+
+  // Agent run budget
+  const maxSteps = requestData.maxSteps || apiSettings?.agentMaxSteps || DEFAULT_AGENT_MAX_STEPS
+  const tokenBudget = requestData.tokenBudget || apiSettings?.agentTokenBudget || DEFAULT_AGENT_TOKEN_BUDGET
+
+  const steps: AgentStepRecord[] = []
+  const executedActions: ExecutedAction[] = []
+  const createdDocuments: string[] = []
+  const updatedDocuments: string[] = []
+  const deletedDocuments: string[] = []
+  const publishedDocuments: string[] = []
+  const unpublishedDocuments: string[] = []
+  const scheduledDocuments: string[] = []
+  const documentTypes = new Map<string, string>()
+  const heldActions: ParsedAction[] = []
+  let totalActions = 0
+  let tokensUsed = 0
+  let stopReason: RemoteStopReason = 'complete'
+
+  // A workflow with steps runs as a pipeline: each step gets its own prompt
+  // section and tools, and the run stops after a step that requires approval
+  const pipelineSteps = getWorkflowSteps(workflow)
+  const completedStages: number[] = []
+  let pipelineStatus: RemotePipelineStopReason | undefined
+  let stoppedStageIndex: number | undefined
+  let step = 0
+
+  for (let stageIndex = requestData.workflowStep ? requestData.workflowStep - 1 : 0; ; stageIndex++) {
+    const workflowStep: WorkflowStep | undefined = pipelineSteps[stageIndex]
+    const stageSystem = workflowStep
+      ? `${system}\n\n${formatWorkflowStepForPrompt(workflow!.name, pipelineSteps, stageIndex)}`
+      : system
+    const tools = getStepTools(workflowStep)
+    const heldBefore = heldActions.length
+    let stageContent: Anthropic.ContentBlock[] = []
+    let stageActions: ExecutedAction[] = []
+
+    if (workflowStep) {
+      emit?.('workflowStep', { step: step + 1, workflowStep: stageIndex + 1, title: workflowStep.title })
+    }
+
+    // Agent loop: read-only actions run and their results go back to Claude
+    // until it requests a write action or the step/token budget runs out
+    for (let stageStep = 1; ; stageStep++) {
+      step++
+
+      // Call Claude API, streaming the text when the caller is listening
+      const params = {
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        system: stageSystem,
+        messages,
+        tools,
+      }
+      let claudeResponse: Anthropic.Message | undefined
+      let stream: ReturnType<typeof anthropic.messages.stream> | undefined
+      try {
+        if (emit) {
+          stream = anthropic.messages.stream(params).on('text', (text) => emit('text', { step, text }))
+          claudeResponse = await stream.finalMessage()
+        } else {
+          claudeResponse = await anthropic.messages.create(params)
+        }
+      } finally {
+        // A stream that fails partway was still billed for what it used
+        const callUsage = claudeResponse?.usage ?? stream?.currentMessage?.usage
+        if (callUsage) {
+          await meter(toTokenUsage(callUsage))
+        }
+      }
+
+      const stepUsage = toTokenUsage(claudeResponse.usage)
+      tokensUsed += stepUsage.inputTokens + stepUsage.outputTokens
+
+      // Extract the response content
+      const responseContent = claudeResponse.content
+        .filter((block: { type: string }): block is Anthropic.TextBlock => block.type === 'text')
+        .map((block: Anthropic.TextBlock) => block.text)
+        .join('\n')
+
+      // Parse actions from tool calls, falling back to action blocks in the text
+      const toolUses: ToolUseBlock[] = claudeResponse.content
+        .filter((block: { type: string }): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+        .map((block: Anthropic.ToolUseBlock) => ({
+          id: block.id,
+          name: block.name,
+          input: block.input as Record<string, unknown>,
+        }))
+      const parsedActions = parseResponseActions(responseContent, toolUses)
+      totalActions += parsedActions.length
+      for (const action of parsedActions) {
+        emit?.('action', { step, action })
+      }
+
+      // Execute actions (write actions are skipped in dry run; read-only actions always run)
+      const stepActions: ExecutedAction[] = []
+      const addStepAction = (executed: ExecutedAction) => {
+        stepActions.push(executed)
+        emit?.('actionResult', { step, ...executed })
+      }
+
+      // Actions outside the API key's scopes or the workflow step fail without running, in dry runs too
+      const deniedActions = new Map<string, string>()
+      for (const action of parsedActions) {
+        const denied = (workflowStep && checkStepAction(workflowStep, action))
+          || await checkApiKeyAction(sanityClient, action, apiKey, { dryRun: requestData.dryRun })
+        if (denied) {
+          deniedActions.set(action.id, denied)
+        }
+      }
+
+      // Actions of the held types wait for approval instead of running
+      const isHeld = (action: ParsedAction) =>
+        !requestData.dryRun && !deniedActions.has(action.id) && !!requestData.holdActions?.includes(action.type)
+
+      // Two or more write actions in one response run as a single all-or-nothing batch
+      const batchActions = requestData.dryRun
+        ? []
+        : parsedActions.filter(action => isBatchableAction(action) && !deniedActions.has(action.id) && !isHeld(action))
+      const batchResults = new Map<string, ActionResult>()
+      if (batchActions.length >= 2) {
+        const results = await executeBatch(sanityClient, batchActions, executorOptions)
+        batchActions.forEach((action, index) => batchResults.set(action.id, results[index]))
+      }
+
+      for (const action of parsedActions) {
+        const denied = deniedActions.get(action.id)
+        if (denied) {
+          addStepAction({
+            action: { ...action, status: 'failed', error: denied },
+            result: { success: false, message: denied },
+            dryRun: requestData.dryRun || false,
+          })
+          continue
+        }
+
+        if (isHeld(action)) {
+          heldActions.push(action)
+          addStepAction({
+            action: { ...action, status: 'pending' },
+            result: { success: true, message: 'Waiting for approval' },
+            dryRun: false,
+            held: true,
+          })
+          continue
+        }
+
+        if (requestData.dryRun && !isReadOnlyAction(action)) {
+          // For dry run, just include the parsed action without executing
+          addStepAction({
+            action: { ...action, status: 'pending' },
+            result: { success: true, message: 'Dry run - action not executed' },
+            dryRun: true,
+          })
+          continue
+        }
+
+        try {
+          const result = batchResults.get(action.id) ?? await executeAction(sanityClient, action, executorOptions)
+
+          addStepAction({
+            action: { ...action, status: result.success ? 'completed' : 'failed', result },
+            result,
+            dryRun: false,
+          })
+
+          // Track document changes
+          if (result.success && result.documentId) {
+            if (action.type === 'create') {
+              createdDocuments.push(result.documentId)
+              if (action.payload.documentType) {
+                documentTypes.set(result.documentId, action.payload.documentType)
+              }
+            } else if (action.type === 'update' || action.type === 'patch') {
+              updatedDocuments.push(result.documentId)
+            } else if (action.type === 'delete') {
+              deletedDocuments.push(result.documentId)
+            } else if (action.type === 'publish') {
+              publishedDocuments.push(result.documentId)
+            } else if (action.type === 'unpublish') {
+              unpublishedDocuments.push(result.documentId)
+            } else if (action.type === 'schedulePublish') {
+              scheduledDocuments.push(result.documentId)
+            } else if (action.type === 'discardDraft') {
+              // A draft-only document no longer exists once its draft is discarded
+              if (result.documentId.startsWith('drafts.')) {
+                deletedDocuments.push(result.documentId)
+              } else {
+                updatedDocuments.push(result.documentId)
+              }
+            }
+          }
+        } catch (error) {
+          addStepAction({
+            action: {
+              ...action,
+              status: 'failed',
+              error: error instanceof Error ? error.message : 'Unknown error',
+            },
+            result: {
+              success: false,
+              message: error instanceof Error ? error.message : 'Action execution failed',
+            },
+            dryRun: false,
+          })
+        }
+      }
+
+      executedActions.push(...stepActions)
+      steps.push({
+        step,
+        ...(workflowStep ? { workflowStep: stageIndex + 1 } : {}),
+        response: extractTextContent(responseContent),
+        actions: stepActions,
+        ...stepUsage,
+      })
+
+      // The step's actions still run once the monthly budget runs out, but Claude is not called again
+      const stepStopReason = getAgentStopReason(parsedActions, stageStep, tokensUsed, { maxSteps, tokenBudget })
+        ?? (budgetStatus.allowed ? null : 'usageBudget')
+      if (stepStopReason) {
+        stopReason = stepStopReason
+        stageContent = claudeResponse.content
+        stageActions = stepActions
+        break
+      }
+
+      // Feed the results back for the next step
+      messages.push({ role: 'assistant', content: claudeResponse.content })
+      messages.push({
+        role: 'user',
+        content: [...buildToolResults(stepActions), { type: 'text', text: buildAgentFollowUp(stepActions) }],
+      })
+    }
+
+    if (!workflowStep) {
+      break
+    }
+
+    // A step that ran out of budget or is waiting on held actions is not done
+    if (
+      stopReason === 'maxSteps'
+      || stopReason === 'tokenBudget'
+      || stopReason === 'usageBudget'
+      || heldActions.length > heldBefore
+    ) {
+      pipelineStatus = 'stopped'
+      stoppedStageIndex = stageIndex
+      break
+    }
+
+    completedStages.push(stageIndex)
+    if (stageIndex === pipelineSteps.length - 1) {
+      pipelineStatus = 'complete'
+      break
+    }
+    if (workflowStep.requireApproval) {
+      pipelineStatus = 'awaitingApproval'
+      break
+    }
+    if (tokensUsed >= tokenBudget || !budgetStatus.allowed) {
+      stopReason = tokensUsed >= tokenBudget ? 'tokenBudget' : 'usageBudget'
+      pipelineStatus = 'stopped'
+      stoppedStageIndex = stageIndex + 1
+      break
+    }
+
+    // Hand over to the next step in the same conversation
+    messages.push({ role: 'assistant', content: stageContent })
+    messages.push({ role: 'user', content: buildStepTransition(stageActions, pipelineSteps, stageIndex + 1) })
+  }
+
+  // Calculate success metrics
+  const successfulActions = executedActions.filter(a => a.result.success && !a.held).length
+  const failedActions = executedActions.filter(a => !a.result.success).length
+
+  // Generate studio links for created/updated documents
+  const allAffectedDocuments = [...createdDocuments, ...updatedDocuments]
+  const studioLinks = allAffectedDocuments.length > 0
+    ? generateStudioLinks(allAffectedDocuments, documentTypes)
+    : undefined
+
+  // Store held actions so they can be approved later
+  const approval = heldActions.length > 0
+    ? await createRemoteApproval(sanityClient, clientId, apiKey, heldActions)
+    : null
+
+  // Log usage the same way as Studio conversations, for the usage view
+  await recordRemoteUsage(sanityClient, {
+    clientId,
+    apiKey: { id: apiKey.id, name: apiKey.name },
+    model,
+    usage,
+    steps: steps.length,
+    workflow: workflow ? { id: workflow._id, name: workflow.name } : undefined,
+    dryRun: requestData.dryRun,
+  })
+  const modelPrices = apiSettings?.modelPrices?.length ? apiSettings.modelPrices : DEFAULT_MODEL_PRICES
+  const estimatedCost = estimateCost(usage, model, modelPrices)
+
+  // Build response
+  const processingTime = Date.now() - startTime
+  const response: RemoteClaudeResponse = {
+    success: true,
+    response: steps.map(entry => entry.response).filter(Boolean).join('\n\n'),
+    actions: executedActions,
+    steps,
+    summary: {
+      totalActions,
+      successfulActions,
+      failedActions,
+      createdDocuments,
+      updatedDocuments,
+      deletedDocuments,
+      publishedDocuments,
+      unpublishedDocuments,
+      scheduledDocuments,
+    },
+    studioLinks,
+    appliedWorkflow: workflow ? { id: workflow._id, name: workflow.name } : undefined,
+    ...(pipelineStatus
+      ? { pipeline: buildPipelineStatus(pipelineSteps, pipelineStatus, completedStages, stoppedStageIndex) }
+      : {}),
+    includedInstructions: run.includedCategories,
+    ...(approval
+      ? { pendingApproval: { approvalId: approval._id, expiresAt: approval.expiresAt, actions: heldActions } }
+      : {}),
+    metadata: {
+      processingTime,
+      model,
+      dryRun: requestData.dryRun || false,
+      tokensUsed,
+      usage,
+      ...(estimatedCost !== null ? { estimatedCost } : {}),
+      ...(budgetStatus.scopes.length > 0 ? { budget: budgetStatus } : {}),
+      stopReason,
+      ...(compactedSummary ? { conversationSummary: compactedSummary } : {}),
+    },
+  }
+
+  // Log successful request
+  logRequest(clientId, {
+    message: requestData.message,
+    workflow: requestData.workflow,
+    dryRun: requestData.dryRun,
+    apiKey,
+  }, {
+    success: true,
+    actionsExecuted: successfulActions,
+    processingTime,
+  })
+
+  return response
+}
+
+/**
+ * Log a failed run and map the error to a status code and message
+ */
+function describeRunError(
+  run: Pick<RemoteRun, 'requestData' | 'clientId' | 'apiKey' | 'startTime'>,
+  error: unknown
+): { status: number; error: string; processingTime: number } {
+  const processingTime = Date.now() - run.startTime
+  const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred'
+
+  // Log the error
+  logRequest(run.clientId, {
+    message: run.requestData.message,
+    workflow: run.requestData.workflow,
+    dryRun: run.requestData.dryRun,
+    apiKey: run.apiKey,
+  }, {
+    success: false,
+    actionsExecuted: 0,
+    error: errorMessage,
+    processingTime,
+  })
+
+  console.error('[Remote Claude API] Error:', error)
+
+  // Handle Anthropic API errors
+  if (error instanceof Anthropic.APIError) {
+    const statusCode = error.status || 500
+
+    if (statusCode === 429) {
+      return { status: 429, error: 'Anthropic rate limit exceeded. Please wait and try again.', processingTime }
+    }
+
+    if (statusCode === 401) {
+      return { status: 500, error: 'Invalid Anthropic API key', processingTime }
+    }
+
+    return { status: statusCode, error: error.message, processingTime }
+  }
+
+  return { status: 500, error: errorMessage, processingTime }
+}
+
+/**
+ * Run a request as a Server-Sent Events stream
+ * Errors after the stream opens are sent as an `error` event, since the status is already 200.
+ */
+function streamRemoteRequest(run: RemoteRun, rateLimit: RateLimitResult): Response {
+  const encoder = new TextEncoder()
+  // Set when the caller disconnects; the run still finishes so its actions are logged
+  let cancelled = false
+
+  const readableStream = new ReadableStream({
+    async start(controller) {
+      const emit: RemoteStreamEmitter = (event, data) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        }
+      }
+
+      try {
+        emit('done', await runRemoteRequest(run, emit))
+      } catch (error) {
+        emit('error', { success: false, error: describeRunError(run, error).error })
+      } finally {
+        if (!cancelled) {
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      cancelled = true
+    },
+  })
+
+  return new Response(readableStream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx buffering
+      ...getRateLimitHeaders(rateLimit),
+    },
+  })
+}
+
+/**
+ * Run a queued job: record its state and result, then notify the callback URL
+ * Runs after the 202 response has been sent.
+ */
+async function runRemoteJob(run: RemoteRun, jobId: string): Promise<void> {
+  await startRemoteJob(run.sanityClient, jobId)
+
+  let response: Partial<RemoteClaudeResponse>
+  try {
+    response = await runRemoteRequest(run)
+  } catch (error) {
+    const { error: message, processingTime } = describeRunError(run, error)
+    response = {
+      success: false,
+      error: message,
+      metadata: { processingTime, model: DEFAULT_MODEL, dryRun: false },
+    }
+  }
+
+  await completeRemoteJob(run.sanityClient, jobId, response)
+
+  if (run.requestData.callbackUrl) {
+    await deliverJobCallback(run.sanityClient, jobId, run.requestData.callbackUrl, response)
+  }
+}
+
 /**
  * POST handler - Main API endpoint
  */
@@ -327,10 +1008,38 @@ export async function POST(request: NextRequest) {
   const startTime = Date.now()
   const clientId = getClientId(request)
 
-  // Check rate limit first (before auth to prevent auth timing attacks under load)
-  const rateLimit = checkRateLimit(clientId)
+  // Authenticate first: each API key has its own rate limit
+  const authResult = await authenticateRequest(request)
+  if (!authResult.valid) {
+    // Failed attempts are rate limited per client address
+    const failures = checkRateLimit(getAuthFailureId(request))
+    logRequest(clientId, { message: '[auth failed]' }, {
+      success: false,
+      actionsExecuted: 0,
+      error: authResult.error,
+      processingTime: Date.now() - startTime,
+    })
+
+    if (!failures.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Too many failed authentication attempts. Try again in ${Math.ceil(failures.resetIn / 1000)} seconds.`,
+        } as Partial<RemoteClaudeResponse>,
+        { status: 429, headers: { 'Retry-After': Math.ceil(failures.resetIn / 1000).toString() } }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: authResult.error } as Partial<RemoteClaudeResponse>,
+      { status: 401 }
+    )
+  }
+
+  const apiKey = authResult.key
+  const rateLimit = checkApiKeyRateLimit(apiKey)
   if (!rateLimit.allowed) {
-    logRequest(clientId, { message: '[rate limited]' }, {
+    logRequest(clientId, { message: '[rate limited]', apiKey }, {
       success: false,
       actionsExecuted: 0,
       error: 'Rate limit exceeded',
@@ -345,7 +1054,7 @@ export async function POST(request: NextRequest) {
       {
         status: 429,
         headers: {
-          'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
+          'X-RateLimit-Limit': rateLimit.limit.toString(),
           'X-RateLimit-Remaining': '0',
           'X-RateLimit-Reset': Math.ceil((Date.now() + rateLimit.resetIn) / 1000).toString(),
           'Retry-After': Math.ceil(rateLimit.resetIn / 1000).toString(),
@@ -354,22 +1063,6 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  // Validate authentication
-  const authResult = validateAuth(request)
-  if (!authResult.valid) {
-    logRequest(clientId, { message: '[auth failed]' }, {
-      success: false,
-      actionsExecuted: 0,
-      error: authResult.error,
-      processingTime: Date.now() - startTime,
-    })
-
-    return NextResponse.json(
-      { success: false, error: authResult.error } as Partial<RemoteClaudeResponse>,
-      { status: 401 }
-    )
-  }
-
   // Check for required environment variables
   if (!process.env.ANTHROPIC_API_KEY) {
     return NextResponse.json(
@@ -383,7 +1076,7 @@ export async function POST(request: NextRequest) {
   try {
     body = await request.json()
   } catch {
-    logRequest(clientId, { message: '[invalid json]' }, {
+    logRequest(clientId, { message: '[invalid json]', apiKey }, {
       success: false,
       actionsExecuted: 0,
       error: 'Invalid JSON in request body',
@@ -397,9 +1090,9 @@ export async function POST(request: NextRequest) {
   }
 
   // Validate request
-  const validation = validateRequest(body)
+  const validation = await validateRequest(body)
   if (!validation.valid || !validation.data) {
-    logRequest(clientId, { message: '[validation failed]' }, {
+    logRequest(clientId, { message: '[validation failed]', apiKey }, {
       success: false,
       actionsExecuted: 0,
       error: validation.error,
@@ -412,16 +1105,25 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  const requestData = validation.data
+  let requestData = validation.data
+
+  const keyRequestError = checkApiKeyRequest(apiKey, requestData)
+  if (keyRequestError) {
+    return NextResponse.json(
+      { success: false, error: keyRequestError } as Partial<RemoteClaudeResponse>,
+      { status: 403 }
+    )
+  }
 
   try {
     // Initialize Sanity client
     const sanityClient = createSanityClient()
 
     // Load data from Sanity in parallel
-    const [instructions, apiSettings, workflow, contextDocuments] = await Promise.all([
+    const [instructions, apiSettings, accessControl, workflow, contextDocuments] = await Promise.all([
       loadInstructions(sanityClient),
       loadApiSettings(sanityClient),
+      loadAccessControl(sanityClient),
       requestData.workflow ? loadWorkflow(sanityClient, requestData.workflow) : Promise.resolve(null),
       requestData.context?.documents
         ? loadDocumentsForContext(sanityClient, requestData.context.documents)
@@ -439,231 +1141,145 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Build the system prompt
-    const { prompt: systemPrompt, includedCategories } = buildSystemPrompt({
-      userMessage: requestData.message,
-      instructions,
-      workflow,
-      includeCategories: requestData.includeInstructions,
-      contextDocuments: contextDocuments.map(doc => ({
-        ...doc,
-        slug: typeof doc.slug === 'object' && doc.slug ? (doc.slug as { current: string }).current : doc.slug as string | undefined,
-      })),
-      additionalContext: requestData.context?.additionalContext,
-    })
-
-    // Build messages array
-    const messages: Anthropic.MessageParam[] = []
-
-    // Add conversation history if provided
-    if (requestData.conversationHistory) {
-      for (const msg of requestData.conversationHistory) {
-        messages.push({
-          role: msg.role,
-          content: msg.content,
-        })
-      }
+    const stepCount = workflow?.steps?.length || 0
+    if (requestData.workflowStep && requestData.workflowStep > stepCount) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: stepCount
+            ? `workflowStep must be between 1 and ${stepCount} for workflow "${workflow!.name}"`
+            : `Workflow "${workflow!.name}" has no steps`,
+        } as Partial<RemoteClaudeResponse>,
+        { status: 400 }
+      )
     }
 
-    // Add the current user message
-    messages.push({
-      role: 'user',
-      content: requestData.message,
-    })
-
-    // Determine model and settings
-    const model = requestData.model || apiSettings?.model || DEFAULT_MODEL
-    const maxTokens = requestData.maxTokens || apiSettings?.maxTokens || DEFAULT_MAX_TOKENS
-    const temperature = requestData.temperature ?? apiSettings?.temperature ?? DEFAULT_TEMPERATURE
-
-    // Call Claude API
-    const claudeResponse = await anthropic.messages.create({
-      model,
-      max_tokens: maxTokens,
-      temperature,
-      system: systemPrompt,
-      messages,
-    })
-
-    // Extract the response content
-    const responseContent = claudeResponse.content
-      .filter((block: { type: string }): block is Anthropic.TextBlock => block.type === 'text')
-      .map((block: Anthropic.TextBlock) => block.text)
-      .join('\n')
-
-    // Parse actions from the response
-    const parsedActions = parseActions(responseContent)
-
-    // Execute actions (unless dry run)
-    const executedActions: ExecutedAction[] = []
-    const createdDocuments: string[] = []
-    const updatedDocuments: string[] = []
-    const deletedDocuments: string[] = []
-    const documentTypes = new Map<string, string>()
-
-    if (!requestData.dryRun && parsedActions.length > 0) {
-      for (const action of parsedActions) {
-        try {
-          const result = await executeAction(sanityClient, action)
-
-          executedActions.push({
-            action: { ...action, status: result.success ? 'completed' : 'failed', result },
-            result,
-            dryRun: false,
-          })
-
-          // Track document changes
-          if (result.success && result.documentId) {
-            if (action.type === 'create') {
-              createdDocuments.push(result.documentId)
-              if (action.payload.documentType) {
-                documentTypes.set(result.documentId, action.payload.documentType)
-              }
-            } else if (action.type === 'update') {
-              updatedDocuments.push(result.documentId)
-            } else if (action.type === 'delete') {
-              deletedDocuments.push(result.documentId)
-            }
-          }
-        } catch (error) {
-          executedActions.push({
-            action: {
-              ...action,
-              status: 'failed',
-              error: error instanceof Error ? error.message : 'Unknown error',
-            },
-            result: {
-              success: false,
-              message: error instanceof Error ? error.message : 'Action execution failed',
-            },
-            dryRun: false,
-          })
-        }
-      }
-    } else if (requestData.dryRun) {
-      // For dry run, just include the parsed actions without executing
-      for (const action of parsedActions) {
-        executedActions.push({
-          action: { ...action, status: 'pending' },
-          result: { success: true, message: 'Dry run - action not executed' },
-          dryRun: true,
-        })
-      }
+    const keyWorkflowError = checkApiKeyWorkflow(apiKey, workflow)
+    if (keyWorkflowError) {
+      return NextResponse.json(
+        { success: false, error: keyWorkflowError } as Partial<RemoteClaudeResponse>,
+        { status: 403 }
+      )
     }
 
-    // Calculate success metrics
-    const successfulActions = executedActions.filter(a => a.result.success).length
-    const failedActions = executedActions.filter(a => !a.result.success).length
-
-    // Generate studio links for created/updated documents
-    const allAffectedDocuments = [...createdDocuments, ...updatedDocuments]
-    const studioLinks = allAffectedDocuments.length > 0
-      ? generateStudioLinks(allAffectedDocuments, documentTypes)
-      : undefined
-
-    // Build response
-    const processingTime = Date.now() - startTime
-    const response: RemoteClaudeResponse = {
-      success: true,
-      response: extractTextContent(responseContent),
-      actions: executedActions,
-      summary: {
-        totalActions: parsedActions.length,
-        successfulActions,
-        failedActions,
-        createdDocuments,
-        updatedDocuments,
-        deletedDocuments,
-      },
-      studioLinks,
-      appliedWorkflow: workflow ? { id: workflow._id, name: workflow.name } : undefined,
-      includedInstructions: includedCategories,
-      metadata: {
-        processingTime,
-        model,
-        dryRun: requestData.dryRun || false,
-      },
-    }
-
-    // Log successful request
-    logRequest(clientId, {
-      message: requestData.message,
-      workflow: requestData.workflow,
-      dryRun: requestData.dryRun,
-    }, {
-      success: true,
-      actionsExecuted: successfulActions,
-      processingTime,
-    })
-
-    return NextResponse.json(response, {
-      headers: {
-        'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-        'X-RateLimit-Remaining': rateLimit.remaining.toString(),
-        'X-RateLimit-Reset': Math.ceil((Date.now() + rateLimit.resetIn) / 1000).toString(),
-      },
-    })
-  } catch (error) {
-    const processingTime = Date.now() - startTime
-    const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred'
-
-    // Log the error
-    logRequest(clientId, {
-      message: requestData.message,
-      workflow: requestData.workflow,
-      dryRun: requestData.dryRun,
-    }, {
-      success: false,
-      actionsExecuted: 0,
-      error: errorMessage,
-      processingTime,
-    })
-
-    console.error('[Remote Claude API] Error:', error)
-
-    // Handle Anthropic API errors
-    if (error instanceof Anthropic.APIError) {
-      const statusCode = error.status || 500
-
-      if (statusCode === 429) {
+    // Params fill the workflow's starter prompt, which starts the user message
+    if (workflow && requestData.params !== undefined) {
+      const resolved = await resolveWorkflowParams(sanityClient, workflow, requestData.params)
+      if ('error' in resolved) {
         return NextResponse.json(
-          {
-            success: false,
-            error: 'Anthropic rate limit exceeded. Please wait and try again.',
-            metadata: { processingTime, model: DEFAULT_MODEL, dryRun: false },
-          } as Partial<RemoteClaudeResponse>,
-          { status: 429 }
+          { success: false, error: resolved.error } as Partial<RemoteClaudeResponse>,
+          { status: 400 }
         )
       }
 
-      if (statusCode === 401) {
+      requestData = {
+        ...requestData,
+        message: [resolved.prompt, requestData.message].filter(Boolean).join('\n\n'),
+      }
+      if (!requestData.message) {
         return NextResponse.json(
           {
             success: false,
-            error: 'Invalid Anthropic API key',
-            metadata: { processingTime, model: DEFAULT_MODEL, dryRun: false },
+            error: `Workflow "${workflow.name}" has no starter prompt, so message is required`,
           } as Partial<RemoteClaudeResponse>,
-          { status: 500 }
+          { status: 400 }
         )
       }
+    }
 
+    // System prompt options, also used to explain the prompt
+    const promptOptions: BuildPromptOptions = {
+      userMessage: requestData.message,
+      instructions,
+      workflow,
+      includeCategories: requestData.includeInstructions,
+      contextDocuments: contextDocuments.map(doc => ({
+        ...doc,
+        slug: typeof doc.slug === 'object' && doc.slug ? (doc.slug as { current: string }).current : doc.slug as string | undefined,
+      })),
+      additionalContext: requestData.context?.additionalContext,
+      accessControl,
+    }
+
+    // ?explainPrompt=1 returns the prompt the request would run with, without calling Claude
+    if (request.nextUrl.searchParams.get('explainPrompt') === '1') {
+      const explained: RemoteExplainPromptResponse = {
+        success: true,
+        explanation: explainRequestPrompt(requestData, workflow, promptOptions),
+        metadata: { processingTime: Date.now() - startTime },
+      }
+      return NextResponse.json(explained, { headers: getRateLimitHeaders(rateLimit) })
+    }
+
+    // Remote clients have no Studio user, so only the global budget applies
+    const budget = await openBudgetMeter(sanityClient, apiSettings, {})
+    if (!budget.status.allowed) {
       return NextResponse.json(
         {
           success: false,
-          error: error.message,
-          metadata: { processingTime, model: DEFAULT_MODEL, dryRun: false },
+          error: budget.status.error,
         } as Partial<RemoteClaudeResponse>,
-        { status: statusCode }
+        { status: 429 }
       )
     }
 
+    // Actions run through the executor shared with the studio plugin, which audits them.
+    // Documents created over the remote API always start as drafts.
+    const executorOptions = {
+      accessControl,
+      createDrafts: true,
+      validator: getServerValidator(sanityClient),
+      audit: getApiKeyAuditContext(apiKey, 'remote', clientId),
+      queryScope: getApiKeyQueryScope(apiKey),
+    }
+
+    // Build the system prompt
+    const { prompt: systemPrompt, includedCategories } = buildSystemPrompt(promptOptions)
+
+    const run: RemoteRun = {
+      requestData,
+      clientId,
+      apiKey,
+      startTime,
+      sanityClient,
+      apiSettings,
+      workflow,
+      budget,
+      executorOptions,
+      systemPrompt,
+      includedCategories,
+    }
+
+    // Streaming responses report failures as an error event instead of a status code
+    if (requestData.stream) {
+      return streamRemoteRequest(run, rateLimit)
+    }
+
+    // Async jobs run once the job ID has been returned
+    if (requestData.async) {
+      const jobId = await createRemoteJob(sanityClient, clientId, apiKey, requestData)
+      after(() => runRemoteJob(run, jobId))
+
+      const accepted: RemoteJobAcceptedResponse = {
+        success: true,
+        jobId,
+        status: 'queued',
+        statusUrl: new URL(`${request.nextUrl.pathname}/jobs/${jobId}`, request.nextUrl.origin).toString(),
+      }
+      return NextResponse.json(accepted, { status: 202, headers: getRateLimitHeaders(rateLimit) })
+    }
+
+    const response = await runRemoteRequest(run)
+    return NextResponse.json(response, { headers: getRateLimitHeaders(rateLimit) })
+  } catch (error) {
+    const { status, error: message, processingTime } = describeRunError({ requestData, clientId, apiKey, startTime }, error)
     return NextResponse.json(
       {
         success: false,
-        error: errorMessage,
+        error: message,
         metadata: { processingTime, model: DEFAULT_MODEL, dryRun: false },
       } as Partial<RemoteClaudeResponse>,
-      { status: 500 }
+      { status }
     )
   }
 }
@@ -6,12 +6,23 @@
  */
 
 import { createClient, type SanityClient } from '@sanity/client'
+import {
+  createSchemaValidator,
+  filterSchemaContext,
+  formatSchemaForPrompt,
+  type SchemaValidator,
+  type ValidationSchema,
+} from 'claude-core'
+import validationSchema from 'claude-core/validation-schema.json'
 import type {
   WorkflowDocument,
   InstructionsDocument,
   ApiSettingsDocument,
-  InstructionCategory,
+  AccessControlDocument,
+  ApiKeyDocument,
+  SchemaContext,
 } from './types'
+import schemaContext from './schema-context.json'
 
 /**
  * Create a Sanity client for server-side operations
@@ -38,6 +49,25 @@ export function createSanityClient(): SanityClient {
   })
 }
 
+/**
+ * Load the published API key with a given SHA-256 hash
+ */
+export async function loadApiKey(client: SanityClient, keyHash: string): Promise<ApiKeyDocument | null> {
+  const query = `*[_type == "claudeApiKey" && secret.hash == $keyHash && !(_id in path("drafts.**"))][0]{
+    _id,
+    name,
+    access,
+    "allowedWorkflows": allowedWorkflows[]._ref,
+    allowedDocumentTypes,
+    allowedActions,
+    rateLimit,
+    expiresAt,
+    revoked
+  }`
+
+  return client.fetch<ApiKeyDocument | null>(query, { keyHash })
+}
+
 /**
  * Load Claude instructions from Sanity
  */
@@ -74,7 +104,33 @@ export async function loadApiSettings(client: SanityClient): Promise<ApiSettings
     model,
     maxTokens,
     temperature,
-    enableStreaming
+    enableStreaming,
+    agentMaxSteps,
+    agentTokenBudget,
+    summaryThresholdTokens,
+    modelPrices[]{model, inputPrice, outputPrice, cacheWritePrice, cacheReadPrice},
+    monthlyBudget,
+    roleBudgets[]{role, tokenLimit, costLimit},
+    userBudgets[]{userId, tokenLimit, costLimit},
+    budgetOverrides[]{userId, tokenLimit, costLimit, expiresAt, reason},
+    warningThresholds
+  }`
+
+  return client.fetch(query)
+}
+
+/**
+ * Load access control settings from Sanity
+ * Returns null when no published access control document exists (no restrictions)
+ */
+export async function loadAccessControl(client: SanityClient): Promise<AccessControlDocument | null> {
+  // Only fetch published version (not drafts)
+  const query = `*[_type == "claudeAccessControl" && !(_id in path("drafts.**"))][0]{
+    _id,
+    allowedDocumentTypes,
+    allowedOperations,
+    blockedFields,
+    draftsOnly
   }`
 
   return client.fetch(query)
@@ -98,12 +154,52 @@ export async function loadWorkflow(
     description,
     systemInstructions,
     starterPrompt,
+    parameters[]{ name, title, type, description, required, options, documentTypes },
+    "steps": steps[]{ "key": _key, title, instructions, allowedActions, requireApproval },
     active
   }`
 
   return client.fetch(query, { nameOrId })
 }
 
+/**
+ * Load all active workflows
+ */
+export async function loadWorkflows(client: SanityClient): Promise<WorkflowDocument[]> {
+  const query = `*[_type == "claudeWorkflow" && active != false && !(_id in path("drafts.**"))] | order(name asc){
+    _id,
+    name,
+    description,
+    systemInstructions,
+    starterPrompt,
+    parameters[]{ name, title, type, description, required, options, documentTypes },
+    active
+  }`
+
+  return client.fetch(query)
+}
+
+/**
+ * Load the documents and image assets that workflow params point to
+ * Document IDs match their draft too.
+ */
+export async function loadParameterTargets(
+  client: SanityClient,
+  ids: string[]
+): Promise<Array<{ _id: string; _type: string; title?: string; name?: string; originalFilename?: string }>> {
+  if (!ids.length) return []
+
+  const query = `*[_id in $documentIds]{
+    _id,
+    _type,
+    title,
+    name,
+    originalFilename
+  }`
+
+  return client.fetch(query, { documentIds: ids.flatMap(id => [id, `drafts.${id}`]) })
+}
+
 /**
  * Load section templates for design context
  */
@@ -145,170 +241,20 @@ export async function loadDocumentsForContext(
 }
 
 /**
- * Schema context for the remote API
- * Since we don't have access to Sanity Studio's schema object on the server,
- * we provide a simplified version based on known types
+ * Schema context for the remote API.
+ * The server has no Sanity Studio schema object, so the context is read from
+ * schema-context.json, which is generated from the studio schema types.
+ * Document types outside the allowed types are left out, as in the Studio.
  */
-export function getServerSchemaContext(): string {
-  return `
-# Available Document Types
-
-## Page (page)
-Primary content pages with flexible page builder.
-Fields:
-- name: string (required) - Page name
-- slug: slug (required) - URL path
-- pageBuilder: array - Array of sections
-
-## Post (post)
-Blog posts with rich content.
-Fields:
-- title: string (required)
-- slug: slug (required)
-- author: reference to author
-- publishedAt: datetime
-- body: array (Portable Text)
-
-## Section Template (sectionTemplate)
-Reusable section templates for the page builder.
-
-# Object Types
-
-## section
-Page builder sections containing rows.
-Fields:
-- label: string - Internal label
-- rows: array of row objects
-- backgroundColor: 'primary' | 'secondary'
-- paddingTop: 'none' | 'compact' | 'default' | 'spacious'
-- maxWidth: 'full' | 'container' | 'sm' | 'md' | 'lg' | 'xl' | '2xl'
-- minHeight: 'auto' | 'small' | 'medium' | 'large' | 'screen'
-
-## row
-Rows containing columns.
-Fields:
-- columns: array of column objects
-- horizontalAlign: 'start' | 'center' | 'end' | 'between' | 'around' | 'evenly'
-- verticalAlign: 'start' | 'center' | 'end' | 'stretch' | 'baseline'
-- gap: '0' | '2' | '4' | '6' | '8' | '12'
-
-## column
-Columns containing content blocks.
-Fields:
-- content: array of block objects
-- widthDesktop: 'auto' | 'fill' | '1'-'12'
-- widthMobile: 'inherit' | 'auto' | 'fill' | '12'
-- verticalAlign: 'start' | 'center' | 'end' | 'between'
-- padding: '0' | '2' | '4' | '6' | '8'
-
-# Block Types
-
-## headingBlock
-Headings h1-h6.
-Fields: text, level ('h1'-'h6'), size, align, color
-
-## richTextBlock
-Rich text content with Portable Text.
-Fields: content (Portable Text), size, align, color, maxWidth
-
-## eyebrowBlock
-Small label text above headings.
-Fields: text, variant ('text' | 'overline' | 'pill')
-
-## imageBlock
-Images with responsive options.
-Fields: image, aspectRatio, size, rounded, shadow
-
-## buttonBlock
-Call-to-action buttons.
-Fields: text, url, variant ('primary' | 'secondary' | 'ghost'), colorScheme
-
-## spacerBlock
-Vertical spacing.
-Fields: sizeDesktop, sizeMobile
-
-## dividerBlock
-Horizontal line divider.
-Fields: marginTop, marginBottom, color
-
-## iconBlock
-Phosphor icons.
-Fields: icon, size, color, align
-
-## cardBlock
-Container with content array.
-Fields: content (array of blocks), padding, background
-
-## sliderBlock
-Image carousel.
-Fields: slides (array of images), autoplay, showArrows
-
-## tabsBlock
-Tabbed content.
-Fields: tabs (array with label and content)
-
-## accordionBlock
-Collapsible sections.
-Fields: items (array with title and content)
-`
+export function getServerSchemaContext(accessControl?: AccessControlDocument | null): string {
+  return formatSchemaForPrompt(filterSchemaContext(schemaContext as SchemaContext, accessControl))
 }
 
 /**
- * Check if a category should be included based on keywords in the message
+ * Schema validator for server-side writes (remote API, approvals, Slack and MCP).
+ * Reads claude-core's validation-schema.json, which is generated from the same
+ * studio schema types the Studio validates against.
  */
-export function detectRelevantCategories(
-  userMessage: string,
-  instructions: InstructionsDocument | null
-): Set<InstructionCategory> {
-  const lowerMessage = userMessage.toLowerCase()
-  const relevantCategories = new Set<InstructionCategory>()
-
-  // Default keywords for each category
-  const categoryKeywords: Record<InstructionCategory, string[]> = {
-    writing: [
-      'write', 'writing', 'copy', 'text', 'content', 'heading', 'title', 'description',
-      'paragraph', 'rich text', 'blog', 'article', 'post', 'caption', 'label',
-      'tone', 'voice', 'style', 'language', 'word', 'sentence', 'grammar'
-    ],
-    design: [
-      'design', 'layout', 'section', 'row', 'column', 'spacing', 'padding', 'margin',
-      'style', 'visual', 'color', 'theme', 'grid', 'responsive', 'mobile', 'desktop',
-      'hero', 'banner', 'card', 'button', 'icon', 'image', 'slider', 'tab',
-      'background', 'overlay', 'align', 'width', 'height', 'page', 'create', 'build'
-    ],
-    technical: [
-      'nest', 'nesting', 'depth', 'schema', 'structure', 'field', 'type', 'key',
-      'sanity', 'groq', 'query', 'api', 'update', 'delete', 'duplicate',
-      'error', 'fail', 'bug', 'fix', 'constraint', 'limit', 'required'
-    ],
-  }
-
-  // Override with custom keywords from instructions if provided
-  if (instructions?.writingKeywords) {
-    categoryKeywords.writing = instructions.writingKeywords.split(',').map(k => k.trim().toLowerCase())
-  }
-  if (instructions?.designKeywords) {
-    categoryKeywords.design = instructions.designKeywords.split(',').map(k => k.trim().toLowerCase())
-  }
-  if (instructions?.technicalKeywords) {
-    categoryKeywords.technical = instructions.technicalKeywords.split(',').map(k => k.trim().toLowerCase())
-  }
-
-  for (const [category, keywords] of Object.entries(categoryKeywords) as [InstructionCategory, string[]][]) {
-    for (const keyword of keywords) {
-      if (lowerMessage.includes(keyword)) {
-        relevantCategories.add(category)
-        break
-      }
-    }
-  }
-
-  // If no categories detected, include all (fallback for ambiguous queries)
-  if (relevantCategories.size === 0) {
-    relevantCategories.add('writing')
-    relevantCategories.add('design')
-    relevantCategories.add('technical')
-  }
-
-  return relevantCategories
+export function getServerValidator(client: SanityClient): SchemaValidator {
+  return createSchemaValidator(client, validationSchema as ValidationSchema)
 }
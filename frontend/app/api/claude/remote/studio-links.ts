@@ -0,0 +1,30 @@
+/**
+ * Studio Links for Remote API
+ *
+ * Builds links to documents in Sanity Studio for API responses and the
+ * Slack adapter.
+ */
+
+import type { RemoteClaudeResponse } from './types'
+
+/**
+ * Generate Studio URLs for documents
+ */
+export function generateStudioLinks(
+  documentIds: string[],
+  documentTypes: Map<string, string>
+): RemoteClaudeResponse['studioLinks'] {
+  const studioUrl = process.env.SANITY_STUDIO_URL || process.env.NEXT_PUBLIC_SANITY_STUDIO_URL || ''
+
+  return documentIds.map(docId => {
+    const docType = documentTypes.get(docId) || 'document'
+    const baseDocId = docId.replace(/^drafts\./, '')
+
+    return {
+      documentId: docId,
+      documentType: docType,
+      structureUrl: `${studioUrl}/structure/${docType};${docId}`,
+      presentationUrl: docType === 'page' ? `${studioUrl}/presentation?preview=/${baseDocId}` : undefined,
+    }
+  })
+}
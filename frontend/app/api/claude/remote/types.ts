@@ -6,52 +6,54 @@
  * using the same instructions and workflows as the Sanity Studio tool.
  */
 
+import type {
+  AccessControlSettings,
+  ActionResult,
+  ActionType,
+  AgentStopReason,
+  ApiKeyAccess,
+  ApiKeyScopes,
+  BudgetSettings,
+  BudgetStatus,
+  InstructionCategory,
+  ModelPrice,
+  ParsedAction,
+  SchemaTypesContext,
+  SystemPromptExplanation,
+  TokenUsage,
+  WorkflowParameter,
+  WorkflowStep,
+} from 'claude-core'
+
 // ============================================================================
-// Action Types (mirrored from studio plugin for server-side use)
+// Action Types (shared with the studio plugin through claude-core)
 // ============================================================================
 
-export type ActionType =
-  | 'create'
-  | 'update'
-  | 'delete'
-  | 'query'
-  | 'navigate'
-  | 'explain'
-  | 'uploadImage'
-
-export type ActionStatus = 'pending' | 'executing' | 'completed' | 'failed' | 'cancelled'
-
-export interface ActionPayload {
-  documentType?: string
-  documentId?: string
-  fields?: Record<string, unknown>
-  query?: string
-  path?: string
-  explanation?: string
-}
-
-export interface ActionResult {
-  success: boolean
-  data?: unknown
-  message?: string
-  documentId?: string
-  preState?: unknown
-}
-
-export interface ParsedAction {
-  id: string
-  type: ActionType
-  description: string
-  status: ActionStatus
-  payload: ActionPayload
-  result?: ActionResult
-  error?: string
-}
+export type {
+  AccessOperation,
+  AgentStopReason,
+  ApiKeyAccess,
+  ActionPayload,
+  ActionResult,
+  ActionStatus,
+  ActionType,
+  FieldInfo,
+  ParsedAction,
+  PatchOperation,
+  PatchOperationType,
+  PromptCategoryMatch,
+  PromptSection,
+  SchemaInfo,
+} from 'claude-core'
 
 /**
- * Instruction categories that can be included in the prompt
+ * Sanity instructions document and its categories, formatted into the prompt
+ * by the same code as in the Studio
  */
-export type InstructionCategory = 'writing' | 'design' | 'technical'
+export type {
+  ClaudeInstructionsDocument as InstructionsDocument,
+  InstructionCategory,
+} from 'claude-core'
 
 /**
  * Request body for the remote Claude API
@@ -59,6 +61,8 @@ export type InstructionCategory = 'writing' | 'design' | 'technical'
 export interface RemoteClaudeRequest {
   /**
    * The user's message/request (natural language)
+   * May be left out when params are given: the workflow's filled-in starter
+   * prompt is sent instead.
    */
   message: string
 
@@ -68,6 +72,22 @@ export interface RemoteClaudeRequest {
    */
   workflow?: string
 
+  /**
+   * Optional: For a workflow with steps, the 1-based step to start at
+   * (default 1). The pipeline runs step by step and stops after the first
+   * step that requires approval; send the returned pipeline.nextStep to
+   * continue past it.
+   */
+  workflowStep?: number
+
+  /**
+   * Optional: Values for the workflow's parameters, by name. They are
+   * validated against the parameter types and filled into the workflow's
+   * starter prompt, which starts the user message.
+   * @example { "product": "Acme Notes", "launchDate": "2026-03-01" }
+   */
+  params?: Record<string, unknown>
+
   /**
    * Optional: Which instruction categories to include
    * Defaults to all categories if not specified
@@ -105,6 +125,12 @@ export interface RemoteClaudeRequest {
     content: string
   }>
 
+  /**
+   * Optional: Summary of the conversation before conversationHistory, as
+   * returned in metadata.conversationSummary by an earlier request
+   */
+  conversationSummary?: string
+
   /**
    * Optional: Model override (defaults to configured model or claude-sonnet-4)
    */
@@ -119,6 +145,85 @@ export interface RemoteClaudeRequest {
    * Optional: Temperature for response generation (defaults to 0.7)
    */
   temperature?: number
+
+  /**
+   * Optional: Maximum Claude responses to chain in one request (defaults to the
+   * agentMaxSteps API setting, or 5). Read-only actions (query, explain) run and
+   * their results are sent back to Claude until it requests a write action.
+   */
+  maxSteps?: number
+
+  /**
+   * Optional: Stop chaining once this many tokens have been used across all
+   * steps (defaults to the agentTokenBudget API setting, or 100000)
+   */
+  tokenBudget?: number
+
+  /**
+   * Optional: Stream the run as Server-Sent Events instead of one JSON response.
+   * See RemoteStreamEvents for the events sent; the last is `done` (the full
+   * RemoteClaudeResponse) or `error`.
+   */
+  stream?: boolean
+
+  /**
+   * Optional: Queue the request and return a job ID right away (202) instead
+   * of waiting for the run. Poll GET /api/claude/remote/jobs/{jobId}, or set
+   * callbackUrl to be notified. Cannot be combined with stream.
+   */
+  async?: boolean
+
+  /**
+   * Optional (async only): URL that receives a RemoteJobCallback POST when the
+   * job finishes, signed in the X-Claude-Signature header
+   */
+  callbackUrl?: string
+
+  /**
+   * Optional: Action types to hold for approval instead of running, e.g.
+   * ["delete", "unpublish"]. Held actions are returned in pendingApproval and
+   * run by POST /api/claude/remote/approvals/{approvalId}. Ignored in dry runs.
+   */
+  holdActions?: ActionType[]
+}
+
+/**
+ * Why a remote run stopped: an agent loop stop reason, or usageBudget when
+ * a monthly budget in API Settings ran out during the run
+ */
+export type RemoteStopReason = AgentStopReason | 'usageBudget'
+
+/**
+ * One Claude response within an agent run
+ */
+export interface AgentStepRecord {
+  /**
+   * 1-based step number
+   */
+  step: number
+
+  /**
+   * 1-based workflow step this response belongs to, for workflows with steps
+   */
+  workflowStep?: number
+
+  /**
+   * Claude's text response for this step (with action blocks removed)
+   */
+  response: string
+
+  /**
+   * Actions requested in this step
+   */
+  actions: ExecutedAction[]
+
+  /**
+   * Token usage for this step
+   */
+  inputTokens: number
+  outputTokens: number
+  cacheCreationInputTokens?: number
+  cacheReadInputTokens?: number
 }
 
 /**
@@ -139,6 +244,11 @@ export interface ExecutedAction {
    * Whether this was a dry run (action was not actually executed)
    */
   dryRun: boolean
+
+  /**
+   * Held for approval (see holdActions); runs once the approval is approved
+   */
+  held?: boolean
 }
 
 /**
@@ -156,10 +266,15 @@ export interface RemoteClaudeResponse {
   response: string
 
   /**
-   * Parsed and executed actions
+   * Parsed and executed actions, across all steps
    */
   actions: ExecutedAction[]
 
+  /**
+   * Each Claude response of the agent run, in order
+   */
+  steps: AgentStepRecord[]
+
   /**
    * Summary of what was done
    */
@@ -193,6 +308,21 @@ export interface RemoteClaudeResponse {
      * Deleted document IDs
      */
     deletedDocuments: string[]
+
+    /**
+     * Published document IDs
+     */
+    publishedDocuments: string[]
+
+    /**
+     * Unpublished document IDs
+     */
+    unpublishedDocuments: string[]
+
+    /**
+     * Document IDs scheduled to be published
+     */
+    scheduledDocuments: string[]
   }
 
   /**
@@ -218,6 +348,20 @@ export interface RemoteClaudeResponse {
    */
   includedInstructions: InstructionCategory[]
 
+  /**
+   * Progress through the workflow's steps, for workflows with steps
+   */
+  pipeline?: RemotePipelineStatus
+
+  /**
+   * Actions held for approval (see holdActions)
+   */
+  pendingApproval?: {
+    approvalId: string
+    expiresAt: string
+    actions: ParsedAction[]
+  }
+
   /**
    * Error message if success is false
    */
@@ -241,9 +385,302 @@ export interface RemoteClaudeResponse {
      * Whether this was a dry run
      */
     dryRun: boolean
+
+    /**
+     * Tokens used across all steps
+     */
+    tokensUsed?: number
+
+    /**
+     * Input, output and cache tokens used across all steps
+     */
+    usage?: TokenUsage
+
+    /**
+     * Estimated cost in USD, from the model prices in API settings
+     */
+    estimatedCost?: number
+
+    /**
+     * Monthly budget status after this request (when budgets are configured)
+     */
+    budget?: BudgetStatus
+
+    /**
+     * Why the agent run stopped
+     */
+    stopReason?: RemoteStopReason
+
+    /**
+     * Set when the history passed the summary threshold and its older messages
+     * were summarized. For the next request, drop the first messageCount
+     * messages of the history sent and pass content as conversationSummary.
+     */
+    conversationSummary?: {
+      content: string
+      messageCount: number
+    }
   }
 }
 
+/**
+ * Server-Sent Events sent when a request sets stream: true, keyed by event name
+ * Each event's data is its value as JSON.
+ */
+export interface RemoteStreamEvents {
+  /**
+   * A chunk of Claude's text as it is generated (action blocks included)
+   */
+  text: { step: number; text: string }
+
+  /**
+   * An action Claude requested, before it runs
+   */
+  action: { step: number; action: ParsedAction }
+
+  /**
+   * The outcome of an action (or its dry-run placeholder)
+   */
+  actionResult: ExecutedAction & { step: number }
+
+  /**
+   * A workflow step started, for workflows with steps
+   */
+  workflowStep: { step: number; workflowStep: number; title: string }
+
+  /**
+   * The run finished; same body as the non-streaming response
+   */
+  done: RemoteClaudeResponse
+
+  /**
+   * The run failed after the stream opened
+   */
+  error: { success: false; error: string }
+}
+
+/**
+ * Why a pipeline run stopped
+ * - complete: every step ran
+ * - awaitingApproval: a step that requires approval finished; continue with nextStep
+ * - stopped: the agent budget ran out or actions were held, before the step finished
+ */
+export type RemotePipelineStopReason = 'complete' | 'awaitingApproval' | 'stopped'
+
+/**
+ * Progress through a workflow's steps
+ */
+export interface RemotePipelineStatus {
+  status: RemotePipelineStopReason
+  steps: Array<{
+    /** 1-based step number */
+    step: number
+    title: string
+    requireApproval: boolean
+    status: 'completed' | 'stopped' | 'notRun'
+  }>
+  /** Step to send as workflowStep to continue the pipeline */
+  nextStep?: number
+}
+
+/**
+ * Sends one streaming event
+ */
+export type RemoteStreamEmitter = <E extends keyof RemoteStreamEvents>(
+  event: E,
+  data: RemoteStreamEvents[E]
+) => void
+
+/**
+ * State of an async job
+ */
+export type RemoteJobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+/**
+ * Delivery state of an async job's callback
+ */
+export type RemoteJobCallbackStatus = 'pending' | 'delivered' | 'failed'
+
+/**
+ * Response to a request sent with async: true (HTTP 202)
+ */
+export interface RemoteJobAcceptedResponse {
+  success: true
+  jobId: string
+  status: RemoteJobStatus
+  /**
+   * URL to poll for the job's status and result
+   */
+  statusUrl: string
+}
+
+/**
+ * The system prompt a request runs with, section by section
+ */
+export interface RemotePromptExplanation extends SystemPromptExplanation<InstructionCategory> {
+  /** Instruction categories included, as reported in metadata.includedInstructions */
+  includedCategories: InstructionCategory[]
+}
+
+/**
+ * Response to a request sent with ?explainPrompt=1
+ * Claude is not called and no actions run.
+ */
+export interface RemoteExplainPromptResponse {
+  success: true
+  explanation: RemotePromptExplanation
+  metadata: {
+    processingTime: number
+  }
+}
+
+/**
+ * Body POSTed to callbackUrl when an async job finishes
+ */
+export interface RemoteJobCallback {
+  jobId: string
+  status: Extract<RemoteJobStatus, 'succeeded' | 'failed'>
+  /**
+   * The full RemoteClaudeResponse when the job succeeded; success, error and
+   * metadata when it failed
+   */
+  response: Partial<RemoteClaudeResponse>
+}
+
+/**
+ * Response from GET /api/claude/remote/jobs/{jobId}
+ */
+export interface RemoteJobStatusResponse {
+  success: true
+  jobId: string
+  status: RemoteJobStatus
+  createdAt: string
+  startedAt?: string
+  completedAt?: string
+  /**
+   * Set once the job has finished, as in RemoteJobCallback
+   */
+  response?: Partial<RemoteClaudeResponse>
+  error?: string
+  callback?: {
+    status: RemoteJobCallbackStatus
+    attempts: number
+    error?: string
+  }
+}
+
+/**
+ * claudeRemoteJob document
+ */
+export interface RemoteJobDocument {
+  _id: string
+  _type: 'claudeRemoteJob'
+  status: RemoteJobStatus
+  clientId: string
+  /** ID of the API key that queued the job */
+  apiKeyId?: string
+  apiKeyName?: string
+  message: string
+  workflow?: string
+  dryRun?: boolean
+  createdAt: string
+  startedAt?: string
+  completedAt?: string
+  error?: string
+  /**
+   * The final response, as JSON
+   */
+  result?: string
+  callbackUrl?: string
+  callbackStatus?: RemoteJobCallbackStatus
+  callbackAttempts?: number
+  callbackError?: string
+}
+
+/**
+ * State of an approval for held actions
+ */
+export type RemoteApprovalStatus = 'pending' | 'approved' | 'rejected'
+
+/**
+ * Body for POST /api/claude/remote/approvals/{approvalId}
+ */
+export interface RemoteApprovalDecision {
+  decision: 'approve' | 'reject'
+  /**
+   * Who decided, for the record (e.g. a Slack user ID)
+   */
+  decidedBy?: string
+}
+
+/**
+ * Response from POST /api/claude/remote/approvals/{approvalId}
+ */
+export interface RemoteApprovalResponse {
+  success: boolean
+  approvalId: string
+  status: RemoteApprovalStatus
+  /**
+   * Results of the held actions; empty when rejected
+   */
+  actions: ExecutedAction[]
+  studioLinks?: RemoteClaudeResponse['studioLinks']
+  error?: string
+}
+
+/**
+ * claudeRemoteApproval document
+ */
+export interface RemoteApprovalDocument {
+  _id: string
+  _type: 'claudeRemoteApproval'
+  _rev?: string
+  status: RemoteApprovalStatus
+  apiKeyId: string
+  apiKeyName: string
+  clientId: string
+  createdAt: string
+  expiresAt: string
+  decidedAt?: string
+  decidedBy?: string
+  /**
+   * The held actions, as JSON
+   */
+  actions: string
+  /**
+   * Results once approved, as JSON
+   */
+  results?: string
+}
+
+/**
+ * claudeApiKey document (published version), as loaded for authentication
+ */
+export interface ApiKeyDocument {
+  _id: string
+  name: string
+  access?: ApiKeyAccess
+  /** Workflow document IDs */
+  allowedWorkflows?: string[]
+  allowedDocumentTypes?: string[]
+  allowedActions?: ActionType[]
+  rateLimit?: number
+  expiresAt?: string
+  revoked?: boolean
+}
+
+/**
+ * The API key a request authenticated with, and its scopes.
+ * Empty or missing lists mean "no restriction".
+ */
+export interface RemoteApiKey extends ApiKeyScopes {
+  /** claudeApiKey document ID, or "env" for CLAUDE_REMOTE_API_SECRET */
+  id: string
+  allowedWorkflows?: string[]
+  /** Requests per minute (defaults to CLAUDE_REMOTE_RATE_LIMIT) */
+  rateLimit?: number
+}
+
 /**
  * Sanity workflow document (simplified for API use)
  */
@@ -253,51 +690,38 @@ export interface WorkflowDocument {
   description?: string
   systemInstructions?: string
   starterPrompt?: string
+  /** Typed inputs filled into the starter prompt */
+  parameters?: Array<Partial<WorkflowParameter>>
+  /** Steps of a multi-step workflow, instructions still as Portable Text */
+  steps?: Array<Omit<WorkflowStep, 'instructions'> & { instructions?: unknown }>
   active?: boolean
 }
 
-/**
- * Sanity instructions document (simplified for API use)
- */
-export interface InstructionsDocument {
-  _id: string
-  _type: 'claudeInstructions'
-  writingGuidelines?: unknown
-  brandVoice?: unknown
-  designSystemRules?: unknown
-  technicalConstraints?: unknown
-  forbiddenTerms?: string[]
-  preferredTerms?: Array<{
-    _key: string
-    avoid: string
-    useInstead: string
-  }>
-  componentGuidelines?: Array<{
-    _key: string
-    component: string
-    guidelines?: string
-    doNot?: string
-  }>
-  maxNestingDepth?: number
-  requiredFields?: Array<{
-    _key: string
-    component: string
-    fields?: string[]
-  }>
-  writingKeywords?: string
-  designKeywords?: string
-  technicalKeywords?: string
-  includeSectionTemplates?: boolean
-  sectionTemplateGuidance?: string
-}
-
 /**
  * API Settings document
  */
-export interface ApiSettingsDocument {
+export interface ApiSettingsDocument extends BudgetSettings {
   _id: string
   model?: string
   maxTokens?: number
   temperature?: number
   enableStreaming?: boolean
+  agentMaxSteps?: number
+  agentTokenBudget?: number
+  summaryThresholdTokens?: number
+  modelPrices?: ModelPrice[]
+}
+
+/**
+ * Access Control document (claudeAccessControl singleton)
+ * Empty lists mean "no restriction".
+ */
+export interface AccessControlDocument extends AccessControlSettings {
+  _id: string
 }
+
+/**
+ * Serialized schema context generated from the studio schema types
+ * by `npm run extract-schema-context` in the studio workspace
+ */
+export type SchemaContext = SchemaTypesContext
@@ -0,0 +1,53 @@
+/**
+ * Usage Logging for Remote API
+ *
+ * Records the tokens each remote request used as a claudeRemoteUsage
+ * document, so the Studio usage view can report them alongside
+ * conversation usage.
+ */
+
+import { randomUUID } from 'crypto'
+import type { SanityClient } from '@sanity/client'
+import type { TokenUsage } from 'claude-core'
+
+/**
+ * One remote request's usage, as stored in Sanity
+ */
+export interface RemoteUsageEntry {
+  clientId: string
+  apiKey?: { id: string; name: string }
+  model: string
+  usage: TokenUsage
+  steps: number
+  workflow?: { id: string; name: string }
+  dryRun?: boolean
+}
+
+/**
+ * Record a remote request's usage
+ * Failures are logged rather than thrown so they never fail the request
+ */
+export async function recordRemoteUsage(client: SanityClient, entry: RemoteUsageEntry): Promise<void> {
+  try {
+    await client.create({
+      // IDs with a dot are not publicly readable, even in public datasets
+      _id: `claude-usage.${randomUUID()}`,
+      _type: 'claudeRemoteUsage',
+      timestamp: new Date().toISOString(),
+      clientId: entry.clientId,
+      apiKeyId: entry.apiKey?.id,
+      apiKeyName: entry.apiKey?.name,
+      model: entry.model,
+      inputTokens: entry.usage.inputTokens,
+      outputTokens: entry.usage.outputTokens,
+      cacheCreationInputTokens: entry.usage.cacheCreationInputTokens || 0,
+      cacheReadInputTokens: entry.usage.cacheReadInputTokens || 0,
+      steps: entry.steps,
+      workflowId: entry.workflow?.id,
+      workflowName: entry.workflow?.name,
+      dryRun: entry.dryRun || false,
+    })
+  } catch (error) {
+    console.error('[Remote Claude API] Failed to record usage:', error)
+  }
+}
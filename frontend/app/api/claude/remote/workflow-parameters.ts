@@ -0,0 +1,91 @@
+/**
+ * Workflow Parameters for Remote API
+ *
+ * Checks a request's "params" against the workflow's typed parameters, looks
+ * up the documents and image assets they point to, and fills the workflow's
+ * starter prompt. Type and format checks come from claude-core, shared with
+ * the studio skill picker.
+ */
+
+import type { SanityClient } from '@sanity/client'
+import {
+  interpolateWorkflowPrompt,
+  validateWorkflowParameterValues,
+  type WorkflowParameter,
+  type WorkflowParameterValues,
+} from 'claude-core'
+import { loadParameterTargets } from './sanity-loader'
+import type { WorkflowDocument } from './types'
+
+/**
+ * The workflow's parameters, skipping any without a name
+ */
+export function getWorkflowParameters(workflow: WorkflowDocument): WorkflowParameter[] {
+  return (workflow.parameters || [])
+    .filter(parameter => parameter.name)
+    .map(parameter => ({
+      name: parameter.name!,
+      title: parameter.title || parameter.name!,
+      type: parameter.type || 'text',
+      description: parameter.description || undefined,
+      required: parameter.required || undefined,
+      options: parameter.options || undefined,
+      documentTypes: parameter.documentTypes || undefined,
+    }))
+}
+
+/**
+ * Validate params and fill them into the workflow's starter prompt
+ * Returns the filled-in prompt, or an error message for a 400 response.
+ */
+export async function resolveWorkflowParams(
+  client: SanityClient,
+  workflow: WorkflowDocument,
+  params: unknown
+): Promise<{ prompt: string } | { error: string }> {
+  const parameters = getWorkflowParameters(workflow)
+
+  const errors = validateWorkflowParameterValues(parameters, params)
+  if (errors.length > 0) {
+    return { error: `Invalid params for workflow "${workflow.name}": ${errors.join('; ')}` }
+  }
+
+  const values = (params || {}) as WorkflowParameterValues
+  const lookups = parameters.filter(
+    parameter => (parameter.type === 'reference' || parameter.type === 'image') && values[parameter.name]
+  )
+  const targets = await loadParameterTargets(client, lookups.map(parameter => values[parameter.name]))
+
+  // Referenced documents must exist and be of an allowed type; images must be image assets
+  const labels: Record<string, string> = {}
+  for (const parameter of lookups) {
+    const value = values[parameter.name]
+    const target = targets.find(doc => doc._id === value) || targets.find(doc => doc._id === `drafts.${value}`)
+
+    if (parameter.type === 'image') {
+      if (target?._type !== 'sanity.imageAsset') {
+        errors.push(`"${parameter.title}": image asset not found: ${value}`)
+        continue
+      }
+      if (target.originalFilename) labels[parameter.name] = target.originalFilename
+      continue
+    }
+
+    if (!target) {
+      errors.push(`"${parameter.title}": document not found: ${value}`)
+      continue
+    }
+    if (parameter.documentTypes?.length && !parameter.documentTypes.includes(target._type)) {
+      errors.push(`"${parameter.title}" must be a ${parameter.documentTypes.join(' or ')} document, not ${target._type}`)
+      continue
+    }
+    const label = target.title || target.name
+    if (label) labels[parameter.name] = label
+  }
+
+  if (errors.length > 0) {
+    return { error: `Invalid params for workflow "${workflow.name}": ${errors.join('; ')}` }
+  }
+
+  return { prompt: interpolateWorkflowPrompt(workflow.starterPrompt || '', parameters, values, labels).trim() }
+}
@@ -1,5 +1,8 @@
 import Anthropic from '@anthropic-ai/sdk'
 import { NextRequest, NextResponse } from 'next/server'
+import { DESTRUCTIVE_ACTION_TYPES, toTokenUsage, type TokenUsage } from 'claude-core'
+import { openRequestBudget, type BudgetMeter } from './budget'
+import { getStudioUserIdentity } from './studio-user'
 
 // Initialize Anthropic client
 const anthropic = new Anthropic({
@@ -98,9 +101,29 @@ interface TextContentBlock {
 }
 
 /**
- * Content can be a string or array of content blocks (for multimodal)
+ * Tool use content block (an earlier tool call by Claude, sent back as history)
  */
-type MessageContent = string | (ImageContentBlock | TextContentBlock)[]
+interface ToolUseContentBlock {
+  type: 'tool_use'
+  id: string
+  name: string
+  input: Record<string, unknown>
+}
+
+/**
+ * Tool result content block (the outcome of an earlier tool call)
+ */
+interface ToolResultContentBlock {
+  type: 'tool_result'
+  tool_use_id: string
+  content: string
+  is_error?: boolean
+}
+
+/**
+ * Content can be a string or array of content blocks (for multimodal and tool use)
+ */
+type MessageContent = string | (ImageContentBlock | TextContentBlock | ToolUseContentBlock | ToolResultContentBlock)[]
 
 /**
  * Message type from the client
@@ -127,6 +150,25 @@ interface ClaudeChatRequest {
   maxTokens?: number
   /** Temperature for response generation (0-1) */
   temperature?: number
+  /** Action tool definitions from studio (one per action type) */
+  tools?: Anthropic.Tool[]
+}
+
+/**
+ * GET handler for the budget status of the calling Studio user
+ * The Studio shows the remaining budget in the message input before the first request.
+ * Only the caller's own budgets are reported, for the user its token belongs to.
+ */
+export async function GET(request: NextRequest) {
+  const origin = request.headers.get('origin')
+
+  try {
+    const budget = await openRequestBudget(await getStudioUserIdentity(request.headers.get('authorization')))
+    return jsonResponse({ budget: budget?.status ?? null }, 200, origin)
+  } catch (error) {
+    console.error('[Claude API] Failed to load budget:', error)
+    return jsonResponse({ error: 'Could not load the Claude usage budget' }, 503, origin)
+  }
 }
 
 /**
@@ -162,35 +204,13 @@ ${instructionsSection}
 - Validate that referenced documents exist before creating references
 - Follow the writing guidelines strictly
 
-## Action Format
+## Performing Actions
 
-When you need to perform content operations, output them in action blocks:
+When you need to perform content operations, call the provided tools (create, update, patch, delete, publish, schedulePublish, query, ...) instead of writing actions in your reply.
 
-\`\`\`action
-{
-  "type": "create",
-  "documentType": "page",
-  "description": "Create 'About Us' page with hero section",
-  "data": {
-    "title": "About Us",
-    "slug": { "current": "about-us" },
-    "sections": [...]
-  }
-}
-\`\`\`
-
-For destructive operations, always explain what will happen first:
+For destructive operations, always explain what will happen first.
 
-\`\`\`action
-{
-  "type": "delete",
-  "documentId": "abc123",
-  "documentType": "page",
-  "description": "Delete the 'Old Landing Page' document"
-}
-\`\`\`
-
-The user will see a confirmation button for destructive actions (delete, unpublish).
+The user will see a confirmation button for destructive actions (${DESTRUCTIVE_ACTION_TYPES.join(', ')}).
 
 After successful creation or update, I'll provide links for the user to:
 - View the document in Structure
@@ -200,7 +220,7 @@ After successful creation or update, I'll provide links for the user to:
 
 1. Acknowledge the request
 2. Explain what you'll do
-3. Output action blocks
+3. Call the action tools
 4. Wait for execution results
 5. Confirm completion with links to view the result
 `.trim()
@@ -218,6 +238,19 @@ function isValidContentBlock(block: unknown): boolean {
     return typeof b.text === 'string'
   }
 
+  if (b.type === 'tool_use') {
+    return (
+      typeof b.id === 'string' &&
+      typeof b.name === 'string' &&
+      !!b.input &&
+      typeof b.input === 'object'
+    )
+  }
+
+  if (b.type === 'tool_result') {
+    return typeof b.tool_use_id === 'string' && typeof b.content === 'string'
+  }
+
   if (b.type === 'image') {
     const source = b.source as Record<string, unknown> | undefined
     return !!(
@@ -245,6 +278,10 @@ function validateRequest(body: unknown): body is ClaudeChatRequest {
     return false
   }
 
+  if (request.tools !== undefined && !Array.isArray(request.tools)) {
+    return false
+  }
+
   // Validate each message has required fields
   for (const message of request.messages) {
     if (!message.role || !['user', 'assistant'].includes(message.role)) {
@@ -312,7 +349,7 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  const { messages, schema, instructions, system, model, maxTokens, temperature } = body as ClaudeChatRequest
+  const { messages, schema, instructions, system, model, maxTokens, temperature, tools } = body as ClaudeChatRequest
 
   // Ensure there's at least one message
   if (messages.length === 0) {
@@ -323,6 +360,26 @@ export async function POST(request: NextRequest) {
     )
   }
 
+  // Refuse the request once a monthly budget is used up
+  let budget: BudgetMeter | null
+  try {
+    budget = await openRequestBudget(await getStudioUserIdentity(request.headers.get('authorization')))
+  } catch (error) {
+    console.error('[Claude API] Budget check failed:', error)
+    return jsonResponse(
+      { error: 'Could not verify the Claude usage budget. Please try again.' },
+      503,
+      origin
+    )
+  }
+  if (budget && !budget.status.allowed) {
+    return jsonResponse(
+      { error: budget.status.error, code: 'budget_exceeded', budget: budget.status },
+      429,
+      origin
+    )
+  }
+
   // Use pre-built system prompt from studio if provided, otherwise build fallback
   const systemPrompt = system || buildSystemPrompt(schema, instructions)
 
@@ -343,6 +400,7 @@ export async function POST(request: NextRequest) {
         role: m.role,
         content: m.content as Anthropic.MessageParam['content'], // SDK accepts both string and content blocks
       })),
+      ...(tools && tools.length > 0 ? { tools } : {}),
     })
 
     // Create a TextEncoder for the stream
@@ -351,8 +409,51 @@ export async function POST(request: NextRequest) {
     // Create a ReadableStream that emits SSE events
     const readableStream = new ReadableStream({
       async start(controller) {
+        // Tool calls in progress, keyed by content block index
+        const toolBlocks = new Map<number, { id: string; name: string; inputJson: string }>()
+        // Token usage, reported to the client once the message completes
+        let usage: TokenUsage = toTokenUsage({})
+        let started = false
+        let metered = false
+
+        // Meter the message once, when it completes or when the stream fails partway
+        const meter = async () => {
+          metered = true
+          return budget ? budget.record(usage, selectedModel) : null
+        }
+
         try {
           for await (const event of stream) {
+            // Track tool_use blocks and accumulate their streamed JSON input
+            if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+              toolBlocks.set(event.index, {
+                id: event.content_block.id,
+                name: event.content_block.name,
+                inputJson: '',
+              })
+            }
+
+            if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+              const toolBlock = toolBlocks.get(event.index)
+              if (toolBlock) {
+                toolBlock.inputJson += event.delta.partial_json
+              }
+            }
+
+            // Emit each completed tool call as a single event
+            if (event.type === 'content_block_stop' && toolBlocks.has(event.index)) {
+              const toolBlock = toolBlocks.get(event.index)!
+              toolBlocks.delete(event.index)
+              const data = JSON.stringify({
+                toolUse: {
+                  id: toolBlock.id,
+                  name: toolBlock.name,
+                  input: toolBlock.inputJson ? JSON.parse(toolBlock.inputJson) : {},
+                },
+              })
+              controller.enqueue(encoder.encode(`data: ${data}\n\n`))
+            }
+
             // Handle text delta events
             if (
               event.type === 'content_block_delta' &&
@@ -362,8 +463,22 @@ export async function POST(request: NextRequest) {
               controller.enqueue(encoder.encode(`data: ${data}\n\n`))
             }
 
+            // Track token usage (output_tokens in message_delta is cumulative)
+            if (event.type === 'message_start') {
+              usage = toTokenUsage(event.message.usage)
+              started = true
+            }
+            if (event.type === 'message_delta') {
+              usage.outputTokens = event.usage.output_tokens
+            }
+
             // Handle message stop event
             if (event.type === 'message_stop') {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ usage })}\n\n`))
+              const status = await meter()
+              if (status) {
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ budget: status })}\n\n`))
+              }
               controller.enqueue(encoder.encode(`data: [DONE]\n\n`))
               controller.close()
             }
@@ -376,6 +491,10 @@ export async function POST(request: NextRequest) {
           controller.enqueue(encoder.encode(`data: ${errorData}\n\n`))
           controller.enqueue(encoder.encode(`data: [DONE]\n\n`))
           controller.close()
+        } finally {
+          if (started && !metered) {
+            await meter()
+          }
         }
       },
     })
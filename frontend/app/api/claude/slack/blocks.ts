@@ -0,0 +1,151 @@
+/**
+ * Slack Block Kit Messages
+ *
+ * Builds the adapter's replies: Claude's response, a summary of the actions
+ * it ran, Studio links, and approve/reject buttons for held actions.
+ */
+
+import type { ExecutedAction, RemoteApprovalResponse, RemoteClaudeResponse } from '../remote/types'
+import type { SlackBlock } from './types'
+
+// block_id of the approve/reject buttons, removed once a decision is made
+export const APPROVAL_BLOCK_ID = 'claude_approval_actions'
+export const APPROVE_ACTION_ID = 'claude_approve'
+export const REJECT_ACTION_ID = 'claude_reject'
+
+// Slack's limit for a section block's text
+const MAX_SECTION_TEXT_LENGTH = 3000
+// Actions listed individually in a summary; the rest are counted
+const MAX_LISTED_ACTIONS = 10
+
+/**
+ * Convert Claude's Markdown to Slack's mrkdwn
+ */
+export function toSlackMarkdown(text: string): string {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<$2|$1>')
+    .replace(/^#{1,6}\s+(.+)$/gm, '*$1*')
+}
+
+/**
+ * Truncate text to fit in a section block
+ */
+function truncate(text: string): string {
+  return text.length > MAX_SECTION_TEXT_LENGTH ? `${text.slice(0, MAX_SECTION_TEXT_LENGTH - 1)}…` : text
+}
+
+function section(text: string): SlackBlock {
+  return { type: 'section', text: { type: 'mrkdwn', text: truncate(text) } }
+}
+
+function context(text: string): SlackBlock {
+  return { type: 'context', elements: [{ type: 'mrkdwn', text: truncate(text) }] }
+}
+
+/**
+ * One line per action, with its outcome
+ */
+function describeActions(actions: ExecutedAction[]): string {
+  const lines = actions.slice(0, MAX_LISTED_ACTIONS).map(({ action, result, dryRun, held }) => {
+    const icon = held ? ':hourglass_flowing_sand:' : dryRun ? ':memo:' : result.success ? ':white_check_mark:' : ':x:'
+    const outcome = held ? 'awaiting approval' : dryRun ? 'dry run' : result.message
+    return `${icon} *${action.type}*: ${action.description}${outcome ? ` _(${outcome})_` : ''}`
+  })
+
+  if (actions.length > MAX_LISTED_ACTIONS) {
+    lines.push(`…and ${actions.length - MAX_LISTED_ACTIONS} more`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Links to the documents a request changed
+ */
+function describeStudioLinks(links: NonNullable<RemoteClaudeResponse['studioLinks']>): string {
+  return links
+    .slice(0, MAX_LISTED_ACTIONS)
+    .map(link => `<${link.structureUrl}|${link.documentType} ${link.documentId}>`)
+    .join('  ·  ')
+}
+
+/**
+ * Reply to a request, from the remote API's response
+ */
+export function buildResponseBlocks(response: RemoteClaudeResponse, prompt: string, userId: string): SlackBlock[] {
+  const blocks: SlackBlock[] = [context(`<@${userId}> asked: ${prompt}`)]
+
+  if (!response.success && response.error) {
+    blocks.push(section(`:warning: ${response.error}`))
+  }
+
+  if (response.response) {
+    blocks.push(section(toSlackMarkdown(response.response)))
+  }
+
+  if (response.actions?.length) {
+    blocks.push({ type: 'divider' }, section(describeActions(response.actions)))
+  }
+
+  if (response.studioLinks?.length) {
+    blocks.push(context(`Open in Studio: ${describeStudioLinks(response.studioLinks)}`))
+  }
+
+  if (response.pendingApproval) {
+    const { approvalId, actions } = response.pendingApproval
+    const count = `${actions.length} action${actions.length !== 1 ? 's' : ''}`
+    blocks.push(
+      section(`:raised_hand: ${count} need${actions.length === 1 ? 's' : ''} approval before ${actions.length === 1 ? 'it runs' : 'they run'}.`),
+      {
+        type: 'actions',
+        block_id: APPROVAL_BLOCK_ID,
+        elements: [
+          {
+            type: 'button',
+            action_id: APPROVE_ACTION_ID,
+            text: { type: 'plain_text', text: 'Approve' },
+            style: 'primary',
+            value: approvalId,
+            confirm: {
+              title: { type: 'plain_text', text: 'Run these actions?' },
+              text: { type: 'mrkdwn', text: truncate(actions.map(action => `• *${action.type}*: ${action.description}`).join('\n')) },
+              confirm: { type: 'plain_text', text: 'Run' },
+              deny: { type: 'plain_text', text: 'Cancel' },
+            },
+          },
+          {
+            type: 'button',
+            action_id: REJECT_ACTION_ID,
+            text: { type: 'plain_text', text: 'Reject' },
+            style: 'danger',
+            value: approvalId,
+          },
+        ],
+      }
+    )
+  }
+
+  return blocks
+}
+
+/**
+ * Blocks appended to a reply once its held actions are approved or rejected
+ */
+export function buildApprovalResultBlocks(result: RemoteApprovalResponse, userId: string): SlackBlock[] {
+  if (result.error && result.actions.length === 0) {
+    return [section(`:warning: ${result.error}`)]
+  }
+
+  if (result.status === 'rejected') {
+    return [context(`:no_entry_sign: Rejected by <@${userId}>. Nothing was changed.`)]
+  }
+
+  const blocks: SlackBlock[] = [
+    context(`:white_check_mark: Approved by <@${userId}>`),
+    section(describeActions(result.actions)),
+  ]
+  if (result.studioLinks?.length) {
+    blocks.push(context(`Open in Studio: ${describeStudioLinks(result.studioLinks)}`))
+  }
+  return blocks
+}
@@ -0,0 +1,64 @@
+/**
+ * Remote API Client for the Slack Adapter
+ *
+ * Slack requests run through the remote Claude API over HTTP with their own
+ * API key (SLACK_CLAUDE_API_KEY), so the key's scopes, rate limit and usage
+ * tracking apply to everything asked from Slack.
+ */
+
+import type { RemoteApprovalResponse, RemoteClaudeRequest, RemoteClaudeResponse } from '../remote/types'
+
+/**
+ * Base URL of the remote API: CLAUDE_REMOTE_API_URL, or this deployment's own route
+ */
+function getRemoteApiUrl(origin: string): string {
+  return (process.env.CLAUDE_REMOTE_API_URL || `${origin}/api/claude/remote`).replace(/\/$/, '')
+}
+
+/**
+ * POST JSON to the remote API and return its response body
+ * The remote API answers errors with JSON too, so the body is returned for any status.
+ */
+async function postToRemoteApi<T>(url: string, body: object): Promise<T> {
+  const apiKey = process.env.SLACK_CLAUDE_API_KEY
+  if (!apiKey) {
+    throw new Error('SLACK_CLAUDE_API_KEY environment variable is not configured')
+  }
+
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  try {
+    return (await res.json()) as T
+  } catch {
+    throw new Error(`Remote API returned HTTP ${res.status}`)
+  }
+}
+
+/**
+ * Send a request to the remote API
+ */
+export function callRemoteApi(origin: string, request: RemoteClaudeRequest): Promise<RemoteClaudeResponse> {
+  return postToRemoteApi<RemoteClaudeResponse>(getRemoteApiUrl(origin), request)
+}
+
+/**
+ * Approve or reject actions the remote API held for approval
+ */
+export function decideApproval(
+  origin: string,
+  approvalId: string,
+  decision: 'approve' | 'reject',
+  decidedBy: string
+): Promise<RemoteApprovalResponse> {
+  return postToRemoteApi<RemoteApprovalResponse>(
+    `${getRemoteApiUrl(origin)}/approvals/${encodeURIComponent(approvalId)}`,
+    { decision, decidedBy }
+  )
+}
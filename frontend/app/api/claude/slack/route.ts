@@ -0,0 +1,299 @@
+/**
+ * Slack Adapter for the Remote Claude API
+ *
+ * Lets people use Claude from Slack. Slash commands (e.g. "/claude add an FAQ
+ * page"), mentions of the app, direct messages and replies in the app's
+ * threads are sent to the remote API, with the thread so far as
+ * conversationHistory. Replies are Block Kit messages with Claude's response,
+ * the actions it ran and links to the changed documents in Studio.
+ *
+ * Destructive actions (DESTRUCTIVE_ACTION_TYPES: delete and the publishing
+ * actions) are held by the remote API (holdActions) and shown with
+ * Approve/Reject buttons; they only run once someone approves them.
+ *
+ * Every request is verified with Slack's signing secret (see verify.ts).
+ * Slack expects an answer within 3 seconds, so requests are acknowledged
+ * right away and Claude's reply is posted once the run finishes.
+ *
+ * Slack app setup:
+ * - Slash command, Event Subscriptions and Interactivity request URLs: /api/claude/slack
+ * - Bot events: app_mention, message.im, message.channels (for thread replies)
+ * - Bot scopes: commands, chat:write, app_mentions:read, channels:history, groups:history, im:history
+ *
+ * Required Environment Variables:
+ * - SLACK_SIGNING_SECRET: The Slack app's signing secret
+ * - SLACK_BOT_TOKEN: Bot token (xoxb-...) for posting replies and reading threads
+ * - SLACK_CLAUDE_API_KEY: Remote API key Slack requests run with (a claudeApiKey)
+ * - CLAUDE_REMOTE_API_URL: Remote API URL (optional, defaults to this deployment's /api/claude/remote)
+ *
+ * To try the route locally, sign fixture payloads with scripts/send-slack-fixture.mjs.
+ */
+
+import { after, NextRequest, NextResponse } from 'next/server'
+import { DESTRUCTIVE_ACTION_TYPES } from 'claude-core'
+import type { RemoteClaudeResponse } from '../remote/types'
+import {
+  APPROVAL_BLOCK_ID,
+  APPROVE_ACTION_ID,
+  REJECT_ACTION_ID,
+  buildApprovalResultBlocks,
+  buildResponseBlocks,
+} from './blocks'
+import { callRemoteApi, decideApproval } from './remote-client'
+import { getThreadMessages, postMessage, postToResponseUrl } from './slack-api'
+import { RESPONSE_METADATA_EVENT_TYPE, stripMentions, toConversationHistory } from './thread'
+import type {
+  BlockActionsPayload,
+  SlackBlock,
+  SlackEventEnvelope,
+  SlackMessageEvent,
+  SlashCommandPayload,
+} from './types'
+import { verifySlackRequest } from './verify'
+
+/**
+ * Where a reply goes
+ */
+interface ReplyTarget {
+  channel: string
+  threadTs?: string
+  /** Fallback for slash commands in channels the bot is not a member of */
+  responseUrl?: string
+}
+
+/**
+ * Send a prompt to the remote API and post the reply
+ */
+async function handlePrompt(
+  origin: string,
+  prompt: string,
+  userId: string,
+  target: ReplyTarget,
+  conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>
+): Promise<void> {
+  let response: RemoteClaudeResponse
+  try {
+    response = await callRemoteApi(origin, {
+      message: prompt,
+      conversationHistory: conversationHistory?.length ? conversationHistory : undefined,
+      holdActions: DESTRUCTIVE_ACTION_TYPES,
+    })
+  } catch (error) {
+    console.error('[Slack] Remote API request failed:', error)
+    response = {
+      success: false,
+      error: error instanceof Error ? error.message : 'The request failed',
+    } as RemoteClaudeResponse
+  }
+
+  const blocks = buildResponseBlocks(response, prompt, userId)
+  const text = response.response || response.error || 'Done.'
+
+  try {
+    await postMessage({
+      channel: target.channel,
+      threadTs: target.threadTs,
+      text,
+      blocks,
+      metadata: { event_type: RESPONSE_METADATA_EVENT_TYPE, event_payload: { prompt } },
+    })
+  } catch (error) {
+    if (!target.responseUrl) {
+      console.error('[Slack] Failed to post reply:', error)
+      return
+    }
+    try {
+      await postToResponseUrl(target.responseUrl, { text, blocks, responseType: 'in_channel' })
+    } catch (fallbackError) {
+      console.error('[Slack] Failed to post reply:', error, fallbackError)
+    }
+  }
+}
+
+/**
+ * Handle a slash command: acknowledge it, then post the reply in a new thread
+ */
+function handleSlashCommand(origin: string, command: SlashCommandPayload): NextResponse {
+  const prompt = command.text.trim()
+  if (!prompt) {
+    return NextResponse.json({
+      response_type: 'ephemeral',
+      text: `Ask Claude to query or edit content, e.g. \`${command.command} list the pages updated this week\`. Reply in the thread to follow up.`,
+    })
+  }
+
+  after(() =>
+    handlePrompt(origin, prompt, command.user_id, {
+      channel: command.channel_id,
+      responseUrl: command.response_url,
+    })
+  )
+
+  return NextResponse.json({ response_type: 'ephemeral', text: 'Working on it…' })
+}
+
+/**
+ * Whether a message event is addressed to the app
+ * Mentions arrive as app_mention events as well, so messages mentioning the
+ * bot are left to those.
+ */
+function isAddressedToBot(event: SlackMessageEvent, botUserId: string | undefined): boolean {
+  if (event.type === 'app_mention') return true
+  if (event.subtype || event.bot_id || !event.user || event.user === botUserId) return false
+  if (botUserId && event.text?.includes(`<@${botUserId}>`)) return false
+
+  return event.channel_type === 'im' || (!!event.thread_ts && !!botUserId && event.parent_user_id === botUserId)
+}
+
+/**
+ * Handle a mention, direct message or thread reply
+ */
+async function handleMessageEvent(origin: string, event: SlackMessageEvent, botUserId: string | undefined) {
+  let prompt = stripMentions(event.text || '')
+  if (!prompt || !event.user) return
+
+  let history: ReturnType<typeof toConversationHistory> | undefined
+  if (event.thread_ts) {
+    try {
+      history = toConversationHistory(await getThreadMessages(event.channel, event.thread_ts), botUserId, event.ts)
+    } catch (error) {
+      console.error('[Slack] Failed to load thread history:', error)
+    }
+  }
+
+  // Messages sent since the last reply are part of this prompt
+  const unanswered = history?.[history.length - 1]?.role === 'user' ? history.pop() : undefined
+  if (unanswered) {
+    prompt = `${unanswered.content}\n\n${prompt}`
+  }
+
+  await handlePrompt(origin, prompt, event.user, {
+    channel: event.channel,
+    threadTs: event.thread_ts || event.ts,
+  }, history)
+}
+
+/**
+ * Handle an Approve or Reject click: run the decision, then update the message
+ */
+async function handleBlockActions(origin: string, payload: BlockActionsPayload): Promise<void> {
+  const action = payload.actions.find(
+    ({ action_id }) => action_id === APPROVE_ACTION_ID || action_id === REJECT_ACTION_ID
+  )
+  if (!action?.value) return
+
+  const decision = action.action_id === APPROVE_ACTION_ID ? 'approve' : 'reject'
+  let resultBlocks: SlackBlock[]
+  try {
+    const result = await decideApproval(origin, action.value, decision, payload.user.id)
+    resultBlocks = buildApprovalResultBlocks(result, payload.user.id)
+  } catch (error) {
+    console.error('[Slack] Approval request failed:', error)
+    resultBlocks = buildApprovalResultBlocks(
+      {
+        success: false,
+        approvalId: action.value,
+        status: 'pending',
+        actions: [],
+        error: error instanceof Error ? error.message : 'The approval failed',
+      },
+      payload.user.id
+    )
+  }
+
+  // Replace the buttons with the outcome, so the actions cannot be decided twice
+  const originalBlocks = (payload.message?.blocks || []).filter(block => block.block_id !== APPROVAL_BLOCK_ID)
+  try {
+    await postToResponseUrl(payload.response_url, {
+      text: payload.message?.text || (decision === 'approve' ? 'Approved' : 'Rejected'),
+      blocks: [...originalBlocks, ...resultBlocks],
+      replaceOriginal: true,
+    })
+  } catch (error) {
+    console.error('[Slack] Failed to update message:', error)
+  }
+}
+
+/**
+ * POST handler - Slash commands, Events API requests and button clicks
+ */
+export async function POST(request: NextRequest) {
+  const signingSecret = process.env.SLACK_SIGNING_SECRET
+  if (!signingSecret) {
+    console.error('[Slack] SLACK_SIGNING_SECRET environment variable is not configured')
+    return NextResponse.json({ error: 'Slack adapter not configured' }, { status: 500 })
+  }
+
+  const body = await request.text()
+  const verificationError = verifySlackRequest(
+    body,
+    request.headers.get('x-slack-request-timestamp'),
+    request.headers.get('x-slack-signature'),
+    signingSecret
+  )
+  if (verificationError) {
+    return NextResponse.json({ error: verificationError }, { status: 401 })
+  }
+
+  // Slack retries events it thinks timed out; the first delivery is already being handled
+  if (request.headers.get('x-slack-retry-num')) {
+    return new NextResponse(null, { status: 200 })
+  }
+
+  const origin = request.nextUrl.origin
+
+  // Events API requests are JSON
+  if (request.headers.get('content-type')?.includes('application/json')) {
+    let envelope: SlackEventEnvelope
+    try {
+      envelope = JSON.parse(body)
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 })
+    }
+
+    if (envelope.type === 'url_verification') {
+      return NextResponse.json({ challenge: envelope.challenge })
+    }
+
+    if (envelope.type === 'event_callback') {
+      const event = envelope.event
+      const botUserId = envelope.authorizations?.find(({ is_bot }) => is_bot)?.user_id
+      if ((event.type === 'app_mention' || event.type === 'message') &&
+        isAddressedToBot(event as SlackMessageEvent, botUserId)) {
+        after(() => handleMessageEvent(origin, event as SlackMessageEvent, botUserId))
+      }
+    }
+
+    return new NextResponse(null, { status: 200 })
+  }
+
+  // Slash commands and interactivity payloads are form-encoded
+  const form = new URLSearchParams(body)
+
+  const payload = form.get('payload')
+  if (payload) {
+    let interaction: BlockActionsPayload
+    try {
+      interaction = JSON.parse(payload)
+    } catch {
+      return NextResponse.json({ error: 'Invalid interaction payload' }, { status: 400 })
+    }
+
+    if (interaction.type === 'block_actions') {
+      after(() => handleBlockActions(origin, interaction))
+    }
+    return new NextResponse(null, { status: 200 })
+  }
+
+  if (form.get('command')) {
+    return handleSlashCommand(origin, {
+      command: form.get('command') || '',
+      text: form.get('text') || '',
+      user_id: form.get('user_id') || '',
+      channel_id: form.get('channel_id') || '',
+      response_url: form.get('response_url') || '',
+    })
+  }
+
+  return NextResponse.json({ error: 'Unsupported Slack request' }, { status: 400 })
+}
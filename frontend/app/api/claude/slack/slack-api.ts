@@ -0,0 +1,108 @@
+/**
+ * Slack Web API Calls
+ *
+ * The few Web API methods the adapter needs, called with SLACK_BOT_TOKEN.
+ * Required bot scopes: chat:write, app_mentions:read, channels:history,
+ * groups:history, im:history.
+ */
+
+import type { SlackBlock, SlackThreadMessage } from './types'
+
+const SLACK_API_URL = 'https://slack.com/api'
+
+// Most replies fetched when rebuilding a thread's history
+const MAX_THREAD_MESSAGES = 200
+
+/**
+ * Call a Web API method and return its response, throwing when Slack reports an error
+ */
+async function callSlackApi<T extends object>(
+  method: string,
+  init: { body?: object; query?: Record<string, string> }
+): Promise<T> {
+  const token = process.env.SLACK_BOT_TOKEN
+  if (!token) {
+    throw new Error('SLACK_BOT_TOKEN environment variable is not configured')
+  }
+
+  const url = `${SLACK_API_URL}/${method}${init.query ? `?${new URLSearchParams(init.query)}` : ''}`
+  const res = await fetch(url, {
+    method: init.body ? 'POST' : 'GET',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(init.body ? { 'Content-Type': 'application/json; charset=utf-8' } : {}),
+    },
+    ...(init.body ? { body: JSON.stringify(init.body) } : {}),
+  })
+
+  const data = (await res.json()) as T & { ok: boolean; error?: string }
+  if (!data.ok) {
+    throw new Error(`Slack ${method} failed: ${data.error || res.status}`)
+  }
+  return data
+}
+
+/**
+ * Post a message, in a thread when threadTs is given
+ */
+export async function postMessage(message: {
+  channel: string
+  threadTs?: string
+  text: string
+  blocks: SlackBlock[]
+  metadata?: { event_type: string; event_payload: Record<string, unknown> }
+}): Promise<void> {
+  await callSlackApi('chat.postMessage', {
+    body: {
+      channel: message.channel,
+      thread_ts: message.threadTs,
+      text: message.text,
+      blocks: message.blocks,
+      metadata: message.metadata,
+      unfurl_links: false,
+    },
+  })
+}
+
+/**
+ * Load the messages of a thread, oldest first
+ */
+export async function getThreadMessages(channel: string, threadTs: string): Promise<SlackThreadMessage[]> {
+  const data = await callSlackApi<{ messages?: SlackThreadMessage[] }>('conversations.replies', {
+    query: {
+      channel,
+      ts: threadTs,
+      limit: MAX_THREAD_MESSAGES.toString(),
+      include_all_metadata: 'true',
+    },
+  })
+  return data.messages || []
+}
+
+/**
+ * Send a message through a slash command's or button click's response_url
+ * These URLs need no token and stay valid for 30 minutes.
+ */
+export async function postToResponseUrl(
+  responseUrl: string,
+  message: {
+    text: string
+    blocks?: SlackBlock[]
+    responseType?: 'ephemeral' | 'in_channel'
+    replaceOriginal?: boolean
+  }
+): Promise<void> {
+  const res = await fetch(responseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      text: message.text,
+      blocks: message.blocks,
+      response_type: message.responseType,
+      replace_original: message.replaceOriginal,
+    }),
+  })
+  if (!res.ok) {
+    throw new Error(`Slack response_url returned HTTP ${res.status}`)
+  }
+}
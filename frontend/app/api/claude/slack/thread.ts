@@ -0,0 +1,73 @@
+/**
+ * Slack Thread History
+ *
+ * Maps a Slack thread onto the remote API's conversationHistory, so a reply
+ * in a thread continues the conversation the thread started.
+ */
+
+import type { RemoteClaudeRequest } from '../remote/types'
+import type { SlackThreadMessage } from './types'
+
+type HistoryMessage = NonNullable<RemoteClaudeRequest['conversationHistory']>[number]
+
+/**
+ * Event type of the metadata the adapter attaches to its replies
+ * The payload keeps the prompt a reply answers, which is not otherwise in
+ * the thread for slash commands.
+ */
+export const RESPONSE_METADATA_EVENT_TYPE = 'claude_response'
+
+/**
+ * Remove user mentions such as "<@U024BE7LH>" from message text
+ */
+export function stripMentions(text: string): string {
+  return text.replace(/<@[A-Z0-9]+(\|[^>]*)?>/g, '').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Convert a thread's messages to conversation history
+ * The current message (excludeTs) is left out, since it is sent as the
+ * request's message. Consecutive messages from one side are merged, and the
+ * history always starts with a user message, as the Claude API requires.
+ */
+export function toConversationHistory(
+  messages: SlackThreadMessage[],
+  botUserId: string | undefined,
+  excludeTs?: string
+): HistoryMessage[] {
+  const history: HistoryMessage[] = []
+
+  const append = (role: HistoryMessage['role'], content: string) => {
+    if (!content) return
+    const last = history[history.length - 1]
+    if (last?.role === role) {
+      last.content = `${last.content}\n\n${content}`
+    } else {
+      history.push({ role, content })
+    }
+  }
+
+  for (const message of messages) {
+    if (message.ts === excludeTs) continue
+
+    const isBot = !!message.bot_id || (!!botUserId && message.user === botUserId)
+    if (!isBot) {
+      append('user', stripMentions(message.text || ''))
+      continue
+    }
+
+    const prompt = message.metadata?.event_type === RESPONSE_METADATA_EVENT_TYPE
+      ? message.metadata.event_payload?.prompt
+      : undefined
+    if (typeof prompt === 'string') {
+      append('user', prompt)
+    }
+    append('assistant', message.text || '')
+  }
+
+  while (history.length > 0 && history[0].role === 'assistant') {
+    history.shift()
+  }
+
+  return history
+}
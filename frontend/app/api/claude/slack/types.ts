@@ -0,0 +1,76 @@
+/**
+ * Slack Adapter Types
+ *
+ * The parts of Slack's slash command, Events API and interactivity payloads
+ * the adapter uses. See https://api.slack.com/apis for the full shapes.
+ */
+
+/**
+ * Slash command, sent form-encoded
+ */
+export interface SlashCommandPayload {
+  command: string
+  text: string
+  user_id: string
+  channel_id: string
+  response_url: string
+}
+
+/**
+ * A message or app_mention event
+ */
+export interface SlackMessageEvent {
+  type: 'message' | 'app_mention'
+  subtype?: string
+  channel: string
+  channel_type?: string
+  user?: string
+  bot_id?: string
+  text?: string
+  ts: string
+  thread_ts?: string
+  /** Author of the thread's first message, set on thread replies */
+  parent_user_id?: string
+}
+
+/**
+ * Events API request body
+ */
+export type SlackEventEnvelope =
+  | { type: 'url_verification'; challenge: string }
+  | {
+      type: 'event_callback'
+      event: SlackMessageEvent | { type: string }
+      /** The app's bot user, among others */
+      authorizations?: Array<{ user_id: string; is_bot: boolean }>
+    }
+
+/**
+ * Button click, sent form-encoded as a JSON "payload" field
+ */
+export interface BlockActionsPayload {
+  type: 'block_actions'
+  user: { id: string }
+  response_url: string
+  actions: Array<{ action_id: string; value?: string }>
+  message?: { ts: string; text?: string; blocks?: SlackBlock[] }
+}
+
+/**
+ * A Block Kit block (https://api.slack.com/block-kit)
+ */
+export type SlackBlock = Record<string, unknown> & { type: string; block_id?: string }
+
+/**
+ * A message in a thread, from conversations.replies
+ */
+export interface SlackThreadMessage {
+  ts: string
+  user?: string
+  bot_id?: string
+  text?: string
+  metadata?: {
+    event_type: string
+    event_payload?: Record<string, unknown>
+  }
+}
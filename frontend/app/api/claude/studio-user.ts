@@ -0,0 +1,113 @@
+/**
+ * Studio User for the Claude API Routes
+ *
+ * Resolves the Studio user a request comes from by asking Sanity who its
+ * Authorization token belongs to. User and role budgets key off this identity,
+ * never off a user named in the request body, which anyone could set.
+ * Shared by /api/claude and /api/claude/summarize.
+ */
+
+import { createHash } from 'crypto'
+import { createClient } from '@sanity/client'
+import type { BudgetIdentity } from 'claude-core'
+
+/**
+ * How long a resolved token is trusted before Sanity is asked again
+ */
+const USER_CACHE_TTL_MS = 60 * 1000
+
+/**
+ * Most tokens cached at once; the oldest entries are dropped beyond this
+ */
+const USER_CACHE_MAX_ENTRIES = 1000
+
+/**
+ * Resolved identities by token hash, oldest first
+ */
+const userCache = new Map<string, { identity: BudgetIdentity; expiresAt: number }>()
+
+/**
+ * Cache an identity, dropping expired entries and then the oldest ones so the
+ * cache stays within USER_CACHE_MAX_ENTRIES
+ */
+function cacheIdentity(key: string, identity: BudgetIdentity) {
+  const now = Date.now()
+  userCache.delete(key)
+  // Every entry lives for the same TTL, so expired entries are the oldest
+  for (const [cachedKey, entry] of userCache) {
+    if (entry.expiresAt > now) break
+    userCache.delete(cachedKey)
+  }
+  while (userCache.size >= USER_CACHE_MAX_ENTRIES) {
+    userCache.delete(userCache.keys().next().value!)
+  }
+  userCache.set(key, { identity, expiresAt: now + USER_CACHE_TTL_MS })
+}
+
+/**
+ * The current user as reported by Sanity's /users/me
+ */
+interface SanityCurrentUser {
+  id?: string
+  roles?: Array<{ name: string }>
+}
+
+/**
+ * Read the bearer token from the Authorization header
+ */
+function getBearerToken(authorization: string | null): string | null {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1].trim() : null
+}
+
+/**
+ * Ask Sanity which user a token belongs to
+ */
+async function fetchCurrentUser(token: string): Promise<SanityCurrentUser | null> {
+  const projectId = process.env.SANITY_PROJECT_ID || process.env.NEXT_PUBLIC_SANITY_PROJECT_ID
+  if (!projectId) {
+    return null
+  }
+
+  const client = createClient({
+    projectId,
+    token,
+    apiVersion: '2024-01-01',
+    useCdn: false,
+  })
+  return client.request<SanityCurrentUser>({ uri: '/users/me', withCredentials: false })
+}
+
+/**
+ * Get the budget identity of the Studio user a request comes from
+ * Requests without a valid Sanity token get an empty identity, so only the global budget applies.
+ */
+export async function getStudioUserIdentity(authorization: string | null): Promise<BudgetIdentity> {
+  const token = getBearerToken(authorization)
+  if (!token) {
+    return {}
+  }
+
+  const key = createHash('sha256').update(token).digest('hex')
+  const cached = userCache.get(key)
+  if (cached) {
+    if (cached.expiresAt > Date.now()) {
+      return cached.identity
+    }
+    userCache.delete(key)
+  }
+
+  let identity: BudgetIdentity = {}
+  try {
+    const user = await fetchCurrentUser(token)
+    if (user?.id) {
+      identity = { userId: user.id, roles: (user.roles || []).map(role => role.name) }
+    }
+  } catch (error) {
+    // An invalid or expired token is treated as anonymous
+    console.warn('[Claude API] Could not resolve the Studio user:', error instanceof Error ? error.message : error)
+  }
+
+  cacheIdentity(key, identity)
+  return identity
+}
@@ -0,0 +1,232 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { NextRequest, NextResponse } from 'next/server'
+import type { SummaryMessage } from 'claude-core'
+import { openRequestBudget, type BudgetMeter } from '../budget'
+import { getStudioUserIdentity } from '../studio-user'
+import { summarizeMessages } from '../summary'
+
+// Initialize Anthropic client
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY,
+})
+
+/**
+ * Get allowed CORS origins from environment variable
+ * In development, defaults to '*' for convenience
+ * In production, set ALLOWED_CORS_ORIGINS to comma-separated list of allowed origins
+ */
+function getAllowedOrigins(): string[] {
+  const originsEnv = process.env.ALLOWED_CORS_ORIGINS
+  if (!originsEnv) {
+    // Default to allowing all origins in development
+    return ['*']
+  }
+  return originsEnv.split(',').map(origin => origin.trim())
+}
+
+/**
+ * Get CORS headers with origin validation
+ * Only allows requests from configured origins
+ */
+function getCorsHeaders(requestOrigin?: string | null): Record<string, string> {
+  const allowedOrigins = getAllowedOrigins()
+
+  let origin: string
+  if (allowedOrigins.includes('*')) {
+    origin = '*'
+  } else if (requestOrigin && allowedOrigins.includes(requestOrigin)) {
+    origin = requestOrigin
+  } else {
+    // Origin not allowed - return empty string (browser will block)
+    origin = ''
+  }
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  }
+}
+
+/**
+ * OPTIONS handler for CORS preflight requests
+ */
+export async function OPTIONS(request: NextRequest) {
+  const origin = request.headers.get('origin')
+  return new Response(null, {
+    status: 204,
+    headers: getCorsHeaders(origin),
+  })
+}
+
+/**
+ * Helper to create JSON response with CORS headers
+ */
+function jsonResponse(data: object, status: number = 200, requestOrigin?: string | null) {
+  return NextResponse.json(data, {
+    status,
+    headers: getCorsHeaders(requestOrigin),
+  })
+}
+
+// Default model for summaries, when the Studio does not send its chat model
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514'
+
+// Maximum messages summarized in one request
+const MAX_MESSAGES = 500
+
+/**
+ * Request body structure
+ */
+interface SummarizeRequest {
+  /** Messages to summarize, oldest first */
+  messages: SummaryMessage[]
+  /** Summary of the messages before these, folded into the new summary */
+  previousSummary?: string
+  model?: string
+}
+
+/**
+ * Validates the request body
+ */
+function validateRequest(body: unknown): body is SummarizeRequest {
+  if (!body || typeof body !== 'object') {
+    return false
+  }
+
+  const request = body as SummarizeRequest
+
+  if (!Array.isArray(request.messages) || request.messages.length === 0 || request.messages.length > MAX_MESSAGES) {
+    return false
+  }
+
+  const validMessages = request.messages.every(
+    (msg) => msg && (msg.role === 'user' || msg.role === 'assistant') && typeof msg.content === 'string'
+  )
+  if (!validMessages) {
+    return false
+  }
+
+  if (request.previousSummary !== undefined && typeof request.previousSummary !== 'string') {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * POST handler for summarizing older conversation messages
+ * The Studio calls this once a conversation's history passes the summary threshold
+ */
+export async function POST(request: NextRequest) {
+  // Extract origin for CORS validation
+  const origin = request.headers.get('origin')
+
+  // Check for API key
+  if (!process.env.ANTHROPIC_API_KEY) {
+    return jsonResponse(
+      { error: 'ANTHROPIC_API_KEY environment variable is not configured' },
+      500,
+      origin
+    )
+  }
+
+  let body: unknown
+
+  try {
+    body = await request.json()
+  } catch {
+    return jsonResponse(
+      { error: 'Invalid JSON in request body' },
+      400,
+      origin
+    )
+  }
+
+  // Validate request
+  if (!validateRequest(body)) {
+    return jsonResponse(
+      {
+        error: `Invalid request body. Expected { messages: Array<{ role, content: string }> } with 1-${MAX_MESSAGES} messages`,
+      },
+      400,
+      origin
+    )
+  }
+
+  const { messages, previousSummary, model } = body
+
+  // Summaries count toward the same monthly budgets as chat requests
+  let budget: BudgetMeter | null
+  try {
+    budget = await openRequestBudget(await getStudioUserIdentity(request.headers.get('authorization')))
+  } catch (error) {
+    console.error('[summarize] Budget check failed:', error)
+    return jsonResponse(
+      { error: 'Could not verify the Claude usage budget. Please try again.' },
+      503,
+      origin
+    )
+  }
+  if (budget && !budget.status.allowed) {
+    return jsonResponse(
+      { error: budget.status.error, code: 'budget_exceeded', budget: budget.status },
+      429,
+      origin
+    )
+  }
+
+  const selectedModel = model || DEFAULT_MODEL
+
+  try {
+    const { summary, usage } = await summarizeMessages(anthropic, {
+      messages,
+      previousSummary,
+      model: selectedModel,
+    })
+
+    // An empty summary was still billed
+    const budgetStatus = budget ? await budget.record(usage, selectedModel) : null
+
+    if (!summary) {
+      return jsonResponse({ error: 'Claude returned an empty summary', usage, model: selectedModel }, 502, origin)
+    }
+
+    return jsonResponse(
+      {
+        summary,
+        usage,
+        model: selectedModel,
+        ...(budgetStatus?.scopes.length ? { budget: budgetStatus } : {}),
+      },
+      200,
+      origin
+    )
+  } catch (error) {
+    console.error('[summarize] Error:', error)
+
+    if (error instanceof Anthropic.APIError) {
+      const statusCode = error.status || 500
+
+      if (statusCode === 429) {
+        return jsonResponse(
+          { error: 'Rate limit exceeded. Please wait a moment and try again.' },
+          429,
+          origin
+        )
+      }
+
+      if (statusCode === 401) {
+        return jsonResponse(
+          { error: 'Invalid API key. Please check your ANTHROPIC_API_KEY configuration.' },
+          401,
+          origin
+        )
+      }
+
+      return jsonResponse({ error: error.message || 'Anthropic API error' }, statusCode, origin)
+    }
+
+    return jsonResponse({ error: 'Failed to summarize the conversation' }, 500, origin)
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Conversation Summarization for the Claude API Routes
+ *
+ * Asks Claude to replace older messages with a summary that keeps document
+ * IDs, _keys, decisions and pending tasks. Shared by /api/claude/summarize,
+ * which the Studio calls, and /api/claude/remote, which compacts long
+ * conversation histories itself.
+ */
+
+import type Anthropic from '@anthropic-ai/sdk'
+import {
+  buildSummaryPrompt,
+  SUMMARY_MAX_TOKENS,
+  toTokenUsage,
+  type SummaryMessage,
+  type TokenUsage,
+} from 'claude-core'
+
+/**
+ * A generated summary and the tokens it took
+ */
+export interface SummaryResult {
+  summary: string
+  usage: TokenUsage
+}
+
+/**
+ * Summarize messages, folding in the summary of the messages before them
+ */
+export async function summarizeMessages(
+  anthropic: Anthropic,
+  options: { messages: SummaryMessage[]; previousSummary?: string; model: string }
+): Promise<SummaryResult> {
+  const response = await anthropic.messages.create({
+    model: options.model,
+    max_tokens: SUMMARY_MAX_TOKENS,
+    temperature: 0,
+    messages: [{ role: 'user', content: buildSummaryPrompt(options.messages, options.previousSummary) }],
+  })
+
+  const summary = response.content
+    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+    .map((block) => block.text)
+    .join('\n')
+    .trim()
+
+  return { summary, usage: toTokenUsage(response.usage) }
+}
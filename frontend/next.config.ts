@@ -5,6 +5,8 @@ const nextConfig: NextConfig = {
     // Matches the behavior of `sanity dev` which sets styled-components to use the fastest way of inserting CSS rules in both dev and production. It's default behavior is to disable it in dev mode.
     SC_DISABLE_SPEEDY: 'false',
   },
+  // The shared Claude package is published as TypeScript source
+  transpilePackages: ['claude-core'],
   images: {
     remotePatterns: [
       {
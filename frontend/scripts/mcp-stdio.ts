@@ -0,0 +1,104 @@
+/**
+ * MCP Server - stdio Transport
+ *
+ * Runs the MCP server (app/api/claude/mcp/server.ts) for clients that launch
+ * local servers, such as desktop AI apps and IDEs. Messages are newline-
+ * delimited JSON-RPC on stdin and stdout; logs go to stderr.
+ *
+ * Run: npm run --silent mcp:stdio (from the frontend directory)
+ *
+ * Required Environment Variables:
+ * - CLAUDE_MCP_API_KEY: Remote API key (a claudeApiKey) the client's tool calls run with
+ * - SANITY_API_TOKEN, SANITY_PROJECT_ID, SANITY_DATASET: As for the remote API
+ */
+
+import { createInterface } from 'readline'
+import { authenticateApiKey } from '../app/api/claude/remote/auth'
+import { createSanityClient } from '../app/api/claude/remote/sanity-loader'
+import { createMcpContext, handleMcpMessage, isJsonRpcRequest } from '../app/api/claude/mcp/server'
+import type { McpContext } from '../app/api/claude/mcp/types'
+
+// How long a key lookup is trusted before the key is checked again, so a
+// revoked, expired or edited key stops applying within this time
+const KEY_RECHECK_MS = 60 * 1000
+
+// stdout carries protocol messages only, so logging from shared modules goes to stderr
+console.log = console.error
+console.info = console.error
+console.warn = console.error
+
+function send(message: unknown) {
+  process.stdout.write(`${JSON.stringify(message)}\n`)
+}
+
+async function main() {
+  const apiKey = process.env.CLAUDE_MCP_API_KEY
+  if (!apiKey) {
+    console.error('CLAUDE_MCP_API_KEY environment variable is required')
+    process.exit(1)
+  }
+
+  const authResult = await authenticateApiKey(apiKey)
+  if (!authResult.valid) {
+    console.error(`CLAUDE_MCP_API_KEY was rejected: ${authResult.error}`)
+    process.exit(1)
+  }
+
+  const client = createSanityClient()
+  let context: McpContext = createMcpContext(client, authResult.key)
+  let checkedAt = Date.now()
+  console.error(`[Claude MCP] Listening on stdio as API key "${authResult.key.name}"`)
+
+  /**
+   * Look the key up again once the last lookup is older than KEY_RECHECK_MS
+   * Returns an error message if the key is no longer valid, or null.
+   */
+  const recheckKey = async (): Promise<string | null> => {
+    if (Date.now() - checkedAt < KEY_RECHECK_MS) return null
+
+    const result = await authenticateApiKey(apiKey)
+    if (!result.valid) {
+      return `CLAUDE_MCP_API_KEY was rejected: ${result.error}`
+    }
+    context = createMcpContext(client, result.key)
+    checkedAt = Date.now()
+    return null
+  }
+
+  // Messages are handled one at a time, in order
+  let queue = Promise.resolve()
+  const lines = createInterface({ input: process.stdin, crlfDelay: Infinity })
+  lines.on('line', line => {
+    if (!line.trim()) return
+    queue = queue.then(async () => {
+      let message: unknown
+      try {
+        message = JSON.parse(line)
+      } catch {
+        send({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } })
+        return
+      }
+
+      // Requests are refused once the key is revoked or expires; notifications are dropped
+      const keyError = await recheckKey()
+      if (keyError) {
+        console.error(`[Claude MCP] ${keyError}`)
+        if (isJsonRpcRequest(message) && message.id !== undefined) {
+          send({ jsonrpc: '2.0', id: message.id, error: { code: -32001, message: keyError } })
+        }
+        return
+      }
+
+      const response = await handleMcpMessage(context, message)
+      if (response) send(response)
+    })
+  })
+  lines.on('close', () => {
+    queue.then(() => process.exit(0))
+  })
+}
+
+main().catch(error => {
+  console.error('[Claude MCP] Failed to start:', error)
+  process.exit(1)
+})
@@ -0,0 +1,300 @@
+/**
+ * Access Control
+ *
+ * Checks Claude's actions against the claudeAccessControl singleton.
+ * Enforcement happens in the executor before any mutation, for both the
+ * Studio plugin and the remote API. The assistant's own configuration and log
+ * types are always protected, with or without access control settings.
+ */
+
+import type {AccessControlSettings, AccessOperation, ActionType, ParsedAction} from './types'
+
+/**
+ * GROQ query for the published access control singleton
+ */
+export const ACCESS_CONTROL_QUERY = `*[_type == "claudeAccessControl" && !(_id in path("drafts.**"))][0]{
+  allowedDocumentTypes,
+  allowedOperations,
+  blockedFields,
+  draftsOnly
+}`
+
+/**
+ * Document types that hold the assistant's own configuration, credentials,
+ * budgets and logs. Claude can never change them, whatever the access control
+ * settings say, so it cannot lift its own restrictions or mint API keys.
+ */
+export const PROTECTED_DOCUMENT_TYPES = [
+  'claudeAccessControl',
+  'claudeApiKey',
+  'claudeApiSettings',
+  'claudeAuditEntry',
+  'claudeConversation',
+  'claudeInstructions',
+  'claudeQuickAction',
+  'claudeRemoteApproval',
+  'claudeRemoteJob',
+  'claudeRemoteUsage',
+  'claudeUsageCounter',
+  'claudeWorkflow',
+]
+
+/**
+ * Check if a document type is one of the assistant's protected types
+ */
+export function isProtectedDocumentType(documentType: string | null | undefined): boolean {
+  return !!documentType && PROTECTED_DOCUMENT_TYPES.includes(documentType)
+}
+
+/**
+ * Document types a query may read, for clients that are not trusted with the
+ * whole dataset, such as remote API keys
+ */
+export interface QueryScope {
+  /** Only these document types (empty = every type but the protected ones) */
+  allowedDocumentTypes?: string[]
+}
+
+/**
+ * GROQ keywords that come before an expression, so a following * is the
+ * everything operator rather than multiplication
+ */
+const GROQ_OPERAND_KEYWORDS = ['in', 'match', 'and', 'or', 'asc', 'desc']
+
+/**
+ * Check if the query text so far ends where an operand starts
+ */
+function startsOperand(preceding: string): boolean {
+  const trimmed = preceding.trimEnd()
+  if (!trimmed) return true
+
+  const word = trimmed.match(/[A-Za-z_][A-Za-z0-9_]*$/)
+  if (word) return GROQ_OPERAND_KEYWORDS.includes(word[0])
+  return !/[\w)\]}"'@^]$/.test(trimmed)
+}
+
+/**
+ * Limit every dataset lookup (*) in a GROQ query to the document types a scope
+ * allows. The assistant's protected types are never included. References
+ * followed with -> are not rewritten; they only reach documents that allowed
+ * documents already reference.
+ */
+export function scopeQuery(query: string, scope: QueryScope): string {
+  const filter = scope.allowedDocumentTypes?.length
+    ? `_type in ${JSON.stringify(scope.allowedDocumentTypes.filter((type) => !isProtectedDocumentType(type)))}`
+    : `!(_type in ${JSON.stringify(PROTECTED_DOCUMENT_TYPES)})`
+
+  let scoped = ''
+  let index = 0
+  while (index < query.length) {
+    const char = query[index]
+
+    // String literals are copied as they are
+    if (char === '"' || char === "'") {
+      let end = index + 1
+      while (end < query.length && query[end] !== char) {
+        end += query[end] === '\\' ? 2 : 1
+      }
+      scoped += query.slice(index, end + 1)
+      index = end + 1
+      continue
+    }
+
+    // So are comments
+    if (char === '/' && query[index + 1] === '/') {
+      const end = query.indexOf('\n', index)
+      const stop = end === -1 ? query.length : end
+      scoped += query.slice(index, stop)
+      index = stop
+      continue
+    }
+
+    // * is the everything operator unless it multiplies (a * b) or is part of **
+    if (char === '*' && query[index + 1] !== '*' && query[index - 1] !== '*' && startsOperand(scoped)) {
+      scoped += `*[${filter}]`
+    } else {
+      scoped += char
+    }
+    index++
+  }
+  return scoped
+}
+
+/**
+ * Find a protected document type a query names, e.g. in a _type filter
+ */
+export function findProtectedTypeInQuery(query: string): string | null {
+  return PROTECTED_DOCUMENT_TYPES.find((type) => new RegExp(`\\b${type}\\b`).test(query)) || null
+}
+
+/**
+ * Operation each action type requires. Action types not listed here
+ * (navigate, explain, fetchFigmaFrame) never touch content and are always allowed.
+ */
+const ACTION_OPERATIONS: Partial<Record<ActionType, AccessOperation>> = {
+  create: 'create',
+  createPinboard: 'create',
+  update: 'update',
+  patch: 'update',
+  delete: 'delete',
+  publish: 'publish',
+  unpublish: 'publish',
+  discardDraft: 'delete',
+  schedulePublish: 'publish',
+  query: 'query',
+  uploadImage: 'uploadImage',
+  uploadFigmaImage: 'uploadImage',
+}
+
+/**
+ * Get the operation an action requires, or null if it is always allowed
+ */
+export function getActionOperation(actionType: ActionType): AccessOperation | null {
+  return ACTION_OPERATIONS[actionType] || null
+}
+
+/**
+ * Action types that change which version of a document is live
+ */
+const PUBLISHING_ACTION_TYPES: ActionType[] = ['publish', 'unpublish', 'schedulePublish']
+
+/**
+ * Action types that target an existing document
+ */
+const EXISTING_DOCUMENT_ACTION_TYPES: ActionType[] = ['update', 'patch', 'delete', 'discardDraft', ...PUBLISHING_ACTION_TYPES]
+
+/**
+ * Check if an action needs the target document's type resolved before it can be checked
+ */
+export function requiresDocumentType(actionType: ActionType): boolean {
+  return EXISTING_DOCUMENT_ACTION_TYPES.includes(actionType)
+}
+
+/**
+ * Check if a document type is allowed (empty list = all allowed)
+ */
+export function isDocumentTypeAllowed(documentType: string, settings: AccessControlSettings): boolean {
+  if (!settings.allowedDocumentTypes?.length) return true
+  return settings.allowedDocumentTypes.includes(documentType)
+}
+
+/**
+ * Check if an operation is allowed (empty list = all allowed)
+ */
+export function isOperationAllowed(operation: AccessOperation, settings: AccessControlSettings): boolean {
+  if (!settings.allowedOperations?.length) return true
+  return settings.allowedOperations.includes(operation)
+}
+
+/**
+ * Normalize a field path by dropping array selectors:
+ * 'pageBuilder[_key=="abc"].rows' -> 'pageBuilder.rows'
+ */
+function normalizeFieldPath(path: string): string {
+  return path.replace(/\[[^\]]*\]/g, '').replace(/\.{2,}/g, '.').replace(/^\.|\.$/g, '')
+}
+
+/**
+ * Collect normalized field paths written by a fields payload,
+ * descending into plain objects so nested blocked fields are caught
+ */
+function collectFieldPaths(fields: Record<string, unknown>, prefix: string = ''): string[] {
+  const paths: string[] = []
+  for (const [key, value] of Object.entries(fields)) {
+    const path = normalizeFieldPath(prefix ? `${prefix}.${key}` : key)
+    paths.push(path)
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      paths.push(...collectFieldPaths(value as Record<string, unknown>, path))
+    }
+  }
+  return paths
+}
+
+/**
+ * Find the first blocked field written by a fields payload.
+ * A blocked field is hit when a written path is the field itself, one of its
+ * children, or (for updates, which replace values) one of its parents.
+ */
+export function findBlockedField(
+  fields: Record<string, unknown>,
+  blockedFields: string[],
+  replacesValues: boolean = false
+): string | null {
+  if (blockedFields.length === 0) return null
+
+  const writtenPaths = collectFieldPaths(fields)
+  const topLevelPaths = Object.keys(fields).map(normalizeFieldPath)
+
+  for (const blocked of blockedFields.map(normalizeFieldPath)) {
+    if (writtenPaths.some((path) => path === blocked || path.startsWith(`${blocked}.`))) {
+      return blocked
+    }
+    if (replacesValues && topLevelPaths.some((path) => blocked.startsWith(`${path}.`))) {
+      return blocked
+    }
+  }
+  return null
+}
+
+/**
+ * Get the paths an action writes, as a fields payload.
+ * Patch operations are mapped to their paths (and move targets) so they
+ * are checked the same way as update fields.
+ */
+function getWrittenFields(action: ParsedAction): Record<string, unknown> | undefined {
+  if (action.type !== 'patch') return action.payload.fields
+
+  const fields: Record<string, unknown> = {}
+  for (const operation of action.payload.operations || []) {
+    fields[operation.path] = operation.items ?? operation.amount ?? null
+    if (operation.target) {
+      fields[operation.target] = null
+    }
+  }
+  return fields
+}
+
+/**
+ * Check an action against the access control settings.
+ * Returns an error message if the action is denied, or null if it is allowed.
+ *
+ * @param documentType - The type of the document the action targets. For update/patch/delete
+ *   this must be resolved from the stored document by the caller.
+ */
+export function checkActionAccess(
+  action: ParsedAction,
+  settings: AccessControlSettings | null,
+  documentType?: string
+): string | null {
+  const operation = getActionOperation(action.type)
+  if (!operation || !settings) return null
+
+  if (!isOperationAllowed(operation, settings)) {
+    return `Access denied: Claude is not allowed to perform "${operation}" operations. Contact an administrator to update the Claude access control settings.`
+  }
+
+  if (documentType && !isDocumentTypeAllowed(documentType, settings)) {
+    return `Access denied: Claude is not allowed to ${operation} "${documentType}" documents. Allowed types: ${settings.allowedDocumentTypes!.join(', ')}.`
+  }
+
+  const fields = getWrittenFields(action)
+  if (fields && settings.blockedFields?.length) {
+    const blocked = findBlockedField(fields, settings.blockedFields, action.type === 'update' || action.type === 'patch')
+    if (blocked) {
+      return `Access denied: the field "${blocked}" is blocked for Claude and cannot be written.`
+    }
+  }
+
+  if (settings.draftsOnly && action.type === 'delete') {
+    const documentId = action.payload.documentId || ''
+    if (!documentId.startsWith('drafts.')) {
+      return `Access denied: Claude may only delete drafts. "${documentId}" is a published document.`
+    }
+  }
+
+  if (settings.draftsOnly && PUBLISHING_ACTION_TYPES.includes(action.type)) {
+    return 'Access denied: Claude may only work in drafts and cannot publish, unpublish or schedule documents.'
+  }
+
+  return null
+}
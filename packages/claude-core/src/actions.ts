@@ -0,0 +1,350 @@
+/**
+ * Action Parsing
+ *
+ * Turns Claude's tool calls - or action blocks in older text responses -
+ * into typed ParsedAction objects, and checks they carry the data they need.
+ */
+
+import type {ActionPayload, ActionType, ParsedAction, PatchOperation, ToolUseBlock} from './types'
+
+/**
+ * Every action type Claude can request
+ */
+export const ACTION_TYPES: ActionType[] = [
+  'create',
+  'update',
+  'patch',
+  'delete',
+  'publish',
+  'unpublish',
+  'discardDraft',
+  'schedulePublish',
+  'query',
+  'navigate',
+  'explain',
+  'uploadImage',
+  'fetchFigmaFrame',
+  'uploadFigmaImage',
+  'createPinboard',
+]
+
+/**
+ * Action types that need someone to confirm them before they run: they delete
+ * content or change what is published. The Studio asks for confirmation and
+ * the Slack adapter holds them for approval.
+ */
+export const DESTRUCTIVE_ACTION_TYPES: ActionType[] = ['delete', 'publish', 'unpublish', 'discardDraft', 'schedulePublish']
+
+/**
+ * Check if an action type needs confirmation before it runs
+ */
+export function isDestructiveActionType(type: ActionType): boolean {
+  return DESTRUCTIVE_ACTION_TYPES.includes(type)
+}
+
+/**
+ * Generate a unique action ID
+ */
+function generateActionId(): string {
+  return `action_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
+}
+
+/**
+ * Check if a string is a valid action type
+ */
+export function isValidActionType(type: unknown): type is ActionType {
+  return typeof type === 'string' && ACTION_TYPES.includes(type as ActionType)
+}
+
+/**
+ * Safely parse JSON from a string, handling common issues
+ */
+function safeParseJSON(jsonString: string): unknown | null {
+  try {
+    // First, try direct parse
+    return JSON.parse(jsonString)
+  } catch {
+    try {
+      // Try to fix common issues:
+      // 1. Remove trailing commas
+      const cleaned = jsonString
+        .replace(/,\s*}/g, '}')
+        .replace(/,\s*]/g, ']')
+        // 2. Fix unquoted keys (simple cases)
+        .replace(/(\s*)(\w+)(\s*):/g, '$1"$2"$3:')
+
+      return JSON.parse(cleaned)
+    } catch {
+      // If all else fails, return null
+      console.warn('Failed to parse JSON after cleanup:', jsonString.substring(0, 100))
+      return null
+    }
+  }
+}
+
+/**
+ * Get default description for an action type
+ */
+export function getDefaultDescription(type: ActionType): string {
+  const descriptions: Record<ActionType, string> = {
+    create: 'Create a new document',
+    update: 'Update an existing document',
+    patch: 'Patch an existing document',
+    delete: 'Delete a document',
+    publish: 'Publish a document',
+    unpublish: 'Unpublish a document',
+    discardDraft: 'Discard draft changes',
+    schedulePublish: 'Schedule a document to be published',
+    query: 'Query documents',
+    navigate: 'Navigate to a document',
+    explain: 'Explanation',
+    uploadImage: 'Upload image to Sanity',
+    fetchFigmaFrame: 'Fetch frame data from Figma',
+    uploadFigmaImage: 'Upload image from Figma design',
+    createPinboard: 'Create a new pinboard canvas',
+  }
+  return descriptions[type]
+}
+
+/**
+ * Parse and validate action payload
+ */
+function parsePayload(payload: unknown): ActionPayload {
+  if (typeof payload !== 'object' || payload === null) {
+    return {}
+  }
+
+  const payloadData = payload as Record<string, unknown>
+
+  // Handle both nested payload and flat action data structures
+  // Claude might send: { type, payload: { documentType, ... } }
+  // Or Claude might send: { type, documentType, ... }
+  return {
+    documentType: (payloadData.documentType as string) || undefined,
+    documentId: (payloadData.documentId as string) || undefined,
+    fields: (payloadData.fields as Record<string, unknown>) ||
+      (payloadData.data as Record<string, unknown>) || undefined,
+    query: (payloadData.query as string) || (payloadData.groq as string) || undefined,
+    path: (payloadData.path as string) || (payloadData.url as string) || undefined,
+    explanation: (payloadData.explanation as string) ||
+      (payloadData.message as string) || undefined,
+    // Image upload fields
+    filename: (payloadData.filename as string) || undefined,
+    // Figma fields
+    figmaUrl: (payloadData.url as string) || undefined,
+    figmaNodeId: (payloadData.nodeId as string) || undefined,
+    figmaFileKey: (payloadData.fileKey as string) || undefined,
+    // Pinboard fields
+    pageIds: Array.isArray(payloadData.pageIds) ? (payloadData.pageIds as string[]) : undefined,
+    // Patch fields
+    operations: Array.isArray(payloadData.operations) ? (payloadData.operations as PatchOperation[]) : undefined,
+    // Schedule fields
+    publishAt: (payloadData.publishAt as string) || (payloadData.executeAt as string) || undefined,
+  }
+}
+
+/**
+ * Parse a single action data object
+ */
+function parseActionData(data: unknown): ParsedAction | null {
+  if (typeof data !== 'object' || data === null) {
+    console.warn('[parseActionData] Invalid data: not an object')
+    return null
+  }
+
+  const actionData = data as Record<string, unknown>
+  const type = actionData.type as ActionType
+
+  if (!isValidActionType(type)) {
+    console.warn(`[parseActionData] Invalid action type: ${type}`, actionData)
+    return null
+  }
+
+  // Parse the payload - check for nested payload object first, then fall back to flat structure
+  const payloadSource = actionData.payload || actionData
+  const payload = parsePayload(payloadSource)
+  const description = (actionData.description as string) || getDefaultDescription(type)
+
+  return {
+    id: generateActionId(),
+    type,
+    description,
+    status: 'pending',
+    payload,
+  }
+}
+
+/**
+ * Convert a native tool_use block into a ParsedAction
+ * The tool name is the action type and the tool input is the flat action data
+ */
+export function parseToolUse(block: ToolUseBlock): ParsedAction | null {
+  const action = parseActionData({...block.input, type: block.name})
+  if (!action) {
+    return null
+  }
+  return {...action, toolUseId: block.id}
+}
+
+/**
+ * Parse Claude's tool_use blocks into actions, falling back to the
+ * text-block parser for responses without tool calls (older conversations)
+ */
+export function parseResponseActions(content: string, toolUses: ToolUseBlock[] = []): ParsedAction[] {
+  const toolActions = toolUses
+    .map(parseToolUse)
+    .filter((action): action is ParsedAction => action !== null)
+
+  return toolActions.length > 0 ? toolActions : parseActions(content)
+}
+
+/**
+ * Parse Claude's response to extract actions from text
+ * Fallback for responses that don't use native tool calls
+ *
+ * Looks for structured action blocks in the format:
+ * ```action
+ * {
+ *   "type": "create|update|delete|query|navigate|explain",
+ *   "description": "Human readable description",
+ *   "payload": { ... }
+ * }
+ * ```
+ *
+ * Also supports:
+ * - ```json blocks with action data
+ * - [ACTION]...[/ACTION] inline markers
+ */
+export function parseActions(content: string): ParsedAction[] {
+  const actions: ParsedAction[] = []
+
+  // Match action blocks (```action ... ```)
+  const actionBlockRegex = /```action\s*([\s\S]*?)```/g
+  let match
+
+  while ((match = actionBlockRegex.exec(content)) !== null) {
+    const jsonStr = match[1].trim()
+    const actionData = safeParseJSON(jsonStr)
+
+    if (actionData) {
+      const action = parseActionData(actionData)
+      if (action) {
+        actions.push(action)
+      }
+    } else {
+      console.warn('Failed to parse action block:', jsonStr.substring(0, 100))
+    }
+  }
+
+  // Also look for json blocks that contain action data
+  const jsonBlockRegex = /```json\s*([\s\S]*?)```/g
+  while ((match = jsonBlockRegex.exec(content)) !== null) {
+    const jsonStr = match[1].trim()
+    const data = safeParseJSON(jsonStr)
+
+    // Only process if it looks like an action (has type field)
+    if (data && typeof data === 'object' && 'type' in data) {
+      const action = parseActionData(data)
+      if (action) {
+        actions.push(action)
+      }
+    }
+  }
+
+  // Also look for inline JSON actions marked with [ACTION]
+  const inlineActionRegex = /\[ACTION\]\s*({[\s\S]*?})\s*\[\/ACTION\]/gi
+  while ((match = inlineActionRegex.exec(content)) !== null) {
+    const jsonStr = match[1].trim()
+    const actionData = safeParseJSON(jsonStr)
+
+    if (actionData) {
+      const action = parseActionData(actionData)
+      if (action) {
+        actions.push(action)
+      }
+    } else {
+      console.warn('Failed to parse inline action:', jsonStr.substring(0, 100))
+    }
+  }
+
+  return actions
+}
+
+/**
+ * Extract non-action content from Claude's response
+ */
+export function extractTextContent(content: string): string {
+  // Remove action code blocks
+  let text = content.replace(/```action\s*[\s\S]*?```/gi, '')
+  // Remove json code blocks that contain action data (have a "type" field)
+  text = text.replace(/```json\s*\n\s*\{[\s\S]*?"type"\s*:\s*"[\s\S]*?```/g, '')
+  // Remove incomplete action blocks at end (still streaming, no closing ```)
+  text = text.replace(/```action[\s\S]*$/gi, '')
+  text = text.replace(/```json\s*\n\s*\{[\s\S]*"type"[\s\S]*$/gi, '')
+  // Remove inline action markers
+  text = text.replace(/\[ACTION\]\s*{[\s\S]*?}\s*\[\/ACTION\]/gi, '')
+  // Clean up excess whitespace
+  text = text.replace(/\n{3,}/g, '\n\n').trim()
+  return text
+}
+
+/**
+ * Validate that an action has all required data
+ */
+export function validateAction(action: ParsedAction): string[] {
+  const errors: string[] = []
+
+  switch (action.type) {
+    case 'create':
+      if (!action.payload.documentType) {
+        errors.push('Document type is required for create action')
+      }
+      break
+    case 'update':
+      if (!action.payload.documentId) {
+        errors.push('Document ID is required for update action')
+      }
+      if (!action.payload.fields || Object.keys(action.payload.fields).length === 0) {
+        errors.push('Fields are required for update action')
+      }
+      break
+    case 'patch':
+      if (!action.payload.documentId) {
+        errors.push('Document ID is required for patch action')
+      }
+      if (!action.payload.operations || action.payload.operations.length === 0) {
+        errors.push('Operations are required for patch action')
+      }
+      break
+    case 'delete':
+    case 'publish':
+    case 'unpublish':
+    case 'discardDraft':
+      if (!action.payload.documentId) {
+        errors.push(`Document ID is required for ${action.type} action`)
+      }
+      break
+    case 'schedulePublish':
+      if (!action.payload.documentId) {
+        errors.push('Document ID is required for schedulePublish action')
+      }
+      if (!action.payload.publishAt) {
+        errors.push('Publish time is required for schedulePublish action')
+      } else if (Number.isNaN(Date.parse(action.payload.publishAt))) {
+        errors.push(`Publish time "${action.payload.publishAt}" is not a valid ISO 8601 date-time`)
+      }
+      break
+    case 'query':
+      if (!action.payload.query) {
+        errors.push('Query is required for query action')
+      }
+      break
+    case 'navigate':
+      if (!action.payload.documentId && !action.payload.path) {
+        errors.push('Document ID or path is required for navigate action')
+      }
+      break
+  }
+
+  return errors
+}
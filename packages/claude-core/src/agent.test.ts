@@ -0,0 +1,57 @@
+/**
+ * Agent Loop and Action Tools Tests
+ */
+
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {buildAgentFollowUp, getAgentStopReason} from './agent'
+import {buildToolResults, getActionTools, REMOTE_ACTION_TYPES} from './tools'
+import type {ParsedAction} from './types'
+
+const budget = {maxSteps: 3, tokenBudget: 10000}
+
+function action(type: ParsedAction['type'], toolUseId?: string): ParsedAction {
+  return {id: `action-${type}`, type, description: `Run ${type}`, payload: {}, status: 'pending', toolUseId}
+}
+
+describe('getAgentStopReason', () => {
+  it('continues after a query and stops for approval on a write', () => {
+    assert.equal(getAgentStopReason([action('query')], 1, 100, budget), null)
+    assert.equal(getAgentStopReason([action('query'), action('update')], 1, 100, budget), 'approval')
+  })
+
+  it('stops when the budget runs out', () => {
+    assert.equal(getAgentStopReason([action('query')], 3, 100, budget), 'maxSteps')
+    assert.equal(getAgentStopReason([action('query')], 1, 10000, budget), 'tokenBudget')
+  })
+})
+
+describe('getActionTools', () => {
+  it('offers only the requested action types', () => {
+    const tools = getActionTools({actionTypes: REMOTE_ACTION_TYPES})
+    assert.deepEqual(
+      tools.map((tool) => tool.name),
+      REMOTE_ACTION_TYPES
+    )
+  })
+
+  it('notes the approval write tools wait for when asked to', () => {
+    const tools = getActionTools({actionTypes: ['query', 'update', 'delete'], confirmWrites: true})
+    assert.doesNotMatch(tools[0].description, /approval|confirm/)
+    assert.match(tools[1].description, /Requires user approval\.$/)
+    assert.match(tools[2].description, /the user must confirm before it runs\.$/)
+  })
+})
+
+describe('buildToolResults and buildAgentFollowUp', () => {
+  it('answers every tool call and feeds query results back', () => {
+    const results = [
+      {action: action('query', 'toolu_1'), result: {success: true, message: 'Found 1', data: [{_id: 'page-1'}]}},
+      {action: action('explain'), result: {success: true}},
+    ]
+    assert.deepEqual(buildToolResults(results), [
+      {type: 'tool_result', tool_use_id: 'toolu_1', content: 'Executed successfully. Found 1'},
+    ])
+    assert.match(buildAgentFollowUp(results), /### 1\. Run query \(1 result\)[\s\S]*"page-1"/)
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * Agent Loop
+ *
+ * Decides whether the actions of a response can run without the user and
+ * be fed back to Claude, and formats their results as the follow-up message
+ * that starts the next step. The Studio chat and the remote API run the same
+ * loop, each with the action types it offers.
+ */
+
+import type {ActionType, AgentActionResult, AgentBudget, AgentStopReason, ParsedAction} from './types'
+
+/**
+ * Action types that never change content
+ */
+export const READ_ONLY_ACTION_TYPES: ActionType[] = ['query', 'explain', 'navigate', 'fetchFigmaFrame']
+
+/**
+ * Read-only action types the agent loop runs and continues after
+ */
+const AGENT_ACTION_TYPES: ActionType[] = ['query', 'fetchFigmaFrame', 'explain']
+
+/**
+ * Action types whose results are sent back to Claude
+ */
+const FEEDBACK_ACTION_TYPES: ActionType[] = ['query', 'fetchFigmaFrame']
+
+/**
+ * Result data longer than this is truncated in the follow-up message
+ */
+const MAX_RESULT_LENGTH = 50000
+
+/**
+ * Check if an action type never changes content
+ */
+export function isReadOnlyActionType(type: ActionType): boolean {
+  return READ_ONLY_ACTION_TYPES.includes(type)
+}
+
+/**
+ * Check if an action never changes content
+ */
+export function isReadOnlyAction(action: ParsedAction): boolean {
+  return isReadOnlyActionType(action.type)
+}
+
+/**
+ * Check if the agent loop runs this action itself
+ */
+export function isAgentAction(action: ParsedAction): boolean {
+  return AGENT_ACTION_TYPES.includes(action.type)
+}
+
+/**
+ * Decide whether the run continues after a step.
+ * Returns null to continue, or the reason the run stops.
+ *
+ * @param step - The step that just finished (1-based)
+ * @param tokensUsed - Tokens used by the run so far, including this step
+ */
+export function getAgentStopReason(
+  actions: ParsedAction[],
+  step: number,
+  tokensUsed: number,
+  budget: AgentBudget
+): AgentStopReason | null {
+  if (actions.some((action) => !isReadOnlyAction(action))) {
+    return 'approval'
+  }
+
+  const hasFeedback = actions.some((action) => FEEDBACK_ACTION_TYPES.includes(action.type))
+  if (!hasFeedback || !actions.every(isAgentAction)) {
+    return 'complete'
+  }
+
+  if (step >= budget.maxSteps) {
+    return 'maxSteps'
+  }
+  if (tokensUsed >= budget.tokenBudget) {
+    return 'tokenBudget'
+  }
+
+  return null
+}
+
+/**
+ * Format result data as a JSON code block, truncating very large results
+ */
+function formatResultData(data: unknown): string {
+  let json = JSON.stringify(data, null, 2) ?? 'null'
+  if (json.length > MAX_RESULT_LENGTH) {
+    json = `${json.substring(0, MAX_RESULT_LENGTH)}\n... (truncated)`
+  }
+  return `\`\`\`json\n${json}\n\`\`\``
+}
+
+/**
+ * Describe one action result for the follow-up message
+ */
+function formatAgentResult({action, result}: AgentActionResult, index: number): string | null {
+  const heading = `### ${index + 1}. ${action.description}`
+
+  if (!result.success) {
+    return `${heading} (failed)\n\n${result.message || 'Unknown error'}`
+  }
+
+  if (action.type === 'query') {
+    const count = Array.isArray(result.data) ? result.data.length : 1
+    return `${heading} (${count} result${count !== 1 ? 's' : ''})\n\n${formatResultData(result.data)}`
+  }
+
+  if (action.type === 'fetchFigmaFrame') {
+    return `${heading} (Figma frame data)\n\n${formatResultData(result.data)}`
+  }
+
+  // explain results are already shown to the user and carry no new data
+  return null
+}
+
+/**
+ * Build the follow-up text that feeds action results back to Claude
+ */
+export function buildAgentFollowUp(results: AgentActionResult[]): string {
+  const parts = results
+    .map((entry, index) => formatAgentResult(entry, index))
+    .filter((part): part is string => part !== null)
+
+  return [
+    `Here are the results of the read-only actions you requested:`,
+    ...parts,
+    'Continue with the task using these results. If a query failed or returned nothing useful, fix it and query again.',
+  ].join('\n\n')
+}
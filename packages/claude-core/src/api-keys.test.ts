@@ -0,0 +1,126 @@
+/**
+ * API Key Scope Tests
+ */
+
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import type {SanityClient} from '@sanity/client'
+import {scopeQuery} from './access-control'
+import {checkApiKeyAccess, getApiKeyQueryScope, type ApiKeyScopes} from './api-keys'
+import {executeAction} from './executor'
+import type {ActionPayload, ActionType, ParsedAction} from './types'
+
+function key(scopes: Partial<ApiKeyScopes> = {}): ApiKeyScopes {
+  return {name: 'Test key', access: 'full', ...scopes}
+}
+
+function action(type: ActionType, payload: ActionPayload = {}): ParsedAction {
+  return {id: `action-${type}`, type, description: type, status: 'pending', payload}
+}
+
+/**
+ * Run a query through the executor with a key's scope, returning the GROQ the client received
+ */
+async function runScopedQuery(scopes: Partial<ApiKeyScopes>, query: string): Promise<string> {
+  let fetched = ''
+  const client = {
+    fetch: async (groq: string) => {
+      fetched = groq
+      return []
+    },
+  } as unknown as SanityClient
+  const result = await executeAction(client, action('query', {query}), {queryScope: getApiKeyQueryScope(key(scopes))})
+  assert.equal(result.success, true)
+  return fetched
+}
+
+describe('checkApiKeyAccess', () => {
+  describe('dryRunOnly', () => {
+    // create is what the MCP create tool runs, uploadImage what its upload tool runs
+    for (const type of ['create', 'patch', 'delete', 'publish', 'uploadImage'] as ActionType[]) {
+      it(`refuses to run ${type}`, () => {
+        assert.match(checkApiKeyAccess(key({access: 'dryRunOnly'}), action(type)) || '', /only allows dry runs/)
+      })
+    }
+
+    it('plans writes in a dry run', () => {
+      assert.equal(checkApiKeyAccess(key({access: 'dryRunOnly'}), action('create'), true), null)
+    })
+
+    it('still runs queries', () => {
+      assert.equal(checkApiKeyAccess(key({access: 'dryRunOnly'}), action('query')), null)
+    })
+  })
+
+  describe('readOnly', () => {
+    for (const type of ['create', 'update', 'delete', 'publish', 'uploadImage'] as ActionType[]) {
+      it(`refuses to run ${type}, even in a dry run`, () => {
+        assert.match(checkApiKeyAccess(key({access: 'readOnly'}), action(type), true) || '', /is read-only/)
+      })
+    }
+
+    it('runs read-only actions', () => {
+      for (const type of ['query', 'navigate', 'explain'] as ActionType[]) {
+        assert.equal(checkApiKeyAccess(key({access: 'readOnly'}), action(type)), null)
+      }
+    })
+  })
+
+  describe('allowedActions', () => {
+    it('refuses action types the key does not list', () => {
+      const scoped = key({allowedActions: ['query', 'update']})
+      assert.equal(checkApiKeyAccess(scoped, action('update')), null)
+      assert.match(checkApiKeyAccess(scoped, action('delete')) || '', /cannot run "delete" actions\. Allowed: query, update/)
+    })
+
+    it('applies on top of the access level', () => {
+      const scoped = key({access: 'readOnly', allowedActions: ['update']})
+      assert.match(checkApiKeyAccess(scoped, action('update')) || '', /is read-only/)
+      assert.match(checkApiKeyAccess(scoped, action('query')) || '', /cannot run "query" actions/)
+    })
+  })
+})
+
+describe('queries', () => {
+  it('refuses queries that name a protected type', () => {
+    for (const query of ['*[_type == "claudeApiKey"]{keyHash}', '*[_type in ["page", "claudeRemoteJob"]]']) {
+      assert.match(checkApiKeyAccess(key(), action('query', {query})) || '', /cannot query "claude/)
+    }
+  })
+
+  it('allows queries of content types', () => {
+    assert.equal(checkApiKeyAccess(key(), action('query', {query: '*[_type == "page"]{_id, name}'})), null)
+  })
+
+  it('hides protected types from queries that do not name them', async () => {
+    const fetched = await runScopedQuery({}, '*[defined(keyHash)]{keyHash}')
+    assert.match(fetched, /^\*\[!\(_type in \[.*"claudeApiKey".*\]\)\]\[defined\(keyHash\)\]/)
+  })
+
+  it('limits queries to the allowed document types', async () => {
+    const fetched = await runScopedQuery({allowedDocumentTypes: ['page']}, '*[_type == "post"]{_id}')
+    assert.equal(fetched, '*[_type in ["page"]][_type == "post"]{_id}')
+  })
+})
+
+describe('scopeQuery', () => {
+  const scope = {allowedDocumentTypes: ['page']}
+  const filtered = '*[_type in ["page"]]'
+
+  it('scopes every dataset lookup, including subqueries and counts', () => {
+    assert.equal(
+      scopeQuery('count(*[_type == "page"]{"refs": *[references(^._id)]})', scope),
+      `count(${filtered}[_type == "page"]{"refs": ${filtered}[references(^._id)]})`
+    )
+    assert.equal(scopeQuery('*[_id in *[_type == "page"]._id]', scope), `${filtered}[_id in ${filtered}[_type == "page"]._id]`)
+  })
+
+  it('leaves multiplication, strings and comments alone', () => {
+    assert.equal(scopeQuery('*[price * 2 > 10 && title match "a*"]', scope), `${filtered}[price * 2 > 10 && title match "a*"]`)
+    assert.equal(scopeQuery('*[x ** 2 > 4] // *', scope), `${filtered}[x ** 2 > 4] // *`)
+  })
+
+  it('never allows protected types, even when a key lists them', () => {
+    assert.equal(scopeQuery('*', {allowedDocumentTypes: ['claudeApiKey']}), '*[_type in []]')
+  })
+})
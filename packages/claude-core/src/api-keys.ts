@@ -0,0 +1,66 @@
+/**
+ * API Key Scopes
+ *
+ * What an API key lets the remote API and the MCP server do: its access level,
+ * the action types it may run and the document types its queries may read. Every entry point checks actions here, so a
+ * key's scopes are the same whichever way it is used.
+ */
+
+import {findProtectedTypeInQuery, type QueryScope} from './access-control'
+import {isReadOnlyAction} from './agent'
+import type {ActionType, ParsedAction} from './types'
+
+/**
+ * What requests with an API key may do
+ * - full: run any action the key's other scopes allow
+ * - dryRunOnly: write actions are only planned, never run
+ * - readOnly: read-only actions (query, explain, navigate) only
+ */
+export type ApiKeyAccess = 'full' | 'dryRunOnly' | 'readOnly'
+
+/**
+ * The scopes of an API key. Empty or missing lists mean "no restriction".
+ */
+export interface ApiKeyScopes {
+  name: string
+  access: ApiKeyAccess
+  allowedDocumentTypes?: string[]
+  allowedActions?: ActionType[]
+}
+
+/**
+ * Check an action against a key's access level and allowed action types, and
+ * refuse queries that name the assistant's protected types
+ * Returns an error message if the action is denied, or null if it may run.
+ *
+ * @param dryRun - Whether write actions are only planned, as in a dry run request
+ */
+export function checkApiKeyAccess(key: ApiKeyScopes, action: ParsedAction, dryRun: boolean = false): string | null {
+  if (key.access === 'readOnly' && !isReadOnlyAction(action)) {
+    return `Access denied: API key "${key.name}" is read-only and cannot run "${action.type}" actions.`
+  }
+
+  if (key.access === 'dryRunOnly' && !dryRun && !isReadOnlyAction(action)) {
+    return `Access denied: API key "${key.name}" only allows dry runs and cannot run "${action.type}" actions.`
+  }
+
+  if (key.allowedActions?.length && !key.allowedActions.includes(action.type)) {
+    return `Access denied: API key "${key.name}" cannot run "${action.type}" actions. Allowed: ${key.allowedActions.join(', ')}.`
+  }
+
+  // Queries also run scoped to the key's types (see getApiKeyQueryScope); naming a protected type is refused outright
+  const protectedType = action.type === 'query' && action.payload.query ? findProtectedTypeInQuery(action.payload.query) : null
+  if (protectedType) {
+    return `Access denied: API key "${key.name}" cannot query "${protectedType}" documents.`
+  }
+
+  return null
+}
+
+/**
+ * The document types an API key's queries may read
+ * Without allowed document types, every type but the assistant's protected ones.
+ */
+export function getApiKeyQueryScope(key: ApiKeyScopes): QueryScope {
+  return {allowedDocumentTypes: key.allowedDocumentTypes}
+}
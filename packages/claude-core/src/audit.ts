@@ -0,0 +1,141 @@
+/**
+ * Audit Log
+ *
+ * Every mutation Claude runs is recorded as a claudeAuditEntry document: who
+ * ran it (user or API key), from where, the action, the document's revisions
+ * before and after, and the outcome. Entries are only ever created, never
+ * updated, and the executor refuses actions that target them.
+ */
+
+import type {SanityClient} from '@sanity/client'
+import type {ActionResult, ActionType, AuditContext, AuditEntry, ParsedAction} from './types'
+
+export const AUDIT_ENTRY_TYPE = 'claudeAuditEntry'
+
+/**
+ * ID prefix of audit entries. IDs with a dot are not publicly readable, even in
+ * public datasets.
+ */
+export const AUDIT_ENTRY_ID_PREFIX = 'claude-audit.'
+
+/**
+ * Action types that change content and are audited
+ */
+export const AUDITED_ACTION_TYPES: ActionType[] = [
+  'create',
+  'update',
+  'patch',
+  'delete',
+  'publish',
+  'unpublish',
+  'discardDraft',
+  'schedulePublish',
+  'uploadImage',
+  'uploadFigmaImage',
+  'createPinboard',
+]
+
+// Longest payload stored on an entry; larger payloads are cut off
+const MAX_PAYLOAD_JSON_LENGTH = 20000
+
+/**
+ * Check if an action type changes content and is audited
+ */
+export function isAuditedAction(type: ActionType): boolean {
+  return AUDITED_ACTION_TYPES.includes(type)
+}
+
+/**
+ * Check if an action targets an audit entry, which can never be changed
+ */
+export function isAuditEntryTarget(action: ParsedAction): boolean {
+  return (
+    action.payload.documentType === AUDIT_ENTRY_TYPE ||
+    !!action.payload.documentId?.replace(/^drafts\./, '').startsWith(AUDIT_ENTRY_ID_PREFIX)
+  )
+}
+
+/**
+ * Read a field of the document an action changed, from its pre-state
+ * Publishes keep the draft and published versions; the draft is the one published.
+ */
+function getPreStateField(preState: unknown, field: '_rev' | '_type'): string | undefined {
+  if (!preState || typeof preState !== 'object') return undefined
+  const state = preState as Record<string, unknown>
+  const document = (state.draft ?? state.published ?? state) as Record<string, unknown> | null
+  const value = document?.[field] ?? state[field]
+  return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Build the audit entry for an action and its result
+ */
+export function buildAuditEntry(
+  action: ParsedAction,
+  result: ActionResult,
+  context: AuditContext,
+  options: {undo?: boolean} = {}
+): AuditEntry {
+  const {imageAttachment, ...payload} = action.payload
+  let payloadJson = JSON.stringify({
+    ...payload,
+    // Image data is large and already stored as an asset
+    ...(imageAttachment ? {imageAttachment: {name: imageAttachment.name, mimeType: imageAttachment.mimeType}} : {}),
+  })
+  if (payloadJson.length > MAX_PAYLOAD_JSON_LENGTH) {
+    payloadJson = `${payloadJson.slice(0, MAX_PAYLOAD_JSON_LENGTH)}…`
+  }
+
+  return {
+    _id: `${AUDIT_ENTRY_ID_PREFIX}${crypto.randomUUID()}`,
+    _type: AUDIT_ENTRY_TYPE,
+    timestamp: new Date().toISOString(),
+    source: context.source,
+    userId: context.userId,
+    userName: context.userName,
+    apiKeyId: context.apiKeyId,
+    apiKeyName: context.apiKeyName,
+    clientId: context.clientId,
+    conversation: context.conversationId
+      ? {_type: 'reference', _ref: context.conversationId, _weak: true}
+      : undefined,
+    actionType: action.type,
+    description: action.description,
+    documentId: result.documentId || action.payload.documentId,
+    documentType: getPreStateField(result.preState, '_type') || action.payload.documentType,
+    payloadJson,
+    success: result.success,
+    message: result.message,
+    revisionBefore: getPreStateField(result.preState, '_rev'),
+    revisionAfter: result.success ? result.revision : undefined,
+    batchId: result.batchId,
+    undo: options.undo || undefined,
+  }
+}
+
+/**
+ * Record audited actions, all in one transaction
+ * Failures are logged, not thrown: the actions have already run, and their
+ * results must still reach the caller.
+ */
+export async function recordAuditEntries(
+  client: SanityClient,
+  executed: Array<{action: ParsedAction; result: ActionResult}>,
+  context: AuditContext,
+  options: {undo?: boolean} = {}
+): Promise<void> {
+  const entries = executed
+    .filter(({action}) => isAuditedAction(action.type))
+    .map(({action, result}) => buildAuditEntry(action, result, context, options))
+  if (entries.length === 0) return
+
+  try {
+    const transaction = client.transaction()
+    for (const entry of entries) {
+      transaction.create(entry)
+    }
+    await transaction.commit({visibility: 'async'})
+  } catch (error) {
+    console.error('[Claude Audit] Failed to record audit entries:', error)
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Usage Budget Tests
+ */
+
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import type {SanityClient} from '@sanity/client'
+import {evaluateBudget, recordBudgetUsage, resolveUserBudget} from './budget'
+import type {BudgetSettings} from './types'
+
+const now = new Date('2026-03-15T12:00:00Z')
+
+describe('resolveUserBudget', () => {
+  const settings: BudgetSettings = {
+    roleBudgets: [
+      {role: 'editor', tokenLimit: 1000, costLimit: 5},
+      {role: 'administrator', tokenLimit: 5000},
+    ],
+    userBudgets: [{userId: 'user-capped', tokenLimit: 200}],
+    budgetOverrides: [
+      {userId: 'user-capped', tokenLimit: 9000, expiresAt: '2026-03-20T00:00:00Z'},
+      {userId: 'user-expired', tokenLimit: 9000, expiresAt: '2026-03-01T00:00:00Z'},
+    ],
+  }
+
+  it('prefers an unexpired override, then the user budget', () => {
+    assert.equal(resolveUserBudget(settings, {userId: 'user-capped'}, now)?.source, 'override')
+    assert.deepEqual(resolveUserBudget(settings, {userId: 'user-capped'}, new Date('2026-03-21T00:00:00Z'))?.limit, {
+      userId: 'user-capped',
+      tokenLimit: 200,
+    })
+  })
+
+  it('takes the most generous role budget, leaving uncapped dimensions uncapped', () => {
+    const budget = resolveUserBudget(settings, {userId: 'user-expired', roles: ['editor', 'administrator']}, now)
+    assert.deepEqual(budget, {limit: {tokenLimit: 5000, costLimit: undefined}, source: 'role'})
+  })
+
+  it('has no user budget without a user', () => {
+    assert.equal(resolveUserBudget(settings, {roles: ['editor']}, now), null)
+  })
+})
+
+describe('evaluateBudget', () => {
+  const settings: BudgetSettings = {monthlyBudget: {tokenLimit: 1000, costLimit: 10}}
+
+  it('refuses requests once a cap is reached', () => {
+    const status = evaluateBudget(settings, {}, {global: {tokens: 1000, cost: 1}}, now)
+    assert.equal(status.allowed, false)
+    assert.match(status.error || '', /1,000 of 1,000 tokens.*resets on 2026-04-01/)
+  })
+
+  it('warns past a threshold, by whichever of tokens and cost is higher', () => {
+    const status = evaluateBudget(settings, {}, {global: {tokens: 100, cost: 8.5}}, now)
+    assert.equal(status.allowed, true)
+    assert.match(status.warning || '', /85% used/)
+    assert.equal(evaluateBudget(settings, {}, {global: {tokens: 100, cost: 1}}, now).warning, undefined)
+  })
+})
+
+describe('recordBudgetUsage', () => {
+  it('increments the global and user counters in one transaction', async () => {
+    const created: Array<{_id: string}> = []
+    const increments: Array<{id: string; inc: unknown; set: unknown}> = []
+    let commits = 0
+    const transaction = {
+      createIfNotExists: (document: {_id: string}) => {
+        created.push(document)
+        return transaction
+      },
+      patch: (id: string, build: (patch: unknown) => unknown) => {
+        const entry = {id, inc: undefined as unknown, set: undefined as unknown}
+        const patch = {
+          inc: (values: unknown) => {
+            entry.inc = values
+            return patch
+          },
+          set: (values: unknown) => {
+            entry.set = values
+            return patch
+          },
+        }
+        build(patch)
+        increments.push(entry)
+        return transaction
+      },
+      commit: async () => {
+        commits++
+      },
+    }
+    const client = {transaction: () => transaction} as unknown as SanityClient
+
+    await recordBudgetUsage(
+      client,
+      {userId: 'user@example'},
+      {inputTokens: 100, outputTokens: 50, cacheReadInputTokens: 25},
+      0.02,
+      now
+    )
+
+    const ids = ['claudeUsageCounter.2026-03.global', 'claudeUsageCounter.2026-03.user.user_example']
+    assert.deepEqual(
+      created.map((document) => document._id),
+      ids
+    )
+    assert.deepEqual(
+      increments.map((entry) => entry.id),
+      ids
+    )
+    for (const entry of increments) {
+      assert.deepEqual(entry.inc, {
+        tokens: 175,
+        cost: 0.02,
+        inputTokens: 100,
+        outputTokens: 50,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 25,
+        requests: 1,
+      })
+      assert.deepEqual(entry.set, {updatedAt: now.toISOString()})
+    }
+    assert.equal(commits, 1)
+  })
+})
@@ -0,0 +1,292 @@
+/**
+ * Usage Budgets
+ *
+ * Monthly token and cost caps, set globally, per role and per user in the
+ * claudeApiSettings document. Usage is metered from Anthropic responses into
+ * claudeUsageCounter documents - one for all usage and one per user each
+ * month - which both API routes check before calling Claude.
+ */
+
+import type {SanityClient} from '@sanity/client'
+import type {
+  BudgetIdentity,
+  BudgetLimit,
+  BudgetScope,
+  BudgetScopeStatus,
+  BudgetSettings,
+  BudgetStatus,
+  TokenUsage,
+  UsageCounter,
+} from './types'
+import {getTotalTokens} from './usage'
+
+/**
+ * Warning thresholds used when the settings do not set any
+ */
+export const DEFAULT_WARNING_THRESHOLDS = [80, 95]
+
+const EMPTY_COUNTER: UsageCounter = {tokens: 0, cost: 0}
+
+/**
+ * The month usage is metered in, as YYYY-MM (UTC)
+ */
+export function getBudgetMonth(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7)
+}
+
+/**
+ * Document ID of the usage counter for a month and scope
+ */
+export function getUsageCounterId(month: string, scope: BudgetScope, userId?: string): string {
+  const suffix = scope === 'user' ? `user.${(userId || '').replace(/[^a-zA-Z0-9_-]/g, '_')}` : 'global'
+  return `claudeUsageCounter.${month}.${suffix}`
+}
+
+/**
+ * Whether a cap sets any limit
+ */
+function hasLimit(limit: BudgetLimit | undefined): limit is BudgetLimit {
+  return !!limit && (typeof limit.tokenLimit === 'number' || typeof limit.costLimit === 'number')
+}
+
+/**
+ * The cap that applies to a user: an unexpired override, then their user
+ * budget, then the most generous budget among their roles
+ */
+export function resolveUserBudget(
+  settings: BudgetSettings,
+  identity: BudgetIdentity,
+  now: Date = new Date()
+): {limit: BudgetLimit; source: 'role' | 'user' | 'override'; expiresAt?: string} | null {
+  if (!identity.userId) {
+    return null
+  }
+
+  const override = (settings.budgetOverrides || []).find(
+    (entry) => entry.userId === identity.userId && Date.parse(entry.expiresAt) > now.getTime() && hasLimit(entry)
+  )
+  if (override) {
+    return {limit: override, source: 'override', expiresAt: override.expiresAt}
+  }
+
+  const userBudget = (settings.userBudgets || []).find((entry) => entry.userId === identity.userId && hasLimit(entry))
+  if (userBudget) {
+    return {limit: userBudget, source: 'user'}
+  }
+
+  const roles = identity.roles || []
+  const roleBudgets = (settings.roleBudgets || []).filter((entry) => roles.includes(entry.role) && hasLimit(entry))
+  if (roleBudgets.length === 0) {
+    return null
+  }
+
+  // A role without a token or cost limit leaves that dimension uncapped
+  const pickMax = (key: keyof BudgetLimit) =>
+    roleBudgets.some((entry) => typeof entry[key] !== 'number')
+      ? undefined
+      : Math.max(...roleBudgets.map((entry) => entry[key] as number))
+
+  return {limit: {tokenLimit: pickMax('tokenLimit'), costLimit: pickMax('costLimit')}, source: 'role'}
+}
+
+/**
+ * Compare one scope's usage against its cap
+ */
+function getScopeStatus(
+  scope: BudgetScope,
+  source: BudgetScopeStatus['source'],
+  limit: BudgetLimit,
+  used: UsageCounter,
+  expiresAt?: string
+): BudgetScopeStatus {
+  const tokenPercent = typeof limit.tokenLimit === 'number' ? (used.tokens / Math.max(limit.tokenLimit, 1)) * 100 : 0
+  const costPercent = typeof limit.costLimit === 'number' ? (used.cost / Math.max(limit.costLimit, 0.01)) * 100 : 0
+
+  return {
+    scope,
+    source,
+    limit,
+    used,
+    ...(typeof limit.tokenLimit === 'number' ? {remainingTokens: Math.max(limit.tokenLimit - used.tokens, 0)} : {}),
+    ...(typeof limit.costLimit === 'number' ? {remainingCost: Math.max(limit.costLimit - used.cost, 0)} : {}),
+    percentUsed: Math.max(tokenPercent, costPercent),
+    ...(expiresAt ? {expiresAt} : {}),
+  }
+}
+
+/**
+ * Describe a scope for budget messages
+ */
+function describeScope(status: BudgetScopeStatus): string {
+  return status.scope === 'global' ? 'The monthly Claude budget for this workspace' : 'Your monthly Claude budget'
+}
+
+/**
+ * Describe how much of a cap is used, e.g. "1,200,000 of 1,000,000 tokens"
+ */
+function describeUsage(status: BudgetScopeStatus): string {
+  const parts: string[] = []
+  if (typeof status.limit.tokenLimit === 'number') {
+    parts.push(`${status.used.tokens.toLocaleString('en-US')} of ${status.limit.tokenLimit.toLocaleString('en-US')} tokens`)
+  }
+  if (typeof status.limit.costLimit === 'number') {
+    parts.push(`$${status.used.cost.toFixed(2)} of $${status.limit.costLimit.toFixed(2)}`)
+  }
+  return parts.join(', ')
+}
+
+/**
+ * The first day of the next month, when caps reset
+ */
+function getResetDate(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, monthIndex, 1)).toISOString().slice(0, 10)
+}
+
+/**
+ * Evaluate a request's budget from month-to-date usage
+ */
+export function evaluateBudget(
+  settings: BudgetSettings,
+  identity: BudgetIdentity,
+  counters: {global?: UsageCounter; user?: UsageCounter},
+  now: Date = new Date()
+): BudgetStatus {
+  const month = getBudgetMonth(now)
+  const scopes: BudgetScopeStatus[] = []
+
+  if (hasLimit(settings.monthlyBudget)) {
+    scopes.push(getScopeStatus('global', 'global', settings.monthlyBudget, counters.global || EMPTY_COUNTER))
+  }
+
+  const userBudget = resolveUserBudget(settings, identity, now)
+  if (userBudget) {
+    scopes.push(
+      getScopeStatus('user', userBudget.source, userBudget.limit, counters.user || EMPTY_COUNTER, userBudget.expiresAt)
+    )
+  }
+
+  const exceeded = scopes.find((status) => status.percentUsed >= 100)
+  if (exceeded) {
+    return {
+      month,
+      allowed: false,
+      scopes,
+      error: `${describeScope(exceeded)} has been reached (${describeUsage(exceeded)}). It resets on ${getResetDate(month)}; an admin can raise it in Claude API Settings.`,
+    }
+  }
+
+  const thresholds = settings.warningThresholds?.length ? settings.warningThresholds : DEFAULT_WARNING_THRESHOLDS
+  const highest = scopes.reduce<BudgetScopeStatus | null>(
+    (max, status) => (!max || status.percentUsed > max.percentUsed ? status : max),
+    null
+  )
+  const crossed = highest ? Math.max(...thresholds.filter((threshold) => highest.percentUsed >= threshold)) : -Infinity
+
+  return {
+    month,
+    allowed: true,
+    scopes,
+    ...(highest && Number.isFinite(crossed)
+      ? {warning: `${describeScope(highest)} is ${Math.floor(highest.percentUsed)}% used (${describeUsage(highest)}).`}
+      : {}),
+  }
+}
+
+/**
+ * Whether any cap is configured, so callers can skip metering reads entirely
+ */
+export function hasBudgets(settings: BudgetSettings | null | undefined): settings is BudgetSettings {
+  return (
+    !!settings &&
+    (hasLimit(settings.monthlyBudget) ||
+      !!settings.roleBudgets?.some(hasLimit) ||
+      !!settings.userBudgets?.some(hasLimit) ||
+      !!settings.budgetOverrides?.some(hasLimit))
+  )
+}
+
+/**
+ * Load month-to-date usage for a request
+ */
+export async function loadUsageCounters(
+  client: SanityClient,
+  identity: BudgetIdentity,
+  now: Date = new Date()
+): Promise<{global?: UsageCounter; user?: UsageCounter}> {
+  const month = getBudgetMonth(now)
+  const globalId = getUsageCounterId(month, 'global')
+  const userId = identity.userId ? getUsageCounterId(month, 'user', identity.userId) : null
+
+  const documents = await client.fetch<Array<{_id: string; tokens?: number; cost?: number}>>(
+    '*[_id in $ids]{_id, tokens, cost}',
+    {ids: userId ? [globalId, userId] : [globalId]}
+  )
+  const toCounter = (id: string | null): UsageCounter | undefined => {
+    const document = id ? documents.find((entry) => entry._id === id) : undefined
+    return document ? {tokens: document.tokens || 0, cost: document.cost || 0} : undefined
+  }
+
+  return {global: toCounter(globalId), user: toCounter(userId)}
+}
+
+/**
+ * Check a request against its budgets
+ */
+export async function checkBudget(
+  client: SanityClient,
+  settings: BudgetSettings,
+  identity: BudgetIdentity,
+  now: Date = new Date()
+): Promise<BudgetStatus> {
+  return evaluateBudget(settings, identity, await loadUsageCounters(client, identity, now), now)
+}
+
+/**
+ * Add a response's usage to this month's counters
+ * Counters are created on first use and incremented atomically, so concurrent
+ * requests never overwrite each other's usage.
+ */
+export async function recordBudgetUsage(
+  client: SanityClient,
+  identity: BudgetIdentity,
+  usage: TokenUsage,
+  cost: number | null,
+  now: Date = new Date()
+): Promise<void> {
+  const month = getBudgetMonth(now)
+  const scopes: Array<{scope: BudgetScope; id: string}> = [{scope: 'global', id: getUsageCounterId(month, 'global')}]
+  if (identity.userId) {
+    scopes.push({scope: 'user', id: getUsageCounterId(month, 'user', identity.userId)})
+  }
+
+  const increments = {
+    tokens: getTotalTokens(usage),
+    cost: cost ?? 0,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cacheCreationInputTokens: usage.cacheCreationInputTokens || 0,
+    cacheReadInputTokens: usage.cacheReadInputTokens || 0,
+    requests: 1,
+  }
+
+  const transaction = client.transaction()
+  for (const {scope, id} of scopes) {
+    transaction.createIfNotExists({
+      _id: id,
+      _type: 'claudeUsageCounter',
+      month,
+      scope,
+      ...(scope === 'user' ? {userId: identity.userId} : {}),
+      tokens: 0,
+      cost: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      requests: 0,
+    })
+    transaction.patch(id, (patch) => patch.inc(increments).set({updatedAt: now.toISOString()}))
+  }
+  await transaction.commit()
+}
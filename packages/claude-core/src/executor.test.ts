@@ -0,0 +1,157 @@
+/**
+ * Executor Tests
+ *
+ * Run against a fake client that knows the type of every stored document and
+ * records the mutations the executor tries to make.
+ */
+
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import type {SanityClient} from '@sanity/client'
+import {PROTECTED_DOCUMENT_TYPES} from './access-control'
+import {executeAction, executeBatch} from './executor'
+import type {ActionPayload, ActionType, ParsedAction} from './types'
+
+/**
+ * Build a fake client whose stored documents have the given types
+ * Every call other than fetch is recorded as a mutation.
+ */
+function createFakeClient(storedTypes: Record<string, string> = {}) {
+  const mutations: string[] = []
+  const record =
+    (method: string) =>
+    async (document?: {_id?: string; _type?: string}) => {
+      mutations.push(method)
+      return {_id: document?._id || 'new-id', _type: document?._type, _rev: 'rev-1'}
+    }
+
+  const client = {
+    fetch: async (_query: string, params: {id?: string} = {}) => (params.id && storedTypes[params.id]) || null,
+    create: record('create'),
+    createOrReplace: record('createOrReplace'),
+    createIfNotExists: record('createIfNotExists'),
+    delete: record('delete'),
+    request: record('request'),
+    action: record('action'),
+    patch: () => {
+      mutations.push('patch')
+      return {set: () => ({commit: record('commit')})}
+    },
+    transaction: () => {
+      const transaction = {
+        create: () => transaction,
+        createOrReplace: () => transaction,
+        patch: () => transaction,
+        delete: () => transaction,
+        commit: record('commit'),
+      }
+      return transaction
+    },
+  }
+
+  return {client: client as unknown as SanityClient, mutations}
+}
+
+function createAction(type: ActionType, payload: ActionPayload): ParsedAction {
+  return {id: `${type}-action`, type, description: type, status: 'pending', payload}
+}
+
+describe('executeAction', () => {
+  for (const documentType of PROTECTED_DOCUMENT_TYPES) {
+    describe(documentType, () => {
+      const storedId = `stored-${documentType}`
+
+      it('refuses to create one', async () => {
+        const {client, mutations} = createFakeClient()
+        const result = await executeAction(client, createAction('create', {documentType, fields: {title: 'New'}}))
+        assert.equal(result.success, false)
+        assert.match(result.message || '', /^Access denied/)
+        assert.deepEqual(mutations, [])
+      })
+
+      for (const type of ['update', 'patch', 'publish', 'unpublish', 'discardDraft', 'delete'] as ActionType[]) {
+        it(`refuses to ${type} one`, async () => {
+          const {client, mutations} = createFakeClient({[storedId]: documentType})
+          const result = await executeAction(
+            client,
+            createAction(type, {
+              documentId: storedId,
+              fields: {title: 'Changed'},
+              operations: [{op: 'unset', path: 'title'}],
+            })
+          )
+          assert.equal(result.success, false)
+          assert.match(result.message || '', /^Access denied/)
+          assert.deepEqual(mutations, [])
+        })
+      }
+
+      it('refuses to change one when Claude claims another type', async () => {
+        const {client, mutations} = createFakeClient({[storedId]: documentType})
+        const result = await executeAction(client, createAction('delete', {documentId: `drafts.${storedId}`, documentType: 'page'}))
+        assert.equal(result.success, false)
+        assert.deepEqual(mutations, [])
+      })
+
+      it('refuses to change one in a batch', async () => {
+        const {client, mutations} = createFakeClient({[storedId]: documentType})
+        const results = await executeBatch(client, [
+          createAction('create', {documentType: 'page', fields: {title: 'New page'}}),
+          createAction('delete', {documentId: storedId}),
+        ])
+        assert.ok(results.every((result) => !result.success))
+        assert.match(results[1].message || '', /^Access denied/)
+        assert.ok(!mutations.includes('commit'))
+      })
+    })
+  }
+
+  it('still creates other document types', async () => {
+    const {client, mutations} = createFakeClient()
+    const result = await executeAction(client, createAction('create', {documentType: 'page', fields: {title: 'New page'}}))
+    assert.equal(result.success, true)
+    assert.deepEqual(mutations, ['create'])
+  })
+})
+
+describe('executeBatch', () => {
+  it('guards drafts created from the published version with its revision', async () => {
+    const published = {_id: 'page-1', _type: 'page', _rev: 'published-rev', title: 'Old title'}
+    const staged: unknown[][] = []
+    const transaction = {
+      create: (document: unknown) => {
+        staged.push(['create', document])
+        return transaction
+      },
+      patch: (id: string, build: (patch: unknown) => unknown) => {
+        const patch = {
+          ifRevisionId: (rev: string) => {
+            staged.push(['ifRevisionId', id, rev])
+            return patch
+          },
+          set: (fields: unknown) => {
+            staged.push(['set', id, fields])
+            return patch
+          },
+        }
+        build(patch)
+        return transaction
+      },
+      commit: async () => ({}),
+    }
+    const client = {
+      fetch: async () => 'page',
+      getDocument: async (id: string) => (id === published._id ? published : undefined),
+      getDocuments: async (ids: string[]) => ids.map(() => null),
+      transaction: () => transaction,
+    } as unknown as SanityClient
+
+    const [result] = await executeBatch(client, [createAction('update', {documentId: 'page-1', fields: {title: 'New title'}})])
+    assert.equal(result.success, true)
+    assert.deepEqual(staged, [
+      ['create', {...published, _id: 'drafts.page-1'}],
+      ['ifRevisionId', 'page-1', 'published-rev'],
+      ['set', 'drafts.page-1', {title: 'New title'}],
+    ])
+  })
+})
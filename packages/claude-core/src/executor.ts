@@ -0,0 +1,1044 @@
+/**
+ * Action Executor
+ *
+ * Runs Claude's actions against Sanity with a SanityClient. The Studio plugin
+ * and the remote API both execute actions through these functions, so the same
+ * Claude output has the same effect in either place:
+ * - Access control is checked before any mutation, and the assistant's own
+ *   configuration and log documents can never be changed
+ * - Updates and patches are written to the draft, guarded by its revision
+ * - Related writes can be committed together as one all-or-nothing batch
+ * - Mutations are recorded in the audit log when the caller passes an AuditContext
+ *
+ * Schema validation needs the compiled Studio schema, so it is passed in by the
+ * caller as a SchemaValidator. Actions that need the browser (image uploads,
+ * Figma, pinboards) are handled by the Studio plugin itself.
+ */
+
+import type {SanityClient, SanityDocument} from '@sanity/client'
+import {
+  checkActionAccess,
+  getActionOperation,
+  isProtectedDocumentType,
+  requiresDocumentType,
+  scopeQuery,
+  type QueryScope,
+} from './access-control'
+import {isAuditEntryTarget, isAuditedAction, recordAuditEntries} from './audit'
+import {getValueAtPath} from './paths'
+import type {
+  AccessControlSettings,
+  ActionPayload,
+  ActionResult,
+  ActionType,
+  AuditContext,
+  ParsedAction,
+  PatchOperation,
+} from './types'
+import {prepareCreateFields, preparePatchOperations, prepareUpdateFields, validateQuery} from './validation'
+
+/**
+ * A transaction from the Sanity client
+ */
+export type Transaction = ReturnType<SanityClient['transaction']>
+
+/**
+ * Validates writes against the schema before they are made.
+ * Each check returns an error message for Claude, or null if the write is valid.
+ */
+export interface SchemaValidator {
+  /** Validate the fields of a new document */
+  validateCreate: (documentType: string, fields: Record<string, unknown>) => Promise<string | null>
+  /** Validate field updates against the document they are written to */
+  validateUpdate: (document: SanityDocument, fields: Record<string, unknown>) => Promise<string | null>
+  /** Validate the items patch operations add to the document */
+  validatePatch: (document: SanityDocument, operations: PatchOperation[]) => Promise<string | null>
+}
+
+export interface ExecutorOptions {
+  /** Restrictions from the claudeAccessControl singleton (null = unrestricted) */
+  accessControl?: AccessControlSettings | null
+  /** Create new documents as drafts, even when access control does not require it */
+  createDrafts?: boolean
+  /** Schema validation for create, update and patch */
+  validator?: SchemaValidator
+  /** Record mutations in the audit log, attributed to this context */
+  audit?: AuditContext
+  /** Limit queries to these document types, for clients not trusted with the whole dataset */
+  queryScope?: QueryScope
+}
+
+/**
+ * API version for the Actions API, used for publish, unpublish and discard
+ */
+export const ACTIONS_API_VERSION = '2025-02-19'
+
+/**
+ * API version for the Scheduling API, used for scheduled publishing
+ */
+export const SCHEDULING_API_VERSION = '2022-04-01'
+
+/**
+ * Action types that can be committed together in one transaction
+ */
+export const BATCHABLE_ACTION_TYPES: ActionType[] = ['create', 'update', 'patch', 'delete']
+
+/**
+ * Message for batch actions that were not applied because another one failed
+ */
+export const BATCH_NOT_APPLIED_MESSAGE = 'Not applied: another change in this batch failed'
+
+/**
+ * Both versions of a document from before a publish, kept for undo
+ */
+export interface PublishPreState {
+  draft: SanityDocument
+  published: SanityDocument | null
+}
+
+/**
+ * A scheduled publish as returned by the Scheduling API
+ */
+export interface PublishSchedule {
+  id: string
+  executeAt: string
+  state: 'scheduled' | 'cancelled' | 'succeeded'
+}
+
+/**
+ * One action staged into a batch transaction
+ * preState is the target document from before the batch, or null for a document the batch creates.
+ */
+interface StagedAction {
+  documentId: string
+  preState: SanityDocument | null
+  message: string
+}
+
+/**
+ * Check if an action can run as part of a batch
+ */
+export function isBatchableAction(action: ParsedAction): boolean {
+  return BATCHABLE_ACTION_TYPES.includes(action.type)
+}
+
+/**
+ * Generate an ID shared by the actions of one batch
+ */
+export function generateBatchId(): string {
+  return `batch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
+}
+
+/**
+ * Deep clone a document, so a pre-state kept for undo cannot change
+ */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
+
+/**
+ * Whether new documents are created as drafts
+ */
+function createsDrafts(options: ExecutorOptions): boolean {
+  return Boolean(options.createDrafts || options.accessControl?.draftsOnly)
+}
+
+/**
+ * Add patch operations on a document to a transaction
+ *
+ * One patch per operation - chained inserts on a single patch overwrite each other.
+ * When ifRevisionId is given the first patch is checked against it, so a concurrent
+ * edit aborts the transaction. Moved items are resolved from the source document.
+ * Returns an error message if an operation cannot be applied, null otherwise.
+ */
+export function addPatchOperations(
+  transaction: Transaction,
+  documentId: string,
+  operations: PatchOperation[],
+  source: SanityDocument,
+  ifRevisionId?: string
+): string | null {
+  let isFirstPatch = true
+  const guard = <T extends {ifRevisionId: (rev: string) => T}>(patch: T): T => {
+    if (!isFirstPatch || !ifRevisionId) return patch
+    isFirstPatch = false
+    return patch.ifRevisionId(ifRevisionId)
+  }
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'insert':
+        transaction.patch(documentId, (patch) => guard(patch).insert(operation.position!, operation.path, operation.items!))
+        break
+      case 'append':
+        transaction.patch(documentId, (patch) => guard(patch).append(operation.path, operation.items!))
+        break
+      case 'replace':
+        transaction.patch(documentId, (patch) => guard(patch).insert('replace', operation.path, operation.items!))
+        break
+      case 'unset':
+        transaction.patch(documentId, (patch) => guard(patch).unset([operation.path]))
+        break
+      case 'inc':
+        transaction.patch(documentId, (patch) => guard(patch).inc({[operation.path]: operation.amount!}))
+        break
+      case 'move': {
+        const item = getValueAtPath(source, operation.path)
+        if (!item) {
+          return `Cannot move: no item found at "${operation.path}"`
+        }
+        transaction.patch(documentId, (patch) => guard(patch).unset([operation.path]))
+        transaction.patch(documentId, (patch) => guard(patch).insert(operation.position!, operation.target!, [item]))
+        break
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Check an action against the access control settings.
+ * Resolves the stored document type for actions on existing documents, so Claude cannot
+ * sidestep type restrictions by mislabelling a document.
+ * Returns an error message if the action is denied, or null if it may run.
+ */
+export async function checkAccess(
+  client: SanityClient,
+  action: ParsedAction,
+  settings: AccessControlSettings | null | undefined
+): Promise<string | null> {
+  if (!settings || !getActionOperation(action.type)) {
+    return null
+  }
+
+  let documentType = action.type === 'createPinboard' ? 'pinboard' : action.payload.documentType
+  if (requiresDocumentType(action.type) && action.payload.documentId) {
+    // Resolve the stored type - never trust the type Claude claims for an existing document
+    documentType = (await getStoredDocumentType(client, action.payload.documentId)) || documentType
+  }
+
+  return checkActionAccess(action, settings, documentType)
+}
+
+/**
+ * Get the type of a stored document, from its draft or published version
+ */
+async function getStoredDocumentType(client: SanityClient, documentId: string): Promise<string | null> {
+  const baseId = documentId.replace(/^drafts\./, '')
+  return client.fetch<string | null>('*[_id in [$id, $draftId]][0]._type', {
+    id: baseId,
+    draftId: `drafts.${baseId}`,
+  })
+}
+
+/**
+ * Check if an action targets one of the assistant's protected document types,
+ * by the type Claude gives or the stored type of the document it names
+ */
+async function isProtectedTarget(client: SanityClient, action: ParsedAction): Promise<boolean> {
+  if (isProtectedDocumentType(action.payload.documentType)) return true
+  if (!action.payload.documentId) return false
+  return isProtectedDocumentType(await getStoredDocumentType(client, action.payload.documentId))
+}
+
+/**
+ * Get the version of a document that updates and patches write to:
+ * the draft if one exists, otherwise the published document
+ */
+export async function getLatestVersion(client: SanityClient, documentId: string): Promise<SanityDocument | null> {
+  const baseId = documentId.replace(/^drafts\./, '')
+  const draft = await client.getDocument(`drafts.${baseId}`)
+  return draft ?? (await client.getDocument(baseId)) ?? null
+}
+
+/**
+ * Get the draft of a document, creating it from the published version if needed
+ * Returns null if neither version exists
+ */
+async function getOrCreateDraft(client: SanityClient, baseId: string): Promise<SanityDocument | null> {
+  const draftId = `drafts.${baseId}`
+  const draft = await client.getDocument(draftId)
+  if (draft) {
+    return draft
+  }
+
+  const published = await client.getDocument(baseId)
+  if (!published) {
+    return null
+  }
+
+  const {_id, ...docWithoutId} = published
+  return client.create({
+    ...docWithoutId,
+    _id: draftId,
+  })
+}
+
+/**
+ * Create a new document
+ * New documents are drafts when access control requires it or options.createDrafts is set
+ */
+export async function createDocument(
+  client: SanityClient,
+  payload: ActionPayload,
+  options: ExecutorOptions = {}
+): Promise<ActionResult> {
+  const prepared = prepareCreateFields(payload)
+  if ('error' in prepared || !payload.documentType) {
+    return {success: false, message: 'error' in prepared ? prepared.error : 'Document type is required'}
+  }
+
+  const schemaError = await options.validator?.validateCreate(payload.documentType, prepared.fields)
+  if (schemaError) {
+    return {success: false, message: schemaError}
+  }
+
+  const result = await client.create({
+    ...prepared.fields,
+    ...(createsDrafts(options) ? {_id: `drafts.${crypto.randomUUID()}`} : {}),
+    _type: payload.documentType,
+  })
+
+  return {
+    success: true,
+    documentId: result._id,
+    message: `Created ${payload.documentType} document`,
+    data: result,
+    revision: result._rev,
+  }
+}
+
+/**
+ * Update an existing document
+ * Changes are written to the draft, which is created from the published version if needed.
+ * Supports nested field paths with _key selectors for array items, e.g.
+ * { "pageBuilder[_key==\"abc123\"].rows[_key==\"def456\"].label": "Hero" }
+ */
+export async function updateDocument(
+  client: SanityClient,
+  payload: ActionPayload,
+  options: ExecutorOptions = {}
+): Promise<ActionResult> {
+  const prepared = prepareUpdateFields(payload)
+  if ('error' in prepared || !payload.documentId) {
+    return {success: false, message: 'error' in prepared ? prepared.error : 'Document ID is required'}
+  }
+  const {fields} = prepared
+
+  // Strip drafts. prefix if present to get the base ID
+  const baseId = payload.documentId.replace(/^drafts\./, '')
+  const draftId = `drafts.${baseId}`
+
+  try {
+    // Validate against the schema before a draft is created for the update
+    const current = await getLatestVersion(client, baseId)
+    if (!current) {
+      return {success: false, message: `Document not found: ${baseId}. Please verify the document ID exists.`}
+    }
+    const schemaError = await options.validator?.validateUpdate(current, fields)
+    if (schemaError) {
+      return {success: false, message: schemaError}
+    }
+
+    const draft = await getOrCreateDraft(client, baseId)
+    if (!draft) {
+      return {success: false, message: `Document not found: ${baseId}. Please verify the document ID exists.`}
+    }
+
+    // Capture pre-execution state for undo functionality
+    const preState = clone(draft)
+
+    // Apply the patch with the provided fields - fails if someone saved the draft since it was read
+    const result = await client.patch(draftId).ifRevisionId(draft._rev).set(fields).commit()
+
+    return {
+      success: true,
+      documentId: result._id,
+      message: 'Updated document successfully. Changes saved to draft - remember to publish when ready.',
+      data: result,
+      preState,
+      revision: result._rev,
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update document'
+    return {
+      success: false,
+      message: `Update failed: ${errorMessage}. This may indicate the field path is incorrect. Ensure you're using _key selectors (e.g., [_key=="abc"]) and that all _key values exist in the document.`,
+    }
+  }
+}
+
+/**
+ * Apply fine-grained patch operations to an existing document
+ * Like updateDocument, changes are written to the draft version.
+ * All operations are committed in a single transaction, so either all apply or none do.
+ */
+export async function patchDocument(
+  client: SanityClient,
+  payload: ActionPayload,
+  options: ExecutorOptions = {}
+): Promise<ActionResult> {
+  const prepared = preparePatchOperations(payload)
+  if ('error' in prepared || !payload.documentId) {
+    return {success: false, message: 'error' in prepared ? prepared.error : 'Document ID is required'}
+  }
+  const {operations} = prepared
+
+  const baseId = payload.documentId.replace(/^drafts\./, '')
+  const draftId = `drafts.${baseId}`
+
+  try {
+    // Validate new items against the schema before a draft is created for the patch
+    const current = await getLatestVersion(client, baseId)
+    if (!current) {
+      return {success: false, message: `Document not found: ${baseId}. Please verify the document ID exists.`}
+    }
+    const schemaError = await options.validator?.validatePatch(current, operations)
+    if (schemaError) {
+      return {success: false, message: schemaError}
+    }
+
+    const draft = await getOrCreateDraft(client, baseId)
+    if (!draft) {
+      return {success: false, message: `Document not found: ${baseId}. Please verify the document ID exists.`}
+    }
+
+    // Capture pre-execution state for undo functionality
+    const preState = clone(draft)
+
+    // The first patch is checked against the revision read above, so a concurrent edit aborts the transaction
+    const transaction = client.transaction()
+    const operationError = addPatchOperations(transaction, draftId, operations, draft, draft._rev)
+    if (operationError) {
+      return {success: false, message: operationError}
+    }
+    await transaction.commit()
+
+    const result = await client.getDocument(draftId)
+
+    return {
+      success: true,
+      documentId: draftId,
+      message: `Applied ${operations.length} patch operation${operations.length !== 1 ? 's' : ''}. Changes saved to draft - remember to publish when ready.`,
+      data: result,
+      preState,
+      revision: result?._rev,
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to patch document'
+    return {
+      success: false,
+      message: `Patch failed: ${errorMessage}. No operations were applied. Ensure every _key in the paths exists in the document - query it first to get the current keys.`,
+    }
+  }
+}
+
+/**
+ * Delete a document
+ */
+export async function deleteDocument(client: SanityClient, payload: ActionPayload): Promise<ActionResult> {
+  if (!payload.documentId) {
+    return {success: false, message: 'Document ID is required'}
+  }
+
+  // Capture pre-execution state for undo functionality
+  const document = await client.getDocument(payload.documentId)
+  if (!document) {
+    return {success: false, message: `Document not found: ${payload.documentId}`}
+  }
+
+  await client.delete(payload.documentId)
+
+  return {
+    success: true,
+    documentId: payload.documentId,
+    message: `Deleted document ${payload.documentId}`,
+    preState: clone(document),
+  }
+}
+
+/**
+ * Publish the draft of a document
+ * The draft replaces the published version, guarded by both revisions
+ */
+export async function publishDocument(client: SanityClient, payload: ActionPayload): Promise<ActionResult> {
+  if (!payload.documentId) {
+    return {success: false, message: 'Document ID is required'}
+  }
+
+  const publishedId = payload.documentId.replace(/^drafts\./, '')
+  const draftId = `drafts.${publishedId}`
+
+  try {
+    const [draft, published] = await Promise.all([
+      client.getDocument(draftId),
+      client.getDocument(publishedId),
+    ])
+
+    if (!draft) {
+      return {
+        success: false,
+        message: published
+          ? `Nothing to publish: ${publishedId} has no unpublished changes`
+          : `Document not found: ${publishedId}. Please verify the document ID exists.`,
+      }
+    }
+
+    // Capture pre-execution state for undo functionality
+    const preState: PublishPreState = clone({draft, published: published ?? null})
+
+    await client.withConfig({apiVersion: ACTIONS_API_VERSION}).action({
+      actionType: 'sanity.action.document.publish',
+      draftId,
+      publishedId,
+      ifDraftRevisionId: draft._rev,
+      ...(published ? {ifPublishedRevisionId: published._rev} : {}),
+    })
+
+    const result = await client.getDocument(publishedId)
+
+    return {
+      success: true,
+      documentId: publishedId,
+      message: `Published document ${publishedId}`,
+      data: result,
+      preState,
+      revision: result?._rev,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? `Failed to publish: ${error.message}` : 'Failed to publish: Unknown error',
+    }
+  }
+}
+
+/**
+ * Unpublish a document
+ * The published version is removed and its content kept as a draft
+ */
+export async function unpublishDocument(client: SanityClient, payload: ActionPayload): Promise<ActionResult> {
+  if (!payload.documentId) {
+    return {success: false, message: 'Document ID is required'}
+  }
+
+  const publishedId = payload.documentId.replace(/^drafts\./, '')
+  const draftId = `drafts.${publishedId}`
+
+  try {
+    const published = await client.getDocument(publishedId)
+    if (!published) {
+      return {success: false, message: `Published document ${publishedId} not found`}
+    }
+
+    // Capture pre-execution state for undo functionality
+    const preState = clone(published)
+
+    await client.withConfig({apiVersion: ACTIONS_API_VERSION}).action({
+      actionType: 'sanity.action.document.unpublish',
+      draftId,
+      publishedId,
+    })
+
+    return {
+      success: true,
+      documentId: draftId,
+      message: `Unpublished document. Draft preserved at ${draftId}`,
+      preState,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? `Failed to unpublish: ${error.message}` : 'Failed to unpublish: Unknown error',
+    }
+  }
+}
+
+/**
+ * Discard the draft of a document, keeping the published version as it is
+ * A document that was never published no longer exists afterwards.
+ */
+export async function discardDraft(client: SanityClient, payload: ActionPayload): Promise<ActionResult> {
+  if (!payload.documentId) {
+    return {success: false, message: 'Document ID is required'}
+  }
+
+  const publishedId = payload.documentId.replace(/^drafts\./, '')
+  const draftId = `drafts.${publishedId}`
+
+  try {
+    const [draft, published] = await Promise.all([
+      client.getDocument(draftId),
+      client.getDocument(publishedId),
+    ])
+    if (!draft) {
+      return {success: false, message: `Nothing to discard: ${publishedId} has no draft`}
+    }
+
+    // Capture pre-execution state for undo functionality
+    const preState = clone(draft)
+
+    await client.withConfig({apiVersion: ACTIONS_API_VERSION}).action({
+      actionType: 'sanity.action.document.version.discard',
+      versionId: draftId,
+    })
+
+    return {
+      success: true,
+      documentId: published ? publishedId : draftId,
+      message: published
+        ? `Discarded draft changes. ${publishedId} is back to its published version`
+        : `Discarded draft ${draftId}. The document was never published, so it no longer exists`,
+      preState,
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? `Failed to discard draft: ${error.message}` : 'Failed to discard draft: Unknown error',
+    }
+  }
+}
+
+/**
+ * Make a request to the Scheduling API for the client's dataset
+ */
+export async function requestSchedules<T = unknown>(
+  client: SanityClient,
+  method: 'GET' | 'POST' | 'DELETE',
+  path: string,
+  body?: unknown
+): Promise<T> {
+  const {projectId, dataset} = client.config()
+  return client.withConfig({apiVersion: SCHEDULING_API_VERSION}).request<T>({
+    uri: `/schedules/${projectId}/${dataset}${path}`,
+    method,
+    body,
+  })
+}
+
+/**
+ * Schedule the draft of a document to be published at payload.publishAt
+ * The draft as it is when the schedule runs gets published, not as it is now.
+ */
+export async function schedulePublish(client: SanityClient, payload: ActionPayload): Promise<ActionResult> {
+  if (!payload.documentId) {
+    return {success: false, message: 'Document ID is required'}
+  }
+  if (!payload.publishAt) {
+    return {success: false, message: 'Publish time is required'}
+  }
+
+  const executeAt = new Date(payload.publishAt)
+  if (Number.isNaN(executeAt.getTime())) {
+    return {success: false, message: `Invalid publish time: ${payload.publishAt}. Use an ISO 8601 date-time.`}
+  }
+  if (executeAt.getTime() <= Date.now()) {
+    return {
+      success: false,
+      message: `Publish time ${executeAt.toISOString()} is in the past. Use publish to publish right away.`,
+    }
+  }
+
+  const publishedId = payload.documentId.replace(/^drafts\./, '')
+
+  try {
+    const draft = await client.getDocument(`drafts.${publishedId}`)
+    if (!draft) {
+      return {success: false, message: `Nothing to schedule: ${publishedId} has no unpublished changes`}
+    }
+
+    const name = [draft.title, draft.name].find((value): value is string => typeof value === 'string' && !!value)
+    const schedule = await requestSchedules<PublishSchedule>(client, 'POST', '', {
+      name: name || publishedId,
+      documents: [{documentId: publishedId}],
+      executeAt: executeAt.toISOString(),
+    })
+
+    return {
+      success: true,
+      documentId: publishedId,
+      message: `Scheduled ${publishedId} to be published at ${executeAt.toISOString()}`,
+      data: schedule,
+      // Pre-execution state for undo functionality - undo cancels the schedule
+      preState: clone(draft),
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error
+        ? `Failed to schedule publish: ${error.message}`
+        : 'Failed to schedule publish: Unknown error',
+    }
+  }
+}
+
+/**
+ * Maximum size of query results returned to Claude (1MB)
+ */
+const MAX_QUERY_RESULT_SIZE = 1000000
+
+/**
+ * Run a read-only GROQ query
+ * With a scope, every dataset lookup in the query is limited to the types it allows.
+ */
+export async function queryDocuments(
+  client: SanityClient,
+  payload: ActionPayload,
+  scope?: QueryScope
+): Promise<ActionResult> {
+  if (!payload.query) {
+    return {success: false, message: 'Query is required'}
+  }
+
+  const queryError = validateQuery(payload.query)
+  if (queryError) {
+    return {success: false, message: `Query validation failed: ${queryError}`}
+  }
+
+  const results = await client.fetch(scope ? scopeQuery(payload.query, scope) : payload.query)
+
+  // Limit result size to prevent large data exfiltration
+  if (JSON.stringify(results ?? null).length > MAX_QUERY_RESULT_SIZE) {
+    return {
+      success: true,
+      message: 'Query executed successfully (result truncated due to size)',
+      data: {_truncated: true, _message: 'Result exceeds 1MB limit'},
+    }
+  }
+
+  return {
+    success: true,
+    message: `Found ${Array.isArray(results) ? results.length : 1} result(s)`,
+    data: results,
+  }
+}
+
+/**
+ * Navigate to a document (returns navigation info, actual navigation is up to the caller)
+ */
+export function navigateToDocument(payload: ActionPayload): ActionResult {
+  if (!payload.documentId && !payload.path) {
+    return {success: false, message: 'Document ID or path is required'}
+  }
+
+  return {
+    success: true,
+    documentId: payload.documentId,
+    message: `Navigate to ${payload.path || payload.documentId}`,
+    data: {path: payload.path, documentId: payload.documentId},
+  }
+}
+
+/**
+ * Message for actions that target the audit log
+ */
+const AUDIT_ENTRY_DENIED_MESSAGE = 'Access denied: audit log entries cannot be changed'
+
+/**
+ * Message for actions that target the assistant's configuration or logs
+ */
+const PROTECTED_DOCUMENT_DENIED_MESSAGE =
+  'Access denied: Claude Assistant settings, API keys, budgets and logs cannot be changed'
+
+/**
+ * Execute a parsed action from Claude
+ * Access control is enforced before any mutation runs
+ */
+export async function executeAction(
+  client: SanityClient,
+  action: ParsedAction,
+  options: ExecutorOptions = {}
+): Promise<ActionResult> {
+  const result = await runAction(client, action, options)
+  if (options.audit) {
+    await recordAuditEntries(client, [{action, result}], options.audit)
+  }
+  return result
+}
+
+/**
+ * Run an action, without auditing it
+ */
+async function runAction(client: SanityClient, action: ParsedAction, options: ExecutorOptions): Promise<ActionResult> {
+  if (isAuditedAction(action.type) && isAuditEntryTarget(action)) {
+    return {success: false, message: AUDIT_ENTRY_DENIED_MESSAGE}
+  }
+
+  try {
+    if (isAuditedAction(action.type) && (await isProtectedTarget(client, action))) {
+      return {success: false, message: PROTECTED_DOCUMENT_DENIED_MESSAGE}
+    }
+    const denied = await checkAccess(client, action, options.accessControl)
+    if (denied) {
+      return {success: false, message: denied}
+    }
+  } catch (error) {
+    // Fail closed - never run a mutation without knowing the document type
+    return {
+      success: false,
+      message: `Access denied: could not verify access control (${error instanceof Error ? error.message : 'unknown error'})`,
+    }
+  }
+
+  try {
+    switch (action.type) {
+      case 'create':
+        return await createDocument(client, action.payload, options)
+      case 'update':
+        return await updateDocument(client, action.payload, options)
+      case 'patch':
+        return await patchDocument(client, action.payload, options)
+      case 'delete':
+        return await deleteDocument(client, action.payload)
+      case 'publish':
+        return await publishDocument(client, action.payload)
+      case 'unpublish':
+        return await unpublishDocument(client, action.payload)
+      case 'discardDraft':
+        return await discardDraft(client, action.payload)
+      case 'schedulePublish':
+        return await schedulePublish(client, action.payload)
+      case 'query':
+        return await queryDocuments(client, action.payload, options.queryScope)
+      case 'navigate':
+        return navigateToDocument(action.payload)
+      case 'explain':
+        return {
+          success: true,
+          message: action.payload.explanation || 'No explanation provided',
+          data: {explanation: action.payload.explanation},
+        }
+      case 'uploadImage':
+      case 'fetchFigmaFrame':
+      case 'uploadFigmaImage':
+      case 'createPinboard':
+        return {success: false, message: `${action.type} actions can only run in Sanity Studio`}
+      default:
+        return {success: false, message: `Unknown action type: ${action.type}`}
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+    }
+  }
+}
+
+/**
+ * Get the draft a batch action writes to, as it was before the batch
+ *
+ * The first write to a draft is guarded by its revision (ifRevisionId), or - when only
+ * the published version exists - creates the draft from it inside the transaction,
+ * guarded by the published revision.
+ * Drafts already staged by earlier actions are tracked in drafts, keyed by draft ID.
+ * Returns null if neither version exists.
+ */
+async function stageDraft(
+  client: SanityClient,
+  documentId: string,
+  transaction: Transaction,
+  drafts: Map<string, SanityDocument>
+): Promise<{draft: SanityDocument; ifRevisionId?: string} | null> {
+  const baseId = documentId.replace(/^drafts\./, '')
+  const draftId = `drafts.${baseId}`
+
+  const staged = drafts.get(draftId)
+  if (staged) {
+    return {draft: staged}
+  }
+
+  const existing = await client.getDocument(draftId)
+  if (existing) {
+    drafts.set(draftId, existing)
+    return {draft: existing, ifRevisionId: existing._rev}
+  }
+
+  const published = await client.getDocument(baseId)
+  if (!published) {
+    return null
+  }
+  // The draft is created from the published version as it was read: the transaction
+  // fails if that version was published over, or a draft was created, in the meantime
+  const draft = {...published, _id: draftId}
+  transaction.create(draft)
+  transaction.patch(baseId, (patch) => patch.ifRevisionId(published._rev))
+  drafts.set(draftId, draft)
+  return {draft}
+}
+
+/**
+ * Validate one batch action and add its mutations to the batch transaction
+ * Returns the staged action, or an error message
+ */
+async function stageBatchAction(
+  client: SanityClient,
+  action: ParsedAction,
+  transaction: Transaction,
+  drafts: Map<string, SanityDocument>,
+  options: ExecutorOptions
+): Promise<StagedAction | {error: string}> {
+  const {payload} = action
+  switch (action.type) {
+    case 'create': {
+      const prepared = prepareCreateFields(payload)
+      if ('error' in prepared || !payload.documentType) {
+        return {error: 'error' in prepared ? prepared.error : 'Document type is required'}
+      }
+      const schemaError = await options.validator?.validateCreate(payload.documentType, prepared.fields)
+      if (schemaError) {
+        return {error: schemaError}
+      }
+      const documentId = createsDrafts(options) ? `drafts.${crypto.randomUUID()}` : crypto.randomUUID()
+      transaction.create({...prepared.fields, _id: documentId, _type: payload.documentType})
+      return {documentId, preState: null, message: `Created ${payload.documentType} document`}
+    }
+
+    case 'update': {
+      const prepared = prepareUpdateFields(payload)
+      if ('error' in prepared || !payload.documentId) {
+        return {error: 'error' in prepared ? prepared.error : 'Document ID is required'}
+      }
+      const {fields} = prepared
+      const staged = await stageDraft(client, payload.documentId, transaction, drafts)
+      if (!staged) {
+        return {error: `Document not found: ${payload.documentId}. Please verify the document ID exists.`}
+      }
+      const {draft, ifRevisionId} = staged
+      const schemaError = await options.validator?.validateUpdate(draft, fields)
+      if (schemaError) {
+        return {error: schemaError}
+      }
+      transaction.patch(draft._id, (patch) => (ifRevisionId ? patch.ifRevisionId(ifRevisionId) : patch).set(fields))
+      return {documentId: draft._id, preState: clone(draft), message: 'Updated document. Changes saved to draft.'}
+    }
+
+    case 'patch': {
+      const prepared = preparePatchOperations(payload)
+      if ('error' in prepared || !payload.documentId) {
+        return {error: 'error' in prepared ? prepared.error : 'Document ID is required'}
+      }
+      const {operations} = prepared
+      const staged = await stageDraft(client, payload.documentId, transaction, drafts)
+      if (!staged) {
+        return {error: `Document not found: ${payload.documentId}. Please verify the document ID exists.`}
+      }
+      // Moved items are resolved from the draft as it was before the batch
+      const {draft, ifRevisionId} = staged
+      const schemaError = await options.validator?.validatePatch(draft, operations)
+      if (schemaError) {
+        return {error: schemaError}
+      }
+      const operationError = addPatchOperations(transaction, draft._id, operations, draft, ifRevisionId)
+      if (operationError) {
+        return {error: operationError}
+      }
+      return {
+        documentId: draft._id,
+        preState: clone(draft),
+        message: `Applied ${operations.length} patch operation${operations.length !== 1 ? 's' : ''}. Changes saved to draft.`,
+      }
+    }
+
+    case 'delete': {
+      if (!payload.documentId) {
+        return {error: 'Document ID is required'}
+      }
+      const document = await client.getDocument(payload.documentId)
+      if (!document) {
+        return {error: `Document not found: ${payload.documentId}`}
+      }
+      transaction.delete(payload.documentId)
+      return {documentId: payload.documentId, preState: clone(document), message: `Deleted document ${payload.documentId}`}
+    }
+
+    default:
+      return {error: `${action.type} actions cannot run in a batch`}
+  }
+}
+
+/**
+ * Execute several write actions as one all-or-nothing batch
+ *
+ * Every action is checked and staged first, then all of them are committed in a
+ * single transaction - if any action is denied, invalid or rejected by Sanity,
+ * nothing is written. Results are returned in action order and share a batchId.
+ */
+export async function executeBatch(
+  client: SanityClient,
+  actions: ParsedAction[],
+  options: ExecutorOptions = {}
+): Promise<ActionResult[]> {
+  const results = await runBatch(client, actions, options)
+  if (options.audit) {
+    await recordAuditEntries(
+      client,
+      actions.map((action, index) => ({action, result: results[index]})),
+      options.audit
+    )
+  }
+  return results
+}
+
+/**
+ * Run a batch, without auditing it
+ */
+async function runBatch(client: SanityClient, actions: ParsedAction[], options: ExecutorOptions): Promise<ActionResult[]> {
+  const batchId = generateBatchId()
+  const fail = (failedIndex: number, message: string): ActionResult[] =>
+    actions.map((_, index) => ({
+      success: false,
+      batchId,
+      message: index === failedIndex ? message : BATCH_NOT_APPLIED_MESSAGE,
+    }))
+
+  const transaction = client.transaction()
+  const drafts = new Map<string, SanityDocument>()
+  const staged: StagedAction[] = []
+
+  for (let i = 0; i < actions.length; i++) {
+    const action = actions[i]
+    if (!isBatchableAction(action)) {
+      return fail(i, `${action.type} actions cannot run in a batch`)
+    }
+    if (isAuditEntryTarget(action)) {
+      return fail(i, AUDIT_ENTRY_DENIED_MESSAGE)
+    }
+    try {
+      if (await isProtectedTarget(client, action)) {
+        return fail(i, PROTECTED_DOCUMENT_DENIED_MESSAGE)
+      }
+      const denied = await checkAccess(client, action, options.accessControl)
+      if (denied) {
+        return fail(i, denied)
+      }
+      const stagedAction = await stageBatchAction(client, action, transaction, drafts, options)
+      if ('error' in stagedAction) {
+        return fail(i, stagedAction.error)
+      }
+      staged.push(stagedAction)
+    } catch (error) {
+      return fail(i, error instanceof Error ? error.message : 'Unknown error occurred')
+    }
+  }
+
+  try {
+    await transaction.commit()
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+    return actions.map(() => ({
+      success: false,
+      batchId,
+      message: `Batch failed: ${errorMessage}. No changes were applied.`,
+    }))
+  }
+
+  const documents = await client.getDocuments(staged.map((stagedAction) => stagedAction.documentId))
+  return staged.map(({documentId, preState, message}, index) => ({
+    success: true,
+    batchId,
+    documentId,
+    message,
+    data: documents[index] ?? undefined,
+    preState,
+    revision: documents[index]?._rev,
+  }))
+}
@@ -0,0 +1,32 @@
+/**
+ * Claude Core
+ *
+ * Action handling shared by the Studio plugin and the remote API:
+ * action types, parsing, payload and schema validation, key generation, prompt
+ * assembly, a SanityClient-based executor, token usage accounting,
+ * monthly usage budgets, conversation summaries, the audit log,
+ * workflow pipelines, workflow parameters, prompt explanations, Claude
+ * Training instructions, action tools, the agent loop and API key scopes.
+ */
+
+export * from './types'
+export * from './keys'
+export * from './paths'
+export * from './actions'
+export * from './validation'
+export * from './schema-validation'
+export * from './access-control'
+export * from './prompt'
+export * from './executor'
+export * from './usage'
+export * from './budget'
+export * from './summary'
+export * from './audit'
+export * from './pipeline'
+export * from './workflow-parameters'
+export * from './prompt-explanation'
+export * from './portable-text'
+export * from './instructions'
+export * from './tools'
+export * from './agent'
+export * from './api-keys'
@@ -0,0 +1,561 @@
+/**
+ * Format Instructions for Claude
+ *
+ * Converts the claudeInstructions document (Claude Training) to the
+ * instructions section of the system prompt. The Studio plugin and the
+ * remote API format instructions and match their keywords the same way.
+ *
+ * Supports conditional instruction inclusion based on prompt keywords to optimize performance:
+ * - Tier 1 (always): Base capabilities
+ * - Tier 2 (always): Forbidden terms, max nesting depth, core technical rules
+ * - Tier 3 (conditional): Writing guidelines, design rules, component guidelines
+ *
+ * Guideline fields are stored as Portable Text and serialized to Markdown for Claude.
+ */
+
+import {contentToMarkdown} from './portable-text'
+import {
+  describePromptSection,
+  joinPromptSections,
+  matchPromptCategories,
+  omitPromptSection,
+  selectPromptCategories,
+} from './prompt-explanation'
+import type {PromptCategoryMatch, PromptSection} from './types'
+
+/**
+ * Portable Text block type (simplified for instructions)
+ */
+type PortableTextBlock = unknown[]
+
+/**
+ * Sanity claudeInstructions document format
+ * Guideline fields are Portable Text arrays that get serialized to Markdown
+ */
+export interface ClaudeInstructionsDocument {
+  _id: string
+  _type: 'claudeInstructions'
+  // Portable Text fields (rich text stored as array, serialized to Markdown)
+  writingGuidelines?: PortableTextBlock | string
+  brandVoice?: PortableTextBlock | string
+  designSystemRules?: PortableTextBlock | string
+  technicalConstraints?: PortableTextBlock | string
+  // Simple fields
+  forbiddenTerms?: string[]
+  preferredTerms?: Array<{
+    _key: string
+    avoid: string
+    useInstead: string
+  }>
+  componentGuidelines?: Array<{
+    _key: string
+    component: string
+    guidelines?: string
+    doNot?: string
+  }>
+  maxNestingDepth?: number
+  requiredFields?: Array<{
+    _key: string
+    component: string
+    fields?: string[]
+  }>
+  // Configurable trigger keywords for conditional instruction inclusion
+  writingKeywords?: string
+  designKeywords?: string
+  technicalKeywords?: string
+  // Section template settings
+  includeSectionTemplates?: boolean
+  sectionTemplateGuidance?: string
+}
+
+/**
+ * Section template document format (simplified for context)
+ */
+export interface SectionTemplateForContext {
+  _id: string
+  name: string
+  description?: string
+  category?: string
+  rows?: any[]
+  backgroundColor?: string
+  paddingTop?: string
+  maxWidth?: string
+  minHeight?: string
+  verticalAlign?: string
+}
+
+/**
+ * Instruction categories for conditional inclusion
+ */
+export type InstructionCategory = 'writing' | 'design' | 'technical'
+
+/**
+ * Every instruction category, in prompt order
+ */
+export const INSTRUCTION_CATEGORIES: InstructionCategory[] = ['writing', 'design', 'technical']
+
+/**
+ * Default keywords that trigger inclusion of specific instruction categories
+ * These can be overridden by the Sanity claudeInstructions document
+ */
+const DEFAULT_CATEGORY_KEYWORDS: Record<InstructionCategory, string[]> = {
+  writing: [
+    'write', 'writing', 'copy', 'text', 'content', 'heading', 'title', 'description',
+    'paragraph', 'rich text', 'blog', 'article', 'post', 'caption', 'label',
+    'tone', 'voice', 'style', 'language', 'word', 'sentence', 'grammar'
+  ],
+  design: [
+    'design', 'layout', 'section', 'row', 'column', 'spacing', 'padding', 'margin',
+    'style', 'visual', 'color', 'theme', 'grid', 'responsive', 'mobile', 'desktop',
+    'hero', 'banner', 'card', 'button', 'icon', 'image', 'slider', 'tab',
+    'background', 'overlay', 'align', 'width', 'height'
+  ],
+  technical: [
+    'nest', 'nesting', 'depth', 'schema', 'structure', 'field', 'type', 'key',
+    'sanity', 'groq', 'query', 'api', 'update', 'create', 'delete', 'duplicate',
+    'error', 'fail', 'bug', 'fix', 'constraint', 'limit', 'required'
+  ],
+}
+
+/**
+ * Parse comma-separated keywords string into array
+ */
+function parseKeywords(keywordsString?: string): string[] {
+  if (!keywordsString) return []
+  return keywordsString
+    .split(',')
+    .map((k) => k.trim().toLowerCase())
+    .filter((k) => k.length > 0)
+}
+
+/**
+ * Build category keywords map from Sanity instructions (with fallback to defaults)
+ */
+export function buildCategoryKeywords(
+  instructions?: ClaudeInstructionsDocument | null
+): Record<InstructionCategory, string[]> {
+  const writingKeywords = instructions?.writingKeywords
+    ? parseKeywords(instructions.writingKeywords)
+    : DEFAULT_CATEGORY_KEYWORDS.writing
+
+  const designKeywords = instructions?.designKeywords
+    ? parseKeywords(instructions.designKeywords)
+    : DEFAULT_CATEGORY_KEYWORDS.design
+
+  const technicalKeywords = instructions?.technicalKeywords
+    ? parseKeywords(instructions.technicalKeywords)
+    : DEFAULT_CATEGORY_KEYWORDS.technical
+
+  return {
+    writing: writingKeywords,
+    design: designKeywords,
+    technical: technicalKeywords,
+  }
+}
+
+/**
+ * Categories whose trigger keywords are set in claudeInstructions
+ */
+function getCustomKeywordCategories(instructions?: ClaudeInstructionsDocument | null): InstructionCategory[] {
+  const categories: InstructionCategory[] = []
+  if (instructions?.writingKeywords) categories.push('writing')
+  if (instructions?.designKeywords) categories.push('design')
+  if (instructions?.technicalKeywords) categories.push('technical')
+  return categories
+}
+
+/**
+ * Match the user prompt against each category's keywords, with the keywords
+ * found and why each category is included or left out
+ */
+export function matchInstructionCategories(
+  userMessage: string,
+  instructions?: ClaudeInstructionsDocument | null
+): PromptCategoryMatch<InstructionCategory>[] {
+  return matchPromptCategories(
+    userMessage,
+    buildCategoryKeywords(instructions),
+    getCustomKeywordCategories(instructions)
+  )
+}
+
+/**
+ * Detect which instruction categories are relevant based on user prompt
+ * Uses custom keywords from Sanity instructions if provided, otherwise falls back to defaults
+ */
+export function detectRelevantCategories(
+  userMessage: string,
+  instructions?: ClaudeInstructionsDocument | null
+): Set<InstructionCategory> {
+  // If no categories match, all are included (fallback for ambiguous queries)
+  return new Set(
+    matchInstructionCategories(userMessage, instructions)
+      .filter((match) => match.included)
+      .map((match) => match.category)
+  )
+}
+
+/**
+ * Category labels for section templates
+ */
+const TEMPLATE_CATEGORY_LABELS: Record<string, string> = {
+  heroes: 'Heroes',
+  features: 'Features',
+  content: 'Content',
+  testimonials: 'Testimonials',
+  ctas: 'CTAs',
+  pricing: 'Pricing',
+  faq: 'FAQ',
+  other: 'Other',
+}
+
+/**
+ * Describe the structure of a section template's content
+ * Creates a human-readable summary of what's inside
+ */
+function describeTemplateStructure(rows: any[]): string {
+  if (!rows || rows.length === 0) return 'Empty'
+
+  const parts: string[] = []
+
+  for (const row of rows) {
+    if (row._type === 'row') {
+      const columns = row.columns || []
+      const colCount = columns.length
+      const colWidths = columns
+        .map((col: any) => col?.widthDesktop || 'auto')
+        .join('/')
+
+      const blockTypes = columns
+        .flatMap((col: any) => (col?.content || []).map((block: any) => block?._type))
+        .filter(Boolean)
+
+      const uniqueBlocks = [...new Set(blockTypes)]
+      const blockSummary = uniqueBlocks.length > 0 ? uniqueBlocks.join(', ') : 'empty'
+
+      parts.push(`Row(${colCount}col ${colWidths}): [${blockSummary}]`)
+    } else if (row._type) {
+      parts.push(row._type)
+    }
+  }
+
+  return parts.join(' → ')
+}
+
+/**
+ * Format section templates for inclusion in Claude's context
+ */
+export function formatSectionTemplatesForClaude(
+  templates: SectionTemplateForContext[],
+  guidance?: string
+): string {
+  if (!templates || templates.length === 0) {
+    return ''
+  }
+
+  const parts: string[] = []
+  parts.push('## Available Section Templates')
+  parts.push('')
+  parts.push('When building new sections, consider using these pre-built templates. You can suggest applying a template by telling the user which template matches their needs, then they can apply it from the Section\'s template selector.')
+  parts.push('')
+
+  // Add custom guidance if provided
+  if (guidance) {
+    parts.push('### Template Usage Guidelines')
+    parts.push(guidance)
+    parts.push('')
+  }
+
+  // Group templates by category
+  const grouped: Record<string, SectionTemplateForContext[]> = {}
+  for (const template of templates) {
+    const category = template.category || 'other'
+    if (!grouped[category]) {
+      grouped[category] = []
+    }
+    grouped[category].push(template)
+  }
+
+  // Output templates by category
+  const categoryOrder = ['heroes', 'features', 'content', 'testimonials', 'ctas', 'pricing', 'faq', 'other']
+  for (const category of categoryOrder) {
+    const categoryTemplates = grouped[category]
+    if (!categoryTemplates || categoryTemplates.length === 0) continue
+
+    const categoryLabel = TEMPLATE_CATEGORY_LABELS[category] || category
+    parts.push(`### ${categoryLabel}`)
+    parts.push('')
+
+    for (const template of categoryTemplates) {
+      parts.push(`**${template.name}**`)
+      if (template.description) {
+        parts.push(`- Description: ${template.description}`)
+      }
+
+      // Settings summary
+      const settings: string[] = []
+      if (template.backgroundColor) settings.push(`bg: ${template.backgroundColor}`)
+      if (template.paddingTop) settings.push(`padding: ${template.paddingTop}`)
+      if (template.maxWidth && template.maxWidth !== 'container') settings.push(`maxWidth: ${template.maxWidth}`)
+      if (template.minHeight && template.minHeight !== 'auto') settings.push(`minHeight: ${template.minHeight}`)
+      if (settings.length > 0) {
+        parts.push(`- Settings: ${settings.join(', ')}`)
+      }
+
+      // Structure summary
+      if (template.rows && template.rows.length > 0) {
+        const structure = describeTemplateStructure(template.rows)
+        parts.push(`- Structure: ${structure}`)
+      }
+
+      parts.push('')
+    }
+  }
+
+  return parts.join('\n')
+}
+
+/**
+ * Get default instructions when none are configured
+ */
+export function getDefaultInstructions(): string {
+  return `## Default Guidelines
+- Use clear, concise language
+- Follow the schema structure
+- Build pages incrementally
+- Maximum nesting depth: 12 levels
+- Follow proper heading hierarchy (h1 -> h2 -> h3)
+- Set meaningful titles and slugs for SEO
+- Include alt text for images
+`
+}
+
+/**
+ * Options for formatting instructions
+ */
+export interface FormatInstructionsOptions {
+  /** User message for conditional category detection */
+  userMessage?: string
+  /** Force include all categories (bypass conditional logic) */
+  includeAll?: boolean
+  /** Section templates to include in context (when design category is relevant) */
+  sectionTemplates?: SectionTemplateForContext[]
+  /** Categories decided by the caller, e.g. requested explicitly (bypasses keyword detection) */
+  categories?: PromptCategoryMatch<InstructionCategory>[]
+}
+
+/**
+ * Instruction sections with the category decisions behind them
+ */
+export interface InstructionsExplanation {
+  /** The formatted instructions, as returned by formatInstructionsForClaude */
+  content: string
+  sections: PromptSection[]
+  categories: PromptCategoryMatch<InstructionCategory>[]
+}
+
+/**
+ * Display names of the instruction categories
+ */
+const CATEGORY_TITLES: Record<InstructionCategory, string> = {
+  writing: 'Writing',
+  design: 'Design',
+  technical: 'Technical',
+}
+
+/**
+ * Format instructions from Sanity document for Claude
+ *
+ * When userMessage is provided, uses keyword detection to only include relevant
+ * instruction categories. This optimizes prompt size and improves performance.
+ *
+ * Tier 1 (always included): Core capabilities context
+ * Tier 2 (always included): Forbidden terms, max nesting depth, technical constraints
+ * Tier 3 (conditional): Writing guidelines, design rules, component guidelines
+ */
+export function formatInstructionsForClaude(
+  instructions: ClaudeInstructionsDocument | null,
+  options?: FormatInstructionsOptions
+): string {
+  return explainInstructionsForClaude(instructions, options).content
+}
+
+/**
+ * Format instructions as formatInstructionsForClaude does, and describe each
+ * section: included, left out because its category did not match, or not configured
+ */
+export function explainInstructionsForClaude(
+  instructions: ClaudeInstructionsDocument | null,
+  options?: FormatInstructionsOptions
+): InstructionsExplanation {
+  if (!instructions) {
+    const defaults = getDefaultInstructions()
+    return {
+      content: defaults,
+      sections: [describePromptSection('Default Guidelines', [defaults], 'No Claude Training document is published')],
+      categories: [],
+    }
+  }
+
+  // Detect relevant categories if userMessage provided
+  // Pass instructions so custom keywords from Sanity can be used
+  const categories = options?.categories
+    ? options.categories
+    : options?.userMessage && !options?.includeAll
+      ? matchInstructionCategories(options.userMessage, instructions)
+      : selectPromptCategories(
+          INSTRUCTION_CATEGORIES,
+          INSTRUCTION_CATEGORIES,
+          options?.includeAll ? 'All categories were requested' : 'No message to match, so every category is included',
+          ''
+        )
+
+  // Conditional sections follow their category; lines are null when the section is not configured
+  const conditionalSection = (
+    title: string,
+    category: InstructionCategory,
+    lines: string[] | null,
+    emptyReason = 'Not configured in Claude Training'
+  ): PromptSection => {
+    const match = categories.find((entry) => entry.category === category)!
+    if (!match.included) {
+      return omitPromptSection(title, `${CATEGORY_TITLES[category]}: ${match.reason}`, {category})
+    }
+    if (!lines) {
+      return omitPromptSection(title, emptyReason, {category})
+    }
+    return describePromptSection(title, lines, `${CATEGORY_TITLES[category]}: ${match.reason}`, {
+      category,
+    })
+  }
+
+  const sections: PromptSection[] = []
+
+  // --- TIER 2: Always include (essential for safe operation) ---
+
+  // Forbidden Terms (always include - critical for brand safety)
+  if (instructions.forbiddenTerms && instructions.forbiddenTerms.length > 0) {
+    sections.push(
+      describePromptSection(
+        'Forbidden Terms',
+        [
+          '## Forbidden Terms (ALWAYS FOLLOW)',
+          ...instructions.forbiddenTerms.map((term) => `- Never use: "${term}"`),
+          '',
+        ],
+        'Always included for brand safety'
+      )
+    )
+  } else {
+    sections.push(omitPromptSection('Forbidden Terms', 'Not configured in Claude Training'))
+  }
+
+  // Max Nesting Depth (always include - critical for technical safety)
+  const maxNesting = instructions.maxNestingDepth || 12
+  sections.push(
+    describePromptSection(
+      'Core Technical Constraints',
+      [
+        '## Core Technical Constraints',
+        `- Maximum nesting depth: ${maxNesting} levels`,
+        '- Build pages incrementally to avoid depth limits',
+        '',
+      ],
+      'Always included for technical safety'
+    )
+  )
+
+  // --- TIER 3: Conditional based on detected categories ---
+
+  // Writing Guidelines (conditional)
+  const writingContent = contentToMarkdown(instructions.writingGuidelines)
+  sections.push(
+    conditionalSection('Writing Guidelines', 'writing', writingContent ? ['## Writing Guidelines', writingContent, ''] : null)
+  )
+
+  // Brand Voice
+  const brandVoiceContent = contentToMarkdown(instructions.brandVoice)
+  sections.push(
+    conditionalSection('Brand Voice', 'writing', brandVoiceContent ? ['### Brand Voice', brandVoiceContent, ''] : null)
+  )
+
+  // Preferred Terms
+  sections.push(
+    conditionalSection(
+      'Preferred Terms',
+      'writing',
+      instructions.preferredTerms && instructions.preferredTerms.length > 0
+        ? [
+            '### Preferred Terms',
+            ...instructions.preferredTerms.map((term) => `- Instead of "${term.avoid}", use "${term.useInstead}"`),
+            '',
+          ]
+        : null
+    )
+  )
+
+  // Design System Rules (conditional)
+  const designContent = contentToMarkdown(instructions.designSystemRules)
+  sections.push(
+    conditionalSection('Design System Rules', 'design', designContent ? ['## Design System Rules', designContent, ''] : null)
+  )
+
+  // Component Guidelines
+  sections.push(
+    conditionalSection(
+      'Component Guidelines',
+      'design',
+      instructions.componentGuidelines && instructions.componentGuidelines.length > 0
+        ? [
+            '### Component Guidelines',
+            ...instructions.componentGuidelines.flatMap((comp) => [
+              `**${comp.component}**`,
+              ...(comp.guidelines ? [`- Guidelines: ${comp.guidelines}`] : []),
+              ...(comp.doNot ? [`- Avoid: ${comp.doNot}`] : []),
+              '',
+            ]),
+          ]
+        : null
+    )
+  )
+
+  // Section Templates (when enabled and templates provided)
+  if (instructions.includeSectionTemplates === false) {
+    sections.push(omitPromptSection('Section Templates', 'Turned off in Claude Training', {category: 'design'}))
+  } else {
+    const templateContext =
+      options?.sectionTemplates && options.sectionTemplates.length > 0
+        ? formatSectionTemplatesForClaude(options.sectionTemplates, instructions.sectionTemplateGuidance)
+        : ''
+    sections.push(
+      conditionalSection('Section Templates', 'design', templateContext ? [templateContext] : null, 'No section templates')
+    )
+  }
+
+  // Technical Constraints (conditional - detailed technical info)
+  const technicalContent = contentToMarkdown(instructions.technicalConstraints)
+  sections.push(
+    conditionalSection(
+      'Technical Constraints',
+      'technical',
+      technicalContent ? ['## Technical Constraints', technicalContent, ''] : null
+    )
+  )
+
+  // Required Fields
+  sections.push(
+    conditionalSection(
+      'Required Fields',
+      'technical',
+      instructions.requiredFields && instructions.requiredFields.length > 0
+        ? [
+            '### Required Fields',
+            ...instructions.requiredFields.map((rule) => `- ${rule.component}: ${rule.fields?.join(', ') || 'None specified'}`),
+            '',
+          ]
+        : null
+    )
+  )
+
+  return {content: joinPromptSections(sections), sections, categories}
+}
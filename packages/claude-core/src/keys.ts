@@ -0,0 +1,67 @@
+/**
+ * Array Item Keys
+ *
+ * Generates the _key values Sanity needs on every object in an array.
+ * Keys are added where Claude left them out; _type values are never guessed,
+ * because most arrays accept more than one type - see findUntypedItem.
+ */
+
+/**
+ * Generate a random key for Sanity array items
+ */
+export function generateKey(): string {
+  return Math.random().toString(36).substring(2, 12)
+}
+
+/**
+ * Give every object inside an array a _key if it has none, at any depth.
+ * Returns a copy; the value passed in is left unchanged.
+ */
+export function ensureKeys<T>(value: T): T {
+  return addKeys(value, false) as T
+}
+
+function addKeys(value: unknown, isArrayItem: boolean): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => addKeys(item, true))
+  }
+
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {}
+    for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+      result[key] = addKeys(nested, false)
+    }
+    if (isArrayItem && !result._key) {
+      result._key = generateKey()
+    }
+    return result
+  }
+
+  return value
+}
+
+/**
+ * Find an object inside an array that is missing _type or uses "object" as its type
+ * Returns an error message, or null if every array item is typed
+ */
+export function findUntypedItem(value: unknown, path: string): string | null {
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      const item = value[i]
+      if (item && typeof item === 'object' && !Array.isArray(item)) {
+        const type = (item as Record<string, unknown>)._type
+        if (!type || type === 'object') {
+          return `Missing or invalid "_type" at ${path}[${i}]. Every object in an array needs a specific _type like "section", "row", "column" or "headingBlock".`
+        }
+      }
+      const nestedError = findUntypedItem(item, `${path}[${i}]`)
+      if (nestedError) return nestedError
+    }
+  } else if (value && typeof value === 'object') {
+    for (const [key, nested] of Object.entries(value as Record<string, unknown>)) {
+      const nestedError = findUntypedItem(nested, path ? `${path}.${key}` : key)
+      if (nestedError) return nestedError
+    }
+  }
+  return null
+}
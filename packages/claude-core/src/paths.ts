@@ -0,0 +1,61 @@
+/**
+ * Field Paths
+ *
+ * Helpers for _key-addressed field paths such as
+ * pageBuilder[_key=="abc123"].rows[_key=="def456"].columns
+ */
+
+export interface PathSegment {
+  field: string
+  /** _key selector on this segment, if any */
+  key?: string
+}
+
+/**
+ * Matches a path that ends with a _key selector, e.g. rows[_key=="abc123"]
+ */
+export const KEYED_ITEM_PATTERN = /\[_key=="[^"]+"\]$/
+
+/**
+ * Split a path into field segments. Returns null if the path cannot be parsed.
+ */
+export function parsePath(path: string): PathSegment[] | null {
+  const segments: PathSegment[] = []
+  for (const part of path.split('.')) {
+    const match = part.match(/^([^[]+)(?:\[_key=="([^"]+)"\])?$/)
+    if (!match) {
+      return null
+    }
+    segments.push({field: match[1], key: match[2]})
+  }
+  return segments
+}
+
+/**
+ * Find the array item with a _key in an array value
+ */
+export function findKeyedItem(value: unknown, key: string): {item: unknown; index: number} | null {
+  if (!Array.isArray(value)) return null
+  const index = value.findIndex((item) => (item as {_key?: string} | null)?._key === key)
+  return index >= 0 ? {item: value[index], index} : null
+}
+
+/**
+ * Resolve a _key-addressed path against a document
+ */
+export function getValueAtPath(doc: unknown, path: string): unknown {
+  const segments = parsePath(path)
+  if (!segments) return undefined
+
+  let current = doc
+  for (const {field, key} of segments) {
+    if (!current || typeof current !== 'object') {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[field]
+    if (key !== undefined) {
+      current = findKeyedItem(current, key)?.item
+    }
+  }
+  return current
+}
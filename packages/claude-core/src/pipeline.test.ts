@@ -0,0 +1,65 @@
+/**
+ * Workflow Pipeline and Parameter Tests
+ */
+
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import {checkStepAction, isStepActionAllowed} from './pipeline'
+import type {ParsedAction, WorkflowParameter, WorkflowStep} from './types'
+import {interpolateWorkflowPrompt, validateWorkflowParameterValues} from './workflow-parameters'
+
+const draftStep: WorkflowStep = {key: 'draft', title: 'Draft', allowedActions: ['create', 'update']}
+
+function action(type: ParsedAction['type']): ParsedAction {
+  return {id: `action-${type}`, type, description: type, status: 'pending', payload: {}}
+}
+
+describe('checkStepAction', () => {
+  it('allows the step actions and read-only actions', () => {
+    assert.equal(checkStepAction(draftStep, action('update')), null)
+    assert.equal(checkStepAction(draftStep, action('query')), null)
+  })
+
+  it('refuses other actions', () => {
+    assert.match(checkStepAction(draftStep, action('publish')) || '', /step "Draft" does not allow "publish" actions/)
+  })
+
+  it('allows every action in a step without allowed actions', () => {
+    assert.equal(isStepActionAllowed({key: 'review', title: 'Review'}, 'delete'), true)
+  })
+})
+
+describe('workflow parameters', () => {
+  const parameters: WorkflowParameter[] = [
+    {name: 'topic', title: 'Topic', type: 'text', required: true},
+    {name: 'tone', title: 'Tone', type: 'select', options: ['formal', 'casual']},
+    {name: 'page', title: 'Page', type: 'reference'},
+    {name: 'publishOn', title: 'Publish on', type: 'date'},
+  ]
+
+  it('reports unknown, missing and malformed values', () => {
+    const values = {extra: 'x', tone: 'angry', page: '*[0]', publishOn: '2026-13-40'}
+    assert.deepEqual(validateWorkflowParameterValues(parameters, values), [
+      'Unknown parameter "extra"',
+      '"Topic" is required',
+      '"Tone" must be one of: formal, casual',
+      '"Page" must be a document ID',
+      '"Publish on" must be a date (YYYY-MM-DD)',
+    ])
+    assert.deepEqual(validateWorkflowParameterValues(parameters, ['topic']), ['params must be an object of parameter values by name'])
+  })
+
+  it('accepts valid values', () => {
+    assert.deepEqual(validateWorkflowParameterValues(parameters, {topic: 'Pricing', tone: 'formal', page: 'page-1'}), [])
+  })
+
+  it('fills placeholders, dropping empty ones and keeping unknown ones', () => {
+    const prompt = interpolateWorkflowPrompt(
+      'Write about {{topic}} for {{ page }} {{tone}} {{unknown}}',
+      parameters,
+      {topic: 'Pricing', page: 'page-1'},
+      {page: 'Home'}
+    )
+    assert.equal(prompt, 'Write about Pricing for "Home" (document ID: page-1)  {{unknown}}')
+  })
+})
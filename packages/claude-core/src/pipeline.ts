@@ -0,0 +1,71 @@
+/**
+ * Workflow Pipelines
+ *
+ * A claudeWorkflow with steps runs as a pipeline: one step at a time, each
+ * with its own instructions and allowed action types. Steps marked
+ * requireApproval are gates; the pipeline only moves past them once a person
+ * approves. Shared by the Studio plugin and the remote API.
+ */
+
+import type {ActionType, ParsedAction, WorkflowStep} from './types'
+
+/**
+ * Action types that never change content, allowed in every step so Claude
+ * can look things up
+ */
+export const STEP_READ_ONLY_ACTIONS: ActionType[] = ['query', 'navigate', 'explain']
+
+/**
+ * Check if an action type may run in a step
+ */
+export function isStepActionAllowed(step: WorkflowStep, actionType: ActionType): boolean {
+  return (
+    !step.allowedActions?.length ||
+    step.allowedActions.includes(actionType) ||
+    STEP_READ_ONLY_ACTIONS.includes(actionType)
+  )
+}
+
+/**
+ * Check an action against the current step
+ * Returns an error message if the step does not allow it, or null.
+ */
+export function checkStepAction(step: WorkflowStep, action: ParsedAction): string | null {
+  if (isStepActionAllowed(step, action.type)) return null
+  return `The workflow step "${step.title}" does not allow "${action.type}" actions. Allowed: ${step.allowedActions!.join(', ')}.`
+}
+
+/**
+ * Describe the pipeline and its current step for the system prompt
+ */
+export function formatWorkflowStepForPrompt(workflowName: string, steps: WorkflowStep[], stepIndex: number): string {
+  const step = steps[stepIndex]
+  if (!step) return ''
+
+  const outline = steps
+    .map((entry, index) => {
+      const state = index < stepIndex ? 'done' : index === stepIndex ? 'current' : 'upcoming'
+      return `${index + 1}. ${entry.title} (${state}${entry.requireApproval ? ', needs approval before continuing' : ''})`
+    })
+    .join('\n')
+
+  const parts = [
+    `## Workflow Step ${stepIndex + 1} of ${steps.length}: ${step.title}`,
+    `"${workflowName}" runs in steps. Only work on the current step; the next step starts once this one is done.`,
+    outline,
+  ]
+
+  if (step.instructions) {
+    parts.push(`### Instructions for this step\n\n${step.instructions}`)
+  }
+  if (step.allowedActions?.length) {
+    parts.push(
+      `### Allowed actions\n\nIn this step you may only run ${step.allowedActions.join(', ')} actions, plus the read-only ${STEP_READ_ONLY_ACTIONS.join(', ')}. Other actions will be rejected.`
+    )
+  }
+  if (step.requireApproval) {
+    parts.push('A person reviews the result of this step before the workflow continues, so finish it with a short summary of what you did.')
+  }
+
+  return parts.join('\n\n')
+}
@@ -0,0 +1,118 @@
+/**
+ * Prompt Explanation
+ *
+ * Describes an assembled system prompt section by section: what each section
+ * contains, why it was included or left out, and roughly how many tokens it
+ * costs. The Studio prompt inspector and the remote API's ?explainPrompt=1
+ * build their prompts through these helpers, so the explanation is always the
+ * prompt that is sent.
+ */
+
+import {estimateTokens} from './summary'
+import type {PromptCategoryMatch, PromptSection, SystemPromptExplanation} from './types'
+
+/**
+ * Describe a section from the lines it adds to the prompt
+ */
+export function describePromptSection(
+  title: string,
+  lines: string[],
+  reason: string,
+  details: Pick<PromptSection, 'category' | 'sections'> = {}
+): PromptSection {
+  const content = lines.join('\n')
+  return {title, ...details, included: true, reason, content, estimatedTokens: estimateTokens(content)}
+}
+
+/**
+ * Describe a section that was left out of the prompt
+ */
+export function omitPromptSection(
+  title: string,
+  reason: string,
+  details: Pick<PromptSection, 'category'> = {}
+): PromptSection {
+  return {title, ...details, included: false, reason, content: '', estimatedTokens: 0}
+}
+
+/**
+ * Join the included sections into the prompt text, one newline apart
+ */
+export function joinPromptSections(sections: PromptSection[]): string {
+  return sections
+    .filter((section) => section.included)
+    .map((section) => section.content)
+    .join('\n')
+}
+
+/**
+ * Build the explanation of a prompt from its sections
+ */
+export function explainPromptSections<C extends string>(
+  sections: PromptSection[],
+  categories: PromptCategoryMatch<C>[]
+): SystemPromptExplanation<C> {
+  const prompt = joinPromptSections(sections)
+  return {prompt, estimatedTokens: estimateTokens(prompt), sections, categories}
+}
+
+/**
+ * Quote keywords for a reason, e.g. "hero", "layout"
+ */
+function quoteKeywords(keywords: string[]): string {
+  return keywords.map((keyword) => `"${keyword}"`).join(', ')
+}
+
+/**
+ * Match a message against each instruction category's trigger keywords
+ * A category is included when one of its keywords is in the message; when
+ * no category matches, every category is included.
+ *
+ * @param customCategories - Categories whose keywords come from claudeInstructions
+ */
+export function matchPromptCategories<C extends string>(
+  message: string,
+  categoryKeywords: Record<C, string[]>,
+  customCategories: C[] = []
+): PromptCategoryMatch<C>[] {
+  const lowerMessage = message.toLowerCase()
+  const matches = (Object.keys(categoryKeywords) as C[]).map((category) => ({
+    category,
+    matchedKeywords: categoryKeywords[category].filter((keyword) => lowerMessage.includes(keyword)),
+    customKeywords: customCategories.includes(category),
+  }))
+  const noneMatched = matches.every((match) => match.matchedKeywords.length === 0)
+
+  return matches.map((match) => {
+    const source = match.customKeywords ? 'custom' : 'default'
+    if (noneMatched) {
+      return {...match, included: true, reason: 'No category keywords are in the message, so every category is included'}
+    }
+    if (match.matchedKeywords.length > 0) {
+      return {...match, included: true, reason: `The message contains ${quoteKeywords(match.matchedKeywords)} (${source} keywords)`}
+    }
+    return {
+      ...match,
+      included: false,
+      reason: `None of its ${categoryKeywords[match.category].length} ${source} keywords are in the message`,
+    }
+  })
+}
+
+/**
+ * Describe categories chosen without keyword matching, e.g. requested by the caller
+ */
+export function selectPromptCategories<C extends string>(
+  categories: C[],
+  selected: C[],
+  includedReason: string,
+  excludedReason: string
+): PromptCategoryMatch<C>[] {
+  return categories.map((category) => ({
+    category,
+    included: selected.includes(category),
+    matchedKeywords: [],
+    customKeywords: false,
+    reason: selected.includes(category) ? includedReason : excludedReason,
+  }))
+}
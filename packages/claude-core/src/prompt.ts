@@ -0,0 +1,108 @@
+/**
+ * Prompt Assembly
+ *
+ * System prompt sections that the Studio plugin and the remote API build
+ * the same way: the available schema and the active access restrictions.
+ */
+
+import {isDocumentTypeAllowed} from './access-control'
+import type {AccessControlSettings, SchemaTypesContext} from './types'
+
+/**
+ * Maximum number of object types described in the prompt
+ */
+const MAX_PROMPT_OBJECT_TYPES = 20
+
+/**
+ * Maximum number of fields listed per object type
+ */
+const MAX_PROMPT_OBJECT_FIELDS = 10
+
+/**
+ * Format schema context as a string for Claude's system prompt
+ */
+export function formatSchemaForPrompt(context: SchemaTypesContext): string {
+  const lines: string[] = []
+
+  lines.push('# Available Document Types\n')
+  for (const docType of context.documentTypes) {
+    lines.push(`## ${docType.title} (${docType.name})`)
+    if (docType.description) {
+      lines.push(docType.description)
+    }
+    lines.push('\nFields:')
+    for (const field of docType.fields) {
+      const required = field.required ? ' (required)' : ''
+      lines.push(`- ${field.name}: ${field.type}${required}`)
+      if (field.description) {
+        lines.push(`  ${field.description}`)
+      }
+    }
+    lines.push('')
+  }
+
+  if (context.objectTypes.length > 0) {
+    lines.push('\n# Object Types\n')
+    // Limit to avoid token overflow
+    for (const objType of context.objectTypes.slice(0, MAX_PROMPT_OBJECT_TYPES)) {
+      lines.push(`## ${objType.title} (${objType.name})`)
+      if (objType.fields.length > 0) {
+        lines.push('Fields:')
+        for (const field of objType.fields.slice(0, MAX_PROMPT_OBJECT_FIELDS)) {
+          lines.push(`- ${field.name}: ${field.type}`)
+        }
+      }
+      lines.push('')
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Remove disallowed document types from the schema context so Claude
+ * is not offered types it cannot work with
+ */
+export function filterSchemaContext<T extends SchemaTypesContext>(
+  schemaContext: T,
+  settings: AccessControlSettings | null | undefined
+): T {
+  if (!settings?.allowedDocumentTypes?.length) return schemaContext
+  return {
+    ...schemaContext,
+    documentTypes: schemaContext.documentTypes.filter((dt) =>
+      isDocumentTypeAllowed(dt.name, settings)
+    ),
+  }
+}
+
+/**
+ * Describe the active access restrictions for the system prompt.
+ * Returns an empty string when nothing is restricted.
+ */
+export function formatAccessControlForPrompt(settings: AccessControlSettings | null | undefined): string {
+  if (!settings) return ''
+
+  const lines: string[] = []
+
+  if (settings.allowedDocumentTypes?.length) {
+    lines.push(`- You may ONLY create, edit or delete documents of these types: ${settings.allowedDocumentTypes.join(', ')}.`)
+  }
+  if (settings.allowedOperations?.length) {
+    lines.push(`- You may ONLY perform these operations: ${settings.allowedOperations.join(', ')}.`)
+  }
+  if (settings.blockedFields?.length) {
+    lines.push(`- NEVER write to these fields: ${settings.blockedFields.join(', ')}.`)
+  }
+  if (settings.draftsOnly) {
+    lines.push('- Work in drafts only. NEVER publish, unpublish or schedule documents and never delete published documents.')
+  }
+
+  if (lines.length === 0) return ''
+
+  return [
+    ...lines,
+    '',
+    'These restrictions are enforced when actions run - disallowed actions will fail. If the user asks for something outside them, explain that you do not have permission and suggest they contact an administrator.',
+  ].join('\n')
+}
@@ -0,0 +1,91 @@
+/**
+ * Schema Validation Tests
+ */
+
+import assert from 'node:assert/strict'
+import {describe, it} from 'node:test'
+import type {SanityClient} from '@sanity/client'
+import {createSchemaValidator, validateArrayItems, validateDocument, type ValidationSchema} from './schema-validation'
+
+const schema: ValidationSchema = {
+  types: {
+    page: {
+      name: 'page',
+      jsonType: 'object',
+      baseType: 'document',
+      fields: [
+        {name: 'title', required: true, type: {name: 'string', jsonType: 'string', baseType: 'string'}},
+        {
+          name: 'pageBuilder',
+          required: false,
+          type: {name: 'array', jsonType: 'array', baseType: 'array', of: [{ref: 'section'}]},
+        },
+        {
+          name: 'author',
+          required: false,
+          type: {name: 'reference', jsonType: 'object', baseType: 'reference', to: ['person']},
+        },
+      ],
+    },
+    section: {
+      name: 'section',
+      jsonType: 'object',
+      baseType: 'object',
+      fields: [
+        {
+          name: 'backgroundColor',
+          required: false,
+          type: {name: 'string', jsonType: 'string', baseType: 'string', list: ['primary', 'secondary']},
+        },
+      ],
+    },
+  },
+}
+
+describe('validateDocument', () => {
+  it('accepts a valid document', () => {
+    const result = validateDocument(schema, 'page', {
+      title: 'Pricing',
+      pageBuilder: [{_type: 'section', _key: 'k7m9n2p4q1', backgroundColor: 'primary'}],
+    })
+    assert.deepEqual(result.issues, [])
+  })
+
+  it('reports missing required fields, unknown fields and values outside a list', () => {
+    const result = validateDocument(schema, 'page', {
+      subtitle: 'Extra',
+      pageBuilder: [{_type: 'section', _key: 'k7m9n2p4q1', backgroundColor: 'green'}],
+    })
+    assert.deepEqual(
+      result.issues.map((issue) => issue.path),
+      ['subtitle', 'title', 'pageBuilder[_key=="k7m9n2p4q1"].backgroundColor']
+    )
+  })
+
+  it('rejects unknown document types', () => {
+    assert.equal(validateDocument(schema, 'section', {}).issues.length, 1)
+    assert.equal(validateDocument(schema, 'product', {}).issues.length, 1)
+  })
+})
+
+describe('validateArrayItems', () => {
+  it('rejects items of a type the array does not allow', () => {
+    const result = validateArrayItems(schema, {_type: 'page'}, 'pageBuilder', [{_type: 'row', _key: 'k7m9n2p4q1'}])
+    assert.match(result.issues[0].message, /"_type": "row" is not allowed here/)
+  })
+})
+
+describe('createSchemaValidator', () => {
+  it('checks that references point to existing documents of an allowed type', async () => {
+    const client = {
+      fetch: async () => [{_id: 'drafts.post-1', _type: 'post'}],
+    } as unknown as SanityClient
+    const validator = createSchemaValidator(client, schema)
+
+    const error = await validator.validateCreate('page', {
+      title: 'Pricing',
+      author: {_type: 'reference', _ref: 'post-1'},
+    })
+    assert.match(error || '', /Must reference a person document, but "post-1" is a post/)
+  })
+})
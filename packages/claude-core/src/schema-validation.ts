@@ -0,0 +1,514 @@
+/**
+ * Schema Validation
+ *
+ * Validates Claude's payloads against the Studio schema before they are written:
+ * - Array items must be one of the array's member types and carry _type and _key
+ * - Strings with an options list must use one of the listed values
+ * - Required fields must be present on new objects and documents
+ * - Unknown fields are rejected on plain objects
+ * - References must point to existing documents of an allowed type
+ *
+ * The schema is a serializable ValidationSchema: the Studio builds it from its
+ * compiled schema, and the server reads validation-schema.json, which the
+ * studio's extract-schema-context script writes from the same schema types.
+ *
+ * Every issue carries the _key-addressed path of the offending value, so Claude can correct itself.
+ */
+
+import type {SanityClient} from '@sanity/client'
+import type {SchemaValidator} from './executor'
+import {KEYED_ITEM_PATTERN} from './paths'
+import type {PatchOperation} from './types'
+
+/**
+ * A schema type as the validator needs it
+ */
+export interface ValidationSchemaType {
+  /** Type name, e.g. "page" or "link"; inline types carry their built-in type's name */
+  name: string
+  jsonType: 'string' | 'number' | 'boolean' | 'array' | 'object'
+  /** Built-in type the type is ultimately based on, e.g. "document", "object", "image", "reference" */
+  baseType: string
+  /** Object fields */
+  fields?: ValidationSchemaField[]
+  /** Array member types */
+  of?: ValidationSchemaNode[]
+  /** Allowed values of a string with an options list */
+  list?: unknown[]
+  /** Document types a reference may point to */
+  to?: string[]
+}
+
+export interface ValidationSchemaField {
+  name: string
+  required: boolean
+  type: ValidationSchemaNode
+}
+
+/**
+ * A type described in place, or a named type looked up in ValidationSchema.types
+ */
+export type ValidationSchemaNode = ValidationSchemaType | {ref: string}
+
+/**
+ * The document and object types of a schema, by name
+ */
+export interface ValidationSchema {
+  types: Record<string, ValidationSchemaType>
+}
+
+export interface SchemaValidationIssue {
+  /** Path of the offending value, using _key selectors where items have keys */
+  path: string
+  message: string
+}
+
+export interface ReferenceCheck {
+  path: string
+  /** Referenced document ID */
+  ref: string
+  /** Document types the reference may point to */
+  allowedTypes: string[]
+}
+
+export interface SchemaValidationResult {
+  issues: SchemaValidationIssue[]
+  /** References found in the payload - their targets still need to be checked */
+  references: ReferenceCheck[]
+}
+
+/**
+ * Most issues listed in one error message
+ */
+const MAX_REPORTED_ISSUES = 10
+
+/**
+ * Longest list of allowed values or types quoted in an issue
+ */
+const MAX_LISTED_OPTIONS = 12
+
+/**
+ * Base types whose objects are checked for unknown fields
+ * Images, files, slugs and other built-in objects carry fields not declared in the schema.
+ */
+const PLAIN_OBJECT_TYPES = new Set(['object', 'document'])
+
+/**
+ * Matches one path segment: a field name or a _key selector
+ */
+const PATH_SEGMENT_PATTERN = /\[_key=="([^"]+)"\]|([^.[\]]+)/g
+
+/**
+ * Look up a named type, or return a type described in place
+ */
+function resolveNode(schema: ValidationSchema, node: ValidationSchemaNode): ValidationSchemaType | undefined {
+  return 'ref' in node ? schema.types[node.ref] : node
+}
+
+/**
+ * Name an array item must carry in _type to match a member type
+ */
+function getNodeName(node: ValidationSchemaNode): string {
+  return 'ref' in node ? node.ref : node.name
+}
+
+/**
+ * Quote a list of names for an issue message
+ */
+function formatList(values: unknown[]): string {
+  const quoted = values.slice(0, MAX_LISTED_OPTIONS).map((value) => `"${value}"`)
+  return values.length > MAX_LISTED_OPTIONS ? `${quoted.join(', ')}, …` : quoted.join(', ')
+}
+
+function joinPath(path: string, field: string): string {
+  return path ? `${path}.${field}` : field
+}
+
+/**
+ * Path of an array item - by _key when it has one, by index otherwise
+ */
+function itemPath(path: string, item: unknown, index: number): string {
+  const key = item && typeof item === 'object' ? (item as {_key?: unknown})._key : undefined
+  return typeof key === 'string' ? `${path}[_key=="${key}"]` : `${path}[${index}]`
+}
+
+/**
+ * Validate a value against its schema type, recording issues and references
+ * Required fields are only enforced when checkRequired is set, i.e. for complete new objects.
+ */
+function validateValue(
+  schema: ValidationSchema,
+  type: ValidationSchemaType,
+  value: unknown,
+  path: string,
+  result: SchemaValidationResult,
+  checkRequired: boolean
+): void {
+  if (value === null || value === undefined) return
+
+  switch (type.jsonType) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        result.issues.push({path, message: `Expected a string, got ${JSON.stringify(value)}`})
+        return
+      }
+      if (type.list && !type.list.includes(value)) {
+        result.issues.push({path, message: `"${value}" is not an allowed value. Use one of: ${formatList(type.list)}`})
+      }
+      return
+    }
+
+    case 'number':
+      if (typeof value !== 'number') {
+        result.issues.push({path, message: `Expected a number, got ${JSON.stringify(value)}`})
+      }
+      return
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        result.issues.push({path, message: `Expected true or false, got ${JSON.stringify(value)}`})
+      }
+      return
+
+    case 'array':
+      validateArray(schema, type, value, path, result)
+      return
+
+    case 'object':
+      validateObject(schema, type, value, path, result, checkRequired)
+      return
+  }
+}
+
+/**
+ * Validate array items against the array's member types
+ */
+function validateArray(
+  schema: ValidationSchema,
+  type: ValidationSchemaType,
+  value: unknown,
+  path: string,
+  result: SchemaValidationResult
+): void {
+  if (!Array.isArray(value)) {
+    result.issues.push({path, message: 'Expected an array'})
+    return
+  }
+
+  const members = type.of || []
+  const memberNames = members.map(getNodeName)
+  value.forEach((item, index) => {
+    const currentPath = itemPath(path, item, index)
+
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      const member = members
+        .map((candidate) => resolveNode(schema, candidate))
+        .find((candidate) => candidate?.jsonType === typeof item)
+      if (member) {
+        validateValue(schema, member, item, currentPath, result, true)
+      } else {
+        result.issues.push({path: currentPath, message: `Expected an object of type ${formatList(memberNames)}`})
+      }
+      return
+    }
+
+    const obj = item as Record<string, unknown>
+    if (typeof obj._type !== 'string' || !obj._type) {
+      result.issues.push({path: currentPath, message: `Missing "_type". Expected one of: ${formatList(memberNames)}`})
+      return
+    }
+    if (typeof obj._key !== 'string' || !obj._key) {
+      result.issues.push({
+        path: currentPath,
+        message: 'Missing "_key". Every array item needs a unique _key (a random 10-character string like "xk7m9n2p4q")',
+      })
+    }
+
+    const memberNode = members.find((candidate) => getNodeName(candidate) === obj._type)
+    const member = memberNode && resolveNode(schema, memberNode)
+    if (!member) {
+      result.issues.push({
+        path: currentPath,
+        message: `"_type": "${obj._type}" is not allowed here. Allowed types: ${formatList(memberNames)}`,
+      })
+      return
+    }
+
+    // Portable Text blocks are normalized by the editor - only their type is checked
+    if (member.baseType === 'block') return
+
+    validateValue(schema, member, item, currentPath, result, true)
+  })
+}
+
+/**
+ * Validate an object's fields, and collect it if it is a reference
+ */
+function validateObject(
+  schema: ValidationSchema,
+  type: ValidationSchemaType,
+  value: unknown,
+  path: string,
+  result: SchemaValidationResult,
+  checkRequired: boolean
+): void {
+  const fields = type.fields || []
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    const fieldNames = fields.map((field) => field.name)
+    result.issues.push({
+      path,
+      message: `Expected an object of type "${type.name}"${fieldNames.length ? ` with fields ${formatList(fieldNames)}` : ''}`,
+    })
+    return
+  }
+
+  const obj = value as Record<string, unknown>
+
+  if (type.baseType === 'reference') {
+    if (typeof obj._ref !== 'string' || !obj._ref) {
+      result.issues.push({path, message: 'Expected a reference with the referenced document ID in "_ref"'})
+      return
+    }
+    result.references.push({path, ref: obj._ref, allowedTypes: type.to || []})
+    return
+  }
+
+  if (PLAIN_OBJECT_TYPES.has(type.baseType)) {
+    for (const key of Object.keys(obj)) {
+      if (key.startsWith('_') || fields.some((field) => field.name === key)) continue
+      result.issues.push({
+        path: joinPath(path, key),
+        message: `Unknown field "${key}" on ${type.name}. Available fields: ${formatList(fields.map((field) => field.name))}`,
+      })
+    }
+  }
+
+  for (const field of fields) {
+    const fieldValue = obj[field.name]
+    if (fieldValue === undefined || fieldValue === null) {
+      if (checkRequired && field.required) {
+        result.issues.push({path: joinPath(path, field.name), message: `Missing required field "${field.name}"`})
+      }
+      continue
+    }
+    const fieldType = resolveNode(schema, field.type)
+    if (fieldType) {
+      validateValue(schema, fieldType, fieldValue, joinPath(path, field.name), result, true)
+    }
+  }
+}
+
+/**
+ * Resolve the schema type at a _key-addressed path in a document
+ * Array items are looked up in the document to find their _type.
+ * Returns the type, or an issue describing where the path stops matching.
+ */
+export function resolvePathType(
+  schema: ValidationSchema,
+  document: {_type: string},
+  path: string
+): {type: ValidationSchemaType} | {issue: SchemaValidationIssue} {
+  const documentType = schema.types[document._type]
+  if (!documentType) {
+    return {issue: {path, message: `Unknown document type "${document._type}"`}}
+  }
+
+  let type: ValidationSchemaType = documentType
+  let value: unknown = document
+  let currentPath = ''
+  for (const match of path.matchAll(PATH_SEGMENT_PATTERN)) {
+    const [, key, fieldName] = match
+
+    if (key !== undefined) {
+      const members = type.of || []
+      const item = Array.isArray(value)
+        ? (value as Array<{_key?: string; _type?: string} | null>).find((entry) => entry?._key === key)
+        : undefined
+      currentPath = `${currentPath}[_key=="${key}"]`
+      if (type.jsonType !== 'array' || !item) {
+        return {
+          issue: {path: currentPath, message: `No item with _key "${key}" exists here. Query the document for its current keys`},
+        }
+      }
+      const memberNode =
+        members.find((candidate) => getNodeName(candidate) === item._type) ??
+        (members.length === 1 ? members[0] : undefined)
+      const member = memberNode && resolveNode(schema, memberNode)
+      if (!member) {
+        return {issue: {path: currentPath, message: `Item type "${item._type}" is not allowed in this array`}}
+      }
+      type = member
+      value = item
+      continue
+    }
+
+    const fields = type.jsonType === 'object' ? type.fields || [] : []
+    const field = fields.find((candidate) => candidate.name === fieldName)
+    const fieldType = field && resolveNode(schema, field.type)
+    currentPath = joinPath(currentPath, fieldName)
+    if (!fieldType) {
+      const available = fields.map((candidate) => candidate.name)
+      return {
+        issue: {
+          path: currentPath,
+          message: available.length
+            ? `Unknown field "${fieldName}" on ${type.name}. Available fields: ${formatList(available)}`
+            : `"${fieldName}" cannot be addressed on a ${type.jsonType} value`,
+        },
+      }
+    }
+    type = fieldType
+    value = value && typeof value === 'object' ? (value as Record<string, unknown>)[fieldName] : undefined
+  }
+
+  return {type}
+}
+
+/**
+ * Validate the fields of a new document
+ */
+export function validateDocument(
+  schema: ValidationSchema,
+  documentType: string,
+  fields: Record<string, unknown>
+): SchemaValidationResult {
+  const result: SchemaValidationResult = {issues: [], references: []}
+  const type = schema.types[documentType]
+  if (!type || type.baseType !== 'document') {
+    result.issues.push({path: '_type', message: `Unknown document type "${documentType}"`})
+    return result
+  }
+  validateValue(schema, type, fields, '', result, true)
+  return result
+}
+
+/**
+ * Validate the values an update sets, keyed by field path, in an existing document
+ */
+export function validateFieldUpdates(
+  schema: ValidationSchema,
+  document: {_type: string},
+  fields: Record<string, unknown>
+): SchemaValidationResult {
+  const result: SchemaValidationResult = {issues: [], references: []}
+  for (const [fieldPath, value] of Object.entries(fields)) {
+    const resolved = resolvePathType(schema, document, fieldPath)
+    if ('issue' in resolved) {
+      result.issues.push(resolved.issue)
+      continue
+    }
+    validateValue(schema, resolved.type, value, fieldPath, result, true)
+  }
+  return result
+}
+
+/**
+ * Validate items added to an array in an existing document
+ * arrayPath points to the array itself, e.g. pageBuilder[_key=="abc"].rows
+ */
+export function validateArrayItems(
+  schema: ValidationSchema,
+  document: {_type: string},
+  arrayPath: string,
+  items: unknown[]
+): SchemaValidationResult {
+  const result: SchemaValidationResult = {issues: [], references: []}
+  const resolved = resolvePathType(schema, document, arrayPath)
+  if ('issue' in resolved) {
+    result.issues.push(resolved.issue)
+  } else if (resolved.type.jsonType !== 'array') {
+    result.issues.push({path: arrayPath, message: 'Items can only be added to an array'})
+  } else {
+    validateArray(schema, resolved.type, items, arrayPath, result)
+  }
+  return result
+}
+
+/**
+ * Validate the items that patch operations add against the arrays they are added to
+ */
+export function validatePatchItems(
+  schema: ValidationSchema,
+  document: {_type: string},
+  operations: PatchOperation[]
+): SchemaValidationResult {
+  return mergeValidationResults(
+    ...operations
+      .filter((operation) => operation.op === 'insert' || operation.op === 'append' || operation.op === 'replace')
+      .map((operation) => {
+        const arrayPath = operation.op === 'append' ? operation.path : operation.path.replace(KEYED_ITEM_PATTERN, '')
+        return validateArrayItems(schema, document, arrayPath, operation.items || [])
+      })
+  )
+}
+
+/**
+ * Combine several validation results
+ */
+export function mergeValidationResults(...results: SchemaValidationResult[]): SchemaValidationResult {
+  return {
+    issues: results.flatMap((result) => result.issues),
+    references: results.flatMap((result) => result.references),
+  }
+}
+
+/**
+ * Format issues as one error message for Claude, or null if there are none
+ */
+export function formatSchemaIssues(issues: SchemaValidationIssue[]): string | null {
+  if (issues.length === 0) return null
+  const lines = issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => `- ${issue.path || '(document)'}: ${issue.message}`)
+  if (issues.length > MAX_REPORTED_ISSUES) {
+    lines.push(`- …and ${issues.length - MAX_REPORTED_ISSUES} more`)
+  }
+  return `The payload does not match the schema:\n${lines.join('\n')}\nFix these fields and try again.`
+}
+
+/**
+ * Check a validation result, including whether referenced documents exist
+ * and have an allowed type. Returns an error message for Claude, or null if valid.
+ */
+export async function checkSchemaValidation(
+  client: SanityClient,
+  result: SchemaValidationResult
+): Promise<string | null> {
+  const issues: SchemaValidationIssue[] = [...result.issues]
+
+  if (result.references.length > 0) {
+    const ids = [...new Set(result.references.map((reference) => reference.ref.replace(/^drafts\./, '')))]
+    const targets = await client.fetch<Array<{_id: string; _type: string}>>(
+      '*[_id in $ids || _id in $draftIds]{_id, _type}',
+      {ids, draftIds: ids.map((id) => `drafts.${id}`)}
+    )
+    const targetTypes = new Map(targets.map((target) => [target._id.replace(/^drafts\./, ''), target._type]))
+
+    for (const reference of result.references) {
+      const targetType = targetTypes.get(reference.ref.replace(/^drafts\./, ''))
+      if (!targetType) {
+        issues.push({
+          path: reference.path,
+          message: `Referenced document "${reference.ref}" does not exist. Query for the real _id first`,
+        })
+      } else if (reference.allowedTypes.length > 0 && !reference.allowedTypes.includes(targetType)) {
+        issues.push({
+          path: reference.path,
+          message: `Must reference a ${reference.allowedTypes.join(' or ')} document, but "${reference.ref}" is a ${targetType}`,
+        })
+      }
+    }
+  }
+
+  return formatSchemaIssues(issues)
+}
+
+/**
+ * Build the executor's validator for a schema
+ * Writes are checked against the schema, and references against the dataset the client reads.
+ */
+export function createSchemaValidator(client: SanityClient, schema: ValidationSchema): SchemaValidator {
+  return {
+    validateCreate: (documentType, fields) => checkSchemaValidation(client, validateDocument(schema, documentType, fields)),
+    validateUpdate: (document, fields) => checkSchemaValidation(client, validateFieldUpdates(schema, document, fields)),
+    validatePatch: (document, operations) => checkSchemaValidation(client, validatePatchItems(schema, document, operations)),
+  }
+}
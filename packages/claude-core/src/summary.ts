@@ -0,0 +1,108 @@
+/**
+ * Conversation Summaries
+ *
+ * Token-aware compaction of long conversations. Once the history sent to
+ * Claude passes a threshold, its older messages are replaced by a summary
+ * that keeps the document IDs, array _keys, decisions and open tasks later
+ * turns rely on. The Studio plugin stores the summary on the conversation;
+ * the remote API returns it for the client to send back.
+ */
+
+import type {SummaryMessage} from './types'
+
+/**
+ * Estimated history size, in tokens, past which older messages are summarized
+ */
+export const DEFAULT_SUMMARY_THRESHOLD_TOKENS = 60000
+
+/**
+ * Most recent messages always sent verbatim
+ */
+export const SUMMARY_KEEP_RECENT_MESSAGES = 10
+
+/**
+ * Maximum tokens for a generated summary
+ */
+export const SUMMARY_MAX_TOKENS = 2048
+
+/**
+ * Rough characters per token for English text and JSON
+ */
+const CHARS_PER_TOKEN = 4
+
+/**
+ * Estimate the tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Estimate the tokens in a message history
+ */
+export function estimateHistoryTokens(messages: SummaryMessage[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message.content), 0)
+}
+
+/**
+ * Number of leading messages to summarize, or 0 when the history fits
+ * The kept messages start with a user message that does not answer a tool call.
+ */
+export function findCompactionPoint(
+  messages: SummaryMessage[],
+  thresholdTokens: number = DEFAULT_SUMMARY_THRESHOLD_TOKENS,
+  keepRecent: number = SUMMARY_KEEP_RECENT_MESSAGES
+): number {
+  if (messages.length <= keepRecent || estimateHistoryTokens(messages) <= thresholdTokens) {
+    return 0
+  }
+
+  for (let index = messages.length - keepRecent; index > 0; index--) {
+    const message = messages[index]
+    if (message.role === 'user' && !message.continuesToolCall) {
+      return index
+    }
+  }
+  return 0
+}
+
+/**
+ * Build the request that asks Claude to summarize messages
+ * A previous summary is folded in, so each summary covers the whole conversation so far.
+ */
+export function buildSummaryPrompt(messages: SummaryMessage[], previousSummary?: string): string {
+  const transcript = messages
+    .map((message) => `${message.role === 'user' ? 'User' : 'Claude'}: ${message.content.trim()}`)
+    .join('\n\n')
+
+  const previous = previousSummary
+    ? `Summary of the conversation before these messages:\n<summary>\n${previousSummary.trim()}\n</summary>\n\n`
+    : ''
+
+  return `You are compacting a conversation between a user and Claude, an assistant that edits content in a Sanity CMS. The summary replaces these messages in Claude's context, so Claude must be able to continue the work from it alone.
+
+${previous}Messages to summarize:
+<transcript>
+${transcript}
+</transcript>
+
+Write a concise summary in Markdown with these sections:
+- **Documents**: every document ID Claude created, changed or looked up, with its type and what it is. Copy IDs exactly.
+- **Keys**: array item _key values Claude has seen or used, with the document and field they belong to. Copy keys exactly.
+- **Decisions**: choices the user made or approved, including content, structure and style decisions.
+- **Pending tasks**: work that was requested but not finished, and open questions.
+- **Context**: anything else needed to continue, such as the user's goal and constraints.
+
+Leave out a section when it has nothing to list. Respond with the summary only.`
+}
+
+/**
+ * Format a summary for the system prompt
+ */
+export function formatSummaryForPrompt(summary: string): string {
+  return `## Summary of Earlier Conversation
+
+The earlier part of this conversation was summarized to save context. The messages below continue from it. Treat the document IDs and _keys listed here as known.
+
+${summary.trim()}`
+}
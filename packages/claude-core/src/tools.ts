@@ -0,0 +1,369 @@
+/**
+ * Action Tools
+ *
+ * Declares every ActionType as a native Claude tool with a JSON schema. The
+ * Studio plugin, the remote API and the MCP server offer these same
+ * definitions, each picking the action types it supports.
+ */
+
+import {isDestructiveActionType} from './actions'
+import {isReadOnlyActionType} from './agent'
+import {isStepActionAllowed} from './pipeline'
+import type {ActionType, AgentActionResult, ParsedAction, ToolDefinition, ToolResultBlock, WorkflowStep} from './types'
+
+/**
+ * Human-readable summary of the action - required on every tool
+ */
+const DESCRIPTION_PROPERTY = {
+  type: 'string',
+  description: 'Short human-readable description of what this action does, shown to the user',
+}
+
+/**
+ * Field values to write - supports _key-addressed paths for nested updates
+ */
+const FIELDS_PROPERTY = {
+  type: 'object',
+  description:
+    'Field values to write. Keys are field names or _key-addressed paths like pageBuilder[_key=="abc123"].rows[_key=="def456"].columns[_key=="ghi789"].content. Every object inside an array needs both _type and _key.',
+  additionalProperties: true,
+}
+
+/**
+ * Tool definitions for every action type
+ */
+const ACTION_TOOLS: Record<ActionType, ToolDefinition> = {
+  create: {
+    name: 'create',
+    description: 'Create a new document. Include _type and _key on every nested array item.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        documentType: {type: 'string', description: 'Schema type of the new document, e.g. "page"'},
+        fields: FIELDS_PROPERTY,
+      },
+      required: ['description', 'documentType', 'fields'],
+    },
+  },
+  update: {
+    name: 'update',
+    description:
+      'Set fields on an existing document (changes are written to its draft). Use the real _id and _key values from a query result or the provided context - never guess them or use numeric indices.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        documentId: {type: 'string', description: 'The real _id of the document from a query result'},
+        fields: FIELDS_PROPERTY,
+      },
+      required: ['description', 'documentId', 'fields'],
+    },
+  },
+  patch: {
+    name: 'patch',
+    description:
+      'Apply fine-grained changes to arrays and numbers in an existing document (written to its draft) - insert, append, replace, unset, move or inc. All operations apply together or not at all. Prefer this over update when adding, removing or reordering array items. Query the document first so every _key in a path is real.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        documentId: {type: 'string', description: 'The real _id of the document from a query result'},
+        operations: {
+          type: 'array',
+          description: 'Operations applied in order',
+          items: {
+            type: 'object',
+            properties: {
+              op: {
+                type: 'string',
+                enum: ['insert', 'append', 'replace', 'unset', 'move', 'inc'],
+                description:
+                  'insert: add items before/after the item at path. append: add items to the end of the array at path. replace: swap the item at path for items. unset: remove the field or item at path. move: move the item at path before/after target. inc: add amount to the number at path.',
+              },
+              path: {
+                type: 'string',
+                description:
+                  'Field path with _key selectors, e.g. pageBuilder[_key=="abc123"] for an item or pageBuilder[_key=="abc123"].rows for an array',
+              },
+              position: {type: 'string', enum: ['before', 'after'], description: 'For insert and move'},
+              target: {type: 'string', description: 'For move: _key-addressed path of the item to move next to'},
+              items: {
+                type: 'array',
+                items: {type: 'object', additionalProperties: true},
+                description: 'For insert, append and replace: items to add, each with _type and _key',
+              },
+              amount: {type: 'number', description: 'For inc: amount to add (negative to decrement)'},
+            },
+            required: ['op', 'path'],
+          },
+        },
+      },
+      required: ['description', 'documentId', 'operations'],
+    },
+  },
+  delete: {
+    name: 'delete',
+    description: 'Delete a document.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        documentId: {type: 'string', description: 'The _id of the document to delete'},
+      },
+      required: ['description', 'documentId'],
+    },
+  },
+  publish: {
+    name: 'publish',
+    description: 'Publish the draft of a document so its changes go live. Only use when the user asks to publish.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        documentId: {type: 'string', description: 'The _id of the document to publish (with or without the drafts. prefix)'},
+      },
+      required: ['description', 'documentId'],
+    },
+  },
+  unpublish: {
+    name: 'unpublish',
+    description: 'Take a published document offline. Its content is kept as a draft.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        documentId: {type: 'string', description: 'The _id of the published document'},
+      },
+      required: ['description', 'documentId'],
+    },
+  },
+  discardDraft: {
+    name: 'discardDraft',
+    description: 'Throw away the unpublished draft changes of a document, leaving the published version as it is.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        documentId: {type: 'string', description: 'The _id of the document whose draft should be discarded'},
+      },
+      required: ['description', 'documentId'],
+    },
+  },
+  schedulePublish: {
+    name: 'schedulePublish',
+    description:
+      'Schedule the draft of a document to be published at a future date and time. Resolve relative times like "Monday 9am" against the current date and the user\'s time zone.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        documentId: {type: 'string', description: 'The _id of the document to publish'},
+        publishAt: {
+          type: 'string',
+          description: 'When to publish, as an ISO 8601 date-time with time zone offset, e.g. 2026-03-02T09:00:00-05:00',
+        },
+      },
+      required: ['description', 'documentId', 'publishAt'],
+    },
+  },
+  query: {
+    name: 'query',
+    description:
+      'Run a read-only GROQ query. Runs automatically and the results are sent back to you. Always project _id and _type.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        query: {type: 'string', description: 'GROQ query, e.g. *[_type == "page"][0...10]{ _id, _type, name }'},
+      },
+      required: ['description', 'query'],
+    },
+  },
+  navigate: {
+    name: 'navigate',
+    description: 'Point the user to a document or Studio path.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        documentId: {type: 'string', description: 'The _id of the document to open'},
+        path: {type: 'string', description: 'Relative Studio path, e.g. /structure/page;abc123'},
+      },
+      required: ['description'],
+    },
+  },
+  explain: {
+    name: 'explain',
+    description: 'Show the user a standalone explanation. Does not change content.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        explanation: {type: 'string', description: 'The explanation text'},
+      },
+      required: ['description', 'explanation'],
+    },
+  },
+  uploadImage: {
+    name: 'uploadImage',
+    description:
+      'Upload an image the user attached in the chat to the Sanity media library. Use the returned asset reference in create/update actions.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        filename: {type: 'string', description: 'Optional filename override, e.g. hero-background.jpg'},
+      },
+      required: ['description'],
+    },
+  },
+  fetchFigmaFrame: {
+    name: 'fetchFigmaFrame',
+    description:
+      'Fetch the node tree and image list of a Figma frame. Runs automatically and the frame data is sent back to you.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        url: {type: 'string', description: 'The exact Figma URL the user provided'},
+      },
+      required: ['description', 'url'],
+    },
+  },
+  uploadFigmaImage: {
+    name: 'uploadFigmaImage',
+    description:
+      'Export an image node from Figma and upload it to Sanity. Returns an asset reference for imageBlock image.asset.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        nodeId: {type: 'string', description: 'Node ID from the images array or frame data'},
+        fileKey: {type: 'string', description: 'File key from the fetchFigmaFrame response'},
+        filename: {type: 'string', description: 'Descriptive filename, e.g. hero-background.png'},
+      },
+      required: ['description', 'nodeId', 'fileKey'],
+    },
+  },
+  createPinboard: {
+    name: 'createPinboard',
+    description: 'Create a pinboard canvas that shows pages side-by-side for comparison.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        description: DESCRIPTION_PROPERTY,
+        fields: {
+          type: 'object',
+          description: 'Pinboard fields',
+          properties: {
+            name: {type: 'string'},
+            description: {type: 'string'},
+          },
+          required: ['name'],
+        },
+        pageIds: {
+          type: 'array',
+          items: {type: 'string'},
+          description: 'Page document IDs to place on the pinboard',
+        },
+      },
+      required: ['description', 'fields'],
+    },
+  },
+}
+
+/**
+ * Action types the remote API offers
+ * Image uploads, Figma and pinboards need the Studio and are left out.
+ */
+export const REMOTE_ACTION_TYPES: ActionType[] = [
+  'create',
+  'update',
+  'patch',
+  'delete',
+  'publish',
+  'unpublish',
+  'discardDraft',
+  'schedulePublish',
+  'query',
+  'navigate',
+  'explain',
+]
+
+/**
+ * Action types that are only offered when Figma integration is enabled
+ */
+const FIGMA_ACTION_TYPES: ActionType[] = ['fetchFigmaFrame', 'uploadFigmaImage']
+
+export interface ActionToolOptions {
+  /** Action types to offer (default: every action type) */
+  actionTypes?: ActionType[]
+  /** Offer the Figma tools */
+  enableFigmaFetch?: boolean
+  /** During a workflow step, only the tools for the step's allowed actions are offered */
+  workflowStep?: WorkflowStep
+  /** Tell Claude that write tools wait for the user's approval, as in the Studio chat */
+  confirmWrites?: boolean
+}
+
+/**
+ * Describe the approval a write tool waits for
+ */
+function describeApproval(type: ActionType): string {
+  if (isDestructiveActionType(type)) return 'Destructive - the user must confirm before it runs.'
+  return 'Requires user approval.'
+}
+
+/**
+ * Get the tool definitions to send with a request
+ */
+export function getActionTools(options: ActionToolOptions = {}): ToolDefinition[] {
+  const actionTypes = options.actionTypes || (Object.keys(ACTION_TOOLS) as ActionType[])
+  return actionTypes
+    .filter(
+      (type) =>
+        (options.enableFigmaFetch || !FIGMA_ACTION_TYPES.includes(type)) &&
+        (!options.workflowStep || isStepActionAllowed(options.workflowStep, type))
+    )
+    .map((type) => {
+      const tool = ACTION_TOOLS[type]
+      if (!options.confirmWrites || isReadOnlyActionType(type)) return tool
+      return {...tool, description: `${tool.description} ${describeApproval(type)}`}
+    })
+}
+
+/**
+ * Convert an action back into the tool input Claude originally sent
+ */
+export function actionToToolInput(action: ParsedAction): Record<string, unknown> {
+  // imageAttachment holds base64 data and is never part of the tool input
+  const {imageAttachment, figmaUrl, figmaNodeId, figmaFileKey, ...rest} = action.payload
+  const input: Record<string, unknown> = {description: action.description, ...rest}
+
+  if (figmaUrl) {
+    input.url = figmaUrl
+    delete input.path
+  }
+  if (figmaNodeId) input.nodeId = figmaNodeId
+  if (figmaFileKey) input.fileKey = figmaFileKey
+
+  // Drop undefined values so the block serializes cleanly
+  return Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined))
+}
+
+/**
+ * A tool_result block for every executed action that came from a tool call
+ */
+export function buildToolResults(results: AgentActionResult[]): ToolResultBlock[] {
+  return results
+    .filter(({action}) => action.toolUseId)
+    .map(({action, result}) => ({
+      type: 'tool_result',
+      tool_use_id: action.toolUseId!,
+      content: result.success
+        ? `Executed successfully. ${result.message || ''}`.trim()
+        : `Failed: ${result.message || 'Unknown error'}`,
+      ...(result.success ? {} : {is_error: true}),
+    }))
+}
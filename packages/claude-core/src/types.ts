@@ -0,0 +1,591 @@
+/**
+ * Claude Core Types
+ *
+ * Action, access control and schema context types shared by the
+ * Studio plugin and the remote API
+ */
+
+// ============================================================================
+// Action Types
+// ============================================================================
+
+export type ActionType =
+  | 'create'
+  | 'update'
+  | 'patch'
+  | 'delete'
+  | 'publish'
+  | 'unpublish'
+  | 'discardDraft'
+  | 'schedulePublish'
+  | 'query'
+  | 'navigate'
+  | 'explain'
+  | 'uploadImage'
+  | 'fetchFigmaFrame'
+  | 'uploadFigmaImage'
+  | 'createPinboard'
+
+export type ActionStatus = 'pending' | 'executing' | 'completed' | 'failed' | 'cancelled'
+
+export interface ParsedAction {
+  id: string
+  type: ActionType
+  description: string
+  status: ActionStatus
+  payload: ActionPayload
+  result?: ActionResult
+  error?: string
+  /** ID of the tool_use block this action came from (absent for text-block actions) */
+  toolUseId?: string
+}
+
+/**
+ * Represents an image attachment in a message
+ */
+export interface ImageAttachment {
+  /** Unique identifier for this attachment */
+  id: string
+  /** Display name of the image (original filename) */
+  name: string
+  /** MIME type (image/jpeg, image/png, etc.) */
+  mimeType: string
+  /** Base64-encoded image data for sending to Claude */
+  base64?: string
+  /** URL for displaying the image (Sanity CDN URL or data URL) */
+  url: string
+  /** Sanity asset reference ID if from media library (e.g., "image-abc123-1920x1080-jpg") */
+  sanityAssetId?: string
+  /** Full Sanity asset reference for use in documents */
+  sanityAssetRef?: {
+    _type: 'reference'
+    _ref: string
+  }
+  /** Image dimensions if known */
+  width?: number
+  height?: number
+  /** Source of the image: 'upload' for user-uploaded, 'library' for Sanity media library */
+  source?: 'upload' | 'library'
+}
+
+export interface ActionPayload {
+  documentType?: string
+  documentId?: string
+  fields?: Record<string, unknown>
+  query?: string
+  path?: string
+  explanation?: string
+  /** For uploadImage action: the image attachment to upload */
+  imageAttachment?: ImageAttachment
+  /** For uploadImage action: optional filename override */
+  filename?: string
+  // Figma integration fields
+  /** Figma URL for fetchFigmaFrame action */
+  figmaUrl?: string
+  /** Figma node ID for uploadFigmaImage action */
+  figmaNodeId?: string
+  /** Figma file key (extracted from URL or provided) */
+  figmaFileKey?: string
+  /** For createPinboard action: page document IDs to include */
+  pageIds?: string[]
+  /** For patch action: operations applied in order, as one transaction */
+  operations?: PatchOperation[]
+  /** For schedulePublish action: ISO 8601 date-time to publish the draft at */
+  publishAt?: string
+}
+
+/**
+ * Operations supported by the patch action
+ * - insert: add items before/after the array item at path
+ * - append: add items to the end of the array at path
+ * - replace: replace the array item at path with items
+ * - unset: remove the field or array item at path
+ * - move: move the array item at path before/after the array item at target
+ * - inc: add amount to the number at path (negative to decrement)
+ */
+export type PatchOperationType = 'insert' | 'append' | 'replace' | 'unset' | 'move' | 'inc'
+
+export interface PatchOperation {
+  op: PatchOperationType
+  /** _key-addressed path, e.g. pageBuilder[_key=="abc123"].rows */
+  path: string
+  /** For insert and move: placement relative to path (insert) or target (move) */
+  position?: 'before' | 'after'
+  /** For move: _key-addressed path of the item to move next to */
+  target?: string
+  /** For insert, append and replace: the items to add */
+  items?: unknown[]
+  /** For inc: the amount to add */
+  amount?: number
+}
+
+export interface ActionResult {
+  success: boolean
+  data?: unknown
+  message?: string
+  documentId?: string
+  /** Pre-execution state of the document (for undo functionality) */
+  preState?: unknown
+  /** Revision (_rev) the action produced - undo compares it to detect later edits */
+  revision?: string
+  /** Set when an undo was blocked because the document changed after the action */
+  conflict?: UndoConflict
+  /** Shared by every action that ran in the same all-or-nothing batch */
+  batchId?: string
+}
+
+/**
+ * A top-level field in an undo conflict, compared three ways
+ */
+export interface UndoConflictField {
+  field: string
+  /** Value before Claude's action - what undo restores */
+  original: unknown
+  /** Value Claude's action wrote */
+  claude: unknown
+  /** Current value */
+  current: unknown
+  /** True if someone changed the field after Claude's action */
+  editedSince: boolean
+}
+
+/**
+ * Why an undo was blocked: the document changed after Claude's action
+ */
+export interface UndoConflict {
+  documentId: string
+  expectedRevision?: string
+  currentRevision?: string
+  /** Fields Claude's action changed */
+  fields: UndoConflictField[]
+  /** Whether the fields nobody edited since can be reverted on their own */
+  canRevertFields: boolean
+}
+
+/**
+ * A tool_use block from a Claude response
+ * The tool name is the action type and the input is the flat action data
+ */
+export interface ToolUseBlock {
+  id: string
+  name: string
+  input: Record<string, unknown>
+}
+
+/**
+ * Tool definition sent to the Claude API - one per ActionType
+ */
+export interface ToolDefinition {
+  name: ActionType
+  description: string
+  input_schema: {
+    type: 'object'
+    properties: Record<string, unknown>
+    required?: string[]
+  }
+}
+
+/**
+ * A tool_result block answering a tool_use block
+ */
+export interface ToolResultBlock {
+  type: 'tool_result'
+  tool_use_id: string
+  content: string
+  is_error?: boolean
+}
+
+// ============================================================================
+// Agent Loop Types
+// ============================================================================
+
+/**
+ * Why an agent run stopped after a step
+ * - complete: Claude finished without requesting more read-only actions
+ * - approval: Claude requested a write action, which needs approval or ends the run
+ * - maxSteps / tokenBudget: the run's budget ran out
+ */
+export type AgentStopReason = 'complete' | 'approval' | 'maxSteps' | 'tokenBudget'
+
+/**
+ * Limits for a single agent run
+ */
+export interface AgentBudget {
+  maxSteps: number
+  tokenBudget: number
+}
+
+/**
+ * An action run by the agent loop, with its result
+ */
+export interface AgentActionResult {
+  action: ParsedAction
+  result: ActionResult
+}
+
+// ============================================================================
+// Access Control Types
+// ============================================================================
+
+/**
+ * Operations that can be granted in the claudeAccessControl singleton
+ */
+export type AccessOperation = 'create' | 'update' | 'delete' | 'publish' | 'query' | 'uploadImage'
+
+/**
+ * Access restrictions loaded from the claudeAccessControl singleton.
+ * Empty lists mean "no restriction".
+ */
+export interface AccessControlSettings {
+  allowedDocumentTypes?: string[]
+  allowedOperations?: AccessOperation[]
+  blockedFields?: string[]
+  /** Only write to drafts; never publish or delete published documents */
+  draftsOnly?: boolean
+}
+
+// ============================================================================
+// Schema Context Types
+// ============================================================================
+
+export interface SchemaInfo {
+  name: string
+  title: string
+  type: string
+  fields: FieldInfo[]
+  description?: string
+}
+
+export interface FieldInfo {
+  name: string
+  title: string
+  type: string
+  required: boolean
+  description?: string
+  options?: Record<string, unknown>
+  of?: FieldInfo[]
+  to?: Array<{type: string}>
+}
+
+/**
+ * The document and object types Claude is told about
+ */
+export interface SchemaTypesContext {
+  documentTypes: SchemaInfo[]
+  objectTypes: SchemaInfo[]
+}
+
+// ============================================================================
+// Usage Types
+// ============================================================================
+
+/**
+ * Token counts for one or more Claude API calls
+ */
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  /** Input tokens written to the prompt cache */
+  cacheCreationInputTokens?: number
+  /** Input tokens read from the prompt cache */
+  cacheReadInputTokens?: number
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  /** Model ID, or a prefix of one (e.g. "claude-sonnet-4") */
+  model: string
+  inputPrice: number
+  outputPrice: number
+  /** Defaults to 1.25x the input price */
+  cacheWritePrice?: number
+  /** Defaults to 0.1x the input price */
+  cacheReadPrice?: number
+}
+
+// ============================================================================
+// Budget Types
+// ============================================================================
+
+/**
+ * A monthly cap. Either limit can be left unset; the cap is reached when any set limit is.
+ */
+export interface BudgetLimit {
+  /** Tokens per calendar month (UTC), including cache writes and reads */
+  tokenLimit?: number
+  /** Estimated cost per calendar month (UTC), in USD */
+  costLimit?: number
+}
+
+/**
+ * The monthly cap for each user with a role
+ */
+export interface RoleBudget extends BudgetLimit {
+  role: string
+}
+
+/**
+ * The monthly cap for one user, replacing any role cap
+ */
+export interface UserBudget extends BudgetLimit {
+  userId: string
+}
+
+/**
+ * A temporary cap for one user, replacing their user and role caps until it expires
+ */
+export interface BudgetOverride extends UserBudget {
+  /** ISO 8601 date-time the override stops applying */
+  expiresAt: string
+  reason?: string
+}
+
+/**
+ * Budget configuration from the claudeApiSettings document
+ */
+export interface BudgetSettings {
+  /** Cap on all usage across users and remote API clients */
+  monthlyBudget?: BudgetLimit
+  roleBudgets?: RoleBudget[]
+  userBudgets?: UserBudget[]
+  budgetOverrides?: BudgetOverride[]
+  /** Percentages of a cap that trigger a warning, e.g. [80, 95] */
+  warningThresholds?: number[]
+}
+
+/**
+ * Who a request is metered for. Remote API requests have no user and only count globally.
+ */
+export interface BudgetIdentity {
+  userId?: string
+  roles?: string[]
+}
+
+/**
+ * Month-to-date usage in one scope
+ */
+export interface UsageCounter {
+  tokens: number
+  cost: number
+}
+
+export type BudgetScope = 'global' | 'user'
+
+/**
+ * How much of one cap has been used
+ */
+export interface BudgetScopeStatus {
+  scope: BudgetScope
+  /** Where the cap comes from: the global budget, a role, a user budget or an override */
+  source: 'global' | 'role' | 'user' | 'override'
+  limit: BudgetLimit
+  used: UsageCounter
+  remainingTokens?: number
+  remainingCost?: number
+  /** Highest share of the token or cost limit used, 0-100+ */
+  percentUsed: number
+  /** Set for overrides: when the cap reverts */
+  expiresAt?: string
+}
+
+/**
+ * Budget state for a request, returned by both API routes
+ */
+export interface BudgetStatus {
+  /** Month being metered, as YYYY-MM (UTC) */
+  month: string
+  /** False once any cap has been reached */
+  allowed: boolean
+  scopes: BudgetScopeStatus[]
+  /** Set when a cap passed a warning threshold */
+  warning?: string
+  /** Set when a cap has been reached */
+  error?: string
+}
+
+// ============================================================================
+// Summary Types
+// ============================================================================
+
+/**
+ * A message as considered for summarization
+ */
+export interface SummaryMessage {
+  role: 'user' | 'assistant'
+  /** Text content; image and tool blocks are left out */
+  content: string
+  /**
+   * Set on messages that answer the previous message's tool calls. History
+   * sent to Claude cannot start with one, so summarization never stops before it.
+   */
+  continuesToolCall?: boolean
+}
+
+/**
+ * Summary of a conversation's earlier messages, sent to Claude in their place
+ */
+export interface ConversationSummary {
+  content: string
+  /** Number of leading messages the summary replaces */
+  messageCount: number
+  /** ID of the last message the summary covers */
+  throughMessageId?: string
+  /** ISO 8601 date-time the summary was generated or edited */
+  updatedAt: string
+  /** Set once a user has edited the summary */
+  edited?: boolean
+}
+
+// ============================================================================
+// Workflow Pipeline Types
+// ============================================================================
+
+/**
+ * One step of a multi-step workflow, with its instructions serialized to text
+ */
+export interface WorkflowStep {
+  /** _key of the step in the claudeWorkflow document */
+  key: string
+  title: string
+  instructions?: string
+  /** Action types Claude may run in this step; empty allows every type */
+  allowedActions?: ActionType[]
+  /** Stop after this step until a person approves continuing */
+  requireApproval?: boolean
+}
+
+// ============================================================================
+// Workflow Parameter Types
+// ============================================================================
+
+/**
+ * Kinds of value a workflow parameter takes
+ */
+export type WorkflowParameterType = 'text' | 'select' | 'reference' | 'image' | 'date'
+
+/**
+ * A typed input of a workflow, filled in before it starts and interpolated
+ * into its starter prompt wherever {{name}} appears
+ */
+export interface WorkflowParameter {
+  /** Placeholder name used in the starter prompt */
+  name: string
+  title: string
+  type: WorkflowParameterType
+  description?: string
+  required?: boolean
+  /** Choices of a select parameter */
+  options?: string[]
+  /** Document types a reference parameter may point to; empty allows any */
+  documentTypes?: string[]
+}
+
+/**
+ * Parameter values by name: text, a select option, a document ID, an image
+ * asset ID or a YYYY-MM-DD date
+ */
+export type WorkflowParameterValues = Record<string, string>
+
+// ============================================================================
+// Prompt Explanation Types
+// ============================================================================
+
+/**
+ * One section of an assembled system prompt, as shown by the prompt inspector
+ */
+export interface PromptSection {
+  /** Section heading, e.g. "Available Schema" or "Writing Guidelines" */
+  title: string
+  /** Instruction category of a conditional instruction section */
+  category?: string
+  included: boolean
+  /** Why the section was included or left out */
+  reason: string
+  /** The section's text as it appears in the prompt; empty when left out */
+  content: string
+  estimatedTokens: number
+  /** Parts of the section, e.g. the instruction sections in Custom Instructions */
+  sections?: PromptSection[]
+}
+
+/**
+ * How the user message decided one instruction category
+ */
+export interface PromptCategoryMatch<C extends string = string> {
+  category: C
+  included: boolean
+  /** Trigger keywords found in the message */
+  matchedKeywords: string[]
+  /** Whether the keywords come from claudeInstructions instead of the defaults */
+  customKeywords: boolean
+  reason: string
+}
+
+/**
+ * An assembled system prompt with the sections it was built from
+ */
+export interface SystemPromptExplanation<C extends string = string> {
+  prompt: string
+  estimatedTokens: number
+  sections: PromptSection[]
+  categories: PromptCategoryMatch<C>[]
+}
+
+// ============================================================================
+// Audit Types
+// ============================================================================
+
+/**
+ * Where an audited action was run from
+ */
+export type AuditSource = 'studio' | 'floatingChat' | 'remote' | 'mcp'
+
+/**
+ * Who ran the actions being audited, and from where
+ * Studio actions carry the user; remote and MCP actions carry the API key.
+ */
+export interface AuditContext {
+  source: AuditSource
+  userId?: string
+  userName?: string
+  apiKeyId?: string
+  apiKeyName?: string
+  /** Remote API client identifier (IP address or X-Client-ID) */
+  clientId?: string
+  /** claudeConversation the actions came from */
+  conversationId?: string
+}
+
+/**
+ * A claudeAuditEntry document, as written
+ */
+export interface AuditEntry {
+  _id: string
+  _type: 'claudeAuditEntry'
+  timestamp: string
+  source: AuditSource
+  userId?: string
+  userName?: string
+  apiKeyId?: string
+  apiKeyName?: string
+  clientId?: string
+  conversation?: {_type: 'reference'; _ref: string; _weak: true}
+  actionType: ActionType
+  description: string
+  documentId?: string
+  documentType?: string
+  /** The action's payload, as JSON */
+  payloadJson: string
+  success: boolean
+  message?: string
+  /** _rev of the document before the action, when it existed */
+  revisionBefore?: string
+  /** _rev the action produced */
+  revisionAfter?: string
+  /** Shared by the actions of one all-or-nothing batch */
+  batchId?: string
+  /** Set when the entry records an undo of an earlier action */
+  undo?: boolean
+}
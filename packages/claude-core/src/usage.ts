@@ -0,0 +1,116 @@
+/**
+ * Token Usage and Cost
+ *
+ * Token counts reported by the Anthropic API and cost estimates from a
+ * per-model price table. The Studio plugin stores usage on conversation
+ * messages and the remote API logs it per request, in the same shape.
+ */
+
+import type {ModelPrice, TokenUsage} from './types'
+
+/**
+ * Cache writes cost 1.25x the input price when no cache write price is configured
+ */
+const CACHE_WRITE_MULTIPLIER = 1.25
+
+/**
+ * Cache reads cost 0.1x the input price when no cache read price is configured
+ */
+const CACHE_READ_MULTIPLIER = 0.1
+
+/**
+ * Prices in USD per million tokens for the models offered in the API settings
+ */
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  {model: 'claude-opus-4-5', inputPrice: 5, outputPrice: 25},
+  {model: 'claude-sonnet-4', inputPrice: 3, outputPrice: 15},
+]
+
+/**
+ * Usage with every count at zero
+ */
+export const EMPTY_USAGE: TokenUsage = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheCreationInputTokens: 0,
+  cacheReadInputTokens: 0,
+}
+
+/**
+ * Convert the usage object of an Anthropic API response
+ */
+export function toTokenUsage(usage: {
+  input_tokens?: number | null
+  output_tokens?: number | null
+  cache_creation_input_tokens?: number | null
+  cache_read_input_tokens?: number | null
+}): TokenUsage {
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+    cacheReadInputTokens: usage.cache_read_input_tokens || 0,
+  }
+}
+
+/**
+ * Add two usage counts together
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheCreationInputTokens: (a.cacheCreationInputTokens || 0) + (b.cacheCreationInputTokens || 0),
+    cacheReadInputTokens: (a.cacheReadInputTokens || 0) + (b.cacheReadInputTokens || 0),
+  }
+}
+
+/**
+ * Total tokens of a usage count, including cache writes and reads
+ */
+export function getTotalTokens(usage: TokenUsage): number {
+  return (
+    usage.inputTokens +
+    usage.outputTokens +
+    (usage.cacheCreationInputTokens || 0) +
+    (usage.cacheReadInputTokens || 0)
+  )
+}
+
+/**
+ * Find the price for a model
+ * An exact match wins; otherwise the longest configured name the model ID starts with,
+ * so "claude-sonnet-4" prices "claude-sonnet-4-20250514".
+ */
+export function findModelPrice(model: string, prices: ModelPrice[]): ModelPrice | null {
+  const exact = prices.find((price) => price.model === model)
+  if (exact) {
+    return exact
+  }
+
+  return prices
+    .filter((price) => price.model && model.startsWith(price.model))
+    .reduce<ModelPrice | null>((best, price) => (!best || price.model.length > best.model.length ? price : best), null)
+}
+
+/**
+ * Estimate the cost of a usage count in USD
+ * Returns null if the model has no price
+ */
+export function estimateCost(usage: TokenUsage, model: string, prices: ModelPrice[]): number | null {
+  const price = findModelPrice(model, prices)
+  if (!price) {
+    return null
+  }
+
+  const cacheWritePrice = price.cacheWritePrice ?? price.inputPrice * CACHE_WRITE_MULTIPLIER
+  const cacheReadPrice = price.cacheReadPrice ?? price.inputPrice * CACHE_READ_MULTIPLIER
+
+  return (
+    (usage.inputTokens * price.inputPrice +
+      usage.outputTokens * price.outputPrice +
+      (usage.cacheCreationInputTokens || 0) * cacheWritePrice +
+      (usage.cacheReadInputTokens || 0) * cacheReadPrice) /
+    1_000_000
+  )
+}
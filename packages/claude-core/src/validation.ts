@@ -0,0 +1,226 @@
+/**
+ * Payload Validation
+ *
+ * Checks the payloads of write actions before anything is sent to Sanity:
+ * document IDs and field paths Claude made up, patch operations that cannot
+ * be applied, array items without a _type, and unsafe GROQ queries.
+ * Missing _key values are generated instead of rejected (see keys.ts).
+ */
+
+import {ensureKeys, findUntypedItem} from './keys'
+import {KEYED_ITEM_PATTERN} from './paths'
+import type {ActionPayload, PatchOperation} from './types'
+
+/**
+ * Validate a field path used in an update or patch
+ * Rejects numeric indices (which can corrupt data) and made-up _key values
+ * Returns an error message if validation fails, null if valid
+ */
+export function validateFieldPath(fieldPath: string): string | null {
+  if (/\[\d+\]/.test(fieldPath)) {
+    return `Invalid field path "${fieldPath}". Use _key selectors like [_key=="abc123"] instead of numeric indices like [0]. Query the document first to get the _key values.`
+  }
+
+  // Detect hallucinated/fake _key values (semantic names instead of random strings)
+  // Real Sanity keys are 10+ char alphanumeric strings like "4b5c6d7e8f"
+  const keyMatches = fieldPath.match(/_key=="([^"]+)"/g)
+  if (keyMatches) {
+    for (const keyMatch of keyMatches) {
+      const keyValue = keyMatch.match(/_key=="([^"]+)"/)?.[1] || ''
+      // Fake keys are usually semantic words like "hero", "hero-row", "main-section"
+      // Real keys are random alphanumeric strings without hyphens or semantic meaning
+      const looksLikeFakeKey = /^[a-z]+-?[a-z]*$/i.test(keyValue) && keyValue.length < 10
+      if (looksLikeFakeKey) {
+        return `Invalid _key value "${keyValue}" looks like a made-up name. Real Sanity _key values are random strings like "4b5c6d7e8f9g". You must first execute a query to find the actual _key values, then use those exact values in your update.`
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validate document ID format - detect hallucinated IDs
+ * Real Sanity IDs are either UUIDs or custom IDs that don't look like slug-based names
+ */
+export function validateDocumentId(docId: string): string | null {
+  const looksLikeFakeDocId = /^(page|post|article|section|block)-[a-z-]+$/i.test(docId)
+  if (looksLikeFakeDocId) {
+    return `Invalid document ID "${docId}" looks like a made-up slug-based name. Real Sanity document IDs are UUIDs like "4c4d5ab9-abbb-485f-b033-f31a14cbdce2" or custom IDs. You must first execute a query to find the actual _id value, then use that exact ID in your update.`
+  }
+  return null
+}
+
+/**
+ * Validate a single patch operation
+ * Returns an error message if validation fails, null if valid
+ */
+export function validatePatchOperation(operation: PatchOperation, index: number): string | null {
+  const label = `Operation ${index + 1} (${operation.op})`
+
+  if (!operation.path) {
+    return `${label} is missing a path`
+  }
+
+  const pathError = validateFieldPath(operation.path) || (operation.target ? validateFieldPath(operation.target) : null)
+  if (pathError) {
+    return pathError
+  }
+
+  switch (operation.op) {
+    case 'insert':
+    case 'replace':
+    case 'move':
+      if (!KEYED_ITEM_PATTERN.test(operation.path)) {
+        return `${label} path "${operation.path}" must end with a _key selector like [_key=="abc123"]`
+      }
+      break
+    case 'append':
+      if (KEYED_ITEM_PATTERN.test(operation.path)) {
+        return `${label} path "${operation.path}" must point to the array itself, not an item in it`
+      }
+      break
+    case 'unset':
+      break
+    case 'inc':
+      if (typeof operation.amount !== 'number') {
+        return `${label} requires a numeric amount`
+      }
+      break
+    default:
+      return `${label} is not a supported patch operation. Use insert, append, replace, unset, move or inc.`
+  }
+
+  if ((operation.op === 'insert' || operation.op === 'move') && operation.position !== 'before' && operation.position !== 'after') {
+    return `${label} requires a position of "before" or "after"`
+  }
+
+  if (operation.op === 'move' && !KEYED_ITEM_PATTERN.test(operation.target || '')) {
+    return `${label} requires a target ending with a _key selector like [_key=="abc123"]`
+  }
+
+  if (operation.op === 'insert' || operation.op === 'append' || operation.op === 'replace') {
+    if (!Array.isArray(operation.items) || operation.items.length === 0) {
+      return `${label} requires a non-empty items array`
+    }
+    return findUntypedItem(operation.items, operation.path.replace(KEYED_ITEM_PATTERN, ''))
+  }
+
+  return null
+}
+
+/**
+ * Validate the payload of a create action and give new array items keys
+ * Returns the fields ready to write, or an error message
+ */
+export function prepareCreateFields(payload: ActionPayload): {fields: Record<string, unknown>} | {error: string} {
+  if (!payload.documentType) {
+    return {error: 'Document type is required'}
+  }
+
+  const fields = ensureKeys(payload.fields || {})
+  const typeError = findUntypedItem(fields, '')
+  return typeError ? {error: typeError} : {fields}
+}
+
+/**
+ * Validate the payload of an update action and give new array items keys
+ * Returns the fields ready to write, or an error message
+ */
+export function prepareUpdateFields(payload: ActionPayload): {fields: Record<string, unknown>} | {error: string} {
+  if (!payload.documentId) {
+    return {error: 'Document ID is required'}
+  }
+
+  if (!payload.fields || Object.keys(payload.fields).length === 0) {
+    return {error: 'No fields to update'}
+  }
+
+  // Validate field paths - reject numeric indices and made-up _key values
+  for (const fieldPath of Object.keys(payload.fields)) {
+    const pathError = validateFieldPath(fieldPath)
+    if (pathError) {
+      return {error: pathError}
+    }
+  }
+
+  const docIdError = validateDocumentId(payload.documentId)
+  if (docIdError) {
+    return {error: docIdError}
+  }
+
+  const fields = ensureKeys(payload.fields)
+  const typeError = findUntypedItem(fields, '')
+  return typeError ? {error: typeError} : {fields}
+}
+
+/**
+ * Validate the payload of a patch action and give new array items keys
+ * Returns the operations ready to apply, or an error message
+ */
+export function preparePatchOperations(payload: ActionPayload): {operations: PatchOperation[]} | {error: string} {
+  if (!payload.documentId) {
+    return {error: 'Document ID is required'}
+  }
+
+  if (!payload.operations || payload.operations.length === 0) {
+    return {error: 'No patch operations provided'}
+  }
+
+  const docIdError = validateDocumentId(payload.documentId)
+  if (docIdError) {
+    return {error: docIdError}
+  }
+
+  const operations = payload.operations.map((operation) =>
+    operation.items ? {...operation, items: ensureKeys(operation.items)} : operation
+  )
+  for (let i = 0; i < operations.length; i++) {
+    const validationError = validatePatchOperation(operations[i], i)
+    if (validationError) {
+      return {error: validationError}
+    }
+  }
+
+  return {operations}
+}
+
+/**
+ * Maximum length of a GROQ query Claude may run
+ */
+const MAX_QUERY_LENGTH = 5000
+
+/**
+ * Validate a GROQ query for safety
+ * Only allows read-only queries that start with standard patterns
+ * Returns an error message, or null if the query may run
+ */
+export function validateQuery(query: string): string | null {
+  const trimmed = query.trim()
+
+  // Must start with a standard GROQ query pattern
+  if (!trimmed.startsWith('*[') && !trimmed.startsWith('count(') && !trimmed.startsWith('coalesce(')) {
+    return 'Query must start with *[ or count( or coalesce('
+  }
+
+  // Block potentially dangerous patterns
+  const dangerousPatterns = [
+    /\bsanity::/i, // Internal Sanity functions
+    /_createdAt\s*</, // Time-based attacks
+    /identity\(\)/i, // User identity access
+    /\$.*token/i, // Token parameter access
+  ]
+
+  for (const pattern of dangerousPatterns) {
+    if (pattern.test(trimmed)) {
+      return 'Query contains restricted patterns'
+    }
+  }
+
+  // Limit query length to prevent DoS
+  if (trimmed.length > MAX_QUERY_LENGTH) {
+    return `Query exceeds maximum length of ${MAX_QUERY_LENGTH} characters`
+  }
+
+  return null
+}
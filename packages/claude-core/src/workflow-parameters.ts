@@ -0,0 +1,117 @@
+/**
+ * Workflow Parameters
+ *
+ * A claudeWorkflow can declare typed parameters that are filled in before it
+ * starts and interpolated into its starter prompt as {{name}}. Shared by the
+ * Studio skill picker and the remote API's "params" option.
+ */
+
+import type {WorkflowParameter, WorkflowParameterValues} from './types'
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][\w]*)\s*\}\}/g
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DOCUMENT_ID_PATTERN = /^[a-zA-Z0-9_][a-zA-Z0-9._-]*$/
+const IMAGE_ASSET_ID_PATTERN = /^image-[a-zA-Z0-9]+-\d+x\d+-[a-z0-9]+$/
+
+/**
+ * Placeholder names used in a starter prompt
+ */
+export function getPromptPlaceholders(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]))]
+}
+
+/**
+ * Check one parameter value
+ * Returns an error message, or null if the value is valid or empty.
+ */
+export function validateWorkflowParameterValue(parameter: WorkflowParameter, value: string): string | null {
+  if (!value) return null
+
+  switch (parameter.type) {
+    case 'select':
+      return parameter.options?.includes(value)
+        ? null
+        : `"${parameter.title}" must be one of: ${(parameter.options || []).join(', ')}`
+    case 'date':
+      return DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+        ? null
+        : `"${parameter.title}" must be a date (YYYY-MM-DD)`
+    case 'reference':
+      return DOCUMENT_ID_PATTERN.test(value) ? null : `"${parameter.title}" must be a document ID`
+    case 'image':
+      return IMAGE_ASSET_ID_PATTERN.test(value) ? null : `"${parameter.title}" must be an image asset ID`
+    default:
+      return null
+  }
+}
+
+/**
+ * Check the values given for a workflow's parameters: unknown names, types,
+ * required values and formats. Documents and assets are not looked up.
+ * Returns the error messages, empty if the values are valid.
+ */
+export function validateWorkflowParameterValues(parameters: WorkflowParameter[], values: unknown): string[] {
+  if (values === undefined || values === null) values = {}
+  if (typeof values !== 'object' || Array.isArray(values)) {
+    return ['params must be an object of parameter values by name']
+  }
+
+  const errors: string[] = []
+  const entries = values as Record<string, unknown>
+
+  for (const name of Object.keys(entries)) {
+    if (!parameters.some((parameter) => parameter.name === name)) {
+      errors.push(`Unknown parameter "${name}"`)
+    }
+  }
+
+  for (const parameter of parameters) {
+    const value = entries[parameter.name]
+    if (value === undefined || value === null || value === '') {
+      if (parameter.required) errors.push(`"${parameter.title}" is required`)
+      continue
+    }
+    if (typeof value !== 'string') {
+      errors.push(`"${parameter.title}" must be a string`)
+      continue
+    }
+    const error = validateWorkflowParameterValue(parameter, value)
+    if (error) errors.push(error)
+  }
+
+  return errors
+}
+
+/**
+ * Format a parameter value for the prompt
+ *
+ * @param label - Display name of a referenced document or image, if known
+ */
+export function formatWorkflowParameterValue(parameter: WorkflowParameter, value: string, label?: string): string {
+  switch (parameter.type) {
+    case 'reference':
+      return label ? `"${label}" (document ID: ${value})` : `document ${value}`
+    case 'image':
+      return label ? `"${label}" (image asset ID: ${value})` : `image asset ${value}`
+    default:
+      return value
+  }
+}
+
+/**
+ * Fill a starter prompt's {{name}} placeholders with parameter values
+ * Placeholders of empty parameters are removed; unknown placeholders are kept.
+ */
+export function interpolateWorkflowPrompt(
+  template: string,
+  parameters: WorkflowParameter[],
+  values: WorkflowParameterValues,
+  labels: Record<string, string> = {}
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const parameter = parameters.find((entry) => entry.name === name)
+    if (!parameter) return placeholder
+    const value = values[name]
+    return value ? formatWorkflowParameterValue(parameter, value, labels[name]) : ''
+  })
+}
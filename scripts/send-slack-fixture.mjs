@@ -0,0 +1,60 @@
+/**
+ * Slack fixture script — sends a locally signed Slack payload to the Slack adapter route.
+ *
+ * Run: npm run slack:fixture -- <fixture> [url]
+ *
+ *   fixture  A file in scripts/slack-fixtures (.json is sent as an Events API
+ *            request, .txt as a form-encoded slash command or interaction)
+ *   url      Route to send to (default: http://localhost:3001/api/claude/slack)
+ *
+ * The payload is signed with SLACK_SIGNING_SECRET and a fresh timestamp, the
+ * same way Slack signs requests, so it passes the route's verification.
+ *
+ * Fixtures:
+ *   url-verification.json  Events API URL check; the route echoes the challenge
+ *   slash-command.txt      "/claude list the five most recent blog posts"
+ *   app-mention.json       Mention of the app in a channel
+ *   thread-reply.json      Reply in a thread the app started (history is loaded from Slack)
+ *   approve-action.txt     Approve button click for the approval in the APPROVAL_ID environment
+ *                          variable (a pendingApproval.approvalId from an earlier reply)
+ */
+
+import {createHmac} from 'node:crypto'
+import {readFile} from 'node:fs/promises'
+import {basename, dirname, join} from 'node:path'
+import {fileURLToPath} from 'node:url'
+
+const [fixture, url = 'http://localhost:3001/api/claude/slack'] = process.argv.slice(2)
+const signingSecret = process.env.SLACK_SIGNING_SECRET
+
+if (!fixture) {
+  console.error('❌ Usage: npm run slack:fixture -- <fixture> [url]')
+  process.exit(1)
+}
+
+if (!signingSecret) {
+  console.error('❌ SLACK_SIGNING_SECRET environment variable is required')
+  console.error('   Use the same value the frontend runs with')
+  process.exit(1)
+}
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'slack-fixtures')
+const body = (await readFile(join(fixturesDir, basename(fixture)), 'utf8'))
+  .trim()
+  .replaceAll('APPROVAL_ID', process.env.APPROVAL_ID || 'APPROVAL_ID')
+const timestamp = Math.floor(Date.now() / 1000).toString()
+const signature = `v0=${createHmac('sha256', signingSecret).update(`v0:${timestamp}:${body}`).digest('hex')}`
+
+const res = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': fixture.endsWith('.json') ? 'application/json' : 'application/x-www-form-urlencoded',
+    'X-Slack-Request-Timestamp': timestamp,
+    'X-Slack-Signature': signature,
+  },
+  body,
+})
+
+console.log(`${res.status} ${res.statusText}`)
+const text = await res.text()
+if (text) console.log(text)
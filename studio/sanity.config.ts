@@ -8,7 +8,7 @@ import {structureTool} from 'sanity/structure'
 import {visionTool} from '@sanity/vision'
 import {codeInput} from '@sanity/code-input'
 import {schemaTypes} from './src/schemaTypes'
-import {structure} from './src/structure'
+import {defaultDocumentNode, structure} from './src/structure'
 import {unsplashImageAsset} from 'sanity-plugin-asset-source-unsplash'
 import {
   presentationTool,
@@ -164,6 +164,7 @@ export default defineConfig({
     }),
     structureTool({
       structure, // Custom studio structure configuration, imported from ./src/structure.ts
+      defaultDocumentNode, // Adds the "Claude History" view to content documents
     }),
     // Additional plugins for enhanced functionality
     codeInput(),
@@ -205,8 +206,10 @@ export default defineConfig({
     newDocumentOptions: (prev) =>
       prev.filter(
         (item) =>
-          !['claudeConversation', 'claudeInstructions', 'pinboard'].includes(item.templateId)
+          !['claudeConversation', 'claudeInstructions', 'claudeAccessControl', 'claudeRemoteUsage', 'claudeUsageCounter', 'claudeAuditEntry', 'pinboard'].includes(item.templateId)
       ),
+    // Audit entries are append-only: no editing, publishing or deleting
+    actions: (prev, context) => (context.schemaType === 'claudeAuditEntry' ? [] : prev),
   },
 
   // Studio UI customization - add floating Claude chat across all tools
@@ -0,0 +1,65 @@
+/**
+ * Extract the Claude schema context
+ *
+ * Compiles the studio schema types and serializes them with the Claude
+ * assistant's own schema extraction, so the remote API describes the same
+ * document and object types as the Studio assistant, and validates writes
+ * against the same schema.
+ *
+ * Run: npm run extract-schema-context (from the studio workspace)
+ * Check: npm run check-schema-context fails when the committed output is stale
+ * Output: frontend/app/api/claude/remote/schema-context.json
+ *         packages/claude-core/validation-schema.json
+ */
+
+import './react-global'
+import {existsSync, readFileSync, writeFileSync} from 'node:fs'
+import {resolve} from 'node:path'
+import {createSchema} from 'sanity'
+import {codeSchema} from '@sanity/code-input'
+import {schemaTypes} from '../src/schemaTypes'
+import {extractSchemaContext} from '../src/plugins/claude-assistant/lib/schema-context'
+import {buildValidationSchema} from '../src/plugins/claude-assistant/lib/schema-validation'
+
+const OUTPUT_PATH = resolve(process.cwd(), '../frontend/app/api/claude/remote/schema-context.json')
+const VALIDATION_OUTPUT_PATH = resolve(process.cwd(), '../packages/claude-core/validation-schema.json')
+
+// Plugin types used by the schema (codeInput) are registered alongside the studio types
+const schema = createSchema({
+  name: 'default',
+  types: [...schemaTypes, codeSchema],
+})
+
+const {documentTypes, objectTypes} = extractSchemaContext(schema)
+const validationSchema = buildValidationSchema(schema)
+
+const outputs = [
+  {
+    path: OUTPUT_PATH,
+    content: `${JSON.stringify({documentTypes, objectTypes}, null, 2)}\n`,
+    summary: `${documentTypes.length} document types and ${objectTypes.length} object types`,
+  },
+  {
+    path: VALIDATION_OUTPUT_PATH,
+    content: `${JSON.stringify(validationSchema, null, 2)}\n`,
+    summary: `${Object.keys(validationSchema.types).length} validation types`,
+  },
+]
+
+if (process.argv.includes('--check')) {
+  // Fail when a schema change was committed without extracting again
+  const stale = outputs.filter((output) => !existsSync(output.path) || readFileSync(output.path, 'utf8') !== output.content)
+  for (const output of stale) {
+    console.error(`${output.path} is out of date with the studio schema`)
+  }
+  if (stale.length > 0) {
+    console.error('Run `npm run extract-schema-context` in the studio workspace and commit the result.')
+    process.exit(1)
+  }
+  console.log('Schema context and validation schema are up to date')
+} else {
+  for (const output of outputs) {
+    writeFileSync(output.path, output.content)
+    console.log(`Extracted ${output.summary} to ${output.path}`)
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Expose React as a global for scripts run outside the Studio build.
+ *
+ * Some schema types render JSX descriptions at module level, and the studio
+ * tsconfig leaves JSX to the bundler, so script runners compile it to
+ * React.createElement calls. Import this module before any schema types.
+ */
+
+import React from 'react'
+
+Object.assign(globalThis, {React})
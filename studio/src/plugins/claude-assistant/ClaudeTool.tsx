@@ -9,6 +9,7 @@ import {useCallback, useEffect, useState, useRef} from 'react'
 import './styles.css'
 import {Card, useToast} from '@sanity/ui'
 import {useClient, useCurrentUser, useSchema} from 'sanity'
+import {checkStepAction} from 'claude-core'
 import {useRouter} from 'sanity/router'
 import type {Tool} from 'sanity'
 import {ChatInterface} from './components/ChatInterface'
@@ -17,12 +18,12 @@ import {useConversations} from './hooks/useConversations'
 import {useClaudeChat} from './hooks/useClaudeChat'
 import {useInstructions} from './hooks/useInstructions'
 import {useApiSettings} from './hooks/useApiSettings'
+import {useAccessControl} from './hooks/useAccessControl'
 import {useContentOperations} from './hooks/useContentOperations'
-import {useWorkflows} from './hooks/useWorkflows'
+import {buildSelectedWorkflowsContext, useWorkflows} from './hooks/useWorkflows'
 import {extractSchemaContext} from './lib/schema-context'
 import type {ClaudeAssistantOptions} from './index'
-import type {Message, ParsedAction, SchemaContext, ImageAttachment, DocumentContext} from './types'
-import type {MessageOptions} from './hooks/useClaudeChat'
+import type {ActionResult, Message, ParsedAction, SchemaContext, ImageAttachment, DocumentContext, UndoOptions} from './types'
 
 /**
  * Props passed to the tool component from Sanity
@@ -52,6 +53,9 @@ export function ClaudeTool(props: ClaudeToolProps) {
   // API settings from Sanity (published documents only)
   const {settings} = useApiSettings()
 
+  // Access restrictions from Sanity (published documents only)
+  const {accessControl} = useAccessControl()
+
   // Local state
   const [schemaContext, setSchemaContext] = useState<SchemaContext | null>(null)
   // Selected documents as context for Claude
@@ -59,9 +63,6 @@ export function ClaudeTool(props: ClaudeToolProps) {
   // Selected workflows as context for Claude
   const [pendingWorkflows, setPendingWorkflows] = useState<WorkflowOption[]>([])
 
-  // Content operations hook
-  const {executeAction, undoAction} = useContentOperations()
-
   // Conversation management hook
   const {
     conversations,
@@ -75,8 +76,17 @@ export function ClaudeTool(props: ClaudeToolProps) {
     generateTitle,
     updateConversationTitle,
     updateWorkflowIds,
+    updateSummary,
+    recordSummaryUsage,
+    updatePipelineProgress,
   } = useConversations({apiEndpoint})
 
+  // Content operations hook - actions are audited against the active conversation
+  const {executeAction, undoAction, previewAction, executeBatch, undoBatch} = useContentOperations({
+    source: 'studio',
+    conversationId: activeConversation?.id,
+  })
+
   // Instructions hook
   const {
     instructions,
@@ -92,6 +102,13 @@ export function ClaudeTool(props: ClaudeToolProps) {
     isLoading: workflowsLoading,
   } = useWorkflows()
 
+  // The first selected skill with steps runs as a pipeline, one step at a time
+  const pipelineWorkflow = pendingWorkflows.find((w) => w.steps?.length) || null
+  const pipelineProgress = activeConversation?.pipelineProgress
+  const pipelineStepIndex =
+    pipelineWorkflow && pipelineProgress?.workflowId === pipelineWorkflow._id ? pipelineProgress.stepIndex : 0
+  const workflowStep = pipelineWorkflow?.steps?.[pipelineStepIndex]
+
   // Extract schema context on mount
   useEffect(() => {
     if (schema) {
@@ -119,43 +136,15 @@ export function ClaudeTool(props: ClaudeToolProps) {
   // Ref to hold setMessages function (to break circular dependency)
   const setMessagesRef = useRef<React.Dispatch<React.SetStateAction<Message[]>> | null>(null)
 
-  // Ref to hold sendMessage function for auto-follow-up after query results
-  // This uses sendMessage directly (not handleSendMessage) to avoid creating duplicate conversations
-  const sendMessageRef = useRef<((content: string, images?: ImageAttachment[], documentContextsOverride?: DocumentContext[], messageOptions?: MessageOptions) => Promise<void>) | null>(null)
-
   // Ref to hold handleSendMessage for user-initiated messages (with conversation creation)
   const handleSendMessageRef = useRef<((content: string, images?: ImageAttachment[]) => Promise<void>) | null>(null)
 
-  // Accumulates query results from concurrent auto-executions for batched sending
-  const pendingQueryResultsRef = useRef<Array<{ description: string; data: unknown }>>([])
-  const queryResultTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
-
   // Track active conversation for use in callbacks without stale closures
   const activeConversationRef = useRef(activeConversation)
   useEffect(() => {
     activeConversationRef.current = activeConversation
   }, [activeConversation])
 
-  // Clean up debounce timer on unmount
-  useEffect(() => {
-    return () => {
-      if (queryResultTimerRef.current) {
-        clearTimeout(queryResultTimerRef.current)
-      }
-    }
-  }, [])
-
-  // Clear pending results when switching conversations
-  useEffect(() => {
-    if (queryResultTimerRef.current || pendingQueryResultsRef.current.length > 0) {
-      if (queryResultTimerRef.current) {
-        clearTimeout(queryResultTimerRef.current)
-        queryResultTimerRef.current = null
-      }
-      pendingQueryResultsRef.current = []
-    }
-  }, [activeConversation?.id])
-
   // Helper to update action status in messages
   const updateActionStatus = useCallback(
     (actionId: string, status: ParsedAction['status'], result?: ParsedAction['result'], error?: string) => {
@@ -200,15 +189,28 @@ export function ClaudeTool(props: ClaudeToolProps) {
     [updateMessage]
   )
 
+  // Run an action, unless the current workflow step does not allow its type
+  const executeStepAction = useCallback(
+    async (action: ParsedAction): Promise<ActionResult> => {
+      const denied = workflowStep ? checkStepAction(workflowStep, action) : null
+      if (denied) {
+        return {success: false, message: denied}
+      }
+      return executeAction(action)
+    },
+    [executeAction, workflowStep]
+  )
+
   // Handle action execution
   // Only modifying actions (create, update, delete) require confirmation
-  // Read-only actions (query, navigate, explain) execute automatically
+  // Read-only actions (query, navigate, explain) execute automatically; queries and
+  // Figma fetches requested mid-run are executed by the agent loop in useClaudeChat
   const handleAction = useCallback(
     async (action: ParsedAction) => {
       // Update status to executing
       updateActionStatus(action.id, 'executing')
 
-      const result = await executeAction(action)
+      const result = await executeStepAction(action)
 
       // Update status based on result
       updateActionStatus(
@@ -232,49 +234,6 @@ export function ClaudeTool(props: ClaudeToolProps) {
           title: 'Action completed',
           description: result.message,
         })
-
-        if (action.type === 'query' && result.data && sendMessageRef.current) {
-          pendingQueryResultsRef.current.push({
-            description: action.description,
-            data: result.data,
-          })
-
-          if (queryResultTimerRef.current) {
-            clearTimeout(queryResultTimerRef.current)
-          }
-
-          queryResultTimerRef.current = setTimeout(() => {
-            const results = pendingQueryResultsRef.current
-            pendingQueryResultsRef.current = []
-            queryResultTimerRef.current = null
-
-            if (results.length === 0 || !sendMessageRef.current) return
-
-            let followUpMessage: string
-            if (results.length === 1) {
-              const r = results[0]
-              const resultJson = JSON.stringify(r.data, null, 2)
-              const resultCount = Array.isArray(r.data) ? r.data.length : 1
-              followUpMessage = `Here are the query results (${resultCount} result${resultCount !== 1 ? 's' : ''}):\n\n\`\`\`json\n${resultJson}\n\`\`\``
-            } else {
-              const parts = results.map((r, i) => {
-                const resultJson = JSON.stringify(r.data, null, 2)
-                const resultCount = Array.isArray(r.data) ? r.data.length : 1
-                return `### Query ${i + 1}: ${r.description} (${resultCount} result${resultCount !== 1 ? 's' : ''})\n\n\`\`\`json\n${resultJson}\n\`\`\``
-              })
-              followUpMessage = `Here are the results from ${results.length} queries:\n\n${parts.join('\n\n')}`
-            }
-
-            sendMessageRef.current(followUpMessage, undefined, undefined, {hidden: true})
-              .catch((err) => {
-                toast.push({
-                  status: 'error',
-                  title: 'Failed to analyze query results',
-                  description: err instanceof Error ? err.message : 'Unknown error',
-                })
-              })
-          }, 800)
-        }
       } else {
         toast.push({
           status: 'error',
@@ -283,21 +242,103 @@ export function ClaudeTool(props: ClaudeToolProps) {
         })
       }
     },
-    [executeAction, toast, updateActionStatus, persistActionResult]
+    [executeStepAction, toast, updateActionStatus, persistActionResult]
   )
 
   // Handle undo of a previously executed action
   const handleUndo = useCallback(
-    async (action: ParsedAction) => {
-      const result = await undoAction(action)
+    async (action: ParsedAction, options?: UndoOptions): Promise<ActionResult> => {
+      const result = await undoAction(action, options)
 
       if (result.success) {
         // Clear the preState so Undo button disappears
-        updateActionStatus(action.id, 'completed', {
+        const undoneResult = {
           success: true,
           ...action.result,
           preState: undefined,
+          conflict: undefined,
+        }
+        updateActionStatus(action.id, 'completed', undoneResult)
+        persistActionResult(action.id, 'completed', undoneResult)
+        toast.push({
+          status: 'success',
+          title: 'Undo successful',
+          description: result.message,
+        })
+      } else if (result.conflict) {
+        // Keep the pre-state and show the conflict on the action card
+        updateActionStatus(action.id, 'completed', {
+          success: true,
+          ...action.result,
+          conflict: result.conflict,
         })
+        toast.push({
+          status: 'warning',
+          title: 'Undo needs review',
+          description: result.message,
+        })
+      } else {
+        toast.push({
+          status: 'error',
+          title: 'Undo failed',
+          description: result.message,
+        })
+      }
+      return result
+    },
+    [undoAction, toast, updateActionStatus, persistActionResult]
+  )
+
+  // Handle approval of a batch - all actions run in one transaction, so they succeed or fail together
+  const handleBatchExecute = useCallback(
+    async (actions: ParsedAction[]) => {
+      actions.forEach((action) => updateActionStatus(action.id, 'executing'))
+
+      // A batch is all-or-nothing, so one action the workflow step does not allow fails all of them
+      const denied = workflowStep
+        ? actions.map((action) => checkStepAction(workflowStep, action)).find(Boolean)
+        : null
+      const results = denied
+        ? actions.map((): ActionResult => ({success: false, message: denied}))
+        : await executeBatch(actions)
+
+      actions.forEach((action, index) => {
+        const result = results[index]
+        const status = result.success ? 'completed' : 'failed'
+        const error = result.success ? undefined : result.message
+        updateActionStatus(action.id, status, result, error)
+        persistActionResult(action.id, status, result, error)
+      })
+
+      if (results.every((result) => result.success)) {
+        toast.push({
+          status: 'success',
+          title: 'Batch completed',
+          description: `All ${actions.length} changes were applied`,
+        })
+      } else {
+        toast.push({
+          status: 'error',
+          title: 'Batch failed',
+          description: 'No changes were applied - see the batch for the change that failed',
+        })
+      }
+    },
+    [executeBatch, workflowStep, toast, updateActionStatus, persistActionResult]
+  )
+
+  // Handle undo of a whole batch
+  const handleBatchUndo = useCallback(
+    async (actions: ParsedAction[]): Promise<ActionResult> => {
+      const result = await undoBatch(actions)
+
+      if (result.success) {
+        // Clear the pre-states so the batch drops off the undo stack
+        for (const action of actions) {
+          const undoneResult = {success: true, ...action.result, preState: undefined}
+          updateActionStatus(action.id, 'completed', undoneResult)
+          persistActionResult(action.id, 'completed', undoneResult)
+        }
         toast.push({
           status: 'success',
           title: 'Undo successful',
@@ -310,17 +351,13 @@ export function ClaudeTool(props: ClaudeToolProps) {
           description: result.message,
         })
       }
+      return result
     },
-    [undoAction, toast, updateActionStatus]
+    [undoBatch, toast, updateActionStatus, persistActionResult]
   )
 
   // Build workflow context from pending workflows
-  const workflowContext = pendingWorkflows.length > 0
-    ? pendingWorkflows
-        .filter(w => w.systemInstructions)
-        .map(w => `## Workflow: ${w.name}\n\n${w.systemInstructions}`)
-        .join('\n\n')
-    : undefined
+  const workflowContext = buildSelectedWorkflowsContext(pendingWorkflows, pipelineStepIndex)
 
   // Initialize chat hook with apiEndpoint from options
   // Note: We don't pass onAction here because action execution happens via ActionCard
@@ -333,6 +370,9 @@ export function ClaudeTool(props: ClaudeToolProps) {
     clearMessages,
     retryLastMessage,
     setMessages,
+    budget,
+    summary,
+    editSummary,
   } = useClaudeChat({
     apiEndpoint: apiEndpoint || '/api/claude',
     schemaContext,
@@ -345,12 +385,20 @@ export function ClaudeTool(props: ClaudeToolProps) {
     onAddMessage: addMessage,
     onUpdateMessage: updateMessage,
     onGenerateTitle: generateTitle,
+    onUpdateSummary: updateSummary,
+    onRecordSummaryUsage: recordSummaryUsage,
     // onAction is intentionally not set - action execution happens via ActionCard's
     // auto-execute useEffect (for read-only actions) or manual button click (for modifying actions)
     enableStreaming: settings.enableStreaming,
     model: settings.model,
     maxTokens: settings.maxTokens,
     temperature: settings.temperature,
+    accessControl,
+    executeAgentAction: executeStepAction,
+    workflowStep,
+    agentMaxSteps: settings.agentMaxSteps,
+    agentTokenBudget: settings.agentTokenBudget,
+    summaryThresholdTokens: settings.summaryThresholdTokens,
   })
 
   // Update refs when functions are available
@@ -358,12 +406,6 @@ export function ClaudeTool(props: ClaudeToolProps) {
     setMessagesRef.current = setMessages
   }, [setMessages])
 
-  // sendMessageRef is for follow-up messages (query results) - uses sendMessage directly
-  // to avoid creating duplicate conversations
-  useEffect(() => {
-    sendMessageRef.current = sendMessage
-  }, [sendMessage])
-
   // Track pending message that needs to be sent after conversation is created
   const pendingMessageRef = useRef<{content: string, images?: ImageAttachment[], documents?: DocumentContext[]} | null>(null)
 
@@ -477,6 +519,9 @@ export function ClaudeTool(props: ClaudeToolProps) {
             description: w.description,
             systemInstructions: w.systemInstructions,
             starterPrompt: w.starterPrompt,
+            enableFigmaFetch: w.enableFigmaFetch,
+            parameters: w.parameters,
+            steps: w.steps,
           }))
 
         if (restoredWorkflows.length > 0) {
@@ -512,6 +557,38 @@ export function ClaudeTool(props: ClaudeToolProps) {
     hasManualWorkflowChangeRef.current = true
   }, [activeConversation?.id, updateWorkflowIds])
 
+  // Message that starts the next workflow step, sent once the step's prompt is active
+  const pendingStepMessageRef = useRef<{stepIndex: number; content: string} | null>(null)
+
+  // Move the pipeline to another step; moving forward past a gate is the approval
+  const handleWorkflowStepChange = useCallback(
+    async (stepIndex: number) => {
+      if (!activeConversation?.id || !pipelineWorkflow?.steps) return
+
+      const steps = pipelineWorkflow.steps
+      const nextStep = steps[stepIndex]
+      if (nextStep && stepIndex > pipelineStepIndex) {
+        const finishedStep = steps[stepIndex - 1]
+        pendingStepMessageRef.current = {
+          stepIndex,
+          content: `${finishedStep.requireApproval ? `Step ${stepIndex} "${finishedStep.title}" is approved. ` : ''}Continue with step ${stepIndex + 1}: ${nextStep.title}.`,
+        }
+      }
+
+      await updatePipelineProgress(activeConversation.id, {workflowId: pipelineWorkflow._id, stepIndex})
+    },
+    [activeConversation?.id, pipelineWorkflow, pipelineStepIndex, updatePipelineProgress]
+  )
+
+  // Send the next step's message once the conversation is on that step
+  useEffect(() => {
+    const pending = pendingStepMessageRef.current
+    if (pending && pending.stepIndex === pipelineStepIndex) {
+      pendingStepMessageRef.current = null
+      sendMessage(pending.content)
+    }
+  }, [pipelineStepIndex, sendMessage])
+
   return (
     <Card
       style={{
@@ -543,9 +620,15 @@ export function ClaudeTool(props: ClaudeToolProps) {
         onSendMessage={handleSendMessage}
         onClearMessages={clearMessages}
         onRetryLastMessage={retryLastMessage}
+        budget={budget}
+        summary={summary}
+        onEditSummary={editSummary}
         // Actions
         onActionExecute={handleAction}
         onActionUndo={handleUndo}
+        onActionPreview={previewAction}
+        onActionBatchExecute={handleBatchExecute}
+        onActionBatchUndo={handleBatchUndo}
         // Instructions
         instructions={instructions}
         activeInstruction={activeInstruction}
@@ -556,6 +639,8 @@ export function ClaudeTool(props: ClaudeToolProps) {
         onWorkflowsChange={handleWorkflowsChange}
         onRemoveWorkflow={handleRemoveWorkflow}
         workflowsLoading={workflowsLoading}
+        workflowProgress={pipelineWorkflow ? {workflow: pipelineWorkflow, stepIndex: pipelineStepIndex} : null}
+        onWorkflowStepChange={handleWorkflowStepChange}
         // Document context
         pendingDocuments={pendingDocuments}
         onDocumentsChange={handleDocumentsChange}
@@ -7,8 +7,9 @@
  * - Expanded (on click): payload, result, inline JSON, navigation, action buttons
  */
 
-import {useEffect, useRef, useCallback, useState} from 'react'
-import {Box, Button, Card, Flex, Stack, Text, Code, Spinner} from '@sanity/ui'
+import {useEffect, useMemo, useRef, useCallback, useState} from 'react'
+import {Badge, Box, Button, Card, Flex, Stack, Text, Code, Spinner} from '@sanity/ui'
+import type {BadgeTone} from '@sanity/ui'
 import {
   AddIcon,
   EditIcon,
@@ -28,16 +29,26 @@ import {
   ImageIcon,
   ChevronDownIcon,
   ChevronRightIcon,
+  PublishIcon,
+  UnpublishIcon,
+  ResetIcon,
+  CalendarIcon,
 } from '@sanity/icons'
-import type {ParsedAction, ActionType, ActionStatus} from '../types'
+import type {ParsedAction, ActionType, ActionStatus, UndoConflict, UndoOptions} from '../types'
 import {isDestructiveAction, shouldAutoExecute} from '../lib/actions'
+import {canUndoAction} from '../lib/undo'
+import {DIFF_ACTION_TYPES, diffActionPreview} from '../lib/diff'
+import {ActionDiff} from './ActionDiff'
+import {UndoConflictPanel} from './UndoConflictPanel'
 
 export interface ActionCardProps {
   action: ParsedAction
   onExecute?: () => void | Promise<void>
   onCancel?: () => void
   onClick?: () => void
-  onUndo?: () => void | Promise<void>
+  onUndo?: (options?: UndoOptions) => void | Promise<unknown>
+  /** Loads the current document and proposed changes, shown as a diff before approval */
+  onPreview?: () => Promise<unknown>
   showPreview?: boolean
   /** Called when user wants to open document in Structure tool */
   onOpenInStructure?: (documentId: string, documentType?: string) => void
@@ -60,7 +71,12 @@ function getActionIcon(type: ActionType) {
   const icons: Record<ActionType, React.ReactNode> = {
     create: <AddIcon />,
     update: <EditIcon />,
+    patch: <EditIcon />,
     delete: <TrashIcon />,
+    publish: <PublishIcon />,
+    unpublish: <UnpublishIcon />,
+    discardDraft: <ResetIcon />,
+    schedulePublish: <CalendarIcon />,
     query: <SearchIcon />,
     navigate: <LinkIcon />,
     explain: <InfoOutlineIcon />,
@@ -72,6 +88,26 @@ function getActionIcon(type: ActionType) {
   return icons[type]
 }
 
+/**
+ * Badges for actions that change what is live, shown in the collapsed header row
+ */
+const LIFECYCLE_BADGES: Partial<Record<ActionType, {label: string; tone: BadgeTone}>> = {
+  publish: {label: 'Publish', tone: 'positive'},
+  unpublish: {label: 'Unpublish', tone: 'caution'},
+  discardDraft: {label: 'Discard draft', tone: 'critical'},
+  schedulePublish: {label: 'Scheduled', tone: 'primary'},
+}
+
+/**
+ * Format a publish time for display in the user's locale
+ */
+function formatPublishAt(publishAt: string): string {
+  const date = new Date(publishAt)
+  return Number.isNaN(date.getTime())
+    ? publishAt
+    : date.toLocaleString(undefined, {dateStyle: 'medium', timeStyle: 'short'})
+}
+
 /**
  * Get status indicator for the collapsed header row
  */
@@ -162,6 +198,7 @@ export function ActionCard({
   onCancel,
   onClick,
   onUndo,
+  onPreview,
   showPreview = true,
   onOpenInStructure,
   onOpenInPreview,
@@ -180,27 +217,29 @@ export function ActionCard({
 
   // Determine if this action is destructive and needs confirmation
   const isDestructive = isDestructiveAction(action)
+  const lifecycleBadge = LIFECYCLE_BADGES[action.type]
   const shouldAutoExec = shouldAutoExecute(action)
 
   // Track if action has been executed before (has a result or was auto-executed)
   const hasBeenExecuted = !!action.result || hasAutoExecuted.current
 
   // Actions can be executed if they are NOT auto-executable (query, explain, navigate, etc.)
-  // AND either pending (first execution) or completed successfully (re-execution)
-  const canExecute = !shouldAutoExec && (isPending || (isCompleted && action.result?.success))
+  // AND either pending (first execution) or completed successfully (re-execution).
+  // Actions in a batch have no onExecute - they are approved together on the BatchCard.
+  const canExecute = !!onExecute && !shouldAutoExec && (isPending || (isCompleted && action.result?.success))
   const needsConfirmation = canExecute && isDestructive && !hasBeenExecuted
 
   // Undo is available if:
   // - Action completed successfully
   // - Pre-state was captured
   // - onUndo callback is provided
-  // - Action type is undoable (update, delete, create)
-  const undoableTypes: ActionType[] = ['update', 'delete', 'create']
-  const canUndo = isCompleted &&
-                  action.result?.success &&
-                  action.result?.preState !== undefined &&
-                  onUndo &&
-                  undoableTypes.includes(action.type)
+  // - Action type is undoable (update, patch, delete, create)
+  const canUndo = !!onUndo && canUndoAction(action)
+
+  // A blocked undo leaves a conflict on the result until it is resolved or dismissed
+  const conflict = action.result?.conflict
+  const [dismissedConflict, setDismissedConflict] = useState<UndoConflict | null>(null)
+  const showConflict = canUndo && !!conflict && conflict !== dismissedConflict
 
   // Extract result data for document info
   const resultData = action.result?.data as Record<string, unknown> | undefined
@@ -220,6 +259,27 @@ export function ActionCard({
   // Default open when action needs user interaction (has Execute button)
   const [isExpanded, setIsExpanded] = useState(!shouldAutoExec && isPending)
 
+  // Load the current document for the diff view the first time a pending update is opened
+  const [preview, setPreview] = useState<unknown>(null)
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false)
+  const hasRequestedPreview = useRef(false)
+  const wantsDiff = showPreview && isPending && DIFF_ACTION_TYPES.includes(action.type) && !!onPreview
+
+  useEffect(() => {
+    if (!isExpanded || !wantsDiff || hasRequestedPreview.current) return
+    hasRequestedPreview.current = true
+    setIsLoadingPreview(true)
+    onPreview!()
+      .then(setPreview)
+      .catch((err) => console.warn('[ActionCard] Failed to load preview:', err))
+      .finally(() => setIsLoadingPreview(false))
+  }, [isExpanded, wantsDiff, onPreview])
+
+  const diffEntries = useMemo(
+    () => (wantsDiff && preview ? diffActionPreview(action, preview) : null),
+    [wantsDiff, preview, action]
+  )
+
   // Auto-execute non-destructive actions when enabled
   useEffect(() => {
     if (
@@ -320,6 +380,15 @@ export function ActionCard({
           {action.description}
         </Text>
 
+        {/* Publishing lifecycle badge */}
+        {lifecycleBadge && (
+          <Badge tone={lifecycleBadge.tone} fontSize={0} style={{flexShrink: 0}}>
+            {action.type === 'schedulePublish' && action.payload.publishAt
+              ? `${lifecycleBadge.label} · ${formatPublishAt(action.payload.publishAt)}`
+              : lifecycleBadge.label}
+          </Badge>
+        )}
+
         {/* Status indicator */}
         <Box style={{flexShrink: 0}}>
           <StatusIndicator status={action.status} />
@@ -366,10 +435,36 @@ export function ActionCard({
                       Fields: {Object.keys(action.payload.fields).join(', ')}
                     </Text>
                   )}
+                  {action.payload.publishAt && (
+                    <Text size={0} muted style={{wordBreak: 'break-all'}}>
+                      Publish at: {formatPublishAt(action.payload.publishAt)}
+                    </Text>
+                  )}
+                  {action.payload.operations && action.payload.operations.length > 0 && (
+                    <Text size={0} muted style={{wordBreak: 'break-all'}}>
+                      Operations: {action.payload.operations.map((operation) => `${operation.op} ${operation.path}`).join(', ')}
+                    </Text>
+                  )}
                 </Stack>
               </Card>
             )}
 
+            {/* Field-level diff of the proposed changes */}
+            {wantsDiff && (isLoadingPreview || diffEntries) && (
+              <Box>
+                {isLoadingPreview ? (
+                  <Flex align="center" gap={2}>
+                    <Spinner style={{width: 12, height: 12}} />
+                    <Text size={0} muted>
+                      Loading changes...
+                    </Text>
+                  </Flex>
+                ) : (
+                  <ActionDiff entries={diffEntries!} />
+                )}
+              </Box>
+            )}
+
             {/* Result message */}
             {action.result && (
               <Box>
@@ -443,8 +538,17 @@ export function ActionCard({
               </Flex>
             )}
 
+            {/* Undo conflict: the document changed after this action */}
+            {showConflict && (
+              <UndoConflictPanel
+                conflict={conflict!}
+                onRevertFields={(fields) => onUndo?.({fields})}
+                onAbort={() => setDismissedConflict(conflict!)}
+              />
+            )}
+
             {/* Action buttons */}
-            {(canExecute || canCancel || canUndo) && (
+            {(canExecute || canCancel || (canUndo && !showConflict)) && (
               <Flex gap={2} justify="flex-end">
                 {canCancel && (
                   <Button
@@ -458,7 +562,7 @@ export function ActionCard({
                     }}
                   />
                 )}
-                {canUndo && (
+                {canUndo && !showConflict && (
                   <Button
                     text="Undo"
                     tone="caution"
@@ -0,0 +1,150 @@
+/**
+ * ActionDiff Component
+ *
+ * Field-level review of the changes an update or patch action would make.
+ * Each change shows a breadcrumb to its location, what kind of change it is,
+ * and an inline word diff for text or the before/after values otherwise.
+ */
+
+import {useState} from 'react'
+import {Badge, Box, Button, Card, Flex, Stack, Text} from '@sanity/ui'
+import type {BadgeTone} from '@sanity/ui'
+import type {DiffEntry, DiffKind, TextSegment} from '../lib/diff'
+
+/**
+ * Number of changes shown before the list is collapsed
+ */
+const INITIAL_ENTRY_COUNT = 8
+
+/**
+ * Longest value preview shown for non-text changes
+ */
+const MAX_VALUE_LENGTH = 160
+
+const KIND_LABELS: Record<DiffKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  moved: 'Moved',
+}
+
+const KIND_TONES: Record<DiffKind, BadgeTone> = {
+  added: 'positive',
+  removed: 'critical',
+  changed: 'caution',
+  moved: 'primary',
+}
+
+const ADDED_STYLE = {backgroundColor: 'rgba(67, 160, 71, 0.25)', borderRadius: 2}
+const REMOVED_STYLE = {backgroundColor: 'rgba(229, 57, 53, 0.25)', borderRadius: 2, textDecoration: 'line-through'}
+
+/**
+ * Format a value for a one-line preview
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(empty)'
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value)
+  return text.length > MAX_VALUE_LENGTH ? `${text.substring(0, MAX_VALUE_LENGTH)}…` : text
+}
+
+/**
+ * Inline word diff with additions highlighted and removals struck through
+ */
+function TextDiff({segments}: {segments: TextSegment[]}) {
+  return (
+    <Text size={1} style={{whiteSpace: 'pre-wrap', wordBreak: 'break-word'}}>
+      {segments.map((segment, index) => (
+        <span
+          key={index}
+          style={segment.type === 'added' ? ADDED_STYLE : segment.type === 'removed' ? REMOVED_STYLE : undefined}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </Text>
+  )
+}
+
+/**
+ * A single change: breadcrumb, kind badge and the changed value
+ */
+function DiffEntryRow({entry}: {entry: DiffEntry}) {
+  return (
+    <Card padding={2} radius={2} border>
+      <Stack space={2}>
+        <Flex align="center" gap={2}>
+          <Badge tone={KIND_TONES[entry.kind]} fontSize={0}>
+            {KIND_LABELS[entry.kind]}
+          </Badge>
+          <Text size={0} muted style={{wordBreak: 'break-word'}}>
+            {entry.breadcrumb.join(' → ')}
+          </Text>
+        </Flex>
+
+        {entry.detail && (
+          <Text size={1} muted>
+            {entry.detail}
+          </Text>
+        )}
+
+        {entry.text ? (
+          <TextDiff segments={entry.text} />
+        ) : (
+          <>
+            {entry.kind !== 'added' && entry.kind !== 'moved' && (
+              <Text size={1} style={{wordBreak: 'break-word'}}>
+                <span style={REMOVED_STYLE}>{formatValue(entry.before)}</span>
+              </Text>
+            )}
+            {entry.kind !== 'removed' && entry.kind !== 'moved' && (
+              <Text size={1} style={{wordBreak: 'break-word'}}>
+                <span style={ADDED_STYLE}>{formatValue(entry.after)}</span>
+              </Text>
+            )}
+          </>
+        )}
+      </Stack>
+    </Card>
+  )
+}
+
+export function ActionDiff({entries}: {entries: DiffEntry[]}) {
+  const [showAll, setShowAll] = useState(false)
+
+  if (entries.length === 0) {
+    return (
+      <Text size={0} muted>
+        No changes - the document already matches.
+      </Text>
+    )
+  }
+
+  const visibleEntries = showAll ? entries : entries.slice(0, INITIAL_ENTRY_COUNT)
+  const hiddenCount = entries.length - visibleEntries.length
+
+  return (
+    <Stack space={2}>
+      <Text size={0} weight="semibold" muted>
+        {entries.length} change{entries.length !== 1 ? 's' : ''}
+      </Text>
+      {visibleEntries.map((entry, index) => (
+        <DiffEntryRow key={index} entry={entry} />
+      ))}
+      {hiddenCount > 0 && (
+        <Box>
+          <Button
+            mode="bleed"
+            tone="primary"
+            fontSize={0}
+            padding={1}
+            text={`Show ${hiddenCount} more change${hiddenCount !== 1 ? 's' : ''}`}
+            onClick={(e) => {
+              e.stopPropagation()
+              setShowAll(true)
+            }}
+          />
+        </Box>
+      )}
+    </Stack>
+  )
+}
@@ -0,0 +1,240 @@
+/**
+ * AuditLogView Component
+ *
+ * Browses the audit log of content changes Claude made. Used as the
+ * "Audit Log" pane under Claude Settings, with filters for document, source,
+ * action and outcome, and as the "Claude History" view of each document.
+ */
+
+import React, {useState} from 'react'
+import {Badge, Box, Button, Card, Code, Flex, Select, Spinner, Stack, Text, TextInput} from '@sanity/ui'
+import {ChevronDownIcon, ChevronRightIcon, ResetIcon} from '@sanity/icons'
+import {IntentLink} from 'sanity/router'
+import {AUDITED_ACTION_TYPES} from 'claude-core'
+import {format, parseISO} from 'date-fns'
+import type {AuditEntry, AuditSource} from '../types'
+import {useAuditLog, type AuditLogFilters} from '../hooks/useAuditLog'
+
+export interface AuditLogViewProps {
+  /** Only show entries for this document, without the document filter */
+  documentId?: string
+}
+
+/**
+ * Props of a document view, when used with S.view.component()
+ */
+interface DocumentViewProps {
+  documentId: string
+}
+
+const SOURCE_OPTIONS: Array<{value: AuditSource; title: string}> = [
+  {value: 'studio', title: 'Claude tool'},
+  {value: 'floatingChat', title: 'Floating chat'},
+  {value: 'remote', title: 'Remote API'},
+  {value: 'mcp', title: 'MCP server'},
+]
+
+const LINK_STYLE: React.CSSProperties = {color: 'var(--card-link-color)', textDecoration: 'none'}
+
+/**
+ * Shorten a revision ID for display
+ */
+function formatRevision(revision?: string): string {
+  return revision ? revision.slice(0, 8) : '—'
+}
+
+/**
+ * One audit entry, expandable to its payload and revisions
+ */
+function AuditEntryCard({entry, showDocument}: {entry: AuditEntry; showDocument: boolean}) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const source = SOURCE_OPTIONS.find((option) => option.value === entry.source)?.title || entry.source
+
+  return (
+    <Card padding={3} radius={2} border tone={entry.success ? 'default' : 'critical'}>
+      <Stack space={3}>
+        <Flex align="center" gap={2}>
+          <Button
+            icon={isExpanded ? ChevronDownIcon : ChevronRightIcon}
+            mode="bleed"
+            padding={1}
+            onClick={() => setIsExpanded(!isExpanded)}
+            aria-expanded={isExpanded}
+            aria-label={isExpanded ? 'Hide details' : 'Show details'}
+          />
+          <Badge fontSize={0} tone={entry.success ? 'positive' : 'critical'}>
+            {entry.undo ? `undo ${entry.actionType}` : entry.actionType}
+          </Badge>
+          <Box style={{flex: 1, minWidth: 0}}>
+            <Text size={1} textOverflow="ellipsis">
+              {entry.description}
+            </Text>
+          </Box>
+          <Text size={1} muted>
+            {format(parseISO(entry.timestamp), 'MMM d, yyyy h:mm a')}
+          </Text>
+        </Flex>
+
+        <Flex gap={3} wrap="wrap" paddingLeft={5}>
+          <Text size={0} muted>
+            {entry.userName || entry.apiKeyName || entry.userId || entry.apiKeyId || 'Unknown'} · {source}
+          </Text>
+          {showDocument && entry.documentId && (
+            <Text size={0}>
+              {entry.documentType ? (
+                <IntentLink
+                  intent="edit"
+                  params={{id: entry.documentId.replace(/^drafts\./, ''), type: entry.documentType}}
+                  style={LINK_STYLE}
+                >
+                  {entry.documentId}
+                </IntentLink>
+              ) : (
+                entry.documentId
+              )}
+            </Text>
+          )}
+          {entry.conversation && (
+            <Text size={0}>
+              <IntentLink
+                intent="edit"
+                params={{id: entry.conversation._ref, type: 'claudeConversation'}}
+                style={LINK_STYLE}
+              >
+                Conversation
+              </IntentLink>
+            </Text>
+          )}
+        </Flex>
+
+        {isExpanded && (
+          <Stack space={3} paddingLeft={5}>
+            {entry.message && (
+              <Text size={1} muted>
+                {entry.message}
+              </Text>
+            )}
+            <Text size={1} muted>
+              Revision {formatRevision(entry.revisionBefore)} → {formatRevision(entry.revisionAfter)}
+              {entry.batchId ? ` · batch ${entry.batchId.slice(0, 8)}` : ''}
+            </Text>
+            <Card padding={2} radius={2} tone="transparent" style={{overflowX: 'auto'}}>
+              <Code size={0}>{entry.payloadJson}</Code>
+            </Card>
+          </Stack>
+        )}
+      </Stack>
+    </Card>
+  )
+}
+
+export function AuditLogView({documentId}: AuditLogViewProps) {
+  const [filters, setFilters] = useState<AuditLogFilters>({})
+  const {entries, isLoading, error, refetch} = useAuditLog({...filters, documentId: documentId || filters.documentId})
+
+  return (
+    <Box padding={4}>
+      <Stack space={4}>
+        {/* Filters */}
+        <Flex gap={3} align="flex-end" wrap="wrap">
+          {!documentId && (
+            <Stack space={2}>
+              <Text size={1} weight="medium">Document ID</Text>
+              <TextInput
+                value={filters.documentId || ''}
+                placeholder="Any document"
+                onChange={(e) => setFilters((prev) => ({...prev, documentId: e.currentTarget.value || undefined}))}
+              />
+            </Stack>
+          )}
+          <Stack space={2}>
+            <Text size={1} weight="medium">Source</Text>
+            <Select
+              value={filters.source || ''}
+              onChange={(e) =>
+                setFilters((prev) => ({...prev, source: (e.currentTarget.value as AuditSource) || undefined}))
+              }
+            >
+              <option value="">All sources</option>
+              {SOURCE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.title}
+                </option>
+              ))}
+            </Select>
+          </Stack>
+          <Stack space={2}>
+            <Text size={1} weight="medium">Action</Text>
+            <Select
+              value={filters.actionType || ''}
+              onChange={(e) => setFilters((prev) => ({...prev, actionType: e.currentTarget.value || undefined}))}
+            >
+              <option value="">All actions</option>
+              {AUDITED_ACTION_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </Select>
+          </Stack>
+          <Stack space={2}>
+            <Text size={1} weight="medium">Outcome</Text>
+            <Select
+              value={filters.outcome || ''}
+              onChange={(e) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  outcome: (e.currentTarget.value as AuditLogFilters['outcome']) || undefined,
+                }))
+              }
+            >
+              <option value="">Any outcome</option>
+              <option value="succeeded">Succeeded</option>
+              <option value="failed">Failed</option>
+            </Select>
+          </Stack>
+          <Flex style={{marginLeft: 'auto'}}>
+            <Button icon={ResetIcon} mode="ghost" onClick={refetch} disabled={isLoading} aria-label="Refresh audit log" />
+          </Flex>
+        </Flex>
+
+        {error && (
+          <Card padding={3} radius={2} tone="critical">
+            <Text size={1}>{error}</Text>
+          </Card>
+        )}
+
+        {/* Entries */}
+        {isLoading ? (
+          <Flex justify="center" padding={4}>
+            <Spinner muted />
+          </Flex>
+        ) : entries.length === 0 ? (
+          <Text size={1} muted align="center">
+            {documentId ? 'Claude has not changed this document.' : 'No audit entries match these filters.'}
+          </Text>
+        ) : (
+          <Stack space={2}>
+            {entries.map((entry) => (
+              <AuditEntryCard key={entry._id} entry={entry} showDocument={!documentId} />
+            ))}
+          </Stack>
+        )}
+      </Stack>
+    </Box>
+  )
+}
+
+/**
+ * "Audit Log" structure pane: the whole audit log
+ */
+export function AuditLogPane() {
+  return <AuditLogView />
+}
+
+/**
+ * "Claude History" document view: the audit log of the open document
+ */
+export function AuditLogDocumentView({documentId}: DocumentViewProps) {
+  return <AuditLogView documentId={documentId} />
+}
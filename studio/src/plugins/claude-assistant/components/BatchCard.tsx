@@ -0,0 +1,208 @@
+/**
+ * BatchCard Component
+ *
+ * Groups the related write actions of one response into a batch that is
+ * approved once. Shows the combined preview of every change, runs them all
+ * in a single transaction and offers one undo for the whole batch. The
+ * individual actions stay listed below with their own results.
+ */
+
+import {useEffect, useMemo, useRef, useState} from 'react'
+import {Box, Button, Card, Flex, Spinner, Stack, Text} from '@sanity/ui'
+import {CheckmarkIcon, ChevronDownIcon, ChevronRightIcon, StackIcon, UndoIcon, WarningOutlineIcon} from '@sanity/icons'
+import type {ParsedAction} from '../types'
+import {canUndoBatch} from '../lib/undo'
+import {DIFF_ACTION_TYPES, diffActionPreview} from '../lib/diff'
+import {ActionCard} from './ActionCard'
+import {ActionDiff} from './ActionDiff'
+
+export interface BatchCardProps {
+  actions: ParsedAction[]
+  /** Approve and run every action of the batch in one transaction */
+  onExecute?: (actions: ParsedAction[]) => void | Promise<void>
+  /** Undo the whole batch in one transaction */
+  onUndo?: (actions: ParsedAction[]) => void | Promise<unknown>
+  /** Load the current document and proposed changes of one action */
+  onPreview?: (action: ParsedAction) => Promise<unknown>
+  onActionClick?: (action: ParsedAction) => void
+  messageTimestamp?: Date
+  hideNavigationLinks?: boolean
+  conversationId?: string
+}
+
+/**
+ * Combined preview: each action's description with its field-level diff
+ */
+function BatchPreview({actions, onPreview}: {actions: ParsedAction[]; onPreview?: (action: ParsedAction) => Promise<unknown>}) {
+  const [previews, setPreviews] = useState<Record<string, unknown>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const hasRequestedPreviews = useRef(false)
+
+  // Load the current documents once, the first time the preview is shown
+  useEffect(() => {
+    if (!onPreview || hasRequestedPreviews.current) return
+    const diffActions = actions.filter((action) => DIFF_ACTION_TYPES.includes(action.type))
+    if (diffActions.length === 0) return
+
+    hasRequestedPreviews.current = true
+    setIsLoading(true)
+    Promise.all(
+      diffActions.map((action) =>
+        onPreview(action)
+          .then((preview) => [action.id, preview] as const)
+          .catch((err) => {
+            console.warn('[BatchCard] Failed to load preview:', err)
+            return [action.id, null] as const
+          })
+      )
+    )
+      .then((entries) => setPreviews(Object.fromEntries(entries)))
+      .finally(() => setIsLoading(false))
+  }, [actions, onPreview])
+
+  const diffs = useMemo(
+    () =>
+      Object.fromEntries(
+        actions.map((action) => [action.id, previews[action.id] ? diffActionPreview(action, previews[action.id]) : null])
+      ),
+    [actions, previews]
+  )
+
+  if (isLoading) {
+    return (
+      <Flex align="center" gap={2}>
+        <Spinner style={{width: 12, height: 12}} />
+        <Text size={0} muted>
+          Loading changes...
+        </Text>
+      </Flex>
+    )
+  }
+
+  return (
+    <Stack space={3}>
+      {actions.map((action, index) => (
+        <Stack key={action.id} space={2}>
+          <Text size={1} weight="semibold" style={{wordBreak: 'break-word'}}>
+            {index + 1}. {action.description}
+          </Text>
+          {diffs[action.id] && <ActionDiff entries={diffs[action.id]!} />}
+        </Stack>
+      ))}
+    </Stack>
+  )
+}
+
+export function BatchCard({
+  actions,
+  onExecute,
+  onUndo,
+  onPreview,
+  onActionClick,
+  messageTimestamp,
+  hideNavigationLinks,
+  conversationId,
+}: BatchCardProps) {
+  const isPending = actions.every((action) => action.status === 'pending')
+  const isExecuting = actions.some((action) => action.status === 'executing')
+  const isCompleted = actions.every((action) => action.status === 'completed')
+  const isFailed = actions.some((action) => action.status === 'failed')
+  const canUndo = !!onUndo && canUndoBatch(actions)
+
+  const [isExpanded, setIsExpanded] = useState(isPending)
+
+  return (
+    <Box>
+      {/* Batch header */}
+      <Flex
+        align="center"
+        gap={2}
+        style={{cursor: 'pointer', padding: '6px 8px', userSelect: 'none'}}
+        onClick={() => setIsExpanded((prev) => !prev)}
+      >
+        <Box style={{color: 'var(--card-muted-fg-color)', display: 'flex', alignItems: 'center', flexShrink: 0}}>
+          {isExpanded ? <ChevronDownIcon style={{width: 16, height: 16}} /> : <ChevronRightIcon style={{width: 16, height: 16}} />}
+        </Box>
+        <Box style={{color: 'var(--card-muted-fg-color)', display: 'flex', alignItems: 'center', flexShrink: 0}}>
+          <StackIcon />
+        </Box>
+        <Text size={1} style={{flex: 1}}>
+          {actions.length} changes as one batch
+        </Text>
+        {isExecuting && <Spinner style={{width: 12, height: 12}} />}
+        {isCompleted && (
+          <Text size={0} style={{color: 'var(--card-badge-positive-dot-color, #43a047)'}}>
+            Applied
+          </Text>
+        )}
+        {isFailed && (
+          <Text size={0} style={{color: 'var(--card-badge-critical-dot-color, #e53935)'}}>
+            Not applied
+          </Text>
+        )}
+      </Flex>
+
+      {isExpanded && (
+        <Box style={{padding: '0.5rem 0.5rem 0.5rem 2rem'}}>
+          <Stack space={3}>
+            {isPending && (
+              <>
+                <Card padding={2} radius={2} tone="caution">
+                  <Flex align="center" gap={2}>
+                    <WarningOutlineIcon />
+                    <Text size={1}>
+                      These changes are applied together. If any of them fails, none are applied.
+                    </Text>
+                  </Flex>
+                </Card>
+                <BatchPreview actions={actions} onPreview={onPreview} />
+              </>
+            )}
+
+            {/* Individual actions and their results */}
+            <Stack space={1}>
+              {actions.map((action) => (
+                <ActionCard
+                  key={action.id}
+                  action={action}
+                  onClick={() => onActionClick?.(action)}
+                  messageTimestamp={messageTimestamp}
+                  hideNavigationLinks={hideNavigationLinks}
+                  conversationId={conversationId}
+                />
+              ))}
+            </Stack>
+
+            {((isPending && onExecute) || canUndo) && (
+              <Flex gap={2} justify="flex-end">
+                {canUndo && (
+                  <Button
+                    text="Undo batch"
+                    tone="caution"
+                    mode="ghost"
+                    icon={UndoIcon}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onUndo?.(actions)
+                    }}
+                  />
+                )}
+                {isPending && onExecute && (
+                  <Button
+                    text={`Approve all ${actions.length}`}
+                    tone={actions.some((action) => action.type === 'delete') ? 'critical' : 'primary'}
+                    icon={CheckmarkIcon}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onExecute(actions)
+                    }}
+                  />
+                )}
+              </Flex>
+            )}
+          </Stack>
+        </Box>
+      )}
+    </Box>
+  )
+}
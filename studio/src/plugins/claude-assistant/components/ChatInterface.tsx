@@ -14,6 +14,7 @@
 import React, {useCallback, useState, useRef, useEffect, useMemo} from 'react'
 import {Box, Card, Flex, Stack, Text, Button, Tooltip, Spinner, Menu, MenuButton, MenuItem, Dialog, Label} from '@sanity/ui'
 import {
+  BarChartIcon,
   CogIcon,
   TrashIcon,
   ResetIcon,
@@ -23,18 +24,24 @@ import {
   EllipsisVerticalIcon,
   DesktopIcon,
   DocumentsIcon,
+  UndoIcon,
 } from '@sanity/icons'
 import type {SanityClient, Schema, CurrentUser} from 'sanity'
+import {interpolateWorkflowPrompt} from 'claude-core'
 import type {
+  ActionResult,
   Conversation,
   InstructionSet,
   Message,
   ParsedAction,
   PluginSettings,
+  BudgetStatus,
+  ConversationSummary,
   QuickAction,
   SchemaContext,
   ImageAttachment,
   DocumentContext as DocumentContextType,
+  UndoOptions,
 } from '../types'
 import {MessageList} from './MessageList'
 import {MessageInput, WorkflowOption} from './MessageInput'
@@ -42,8 +49,11 @@ import {QuickActions} from './QuickActions'
 import {ConversationSidebar} from './ConversationSidebar'
 import {ImagePickerDialog} from './ImagePickerDialog'
 import {DocumentPickerDialog} from './DocumentPicker'
-import {WorkflowPickerDialog} from './WorkflowPicker'
+import {WorkflowPickerDialog, WorkflowProgress} from './WorkflowPicker'
+import {UsageDialog} from './UsageDialog'
+import {ConversationSummaryCard} from './ConversationSummaryCard'
 import {useKeyboardShortcuts, announceToScreenReader} from '../hooks/useKeyboardShortcuts'
+import {getUndoStack, undoInOrder} from '../lib/undo'
 import type {Workflow} from '../hooks/useWorkflows'
 
 /**
@@ -57,6 +67,8 @@ function toWorkflowOption(workflow: Workflow): WorkflowOption {
     systemInstructions: workflow.systemInstructions,
     starterPrompt: workflow.starterPrompt,
     enableFigmaFetch: workflow.enableFigmaFetch,
+    parameters: workflow.parameters,
+    steps: workflow.steps,
   }
 }
 
@@ -89,9 +101,17 @@ export interface ChatInterfaceProps {
   onSendMessage: (content: string, images?: ImageAttachment[]) => Promise<void>
   onClearMessages: () => void
   onRetryLastMessage: () => Promise<void>
+  /** Monthly budget status for the current user */
+  budget?: BudgetStatus | null
+  /** Summary sent to Claude in place of the conversation's earlier messages */
+  summary?: ConversationSummary | null
+  onEditSummary?: (content: string | null) => Promise<void>
   // Actions
   onActionExecute: (action: ParsedAction) => Promise<void>
-  onActionUndo?: (action: ParsedAction) => Promise<void>
+  onActionUndo?: (action: ParsedAction, options?: UndoOptions) => Promise<ActionResult | void>
+  onActionPreview?: (action: ParsedAction) => Promise<unknown>
+  onActionBatchExecute?: (actions: ParsedAction[]) => Promise<void>
+  onActionBatchUndo?: (actions: ParsedAction[]) => Promise<ActionResult | void>
   // Instructions
   instructions?: InstructionSet[]
   activeInstruction?: InstructionSet | null
@@ -102,6 +122,9 @@ export interface ChatInterfaceProps {
   onWorkflowsChange?: (workflows: WorkflowOption[]) => void
   onRemoveWorkflow?: (workflowId: string) => void
   workflowsLoading?: boolean
+  /** Multi-step skill applied to the conversation, and its current step */
+  workflowProgress?: {workflow: WorkflowOption; stepIndex: number} | null
+  onWorkflowStepChange?: (stepIndex: number) => void
   // Document context
   pendingDocuments?: DocumentContextType[]
   onDocumentsChange?: (documents: DocumentContextType[]) => void
@@ -323,9 +346,15 @@ export function ChatInterface({
   onSendMessage,
   onClearMessages,
   onRetryLastMessage,
+  budget,
+  summary,
+  onEditSummary,
   // Actions
   onActionExecute,
   onActionUndo,
+  onActionPreview,
+  onActionBatchExecute,
+  onActionBatchUndo,
   // Instructions (optional)
   instructions,
   activeInstruction,
@@ -336,6 +365,8 @@ export function ChatInterface({
   onWorkflowsChange: onWorkflowsChangeProp,
   onRemoveWorkflow: onRemoveWorkflowProp,
   workflowsLoading,
+  workflowProgress,
+  onWorkflowStepChange,
   // Document context (optional, lifted from parent)
   pendingDocuments: pendingDocumentsProp,
   onDocumentsChange: onDocumentsChangeProp,
@@ -358,6 +389,8 @@ export function ChatInterface({
   const [localPendingWorkflows, setLocalPendingWorkflows] = useState<WorkflowOption[]>([])
   // State for workflow picker dialog
   const [workflowPickerOpen, setWorkflowPickerOpen] = useState(false)
+  // State for usage dialog
+  const [usageOpen, setUsageOpen] = useState(false)
   // State for document selection modal when continuing to Presentation/Structure
   const [documentSelectModalOpen, setDocumentSelectModalOpen] = useState(false)
   const [pendingNavigationMode, setPendingNavigationMode] = useState<'presentation' | 'structure' | null>(null)
@@ -541,6 +574,12 @@ export function ChatInterface({
     }
   }, [allExtractedDocuments, activeConversation?.id, hasManualDocumentSelection, pendingDocuments.length, client, setPendingDocuments])
 
+  // Quick actions fit the one document in context, if there is exactly one
+  const quickActionContext = useMemo(
+    () => ({document: pendingDocuments.length === 1 ? pendingDocuments[0] : null}),
+    [pendingDocuments]
+  )
+
   // Handle quick action selection - pre-populates the input instead of sending immediately
   const handleQuickAction = useCallback(
     (action: QuickAction) => {
@@ -594,11 +633,19 @@ export function ChatInterface({
   // Handle workflow selection change from picker
   const handleWorkflowsChange = useCallback((newWorkflows: WorkflowOption[]) => {
     setPendingWorkflows(newWorkflows)
-    // If a new workflow was added and it has a starter prompt, pre-populate input
+    // If a new workflow was added and it has a starter prompt, pre-populate input,
+    // with the parameter values the user just filled in
     if (newWorkflows.length > pendingWorkflows.length) {
       const addedWorkflow = newWorkflows[newWorkflows.length - 1]
-      if (addedWorkflow?.starterPrompt && !pendingInput) {
-        setPendingInput(addedWorkflow.starterPrompt)
+      if (addedWorkflow?.starterPrompt && (!pendingInput || addedWorkflow.parameterValues)) {
+        setPendingInput(
+          interpolateWorkflowPrompt(
+            addedWorkflow.starterPrompt,
+            addedWorkflow.parameters || [],
+            addedWorkflow.parameterValues || {},
+            addedWorkflow.parameterLabels
+          )
+        )
         setTimeout(() => {
           messageInputRef.current?.focus()
         }, 50)
@@ -651,6 +698,36 @@ export function ChatInterface({
     announceToScreenReader('Conversation cleared')
   }, [onClearMessages])
 
+  // Conversation-wide undo stack: executed actions and batches, most recent first
+  const undoStack = useMemo(() => getUndoStack(messages), [messages])
+  const [isUndoing, setIsUndoing] = useState(false)
+
+  // Undo the most recent entries in order, stopping at the first failure or conflict
+  const handleUndoStack = useCallback(
+    async (count: number) => {
+      if (!onActionUndo) return
+      setIsUndoing(true)
+      try {
+        const {undone, stoppedBy} = await undoInOrder(undoStack.slice(0, count), async (entry) => {
+          if (entry.actions.length === 1) {
+            return onActionUndo(entry.actions[0])
+          }
+          return onActionBatchUndo
+            ? onActionBatchUndo(entry.actions)
+            : {success: false, message: 'Batches cannot be undone here'}
+        })
+        announceToScreenReader(
+          stoppedBy
+            ? `Undid ${undone} of ${count} actions. Stopped: ${stoppedBy.message}`
+            : `Undid ${undone} action${undone !== 1 ? 's' : ''}`
+        )
+      } finally {
+        setIsUndoing(false)
+      }
+    },
+    [onActionUndo, onActionBatchUndo, undoStack]
+  )
+
   // Focus the message input
   const focusMessageInput = useCallback(() => {
     messageInputRef.current?.focus()
@@ -816,6 +893,7 @@ export function ChatInterface({
           onDelete={onDeleteConversation}
           onCreate={handleNewChat}
           onRename={onRenameConversation}
+          workflows={workflows}
         />
       )}
 
@@ -917,6 +995,23 @@ export function ChatInterface({
                 </>
               )}
 
+              <Tooltip
+                content={
+                  <Box padding={2}>
+                    <Text size={1}>Usage</Text>
+                  </Box>
+                }
+                placement="bottom"
+                portal
+              >
+                <Button
+                  icon={BarChartIcon}
+                  mode="bleed"
+                  onClick={() => setUsageOpen(true)}
+                  aria-label="Open usage"
+                />
+              </Tooltip>
+
               <Tooltip
                 content={
                   <Box padding={2}>
@@ -934,6 +1029,38 @@ export function ChatInterface({
                 />
               </Tooltip>
 
+              {onActionUndo && undoStack.length > 0 && (
+                <MenuButton
+                  id="chat-undo-stack"
+                  button={
+                    <Button
+                      icon={isUndoing ? Spinner : UndoIcon}
+                      mode="bleed"
+                      disabled={isLoading || isUndoing}
+                      aria-label={`Undo actions (${undoStack.length} available)`}
+                    />
+                  }
+                  menu={
+                    <Menu>
+                      <MenuItem
+                        icon={UndoIcon}
+                        text={`Undo last: ${undoStack[0].description}`}
+                        onClick={() => handleUndoStack(1)}
+                      />
+                      {undoStack.length > 1 && (
+                        <MenuItem
+                          icon={UndoIcon}
+                          text={`Undo all ${undoStack.length} actions, newest first`}
+                          onClick={() => handleUndoStack(undoStack.length)}
+                        />
+                      )}
+                    </Menu>
+                  }
+                  placement="bottom-end"
+                  popover={{portal: true}}
+                />
+              )}
+
               {/* More options menu */}
               <MenuButton
                 id="chat-more-options"
@@ -1045,11 +1172,12 @@ export function ChatInterface({
                 onOpenWorkflowPicker={() => setWorkflowPickerOpen(true)}
                 pendingWorkflows={pendingWorkflows}
                 onRemoveWorkflow={handleRemoveWorkflow}
+                budget={budget}
               />
 
               {/* Quick action buttons - closer to input */}
               <Box style={{marginTop: -4}}>
-                <QuickActions onActionSelect={handleQuickAction} />
+                <QuickActions onActionSelect={handleQuickAction} context={quickActionContext} />
               </Box>
             </Stack>
           </Box>
@@ -1062,11 +1190,19 @@ export function ChatInterface({
                 overflow: 'auto',
               }}
             >
+              {summary && onEditSummary && (
+                <Box paddingX={4} paddingTop={4} style={{maxWidth: 680, margin: '0 auto'}}>
+                  <ConversationSummaryCard summary={summary} onSave={onEditSummary} />
+                </Box>
+              )}
               <MessageList
                 messages={messages}
                 isLoading={isLoading}
                 onActionExecute={onActionExecute}
                 onActionUndo={onActionUndo}
+                onActionPreview={onActionPreview}
+                onActionBatchExecute={onActionBatchExecute}
+                onActionBatchUndo={onActionBatchUndo}
                 maxWidth={680}
                 conversationId={activeConversation?.id}
               />
@@ -1078,7 +1214,15 @@ export function ChatInterface({
                 justifyContent: 'center',
               }}
             >
-              <Box style={{maxWidth: 680, width: '100%'}}>
+              <Stack space={3} style={{maxWidth: 680, width: '100%'}}>
+                {workflowProgress && onWorkflowStepChange && (
+                  <WorkflowProgress
+                    workflow={workflowProgress.workflow}
+                    stepIndex={workflowProgress.stepIndex}
+                    onStepChange={onWorkflowStepChange}
+                    disabled={isLoading}
+                  />
+                )}
                 <MessageInput
                   ref={messageInputRef}
                   onSend={handleSend}
@@ -1094,8 +1238,9 @@ export function ChatInterface({
                   onOpenWorkflowPicker={() => setWorkflowPickerOpen(true)}
                   pendingWorkflows={pendingWorkflows}
                   onRemoveWorkflow={handleRemoveWorkflow}
+                  budget={budget}
                 />
-              </Box>
+              </Stack>
             </Box>
           </>
         )}
@@ -1126,6 +1271,14 @@ export function ChatInterface({
         selectedWorkflows={pendingWorkflows}
         onWorkflowsChange={handleWorkflowsChange}
         isLoading={workflowsLoading}
+        client={client}
+      />
+
+      {/* Usage Dialog */}
+      <UsageDialog
+        isOpen={usageOpen}
+        onClose={() => setUsageOpen(false)}
+        modelPrices={settings.modelPrices}
       />
 
       {/* Document Selection Modal for Continue in Presentation/Structure */}
@@ -2,7 +2,8 @@
  * ConversationSidebar Component
  *
  * Displays conversation history grouped by time periods
- * with archive and delete functionality
+ * with archive and delete functionality, full-text search with
+ * workflow, date and document filters, and Markdown/JSON export
  *
  * Accessibility features (WCAG 2.1 AA):
  * - role="navigation" for the sidebar
@@ -18,9 +19,29 @@
  */
 
 import React, {useMemo, useState, useCallback, useRef, useEffect, KeyboardEvent} from 'react'
-import {Box, Button, Card, Flex, Stack, Text, Menu, MenuButton, MenuItem, Tooltip, TextInput} from '@sanity/ui'
+import {
+  Box,
+  Button,
+  Card,
+  Checkbox,
+  Flex,
+  Stack,
+  Text,
+  Menu,
+  MenuButton,
+  MenuDivider,
+  MenuItem,
+  Select,
+  Spinner,
+  Tooltip,
+  TextInput,
+} from '@sanity/ui'
 import {
   AddIcon,
+  CloseIcon,
+  DownloadIcon,
+  FilterIcon,
+  SearchIcon,
   TrashIcon,
   EllipsisVerticalIcon,
   ClockIcon,
@@ -30,6 +51,13 @@ import {
   EditIcon,
 } from '@sanity/icons'
 import type {Conversation} from '../types'
+import {
+  EMPTY_SEARCH_FILTERS,
+  useConversationSearch,
+  type ConversationSearchFilters,
+  type ConversationSearchResult,
+} from '../hooks/useConversationSearch'
+import {exportConversation, type ConversationExportFormat} from '../lib/conversation-export'
 
 // Pagination constants
 const INITIAL_CONVERSATIONS_COUNT = 20
@@ -44,6 +72,8 @@ export interface ConversationSidebarProps {
   onArchive?: (id: string) => void
   onRestore?: (id: string) => void
   onRename?: (id: string, newTitle: string) => void | Promise<void>
+  /** Workflows offered in the search filter and named in exports */
+  workflows?: Array<{id: string; name: string}>
 }
 
 /**
@@ -52,17 +82,17 @@ export interface ConversationSidebarProps {
 type TimePeriod = 'today' | 'yesterday' | 'last7days' | 'last30days' | 'older'
 
 interface GroupedConversations {
-  today: Conversation[]
-  yesterday: Conversation[]
-  last7days: Conversation[]
-  last30days: Conversation[]
-  older: Conversation[]
+  today: ConversationSearchResult[]
+  yesterday: ConversationSearchResult[]
+  last7days: ConversationSearchResult[]
+  last30days: ConversationSearchResult[]
+  older: ConversationSearchResult[]
 }
 
 /**
  * Group conversations by time period
  */
-function groupConversationsByTime(conversations: Conversation[]): GroupedConversations {
+function groupConversationsByTime(conversations: ConversationSearchResult[]): GroupedConversations {
   const now = new Date()
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
   const yesterday = new Date(today)
@@ -110,6 +140,18 @@ const PERIOD_LABELS: Record<TimePeriod, string> = {
   older: 'Older',
 }
 
+/**
+ * Trigger a browser download of an exported conversation
+ */
+function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], {type: `${mimeType};charset=utf-8`}))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
 export function ConversationSidebar({
   conversations,
   activeConversationId,
@@ -119,21 +161,60 @@ export function ConversationSidebar({
   onArchive,
   onRestore,
   onRename,
+  workflows = [],
 }: ConversationSidebarProps) {
   const [showArchived, setShowArchived] = useState(false)
   const [visibleCount, setVisibleCount] = useState(INITIAL_CONVERSATIONS_COUNT)
+  const [filters, setFilters] = useState<ConversationSearchFilters>(EMPTY_SEARCH_FILTERS)
+  const [showFilters, setShowFilters] = useState(false)
   const listRef = useRef<HTMLDivElement>(null)
 
+  const search = useConversationSearch(filters)
+
+  // Search results replace the recent list while any search text or filter is set
+  const listedConversations: ConversationSearchResult[] = search.isActive ? search.results : conversations
+
+  const updateFilter = useCallback(
+    <K extends keyof ConversationSearchFilters>(key: K, value: ConversationSearchFilters[K]) => {
+      setFilters((prev) => ({...prev, [key]: value}))
+      setVisibleCount(INITIAL_CONVERSATIONS_COUNT)
+    },
+    []
+  )
+
+  const handleClearSearch = useCallback(() => {
+    setFilters(EMPTY_SEARCH_FILTERS)
+    setVisibleCount(INITIAL_CONVERSATIONS_COUNT)
+  }, [])
+
+  const workflowNames = useMemo(
+    () => Object.fromEntries(workflows.map((workflow) => [workflow.id, workflow.name])),
+    [workflows]
+  )
+
+  // Export loads the full conversation, since list items only carry metadata
+  const {getConversation} = search
+  const handleExport = useCallback(
+    async (id: string, format: ConversationExportFormat) => {
+      const conversation = await getConversation(id)
+      if (!conversation) return
+
+      const {filename, content, mimeType} = exportConversation(conversation, format, {workflows: workflowNames})
+      downloadFile(filename, content, mimeType)
+    },
+    [getConversation, workflowNames]
+  )
+
   // Paginate conversations first, then group
   const {visibleConversations, hasMore, totalCount} = useMemo(() => {
-    const total = conversations.length
-    const visible = conversations.slice(0, visibleCount)
+    const total = listedConversations.length
+    const visible = listedConversations.slice(0, visibleCount)
     return {
       visibleConversations: visible,
       hasMore: visibleCount < total,
       totalCount: total,
     }
-  }, [conversations, visibleCount])
+  }, [listedConversations, visibleCount])
 
   // Group visible conversations by time period (memoized)
   const groupedConversations = useMemo(() => {
@@ -238,6 +319,103 @@ export function ConversationSidebar({
         </Flex>
       </Box>
 
+      {/* Search and filters */}
+      <Box padding={2} style={{borderBottom: '1px solid var(--card-border-color)', flexShrink: 0}}>
+        <Stack space={2}>
+          <Flex gap={1} align="center">
+            <Box style={{flex: 1}}>
+              <TextInput
+                icon={SearchIcon}
+                placeholder="Search conversations..."
+                value={filters.text}
+                onChange={(e) => updateFilter('text', e.currentTarget.value)}
+                fontSize={1}
+                clearButton={Boolean(filters.text)}
+                onClear={() => updateFilter('text', '')}
+                aria-label="Search conversations"
+              />
+            </Box>
+            <Button
+              icon={FilterIcon}
+              mode={showFilters ? 'default' : 'bleed'}
+              onClick={() => setShowFilters(!showFilters)}
+              aria-label={showFilters ? 'Hide search filters' : 'Show search filters'}
+              aria-expanded={showFilters}
+            />
+          </Flex>
+
+          {showFilters && (
+            <Stack space={2}>
+              {workflows.length > 0 && (
+                <Select
+                  fontSize={1}
+                  value={filters.workflowId}
+                  onChange={(e) => updateFilter('workflowId', e.currentTarget.value)}
+                  aria-label="Filter by workflow"
+                >
+                  <option value="">Any workflow</option>
+                  {workflows.map((workflow) => (
+                    <option key={workflow.id} value={workflow.id}>
+                      {workflow.name}
+                    </option>
+                  ))}
+                </Select>
+              )}
+              <Flex gap={1}>
+                <Box style={{flex: 1}}>
+                  <TextInput
+                    type="date"
+                    fontSize={1}
+                    value={filters.from}
+                    max={filters.to || undefined}
+                    onChange={(e) => updateFilter('from', e.currentTarget.value)}
+                    aria-label="Active from"
+                  />
+                </Box>
+                <Box style={{flex: 1}}>
+                  <TextInput
+                    type="date"
+                    fontSize={1}
+                    value={filters.to}
+                    min={filters.from || undefined}
+                    onChange={(e) => updateFilter('to', e.currentTarget.value)}
+                    aria-label="Active until"
+                  />
+                </Box>
+              </Flex>
+              <TextInput
+                fontSize={1}
+                placeholder="Touched document ID"
+                value={filters.documentId}
+                onChange={(e) => updateFilter('documentId', e.currentTarget.value)}
+                aria-label="Filter by touched document ID"
+              />
+              <Flex align="center" gap={2} as="label">
+                <Checkbox
+                  checked={filters.includeArchived}
+                  onChange={(e) => updateFilter('includeArchived', e.currentTarget.checked)}
+                />
+                <Text size={1}>Include archived</Text>
+              </Flex>
+            </Stack>
+          )}
+
+          {search.isActive && (
+            <Flex align="center" justify="space-between" gap={2}>
+              <Flex align="center" gap={2}>
+                {search.isSearching && <Spinner muted />}
+                <Text size={0} muted role="status">
+                  {search.error
+                    ? 'Search failed'
+                    : `${search.results.length} matching conversation${search.results.length !== 1 ? 's' : ''}`}
+                </Text>
+              </Flex>
+              <Button icon={CloseIcon} text="Clear" mode="bleed" fontSize={0} padding={1} onClick={handleClearSearch} />
+            </Flex>
+          )}
+        </Stack>
+      </Box>
+
       {/* Conversation list */}
       <Box
         ref={listRef}
@@ -251,7 +429,13 @@ export function ConversationSidebar({
         tabIndex={visibleConversations.length > 0 ? 0 : -1}
         onKeyDown={handleListKeyDown}
       >
-        {visibleConversations.length === 0 ? (
+        {visibleConversations.length === 0 && search.isActive ? (
+          <Box padding={4} role="status">
+            <Text size={1} muted align="center">
+              {search.isSearching ? 'Searching...' : 'No matching conversations'}
+            </Text>
+          </Box>
+        ) : visibleConversations.length === 0 ? (
           <Box padding={4} role="status" aria-label="No conversations">
             <Stack space={3} style={{textAlign: 'center'}}>
               <Box
@@ -291,6 +475,7 @@ export function ConversationSidebar({
                 onDelete={onDelete}
                 onArchive={onArchive}
                 onRename={onRename}
+                onExport={handleExport}
               />
             ))}
 
@@ -339,12 +524,13 @@ export function ConversationSidebar({
  */
 interface ConversationGroupProps {
   label: string
-  conversations: Conversation[]
+  conversations: ConversationSearchResult[]
   activeConversationId: string | null
   onSelect: (id: string) => void
   onDelete: (id: string) => void
   onArchive?: (id: string) => void
   onRename?: (id: string, newTitle: string) => void | Promise<void>
+  onExport?: (id: string, format: ConversationExportFormat) => void
 }
 
 function ConversationGroup({
@@ -355,6 +541,7 @@ function ConversationGroup({
   onDelete,
   onArchive,
   onRename,
+  onExport,
 }: ConversationGroupProps) {
   if (conversations.length === 0) return null
 
@@ -383,6 +570,7 @@ function ConversationGroup({
             onDelete={() => onDelete(conversation.id)}
             onArchive={onArchive ? () => onArchive(conversation.id) : undefined}
             onRename={onRename ? (newTitle: string) => onRename(conversation.id, newTitle) : undefined}
+            onExport={onExport ? (format) => onExport(conversation.id, format) : undefined}
           />
         ))}
       </Stack>
@@ -391,12 +579,13 @@ function ConversationGroup({
 }
 
 interface ConversationItemProps {
-  conversation: Conversation
+  conversation: ConversationSearchResult
   isActive: boolean
   onSelect: () => void
   onDelete: () => void
   onArchive?: () => void
   onRename?: (newTitle: string) => void | Promise<void>
+  onExport?: (format: ConversationExportFormat) => void
 }
 
 /**
@@ -409,6 +598,7 @@ const ConversationItem = React.memo(function ConversationItem({
   onDelete,
   onArchive,
   onRename,
+  onExport,
 }: ConversationItemProps) {
   const [isHovered, setIsHovered] = useState(false)
   const [isEditing, setIsEditing] = useState(false)
@@ -524,7 +714,20 @@ const ConversationItem = React.memo(function ConversationItem({
                     </Text>
                   </>
                 )}
+                {conversation.archived && (
+                  <>
+                    <Text size={0} muted style={{opacity: 0.5}}>|</Text>
+                    <Text size={0} muted>Archived</Text>
+                  </>
+                )}
               </Flex>
+              {conversation.snippet && (
+                <Box marginTop={2}>
+                  <Text size={0} muted style={{wordBreak: 'break-word'}}>
+                    {conversation.snippet}
+                  </Text>
+                </Box>
+              )}
             </>
           )}
         </Box>
@@ -562,6 +765,27 @@ const ConversationItem = React.memo(function ConversationItem({
                     }}
                   />
                 )}
+                {onExport && (
+                  <>
+                    <MenuItem
+                      icon={DownloadIcon}
+                      text="Export as Markdown"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onExport('markdown')
+                      }}
+                    />
+                    <MenuItem
+                      icon={DownloadIcon}
+                      text="Export as JSON"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onExport('json')
+                      }}
+                    />
+                    <MenuDivider />
+                  </>
+                )}
                 <MenuItem
                   icon={TrashIcon}
                   text="Delete"
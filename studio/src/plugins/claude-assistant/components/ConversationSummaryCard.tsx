@@ -0,0 +1,117 @@
+/**
+ * ConversationSummaryCard Component
+ *
+ * Shows the summary Claude receives in place of a long conversation's
+ * earlier messages. The summary can be read, corrected, or discarded so
+ * the full history is sent again.
+ */
+
+import React, {useCallback, useState} from 'react'
+import {Badge, Box, Button, Card, Flex, Stack, Text, TextArea} from '@sanity/ui'
+import {ChevronDownIcon, ChevronRightIcon, EditIcon, TrashIcon} from '@sanity/icons'
+import type {ConversationSummary} from '../types'
+
+export interface ConversationSummaryCardProps {
+  summary: ConversationSummary
+  /** Save edited summary text, or discard the summary with null */
+  onSave: (content: string | null) => Promise<void>
+}
+
+export function ConversationSummaryCard({summary, onSave}: ConversationSummaryCardProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(summary.content)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleEdit = useCallback(() => {
+    setDraft(summary.content)
+    setIsExpanded(true)
+    setIsEditing(true)
+  }, [summary.content])
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true)
+    try {
+      await onSave(draft)
+      setIsEditing(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }, [draft, onSave])
+
+  const handleDiscard = useCallback(async () => {
+    setIsSaving(true)
+    try {
+      await onSave(null)
+    } finally {
+      setIsSaving(false)
+    }
+  }, [onSave])
+
+  return (
+    <Card padding={3} radius={2} border tone="transparent">
+      <Stack space={3}>
+        <Flex align="center" gap={2}>
+          <Button
+            icon={isExpanded ? ChevronDownIcon : ChevronRightIcon}
+            mode="bleed"
+            padding={1}
+            onClick={() => setIsExpanded(!isExpanded)}
+            aria-expanded={isExpanded}
+            aria-label={isExpanded ? 'Hide summary' : 'Show summary'}
+          />
+          <Box style={{flex: 1, minWidth: 0}}>
+            <Text size={1} weight="medium">
+              {summary.messageCount} earlier message{summary.messageCount !== 1 ? 's' : ''} summarized for Claude
+            </Text>
+          </Box>
+          {summary.edited && (
+            <Badge fontSize={0} tone="primary">
+              Edited
+            </Badge>
+          )}
+          {!isEditing && (
+            <Button icon={EditIcon} mode="bleed" padding={2} onClick={handleEdit} aria-label="Edit summary" />
+          )}
+          <Button
+            icon={TrashIcon}
+            mode="bleed"
+            tone="critical"
+            padding={2}
+            onClick={handleDiscard}
+            disabled={isSaving}
+            aria-label="Discard summary"
+            title="Discard the summary and send the full history again"
+          />
+        </Flex>
+
+        {isExpanded &&
+          (isEditing ? (
+            <Stack space={2}>
+              <TextArea
+                value={draft}
+                rows={12}
+                fontSize={1}
+                onChange={(e) => setDraft(e.currentTarget.value)}
+                aria-label="Summary"
+              />
+              <Flex gap={2} justify="flex-end">
+                <Button text="Cancel" mode="bleed" onClick={() => setIsEditing(false)} disabled={isSaving} />
+                <Button
+                  text="Save"
+                  tone="primary"
+                  onClick={handleSave}
+                  loading={isSaving}
+                  disabled={!draft.trim()}
+                />
+              </Flex>
+            </Stack>
+          ) : (
+            <Text size={1} muted style={{whiteSpace: 'pre-wrap'}}>
+              {summary.content}
+            </Text>
+          ))}
+      </Stack>
+    </Card>
+  )
+}
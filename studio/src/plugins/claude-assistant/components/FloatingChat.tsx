@@ -11,25 +11,39 @@
  * - Works across Structure, Presentation, and other tools
  * - Persists state across tool navigation
  * - Shares settings with main Claude tool via localStorage
+ * - Quick actions that fit the open document and selected block
  */
 
-import React, {useCallback, useState, useRef, useEffect} from 'react'
+import React, {useCallback, useState, useRef, useEffect, useMemo} from 'react'
 import {Box, Card, Flex, Stack, Text, Button, Tooltip, useToast} from '@sanity/ui'
 import {CloseIcon, AddIcon, TrashIcon, ResetIcon, ExpandIcon, DragHandleIcon} from '@sanity/icons'
 import {useClient, useCurrentUser, useSchema} from 'sanity'
 import {MessageList} from './MessageList'
 import {MessageInput} from './MessageInput'
+import {QuickActions} from './QuickActions'
 import {useClaudeChat} from '../hooks/useClaudeChat'
 import {useConversations} from '../hooks/useConversations'
 import {useContentOperations} from '../hooks/useContentOperations'
 import {useWorkflows, buildWorkflowContext} from '../hooks/useWorkflows'
 import {useInstructions} from '../hooks/useInstructions'
+import {useAccessControl} from '../hooks/useAccessControl'
 import {useCurrentDocument} from '../hooks/useCurrentDocument'
 import {useBlockContext} from '../hooks/useBlockContext'
 import {extractSchemaContext} from '../lib/schema-context'
 import {DEFAULT_SETTINGS} from '../types'
-import type {Message, ParsedAction, PluginSettings, SchemaContext, ImageAttachment, DocumentContext, BlockContext} from '../types'
-import type {MessageOptions} from '../hooks/useClaudeChat'
+import type {
+  ActionResult,
+  Message,
+  ParsedAction,
+  PluginSettings,
+  SchemaContext,
+  ImageAttachment,
+  DocumentContext,
+  BlockContext,
+  QuickAction,
+  QuickActionContext,
+  UndoOptions,
+} from '../types'
 import {ImagePickerDialog} from './ImagePickerDialog'
 import {DocumentPickerDialog} from './DocumentPicker'
 
@@ -290,11 +304,23 @@ function FloatingChatPanel({
     }
   }, [currentDocument, hasManualSelection])
 
-  const {executeAction, undoAction} = useContentOperations()
+  // Quick actions fit the open document (or the one picked by hand) and the selected block
+  const quickActionContext = useMemo<QuickActionContext>(
+    () => ({
+      document: hasManualSelection ? (pendingDocuments.length === 1 ? pendingDocuments[0] : null) : currentDocument,
+      block: blockContext,
+    }),
+    [hasManualSelection, pendingDocuments, currentDocument, blockContext]
+  )
+  // Prompt of the last quick action, pre-populated in the input
+  const [pendingInput, setPendingInput] = useState('')
 
   // Instructions hook - same as main tool
   const {activeInstruction, rawInstructions, sectionTemplates} = useInstructions()
 
+  // Access restrictions - described in the system prompt, enforced by ContentOperations
+  const {accessControl} = useAccessControl()
+
   const {
     conversations,
     activeConversation,
@@ -304,8 +330,16 @@ function FloatingChatPanel({
     addMessage,
     updateMessage,
     generateTitle,
+    updateSummary,
+    recordSummaryUsage,
   } = useConversations({apiEndpoint})
 
+  // Content operations hook - actions are audited against the active conversation
+  const {executeAction, undoAction, previewAction, executeBatch, undoBatch} = useContentOperations({
+    source: 'floatingChat',
+    conversationId: activeConversation?.id,
+  })
+
   // Track if we've already processed the pending conversation
   const hasPendingConversationBeenHandled = useRef(false)
 
@@ -373,10 +407,18 @@ function FloatingChatPanel({
   }, [schema])
 
   const setMessagesRef = useRef<React.Dispatch<React.SetStateAction<Message[]>> | null>(null)
-  const sendMessageRef = useRef<((content: string, images?: ImageAttachment[], documentContextsOverride?: DocumentContext[], messageOptions?: MessageOptions) => Promise<void>) | null>(null)
 
+  // Track active conversation for use in callbacks without stale closures
+  const activeConversationRef = useRef(activeConversation)
+  useEffect(() => {
+    activeConversationRef.current = activeConversation
+  }, [activeConversation])
+
+  // Update an action's status; finished actions are persisted with their result,
+  // so conversation search can find the documents they created
   const updateActionStatus = useCallback(
     (actionId: string, status: ParsedAction['status'], result?: ParsedAction['result'], error?: string) => {
+      const conversationId = activeConversationRef.current?.id
       if (setMessagesRef.current) {
         setMessagesRef.current((prev) =>
           prev.map((msg) => {
@@ -385,6 +427,9 @@ function FloatingChatPanel({
               a.id === actionId ? {...a, status, result, error} : a
             )
             if (updatedActions.some((a, i) => a !== msg.actions![i])) {
+              if (conversationId && status !== 'executing') {
+                updateMessage(conversationId, msg.id, {actions: updatedActions})
+              }
               return {...msg, actions: updatedActions}
             }
             return msg
@@ -392,13 +437,14 @@ function FloatingChatPanel({
         )
       }
     },
-    []
+    [updateMessage]
   )
 
   const handleAction = useCallback(
     async (action: ParsedAction) => {
       // Note: confirmBeforeExecute is respected - ActionCard handles inline confirmation
-      // for modifying actions, while read-only actions (query, navigate, explain) auto-execute
+      // for modifying actions, while read-only actions (query, navigate, explain) auto-execute.
+      // Queries and Figma fetches requested mid-run are executed by the agent loop in useClaudeChat
       updateActionStatus(action.id, 'executing')
 
       const result = await executeAction(action)
@@ -417,34 +463,6 @@ function FloatingChatPanel({
           title: 'Action completed',
           description: result.message,
         })
-
-        // Auto-follow-up for query results
-        if (action.type === 'query' && result.data && sendMessageRef.current) {
-          const resultJson = JSON.stringify(result.data, null, 2)
-          const resultCount = Array.isArray(result.data) ? result.data.length : 1
-
-          const followUpMessage = `Here are the query results (${resultCount} result${resultCount !== 1 ? 's' : ''}):
-
-\`\`\`json
-${resultJson}
-\`\`\``
-
-          setTimeout(() => {
-            console.log('[FloatingChat] Sending follow-up with query results:', {
-              messageLength: followUpMessage.length,
-              hasSendMessage: !!sendMessageRef.current,
-            })
-            sendMessageRef.current?.(followUpMessage, undefined, undefined, {hidden: true})
-              ?.catch((err: unknown) => {
-                console.error('[FloatingChat] Follow-up sendMessage failed:', err)
-                toast.push({
-                  status: 'error',
-                  title: 'Failed to analyze query results',
-                  description: err instanceof Error ? err.message : 'Unknown error',
-                })
-              })
-          }, 500)
-        }
       } else {
         toast.push({
           status: 'error',
@@ -457,21 +475,35 @@ ${resultJson}
   )
 
   const handleUndo = useCallback(
-    async (action: ParsedAction) => {
-      const result = await undoAction(action)
+    async (action: ParsedAction, options?: UndoOptions): Promise<ActionResult> => {
+      const result = await undoAction(action, options)
 
       if (result.success) {
         // Clear the preState after successful undo so the button disappears
-        updateActionStatus(action.id, 'completed', {
+        const undoneResult = {
           success: true,
           ...action.result,
           preState: undefined,
-        })
+          conflict: undefined,
+        }
+        updateActionStatus(action.id, 'completed', undoneResult)
         toast.push({
           status: 'success',
           title: 'Undo successful',
           description: result.message,
         })
+      } else if (result.conflict) {
+        // Keep the pre-state and show the conflict on the action card
+        updateActionStatus(action.id, 'completed', {
+          success: true,
+          ...action.result,
+          conflict: result.conflict,
+        })
+        toast.push({
+          status: 'warning',
+          title: 'Undo needs review',
+          description: result.message,
+        })
       } else {
         toast.push({
           status: 'error',
@@ -479,10 +511,70 @@ ${resultJson}
           description: result.message,
         })
       }
+      return result
     },
     [undoAction, updateActionStatus, toast]
   )
 
+  const handleBatchExecute = useCallback(
+    async (actions: ParsedAction[]) => {
+      actions.forEach((action) => updateActionStatus(action.id, 'executing'))
+
+      const results = await executeBatch(actions)
+
+      actions.forEach((action, index) => {
+        const result = results[index]
+        updateActionStatus(
+          action.id,
+          result.success ? 'completed' : 'failed',
+          result,
+          result.success ? undefined : result.message
+        )
+      })
+
+      if (results.every((result) => result.success)) {
+        toast.push({
+          status: 'success',
+          title: 'Batch completed',
+          description: `All ${actions.length} changes were applied`,
+        })
+      } else {
+        toast.push({
+          status: 'error',
+          title: 'Batch failed',
+          description: 'No changes were applied - see the batch for the change that failed',
+        })
+      }
+    },
+    [executeBatch, updateActionStatus, toast]
+  )
+
+  const handleBatchUndo = useCallback(
+    async (actions: ParsedAction[]): Promise<ActionResult> => {
+      const result = await undoBatch(actions)
+
+      if (result.success) {
+        // Clear the pre-states so the batch drops off the undo stack
+        for (const action of actions) {
+          updateActionStatus(action.id, 'completed', {success: true, ...action.result, preState: undefined})
+        }
+        toast.push({
+          status: 'success',
+          title: 'Undo successful',
+          description: result.message,
+        })
+      } else {
+        toast.push({
+          status: 'error',
+          title: 'Undo failed',
+          description: result.message,
+        })
+      }
+      return result
+    },
+    [undoBatch, updateActionStatus, toast]
+  )
+
   const workflowContext = selectedWorkflow
     ? buildWorkflowContext(selectedWorkflow)
     : undefined
@@ -495,6 +587,7 @@ ${resultJson}
     clearMessages,
     retryLastMessage,
     setMessages,
+    budget,
   } = useClaudeChat({
     apiEndpoint: apiEndpoint || '/api/claude',
     schemaContext,
@@ -507,18 +600,21 @@ ${resultJson}
     onAddMessage: addMessage,
     onUpdateMessage: updateMessage,
     onGenerateTitle: generateTitle,
+    onUpdateSummary: updateSummary,
+    onRecordSummaryUsage: recordSummaryUsage,
     enableStreaming: settings.enableStreaming,
     enableFigmaFetch: selectedWorkflow?.enableFigmaFetch,
+    accessControl,
+    executeAgentAction: executeAction,
+    agentMaxSteps: settings.agentMaxSteps,
+    agentTokenBudget: settings.agentTokenBudget,
+    summaryThresholdTokens: settings.summaryThresholdTokens,
   })
 
   useEffect(() => {
     setMessagesRef.current = setMessages
   }, [setMessages])
 
-  useEffect(() => {
-    sendMessageRef.current = sendMessage
-  }, [sendMessage])
-
   // Track pending message that needs to be sent after conversation is created
   const pendingMessageRef = useRef<{content: string; images?: ImageAttachment[]} | null>(null)
 
@@ -581,10 +677,16 @@ ${resultJson}
       // Already have a conversation, send directly
       await sendMessage(enrichedContent, images)
     }
-    // Clear pending images after sending
+    // Clear pending images and input after sending
     setPendingImages([])
+    setPendingInput('')
   }, [activeConversation, createConversation, sendMessage, clearBlockContext])
 
+  // Handle quick action selection - pre-populates the input instead of sending immediately
+  const handleQuickAction = useCallback((action: QuickAction) => {
+    setPendingInput(action.prompt)
+  }, [])
+
   // Handle image selection from picker
   const handleImageSelect = useCallback((image: ImageAttachment) => {
     setPendingImages((prev) => [...prev, image])
@@ -607,11 +709,6 @@ ${resultJson}
     setPendingDocuments((prev) => prev.filter((doc) => doc._id !== documentId))
   }, [])
 
-  // Update sendMessageRef to use the wrapped version
-  useEffect(() => {
-    sendMessageRef.current = handleSendMessage
-  }, [handleSendMessage])
-
   const handleNewChat = useCallback(async () => {
     clearMessages()
     // Reset manual selection so auto-detection resumes
@@ -787,6 +884,7 @@ ${resultJson}
               <Text size={0} muted>
                 Ask me to create, update, or query content
               </Text>
+              <QuickActions onActionSelect={handleQuickAction} context={quickActionContext} compact />
             </Stack>
           </Flex>
         ) : (
@@ -795,6 +893,9 @@ ${resultJson}
             isLoading={isLoading}
             onActionExecute={handleAction}
             onActionUndo={handleUndo}
+            onActionPreview={previewAction}
+            onActionBatchExecute={handleBatchExecute}
+            onActionBatchUndo={handleBatchUndo}
             maxWidth={380}
             compact
             hideNavigationLinks
@@ -810,11 +911,17 @@ ${resultJson}
           flexShrink: 0,
         }}
       >
+        {messages.length > 0 && (
+          <Box paddingBottom={2}>
+            <QuickActions onActionSelect={handleQuickAction} context={quickActionContext} contextualOnly compact />
+          </Box>
+        )}
         <MessageInput
           ref={messageInputRef}
           onSend={handleSendMessage}
           isLoading={isLoading}
           placeholder="Ask Claude..."
+          initialValue={pendingInput}
           variant="compact"
           showWorkflowPicker={false}
           onUploadImage={() => setImagePickerOpen(true)}
@@ -825,6 +932,7 @@ ${resultJson}
           blockContext={blockContext}
           onClearBlockContext={clearBlockContext}
           onRemoveDocument={handleRemoveDocument}
+          budget={budget}
         />
       </Box>
 
@@ -17,9 +17,12 @@
 import React, {useMemo, useState} from 'react'
 import {Box, Card, Flex, Text, Stack, Code, Button} from '@sanity/ui'
 import {ChevronDownIcon, ChevronUpIcon, ChevronRightIcon} from '@sanity/icons'
-import type {Message as MessageType, ParsedAction} from '../types'
+import type {Message as MessageType, ParsedAction, UndoOptions} from '../types'
 import {extractTextContent} from '../lib/actions'
+import {describeAgentStop} from '../lib/agent'
+import {getActionBatch} from '../lib/batch'
 import {ActionCard} from './ActionCard'
+import {BatchCard} from './BatchCard'
 
 /**
  * Collapsible code block component for long content
@@ -137,7 +140,13 @@ export interface MessageProps {
   message: MessageType
   onActionClick?: (action: ParsedAction) => void
   onActionExecute?: (action: ParsedAction) => void
-  onActionUndo?: (action: ParsedAction) => void
+  onActionUndo?: (action: ParsedAction, options?: UndoOptions) => void
+  /** Load the current document for the diff shown on pending updates */
+  onActionPreview?: (action: ParsedAction) => Promise<unknown>
+  /** Run related write actions of the message as one all-or-nothing batch */
+  onActionBatchExecute?: (actions: ParsedAction[]) => void
+  /** Undo an executed batch as a whole */
+  onActionBatchUndo?: (actions: ParsedAction[]) => void
   /** Hide navigation links in action cards (used in floating chat) */
   hideNavigationLinks?: boolean
   /** Active conversation ID for continuing conversation when navigating */
@@ -431,6 +440,7 @@ function ActionGroup({
   onActionExecute,
   onActionClick,
   onActionUndo,
+  onActionPreview,
   messageTimestamp,
   hideNavigationLinks,
   conversationId,
@@ -438,7 +448,8 @@ function ActionGroup({
   actions: ParsedAction[]
   onActionExecute?: (action: ParsedAction) => void
   onActionClick?: (action: ParsedAction) => void
-  onActionUndo?: (action: ParsedAction) => void
+  onActionUndo?: (action: ParsedAction, options?: UndoOptions) => void
+  onActionPreview?: (action: ParsedAction) => Promise<unknown>
   messageTimestamp?: Date
   hideNavigationLinks?: boolean
   conversationId?: string
@@ -460,7 +471,8 @@ function ActionGroup({
           action={action}
           onExecute={() => onActionExecute?.(action)}
           onClick={() => onActionClick?.(action)}
-          onUndo={() => onActionUndo?.(action)}
+          onUndo={(options) => onActionUndo?.(action, options)}
+          onPreview={onActionPreview ? () => onActionPreview(action) : undefined}
           messageTimestamp={messageTimestamp}
           hideNavigationLinks={hideNavigationLinks}
           conversationId={conversationId}
@@ -504,7 +516,8 @@ function ActionGroup({
                 action={action}
                 onExecute={() => onActionExecute?.(action)}
                 onClick={() => onActionClick?.(action)}
-                onUndo={() => onActionUndo?.(action)}
+                onUndo={(options) => onActionUndo?.(action, options)}
+                onPreview={onActionPreview ? () => onActionPreview(action) : undefined}
                 messageTimestamp={messageTimestamp}
                 hideNavigationLinks={hideNavigationLinks}
                 conversationId={conversationId}
@@ -517,7 +530,17 @@ function ActionGroup({
   )
 }
 
-export function Message({message, onActionClick, onActionExecute, onActionUndo, hideNavigationLinks, conversationId}: MessageProps) {
+export function Message({
+  message,
+  onActionClick,
+  onActionExecute,
+  onActionUndo,
+  onActionPreview,
+  onActionBatchExecute,
+  onActionBatchUndo,
+  hideNavigationLinks,
+  conversationId,
+}: MessageProps) {
   const isUser = message.role === 'user'
   const isStreaming = message.status === 'streaming'
   const isError = message.status === 'error'
@@ -545,6 +568,16 @@ export function Message({message, onActionClick, onActionExecute, onActionUndo,
     return `${sender}, ${time}${status}${contentPreview}`
   }, [isUser, message.timestamp, message.content, isStreaming, isError])
 
+  // Split related write actions into a batch - pending ones only when batches can be run here
+  const [batchActions, otherActions] = useMemo(() => {
+    const actions = message.actions || []
+    const batch = getActionBatch(actions)
+    if (batch.length === 0 || (!onActionBatchExecute && !batch[0].result?.batchId)) {
+      return [[], actions]
+    }
+    return [batch, actions.filter((action) => !batch.includes(action))]
+  }, [message.actions, onActionBatchExecute])
+
   return (
     <Card
       tone={isError ? 'critical' : 'default'}
@@ -643,19 +676,61 @@ export function Message({message, onActionClick, onActionExecute, onActionUndo,
             </Flex>
           )}
 
+          {/* Related write actions, approved and undone as one batch */}
+          {batchActions.length > 0 && (
+            <Box marginTop={2} style={{border: '1px solid var(--card-border-color)', borderRadius: '0.25rem'}}>
+              <BatchCard
+                actions={batchActions}
+                onExecute={onActionBatchExecute}
+                onUndo={onActionBatchUndo}
+                onPreview={onActionPreview}
+                onActionClick={onActionClick}
+                messageTimestamp={message.timestamp}
+                hideNavigationLinks={hideNavigationLinks}
+                conversationId={conversationId}
+              />
+            </Box>
+          )}
+
           {/* Actions */}
-          {message.actions && message.actions.length > 0 && (
+          {otherActions.length > 0 && (
             <ActionGroup
-              actions={message.actions}
+              actions={otherActions}
               onActionExecute={onActionExecute}
               onActionClick={onActionClick}
               onActionUndo={onActionUndo}
+              onActionPreview={onActionPreview}
               messageTimestamp={message.timestamp}
               hideNavigationLinks={hideNavigationLinks}
               conversationId={conversationId}
             />
           )}
 
+          {/* Agent run step */}
+          {message.agentStep && (
+            <Flex gap={2} marginTop={1} wrap="wrap">
+              <Text size={0} muted>
+                Step {message.agentStep.step} of {message.agentStep.maxSteps}
+              </Text>
+              {message.agentStep.stopReason && (
+                <>
+                  <Text size={0} muted>|</Text>
+                  <Text size={0} muted>
+                    {describeAgentStop(message.agentStep.stopReason)}
+                  </Text>
+                </>
+              )}
+              {message.agentStep.tokensUsed > 0 && (
+                <>
+                  <Text size={0} muted>|</Text>
+                  <Text size={0} muted>
+                    {message.agentStep.tokensUsed.toLocaleString()} tokens so far
+                  </Text>
+                </>
+              )}
+            </Flex>
+          )}
+
           {/* Metadata (tokens, model) */}
           {message.metadata && (message.metadata.tokensUsed || message.metadata.model) && (
             <Flex gap={2} marginTop={1}>
@@ -779,6 +854,11 @@ export const MemoizedMessage = React.memo(Message, (prevProps, nextProps) => {
     return false
   }
 
+  // Re-render if the agent step changed
+  if (prevProps.message.agentStep !== nextProps.message.agentStep) {
+    return false
+  }
+
   // Re-render if callbacks changed (important for action execution)
   if (prevProps.onActionExecute !== nextProps.onActionExecute) {
     return false
@@ -796,6 +876,15 @@ export const MemoizedMessage = React.memo(Message, (prevProps, nextProps) => {
   if (prevProps.onActionUndo !== nextProps.onActionUndo) {
     return false
   }
+  if (prevProps.onActionPreview !== nextProps.onActionPreview) {
+    return false
+  }
+  if (prevProps.onActionBatchExecute !== nextProps.onActionBatchExecute) {
+    return false
+  }
+  if (prevProps.onActionBatchUndo !== nextProps.onActionBatchUndo) {
+    return false
+  }
 
   // Re-render if actions changed
   if (prevProps.message.actions?.length !== nextProps.message.actions?.length) {
@@ -13,7 +13,15 @@
 import {useState, useCallback, useRef, useEffect, KeyboardEvent, forwardRef, useImperativeHandle} from 'react'
 import {Box, Flex, Button, Text, Tooltip, Card} from '@sanity/ui'
 import {ArrowUpIcon, ImageIcon, CloseIcon, DocumentIcon, BoltIcon} from '@sanity/icons'
-import type {ImageAttachment, DocumentContext, BlockContext} from '../types'
+import type {
+  ImageAttachment,
+  DocumentContext,
+  BlockContext,
+  BudgetStatus,
+  WorkflowParameter,
+  WorkflowParameterValues,
+  WorkflowStep,
+} from '../types'
 import {WorkflowPills} from './WorkflowPicker'
 
 /** Workflow type for the picker */
@@ -24,6 +32,14 @@ export interface WorkflowOption {
   systemInstructions?: string
   starterPrompt?: string
   enableFigmaFetch?: boolean
+  /** Typed inputs filled into the starter prompt */
+  parameters?: WorkflowParameter[]
+  /** Values the user filled in when selecting the workflow */
+  parameterValues?: WorkflowParameterValues
+  /** Display names of the picked documents and images, by parameter name */
+  parameterLabels?: Record<string, string>
+  /** Steps of a multi-step workflow */
+  steps?: WorkflowStep[]
 }
 
 export interface MessageInputProps {
@@ -60,6 +76,25 @@ export interface MessageInputProps {
   blockContext?: BlockContext | null
   /** Callback to clear block context */
   onClearBlockContext?: () => void
+  /** Monthly budget status, shown next to the send button */
+  budget?: BudgetStatus | null
+}
+
+/**
+ * Short summary of the tightest budget, e.g. "412,000 tokens left"
+ */
+function formatBudgetRemaining(budget: BudgetStatus): string | null {
+  const tightest = budget.scopes.reduce<BudgetStatus['scopes'][number] | null>(
+    (max, scope) => (!max || scope.percentUsed > max.percentUsed ? scope : max),
+    null
+  )
+  if (!tightest) return null
+
+  const parts = [
+    tightest.remainingTokens !== undefined ? `${tightest.remainingTokens.toLocaleString()} tokens` : null,
+    tightest.remainingCost !== undefined ? `$${tightest.remainingCost.toFixed(2)}` : null,
+  ].filter(Boolean)
+  return parts.length > 0 ? `${parts.join(' · ')} left` : null
 }
 
 export const MessageInput = forwardRef<HTMLTextAreaElement, MessageInputProps>(function MessageInput(
@@ -83,6 +118,7 @@ export const MessageInput = forwardRef<HTMLTextAreaElement, MessageInputProps>(f
     showWorkflowPicker = true,
     blockContext,
     onClearBlockContext,
+    budget,
   },
   ref
 ) {
@@ -492,8 +528,30 @@ export const MessageInput = forwardRef<HTMLTextAreaElement, MessageInputProps>(f
           )}
         </Flex>
 
-        {/* Right side: send button */}
+        {/* Right side: budget and send button */}
         <Flex align="center" gap={2}>
+          {budget && formatBudgetRemaining(budget) && (
+            <Tooltip
+              content={
+                <Box padding={2} style={{maxWidth: 280}}>
+                  <Text size={1}>{budget.error || budget.warning || 'Remaining monthly Claude budget'}</Text>
+                </Box>
+              }
+              placement="top"
+              portal
+            >
+              <Card
+                tone={budget.error ? 'critical' : budget.warning ? 'caution' : 'transparent'}
+                radius={2}
+                paddingX={2}
+                paddingY={1}
+              >
+                <Text size={0} muted={!budget.error && !budget.warning}>
+                  {formatBudgetRemaining(budget)}
+                </Text>
+              </Card>
+            </Tooltip>
+          )}
           <Tooltip
             content={
               <Box padding={2}>
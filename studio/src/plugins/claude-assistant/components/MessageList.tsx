@@ -17,7 +17,7 @@
 
 import {useEffect, useRef, useCallback, useMemo, useState} from 'react'
 import {Box, Card, Stack, Text, Flex, Button} from '@sanity/ui'
-import type {Message as MessageType, ParsedAction} from '../types'
+import type {Message as MessageType, ParsedAction, UndoOptions} from '../types'
 import {MemoizedMessage} from './Message'
 
 // Number of messages to show initially and load per batch
@@ -29,7 +29,13 @@ export interface MessageListProps {
   isLoading: boolean
   onActionClick?: (action: ParsedAction) => void
   onActionExecute?: (action: ParsedAction) => void
-  onActionUndo?: (action: ParsedAction) => void
+  onActionUndo?: (action: ParsedAction, options?: UndoOptions) => void
+  /** Load the current document for the diff shown on pending updates */
+  onActionPreview?: (action: ParsedAction) => Promise<unknown>
+  /** Run related write actions of a message as one all-or-nothing batch */
+  onActionBatchExecute?: (actions: ParsedAction[]) => void
+  /** Undo an executed batch as a whole */
+  onActionBatchUndo?: (actions: ParsedAction[]) => void
   /** Max width for the message content area */
   maxWidth?: number
   /** Compact mode for floating chat */
@@ -46,6 +52,9 @@ export function MessageList({
   onActionClick,
   onActionExecute,
   onActionUndo,
+  onActionPreview,
+  onActionBatchExecute,
+  onActionBatchUndo,
   maxWidth = 900,
   compact = false,
   hideNavigationLinks = false,
@@ -161,6 +170,9 @@ export function MessageList({
                 onActionClick={onActionClick}
                 onActionExecute={onActionExecute}
                 onActionUndo={onActionUndo}
+                onActionPreview={onActionPreview}
+                onActionBatchExecute={onActionBatchExecute}
+                onActionBatchUndo={onActionBatchUndo}
                 hideNavigationLinks={hideNavigationLinks}
                 conversationId={conversationId}
               />
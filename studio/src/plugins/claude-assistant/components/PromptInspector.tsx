@@ -0,0 +1,279 @@
+/**
+ * PromptInspector Component
+ *
+ * Dry-run preview of the system prompt for people editing Claude Training.
+ * An author types a sample message and picks a skill and context documents;
+ * the inspector shows the exact prompt the chat would send for it, which
+ * sections were included or left out and why, and an estimated token count
+ * per section. Nothing is sent to Claude.
+ */
+
+import {useMemo, useState} from 'react'
+import {Badge, Box, Button, Card, Code, Flex, Label, Select, Spinner, Stack, Text, TextArea} from '@sanity/ui'
+import {AddIcon, ChevronDownIcon, ChevronRightIcon} from '@sanity/icons'
+import {useClient, useSchema} from 'sanity'
+import type {DocumentContext, PromptSection} from '../types'
+import {useInstructions} from '../hooks/useInstructions'
+import {buildSelectedWorkflowsContext, useWorkflows} from '../hooks/useWorkflows'
+import {useAccessControl} from '../hooks/useAccessControl'
+import {explainSystemPrompt} from '../lib/instructions'
+import {extractSchemaContext} from '../lib/schema-context'
+import {DocumentPickerDialog, DocumentPills} from './DocumentPicker'
+
+export interface PromptInspectorProps {
+  /** Instructions from API settings, used when no Claude Training document is published */
+  customInstructions?: string
+}
+
+/**
+ * Format an estimated token count, e.g. "~1,250 tokens"
+ */
+function formatTokens(tokens: number): string {
+  return `~${tokens.toLocaleString()} tokens`
+}
+
+/**
+ * One prompt section, expandable to its text and its own sections
+ */
+function PromptSectionCard({section}: {section: PromptSection}) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const canExpand = section.included
+
+  return (
+    <Card padding={3} radius={2} border tone={section.included ? 'default' : 'transparent'}>
+      <Stack space={3}>
+        <Flex align="center" gap={2}>
+          <Button
+            icon={isExpanded ? ChevronDownIcon : ChevronRightIcon}
+            mode="bleed"
+            padding={1}
+            disabled={!canExpand}
+            onClick={() => setIsExpanded(!isExpanded)}
+            aria-expanded={isExpanded}
+            aria-label={isExpanded ? `Hide ${section.title}` : `Show ${section.title}`}
+          />
+          <Badge fontSize={0} tone={section.included ? 'positive' : 'default'}>
+            {section.included ? 'Included' : 'Left out'}
+          </Badge>
+          <Box style={{flex: 1, minWidth: 0}}>
+            <Text size={1} weight="semibold" textOverflow="ellipsis">
+              {section.title}
+            </Text>
+          </Box>
+          {section.included && (
+            <Text size={1} muted>
+              {formatTokens(section.estimatedTokens)}
+            </Text>
+          )}
+        </Flex>
+
+        <Box paddingLeft={5}>
+          <Text size={1} muted>
+            {section.reason}
+          </Text>
+        </Box>
+
+        {isExpanded && (
+          <Stack space={2} paddingLeft={5}>
+            {section.sections ? (
+              section.sections.map((child) => <PromptSectionCard key={child.title} section={child} />)
+            ) : (
+              <Card padding={2} radius={2} tone="transparent" style={{maxHeight: '300px', overflow: 'auto'}}>
+                <Code size={0} style={{display: 'block', whiteSpace: 'pre-wrap'}}>
+                  {section.content.trim()}
+                </Code>
+              </Card>
+            )}
+          </Stack>
+        )}
+      </Stack>
+    </Card>
+  )
+}
+
+export function PromptInspector({customInstructions}: PromptInspectorProps) {
+  const client = useClient({apiVersion: '2024-01-01'})
+  const schema = useSchema()
+  const {activeInstruction, rawInstructions, sectionTemplates, isLoading: isLoadingInstructions} = useInstructions()
+  const {workflows, isLoading: isLoadingWorkflows} = useWorkflows()
+  const {accessControl} = useAccessControl()
+
+  const [message, setMessage] = useState('')
+  const [workflowId, setWorkflowId] = useState('')
+  const [stepIndex, setStepIndex] = useState(0)
+  const [documents, setDocuments] = useState<DocumentContext[]>([])
+  const [isDocumentPickerOpen, setIsDocumentPickerOpen] = useState(false)
+  const [showPrompt, setShowPrompt] = useState(false)
+
+  const schemaContext = useMemo(() => extractSchemaContext(schema), [schema])
+  const workflow = workflows.find((w) => w.id === workflowId) || null
+
+  // Assembled the same way as the chat assembles the first message of a conversation
+  const explanation = useMemo(
+    () =>
+      explainSystemPrompt({
+        schemaContext,
+        customInstructions: activeInstruction?.content || customInstructions,
+        workflowContext: workflow ? buildSelectedWorkflowsContext([workflow], stepIndex) : undefined,
+        documentContexts: documents,
+        userMessage: message.trim() || undefined,
+        rawInstructions: rawInstructions || undefined,
+        sectionTemplates,
+        enableFigmaFetch: workflow?.enableFigmaFetch,
+        accessControl,
+      }),
+    [
+      schemaContext,
+      activeInstruction,
+      customInstructions,
+      workflow,
+      stepIndex,
+      documents,
+      message,
+      rawInstructions,
+      sectionTemplates,
+      accessControl,
+    ]
+  )
+
+  if (isLoadingInstructions || isLoadingWorkflows) {
+    return (
+      <Flex justify="center" padding={4}>
+        <Spinner muted />
+      </Flex>
+    )
+  }
+
+  return (
+    <Stack space={4}>
+      <Text size={1} muted>
+        Preview the system prompt Claude receives for a message. Writing, design and technical
+        instructions are only included when the message contains one of their keywords.
+      </Text>
+
+      {/* Inputs */}
+      <Stack space={3}>
+        <Label>Sample message</Label>
+        <TextArea
+          rows={3}
+          value={message}
+          onChange={(e) => setMessage(e.currentTarget.value)}
+          placeholder="e.g. Write a hero section for the pricing page"
+        />
+      </Stack>
+
+      <Flex gap={3} wrap="wrap">
+        <Stack space={3} style={{flex: 1, minWidth: 200}}>
+          <Label>Skill</Label>
+          <Select
+            value={workflowId}
+            onChange={(e) => {
+              setWorkflowId(e.currentTarget.value)
+              setStepIndex(0)
+            }}
+          >
+            <option value="">None</option>
+            {workflows.map((w) => (
+              <option key={w.id} value={w.id}>
+                {w.name}
+              </option>
+            ))}
+          </Select>
+        </Stack>
+        {workflow?.steps?.length ? (
+          <Stack space={3} style={{flex: 1, minWidth: 200}}>
+            <Label>Step</Label>
+            <Select value={stepIndex} onChange={(e) => setStepIndex(Number(e.currentTarget.value))}>
+              {workflow.steps.map((step, index) => (
+                <option key={step.key} value={index}>
+                  {index + 1}. {step.title}
+                </option>
+              ))}
+            </Select>
+          </Stack>
+        ) : null}
+      </Flex>
+
+      <Stack space={3}>
+        <Label>Context documents</Label>
+        {documents.length > 0 && (
+          <DocumentPills
+            documents={documents}
+            onRemove={(documentId) => setDocuments((prev) => prev.filter((doc) => doc._id !== documentId))}
+          />
+        )}
+        <Flex>
+          <Button
+            text="Add documents"
+            mode="ghost"
+            icon={AddIcon}
+            fontSize={1}
+            onClick={() => setIsDocumentPickerOpen(true)}
+          />
+        </Flex>
+      </Stack>
+
+      {/* Category decisions */}
+      <Card padding={3} radius={2} tone="transparent" border>
+        <Stack space={3}>
+          <Text size={1}>
+            <strong>{formatTokens(explanation.estimatedTokens)}</strong> in the system prompt
+          </Text>
+          {explanation.categories.length > 0 ? (
+            explanation.categories.map((match) => (
+              <Flex key={match.category} align="center" gap={2}>
+                <Badge fontSize={0} tone={match.included ? 'positive' : 'default'}>
+                  {match.category}
+                </Badge>
+                <Text size={1} muted>
+                  {match.reason}
+                </Text>
+              </Flex>
+            ))
+          ) : (
+            <Text size={1} muted>
+              {rawInstructions
+                ? 'Type a sample message to see which instruction categories its keywords include.'
+                : 'No Claude Training document is published, so instructions are not filtered by keywords.'}
+            </Text>
+          )}
+        </Stack>
+      </Card>
+
+      {/* Sections */}
+      <Stack space={2}>
+        {explanation.sections.map((section) => (
+          <PromptSectionCard key={section.title} section={section} />
+        ))}
+      </Stack>
+
+      {/* Full prompt */}
+      <Stack space={3}>
+        <Flex>
+          <Button
+            text={showPrompt ? 'Hide assembled prompt' : 'Show assembled prompt'}
+            mode="ghost"
+            icon={showPrompt ? ChevronDownIcon : ChevronRightIcon}
+            fontSize={1}
+            onClick={() => setShowPrompt(!showPrompt)}
+          />
+        </Flex>
+        {showPrompt && (
+          <Card padding={3} radius={2} tone="transparent" border style={{maxHeight: '400px', overflow: 'auto'}}>
+            <Code size={0} style={{display: 'block', whiteSpace: 'pre-wrap'}}>
+              {explanation.prompt}
+            </Code>
+          </Card>
+        )}
+      </Stack>
+
+      <DocumentPickerDialog
+        isOpen={isDocumentPickerOpen}
+        onClose={() => setIsDocumentPickerOpen(false)}
+        client={client}
+        selectedDocuments={documents}
+        onDocumentsChange={setDocuments}
+      />
+    </Stack>
+  )
+}
@@ -2,9 +2,11 @@
  * QuickActions Component
  *
  * Simple pill-style quick action buttons that pre-populate the message input.
- * Loads actions from Sanity with fallback to defaults.
+ * Loads actions from Sanity with fallback to defaults. Given a context, only
+ * the actions that fit it are shown, with their placeholders filled in.
  */
 
+import {useMemo} from 'react'
 import {Flex, Button, Spinner} from '@sanity/ui'
 import {
   EditIcon,
@@ -17,14 +19,23 @@ import {
   CogIcon,
   CodeBlockIcon,
 } from '@sanity/icons'
-import type {QuickAction} from '../types'
+import type {QuickAction, QuickActionContext} from '../types'
 import {useQuickActions, DEFAULT_QUICK_ACTIONS} from '../hooks/useQuickActions'
+import {fillQuickActionPrompt, isContextualQuickAction, isQuickActionAvailable} from '../lib/quick-actions'
 
 export interface QuickActionsProps {
   /** Callback when a quick action is selected - passes the prompt to pre-populate */
   onActionSelect: (action: QuickAction) => void
+  /** The open document and selected block; actions that need something else are hidden */
+  context?: QuickActionContext
+  /** Only show actions limited to a document type, block type or placeholder context */
+  contextualOnly?: boolean
+  /** Smaller buttons, for the floating chat */
+  compact?: boolean
 }
 
+const NO_CONTEXT: QuickActionContext = {}
+
 /**
  * Get icon component for action
  */
@@ -54,10 +65,19 @@ function getActionIcon(iconName: string) {
   }
 }
 
-export function QuickActions({onActionSelect}: QuickActionsProps) {
+export function QuickActions({onActionSelect, context = NO_CONTEXT, contextualOnly = false, compact = false}: QuickActionsProps) {
   const {quickActions, isLoading} = useQuickActions()
 
+  const availableActions = useMemo(
+    () =>
+      quickActions.filter(
+        (action) => isQuickActionAvailable(action, context) && (!contextualOnly || isContextualQuickAction(action))
+      ),
+    [quickActions, context, contextualOnly]
+  )
+
   if (isLoading) {
+    if (contextualOnly) return null
     return (
       <Flex justify="center" padding={2}>
         <Spinner muted />
@@ -65,9 +85,11 @@ export function QuickActions({onActionSelect}: QuickActionsProps) {
     )
   }
 
+  if (availableActions.length === 0) return null
+
   return (
-    <Flex wrap="wrap" gap={2} justify="center">
-      {quickActions.map((action) => (
+    <Flex wrap="wrap" gap={compact ? 1 : 2} justify={contextualOnly ? 'flex-start' : 'center'}>
+      {availableActions.map((action) => (
         <Button
           key={action.id}
           mode="ghost"
@@ -75,7 +97,9 @@ export function QuickActions({onActionSelect}: QuickActionsProps) {
           icon={getActionIcon(action.icon)}
           text={action.label}
           title={action.description}
-          onClick={() => onActionSelect(action)}
+          fontSize={compact ? 1 : undefined}
+          padding={compact ? 2 : undefined}
+          onClick={() => onActionSelect({...action, prompt: fillQuickActionPrompt(action.prompt, context)})}
           style={{
             borderRadius: 8,
           }}
@@ -3,7 +3,8 @@
  *
  * Settings dialog for configuring the Claude Assistant.
  * Includes role-based access control - only administrators can edit instructions.
- * Non-admin users see a read-only view.
+ * Non-admin users see a read-only view. The Prompt Inspector tab previews the
+ * system prompt assembled for a sample message.
  *
  * Accessibility features (WCAG 2.1 AA):
  * - Focus trap inside dialog
@@ -38,6 +39,7 @@ import {BoltIcon, CogIcon, EditIcon, LockIcon, WarningOutlineIcon} from '@sanity
 import type {PluginSettings} from '../types'
 import {useFocusTrap} from '../hooks/useKeyboardShortcuts'
 import {useQuickActions} from '../hooks/useQuickActions'
+import {PromptInspector} from './PromptInspector'
 
 // ============================================================================
 // Types
@@ -304,7 +306,9 @@ export function SettingsPanel({settings, onSettingsChange, isOpen, onClose, trig
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'settings' | 'writing' | 'design' | 'technical' | 'quickActions'>('settings')
+  const [activeTab, setActiveTab] = useState<
+    'settings' | 'writing' | 'design' | 'technical' | 'quickActions' | 'promptInspector'
+  >('settings')
 
   // Fetch quick actions from Sanity
   const {quickActions, isLoading: isLoadingQuickActions, isUsingDefaults} = useQuickActions()
@@ -543,6 +547,13 @@ export function SettingsPanel({settings, onSettingsChange, isOpen, onClose, trig
               onClick={() => setActiveTab('quickActions')}
               selected={activeTab === 'quickActions'}
             />
+            <Tab
+              aria-controls="prompt-inspector-panel"
+              id="prompt-inspector-tab"
+              label="Prompt Inspector"
+              onClick={() => setActiveTab('promptInspector')}
+              selected={activeTab === 'promptInspector'}
+            />
           </TabList>
 
           {/* API Settings Tab */}
@@ -612,6 +623,51 @@ export function SettingsPanel({settings, onSettingsChange, isOpen, onClose, trig
                   />
                 </Flex>
               </Card>
+
+              {/* Agent Max Steps */}
+              <Stack space={3}>
+                <Label>Agent Max Steps</Label>
+                <TextInput
+                  type="number"
+                  value={settings.agentMaxSteps}
+                  onChange={(e) => updateSetting('agentMaxSteps', parseInt(e.currentTarget.value) || 5)}
+                  min={1}
+                  max={20}
+                />
+                <Text size={0} muted>
+                  Queries and Figma fetches run automatically and their results go back to Claude. This caps how many
+                  responses one request can chain (1-20).
+                </Text>
+              </Stack>
+
+              {/* Agent Token Budget */}
+              <Stack space={3}>
+                <Label>Agent Token Budget</Label>
+                <TextInput
+                  type="number"
+                  value={settings.agentTokenBudget}
+                  onChange={(e) => updateSetting('agentTokenBudget', parseInt(e.currentTarget.value) || 100000)}
+                  min={1000}
+                />
+                <Text size={0} muted>
+                  Stop chaining once a request has used this many tokens across all of its steps.
+                </Text>
+              </Stack>
+
+              {/* Summary Threshold */}
+              <Stack space={3}>
+                <Label>Summary Threshold</Label>
+                <TextInput
+                  type="number"
+                  value={settings.summaryThresholdTokens}
+                  onChange={(e) => updateSetting('summaryThresholdTokens', parseInt(e.currentTarget.value) || 60000)}
+                  min={10000}
+                />
+                <Text size={0} muted>
+                  Once a conversation&apos;s history passes this many tokens (estimated), older messages are replaced
+                  by a summary that keeps document IDs, _keys, decisions and pending tasks.
+                </Text>
+              </Stack>
             </Stack>
           </TabPanel>
 
@@ -923,6 +979,15 @@ export function SettingsPanel({settings, onSettingsChange, isOpen, onClose, trig
             </Stack>
           </TabPanel>
 
+          {/* Prompt Inspector Tab - mounted when opened, as it loads skills and the schema */}
+          <TabPanel
+            aria-labelledby="prompt-inspector-tab"
+            hidden={activeTab !== 'promptInspector'}
+            id="prompt-inspector-panel"
+          >
+            {activeTab === 'promptInspector' && <PromptInspector customInstructions={settings.customInstructions} />}
+          </TabPanel>
+
           {/* Actions */}
           <Flex gap={2} justify="flex-end" paddingTop={3}>
             <Button text="Close" mode="ghost" onClick={handleClose} aria-label="Close settings dialog" />
@@ -0,0 +1,107 @@
+/**
+ * UndoConflictPanel Component
+ *
+ * Shown on an action card when undo was blocked because the document was
+ * edited after Claude's action. Lists every field Claude changed with its
+ * original, Claude and current values, and offers to revert only the fields
+ * nobody has touched since - or to abort and leave the document as it is.
+ */
+
+import {Badge, Box, Button, Card, Flex, Stack, Text} from '@sanity/ui'
+import {CloseIcon, UndoIcon, WarningOutlineIcon} from '@sanity/icons'
+import type {UndoConflict} from '../types'
+
+/**
+ * Longest value preview shown per column
+ */
+const MAX_VALUE_LENGTH = 80
+
+/**
+ * Format a value for a one-line preview
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(empty)'
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value)
+  return text.length > MAX_VALUE_LENGTH ? `${text.substring(0, MAX_VALUE_LENGTH)}…` : text
+}
+
+export interface UndoConflictPanelProps {
+  conflict: UndoConflict
+  /** Revert only the given fields to their values from before Claude's action */
+  onRevertFields: (fields: string[]) => void
+  /** Leave the document as it is */
+  onAbort: () => void
+}
+
+export function UndoConflictPanel({conflict, onRevertFields, onAbort}: UndoConflictPanelProps) {
+  const revertableFields = conflict.fields.filter((field) => !field.editedSince).map((field) => field.field)
+
+  return (
+    <Card padding={2} radius={2} tone="caution">
+      <Stack space={3}>
+        <Flex align="center" gap={2}>
+          <WarningOutlineIcon />
+          <Text size={1} weight="semibold">
+            This document was edited after Claude&apos;s change
+          </Text>
+        </Flex>
+        <Text size={1} muted>
+          A full undo would discard those edits, so nothing has been changed yet.
+        </Text>
+
+        {conflict.fields.length > 0 && (
+          <Stack space={2}>
+            {conflict.fields.map((field) => (
+              <Card key={field.field} padding={2} radius={2} border>
+                <Stack space={2}>
+                  <Flex align="center" gap={2}>
+                    <Text size={1} weight="semibold">
+                      {field.field}
+                    </Text>
+                    <Badge tone={field.editedSince ? 'critical' : 'positive'} fontSize={0}>
+                      {field.editedSince ? 'Edited since' : 'Safe to revert'}
+                    </Badge>
+                  </Flex>
+                  <Text size={0} muted style={{wordBreak: 'break-word'}}>
+                    Before Claude: {formatValue(field.original)}
+                  </Text>
+                  <Text size={0} muted style={{wordBreak: 'break-word'}}>
+                    Claude wrote: {formatValue(field.claude)}
+                  </Text>
+                  <Text size={0} muted style={{wordBreak: 'break-word'}}>
+                    Now: {formatValue(field.current)}
+                  </Text>
+                </Stack>
+              </Card>
+            ))}
+          </Stack>
+        )}
+
+        <Flex gap={2} justify="flex-end" wrap="wrap">
+          <Button
+            text="Abort undo"
+            mode="ghost"
+            icon={CloseIcon}
+            onClick={(e) => {
+              e.stopPropagation()
+              onAbort()
+            }}
+          />
+          {conflict.canRevertFields && (
+            <Box>
+              <Button
+                text={`Revert ${revertableFields.length} untouched field${revertableFields.length !== 1 ? 's' : ''}`}
+                tone="caution"
+                icon={UndoIcon}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onRevertFields(revertableFields)
+                }}
+              />
+            </Box>
+          )}
+        </Flex>
+      </Stack>
+    </Card>
+  )
+}
@@ -0,0 +1,211 @@
+/**
+ * UsageDialog Component
+ *
+ * Token usage and estimated cost for a date range, rolled up per
+ * conversation, user, workflow or model. Covers Studio conversations and
+ * remote API requests, and exports the responses in range as CSV.
+ */
+
+import React, {useCallback, useMemo, useState} from 'react'
+import {Box, Button, Card, Dialog, Flex, Select, Spinner, Stack, Text, TextInput} from '@sanity/ui'
+import {DownloadIcon, ResetIcon} from '@sanity/icons'
+import {getTotalTokens} from 'claude-core'
+import type {ModelPrice} from '../types'
+import {useUsageReport} from '../hooks/useUsageReport'
+import {formatCost, getUsageTotals, groupUsage, usageToCsv, type UsageGroupBy} from '../lib/usage-report'
+
+export interface UsageDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Prices used to estimate cost, from API settings */
+  modelPrices: ModelPrice[]
+}
+
+const GROUP_BY_OPTIONS: Array<{value: UsageGroupBy; title: string}> = [
+  {value: 'conversation', title: 'Conversation'},
+  {value: 'user', title: 'User'},
+  {value: 'workflow', title: 'Workflow'},
+  {value: 'model', title: 'Model'},
+]
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+function formatDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Default range: the last 30 days, including today
+ */
+function getDefaultRange(): {from: string; to: string} {
+  const to = new Date()
+  const from = new Date(to.getFullYear(), to.getMonth(), to.getDate() - 29)
+  return {from: formatDateInput(from), to: formatDateInput(to)}
+}
+
+/**
+ * Trigger a browser download of a CSV file
+ */
+function downloadCsv(filename: string, csv: string): void {
+  const url = URL.createObjectURL(new Blob([csv], {type: 'text/csv;charset=utf-8'}))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const COLUMN_STYLE: React.CSSProperties = {width: 90, flexShrink: 0, textAlign: 'right'}
+
+export function UsageDialog({isOpen, onClose, modelPrices}: UsageDialogProps) {
+  const [range, setRange] = useState(getDefaultRange)
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>('conversation')
+
+  const {records, labels, isLoading, error, refetch} = useUsageReport(range, isOpen)
+
+  const groups = useMemo(
+    () => groupUsage(records, groupBy, labels, modelPrices),
+    [records, groupBy, labels, modelPrices]
+  )
+  const totals = useMemo(() => getUsageTotals(records, modelPrices), [records, modelPrices])
+
+  const handleExport = useCallback(() => {
+    downloadCsv(`claude-usage-${range.from}-to-${range.to}.csv`, usageToCsv(records, labels, modelPrices))
+  }, [records, labels, modelPrices, range])
+
+  if (!isOpen) return null
+
+  return (
+    <Dialog id="claude-usage-dialog" header="Usage" onClose={onClose} width={2}>
+      <Box padding={4}>
+        <Stack space={4}>
+          {/* Filters */}
+          <Flex gap={3} align="flex-end" wrap="wrap">
+            <Stack space={2}>
+              <Text size={1} weight="medium">From</Text>
+              <TextInput
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => setRange((prev) => ({...prev, from: e.currentTarget.value}))}
+              />
+            </Stack>
+            <Stack space={2}>
+              <Text size={1} weight="medium">To</Text>
+              <TextInput
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => setRange((prev) => ({...prev, to: e.currentTarget.value}))}
+              />
+            </Stack>
+            <Stack space={2}>
+              <Text size={1} weight="medium">Group by</Text>
+              <Select value={groupBy} onChange={(e) => setGroupBy(e.currentTarget.value as UsageGroupBy)}>
+                {GROUP_BY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.title}
+                  </option>
+                ))}
+              </Select>
+            </Stack>
+            <Flex gap={2} style={{marginLeft: 'auto'}}>
+              <Button icon={ResetIcon} mode="ghost" onClick={refetch} disabled={isLoading} aria-label="Refresh usage" />
+              <Button
+                icon={DownloadIcon}
+                mode="ghost"
+                text="Export CSV"
+                onClick={handleExport}
+                disabled={isLoading || records.length === 0}
+              />
+            </Flex>
+          </Flex>
+
+          {error && (
+            <Card padding={3} radius={2} tone="critical">
+              <Text size={1}>{error}</Text>
+            </Card>
+          )}
+
+          {/* Totals */}
+          <Card padding={3} radius={2} tone="transparent" border>
+            <Flex gap={4} wrap="wrap">
+              <Stack space={2}>
+                <Text size={0} muted>Responses</Text>
+                <Text size={2} weight="semibold">{totals.responses.toLocaleString()}</Text>
+              </Stack>
+              <Stack space={2}>
+                <Text size={0} muted>Input tokens</Text>
+                <Text size={2} weight="semibold">{totals.usage.inputTokens.toLocaleString()}</Text>
+              </Stack>
+              <Stack space={2}>
+                <Text size={0} muted>Output tokens</Text>
+                <Text size={2} weight="semibold">{totals.usage.outputTokens.toLocaleString()}</Text>
+              </Stack>
+              <Stack space={2}>
+                <Text size={0} muted>Cache write / read</Text>
+                <Text size={2} weight="semibold">
+                  {(totals.usage.cacheCreationInputTokens || 0).toLocaleString()} /{' '}
+                  {(totals.usage.cacheReadInputTokens || 0).toLocaleString()}
+                </Text>
+              </Stack>
+              <Stack space={2}>
+                <Text size={0} muted>Estimated cost</Text>
+                <Text size={2} weight="semibold">{formatCost(totals.cost)}</Text>
+              </Stack>
+            </Flex>
+          </Card>
+
+          {totals.unpricedTokens > 0 && (
+            <Text size={1} muted>
+              {totals.unpricedTokens.toLocaleString()} tokens are from models without a price in API Settings and are
+              not included in the estimated cost.
+            </Text>
+          )}
+          {groupBy === 'workflow' && (
+            <Text size={1} muted>
+              Conversations that applied several workflows count toward each of them.
+            </Text>
+          )}
+
+          {/* Groups */}
+          {isLoading ? (
+            <Flex justify="center" padding={4}>
+              <Spinner muted />
+            </Flex>
+          ) : groups.length === 0 ? (
+            <Text size={1} muted align="center">
+              No usage recorded in this date range.
+            </Text>
+          ) : (
+            <Stack space={1}>
+              <Flex gap={2} paddingX={3} paddingY={2}>
+                <Text size={1} weight="semibold" style={{flex: 1}}>
+                  {GROUP_BY_OPTIONS.find((option) => option.value === groupBy)?.title}
+                </Text>
+                <Text size={1} weight="semibold" style={COLUMN_STYLE}>Responses</Text>
+                <Text size={1} weight="semibold" style={COLUMN_STYLE}>Tokens</Text>
+                <Text size={1} weight="semibold" style={COLUMN_STYLE}>Cost</Text>
+              </Flex>
+              {groups.map((group) => (
+                <Card key={group.key} paddingX={3} paddingY={2} radius={2} border>
+                  <Flex gap={2} align="center">
+                    <Text size={1} textOverflow="ellipsis" style={{flex: 1, minWidth: 0}}>
+                      {group.label}
+                    </Text>
+                    <Text size={1} style={COLUMN_STYLE}>{group.responses.toLocaleString()}</Text>
+                    <Text size={1} style={COLUMN_STYLE}>{getTotalTokens(group.usage).toLocaleString()}</Text>
+                    <Text size={1} style={COLUMN_STYLE}>{formatCost(group.cost)}</Text>
+                  </Flex>
+                </Card>
+              ))}
+            </Stack>
+          )}
+        </Stack>
+      </Box>
+    </Dialog>
+  )
+}
@@ -2,11 +2,14 @@
  * WorkflowPicker Component (Skills Picker)
  *
  * Modal dialog for selecting skills to add as context to conversations.
- * Similar to DocumentPicker but for skill selection.
+ * Similar to DocumentPicker but for skill selection. Skills with parameters
+ * ask for their values before they are added. Also shows progress through a
+ * multi-step skill.
  */
 
 import React, {useState, useCallback, useMemo} from 'react'
 import {
+  Badge,
   Box,
   Card,
   Flex,
@@ -15,10 +18,32 @@ import {
   TextInput,
   Checkbox,
   Layer,
+  Select,
+  Spinner,
   Stack,
 } from '@sanity/ui'
-import {CloseIcon, SearchIcon, BoltIcon, WarningOutlineIcon} from '@sanity/icons'
+import {
+  CloseIcon,
+  SearchIcon,
+  BoltIcon,
+  WarningOutlineIcon,
+  LockIcon,
+  CheckmarkIcon,
+  ResetIcon,
+  DocumentIcon,
+  ImageIcon,
+} from '@sanity/icons'
+import type {SanityClient} from 'sanity'
+import {validateWorkflowParameterValues} from 'claude-core'
+import type {
+  DocumentContext,
+  ImageAttachment,
+  WorkflowParameter,
+  WorkflowParameterValues,
+} from '../types'
 import type {WorkflowOption} from './MessageInput'
+import {DocumentPickerDialog} from './DocumentPicker'
+import {ImagePickerDialog} from './ImagePickerDialog'
 
 /**
  * WorkflowPills Component
@@ -99,6 +124,282 @@ export function WorkflowPills({workflows, onRemove, compact = false}: WorkflowPi
   )
 }
 
+/**
+ * WorkflowProgress Component
+ *
+ * Shows where a conversation is in a multi-step skill and moves it to the
+ * next step. Steps that require approval are gates: continuing past them is
+ * an explicit approval.
+ */
+export interface WorkflowProgressProps {
+  workflow: WorkflowOption
+  /** Index of the current step; equal to the number of steps once all are done */
+  stepIndex: number
+  /** Move to another step */
+  onStepChange: (stepIndex: number) => void
+  disabled?: boolean
+}
+
+export function WorkflowProgress({workflow, stepIndex, onStepChange, disabled = false}: WorkflowProgressProps) {
+  const steps = workflow.steps || []
+  if (steps.length === 0) return null
+
+  const currentStep = steps[stepIndex]
+  const isLastStep = stepIndex === steps.length - 1
+
+  return (
+    <Card padding={3} radius={2} border tone={currentStep?.requireApproval ? 'caution' : 'transparent'}>
+      <Stack space={3}>
+        <Flex align="center" gap={2}>
+          <BoltIcon style={{fontSize: 16, flexShrink: 0}} />
+          <Box style={{flex: 1, minWidth: 0}}>
+            <Text size={1} weight="medium" textOverflow="ellipsis">
+              {currentStep
+                ? `${workflow.name} · Step ${stepIndex + 1} of ${steps.length}: ${currentStep.title}`
+                : `${workflow.name} · All ${steps.length} steps done`}
+            </Text>
+          </Box>
+          {currentStep ? (
+            <Button
+              icon={currentStep.requireApproval ? CheckmarkIcon : undefined}
+              text={
+                currentStep.requireApproval
+                  ? isLastStep
+                    ? 'Approve and finish'
+                    : 'Approve and continue'
+                  : isLastStep
+                    ? 'Finish'
+                    : 'Next step'
+              }
+              tone={currentStep.requireApproval ? 'caution' : 'primary'}
+              mode={currentStep.requireApproval ? 'default' : 'ghost'}
+              fontSize={1}
+              padding={2}
+              onClick={() => onStepChange(stepIndex + 1)}
+              disabled={disabled}
+            />
+          ) : (
+            <Button
+              icon={ResetIcon}
+              text="Restart"
+              mode="ghost"
+              fontSize={1}
+              padding={2}
+              onClick={() => onStepChange(0)}
+              disabled={disabled}
+            />
+          )}
+        </Flex>
+
+        <Flex gap={1} wrap="wrap">
+          {steps.map((step, index) => (
+            <Badge
+              key={step.key}
+              fontSize={0}
+              tone={index < stepIndex ? 'positive' : index === stepIndex ? 'primary' : 'default'}
+              title={step.requireApproval ? 'Needs approval before continuing' : undefined}
+            >
+              {index + 1}. {step.title}
+              {step.requireApproval && <LockIcon style={{marginLeft: 4}} />}
+            </Badge>
+          ))}
+        </Flex>
+
+        {currentStep?.requireApproval && (
+          <Text size={1} muted>
+            Review this step’s changes. The skill only continues once you approve.
+          </Text>
+        )}
+      </Stack>
+    </Card>
+  )
+}
+
+/**
+ * WorkflowParametersForm Component
+ *
+ * Asks for the values of a skill's typed parameters before it is added.
+ * The values fill the {{name}} placeholders of its starter prompt.
+ */
+export interface WorkflowParametersFormProps {
+  workflow: WorkflowOption
+  /** Sanity client for picking documents and uploading images */
+  client?: SanityClient
+  onSubmit: (values: WorkflowParameterValues, labels: Record<string, string>) => void
+  onCancel: () => void
+}
+
+export function WorkflowParametersForm({workflow, client, onSubmit, onCancel}: WorkflowParametersFormProps) {
+  const parameters = useMemo(() => workflow.parameters || [], [workflow.parameters])
+  const [values, setValues] = useState<WorkflowParameterValues>({})
+  const [labels, setLabels] = useState<Record<string, string>>({})
+  const [documentParameter, setDocumentParameter] = useState<WorkflowParameter | null>(null)
+  const [imageParameter, setImageParameter] = useState<WorkflowParameter | null>(null)
+  const [uploadingParameter, setUploadingParameter] = useState<string | null>(null)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+
+  const errors = useMemo(() => validateWorkflowParameterValues(parameters, values), [parameters, values])
+
+  const setValue = useCallback((name: string, value: string, label?: string) => {
+    setValues((prev) => ({...prev, [name]: value}))
+    setLabels((prev) => {
+      const next = {...prev}
+      if (label) {
+        next[name] = label
+      } else {
+        delete next[name]
+      }
+      return next
+    })
+  }, [])
+
+  const handleDocumentsChange = useCallback((documents: DocumentContext[]) => {
+    const document = documents[documents.length - 1]
+    if (documentParameter && document) {
+      setValue(documentParameter.name, document._id.replace(/^drafts\./, ''), document.name)
+    }
+    setDocumentParameter(null)
+  }, [documentParameter, setValue])
+
+  // Images from the computer are uploaded first, so the value is always an asset ID
+  const handleImageSelect = useCallback(async (image: ImageAttachment) => {
+    if (!imageParameter) return
+    const name = imageParameter.name
+
+    if (image.sanityAssetId) {
+      setValue(name, image.sanityAssetId, image.name)
+      return
+    }
+    if (!client || !image.base64) return
+
+    setUploadingParameter(name)
+    setUploadError(null)
+    try {
+      const blob = await fetch(`data:${image.mimeType};base64,${image.base64}`).then((res) => res.blob())
+      const asset = await client.assets.upload('image', blob, {filename: image.name})
+      setValue(name, asset._id, image.name)
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Image upload failed')
+    } finally {
+      setUploadingParameter(null)
+    }
+  }, [imageParameter, client, setValue])
+
+  const renderPickedValue = (parameter: WorkflowParameter, onPick: () => void) => {
+    const value = values[parameter.name]
+    const isUploading = uploadingParameter === parameter.name
+
+    return (
+      <Flex align="center" gap={2}>
+        <Box style={{flex: 1, minWidth: 0}}>
+          <Text size={1} muted={!value} textOverflow="ellipsis">
+            {isUploading ? 'Uploading…' : value ? labels[parameter.name] || value : 'Nothing selected'}
+          </Text>
+        </Box>
+        {isUploading && <Spinner muted />}
+        {value && !isUploading && (
+          <Button
+            icon={CloseIcon}
+            mode="bleed"
+            padding={2}
+            onClick={() => setValue(parameter.name, '')}
+            aria-label={`Clear ${parameter.title}`}
+          />
+        )}
+        <Button
+          icon={parameter.type === 'image' ? ImageIcon : DocumentIcon}
+          text={value ? 'Change' : 'Choose'}
+          mode="ghost"
+          fontSize={1}
+          padding={2}
+          onClick={onPick}
+          disabled={!client || isUploading}
+        />
+      </Flex>
+    )
+  }
+
+  const renderInput = (parameter: WorkflowParameter) => {
+    const value = values[parameter.name] || ''
+
+    switch (parameter.type) {
+      case 'select':
+        return (
+          <Select value={value} onChange={(e) => setValue(parameter.name, e.currentTarget.value)}>
+            <option value="">Choose…</option>
+            {(parameter.options || []).map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </Select>
+        )
+      case 'date':
+        return (
+          <TextInput type="date" value={value} onChange={(e) => setValue(parameter.name, e.currentTarget.value)} />
+        )
+      case 'reference':
+        return renderPickedValue(parameter, () => setDocumentParameter(parameter))
+      case 'image':
+        return renderPickedValue(parameter, () => setImageParameter(parameter))
+      default:
+        return <TextInput value={value} onChange={(e) => setValue(parameter.name, e.currentTarget.value)} />
+    }
+  }
+
+  return (
+    <Stack space={4}>
+      {parameters.map((parameter) => (
+        <Stack key={parameter.name} space={2}>
+          <Text size={1} weight="medium">
+            {parameter.title}
+            {parameter.required ? ' *' : ''}
+          </Text>
+          {parameter.description && (
+            <Text muted style={{fontSize: '0.75rem'}}>
+              {parameter.description}
+            </Text>
+          )}
+          {renderInput(parameter)}
+        </Stack>
+      ))}
+
+      {uploadError && (
+        <Text size={1} style={{color: 'var(--card-critical-fg-color)'}}>
+          {uploadError}
+        </Text>
+      )}
+
+      <Flex justify="flex-end" gap={2}>
+        <Button text="Cancel" mode="ghost" fontSize={1} onClick={onCancel} />
+        <Button
+          icon={BoltIcon}
+          text="Use skill"
+          tone="primary"
+          fontSize={1}
+          onClick={() => onSubmit(values, labels)}
+          disabled={errors.length > 0 || !!uploadingParameter}
+        />
+      </Flex>
+
+      <DocumentPickerDialog
+        isOpen={!!documentParameter}
+        onClose={() => setDocumentParameter(null)}
+        client={client}
+        selectedDocuments={[]}
+        onDocumentsChange={handleDocumentsChange}
+        documentTypes={documentParameter?.documentTypes?.length ? documentParameter.documentTypes : undefined}
+      />
+      <ImagePickerDialog
+        isOpen={!!imageParameter}
+        onClose={() => setImageParameter(null)}
+        onSelect={handleImageSelect}
+        client={client}
+      />
+    </Stack>
+  )
+}
+
 /**
  * WorkflowPickerDialog Component
  *
@@ -117,6 +418,8 @@ export interface WorkflowPickerDialogProps {
   onWorkflowsChange: (workflows: WorkflowOption[]) => void
   /** Whether workflows are loading */
   isLoading?: boolean
+  /** Sanity client for the parameter form's document and image pickers */
+  client?: SanityClient
 }
 
 export function WorkflowPickerDialog({
@@ -126,8 +429,11 @@ export function WorkflowPickerDialog({
   selectedWorkflows,
   onWorkflowsChange,
   isLoading = false,
+  client,
 }: WorkflowPickerDialogProps) {
   const [searchQuery, setSearchQuery] = useState('')
+  // Skill whose parameter form is open; it is added once the form is submitted
+  const [configuringWorkflowId, setConfiguringWorkflowId] = useState<string | null>(null)
   const [figmaConfigured, setFigmaConfigured] = useState<boolean | null>(null)
 
   // Check if any selected workflow has Figma enabled
@@ -159,11 +465,22 @@ export function WorkflowPickerDialog({
 
     if (isSelected) {
       onWorkflowsChange(selectedWorkflows.filter(w => w._id !== workflow._id))
+    } else if (workflow.parameters?.length) {
+      setConfiguringWorkflowId(prev => (prev === workflow._id ? null : workflow._id))
     } else {
       onWorkflowsChange([...selectedWorkflows, workflow])
     }
   }, [selectedWorkflows, onWorkflowsChange])
 
+  const handleParametersSubmit = useCallback((
+    workflow: WorkflowOption,
+    parameterValues: WorkflowParameterValues,
+    parameterLabels: Record<string, string>
+  ) => {
+    onWorkflowsChange([...selectedWorkflows, {...workflow, parameterValues, parameterLabels}])
+    setConfiguringWorkflowId(null)
+  }, [selectedWorkflows, onWorkflowsChange])
+
   const handleClearAll = useCallback(() => {
     onWorkflowsChange([])
   }, [onWorkflowsChange])
@@ -172,6 +489,7 @@ export function WorkflowPickerDialog({
   React.useEffect(() => {
     if (isOpen) {
       setSearchQuery('')
+      setConfiguringWorkflowId(null)
     }
   }, [isOpen])
 
@@ -278,37 +596,59 @@ export function WorkflowPickerDialog({
               <Stack space={1} padding={2}>
                 {filteredWorkflows.map((workflow) => {
                   const isSelected = selectedWorkflows.some(w => w._id === workflow._id)
+                  const isConfiguring = configuringWorkflowId === workflow._id
 
                   return (
-                    <Card
-                      key={workflow._id}
-                      padding={3}
-                      radius={2}
-                      tone={isSelected ? 'positive' : 'default'}
-                      style={{
-                        cursor: 'pointer',
-                        transition: 'background-color 150ms ease',
-                      }}
-                      onClick={() => handleToggleWorkflow(workflow)}
-                    >
-                      <Flex align="flex-start" gap={3}>
-                        <Checkbox
-                          checked={isSelected}
-                          onChange={() => handleToggleWorkflow(workflow)}
-                          style={{marginTop: 2}}
-                        />
-                        <Stack space={2} style={{flex: 1, minWidth: 0}}>
-                          <Text size={1} weight="medium" textOverflow="ellipsis">
-                            {workflow.name}
-                          </Text>
-                          {workflow.description && (
-                            <Text muted style={{fontSize: '0.75rem'}}>
-                              {workflow.description}
+                    <React.Fragment key={workflow._id}>
+                      <Card
+                        padding={3}
+                        radius={2}
+                        tone={isSelected ? 'positive' : 'default'}
+                        style={{
+                          cursor: 'pointer',
+                          transition: 'background-color 150ms ease',
+                        }}
+                        onClick={() => handleToggleWorkflow(workflow)}
+                      >
+                        <Flex align="flex-start" gap={3}>
+                          <Checkbox
+                            checked={isSelected}
+                            onChange={() => handleToggleWorkflow(workflow)}
+                            style={{marginTop: 2}}
+                          />
+                          <Stack space={2} style={{flex: 1, minWidth: 0}}>
+                            <Text size={1} weight="medium" textOverflow="ellipsis">
+                              {workflow.name}
                             </Text>
-                          )}
-                        </Stack>
-                      </Flex>
-                    </Card>
+                            {workflow.description && (
+                              <Text muted style={{fontSize: '0.75rem'}}>
+                                {workflow.description}
+                              </Text>
+                            )}
+                            {workflow.steps && workflow.steps.length > 0 && (
+                              <Text muted style={{fontSize: '0.75rem'}}>
+                                {workflow.steps.length} steps: {workflow.steps.map((step) => step.title).join(' → ')}
+                              </Text>
+                            )}
+                            {workflow.parameters && workflow.parameters.length > 0 && (
+                              <Text muted style={{fontSize: '0.75rem'}}>
+                                Asks for: {workflow.parameters.map((parameter) => parameter.title).join(', ')}
+                              </Text>
+                            )}
+                          </Stack>
+                        </Flex>
+                      </Card>
+                      {isConfiguring && (
+                        <Card padding={3} radius={2} border>
+                          <WorkflowParametersForm
+                            workflow={workflow}
+                            client={client}
+                            onSubmit={(values, labels) => handleParametersSubmit(workflow, values, labels)}
+                            onCancel={() => setConfiguringWorkflowId(null)}
+                          />
+                        </Card>
+                      )}
+                    </React.Fragment>
                   )
                 })}
               </Stack>
@@ -0,0 +1,123 @@
+/**
+ * useAccessControl Hook
+ *
+ * Fetches the Claude Access Control singleton from Sanity with caching.
+ * Only fetches **published** documents (not drafts).
+ * Used to describe restrictions in the system prompt; enforcement happens
+ * in ContentOperations.executeAction.
+ */
+
+import {useState, useCallback, useEffect, useRef} from 'react'
+import {useClient} from 'sanity'
+import {ACCESS_CONTROL_QUERY, isDocumentTypeAllowed, isOperationAllowed} from 'claude-core'
+import type {AccessControlSettings, AccessOperation} from '../types'
+
+const API_VERSION = '2024-01-01'
+
+/**
+ * Cache TTL in milliseconds (5 minutes)
+ */
+const CACHE_TTL = 5 * 60 * 1000
+
+/**
+ * Cache structure for access control settings
+ */
+interface AccessControlCache {
+  accessControl: AccessControlSettings | null
+  timestamp: number
+}
+
+// Module-level cache to persist across hook instances
+let cachedData: AccessControlCache | null = null
+
+/**
+ * Return type for useAccessControl hook
+ */
+export interface UseAccessControlReturn {
+  /** Access restrictions, or null if no published access control document exists */
+  accessControl: AccessControlSettings | null
+  isLoading: boolean
+  error: string | null
+  isTypeAllowed: (documentType: string) => boolean
+  isOperationAllowed: (operation: AccessOperation) => boolean
+  refetch: () => Promise<void>
+}
+
+/**
+ * Hook for fetching Access Control settings from Sanity
+ * Only fetches **published** documents (filters out drafts)
+ */
+export function useAccessControl(): UseAccessControlReturn {
+  const client = useClient({apiVersion: API_VERSION})
+
+  const [accessControl, setAccessControl] = useState<AccessControlSettings | null>(
+    cachedData?.accessControl ?? null
+  )
+  const [isLoading, setIsLoading] = useState(!cachedData)
+  const [error, setError] = useState<string | null>(null)
+
+  // Track if we've already fetched to prevent re-fetching
+  const hasFetchedRef = useRef(false)
+
+  // Fetch access control settings from Sanity (published only)
+  const fetchAccessControl = useCallback(async () => {
+    if (cachedData && Date.now() - cachedData.timestamp < CACHE_TTL) {
+      setAccessControl(cachedData.accessControl)
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const result = await client.fetch<AccessControlSettings | null>(ACCESS_CONTROL_QUERY)
+
+      cachedData = {
+        accessControl: result,
+        timestamp: Date.now(),
+      }
+
+      setAccessControl(result)
+    } catch (err) {
+      console.error('Failed to fetch access control settings:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load access control settings')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [client])
+
+  // Fetch access control on mount only (once)
+  useEffect(() => {
+    if (!hasFetchedRef.current) {
+      hasFetchedRef.current = true
+      fetchAccessControl()
+    }
+  }, [fetchAccessControl])
+
+  const isTypeAllowed = useCallback(
+    (documentType: string) => !accessControl || isDocumentTypeAllowed(documentType, accessControl),
+    [accessControl]
+  )
+
+  const isOperationAllowedCallback = useCallback(
+    (operation: AccessOperation) => !accessControl || isOperationAllowed(operation, accessControl),
+    [accessControl]
+  )
+
+  // Force refetch that bypasses cache
+  const refetch = useCallback(async () => {
+    cachedData = null
+    hasFetchedRef.current = false
+    await fetchAccessControl()
+  }, [fetchAccessControl])
+
+  return {
+    accessControl,
+    isLoading,
+    error,
+    isTypeAllowed,
+    isOperationAllowed: isOperationAllowedCallback,
+    refetch,
+  }
+}
@@ -7,8 +7,9 @@
  */
 
 import {useState, useCallback, useEffect, useRef} from 'react'
+import {DEFAULT_MODEL_PRICES, DEFAULT_SUMMARY_THRESHOLD_TOKENS} from 'claude-core'
 import {useClient} from 'sanity'
-import type {PluginSettings} from '../types'
+import type {ModelPrice, PluginSettings} from '../types'
 import {DEFAULT_SETTINGS} from '../types'
 
 const API_VERSION = '2024-01-01'
@@ -28,6 +29,10 @@ interface SanityApiSettings {
   maxTokens?: number
   temperature?: number
   enableStreaming?: boolean
+  agentMaxSteps?: number
+  agentTokenBudget?: number
+  summaryThresholdTokens?: number
+  modelPrices?: ModelPrice[]
 }
 
 /**
@@ -40,6 +45,10 @@ const DEFAULT_API_SETTINGS_DOC = {
   maxTokens: 4096,
   temperature: 0.7,
   enableStreaming: true,
+  agentMaxSteps: 5,
+  agentTokenBudget: 100000,
+  summaryThresholdTokens: DEFAULT_SUMMARY_THRESHOLD_TOKENS,
+  modelPrices: DEFAULT_MODEL_PRICES.map((price) => ({_key: price.model, _type: 'modelPrice', ...price})),
 }
 
 /**
@@ -121,7 +130,11 @@ export function useApiSettings(): UseApiSettingsReturn {
         model,
         maxTokens,
         temperature,
-        enableStreaming
+        enableStreaming,
+        agentMaxSteps,
+        agentTokenBudget,
+        summaryThresholdTokens,
+        modelPrices[]{model, inputPrice, outputPrice, cacheWritePrice, cacheReadPrice}
       }`
 
       let result = await client.fetch<SanityApiSettings | null>(query)
@@ -144,6 +157,10 @@ export function useApiSettings(): UseApiSettingsReturn {
           maxTokens: result.maxTokens ?? DEFAULT_SETTINGS.maxTokens,
           temperature: result.temperature ?? DEFAULT_SETTINGS.temperature,
           enableStreaming: result.enableStreaming ?? DEFAULT_SETTINGS.enableStreaming,
+          agentMaxSteps: result.agentMaxSteps ?? DEFAULT_SETTINGS.agentMaxSteps,
+          agentTokenBudget: result.agentTokenBudget ?? DEFAULT_SETTINGS.agentTokenBudget,
+          summaryThresholdTokens: result.summaryThresholdTokens ?? DEFAULT_SETTINGS.summaryThresholdTokens,
+          modelPrices: result.modelPrices?.length ? result.modelPrices : DEFAULT_SETTINGS.modelPrices,
           // customInstructions is kept in localStorage (user preference, not shared)
           customInstructions: '',
         }
@@ -0,0 +1,109 @@
+/**
+ * useAuditLog Hook
+ *
+ * Loads claudeAuditEntry documents, newest first, filtered by document,
+ * source, action type and outcome. A document filter matches both the
+ * published ID and its draft.
+ */
+
+import {useState, useCallback, useEffect} from 'react'
+import {useClient} from 'sanity'
+import {AUDIT_ENTRY_TYPE} from 'claude-core'
+import type {AuditEntry, AuditSource} from '../types'
+
+const API_VERSION = '2024-01-01'
+
+/**
+ * Most entries loaded at once
+ */
+const AUDIT_LOG_LIMIT = 200
+
+/**
+ * Filters for the audit log
+ */
+export interface AuditLogFilters {
+  /** Published or draft document ID */
+  documentId?: string
+  source?: AuditSource
+  actionType?: string
+  outcome?: 'succeeded' | 'failed'
+}
+
+/**
+ * Return type for useAuditLog hook
+ */
+export interface UseAuditLogReturn {
+  entries: AuditEntry[]
+  isLoading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Build the GROQ filter and params for a set of filters
+ */
+function buildAuditQuery(filters: AuditLogFilters): {query: string; params: Record<string, string>} {
+  const conditions = [`_type == "${AUDIT_ENTRY_TYPE}"`]
+  const params: Record<string, string> = {}
+
+  const documentId = filters.documentId?.trim().replace(/^drafts\./, '')
+  if (documentId) {
+    conditions.push('documentId in [$documentId, "drafts." + $documentId]')
+    params.documentId = documentId
+  }
+  if (filters.source) {
+    conditions.push('source == $source')
+    params.source = filters.source
+  }
+  if (filters.actionType) {
+    conditions.push('actionType == $actionType')
+    params.actionType = filters.actionType
+  }
+  if (filters.outcome) {
+    conditions.push(filters.outcome === 'succeeded' ? 'success == true' : 'success != true')
+  }
+
+  return {
+    query: `*[${conditions.join(' && ')}] | order(timestamp desc)[0...${AUDIT_LOG_LIMIT}]`,
+    params,
+  }
+}
+
+/**
+ * Hook for browsing the audit log
+ */
+export function useAuditLog(filters: AuditLogFilters): UseAuditLogReturn {
+  const client = useClient({apiVersion: API_VERSION})
+
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const {documentId, source, actionType, outcome} = filters
+
+  const fetchEntries = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const {query, params} = buildAuditQuery({documentId, source, actionType, outcome})
+      setEntries(await client.fetch<AuditEntry[]>(query, params))
+    } catch (err) {
+      console.error('Failed to load audit log:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load audit log')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [client, documentId, source, actionType, outcome])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  return {
+    entries,
+    isLoading,
+    error,
+    refetch: fetchEntries,
+  }
+}
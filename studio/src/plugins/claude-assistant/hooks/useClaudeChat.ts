@@ -6,9 +6,14 @@
  */
 
 import React, {useState, useCallback, useRef, useEffect, useMemo} from 'react'
-import type {Message, ParsedAction, SchemaContext, UseClaudeChatReturn, ImageAttachment, DocumentContext} from '../types'
-import {parseActions} from '../lib/actions'
+import {DEFAULT_SUMMARY_THRESHOLD_TOKENS, findCompactionPoint, formatSummaryForPrompt, getTotalTokens} from 'claude-core'
+import {useClient} from 'sanity'
+import type {Message, ParsedAction, SchemaContext, UseClaudeChatReturn, ImageAttachment, DocumentContext, AccessControlSettings, ApiMessage, ToolUseBlock, ActionResult, AgentStep, TokenUsage, BudgetStatus, ConversationSummary, WorkflowStep} from '../types'
+import {parseResponseActions} from '../lib/actions'
+import {getLastSummarizedMessageId, getSummarizedCount, toSummaryMessages} from '../lib/summary'
 import {buildSystemPrompt} from '../lib/instructions'
+import {buildAgentFollowUp, getAgentStopReason, type AgentActionResult} from '../lib/agent'
+import {attachToolBlocks, getActionTools} from '../lib/tools'
 import type {Conversation} from '../types'
 
 /**
@@ -70,6 +75,16 @@ export interface UseClaudeChatOptions {
    */
   onGenerateTitle?: (conversationId: string, userMessage: string, assistantResponse: string) => Promise<void>
 
+  /**
+   * Callback to store or clear the summary of the conversation's earlier messages
+   */
+  onUpdateSummary?: (conversationId: string, summary: ConversationSummary | null) => Promise<void>
+
+  /**
+   * Callback to log the tokens a summary request used for the conversation
+   */
+  onRecordSummaryUsage?: (conversationId: string, usage: TokenUsage & {model?: string}) => Promise<void>
+
   /**
    * Callback when an action is parsed from the response
    */
@@ -99,6 +114,38 @@ export interface UseClaudeChatOptions {
    * Whether Figma integration is enabled for the active skill
    */
   enableFigmaFetch?: boolean
+
+  /**
+   * Current step of a multi-step workflow; only its allowed actions are offered as tools
+   */
+  workflowStep?: WorkflowStep
+
+  /**
+   * Access restrictions to describe in the system prompt
+   */
+  accessControl?: AccessControlSettings | null
+
+  /**
+   * Runs read-only actions (query, fetchFigmaFrame, explain) for the agent loop.
+   * When set, their results are fed back to Claude as hidden messages until the
+   * next action needs approval or the step/token budget runs out.
+   */
+  executeAgentAction?: (action: ParsedAction) => Promise<ActionResult>
+
+  /**
+   * Maximum responses in one agent run
+   */
+  agentMaxSteps?: number
+
+  /**
+   * Token budget for one agent run, across all of its steps
+   */
+  agentTokenBudget?: number
+
+  /**
+   * Estimated history tokens past which older messages are summarized
+   */
+  summaryThresholdTokens?: number
 }
 
 /**
@@ -168,8 +215,8 @@ function safeSerialize(obj: unknown): unknown {
 /**
  * Parse SSE stream data
  */
-function parseSSEChunk(chunk: string): Array<{text?: string; done?: boolean; error?: string}> {
-  const results: Array<{text?: string; done?: boolean; error?: string}> = []
+function parseSSEChunk(chunk: string): Array<{text?: string; toolUse?: ToolUseBlock; usage?: TokenUsage; budget?: BudgetStatus; done?: boolean; error?: string}> {
+  const results: Array<{text?: string; toolUse?: ToolUseBlock; usage?: TokenUsage; budget?: BudgetStatus; done?: boolean; error?: string}> = []
   const lines = chunk.split('\n').filter((line) => line.startsWith('data: '))
 
   for (const line of lines) {
@@ -185,6 +232,15 @@ function parseSSEChunk(chunk: string): Array<{text?: string; done?: boolean; err
       if (parsed.text) {
         results.push({text: parsed.text})
       }
+      if (parsed.toolUse) {
+        results.push({toolUse: parsed.toolUse})
+      }
+      if (parsed.usage) {
+        results.push({usage: parsed.usage})
+      }
+      if (parsed.budget) {
+        results.push({budget: parsed.budget})
+      }
       if (parsed.error) {
         results.push({error: parsed.error})
       }
@@ -202,12 +258,20 @@ function parseSSEChunk(chunk: string): Array<{text?: string; done?: boolean; err
 export interface MessageOptions {
   /** If true, the message is sent to the API but not rendered in the chat UI */
   hidden?: boolean
+  /** Continues an agent run - set by the loop on the follow-up messages it sends */
+  agentRun?: {step: number; tokensUsed: number}
 }
 
 export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChatReturn, 'sendMessage'> & {
   sendMessage: (content: string, images?: ImageAttachment[], documentContextsOverride?: DocumentContext[], messageOptions?: MessageOptions) => Promise<void>
   setMessages: React.Dispatch<React.SetStateAction<Message[]>>
   cancelStream: () => void
+  /** Monthly budget status for the current user (null when no budgets are configured) */
+  budget: BudgetStatus | null
+  /** Summary sent to Claude in place of the conversation's earlier messages */
+  summary: ConversationSummary | null
+  /** Replace the summary text, or discard the summary with null */
+  editSummary: (content: string | null) => Promise<void>
 } {
   const {
     apiEndpoint,
@@ -221,19 +285,39 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
     onAddMessage,
     onUpdateMessage,
     onGenerateTitle,
+    onUpdateSummary,
+    onRecordSummaryUsage,
     onAction,
     enableStreaming = true,
     model,
     maxTokens,
     temperature,
     enableFigmaFetch,
+    workflowStep,
+    accessControl,
+    executeAgentAction,
+    agentMaxSteps = 5,
+    agentTokenBudget = 100000,
+    summaryThresholdTokens = DEFAULT_SUMMARY_THRESHOLD_TOKENS,
   } = options
 
   const [messages, setMessages] = useState<Message[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [budget, setBudget] = useState<BudgetStatus | null>(null)
+  const [summary, setSummary] = useState<ConversationSummary | null>(null)
+
+  // Requests carry the Studio session token, so the API checks user and role
+  // budgets for the user Sanity reports for it rather than one the Studio claims
+  const client = useClient({apiVersion: '2024-01-01'})
+  const authHeaders = useMemo((): Record<string, string> => {
+    const token = client.config().token
+    return token ? {Authorization: `Bearer ${token}`} : {}
+  }, [client])
 
   const abortControllerRef = useRef<AbortController | null>(null)
+  // Latest sendMessage, used by the agent loop to send follow-up messages
+  const sendMessageRef = useRef<((content: string, images?: ImageAttachment[], documentContextsOverride?: DocumentContext[], messageOptions?: MessageOptions) => Promise<void>) | null>(null)
   const isFirstMessageRef = useRef(true)
   const lastConversationIdRef = useRef<string | null>(null)
 
@@ -243,6 +327,13 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
     messagesRef.current = messages
   }, [messages])
 
+  // Ref tracking the current summary, updated as soon as a new one is generated
+  const summaryRef = useRef<ConversationSummary | null>(null)
+  const updateSummaryState = useCallback((next: ConversationSummary | null) => {
+    summaryRef.current = next
+    setSummary(next)
+  }, [])
+
   // Guard against state updates after unmount
   const mountedRef = useRef(true)
   useEffect(() => {
@@ -250,6 +341,20 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
     return () => { mountedRef.current = false }
   }, [])
 
+  // Load the budget status so the remaining budget shows before the first request
+  useEffect(() => {
+    fetch(apiEndpoint, {headers: authHeaders})
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (mountedRef.current && data?.budget?.scopes?.length) {
+          setBudget(data.budget)
+        }
+      })
+      .catch(() => {
+        // Budget status is informational; the API still enforces caps
+      })
+  }, [apiEndpoint, authHeaders])
+
   // Sync messages with active conversation
   // Use activeConversation.id and serialized message IDs for proper dependency tracking
   // This ensures we sync when the conversation changes OR when messages are loaded from server
@@ -298,6 +403,68 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
     }
   }, [activeConversation?.id, conversationMessageIds])
 
+  // Load the stored summary when switching conversations, and when it changes on the server.
+  // A list refresh without the summary does not clear it for the same conversation.
+  const summaryConversationIdRef = useRef<string | null>(null)
+  useEffect(() => {
+    const conversationId = activeConversation?.id ?? null
+    const storedSummary = activeConversation?.summary ?? null
+
+    if (conversationId !== summaryConversationIdRef.current) {
+      summaryConversationIdRef.current = conversationId
+      updateSummaryState(storedSummary)
+    } else if (storedSummary) {
+      updateSummaryState(storedSummary)
+    }
+  }, [activeConversation?.id, activeConversation?.summary?.updatedAt, updateSummaryState])
+
+  /**
+   * Summarize messages, folding in the previous summary
+   * Returns null on failure, in which case the full history is sent.
+   */
+  const summarizeMessages = useCallback(
+    async (
+      conversationId: string | null,
+      toSummarize: Message[],
+      previous: ConversationSummary | null,
+      messageCount: number
+    ): Promise<ConversationSummary | null> => {
+      try {
+        const response = await fetch(`${apiEndpoint}/summarize`, {
+          method: 'POST',
+          headers: {'Content-Type': 'application/json', ...authHeaders},
+          body: JSON.stringify({
+            messages: toSummaryMessages(toSummarize),
+            previousSummary: previous?.content,
+            model,
+          }),
+        })
+        const data = await response.json().catch(() => ({}))
+        if (data.budget?.scopes?.length) {
+          setBudget(data.budget)
+        }
+        // Summaries are billed like chat responses, even when they come back empty
+        if (data.usage && conversationId && onRecordSummaryUsage) {
+          await onRecordSummaryUsage(conversationId, {model: data.model || model, ...data.usage})
+        }
+        if (!response.ok || !data.summary) {
+          throw new Error(data.error || `Summary request failed: ${response.status}`)
+        }
+
+        return {
+          content: data.summary,
+          messageCount,
+          throughMessageId: getLastSummarizedMessageId(toSummarize),
+          updatedAt: new Date().toISOString(),
+        }
+      } catch (err) {
+        console.error('Failed to summarize conversation:', err)
+        return null
+      }
+    },
+    [apiEndpoint, model, authHeaders, onRecordSummaryUsage]
+  )
+
   /**
    * Cancel the current stream
    */
@@ -364,7 +531,8 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
       setMessages((prev) => [...prev, assistantMessage])
 
       // Setup abort controller for cancellation
-      abortControllerRef.current = new AbortController()
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
 
       try {
         // Build system prompt with conditional instruction inclusion
@@ -384,6 +552,7 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
           rawInstructions,
           sectionTemplates,
           enableFigmaFetch,
+          accessControl,
         })
 
         // Build conversation history for API
@@ -393,11 +562,45 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
         const filteredMessages = allMessages.filter((msg) => {
           // Keep messages with images (they have content via image metadata)
           if (msg.images && msg.images.length > 0) return true
+          // Keep assistant messages with tool calls (their tool_use blocks need answering)
+          if (msg.actions?.some((action) => action.toolUseId)) return true
           // Filter out messages with empty content
           return msg.content && msg.content.trim().length > 0
         })
 
-        const conversationHistory = filteredMessages.map((msg) => {
+        // Messages the summary covers are sent as the summary instead
+        let conversationSummary = summaryRef.current
+        const summarizedCount = getSummarizedCount(filteredMessages, conversationSummary)
+        let historyMessages = filteredMessages.slice(summarizedCount)
+
+        // Past the threshold, fold the older messages into the summary before sending
+        const compactionPoint = findCompactionPoint(toSummaryMessages(historyMessages), summaryThresholdTokens)
+        if (compactionPoint > 0) {
+          const nextSummary = await summarizeMessages(
+            conversationId,
+            historyMessages.slice(0, compactionPoint),
+            conversationSummary,
+            summarizedCount + compactionPoint
+          )
+          if (nextSummary) {
+            conversationSummary = nextSummary
+            historyMessages = historyMessages.slice(compactionPoint)
+            updateSummaryState(nextSummary)
+            if (conversationId && onUpdateSummary) {
+              try {
+                await onUpdateSummary(conversationId, nextSummary)
+              } catch (err) {
+                console.error('Failed to persist conversation summary:', err)
+              }
+            }
+          }
+        }
+
+        const fullSystemPrompt = conversationSummary
+          ? `${systemPrompt}\n\n${formatSummaryForPrompt(conversationSummary.content)}`
+          : systemPrompt
+
+        const messageHistory = historyMessages.map((msg): ApiMessage => {
           // If message has images, use multimodal content format
           if (msg.images && msg.images.length > 0) {
             const contentParts: Array<{type: string; text?: string; source?: {type: string; media_type: string; data: string}}> = []
@@ -461,31 +664,40 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
           }
         })
 
+        // Round-trip native tool calls as tool_use / tool_result blocks
+        const conversationHistory = attachToolBlocks(historyMessages, messageHistory)
+
         // Safely serialize schema context to avoid circular references
         const safeSchema = safeSerialize(schemaContext)
 
         // Make the API request
         const response = await fetch(apiEndpoint, {
           method: 'POST',
-          headers: {'Content-Type': 'application/json'},
+          headers: {'Content-Type': 'application/json', ...authHeaders},
           body: JSON.stringify({
             messages: conversationHistory,
-            system: systemPrompt,
-            schema: systemPrompt ? undefined : safeSchema,
+            system: fullSystemPrompt,
+            schema: fullSystemPrompt ? undefined : safeSchema,
+            tools: getActionTools({enableFigmaFetch, workflowStep, confirmWrites: true}),
             stream: enableStreaming,
             model,
             maxTokens,
             temperature,
           }),
-          signal: abortControllerRef.current.signal,
+          signal: abortController.signal,
         })
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}))
+          if (errorData.budget) {
+            setBudget(errorData.budget)
+          }
           throw new Error(errorData.error || `API request failed: ${response.status}`)
         }
 
         let fullContent = ''
+        const toolUses: ToolUseBlock[] = []
+        let usage: TokenUsage | undefined
 
         if (enableStreaming && response.body) {
           const reader = response.body.getReader()
@@ -506,6 +718,15 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
               for (const item of parsed) {
                 if (item.done) break
                 if (item.error) throw new Error(item.error)
+                if (item.toolUse) {
+                  toolUses.push(item.toolUse)
+                }
+                if (item.usage) {
+                  usage = item.usage
+                }
+                if (item.budget?.scopes.length) {
+                  setBudget(item.budget)
+                }
                 if (item.text) {
                   fullContent += item.text
                   setMessages((prev) =>
@@ -523,10 +744,31 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
           // Handle non-streaming response
           const data = await response.json()
           fullContent = data.content || data.text || ''
+          usage = data.usage
         }
 
-        // Parse actions from complete response
-        const actions = parseActions(fullContent)
+        // Parse actions from tool calls, falling back to action blocks in the text
+        const parsedActions = parseResponseActions(fullContent, toolUses)
+
+        // Agent loop: continue the run when every action is read-only and has
+        // results to feed back, otherwise record why the run stopped
+        const step = messageOptions?.agentRun?.step ?? 1
+        const tokensUsed =
+          (messageOptions?.agentRun?.tokensUsed ?? 0) + (usage ? usage.inputTokens + usage.outputTokens : 0)
+        const stopReason = executeAgentAction
+          ? getAgentStopReason(parsedActions, step, tokensUsed, {maxSteps: agentMaxSteps, tokenBudget: agentTokenBudget})
+          : null
+        const continueRun = !!executeAgentAction && stopReason === null
+        const agentStep: AgentStep | undefined =
+          executeAgentAction && (continueRun || step > 1)
+            ? {step, maxSteps: agentMaxSteps, tokensUsed, ...(stopReason ? {stopReason} : {})}
+            : undefined
+
+        // Actions the loop runs are marked executing up front so ActionCard
+        // does not auto-execute them a second time
+        const actions = continueRun
+          ? parsedActions.map((action) => ({...action, status: 'executing' as const}))
+          : parsedActions
 
         // Finalize the message — store fullContent (including action blocks)
         // Action blocks are stripped at render time in Message.tsx
@@ -537,6 +779,8 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
           timestamp: new Date(),
           status: 'complete',
           actions: actions.length > 0 ? actions : undefined,
+          metadata: usage ? {tokensUsed: getTotalTokens(usage), model, usage} : undefined,
+          agentStep,
         }
 
         setMessages((prev) => {
@@ -572,6 +816,58 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
         // Notify about actions
         actions.forEach((action) => onAction?.(action))
 
+        // Run this step's read-only actions and send their results back as
+        // a hidden message, which starts the next step of the run
+        if (continueRun && executeAgentAction) {
+          const results: AgentActionResult[] = []
+          let runActions: ParsedAction[] = actions
+
+          for (const action of actions) {
+            if (abortController.signal.aborted) break
+            const result = await executeAgentAction(action)
+            results.push({action, result})
+
+            runActions = runActions.map((a) =>
+              a.id === action.id
+                ? {
+                    ...a,
+                    status: result.success ? ('completed' as const) : ('failed' as const),
+                    result,
+                    error: result.success ? undefined : result.message,
+                  }
+                : a
+            )
+            const updatedActions = runActions
+            setMessages((prev) =>
+              prev.map((msg) => (msg.id === assistantMessageId ? {...msg, actions: updatedActions} : msg))
+            )
+          }
+
+          // Actions skipped because the user cancelled the run
+          if (abortController.signal.aborted) {
+            runActions = runActions.map((a) => (a.status === 'executing' ? {...a, status: 'cancelled' as const} : a))
+            const updatedActions = runActions
+            setMessages((prev) =>
+              prev.map((msg) => (msg.id === assistantMessageId ? {...msg, actions: updatedActions} : msg))
+            )
+          }
+
+          if (conversationId && onUpdateMessage) {
+            try {
+              await onUpdateMessage(conversationId, assistantMessageId, {actions: runActions})
+            } catch (err) {
+              console.error('Failed to persist agent action results:', err)
+            }
+          }
+
+          if (!abortController.signal.aborted && mountedRef.current && sendMessageRef.current) {
+            await sendMessageRef.current(buildAgentFollowUp(results), undefined, documentContextsOverride, {
+              hidden: true,
+              agentRun: {step: step + 1, tokensUsed},
+            })
+          }
+        }
+
       } catch (err) {
         if (err instanceof Error && err.name === 'AbortError') {
           // User cancelled - update message to show cancellation
@@ -624,15 +920,51 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
       sectionTemplates,
       activeConversation,
       onAddMessage,
+      onUpdateMessage,
       onGenerateTitle,
       onAction,
       enableStreaming,
       model,
       maxTokens,
       temperature,
+      enableFigmaFetch,
+      workflowStep,
+      accessControl,
+      executeAgentAction,
+      agentMaxSteps,
+      agentTokenBudget,
+      authHeaders,
+      summaryThresholdTokens,
+      summarizeMessages,
+      updateSummaryState,
+      onUpdateSummary,
     ]
   )
 
+  useEffect(() => {
+    sendMessageRef.current = sendMessage
+  }, [sendMessage])
+
+  /**
+   * Replace the summary text, or discard the summary so the full history is sent again
+   */
+  const editSummary = useCallback(
+    async (content: string | null) => {
+      const current = summaryRef.current
+      const next =
+        current && content?.trim()
+          ? {...current, content: content.trim(), updatedAt: new Date().toISOString(), edited: true}
+          : null
+      updateSummaryState(next)
+
+      const conversationId = activeConversation?.id
+      if (conversationId && onUpdateSummary) {
+        await onUpdateSummary(conversationId, next)
+      }
+    },
+    [activeConversation?.id, onUpdateSummary, updateSummaryState]
+  )
+
   /**
    * Clear all messages
    */
@@ -675,5 +1007,8 @@ export function useClaudeChat(options: UseClaudeChatOptions): Omit<UseClaudeChat
     retryLastMessage,
     setMessages,
     cancelStream,
+    budget,
+    summary,
+    editSummary,
   }
 }
@@ -5,10 +5,17 @@
  * Supports incremental page creation to avoid nesting depth limits.
  */
 
-import {useState, useCallback, useRef} from 'react'
-import {useClient} from 'sanity'
+import {useState, useCallback, useEffect, useRef} from 'react'
+import {useClient, useCurrentUser, useSchema} from 'sanity'
 import {useRouter} from 'sanity/router'
-import type {ParsedAction, ActionResult, UseContentOperationsReturn} from '../types'
+import type {
+  ParsedAction,
+  ActionResult,
+  AuditContext,
+  AuditSource,
+  UndoOptions,
+  UseContentOperationsReturn,
+} from '../types'
 import {ContentOperations, type PageStructure, type SectionStructure} from '../lib/operations'
 import type {Workflow} from './useWorkflows'
 
@@ -29,19 +36,48 @@ export interface UseContentOperationsExtendedReturn extends UseContentOperations
   /** Unpublish a document */
   unpublishDocument: (documentId: string) => Promise<ActionResult>
   /** Undo a previously executed action */
-  undoAction: (action: ParsedAction) => Promise<ActionResult>
+  undoAction: (action: ParsedAction, options?: UndoOptions) => Promise<ActionResult>
+  /** Execute several write actions as one all-or-nothing batch */
+  executeBatch: (actions: ParsedAction[]) => Promise<ActionResult[]>
+  /** Undo an executed batch as a whole */
+  undoBatch: (actions: ParsedAction[]) => Promise<ActionResult>
   /** Fetch frame data from Figma URL */
   handleFetchFigmaFrame: (url: string, workflow?: Workflow) => Promise<ActionResult>
   /** Upload an image from Figma to Sanity */
   handleUploadFigmaImage: (fileKey: string, nodeId: string, filename: string, workflow?: Workflow) => Promise<ActionResult>
 }
 
+/**
+ * Options for useContentOperations
+ */
+export interface UseContentOperationsOptions {
+  /** Where actions are run from, for the audit log (default: studio) */
+  source?: AuditSource
+  /** Conversation the actions come from, linked from their audit entries */
+  conversationId?: string
+}
+
 /**
  * Hook for executing content operations in Sanity
  */
-export function useContentOperations(): UseContentOperationsExtendedReturn {
+export function useContentOperations(options: UseContentOperationsOptions = {}): UseContentOperationsExtendedReturn {
   const client = useClient({apiVersion: '2024-01-01'})
+  const schema = useSchema()
   const router = useRouter()
+  const currentUser = useCurrentUser()
+
+  // Audit entries are attributed to the current user and conversation at the time each action runs
+  const auditContextRef = useRef<AuditContext | null>(null)
+  useEffect(() => {
+    auditContextRef.current = currentUser
+      ? {
+          source: options.source ?? 'studio',
+          userId: currentUser.id,
+          userName: currentUser.name,
+          conversationId: options.conversationId,
+        }
+      : null
+  }, [currentUser, options.source, options.conversationId])
   const [isExecuting, setIsExecuting] = useState(false)
   const [pendingActions, setPendingActions] = useState<Map<string, AbortController>>(
     new Map()
@@ -52,10 +88,10 @@ export function useContentOperations(): UseContentOperationsExtendedReturn {
   // Get or create operations instance
   const getOperations = useCallback(() => {
     if (!operationsRef.current) {
-      operationsRef.current = new ContentOperations(client)
+      operationsRef.current = new ContentOperations(client, schema, () => auditContextRef.current)
     }
     return operationsRef.current
-  }, [client])
+  }, [client, schema])
 
   /**
    * Execute a parsed action
@@ -112,11 +148,14 @@ export function useContentOperations(): UseContentOperationsExtendedReturn {
           }
         } else if (action.type === 'uploadFigmaImage') {
           const { figmaNodeId, figmaFileKey, filename } = action.payload
+          const denied = await getOperations().checkAccess(action)
           const nodeId = figmaNodeId || action.payload.path
           const fileKey = figmaFileKey
           const name = filename || 'figma-image.png'
 
-          if (!nodeId) {
+          if (denied) {
+            result = denied
+          } else if (!nodeId) {
             result = {
               success: false,
               message: 'Node ID is required for uploadFigmaImage action',
@@ -157,6 +196,7 @@ export function useContentOperations(): UseContentOperationsExtendedReturn {
                 message: data.error || 'Failed to upload Figma image',
               }
             }
+            await getOperations().recordAudit([{action, result}])
           }
         } else {
           // Handle all other actions via ContentOperations
@@ -221,11 +261,11 @@ export function useContentOperations(): UseContentOperationsExtendedReturn {
    * Undo a previously executed action by restoring pre-execution state
    */
   const undoAction = useCallback(
-    async (action: ParsedAction): Promise<ActionResult> => {
+    async (action: ParsedAction, options?: UndoOptions): Promise<ActionResult> => {
       setIsExecuting(true)
       try {
         const operations = getOperations()
-        const result = await operations.undoAction(action)
+        const result = await operations.undoAction(action, options)
         return result
       } catch (err) {
         return {
@@ -239,6 +279,46 @@ export function useContentOperations(): UseContentOperationsExtendedReturn {
     [getOperations]
   )
 
+  /**
+   * Execute several write actions in a single transaction
+   */
+  const executeBatch = useCallback(
+    async (actions: ParsedAction[]): Promise<ActionResult[]> => {
+      setIsExecuting(true)
+      try {
+        const operations = getOperations()
+        return await operations.executeBatch(actions)
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Batch failed'
+        return actions.map(() => ({success: false, message}))
+      } finally {
+        setIsExecuting(false)
+      }
+    },
+    [getOperations]
+  )
+
+  /**
+   * Undo an executed batch in a single transaction
+   */
+  const undoBatch = useCallback(
+    async (actions: ParsedAction[]): Promise<ActionResult> => {
+      setIsExecuting(true)
+      try {
+        const operations = getOperations()
+        return await operations.undoBatch(actions)
+      } catch (err) {
+        return {
+          success: false,
+          message: err instanceof Error ? err.message : 'Undo failed',
+        }
+      } finally {
+        setIsExecuting(false)
+      }
+    },
+    [getOperations]
+  )
+
   /**
    * Create a page incrementally to avoid nesting depth limits
    */
@@ -348,7 +428,7 @@ export function useContentOperations(): UseContentOperationsExtendedReturn {
       setIsExecuting(true)
       try {
         const operations = getOperations()
-        const result = await operations.publishDocument(documentId)
+        const result = await operations.publishDocument({documentId})
         return result
       } catch (err) {
         return {
@@ -372,7 +452,7 @@ export function useContentOperations(): UseContentOperationsExtendedReturn {
       setIsExecuting(true)
       try {
         const operations = getOperations()
-        const result = await operations.unpublishDocument(documentId)
+        const result = await operations.unpublishDocument({documentId})
         return result
       } catch (err) {
         return {
@@ -510,6 +590,8 @@ export function useContentOperations(): UseContentOperationsExtendedReturn {
     previewAction,
     cancelAction,
     undoAction,
+    executeBatch,
+    undoBatch,
     isExecuting,
     createPageIncrementally,
     addSectionToPage,
@@ -526,33 +608,23 @@ export function useContentOperations(): UseContentOperationsExtendedReturn {
  * Hook for batch operations
  */
 export function useBatchOperations() {
-  const {executeAction} = useContentOperations()
+  const {executeBatch} = useContentOperations()
   const [results, setResults] = useState<Map<string, ActionResult>>(new Map())
   const [isProcessing, setIsProcessing] = useState(false)
 
   /**
-   * Execute multiple actions in sequence
+   * Execute multiple actions as one batch - either all apply or none do
    */
   const executeActions = useCallback(
     async (actions: ParsedAction[]): Promise<Map<string, ActionResult>> => {
       setIsProcessing(true)
-      const resultsMap = new Map<string, ActionResult>()
-
-      for (const action of actions) {
-        const result = await executeAction(action)
-        resultsMap.set(action.id, result)
-        setResults(new Map(resultsMap))
-
-        // Stop if an action fails
-        if (!result.success) {
-          break
-        }
-      }
-
+      const batchResults = await executeBatch(actions)
+      const resultsMap = new Map(actions.map((action, index) => [action.id, batchResults[index]]))
+      setResults(resultsMap)
       setIsProcessing(false)
       return resultsMap
     },
-    [executeAction]
+    [executeBatch]
   )
 
   /**
@@ -0,0 +1,282 @@
+/**
+ * useConversationSearch Hook
+ *
+ * Full-text search over the current user's conversations: titles, message
+ * content, action descriptions and the IDs of documents actions touched.
+ * Results can be narrowed by workflow, by date and to conversations that
+ * touched a given document. Also loads full conversations for export.
+ */
+
+import {useState, useCallback, useEffect, useRef} from 'react'
+import {useClient, useCurrentUser} from 'sanity'
+import type {Conversation} from '../types'
+import {extractTextContent} from '../lib/actions'
+import {sanityToConversation, type SanityConversation} from './useConversations'
+import {toIsoDate} from './useUsageReport'
+
+const API_VERSION = '2024-01-01'
+const SEARCH_RESULTS_LIMIT = 50
+const SEARCH_DEBOUNCE_MS = 300
+const SNIPPET_LENGTH = 120
+
+/**
+ * Search text and filters; empty strings mean "not filtered"
+ */
+export interface ConversationSearchFilters {
+  text: string
+  workflowId: string
+  /** YYYY-MM-DD in local time, inclusive */
+  from: string
+  /** YYYY-MM-DD in local time, inclusive */
+  to: string
+  /** Only conversations with an action on this document (draft or published ID) */
+  documentId: string
+  includeArchived: boolean
+}
+
+export const EMPTY_SEARCH_FILTERS: ConversationSearchFilters = {
+  text: '',
+  workflowId: '',
+  from: '',
+  to: '',
+  documentId: '',
+  includeArchived: false,
+}
+
+/**
+ * A matching conversation, with an excerpt of the first matching message
+ */
+export interface ConversationSearchResult extends Conversation {
+  archived?: boolean
+  snippet?: string
+}
+
+/**
+ * Return type for useConversationSearch hook
+ */
+export interface UseConversationSearchReturn {
+  /** True when any search text or filter is set */
+  isActive: boolean
+  results: ConversationSearchResult[]
+  isSearching: boolean
+  error: string | null
+  /** Load a full conversation, with messages, for export */
+  getConversation: (id: string) => Promise<Conversation | null>
+}
+
+interface SearchQueryResult {
+  _id: string
+  title?: string
+  lastActivity?: string
+  archived?: boolean
+  workflowIds?: string[]
+  excerpts?: string[]
+}
+
+/**
+ * Whether any search text or filter is set
+ */
+export function hasSearchFilters(filters: ConversationSearchFilters): boolean {
+  return Boolean(
+    filters.text.trim() ||
+      filters.workflowId ||
+      filters.from ||
+      filters.to ||
+      filters.documentId.trim() ||
+      filters.includeArchived
+  )
+}
+
+/**
+ * Split search text into GROQ match patterns, each matching word prefixes
+ */
+function toMatchTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => word.replace(/[*"\\]/g, ''))
+    .filter(Boolean)
+    .map((word) => `${word}*`)
+}
+
+/**
+ * Build the search query and its parameters from the filters
+ */
+function buildSearchQuery(
+  filters: ConversationSearchFilters,
+  userId: string
+): {query: string; params: Record<string, unknown>} {
+  const terms = toMatchTerms(filters.text)
+  const documentId = filters.documentId.trim().replace(/^drafts\./, '')
+  const params: Record<string, unknown> = {userId}
+  const conditions = ['_type == "claudeConversation"', 'userId == $userId', 'count(messages) > 0']
+
+  if (!filters.includeArchived) {
+    conditions.push('!archived')
+  }
+  if (terms.length > 0) {
+    params.terms = terms
+    conditions.push(
+      '(title match $terms || messages[].content match $terms || messages[].actions[].description match $terms || messages[].actions[].documentId match $terms || messages[].actions[].resultDocumentId match $terms)'
+    )
+  }
+  if (filters.workflowId) {
+    params.workflowId = filters.workflowId
+    conditions.push('$workflowId in workflowIds')
+  }
+  // Dates filter on message timestamps: the conversation had activity in the range
+  const dateConditions: string[] = []
+  if (filters.from) {
+    params.from = toIsoDate(filters.from)
+    dateConditions.push('timestamp >= $from')
+  }
+  if (filters.to) {
+    params.to = toIsoDate(filters.to, 1)
+    dateConditions.push('timestamp < $to')
+  }
+  if (dateConditions.length > 0) {
+    conditions.push(`count(messages[${dateConditions.join(' && ')}]) > 0`)
+  }
+  if (documentId) {
+    params.documentIds = [documentId, `drafts.${documentId}`]
+    // Created documents have no documentId until the action runs, so its result is matched too
+    conditions.push(
+      'count(messages[count(actions[documentId in $documentIds || resultDocumentId in $documentIds]) > 0]) > 0'
+    )
+  }
+
+  const excerpts = terms.length > 0 ? ',\n  "excerpts": messages[!hidden && content match $terms][0...1].content' : ''
+
+  const query = `*[${conditions.join(' && ')}] | order(lastActivity desc) [0...${SEARCH_RESULTS_LIMIT}] {
+  _id,
+  title,
+  lastActivity,
+  archived,
+  workflowIds${excerpts}
+}`
+
+  return {query, params}
+}
+
+/**
+ * Excerpt of a message around the first search word it contains
+ */
+function getSnippet(content: string, text: string): string {
+  const plain = extractTextContent(content).replace(/\s+/g, ' ')
+  const lower = plain.toLowerCase()
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean)
+  const index = words.map((word) => lower.indexOf(word)).find((i) => i >= 0) ?? 0
+  const start = Math.max(0, index - SNIPPET_LENGTH / 4)
+  const snippet = plain.slice(start, start + SNIPPET_LENGTH).trim()
+
+  return `${start > 0 ? '…' : ''}${snippet}${start + SNIPPET_LENGTH < plain.length ? '…' : ''}`
+}
+
+/**
+ * Hook for searching the current user's conversations
+ */
+export function useConversationSearch(filters: ConversationSearchFilters): UseConversationSearchReturn {
+  const client = useClient({apiVersion: API_VERSION})
+  const currentUser = useCurrentUser()
+
+  const [results, setResults] = useState<ConversationSearchResult[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Only the latest search may set results, even when an earlier one returns later
+  const searchIdRef = useRef(0)
+
+  const isActive = hasSearchFilters(filters)
+
+  const search = useCallback(
+    async (nextFilters: ConversationSearchFilters) => {
+      if (!currentUser?.id) return
+
+      const searchId = ++searchIdRef.current
+      setIsSearching(true)
+      setError(null)
+
+      try {
+        const {query, params} = buildSearchQuery(nextFilters, currentUser.id)
+        const docs = await client.fetch<SearchQueryResult[]>(query, params)
+        if (searchId !== searchIdRef.current) return
+
+        setResults(
+          docs.map((doc) => {
+            const updatedAt = new Date(doc.lastActivity || new Date().toISOString())
+            const excerpt = doc.excerpts?.[0]
+            return {
+              id: doc._id,
+              title: doc.title || 'New Conversation',
+              messages: [],
+              createdAt: updatedAt,
+              updatedAt,
+              workflowIds: doc.workflowIds,
+              archived: doc.archived,
+              snippet: excerpt ? getSnippet(excerpt, nextFilters.text) : undefined,
+            }
+          })
+        )
+      } catch (err) {
+        if (searchId !== searchIdRef.current) return
+        console.error('Failed to search conversations:', err)
+        setError(err instanceof Error ? err.message : 'Failed to search conversations')
+      } finally {
+        if (searchId === searchIdRef.current) {
+          setIsSearching(false)
+        }
+      }
+    },
+    [client, currentUser?.id]
+  )
+
+  // Debounce searches while typing
+  useEffect(() => {
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current)
+    }
+
+    if (!isActive) {
+      // A search still running must not bring its results back
+      searchIdRef.current++
+      setResults([])
+      setIsSearching(false)
+      setError(null)
+      return
+    }
+
+    searchTimeoutRef.current = setTimeout(() => {
+      search(filters)
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current)
+      }
+    }
+  }, [filters, isActive, search])
+
+  const getConversation = useCallback(
+    async (id: string): Promise<Conversation | null> => {
+      try {
+        const doc = await client.fetch<SanityConversation | null>(
+          `*[_type == "claudeConversation" && _id == $id][0]`,
+          {id}
+        )
+        return doc ? sanityToConversation(doc) : null
+      } catch (err) {
+        console.error('Failed to load conversation for export:', err)
+        return null
+      }
+    },
+    [client]
+  )
+
+  return {
+    isActive,
+    results,
+    isSearching,
+    error,
+    getConversation,
+  }
+}
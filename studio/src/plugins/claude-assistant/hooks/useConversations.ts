@@ -11,8 +11,9 @@
  */
 
 import {useState, useCallback, useEffect, useRef} from 'react'
+import {getTotalTokens} from 'claude-core'
 import {useClient, useCurrentUser} from 'sanity'
-import type {Conversation, Message, UseConversationsReturn, ParsedAction, ActionType, ActionStatus, ActionPayload, ActionResult} from '../types'
+import type {Conversation, ConversationSummary, Message, PipelineProgress, UseConversationsReturn, ParsedAction, ActionType, ActionStatus, ActionPayload, ActionResult, AgentStep, TokenUsage} from '../types'
 import {parseActions} from '../lib/actions'
 
 const CONVERSATIONS_PER_PAGE = 100
@@ -71,23 +72,29 @@ interface SanityMessage {
   content: string
   timestamp: string
   hidden?: boolean
+  agentStep?: AgentStep
+  /** Token usage of an assistant response and the model that produced it */
+  usage?: TokenUsage & {model?: string}
   actions?: Array<{
     _key: string
     type: string
     description?: string
     documentId?: string
     documentType?: string
+    /** Document the action produced, e.g. the ID of a created document */
+    resultDocumentId?: string
     status: string
     error?: string
     payloadJson?: string
     resultJson?: string
+    toolUseId?: string
   }>
 }
 
 /**
  * Sanity conversation document format
  */
-interface SanityConversation {
+export interface SanityConversation {
   _id: string
   _type: 'claudeConversation'
   title: string
@@ -96,6 +103,8 @@ interface SanityConversation {
   lastActivity: string
   archived: boolean
   workflowIds?: string[]
+  summary?: ConversationSummary
+  pipelineProgress?: PipelineProgress
 }
 
 /**
@@ -108,7 +117,7 @@ function generateKey(): string {
 /**
  * Convert Sanity conversation to internal Conversation format
  */
-function sanityToConversation(doc: SanityConversation): Conversation {
+export function sanityToConversation(doc: SanityConversation): Conversation {
   return {
     id: doc._id,
     title: doc.title || 'New Conversation',
@@ -129,6 +138,8 @@ function sanityToConversation(doc: SanityConversation): Conversation {
           (msg.role === 'user' &&
             /^Here are the query results \(\d+ results?\):/.test(msg.content)) ||
           undefined,
+        agentStep: msg.agentStep,
+        metadata: msg.usage ? usageToMetadata(msg.usage) : undefined,
         actions:
           parsedFromContent.length > 0
             ? // Use re-parsed actions (full payload) merged with stored status/error/result
@@ -157,6 +168,7 @@ function sanityToConversation(doc: SanityConversation): Conversation {
                   payload: payload || {},
                   result,
                   error: action.error,
+                  toolUseId: action.toolUseId,
                 }
               }),
       }
@@ -164,9 +176,18 @@ function sanityToConversation(doc: SanityConversation): Conversation {
     createdAt: new Date(doc.lastActivity || new Date().toISOString()),
     updatedAt: new Date(doc.lastActivity || new Date().toISOString()),
     workflowIds: doc.workflowIds,
+    summary: doc.summary?.content ? doc.summary : undefined,
+    pipelineProgress: doc.pipelineProgress,
   }
 }
 
+/**
+ * Restore message metadata from stored usage
+ */
+function usageToMetadata({model, ...usage}: TokenUsage & {model?: string}): Message['metadata'] {
+  return {tokensUsed: getTotalTokens(usage), model, usage}
+}
+
 function safeParse<T = unknown>(json: string): T | undefined {
   try {
     return JSON.parse(json) as T
@@ -185,16 +206,20 @@ function messageToSanity(message: Message): SanityMessage {
     content: message.content,
     timestamp: message.timestamp.toISOString(),
     hidden: message.hidden || undefined,
+    agentStep: message.agentStep,
+    usage: message.metadata?.usage ? {model: message.metadata.model, ...message.metadata.usage} : undefined,
     actions: message.actions?.map((action) => ({
       _key: action.id || generateKey(),
       type: action.type,
       description: action.description,
       documentId: action.payload?.documentId,
       documentType: action.payload?.documentType,
+      resultDocumentId: action.result?.documentId,
       status: action.status,
       error: action.error,
       payloadJson: action.payload ? JSON.stringify(action.payload) : undefined,
       resultJson: action.result ? JSON.stringify(action.result) : undefined,
+      toolUseId: action.toolUseId,
     })),
   }
 }
@@ -216,6 +241,9 @@ export interface UseConversationsSanityReturn extends Omit<UseConversationsRetur
   loadConversation: (conversationId: string) => Promise<Conversation | null>
   generateTitle: (conversationId: string, userMessage: string, assistantResponse: string) => Promise<void>
   updateWorkflowIds: (conversationId: string, workflowIds: string[]) => Promise<void>
+  updateSummary: (conversationId: string, summary: ConversationSummary | null) => Promise<void>
+  recordSummaryUsage: (conversationId: string, usage: TokenUsage & {model?: string}) => Promise<void>
+  updatePipelineProgress: (conversationId: string, progress: PipelineProgress | null) => Promise<void>
   isLoading: boolean
 }
 
@@ -288,6 +316,8 @@ export function useConversations(options: UseConversationsOptions = {}): UseConv
           userId,
           archived,
           workflowIds,
+          summary,
+          pipelineProgress,
           "messageCount": count(messages)
         }`
 
@@ -303,6 +333,8 @@ export function useConversations(options: UseConversationsOptions = {}): UseConv
           createdAt: new Date(doc.lastActivity || new Date().toISOString()),
           updatedAt: new Date(doc.lastActivity || new Date().toISOString()),
           workflowIds: doc.workflowIds,
+          summary: doc.summary?.content ? doc.summary : undefined,
+          pipelineProgress: doc.pipelineProgress,
         }))
 
         // Preserve the active conversation if it's not in the results
@@ -696,6 +728,65 @@ export function useConversations(options: UseConversationsOptions = {}): UseConv
     [client]
   )
 
+  /**
+   * Store or clear the summary that replaces a conversation's earlier messages
+   */
+  const updateSummary = useCallback(
+    async (conversationId: string, summary: ConversationSummary | null) => {
+      setConversations((prev) =>
+        prev.map((conv) => (conv.id === conversationId ? {...conv, summary: summary || undefined} : conv))
+      )
+
+      try {
+        const patch = client.patch(conversationId)
+        await (summary ? patch.set({summary}) : patch.unset(['summary'])).commit()
+      } catch (err) {
+        console.error('Failed to update conversation summary:', err)
+      }
+    },
+    [client]
+  )
+
+  /**
+   * Log the tokens a summary request used, so usage reports count them
+   * toward the conversation
+   */
+  const recordSummaryUsage = useCallback(
+    async (conversationId: string, usage: TokenUsage & {model?: string}) => {
+      try {
+        await client
+          .patch(conversationId)
+          .setIfMissing({summaryUsage: []})
+          .append('summaryUsage', [{_key: generateKey(), timestamp: new Date().toISOString(), usage}])
+          .commit()
+      } catch (err) {
+        console.error('Failed to record summary usage:', err)
+      }
+    },
+    [client]
+  )
+
+  /**
+   * Store or clear the current step of a conversation's multi-step workflow
+   */
+  const updatePipelineProgress = useCallback(
+    async (conversationId: string, progress: PipelineProgress | null) => {
+      setConversations((prev) =>
+        prev.map((conv) =>
+          conv.id === conversationId ? {...conv, pipelineProgress: progress || undefined} : conv
+        )
+      )
+
+      try {
+        const patch = client.patch(conversationId)
+        await (progress ? patch.set({pipelineProgress: progress}) : patch.unset(['pipelineProgress'])).commit()
+      } catch (err) {
+        console.error('Failed to update workflow progress:', err)
+      }
+    },
+    [client]
+  )
+
   return {
     conversations,
     activeConversation,
@@ -708,6 +799,9 @@ export function useConversations(options: UseConversationsOptions = {}): UseConv
     loadConversation,
     generateTitle,
     updateWorkflowIds,
+    updateSummary,
+    recordSummaryUsage,
+    updatePipelineProgress,
     isLoading,
   }
 }
@@ -4,6 +4,9 @@
  * Fetches Quick Action buttons from Sanity with caching.
  * Only fetches **published** documents (not drafts).
  * Auto-creates default documents if none exist.
+ *
+ * Actions can be limited to document and block types; filtering them for
+ * the current context and filling their placeholders is in lib/quick-actions.
  */
 
 import {useState, useCallback, useEffect, useRef} from 'react'
@@ -27,6 +30,8 @@ interface SanityQuickAction {
   icon: string
   prompt: string
   category: QuickActionCategory
+  documentTypes?: string[]
+  blockTypes?: string[]
   order: number
   active: boolean
 }
@@ -34,7 +39,7 @@ interface SanityQuickAction {
 /**
  * Default quick actions - auto-created as Sanity documents when none exist
  */
-const DEFAULT_QUICK_ACTIONS_DATA = [
+const DEFAULT_QUICK_ACTIONS_DATA: Array<Omit<SanityQuickAction, 'id'> & {_id: string; _type: string}> = [
   {
     _id: 'quick-action-create',
     _type: 'claudeQuickAction',
@@ -79,6 +84,30 @@ const DEFAULT_QUICK_ACTIONS_DATA = [
     order: 40,
     active: true,
   },
+  {
+    _id: 'quick-action-rewrite-heading',
+    _type: 'claudeQuickAction',
+    label: 'Rewrite',
+    description: 'Rewrite the selected heading',
+    icon: 'edit',
+    prompt: 'Rewrite the heading at {{block.path}} in "{{document.title}}" ({{document._id}}). It currently reads "{{selection}}". Make it ',
+    category: 'content',
+    blockTypes: ['headingBlock'],
+    order: 50,
+    active: true,
+  },
+  {
+    _id: 'quick-action-page-seo',
+    _type: 'claudeQuickAction',
+    label: 'SEO',
+    description: 'Generate SEO for this page',
+    icon: 'document',
+    prompt: 'Write the SEO title and meta description for the page "{{document.title}}" ({{document._id}}) based on its content.',
+    category: 'content',
+    documentTypes: ['page'],
+    order: 60,
+    active: true,
+  },
 ]
 
 /**
@@ -91,6 +120,8 @@ const DEFAULT_QUICK_ACTIONS: QuickAction[] = DEFAULT_QUICK_ACTIONS_DATA.map((act
   icon: action.icon,
   prompt: action.prompt,
   category: action.category as QuickActionCategory,
+  documentTypes: action.documentTypes,
+  blockTypes: action.blockTypes,
 }))
 
 /**
@@ -180,6 +211,8 @@ export function useQuickActions(): UseQuickActionsReturn {
         icon,
         prompt,
         category,
+        documentTypes,
+        blockTypes,
         order,
         active
       }`
@@ -206,6 +239,8 @@ export function useQuickActions(): UseQuickActionsReturn {
           icon: action.icon || 'add',
           prompt: action.prompt,
           category: action.category || 'content',
+          documentTypes: action.documentTypes || undefined,
+          blockTypes: action.blockTypes || undefined,
         }))
 
         // Update cache
@@ -0,0 +1,189 @@
+/**
+ * useUsageReport Hook
+ *
+ * Loads token usage for a date range: assistant messages and summaries with
+ * stored usage from every conversation, and claudeRemoteUsage documents logged by the
+ * remote API. Resolves user and workflow names for display.
+ */
+
+import {useState, useCallback, useEffect} from 'react'
+import {useClient, useUserStore} from 'sanity'
+import type {TokenUsage} from '../types'
+import type {UsageLabels, UsageRecord} from '../lib/usage-report'
+
+const API_VERSION = '2024-01-01'
+
+/**
+ * Usage query result
+ */
+interface UsageQueryResult {
+  conversations: Array<{
+    _id: string
+    title?: string
+    userId?: string
+    workflowIds?: string[]
+    messages: Array<{timestamp: string; usage: TokenUsage & {model?: string}}>
+    summaryUsage: Array<{timestamp: string; usage: TokenUsage & {model?: string}}>
+  }>
+  remote: Array<
+    TokenUsage & {
+      _id: string
+      timestamp: string
+      clientId?: string
+      model?: string
+      workflowId?: string
+    }
+  >
+  workflows: Array<{_id: string; name?: string}>
+}
+
+const USAGE_QUERY = `{
+  "conversations": *[_type == "claudeConversation" && (
+    count(messages[defined(usage) && timestamp >= $from && timestamp < $to]) > 0 ||
+    count(summaryUsage[timestamp >= $from && timestamp < $to]) > 0
+  )]{
+    _id,
+    title,
+    userId,
+    workflowIds,
+    "messages": coalesce(messages[defined(usage) && timestamp >= $from && timestamp < $to]{timestamp, usage}, []),
+    "summaryUsage": coalesce(summaryUsage[timestamp >= $from && timestamp < $to]{timestamp, usage}, [])
+  },
+  "remote": *[_type == "claudeRemoteUsage" && timestamp >= $from && timestamp < $to]{
+    _id,
+    timestamp,
+    clientId,
+    model,
+    workflowId,
+    inputTokens,
+    outputTokens,
+    cacheCreationInputTokens,
+    cacheReadInputTokens
+  },
+  "workflows": *[_type == "claudeWorkflow" && !(_id in path("drafts.**"))]{_id, name}
+}`
+
+/**
+ * Date range of the report, as YYYY-MM-DD dates in local time (both inclusive)
+ */
+export interface UsageDateRange {
+  from: string
+  to: string
+}
+
+/**
+ * Return type for useUsageReport hook
+ */
+export interface UseUsageReportReturn {
+  records: UsageRecord[]
+  labels: UsageLabels
+  isLoading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+}
+
+/**
+ * Convert a local YYYY-MM-DD date to an ISO timestamp, optionally days later
+ */
+export function toIsoDate(date: string, addDays = 0): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day + addDays).toISOString()
+}
+
+/**
+ * Flatten the query result into one record per Claude response, newest first
+ */
+function toRecords(result: UsageQueryResult): UsageRecord[] {
+  // Summaries of a conversation's earlier messages count toward the conversation too
+  const studioRecords = result.conversations.flatMap((conversation) =>
+    [...conversation.messages, ...conversation.summaryUsage].map(({timestamp, usage: {model, ...usage}}): UsageRecord => ({
+      timestamp,
+      source: 'studio',
+      conversationId: conversation._id,
+      conversationTitle: conversation.title || 'Untitled conversation',
+      userId: conversation.userId || 'unknown',
+      workflowIds: conversation.workflowIds || [],
+      model: model || 'unknown',
+      usage,
+    }))
+  )
+
+  const remoteRecords = result.remote.map(
+    (entry): UsageRecord => ({
+      timestamp: entry.timestamp,
+      source: 'remote',
+      conversationId: entry._id,
+      conversationTitle: 'Remote API request',
+      userId: entry.clientId || 'unknown',
+      workflowIds: entry.workflowId ? [entry.workflowId] : [],
+      model: entry.model || 'unknown',
+      usage: {
+        inputTokens: entry.inputTokens || 0,
+        outputTokens: entry.outputTokens || 0,
+        cacheCreationInputTokens: entry.cacheCreationInputTokens || 0,
+        cacheReadInputTokens: entry.cacheReadInputTokens || 0,
+      },
+    })
+  )
+
+  return [...studioRecords, ...remoteRecords].sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+}
+
+/**
+ * Hook for loading token usage in a date range
+ */
+export function useUsageReport(range: UsageDateRange, enabled = true): UseUsageReportReturn {
+  const client = useClient({apiVersion: API_VERSION})
+  const userStore = useUserStore()
+
+  const [records, setRecords] = useState<UsageRecord[]>([])
+  const [labels, setLabels] = useState<UsageLabels>({users: {}, workflows: {}})
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchUsage = useCallback(async () => {
+    if (!range.from || !range.to) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const result = await client.fetch<UsageQueryResult>(USAGE_QUERY, {
+        from: toIsoDate(range.from),
+        to: toIsoDate(range.to, 1),
+      })
+      const nextRecords = toRecords(result)
+
+      // Resolve display names for the Studio users in the report
+      const userIds = [
+        ...new Set(nextRecords.filter((r) => r.source === 'studio' && r.userId !== 'unknown').map((r) => r.userId)),
+      ]
+      const users = userIds.length > 0 ? await userStore.getUsers(userIds).catch(() => []) : []
+
+      setRecords(nextRecords)
+      setLabels({
+        users: Object.fromEntries(users.map((user) => [user.id, user.displayName || user.email || user.id])),
+        workflows: Object.fromEntries(result.workflows.map((w) => [w._id, w.name || w._id])),
+      })
+    } catch (err) {
+      console.error('Failed to load usage:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load usage')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [client, userStore, range.from, range.to])
+
+  useEffect(() => {
+    if (enabled) {
+      fetchUsage()
+    }
+  }, [enabled, fetchUsage])
+
+  return {
+    records,
+    labels,
+    isLoading,
+    error,
+    refetch: fetchUsage,
+  }
+}
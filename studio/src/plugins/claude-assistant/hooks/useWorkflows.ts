@@ -5,12 +5,15 @@
  * Users can select a skill to get pre-configured context for their chat.
  *
  * System instructions are stored as Portable Text and converted to Markdown
- * for inclusion in Claude's system prompt.
+ * for inclusion in Claude's system prompt. Parameters are typed inputs that
+ * fill the starter prompt's {{name}} placeholders.
  */
 
 import {useState, useCallback, useEffect, useRef, useMemo} from 'react'
 import {useClient, useCurrentUser} from 'sanity'
+import {formatWorkflowStepForPrompt} from 'claude-core'
 import {contentToMarkdown} from '../lib/portable-text-to-markdown'
+import type {ActionType, WorkflowParameter, WorkflowStep} from '../types'
 
 const API_VERSION = '2024-01-01'
 
@@ -23,6 +26,14 @@ interface RawWorkflow {
   description?: string
   systemInstructions?: unknown[] | string // Portable Text array or legacy string
   starterPrompt?: string
+  parameters?: Array<Partial<WorkflowParameter> & {_key: string}>
+  steps?: Array<{
+    _key: string
+    title?: string
+    instructions?: unknown[]
+    allowedActions?: ActionType[]
+    requireApproval?: boolean
+  }>
   order: number
   roles?: string[]
   active: boolean
@@ -38,6 +49,10 @@ export interface Workflow {
   description?: string
   systemInstructions?: string // Serialized to Markdown
   starterPrompt?: string
+  /** Typed inputs filled into the starter prompt */
+  parameters?: WorkflowParameter[]
+  /** Steps of a multi-step workflow, with instructions serialized to Markdown */
+  steps?: WorkflowStep[]
   order: number
   roles?: string[]
   active: boolean
@@ -87,6 +102,8 @@ export function useWorkflows(): UseWorkflowsReturn {
         description,
         systemInstructions,
         starterPrompt,
+        parameters,
+        steps,
         order,
         roles,
         active,
@@ -109,6 +126,24 @@ export function useWorkflows(): UseWorkflowsReturn {
           ...workflow,
           // Convert Portable Text to Markdown string
           systemInstructions: contentToMarkdown(workflow.systemInstructions),
+          parameters: workflow.parameters
+            ?.filter((parameter) => parameter.name)
+            .map((parameter) => ({
+              name: parameter.name!,
+              title: parameter.title || parameter.name!,
+              type: parameter.type || 'text',
+              description: parameter.description,
+              required: parameter.required,
+              options: parameter.options,
+              documentTypes: parameter.documentTypes,
+            })),
+          steps: workflow.steps?.map((step) => ({
+            key: step._key,
+            title: step.title || 'Untitled step',
+            instructions: contentToMarkdown(step.instructions),
+            allowedActions: step.allowedActions,
+            requireApproval: step.requireApproval,
+          })),
         }))
 
       setWorkflows(filteredWorkflows)
@@ -163,3 +198,28 @@ export function buildWorkflowContext(workflow: Workflow | null): string {
 ${workflow.systemInstructions}
 `
 }
+
+/**
+ * Build the workflow context for the selected skills: each skill's
+ * instructions, then the current step of the first skill with steps, which
+ * runs as a pipeline
+ */
+export function buildSelectedWorkflowsContext(
+  workflows: Array<Pick<Workflow, 'name' | 'systemInstructions' | 'steps'>>,
+  pipelineStepIndex: number = 0
+): string | undefined {
+  const pipelineWorkflow = workflows.find((w) => w.steps?.length)
+
+  return (
+    [
+      ...workflows
+        .filter((w) => w.systemInstructions)
+        .map((w) => `## Workflow: ${w.name}\n\n${w.systemInstructions}`),
+      ...(pipelineWorkflow?.steps
+        ? [formatWorkflowStepForPrompt(pipelineWorkflow.name, pipelineWorkflow.steps, pipelineStepIndex)]
+        : []),
+    ]
+      .filter(Boolean)
+      .join('\n\n') || undefined
+  )
+}
@@ -75,6 +75,7 @@ export type {
   SchemaContext,
   SchemaInfo,
   FieldInfo,
+  AccessControlSettings,
 } from './types'
 
 // Re-export components for potential customization
@@ -87,22 +88,28 @@ export {ActionCard} from './components/ActionCard'
 export {QuickActions} from './components/QuickActions'
 export {ConversationSidebar} from './components/ConversationSidebar'
 export {SettingsPanel} from './components/SettingsPanel'
+export {PromptInspector} from './components/PromptInspector'
 export {FloatingChat} from './components/FloatingChat'
 export {StudioLayout, createStudioLayout} from './components/StudioLayout'
+export {AuditLogView, AuditLogPane, AuditLogDocumentView} from './components/AuditLogView'
 
 // Re-export hooks for custom implementations
 export {useClaudeChat} from './hooks/useClaudeChat'
 export {useConversations} from './hooks/useConversations'
 export {useContentOperations} from './hooks/useContentOperations'
 export {useInstructions} from './hooks/useInstructions'
+export {useAccessControl} from './hooks/useAccessControl'
+export {useAuditLog} from './hooks/useAuditLog'
 
 // Re-export utilities
 export {AnthropicClient, createAnthropicClient} from './lib/anthropic'
 export {ContentOperations, createContentOperations} from './lib/operations'
 export {extractSchemaContext, formatSchemaForPrompt} from './lib/schema-context'
+export {validateDocument, validateFieldUpdates, validateArrayItems} from './lib/schema-validation'
 export {parseActions, validateAction} from './lib/actions'
-export {buildSystemPrompt, getExamplePrompts} from './lib/instructions'
-export {formatInstructionsForClaude} from './lib/format-instructions'
+export {buildSystemPrompt, explainSystemPrompt, getExamplePrompts} from './lib/instructions'
+export {explainInstructionsForClaude, formatInstructionsForClaude} from './lib/format-instructions'
+export {checkActionAccess} from 'claude-core'
 
 // Re-export hook options types
 export type {UseConversationsOptions, UseConversationsSanityReturn} from './hooks/useConversations'
@@ -0,0 +1,29 @@
+/**
+ * Agent Loop
+ *
+ * Decides whether the actions of a response can run without the user and
+ * be fed back to Claude, and formats their results as the hidden follow-up
+ * message that starts the next step. The loop itself is shared with the
+ * remote API through claude-core.
+ */
+
+import type {AgentStopReason} from '../types'
+
+export {buildAgentFollowUp, getAgentStopReason, isAgentAction} from 'claude-core'
+export type {AgentActionResult, AgentBudget} from 'claude-core'
+
+/**
+ * Describe why a run stopped, for display under the last step
+ */
+export function describeAgentStop(reason: AgentStopReason): string {
+  switch (reason) {
+    case 'approval':
+      return 'Waiting for your approval'
+    case 'maxSteps':
+      return 'Stopped: step limit reached'
+    case 'tokenBudget':
+      return 'Stopped: token budget reached'
+    default:
+      return 'Done'
+  }
+}
@@ -4,6 +4,7 @@
  * Handles communication with the Claude API, including streaming responses
  */
 
+import {toTokenUsage} from 'claude-core'
 import type {
   ClaudeConfig,
   ClaudeRequest,
@@ -130,10 +131,7 @@ export class AnthropicClient {
       content: textContent?.text || '',
       model: data.model as string,
       stopReason: data.stop_reason as string,
-      usage: {
-        inputTokens: (data.usage as Record<string, number>)?.input_tokens || 0,
-        outputTokens: (data.usage as Record<string, number>)?.output_tokens || 0,
-      },
+      usage: toTokenUsage((data.usage as Record<string, number>) || {}),
     }
   }
 }
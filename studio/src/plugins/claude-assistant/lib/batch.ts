@@ -0,0 +1,40 @@
+/**
+ * Action Batches
+ *
+ * When Claude proposes several related changes in one response, the write
+ * actions are approved once and committed together in a single transaction,
+ * so a failure halfway through never leaves the dataset half-changed.
+ * An executed batch is undone as one entry.
+ */
+
+import {isBatchableAction} from 'claude-core'
+import type {ParsedAction} from '../types'
+
+/**
+ * Find the batch among a message's actions
+ *
+ * The batch is the set of actions that already ran together (sharing a batchId),
+ * or - before anything ran - every pending write action when there are two or more.
+ * Returns an empty list when the message has no batch.
+ */
+export function getActionBatch(actions: ParsedAction[]): ParsedAction[] {
+  const batchId = actions.find((action) => action.result?.batchId)?.result?.batchId
+  if (batchId) {
+    return actions.filter((action) => action.result?.batchId === batchId)
+  }
+
+  const pending = actions.filter(
+    (action) =>
+      (action.status === 'pending' || action.status === 'executing') &&
+      !action.result &&
+      isBatchableAction(action)
+  )
+  return pending.length >= 2 ? pending : []
+}
+
+/**
+ * Describe a batch for menus and toasts
+ */
+export function describeBatch(actions: ParsedAction[]): string {
+  return `Batch of ${actions.length} changes`
+}
@@ -0,0 +1,135 @@
+/**
+ * Conversation Export
+ *
+ * Serializes a conversation as Markdown, with action cards rendered as
+ * one-line summaries, or as JSON with full action payloads and results.
+ * Used for audits and for sharing conversations in tickets.
+ */
+
+import {extractTextContent} from './actions'
+import type {Conversation, Message, ParsedAction} from '../types'
+
+/**
+ * Formats a conversation can be exported as
+ */
+export type ConversationExportFormat = 'markdown' | 'json'
+
+/**
+ * Display names used in exports
+ */
+export interface ConversationExportLabels {
+  /** Workflow names by ID */
+  workflows?: Record<string, string>
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  user: 'User',
+  assistant: 'Claude',
+  system: 'System',
+}
+
+/**
+ * Messages shown in the chat - hidden messages only carry context for the API
+ */
+function getVisibleMessages(conversation: Conversation): Message[] {
+  return conversation.messages.filter((message) => !message.hidden)
+}
+
+/**
+ * One-line summary of an action card
+ */
+function summarizeAction(action: ParsedAction): string {
+  const details = [`\`${action.type}\``]
+  if (action.payload.documentType) {
+    details.push(action.payload.documentType)
+  }
+  if (action.payload.documentId) {
+    details.push(`\`${action.payload.documentId}\``)
+  }
+  details.push(action.status)
+
+  const summary = `- **${action.description}** (${details.join(' · ')})`
+  return action.error ? `${summary}\n  - Error: ${action.error}` : summary
+}
+
+/**
+ * Export a conversation as Markdown
+ */
+export function conversationToMarkdown(conversation: Conversation, labels: ConversationExportLabels = {}): string {
+  const lines: string[] = [`# ${conversation.title}`, '']
+
+  lines.push(`- Conversation ID: \`${conversation.id}\``)
+  lines.push(`- Last activity: ${conversation.updatedAt.toISOString()}`)
+  if (conversation.workflowIds?.length) {
+    const names = conversation.workflowIds.map((id) => labels.workflows?.[id] || id)
+    lines.push(`- Workflows: ${names.join(', ')}`)
+  }
+  lines.push(`- Exported: ${new Date().toISOString()}`)
+
+  for (const message of getVisibleMessages(conversation)) {
+    const text = message.role === 'assistant' ? extractTextContent(message.content) : message.content.trim()
+
+    lines.push('', '---', '')
+    lines.push(`### ${ROLE_LABELS[message.role] || message.role} · ${message.timestamp.toISOString()}`, '')
+    if (text) {
+      lines.push(text)
+    }
+    if (message.actions?.length) {
+      lines.push('', '**Actions**', '')
+      lines.push(...message.actions.map(summarizeAction))
+    }
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Export a conversation as JSON, keeping full action payloads and results
+ */
+export function conversationToJson(conversation: Conversation): string {
+  const data = {
+    id: conversation.id,
+    title: conversation.title,
+    updatedAt: conversation.updatedAt.toISOString(),
+    workflowIds: conversation.workflowIds || [],
+    exportedAt: new Date().toISOString(),
+    messages: getVisibleMessages(conversation).map((message) => ({
+      id: message.id,
+      role: message.role,
+      timestamp: message.timestamp.toISOString(),
+      content: message.content,
+      model: message.metadata?.model,
+      usage: message.metadata?.usage,
+      actions: message.actions?.map((action) => ({
+        type: action.type,
+        description: action.description,
+        status: action.status,
+        payload: action.payload,
+        result: action.result,
+        error: action.error,
+      })),
+    })),
+  }
+
+  return JSON.stringify(data, null, 2)
+}
+
+/**
+ * Export a conversation in the given format
+ */
+export function exportConversation(
+  conversation: Conversation,
+  format: ConversationExportFormat,
+  labels: ConversationExportLabels = {}
+): {filename: string; content: string; mimeType: string} {
+  const slug =
+    conversation.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'conversation'
+
+  return format === 'markdown'
+    ? {filename: `${slug}.md`, content: conversationToMarkdown(conversation, labels), mimeType: 'text/markdown'}
+    : {filename: `${slug}.json`, content: conversationToJson(conversation), mimeType: 'application/json'}
+}
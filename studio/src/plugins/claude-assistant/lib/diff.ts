@@ -0,0 +1,365 @@
+/**
+ * Action Diffs
+ *
+ * Compares a document with the changes an update, patch or publishing action would make,
+ * producing field-level entries for the review view in ActionCard:
+ * - Strings and Portable Text are diffed word by word
+ * - Array items are matched by _key and reported as added, removed or moved
+ * - Nested page builder paths are described as breadcrumbs
+ */
+
+import {getValueAtPath} from 'claude-core'
+import type {ActionType, ParsedAction, PatchOperation} from '../types'
+import {describeItem, describePath} from './paths'
+import {isPortableText, portableTextToMarkdown} from './portable-text-to-markdown'
+
+export type DiffKind = 'added' | 'removed' | 'changed' | 'moved'
+
+export interface TextSegment {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+export interface DiffEntry {
+  /** Location of the change, from the document root */
+  breadcrumb: string[]
+  kind: DiffKind
+  before?: unknown
+  after?: unknown
+  /** Word-level diff for strings and Portable Text */
+  text?: TextSegment[]
+  /** Extra context, e.g. where a moved item ends up */
+  detail?: string
+}
+
+/**
+ * System fields that never show up as changes
+ */
+const IGNORED_FIELDS = new Set(['_id', '_key', '_rev', '_createdAt', '_updatedAt'])
+
+/**
+ * Texts with more tokens than this (per side) are shown as a whole replacement
+ * instead of a word diff, to keep the comparison cheap
+ */
+const MAX_DIFF_TOKENS = 1000
+
+/**
+ * Check if a value is a plain object (not an array or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Check if every item of an array is an object with a _key
+ */
+function isKeyedArray(value: unknown): value is Array<Record<string, unknown> & {_key: string}> {
+  return Array.isArray(value) && value.every((item) => isPlainObject(item) && typeof item._key === 'string')
+}
+
+/**
+ * Compare two values structurally
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Length table of the longest common subsequence of two sequences
+ */
+function lcsTable<T>(a: T[], b: T[]): number[][] {
+  const table = Array.from({length: a.length + 1}, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
+  return table
+}
+
+/**
+ * Append a segment, merging it into the previous one when the type matches
+ */
+function pushSegment(segments: TextSegment[], type: TextSegment['type'], text: string) {
+  const last = segments[segments.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    segments.push({type, text})
+  }
+}
+
+/**
+ * Diff two strings word by word
+ */
+export function diffText(before: string, after: string): TextSegment[] {
+  const a = before.split(/(\s+)/).filter(Boolean)
+  const b = after.split(/(\s+)/).filter(Boolean)
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    return [
+      ...(before ? [{type: 'removed' as const, text: before}] : []),
+      ...(after ? [{type: 'added' as const, text: after}] : []),
+    ]
+  }
+
+  const table = lcsTable(a, b)
+  const segments: TextSegment[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i])
+      i++
+      j++
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      pushSegment(segments, 'removed', a[i++])
+    } else {
+      pushSegment(segments, 'added', b[j++])
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'removed', a[i++])
+  while (j < b.length) pushSegment(segments, 'added', b[j++])
+
+  return segments
+}
+
+/**
+ * Keys of the items that stay in place when going from one key order to another.
+ * Items outside the longest common subsequence are the ones that moved.
+ */
+function findStableKeys(before: string[], after: string[]): Set<string> {
+  const table = lcsTable(before, after)
+  const stable = new Set<string>()
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      stable.add(before[i])
+      i++
+      j++
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return stable
+}
+
+/**
+ * Diff two arrays whose items are matched by _key
+ */
+function diffKeyedArray(
+  before: Array<Record<string, unknown> & {_key: string}>,
+  after: Array<Record<string, unknown> & {_key: string}>,
+  breadcrumb: string[],
+  entries: DiffEntry[]
+) {
+  const beforeByKey = new Map(before.map((item, index) => [item._key, {item, index}]))
+  const afterKeys = new Set(after.map((item) => item._key))
+
+  before.forEach((item, index) => {
+    if (!afterKeys.has(item._key)) {
+      entries.push({breadcrumb: [...breadcrumb, describeItem(item, index)], kind: 'removed', before: item})
+    }
+  })
+
+  const commonBefore = before.filter((item) => afterKeys.has(item._key)).map((item) => item._key)
+  const commonAfter = after.filter((item) => beforeByKey.has(item._key)).map((item) => item._key)
+  const stableKeys = findStableKeys(commonBefore, commonAfter)
+
+  after.forEach((item, index) => {
+    const itemCrumb = [...breadcrumb, describeItem(item, index)]
+    const previous = beforeByKey.get(item._key)
+    if (!previous) {
+      entries.push({breadcrumb: itemCrumb, kind: 'added', after: item})
+      return
+    }
+    if (!stableKeys.has(item._key)) {
+      entries.push({
+        breadcrumb: itemCrumb,
+        kind: 'moved',
+        detail: `Position ${previous.index + 1} → ${index + 1}`,
+      })
+    }
+    diffValues(previous.item, item, itemCrumb, entries)
+  })
+}
+
+/**
+ * Compare two values, appending an entry for every change found
+ */
+function diffValues(before: unknown, after: unknown, breadcrumb: string[], entries: DiffEntry[]) {
+  if (isEqual(before, after)) return
+
+  if (before === undefined || before === null) {
+    entries.push({breadcrumb, kind: 'added', after})
+    return
+  }
+  if (after === undefined || after === null) {
+    entries.push({breadcrumb, kind: 'removed', before})
+    return
+  }
+
+  const isText = (value: unknown) => isPortableText(value) || typeof value === 'string'
+  if ((isPortableText(before) || isPortableText(after)) && isText(before) && isText(after)) {
+    const beforeText = isPortableText(before) ? portableTextToMarkdown(before) : String(before)
+    const afterText = isPortableText(after) ? portableTextToMarkdown(after) : String(after)
+    entries.push({breadcrumb, kind: 'changed', text: diffText(beforeText, afterText)})
+    return
+  }
+
+  if (typeof before === 'string' && typeof after === 'string') {
+    entries.push({breadcrumb, kind: 'changed', before, after, text: diffText(before, after)})
+    return
+  }
+
+  if (isKeyedArray(before) && isKeyedArray(after)) {
+    diffKeyedArray(before, after, breadcrumb, entries)
+    return
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    for (const key of keys) {
+      if (!IGNORED_FIELDS.has(key)) {
+        diffValues(before[key], after[key], [...breadcrumb, key], entries)
+      }
+    }
+    return
+  }
+
+  entries.push({breadcrumb, kind: 'changed', before, after})
+}
+
+/**
+ * Diff the fields an update action would set against the current document
+ */
+export function diffUpdate(currentDoc: unknown, fields: Record<string, unknown>): DiffEntry[] {
+  const entries: DiffEntry[] = []
+  for (const [path, value] of Object.entries(fields)) {
+    diffValues(getValueAtPath(currentDoc, path), value, describePath(currentDoc, path), entries)
+  }
+  return entries
+}
+
+/**
+ * Diff two versions of a whole document, e.g. the published version against the draft
+ */
+export function diffDocuments(before: Record<string, unknown>, after: Record<string, unknown>): DiffEntry[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter((field) => !IGNORED_FIELDS.has(field))
+  return diffUpdate(before, Object.fromEntries(fields.map((field) => [field, after[field]])))
+}
+
+/**
+ * Describe the items a patch operation adds, numbered by where they will land
+ */
+function addedItemEntries(currentDoc: unknown, operation: PatchOperation, arrayPath: string, startIndex: number): DiffEntry[] {
+  const breadcrumb = describePath(currentDoc, arrayPath)
+  return (operation.items || []).map((item, offset) => ({
+    breadcrumb: [...breadcrumb, describeItem(item, startIndex + offset)],
+    kind: 'added',
+    after: item,
+  }))
+}
+
+/**
+ * Index of a keyed item within its array, or -1 if it cannot be found
+ */
+function indexOfItem(currentDoc: unknown, itemPath: string, arrayPath: string): number {
+  const array = getValueAtPath(currentDoc, arrayPath)
+  const item = getValueAtPath(currentDoc, itemPath)
+  return Array.isArray(array) ? array.indexOf(item) : -1
+}
+
+/**
+ * Diff the operations of a patch action against the current document
+ * Each operation is described against the document as it is before the patch.
+ */
+export function diffPatch(currentDoc: unknown, operations: PatchOperation[]): DiffEntry[] {
+  const entries: DiffEntry[] = []
+
+  for (const operation of operations) {
+    const arrayPath = operation.path.replace(/\[_key=="[^"]+"\]$/, '')
+
+    switch (operation.op) {
+      case 'insert': {
+        const targetIndex = indexOfItem(currentDoc, operation.path, arrayPath)
+        const startIndex = Math.max(targetIndex, 0) + (operation.position === 'after' ? 1 : 0)
+        entries.push(...addedItemEntries(currentDoc, operation, arrayPath, startIndex))
+        break
+      }
+      case 'append': {
+        const array = getValueAtPath(currentDoc, operation.path)
+        entries.push(...addedItemEntries(currentDoc, operation, operation.path, Array.isArray(array) ? array.length : 0))
+        break
+      }
+      case 'replace': {
+        const before = getValueAtPath(currentDoc, operation.path)
+        const items = operation.items || []
+        const sameItem = items.length === 1 && isPlainObject(before) && isPlainObject(items[0]) && before._key === items[0]._key
+        if (sameItem) {
+          diffValues(before, items[0], describePath(currentDoc, operation.path), entries)
+        } else {
+          entries.push({breadcrumb: describePath(currentDoc, operation.path), kind: 'removed', before})
+          const index = indexOfItem(currentDoc, operation.path, arrayPath)
+          entries.push(...addedItemEntries(currentDoc, operation, arrayPath, Math.max(index, 0)))
+        }
+        break
+      }
+      case 'unset':
+        entries.push({
+          breadcrumb: describePath(currentDoc, operation.path),
+          kind: 'removed',
+          before: getValueAtPath(currentDoc, operation.path),
+        })
+        break
+      case 'move':
+        entries.push({
+          breadcrumb: describePath(currentDoc, operation.path),
+          kind: 'moved',
+          detail: `Moved ${operation.position} ${describePath(currentDoc, operation.target || '').pop() || operation.target}`,
+        })
+        break
+      case 'inc': {
+        const before = getValueAtPath(currentDoc, operation.path)
+        const start = typeof before === 'number' ? before : 0
+        entries.push({
+          breadcrumb: describePath(currentDoc, operation.path),
+          kind: 'changed',
+          before,
+          after: start + (operation.amount ?? 0),
+        })
+        break
+      }
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Action types reviewed with a field-level diff before approval
+ */
+export const DIFF_ACTION_TYPES: ActionType[] = ['update', 'patch', 'publish', 'discardDraft']
+
+/**
+ * Build diff entries from a previewAction result
+ * Returns null if the preview has no current document to compare against
+ */
+export function diffActionPreview(action: ParsedAction, preview: unknown): DiffEntry[] | null {
+  const {currentValues, newValues} = (preview || {}) as {currentValues?: unknown; newValues?: unknown}
+  if (!currentValues) return null
+
+  if (action.type === 'publish' || action.type === 'discardDraft') {
+    // Publishing and discarding swap one whole version for the other
+    return newValues
+      ? diffDocuments(currentValues as Record<string, unknown>, newValues as Record<string, unknown>)
+      : null
+  }
+  if (action.type === 'patch') {
+    return diffPatch(currentValues, action.payload.operations || [])
+  }
+  return diffUpdate(currentValues, action.payload.fields || {})
+}
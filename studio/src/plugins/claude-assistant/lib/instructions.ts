@@ -4,9 +4,29 @@
  * Builds and manages system prompts and instructions for Claude
  */
 
-import type {SystemPromptContext, SchemaContext, ParsedAction} from '../types'
+import {
+  DESTRUCTIVE_ACTION_TYPES,
+  describePromptSection,
+  explainPromptSections,
+  filterSchemaContext,
+  formatAccessControlForPrompt,
+  omitPromptSection,
+} from 'claude-core'
+import type {
+  SystemPromptContext,
+  SchemaContext,
+  ParsedAction,
+  PromptCategoryMatch,
+  PromptSection,
+  SystemPromptExplanation,
+} from '../types'
 import {formatSchemaForPrompt} from './schema-context'
-import {formatInstructionsForClaude, type SanityClaudeInstructions, type SectionTemplateForContext} from './format-instructions'
+import {
+  explainInstructionsForClaude,
+  type InstructionCategory,
+  type SanityClaudeInstructions,
+  type SectionTemplateForContext,
+} from './format-instructions'
 
 /**
  * Base system prompt for the Claude assistant
@@ -18,43 +38,30 @@ const BASE_SYSTEM_PROMPT = `You are an AI assistant integrated into Sanity Studi
 1. **Create Content**: You can create new documents of any available type
 2. **Update Content**: You can modify existing documents
 3. **Delete Content**: You can remove documents (with confirmation)
-4. **Query Content**: You can search and retrieve documents using GROQ queries
-5. **Navigate**: You can help users find and navigate to documents
-6. **Explain**: You can explain schema structures, content relationships, and best practices
+4. **Publish Content**: You can publish, unpublish, discard drafts and schedule publishing (with confirmation)
+5. **Query Content**: You can search and retrieve documents using GROQ queries
+6. **Navigate**: You can help users find and navigate to documents
+7. **Explain**: You can explain schema structures, content relationships, and best practices
 
-## Action Format
+## Performing Actions
 
-When you need to perform an action, output it in this format:
+Perform actions by calling the provided tools - one tool per action type (create, update, patch, delete, publish, unpublish, discardDraft, schedulePublish, query, navigate, explain, uploadImage, createPinboard). Every tool takes a \`description\` that is shown to the user, plus the inputs listed in its schema:
 
-\`\`\`action
-{
-  "type": "create|update|delete|query|navigate|explain|uploadImage|createPinboard",
-  "description": "Human-readable description of what this action does",
-  "payload": {
-    // For create:
-    "documentType": "page",
-    "fields": { "title": "New Page", "slug": { "current": "new-page" } }
-
-    // For update:
-    "documentId": "abc123",
-    "fields": { "title": "Updated Title" }
-
-    // For delete:
-    "documentId": "abc123"
-
-    // For query (ALWAYS include _id and _type in projections):
-    "query": "*[_type == 'page'][0...10]{ _id, _type, ... }"
-
-    // For navigate:
-    "documentId": "abc123"
-    // or
-    "path": "/desk/page;abc123"
-
-    // For explain:
-    "explanation": "Detailed explanation text"
-  }
-}
-\`\`\`
+- **create**: \`documentType\` and \`fields\`, e.g. \`{ "title": "New Page", "slug": { "current": "new-page" } }\`
+- **update**: \`documentId\` and \`fields\`
+- **patch**: \`documentId\` and \`operations\` - insert, append, replace, unset, move or inc array items and numbers by _key path
+- **delete**: \`documentId\`
+- **publish**, **unpublish**, **discardDraft**: \`documentId\`
+- **schedulePublish**: \`documentId\` and \`publishAt\` (ISO 8601 date-time with time zone offset)
+- **query**: \`query\` (ALWAYS include _id and _type in projections), e.g. \`*[_type == 'page'][0...10]{ _id, _type, ... }\`
+- **navigate**: \`documentId\` or \`path\` (e.g. "/desk/page;abc123")
+- **explain**: \`explanation\`
+
+Do NOT write actions as JSON code blocks in your reply - only tool calls are executed. The examples below show the tool input to send.
+
+Read-only tools (query, fetchFigmaFrame, explain) run without approval and their results are sent back to you automatically, so you can chain several lookups before making a change. Write tools (create, update, patch, delete, the publishing tools and the upload tools) wait for the user's approval, which ends the automatic run - only call them once you have the real IDs you need.
+
+When one response calls two or more of create, update, patch and delete, they form a batch: the user approves them once and they are committed in a single transaction, so either every change applies or none does. Put all related changes (e.g. a new page and the navigation update that links to it) in the same response so they succeed or fail together, and undo together.
 
 ## Updating Nested Content (CRITICAL - READ CAREFULLY)
 
@@ -62,10 +69,10 @@ Pages have deeply nested content: pageBuilder → sections → rows → columns
 Each array item has a unique \`_key\` field. To update nested content:
 
 **CRITICAL WORKFLOW - YOU MUST FOLLOW THIS EXACTLY:**
-1. First, output ONLY a query action to find the document structure
-2. STOP and WAIT for the query to execute - do NOT generate an update action yet
-3. After the user executes the query, you will see the REAL _id and _key values in the results
-4. ONLY THEN can you create an update action using those REAL values
+1. First, call ONLY the query tool to find the document structure
+2. End your response there - do NOT generate an update action yet
+3. Read-only actions (query, fetchFigmaFrame, explain) run automatically and their results are sent back to you in the next message, with the REAL _id and _key values
+4. ONLY THEN can you create an update action using those REAL values - you do not need to ask the user to run the query
 
 **NEVER guess or make up _key values!** Keys look like random strings (e.g., "4b5c6d7e8f9g") not semantic names like "hero" or "hero-row".
 
@@ -75,13 +82,11 @@ First, output ONLY a query action. Do NOT output any update action in the same r
 
 **USE THIS EXACT QUERY TEMPLATE** - just replace SLUG_HERE with the actual slug:
 
-\`\`\`action
+Call the \`query\` tool:
+\`\`\`json
 {
-  "type": "query",
   "description": "Find the page structure with all _key values",
-  "payload": {
-    "query": "*[_type == \\"page\\" && slug.current == \\"SLUG_HERE\\"][0]{ _id, name, pageBuilder[]{ _key, _type, label, rows[]{ _key, columns[]{ _key, content[]{ _key, _type, text, level } } } } }"
-  }
+  "query": "*[_type == \\"page\\" && slug.current == \\"SLUG_HERE\\"][0]{ _id, name, pageBuilder[]{ _key, _type, label, rows[]{ _key, columns[]{ _key, content[]{ _key, _type, text, level } } } } }"
 }
 \`\`\`
 
@@ -106,28 +111,27 @@ Use the exact _key values from the query. The path format uses double quotes ins
 
 ### Step 3: Execute the update action
 
-**IMPORTANT**: In the JSON action, do NOT escape the inner quotes. Write the path naturally:
+**IMPORTANT**: In the tool input, do NOT escape the inner quotes. Write the path naturally:
 
-\`\`\`action
+Call the \`update\` tool:
+\`\`\`json
 {
-  "type": "update",
   "description": "Update hero heading text to 'Welcome to Our Site'",
-  "payload": {
-    "documentId": "page-id-from-query",
-    "fields": {
-      "pageBuilder[_key==\"abc123\"].rows[_key==\"def456\"].columns[_key==\"ghi789\"].content[_key==\"jkl012\"].text": "Welcome to Our Site"
-    }
+  "documentId": "page-id-from-query",
+  "fields": {
+    "pageBuilder[_key==\"abc123\"].rows[_key==\"def456\"].columns[_key==\"ghi789\"].content[_key==\"jkl012\"].text": "Welcome to Our Site"
   }
 }
 \`\`\`
 
 ### Rules:
-1. **NEVER output a query and update action in the same response** - query first, wait for results, then update
+1. **NEVER output a query and update action in the same response** - query first, read the results sent back to you, then update
 2. **NEVER guess _key values** - they are random strings like "4b5c6d7e8f9g", NOT semantic names
 3. **Use the document _id** from the query results, not the slug (e.g., "drafts.abc123" not "page-basic-layouts")
 4. **Never use numeric indices** like [0] or [1] - only [_key=="value"]
 5. **Use double quotes** inside the brackets: [_key=="value"] not [_key=='value']
 6. **Target the specific field** - end the path with the field name (e.g., .text, .level)
+7. **Match the schema** - every write is validated against the Studio schema (allowed block types per array, option lists like paddingTop or gap, required fields, reference targets). A failed action lists each offending path and what was expected - fix exactly those values and try again
 
 ## Duplicating or Adding Nested Content (CRITICAL - READ THIS 3 TIMES!)
 
@@ -175,47 +179,77 @@ Example - CORRECT (Has _type on row):
 
 ### Example: Adding a new section
 
-\`\`\`action
+Call the \`update\` tool:
+\`\`\`json
 {
-  "type": "update",
   "description": "Add a new hero section to the page",
-  "payload": {
-    "documentId": "drafts.abc123",
-    "fields": {
-      "pageBuilder": [
-        {
-          "_key": "xk7m9n2p4q",
-          "_type": "section",
-          "label": "Hero Section",
-          "rows": [
-            {
-              "_key": "r8s5t6u3v1",
-              "_type": "row",
-              "columns": [
-                {
-                  "_key": "w2x4y6z8a0",
-                  "_type": "column",
-                  "widthDesktop": "12",
-                  "content": [
-                    {
-                      "_key": "b1c3d5e7f9",
-                      "_type": "headingBlock",
-                      "text": "Welcome",
-                      "level": "h1"
-                    }
-                  ]
-                }
-              ]
-            }
-          ]
-        }
-      ]
-    }
+  "documentId": "drafts.abc123",
+  "fields": {
+    "pageBuilder": [
+      {
+        "_key": "xk7m9n2p4q",
+        "_type": "section",
+        "label": "Hero Section",
+        "rows": [
+          {
+            "_key": "r8s5t6u3v1",
+            "_type": "row",
+            "columns": [
+              {
+                "_key": "w2x4y6z8a0",
+                "_type": "column",
+                "widthDesktop": "12",
+                "content": [
+                  {
+                    "_key": "b1c3d5e7f9",
+                    "_type": "headingBlock",
+                    "text": "Welcome",
+                    "level": "h1"
+                  }
+                ]
+              }
+            ]
+          }
+        ]
+      }
+    ]
   }
 }
 \`\`\`
 
-**CRITICAL**: When adding to an array like pageBuilder, you're REPLACING the entire array. To append, first query for existing content, then include ALL existing items plus your new item.
+**CRITICAL**: When adding to an array like pageBuilder, you're REPLACING the entire array. To add to an existing array, use the patch tool below - or, with update, first query for existing content, then include ALL existing items plus your new item.
+
+### Adding, Removing or Reordering Items With the patch Tool
+
+To change an array without resending it, call the \`patch\` tool. It is safer than replacing the whole array with update, because existing items are never rewritten. Operations run in order and either all apply or none do:
+
+- \`insert\`: add \`items\` \`before\` or \`after\` the item at \`path\` (path ends with \`[_key=="..."]\`)
+- \`append\`: add \`items\` to the end of the array at \`path\` (path ends with the array field name)
+- \`replace\`: swap the item at \`path\` for \`items\`
+- \`unset\`: remove the field or item at \`path\`
+- \`move\`: move the item at \`path\` \`before\` or \`after\` the item at \`target\`
+- \`inc\`: add \`amount\` to the number at \`path\` (negative to decrement)
+
+New items follow the same rules as update - \`_type\` and \`_key\` on every nested object.
+
+Call the \`patch\` tool:
+\`\`\`json
+{
+  "description": "Add a CTA section after the hero and remove the old banner",
+  "documentId": "drafts.abc123",
+  "operations": [
+    {
+      "op": "insert",
+      "path": "pageBuilder[_key==\"4b5c6d7e8f\"]",
+      "position": "after",
+      "items": [
+        { "_key": "m3n5p7q9r1", "_type": "section", "label": "CTA", "rows": [] }
+      ]
+    },
+    { "op": "unset", "path": "pageBuilder[_key==\"9g8h7j6k5l\"]" }
+  ]
+}
+\`\`\`
 
 ### Block Types Reference
 Common block _type values:
@@ -230,6 +264,16 @@ Common block _type values:
 - \`spacerBlock\` - Vertical spacing
 - \`dividerBlock\` - Horizontal dividers
 
+## Publishing
+
+Your create, update and patch actions only ever write drafts - nothing goes live until it is published. Only use the publishing tools when the user explicitly asks for them:
+- **publish**: makes the current draft live, replacing the published version
+- **unpublish**: takes the document offline; its content is kept as a draft
+- **discardDraft**: throws away unpublished changes and keeps the published version as it is
+- **schedulePublish**: publishes the draft at \`publishAt\`. Resolve relative times ("Monday 9am", "tomorrow morning") against the current date and time zone below, and mention the exact date and time in the description
+
+Every publishing action needs the user's confirmation. Never combine them with other changes in a way that publishes content the user has not reviewed.
+
 ## Working with Images
 
 When users share images in the chat, you'll receive metadata about each image:
@@ -253,21 +297,16 @@ If the image comes from Sanity's media library, you'll see:
 ### User-Uploaded Images (Not Yet in Sanity)
 If the user uploads an image from their computer, it needs to be uploaded to Sanity first before it can be used in a document.
 
-**To upload an image to Sanity:**
-\`\`\`action
+**To upload an image to Sanity**, call the \`uploadImage\` tool:
+\`\`\`json
 {
-  "type": "uploadImage",
   "description": "Upload the user's image to Sanity media library",
-  "payload": {
-    "imageAttachment": {
-      // The image data will be available from the conversation context
-      // You cannot construct this manually - it comes from the user's attachment
-    },
-    "filename": "optional-custom-filename.jpg"
-  }
+  "filename": "optional-custom-filename.jpg"
 }
 \`\`\`
 
+The image data is taken from the user's attachment - you cannot construct it yourself.
+
 **NOTE**: You cannot execute uploadImage actions directly - they require the actual image data from the user's attachment. When a user shares an uploaded image and wants to use it on a page:
 1. Acknowledge the image and explain you need to upload it first
 2. Request the user click "Execute" on the uploadImage action
@@ -275,27 +314,25 @@ If the user uploads an image from their computer, it needs to be uploaded to San
 
 ### Adding Images to Pages
 When creating or updating pages with images:
-\`\`\`action
+Call the \`update\` tool:
+\`\`\`json
 {
-  "type": "update",
   "description": "Add image to the hero section",
-  "payload": {
-    "documentId": "drafts.page-id",
-    "fields": {
-      "pageBuilder[_key==\"abc123\"].rows[_key==\"def456\"].columns[_key==\"ghi789\"].content": [
-        {
-          "_key": "newkey123",
-          "_type": "imageBlock",
-          "image": {
-            "_type": "image",
-            "asset": {
-              "_type": "reference",
-              "_ref": "image-assetid-from-metadata"
-            }
+  "documentId": "drafts.page-id",
+  "fields": {
+    "pageBuilder[_key==\"abc123\"].rows[_key==\"def456\"].columns[_key==\"ghi789\"].content": [
+      {
+        "_key": "newkey123",
+        "_type": "imageBlock",
+        "image": {
+          "_type": "image",
+          "asset": {
+            "_type": "reference",
+            "_ref": "image-assetid-from-metadata"
           }
         }
-      ]
-    }
+      }
+    ]
   }
 }
 \`\`\`
@@ -306,17 +343,15 @@ Pinboards are visual canvases that display multiple pages side-by-side for compa
 
 ### Basic Pinboard Creation
 
-\`\`\`action
+Call the \`createPinboard\` tool:
+\`\`\`json
 {
-  "type": "createPinboard",
   "description": "Create a pinboard to compare pricing page variants",
-  "payload": {
-    "fields": {
-      "name": "Pricing Variants",
-      "description": "Comparing A/B variants of the pricing page"
-    },
-    "pageIds": ["page-id-1", "page-id-2"]
-  }
+  "fields": {
+    "name": "Pricing Variants",
+    "description": "Comparing A/B variants of the pricing page"
+  },
+  "pageIds": ["page-id-1", "page-id-2"]
 }
 \`\`\`
 
@@ -324,48 +359,42 @@ Pinboards are visual canvases that display multiple pages side-by-side for compa
 
 When creating new pages AND a pinboard in the same response, specify deterministic \`_id\` values in each page's \`fields\` so the pinboard can reference them:
 
-\`\`\`action
+Call the \`create\` tool:
+\`\`\`json
 {
-  "type": "create",
   "description": "Create pricing page variant A",
-  "payload": {
-    "documentType": "page",
-    "fields": {
-      "_id": "page-pricing-v1-a7x9m2",
-      "name": "Pricing V1",
-      "slug": { "_type": "slug", "current": "pricing-v1" },
-      "pageBuilder": []
-    }
+  "documentType": "page",
+  "fields": {
+    "_id": "page-pricing-v1-a7x9m2",
+    "name": "Pricing V1",
+    "slug": { "_type": "slug", "current": "pricing-v1" },
+    "pageBuilder": []
   }
 }
 \`\`\`
 
-\`\`\`action
+Call the \`create\` tool:
+\`\`\`json
 {
-  "type": "create",
   "description": "Create pricing page variant B",
-  "payload": {
-    "documentType": "page",
-    "fields": {
-      "_id": "page-pricing-v2-k3p8w5",
-      "name": "Pricing V2",
-      "slug": { "_type": "slug", "current": "pricing-v2" },
-      "pageBuilder": []
-    }
+  "documentType": "page",
+  "fields": {
+    "_id": "page-pricing-v2-k3p8w5",
+    "name": "Pricing V2",
+    "slug": { "_type": "slug", "current": "pricing-v2" },
+    "pageBuilder": []
   }
 }
 \`\`\`
 
-\`\`\`action
+Call the \`createPinboard\` tool:
+\`\`\`json
 {
-  "type": "createPinboard",
   "description": "Create pinboard with both pricing variants",
-  "payload": {
-    "fields": {
-      "name": "Pricing Variants"
-    },
-    "pageIds": ["page-pricing-v1-a7x9m2", "page-pricing-v2-k3p8w5"]
-  }
+  "fields": {
+    "name": "Pricing Variants"
+  },
+  "pageIds": ["page-pricing-v1-a7x9m2", "page-pricing-v2-k3p8w5"]
 }
 \`\`\`
 
@@ -412,7 +441,7 @@ This helps users understand they need to manually approve the action before it t
 
 ### General Guidelines
 1. **Be Helpful**: Provide clear, actionable responses
-2. **Be Safe**: Always confirm before destructive actions (delete)
+2. **Be Safe**: Always confirm before destructive actions (${DESTRUCTIVE_ACTION_TYPES.join(', ')})
 3. **Be Accurate**: Use the exact field names and types from the schema
 4. **Be Efficient**: Batch related operations when possible
 5. **Be Educational**: Explain what you're doing and why when helpful
@@ -444,9 +473,9 @@ export function buildFigmaActionDocs(): string {
 
 When the user provides a Figma URL, you can fetch the frame data to understand the design structure:
 
-\`\`\`action
+Call the \`fetchFigmaFrame\` tool:
+\`\`\`json
 {
-  "type": "fetchFigmaFrame",
   "url": "[the exact Figma URL provided by user]",
   "description": "Fetch frame data from Figma"
 }
@@ -458,10 +487,11 @@ Wait for the frame data response before proceeding. The response includes:
 
 To upload images from the Figma design to Sanity:
 
-\`\`\`action
+Call the \`uploadFigmaImage\` tool:
+\`\`\`json
 {
-  "type": "uploadFigmaImage",
   "nodeId": "[node id from the images array or frame data]",
+  "fileKey": "[fileKey from the fetchFigmaFrame response]",
   "filename": "[descriptive-name.png]",
   "description": "Upload hero background image"
 }
@@ -478,6 +508,25 @@ The uploadFigmaImage action returns a Sanity asset reference (\`_type: 'referenc
 `
 }
 
+/**
+ * Describe a date with the user's time zone, e.g.
+ * "Monday, March 2, 2026, 09:00 (America/New_York, 2026-03-02T14:00:00.000Z)"
+ */
+function formatCurrentDate(date: Date): string {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  const local = date.toLocaleString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+    timeZone,
+  })
+  return `${local} (${timeZone}, ${date.toISOString()})`
+}
+
 /**
  * Build the complete system prompt with context
  *
@@ -485,85 +534,168 @@ The uploadFigmaImage action returns a Sanity asset reference (\`_type: 'referenc
  * uses conditional instruction inclusion to optimize prompt size.
  */
 export function buildSystemPrompt(context: SystemPromptContext): string {
-  const parts: string[] = [BASE_SYSTEM_PROMPT]
+  return explainSystemPrompt(context).prompt
+}
+
+/**
+ * Build the system prompt as buildSystemPrompt does, section by section, with
+ * why each section was included or left out and its estimated token count
+ */
+export function explainSystemPrompt(context: SystemPromptContext): SystemPromptExplanation<InstructionCategory> {
+  const sections: PromptSection[] = [
+    describePromptSection('Base Prompt', [BASE_SYSTEM_PROMPT], 'Always included: capabilities and tool usage'),
+  ]
+  let categories: PromptCategoryMatch<InstructionCategory>[] = []
+
+  // Add the current date so relative publish times can be resolved
+  sections.push(
+    describePromptSection(
+      'Current Date',
+      ['\n## Current Date\n', formatCurrentDate(new Date())],
+      'Always included so relative publish times can be resolved'
+    )
+  )
 
   // Add Figma documentation if enabled for the active skill
   if (context.enableFigmaFetch) {
-    parts.push(buildFigmaActionDocs())
+    sections.push(describePromptSection('Figma Integration', [buildFigmaActionDocs()], 'The active skill enables Figma'))
+  } else {
+    sections.push(omitPromptSection('Figma Integration', 'No active skill enables Figma'))
   }
 
-  // Add schema context
+  // Add schema context (limited to document types Claude is allowed to work with)
   if (context.schemaContext) {
-    parts.push('\n## Available Schema\n')
-    parts.push(formatSchemaForPrompt(context.schemaContext))
+    const allowedSchema = filterSchemaContext(context.schemaContext, context.accessControl)
+    sections.push(
+      describePromptSection(
+        'Available Schema',
+        ['\n## Available Schema\n', formatSchemaForPrompt(allowedSchema)],
+        `${allowedSchema.documentTypes.length} of ${context.schemaContext.documentTypes.length} document types are allowed`
+      )
+    )
+  } else {
+    sections.push(omitPromptSection('Available Schema', 'The schema has not been loaded'))
+  }
+
+  // Add access restrictions
+  const accessRestrictions = formatAccessControlForPrompt(context.accessControl)
+  if (accessRestrictions) {
+    sections.push(
+      describePromptSection(
+        'Access Restrictions',
+        ['\n## Access Restrictions\n', accessRestrictions],
+        'Access control restricts what Claude may change'
+      )
+    )
+  } else {
+    sections.push(omitPromptSection('Access Restrictions', 'Access control sets no restrictions'))
   }
 
   // Add current document context
   if (context.currentDocument) {
-    parts.push('\n## Current Document Context\n')
-    parts.push(`Type: ${context.currentDocument._type}`)
-    parts.push(`ID: ${context.currentDocument._id}`)
-    parts.push(`Title: ${(context.currentDocument as Record<string, unknown>).title || (context.currentDocument as Record<string, unknown>).name || 'Untitled'}`)
+    sections.push(
+      describePromptSection(
+        'Current Document Context',
+        [
+          '\n## Current Document Context\n',
+          `Type: ${context.currentDocument._type}`,
+          `ID: ${context.currentDocument._id}`,
+          `Title: ${(context.currentDocument as Record<string, unknown>).title || (context.currentDocument as Record<string, unknown>).name || 'Untitled'}`,
+        ],
+        'A document is open'
+      )
+    )
+  } else {
+    sections.push(omitPromptSection('Current Document Context', 'No document is open'))
   }
 
   // Add recent actions for context
   if (context.recentActions && context.recentActions.length > 0) {
-    parts.push('\n## Recent Actions\n')
-    for (const action of context.recentActions.slice(-5)) {
-      parts.push(`- ${action.type}: ${action.description} (${action.status})`)
-    }
+    sections.push(
+      describePromptSection(
+        'Recent Actions',
+        [
+          '\n## Recent Actions\n',
+          ...context.recentActions.slice(-5).map((action) => `- ${action.type}: ${action.description} (${action.status})`),
+        ],
+        'The last five actions of the conversation'
+      )
+    )
+  } else {
+    sections.push(omitPromptSection('Recent Actions', 'No actions have run yet'))
   }
 
   // Add custom instructions - use conditional formatting if raw instructions and user message available
   if (context.rawInstructions && context.userMessage) {
     // Use conditional instruction inclusion for better performance
     // Include section templates if available (they'll be filtered by design category detection)
-    const conditionalInstructions = formatInstructionsForClaude(
-      context.rawInstructions as SanityClaudeInstructions,
-      {
-        userMessage: context.userMessage,
-        sectionTemplates: context.sectionTemplates as SectionTemplateForContext[] | undefined,
-      }
+    const instructions = explainInstructionsForClaude(context.rawInstructions as SanityClaudeInstructions, {
+      userMessage: context.userMessage,
+      sectionTemplates: context.sectionTemplates as SectionTemplateForContext[] | undefined,
+    })
+    categories = instructions.categories
+    sections.push(
+      describePromptSection(
+        'Custom Instructions',
+        ['\n## Custom Instructions\n', instructions.content],
+        'Claude Training, filtered by the keywords in the message',
+        {sections: instructions.sections}
+      )
     )
-    if (conditionalInstructions) {
-      parts.push('\n## Custom Instructions\n')
-      parts.push(conditionalInstructions)
-    }
   } else if (context.customInstructions) {
     // Fall back to pre-formatted instructions
-    parts.push('\n## Custom Instructions\n')
-    parts.push(context.customInstructions)
+    sections.push(
+      describePromptSection(
+        'Custom Instructions',
+        ['\n## Custom Instructions\n', context.customInstructions],
+        context.userMessage
+          ? 'Pre-formatted instructions: no Claude Training document to filter by keywords'
+          : 'Pre-formatted instructions: no message to match keywords against'
+      )
+    )
+  } else {
+    sections.push(omitPromptSection('Custom Instructions', 'No instructions are configured'))
   }
 
   // Add workflow context
   if (context.workflowContext) {
-    parts.push('\n## Active Workflow\n')
-    parts.push(context.workflowContext)
+    sections.push(
+      describePromptSection('Active Workflow', ['\n## Active Workflow\n', context.workflowContext], 'A skill is selected')
+    )
+  } else {
+    sections.push(omitPromptSection('Active Workflow', 'No skill with instructions is selected'))
   }
 
   // Add selected document contexts
   if (context.documentContexts && context.documentContexts.length > 0) {
-    parts.push('\n## Selected Document Context\n')
-    parts.push('The user has selected the following documents as context for this conversation:')
-    for (const doc of context.documentContexts) {
-      parts.push(`- **${doc.name}** (${doc._type}, ID: \`${doc._id}\`${doc.slug ? `, slug: "${doc.slug}"` : ''})`)
-    }
-    parts.push('\n**IMPORTANT**: When the user asks questions about the CONTENT of these documents (e.g., "what is the H1 heading?", "what text is on this page?", "show me the content"), you MUST FIRST query the document to retrieve its actual content. You only have metadata (name, type, ID) - not the page content itself.')
-    parts.push('\nTo answer content questions, first execute a query action like:')
-    parts.push('```action')
-    parts.push('{')
-    parts.push('  "type": "query",')
-    parts.push('  "description": "Fetch the content of the selected document",')
-    parts.push('  "payload": {')
-    parts.push('    "query": "*[_id == \\"DOCUMENT_ID_HERE\\"][0]{ _id, _type, name, pageBuilder[]{ _key, _type, label, rows[]{ _key, columns[]{ _key, content[]{ _key, _type, text, level, ... } } } } }"')
-    parts.push('  }')
-    parts.push('}')
-    parts.push('```')
-    parts.push('\nReplace DOCUMENT_ID_HERE with the actual document ID from above. After the query executes, you can answer the user\'s question about the content.')
-    parts.push('\nFocus your assistance on these documents unless the user asks about something else. When updating these documents, use the provided IDs directly.')
+    sections.push(
+      describePromptSection(
+        'Selected Document Context',
+        [
+          '\n## Selected Document Context\n',
+          'The user has selected the following documents as context for this conversation:',
+          ...context.documentContexts.map(
+            (doc) => `- **${doc.name}** (${doc._type}, ID: \`${doc._id}\`${doc.slug ? `, slug: "${doc.slug}"` : ''})`
+          ),
+          '\n**IMPORTANT**: When the user asks questions about the CONTENT of these documents (e.g., "what is the H1 heading?", "what text is on this page?", "show me the content"), you MUST FIRST query the document to retrieve its actual content. You only have metadata (name, type, ID) - not the page content itself.',
+          '\nTo answer content questions, first call the `query` tool with:',
+          '```json',
+          '{',
+          '  "description": "Fetch the content of the selected document",',
+          '  "query": "*[_id == \\"DOCUMENT_ID_HERE\\"][0]{ _id, _type, name, pageBuilder[]{ _key, _type, label, rows[]{ _key, columns[]{ _key, content[]{ _key, _type, text, level, ... } } } } }"',
+          '}',
+          '```',
+          '\nReplace DOCUMENT_ID_HERE with the actual document ID from above. After the query executes, you can answer the user\'s question about the content.',
+          '\nFocus your assistance on these documents unless the user asks about something else. When updating these documents, use the provided IDs directly.',
+        ],
+        `${context.documentContexts.length} document${context.documentContexts.length === 1 ? '' : 's'} selected as context`
+      )
+    )
+  } else {
+    sections.push(omitPromptSection('Selected Document Context', 'No documents are selected as context'))
   }
 
-  return parts.join('\n')
+  return explainPromptSections(sections, categories)
 }
 
 /**
@@ -2,11 +2,42 @@
  * Sanity Content Operations
  *
  * Handles CRUD operations on Sanity documents based on Claude's actions.
+ * Actions run through the claude-core executor shared with the remote API;
+ * this class adds the Studio's schema validation, undo, image uploads and pinboards.
  * Includes support for incremental page creation to avoid Sanity's nesting depth limits.
  */
 
-import type {SanityClient, SanityDocument} from 'sanity'
-import type {ActionPayload, ActionResult, ParsedAction, ImageAttachment} from '../types'
+import type {SanityClient, SanityDocument, Schema} from 'sanity'
+import {
+  ACCESS_CONTROL_QUERY,
+  BATCH_NOT_APPLIED_MESSAGE,
+  checkAccess as checkClientAccess,
+  createSchemaValidator,
+  ensureKeys,
+  executeAction,
+  executeBatch,
+  generateBatchId,
+  generateKey,
+  getActionOperation,
+  getLatestVersion,
+  publishDocument,
+  recordAuditEntries,
+  requestSchedules,
+  unpublishDocument,
+  type PublishPreState,
+  type PublishSchedule,
+  type SchemaValidator,
+} from 'claude-core'
+import type {
+  AccessControlSettings,
+  ActionPayload,
+  ActionResult,
+  AuditContext,
+  ParsedAction,
+  UndoOptions,
+} from '../types'
+import {buildUndoConflict, describeUndoConflict, getContentFields} from './undo'
+import {buildValidationSchema} from './schema-validation'
 
 /**
  * Interface for page structure used in incremental creation
@@ -55,128 +86,115 @@ export interface ComponentStructure {
 }
 
 /**
- * Generate a unique key for Sanity array items
+ * Split the given top-level fields into values to set and fields to unset,
+ * so they match the pre-state again
  */
-function generateKey(): string {
-  return Math.random().toString(36).substring(2, 12)
+function getRevertPatch(
+  preState: Record<string, unknown>,
+  fields: string[]
+): {set: Record<string, unknown>; unset: string[]} {
+  const set: Record<string, unknown> = {}
+  const unset: string[] = []
+  for (const field of fields) {
+    if (field in preState) {
+      set[field] = preState[field]
+    } else {
+      unset.push(field)
+    }
+  }
+  return {set, unset}
 }
 
 /**
- * Valid Sanity types for nested content
- */
-const VALID_NESTED_TYPES = new Set([
-  'section', 'row', 'column',
-  'headingBlock', 'richTextBlock', 'eyebrowBlock', 'imageBlock',
-  'buttonBlock', 'spacerBlock', 'dividerBlock', 'iconBlock',
-  'cardBlock', 'sliderBlock', 'tabsBlock', 'accordionBlock',
-  'slug', 'image', 'reference',
-])
-
-/**
- * Arrays that require _type on their items
+ * How long loaded access control settings are reused before refetching (1 minute)
  */
-const TYPED_ARRAY_FIELDS = new Set(['pageBuilder', 'rows', 'columns', 'content'])
+const ACCESS_CONTROL_TTL = 60 * 1000
 
 /**
- * Expected _type for items in specific arrays
+ * Failed result for an action that cannot run because the access control
+ * settings could not be loaded - mutations never run without knowing the restrictions
  */
-const EXPECTED_TYPES: Record<string, string> = {
-  pageBuilder: 'section',
-  rows: 'row',
-  columns: 'column',
+function accessControlUnavailable(error: unknown): ActionResult {
+  return {
+    success: false,
+    message: `Access denied: could not load access control settings (${error instanceof Error ? error.message : 'unknown error'})`,
+  }
 }
 
 /**
- * Validate that nested objects have required _type and _key fields
- * Returns an error message if validation fails, null if valid
+ * An executed action addressed by the document it changed, so undos of creates
+ * are recorded against the created document
  */
-function validateNestedObjects(value: unknown, path: string = '', parentArrayName: string = ''): string | null {
-  if (value === null || value === undefined) {
-    return null
-  }
-
-  if (Array.isArray(value)) {
-    // Extract the array field name from the path (e.g., "pageBuilder" from "pageBuilder" or "rows" from "pageBuilder[0].rows")
-    const arrayName = path.split('.').pop()?.replace(/\[.*\]/, '') || ''
-    const isTypedArray = TYPED_ARRAY_FIELDS.has(arrayName)
-
-    for (let i = 0; i < value.length; i++) {
-      const item = value[i]
-      const itemPath = `${path}[${i}]`
-
-      // Array items that are objects should have _type and _key
-      if (item && typeof item === 'object' && !Array.isArray(item)) {
-        const obj = item as Record<string, unknown>
-
-        // Items in known structural arrays MUST have _type and _key
-        if (isTypedArray) {
-          if (!obj._type) {
-            const expectedType = EXPECTED_TYPES[arrayName]
-            const hint = expectedType ? ` Expected "_type": "${expectedType}".` : ''
-            return `Missing required "_type" field at ${itemPath}.${hint} Every item in the "${arrayName}" array must have a _type field.`
-          }
+function withResultDocumentId(action: ParsedAction): ParsedAction {
+  const documentId = action.result?.documentId ?? action.payload.documentId
+  return {...action, payload: {...action.payload, documentId}}
+}
 
-          if (!obj._key) {
-            return `Missing required "_key" field at ${itemPath}. Every item in the "${arrayName}" array must have a unique _key (a random 10-character string like "xk7m9n2p4q").`
-          }
+export class ContentOperations {
+  private client: SanityClient
+  private accessControlCache: {settings: AccessControlSettings | null; timestamp: number} | null = null
+  private validator: SchemaValidator
+  private getAuditContext: () => AuditContext | null
 
-          // Check for _type === 'object' which is always wrong
-          if (obj._type === 'object') {
-            const expectedType = EXPECTED_TYPES[arrayName]
-            const hint = expectedType ? ` Use "_type": "${expectedType}" instead.` : ''
-            return `Invalid "_type": "object" at ${itemPath}.${hint} Never use "object" as a type.`
-          }
-        } else {
-          // For other arrays, check if objects have structural fields that suggest they need _type
-          const hasNestedContent = obj.rows || obj.columns || obj.content || obj.pageBuilder
-          const hasBlockFields = obj.text || obj.level || obj.url || obj.label
+  /**
+   * @param getAuditContext - Who is running actions and from where, read for every
+   * action so it follows the current user and conversation. Without it nothing is audited.
+   */
+  constructor(client: SanityClient, schema: Schema, getAuditContext: () => AuditContext | null = () => null) {
+    this.client = client
+    this.getAuditContext = getAuditContext
+    // Writes are validated against the compiled Studio schema before the executor makes them
+    this.validator = createSchemaValidator(client, buildValidationSchema(schema))
+  }
 
-          if (hasNestedContent || hasBlockFields) {
-            if (!obj._type) {
-              return `Missing required "_type" field at ${itemPath}. Every nested content object must have a _type (e.g., "section", "row", "column", "headingBlock", etc.).`
-            }
+  /**
+   * Load the published claudeAccessControl singleton (null if none exists)
+   */
+  async getAccessControl(): Promise<AccessControlSettings | null> {
+    if (this.accessControlCache && Date.now() - this.accessControlCache.timestamp < ACCESS_CONTROL_TTL) {
+      return this.accessControlCache.settings
+    }
 
-            if (!obj._key) {
-              return `Missing required "_key" field at ${itemPath}. Every array item must have a unique _key (a random 10-character string like "xk7m9n2p4q").`
-            }
+    const settings = await this.client.fetch<AccessControlSettings | null>(ACCESS_CONTROL_QUERY)
+    this.accessControlCache = {settings, timestamp: Date.now()}
+    return settings
+  }
 
-            if (obj._type === 'object') {
-              return `Invalid "_type": "object" at ${itemPath}. The _type must be a specific schema type like "section", "row", "column", "headingBlock", etc. Never use "object" as a type.`
-            }
-          }
-        }
+  /**
+   * Check an action against the access control settings.
+   * Returns a failed ActionResult if the action is denied, or null if it may run.
+   */
+  async checkAccess(action: ParsedAction): Promise<ActionResult | null> {
+    if (!getActionOperation(action.type)) {
+      return null
+    }
 
-        // Recursively validate nested objects
-        const nestedError = validateNestedObjects(item, itemPath, arrayName)
-        if (nestedError) return nestedError
-      }
+    let settings: AccessControlSettings | null
+    try {
+      settings = await this.getAccessControl()
+    } catch (error) {
+      return accessControlUnavailable(error)
     }
-  } else if (typeof value === 'object') {
-    const obj = value as Record<string, unknown>
-    for (const key of Object.keys(obj)) {
-      const nestedError = validateNestedObjects(obj[key], path ? `${path}.${key}` : key, parentArrayName)
-      if (nestedError) return nestedError
+
+    const denied = await checkClientAccess(this.client, action, settings)
+    if (denied) {
+      console.warn('[ContentOperations] Action denied by access control:', action.type, denied)
+      return {success: false, message: denied}
     }
+    return null
   }
 
-  return null
-}
-
-/**
- * Ensure all array items have _key values
- */
-function ensureKeys<T extends {_key?: string}>(items: T[]): T[] {
-  return items.map((item) => ({
-    ...item,
-    _key: item._key || generateKey(),
-  }))
-}
-
-export class ContentOperations {
-  private client: SanityClient
-
-  constructor(client: SanityClient) {
-    this.client = client
+  /**
+   * Record actions that ran outside the shared executor in the audit log
+   */
+  async recordAudit(
+    executed: Array<{action: ParsedAction; result: ActionResult}>,
+    options: {undo?: boolean} = {}
+  ): Promise<void> {
+    const context = this.getAuditContext()
+    if (context) {
+      await recordAuditEntries(this.client, executed, context, options)
+    }
   }
 
   /**
@@ -191,39 +209,32 @@ export class ContentOperations {
 
     try {
       let result: ActionResult
-      switch (action.type) {
-        case 'create':
-          result = await this.createDocument(action.payload)
-          break
-        case 'update':
-          result = await this.updateDocument(action.payload)
-          break
-        case 'delete':
-          result = await this.deleteDocument(action.payload)
-          break
-        case 'query':
-          result = await this.queryDocuments(action.payload)
-          break
-        case 'navigate':
-          result = this.navigateToDocument(action.payload)
-          break
-        case 'explain':
-          result = {
-            success: true,
-            message: action.payload.explanation || 'No explanation provided',
-          }
-          break
-        case 'uploadImage':
-          result = await this.uploadImageToSanity(action.payload)
-          break
-        case 'createPinboard':
-          result = await this.createPinboard(action.payload)
-          break
-        default:
-          result = {
-            success: false,
-            message: `Unknown action type: ${action.type}`,
+      if (action.type === 'uploadImage' || action.type === 'createPinboard') {
+        // Studio-only actions - not part of the shared executor
+        const denied = await this.checkAccess(action)
+        if (denied) {
+          result = denied
+        } else {
+          result =
+            action.type === 'uploadImage'
+              ? await this.uploadImageToSanity(action.payload)
+              : await this.createPinboard(action.payload)
+        }
+        await this.recordAudit([{action, result}])
+      } else {
+        let accessControl: AccessControlSettings | null = null
+        if (getActionOperation(action.type)) {
+          try {
+            accessControl = await this.getAccessControl()
+          } catch (error) {
+            return accessControlUnavailable(error)
           }
+        }
+        result = await executeAction(this.client, action, {
+          accessControl,
+          validator: this.validator,
+          audit: this.getAuditContext() ?? undefined,
+        })
       }
       console.log('[ContentOperations] executeAction result:', result)
       return result
@@ -238,8 +249,25 @@ export class ContentOperations {
 
   /**
    * Undo a previously executed action by restoring the pre-execution state
+   *
+   * The current revision is compared with the one Claude's action produced. If the
+   * document was edited since, nothing is written and the result carries a conflict;
+   * pass options.fields to revert only the listed fields. Every write is made with
+   * ifRevisionID, so an edit that lands while undoing is never overwritten.
+   * Undos that change something are recorded in the audit log.
    */
-  async undoAction(action: ParsedAction): Promise<ActionResult> {
+  async undoAction(action: ParsedAction, options: UndoOptions = {}): Promise<ActionResult> {
+    const result = await this.revertAction(action, options)
+    if (result.success) {
+      await this.recordAudit([{action: withResultDocumentId(action), result}], {undo: true})
+    }
+    return result
+  }
+
+  /**
+   * Restore the pre-execution state of an action, without auditing it
+   */
+  private async revertAction(action: ParsedAction, options: UndoOptions): Promise<ActionResult> {
     console.log('[ContentOperations] undoAction called:', action.type, action.id)
 
     if (!action.result?.preState) {
@@ -250,18 +278,52 @@ export class ContentOperations {
     }
 
     const preState = action.result.preState as Record<string, unknown>
+    const expectedRevision = action.result.revision
 
     try {
       switch (action.type) {
-        case 'update': {
+        case 'update':
+        case 'patch': {
           // Restore the document to its pre-update state
           const documentId = preState._id as string
           if (!documentId) {
             return {success: false, message: 'Cannot undo: no document ID in pre-state'}
           }
 
-          // Use createOrReplace to restore the exact pre-state
-          const result = await this.client.createOrReplace(preState as Parameters<typeof this.client.createOrReplace>[0])
+          const current = await this.client.getDocument(documentId)
+          if (!current) {
+            // The document was deleted (or its draft published or discarded) after Claude's action,
+            // so it is no longer at the revision the action produced
+            const conflict = buildUndoConflict(preState, action.result.data as Record<string, unknown> | null, {_id: documentId}, expectedRevision)
+            return {
+              success: false,
+              documentId,
+              message: 'Undo blocked: the document was deleted, published or discarded after Claude\'s action. Restore it from its history if it is still needed.',
+              conflict: {...conflict, canRevertFields: false},
+            }
+          }
+
+          if (options.fields) {
+            const result = await this.revertFields(current, preState, options.fields)
+            return {
+              success: true,
+              documentId: result._id,
+              message: `Undo successful: reverted ${options.fields.join(', ')}`,
+              data: result,
+            }
+          }
+
+          if (expectedRevision && current._rev !== expectedRevision) {
+            const conflict = buildUndoConflict(preState, action.result.data as Record<string, unknown> | null, current, expectedRevision)
+            return {
+              success: false,
+              documentId,
+              message: `Undo blocked: ${describeUndoConflict(conflict)}`,
+              conflict,
+            }
+          }
+
+          const result = await this.revertFields(current, preState, getContentFields(current, preState))
           return {
             success: true,
             documentId: result._id,
@@ -271,8 +333,18 @@ export class ContentOperations {
         }
 
         case 'delete': {
-          // Recreate the deleted document from pre-state
-          const result = await this.client.createOrReplace(preState as Parameters<typeof this.client.createOrReplace>[0])
+          // Recreate the deleted document from pre-state, unless a document with its ID exists again
+          const existing = await this.client.getDocument(preState._id as string)
+          if (existing) {
+            const conflict = buildUndoConflict(preState, null, existing)
+            return {
+              success: false,
+              documentId: existing._id,
+              message: 'Undo blocked: a document with this ID was created after it was deleted.',
+              conflict: {...conflict, canRevertFields: false},
+            }
+          }
+          const result = await this.client.createIfNotExists(preState as Parameters<typeof this.client.createIfNotExists>[0])
           return {
             success: true,
             documentId: result._id,
@@ -287,7 +359,19 @@ export class ContentOperations {
           if (!documentId) {
             return {success: false, message: 'Cannot undo create: no document ID available'}
           }
-          await this.client.delete(documentId)
+          const current = await this.client.getDocument(documentId)
+          if (current && expectedRevision && current._rev !== expectedRevision) {
+            const conflict = buildUndoConflict({}, action.result.data as Record<string, unknown> | null, current, expectedRevision)
+            return {
+              success: false,
+              documentId,
+              message: `Undo blocked: ${describeUndoConflict(conflict)} Delete it manually if it is no longer needed.`,
+              conflict: {...conflict, canRevertFields: false},
+            }
+          }
+          if (current) {
+            await this.client.delete(documentId)
+          }
           return {
             success: true,
             documentId,
@@ -295,6 +379,122 @@ export class ContentOperations {
           }
         }
 
+        case 'publish': {
+          // Put the changes back into the draft and restore the previously published version
+          const {draft, published} = action.result.preState as PublishPreState
+          const publishedId = draft._id.replace(/^drafts\./, '')
+          const [currentDraft, currentPublished] = await Promise.all([
+            this.client.getDocument(draft._id),
+            this.client.getDocument(publishedId),
+          ])
+          if (!currentPublished) {
+            return {
+              success: false,
+              documentId: publishedId,
+              message: 'Undo blocked: the document was unpublished or deleted after it was published.',
+            }
+          }
+          const edited = currentDraft ?? (currentPublished._rev !== expectedRevision ? currentPublished : null)
+          if (edited) {
+            const conflict = buildUndoConflict(draft, action.result.data as Record<string, unknown> | null, edited, expectedRevision)
+            return {
+              success: false,
+              documentId: publishedId,
+              message: `Undo blocked: ${describeUndoConflict(conflict)}`,
+              conflict: {...conflict, canRevertFields: false},
+            }
+          }
+
+          // Every write is guarded by the state the check above saw: the draft is created only if
+          // none was started since, and the published document only changes at the revision the
+          // publish produced - otherwise the transaction fails and nothing is written
+          const transaction = this.client.transaction().create(draft)
+          if (published) {
+            const {set, unset} = getRevertPatch(published, getContentFields(currentPublished, published))
+            transaction.patch(publishedId, (patch) => patch.ifRevisionId(currentPublished._rev).set(set).unset(unset))
+          } else {
+            transaction.patch(publishedId, (patch) => patch.ifRevisionId(currentPublished._rev)).delete(publishedId)
+          }
+          await transaction.commit()
+          return {
+            success: true,
+            documentId: draft._id,
+            message: published
+              ? 'Undo successful: previous version restored, published changes are back in the draft'
+              : 'Undo successful: document unpublished, its changes are back in the draft',
+          }
+        }
+
+        case 'unpublish': {
+          // Publish the removed version again, unless the document was published since
+          const existing = await this.client.getDocument(preState._id as string)
+          if (existing) {
+            return {
+              success: false,
+              documentId: existing._id,
+              message: 'Undo blocked: the document was published again after it was unpublished.',
+            }
+          }
+          const result = await this.client.createIfNotExists(preState as Parameters<typeof this.client.createIfNotExists>[0])
+          return {
+            success: true,
+            documentId: result._id,
+            message: 'Undo successful: document is published again',
+            data: result,
+          }
+        }
+
+        case 'discardDraft': {
+          // Recreate the discarded draft, unless a new draft was started since
+          const existing = await this.client.getDocument(preState._id as string)
+          if (existing) {
+            const conflict = buildUndoConflict(preState, null, existing)
+            return {
+              success: false,
+              documentId: existing._id,
+              message: 'Undo blocked: a new draft was started after the old one was discarded.',
+              conflict: {...conflict, canRevertFields: false},
+            }
+          }
+          const result = await this.client.createIfNotExists(preState as Parameters<typeof this.client.createIfNotExists>[0])
+          return {
+            success: true,
+            documentId: result._id,
+            message: 'Undo successful: discarded draft has been restored',
+            data: result,
+          }
+        }
+
+        case 'schedulePublish': {
+          // Cancel the schedule while it is still pending
+          const schedule = action.result.data as PublishSchedule | undefined
+          const documentId = action.result.documentId
+          if (!schedule?.id || !documentId) {
+            return {success: false, message: 'Cannot undo: no schedule ID available'}
+          }
+          const {schedules} = await requestSchedules<{schedules: PublishSchedule[]}>(
+            this.client,
+            'GET',
+            `?documentIds=${encodeURIComponent(documentId)}`
+          )
+          const current = schedules.find((item) => item.id === schedule.id)
+          if (current?.state === 'succeeded') {
+            return {
+              success: false,
+              documentId,
+              message: 'Cannot undo: the document has already been published by this schedule. Unpublish it instead.',
+            }
+          }
+          if (current?.state === 'scheduled') {
+            await requestSchedules(this.client, 'DELETE', `/${schedule.id}`)
+          }
+          return {
+            success: true,
+            documentId,
+            message: 'Undo successful: scheduled publish cancelled',
+          }
+        }
+
         default:
           return {
             success: false,
@@ -303,214 +503,142 @@ export class ContentOperations {
       }
     } catch (error) {
       console.error('[ContentOperations] undoAction error:', error)
+      const message = error instanceof Error ? error.message : 'Undo failed'
       return {
         success: false,
-        message: error instanceof Error ? error.message : 'Undo failed',
+        message: /revision|already exists/i.test(message)
+          ? 'Undo failed: the document was edited while undoing. Nothing was changed - try again.'
+          : message,
       }
     }
   }
 
   /**
-   * Create a new document
+   * Restore the given top-level fields of a document to their pre-state values,
+   * guarded by the current revision
    */
-  async createDocument(payload: ActionPayload): Promise<ActionResult> {
-    if (!payload.documentType) {
-      return {success: false, message: 'Document type is required'}
-    }
-
-    const doc = {
-      _type: payload.documentType,
-      ...payload.fields,
-    }
-
-    const result = await this.client.create(doc)
-
-    return {
-      success: true,
-      documentId: result._id,
-      message: `Created ${payload.documentType} document`,
-      data: result,
-    }
+  private async revertFields(
+    current: SanityDocument,
+    preState: Record<string, unknown>,
+    fields: string[]
+  ): Promise<SanityDocument> {
+    const {set, unset} = getRevertPatch(preState, fields)
+    return this.client.patch(current._id).ifRevisionId(current._rev).set(set).unset(unset).commit()
   }
 
   /**
-   * Update an existing document
-   * Handles both draft and published documents - updates the draft version
-   * Supports nested field paths with _key selectors for array items
+   * Execute several write actions as one all-or-nothing batch
    *
-   * For nested updates, use paths like:
-   * - Simple: { "title": "New Title" }
-   * - Nested with _key: { "pageBuilder[_key==\"abc123\"].rows[_key==\"def456\"].columns[_key==\"ghi789\"].content[_key==\"jkl012\"].text": "New Text" }
+   * Every action is checked and staged first, then all of them are committed in a
+   * single transaction - if any action is denied, invalid or rejected by Sanity,
+   * nothing is written. Results are returned in action order and share a batchId,
+   * so the batch can be undone as a whole with undoBatch.
    */
-  async updateDocument(payload: ActionPayload): Promise<ActionResult> {
-    if (!payload.documentId) {
-      return {success: false, message: 'Document ID is required'}
-    }
+  async executeBatch(actions: ParsedAction[]): Promise<ActionResult[]> {
+    console.log('[ContentOperations] executeBatch called:', actions.map((action) => action.type))
 
-    if (!payload.fields || Object.keys(payload.fields).length === 0) {
-      return {success: false, message: 'No fields to update'}
+    let accessControl: AccessControlSettings | null
+    try {
+      accessControl = await this.getAccessControl()
+    } catch (error) {
+      const batchId = generateBatchId()
+      const {message} = accessControlUnavailable(error)
+      return actions.map((_, index) => ({
+        success: false,
+        batchId,
+        message: index === 0 ? message : BATCH_NOT_APPLIED_MESSAGE,
+      }))
     }
 
-    // Validate field paths - reject if they use numeric indices (which can corrupt data)
-    for (const fieldPath of Object.keys(payload.fields)) {
-      if (/\[\d+\]/.test(fieldPath)) {
-        return {
-          success: false,
-          message: `Invalid field path "${fieldPath}". Use _key selectors like [_key=="abc123"] instead of numeric indices like [0]. Query the document first to get the _key values.`,
-        }
-      }
+    return executeBatch(this.client, actions, {
+      accessControl,
+      validator: this.validator,
+      audit: this.getAuditContext() ?? undefined,
+    })
+  }
 
-      // Detect hallucinated/fake _key values (semantic names instead of random strings)
-      // Real Sanity keys are 10+ char alphanumeric strings like "4b5c6d7e8f"
-      const keyMatches = fieldPath.match(/_key=="([^"]+)"/g)
-      if (keyMatches) {
-        for (const keyMatch of keyMatches) {
-          const keyValue = keyMatch.match(/_key=="([^"]+)"/)?.[1] || ''
-          // Fake keys are usually semantic words like "hero", "hero-row", "main-section"
-          // Real keys are random alphanumeric strings without hyphens or semantic meaning
-          const looksLikeFakeKey = /^[a-z]+-?[a-z]*$/i.test(keyValue) && keyValue.length < 10
-          if (looksLikeFakeKey) {
-            return {
-              success: false,
-              message: `Invalid _key value "${keyValue}" looks like a made-up name. Real Sanity _key values are random strings like "4b5c6d7e8f9g". You must first execute a query to find the actual _key values, then use those exact values in your update.`,
-            }
-          }
-        }
-      }
+  /**
+   * Undo an executed batch in a single transaction
+   *
+   * Each document is restored to its state from before the batch. If any of them was
+   * edited since the batch ran, nothing is written - the batch is undone completely or not at all.
+   */
+  async undoBatch(actions: ParsedAction[]): Promise<ActionResult> {
+    const result = await this.revertBatch(actions)
+    if (result.success) {
+      await this.recordAudit(
+        actions.map((action) => ({action: withResultDocumentId(action), result: {...result, batchId: action.result?.batchId}})),
+        {undo: true}
+      )
     }
+    return result
+  }
 
-    // Validate document ID format - detect hallucinated IDs
-    // Real Sanity IDs are either UUIDs or custom IDs that don't look like slug-based names
-    const docId = payload.documentId
-    const looksLikeFakeDocId = /^(page|post|article|section|block)-[a-z-]+$/i.test(docId)
-    if (looksLikeFakeDocId) {
-      return {
-        success: false,
-        message: `Invalid document ID "${docId}" looks like a made-up slug-based name. Real Sanity document IDs are UUIDs like "4c4d5ab9-abbb-485f-b033-f31a14cbdce2" or custom IDs. You must first execute a query to find the actual _id value, then use that exact ID in your update.`,
+  /**
+   * Revert every document of a batch, without auditing it
+   */
+  private async revertBatch(actions: ParsedAction[]): Promise<ActionResult> {
+    console.log('[ContentOperations] undoBatch called:', actions.map((action) => action.id))
+
+    // The first action on a document holds its state from before the batch, the last one its revision after
+    const documents = new Map<string, {before: SanityDocument | null; revision?: string; deleted: boolean}>()
+    for (const action of actions) {
+      const documentId = action.result?.documentId
+      if (!action.result?.success || !documentId || action.result.preState === undefined) {
+        return {success: false, message: 'Cannot undo: the batch did not complete'}
       }
+      const entry = documents.get(documentId) ?? {before: action.result.preState as SanityDocument | null, deleted: false}
+      entry.revision = action.result.revision
+      entry.deleted = action.type === 'delete'
+      documents.set(documentId, entry)
     }
 
-    // Validate nested objects have required _type and _key fields
-    for (const [fieldPath, fieldValue] of Object.entries(payload.fields)) {
-      const validationError = validateNestedObjects(fieldValue, fieldPath)
-      if (validationError) {
+    try {
+      const documentIds = [...documents.keys()]
+      const current = await this.client.getDocuments(documentIds)
+      const edited = documentIds.filter((documentId, index) => {
+        const {revision, deleted} = documents.get(documentId)!
+        const document = current[index]
+        return deleted ? !!document : !!document && document._rev !== revision
+      })
+      if (edited.length > 0) {
         return {
           success: false,
-          message: validationError,
+          message: `Undo blocked: ${edited.join(', ')} ${edited.length === 1 ? 'was' : 'were'} changed after the batch ran. Nothing was reverted.`,
         }
       }
-    }
-
-    // Strip drafts. prefix if present to get the base ID
-    const baseId = payload.documentId.replace(/^drafts\./, '')
-    const draftId = `drafts.${baseId}`
 
-    try {
-      // First check if the draft exists
-      let draft = await this.client.getDocument(draftId)
-
-      if (!draft) {
-        // Try to get the published version and create a draft from it
-        const published = await this.client.getDocument(baseId)
-        if (published) {
-          const {_id, ...docWithoutId} = published
-          draft = await this.client.create({
-            ...docWithoutId,
-            _id: draftId,
-          })
+      const transaction = this.client.transaction()
+      documentIds.forEach((documentId, index) => {
+        const {before} = documents.get(documentId)!
+        const document = current[index]
+        if (!before) {
+          if (document) transaction.delete(documentId)
+        } else if (!document) {
+          transaction.createIfNotExists(before)
         } else {
-          return {
-            success: false,
-            message: `Document not found: ${baseId}. Please verify the document ID exists.`,
-          }
+          const {set, unset} = getRevertPatch(before, getContentFields(document, before))
+          transaction.patch(documentId, (patch) => patch.ifRevisionId(document._rev).set(set).unset(unset))
         }
-      }
-
-      // Log the fields being updated for debugging
-      console.log('[Claude Assistant] Updating document:', draftId)
-      console.log('[Claude Assistant] Fields:', JSON.stringify(payload.fields, null, 2))
-
-      // Capture pre-execution state for undo functionality (deep clone)
-      const preState = JSON.parse(JSON.stringify(draft))
-
-      // Apply the patch with the provided fields
-      const result = await this.client
-        .patch(draftId)
-        .set(payload.fields)
-        .commit()
+      })
+      await transaction.commit()
 
       return {
         success: true,
-        documentId: result._id,
-        message: `Updated document successfully. Changes saved to draft - remember to publish when ready.`,
-        data: result,
-        preState, // Include pre-execution state for undo
+        message: `Undo successful: all ${actions.length} changes in the batch have been reverted`,
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to update document'
-      console.error('[Claude Assistant] Update error:', errorMessage)
+      console.error('[ContentOperations] undoBatch error:', error)
+      const message = error instanceof Error ? error.message : 'Undo failed'
       return {
         success: false,
-        message: `Update failed: ${errorMessage}. This may indicate the field path is incorrect. Ensure you're using _key selectors (e.g., [_key=="abc"]) and that all _key values exist in the document.`,
+        message: /revision/i.test(message)
+          ? 'Undo failed: a document was edited while undoing. Nothing was changed - try again.'
+          : message,
       }
     }
   }
 
-  /**
-   * Delete a document
-   */
-  async deleteDocument(payload: ActionPayload): Promise<ActionResult> {
-    if (!payload.documentId) {
-      return {success: false, message: 'Document ID is required'}
-    }
-
-    // Capture pre-execution state for undo functionality
-    const document = await this.client.getDocument(payload.documentId)
-    const preState = document ? JSON.parse(JSON.stringify(document)) : null
-
-    await this.client.delete(payload.documentId)
-
-    return {
-      success: true,
-      documentId: payload.documentId,
-      message: `Deleted document ${payload.documentId}`,
-      preState, // Include pre-execution state for undo (restore)
-    }
-  }
-
-  /**
-   * Query documents using GROQ
-   */
-  async queryDocuments(payload: ActionPayload): Promise<ActionResult> {
-    if (!payload.query) {
-      return {success: false, message: 'Query is required'}
-    }
-
-    const results = await this.client.fetch(payload.query)
-
-    return {
-      success: true,
-      message: `Found ${Array.isArray(results) ? results.length : 1} result(s)`,
-      data: results,
-    }
-  }
-
-  /**
-   * Navigate to a document (returns navigation info, actual navigation handled by UI)
-   */
-  navigateToDocument(payload: ActionPayload): ActionResult {
-    if (!payload.documentId && !payload.path) {
-      return {success: false, message: 'Document ID or path is required'}
-    }
-
-    return {
-      success: true,
-      documentId: payload.documentId,
-      message: `Navigate to ${payload.path || payload.documentId}`,
-      data: {path: payload.path, documentId: payload.documentId},
-    }
-  }
-
   /**
    * Preview what an action would do without executing it
    */
@@ -524,7 +652,7 @@ export class ContentOperations {
         }
       case 'update':
         if (action.payload.documentId) {
-          const currentDoc = await this.client.getDocument(action.payload.documentId)
+          const currentDoc = await getLatestVersion(this.client, action.payload.documentId)
           return {
             operation: 'update',
             documentId: action.payload.documentId,
@@ -533,6 +661,17 @@ export class ContentOperations {
           }
         }
         return {operation: 'update', error: 'No document ID'}
+      case 'patch':
+        if (action.payload.documentId) {
+          const currentDoc = await getLatestVersion(this.client, action.payload.documentId)
+          return {
+            operation: 'patch',
+            documentId: action.payload.documentId,
+            currentValues: currentDoc,
+            operations: action.payload.operations,
+          }
+        }
+        return {operation: 'patch', error: 'No document ID'}
       case 'delete':
         if (action.payload.documentId) {
           const docToDelete = await this.client.getDocument(action.payload.documentId)
@@ -542,6 +681,20 @@ export class ContentOperations {
           }
         }
         return {operation: 'delete', error: 'No document ID'}
+      case 'publish':
+      case 'discardDraft':
+        if (action.payload.documentId) {
+          // Publishing turns the published version into the draft; discarding does the reverse
+          const baseId = action.payload.documentId.replace(/^drafts\./, '')
+          const [draft, published] = await Promise.all([
+            this.client.getDocument(`drafts.${baseId}`),
+            this.client.getDocument(baseId),
+          ])
+          return action.type === 'publish'
+            ? {operation: 'publish', documentId: baseId, currentValues: published ?? {}, newValues: draft}
+            : {operation: 'discardDraft', documentId: baseId, currentValues: draft, newValues: published ?? {}}
+        }
+        return {operation: action.type, error: 'No document ID'}
       case 'query':
         return {
           operation: 'query',
@@ -869,43 +1022,19 @@ export class ContentOperations {
   }
 
   /**
-   * Publish a document (remove 'drafts.' prefix)
+   * Publish the draft of a document, replacing the published version
+   * Used by the publish button; Claude's publish actions go through executeAction.
    */
-  async publishDocument(documentId: string): Promise<ActionResult> {
-    try {
-      const draftId = documentId.startsWith('drafts.') ? documentId : `drafts.${documentId}`
-      const publishedId = documentId.replace(/^drafts\./, '')
-
-      // Get the draft document
-      const draft = await this.client.getDocument(draftId)
-
-      if (!draft) {
-        return {success: false, message: `Draft document ${draftId} not found`}
-      }
-
-      // Create/replace the published version
-      const {_id, ...docWithoutId} = draft
-      await this.client.createOrReplace({
-        ...docWithoutId,
-        _id: publishedId,
-      })
-
-      // Delete the draft
-      await this.client.delete(draftId)
+  async publishDocument(payload: ActionPayload): Promise<ActionResult> {
+    return publishDocument(this.client, payload)
+  }
 
-      return {
-        success: true,
-        documentId: publishedId,
-        message: `Published document ${publishedId}`,
-      }
-    } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error
-          ? `Failed to publish: ${error.message}`
-          : 'Failed to publish: Unknown error',
-      }
-    }
+  /**
+   * Unpublish a document, keeping its content as a draft
+   * Used by the unpublish button; Claude's unpublish actions go through executeAction.
+   */
+  async unpublishDocument(payload: ActionPayload): Promise<ActionResult> {
+    return unpublishDocument(this.client, payload)
   }
 
   /**
@@ -1050,58 +1179,17 @@ export class ContentOperations {
       }
     }
   }
-
-  /**
-   * Unpublish a document (delete published version, keep draft)
-   */
-  async unpublishDocument(documentId: string): Promise<ActionResult> {
-    try {
-      const publishedId = documentId.replace(/^drafts\./, '')
-
-      // Check if published version exists
-      const published = await this.client.getDocument(publishedId)
-
-      if (!published) {
-        return {success: false, message: `Published document ${publishedId} not found`}
-      }
-
-      // Ensure draft exists before unpublishing
-      const draftId = `drafts.${publishedId}`
-      const draft = await this.client.getDocument(draftId)
-
-      if (!draft) {
-        // Create draft from published version
-        const {_id, ...docWithoutId} = published
-        await this.client.create({
-          ...docWithoutId,
-          _id: draftId,
-        })
-      }
-
-      // Delete the published version
-      await this.client.delete(publishedId)
-
-      return {
-        success: true,
-        documentId: draftId,
-        message: `Unpublished document. Draft preserved at ${draftId}`,
-      }
-    } catch (error) {
-      return {
-        success: false,
-        message: error instanceof Error
-          ? `Failed to unpublish: ${error.message}`
-          : 'Failed to unpublish: Unknown error',
-      }
-    }
-  }
 }
 
 /**
  * Create a new ContentOperations instance
  */
-export function createContentOperations(client: SanityClient): ContentOperations {
-  return new ContentOperations(client)
+export function createContentOperations(
+  client: SanityClient,
+  schema: Schema,
+  getAuditContext?: () => AuditContext | null
+): ContentOperations {
+  return new ContentOperations(client, schema, getAuditContext)
 }
 
 /**
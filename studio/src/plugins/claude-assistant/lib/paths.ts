@@ -0,0 +1,76 @@
+/**
+ * Field Paths
+ *
+ * Helpers for _key-addressed field paths such as
+ * pageBuilder[_key=="abc123"].rows[_key=="def456"].columns
+ * - describing them for display. Parsing and resolving them is shared with
+ * the remote API through claude-core.
+ */
+
+import {findKeyedItem, parsePath} from 'claude-core'
+
+/**
+ * Page builder arrays whose items are described by their type instead of the field name
+ */
+const STRUCTURAL_ARRAYS = new Set(['pageBuilder', 'rows', 'columns', 'content'])
+
+/**
+ * Maximum length of an item name shown in a breadcrumb
+ */
+const MAX_NAME_LENGTH = 30
+
+/**
+ * Turn a schema type name into a label: headingBlock -> Heading, richTextBlock -> Rich Text
+ */
+function humanizeType(type: string): string {
+  const words = type.replace(/Block$/, '').replace(/([a-z])([A-Z])/g, '$1 $2')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Describe an array item for a breadcrumb, e.g. Section "Hero", Row 2 or Heading "Welcome"
+ */
+export function describeItem(item: unknown, index: number): string {
+  const obj = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>
+  const type = typeof obj._type === 'string' ? humanizeType(obj._type) : 'Item'
+  const name = [obj.label, obj.text, obj.title, obj.name].find(
+    (value): value is string => typeof value === 'string' && value.trim().length > 0
+  )
+
+  if (!name) {
+    return `${type} ${index + 1}`
+  }
+  const shortName = name.length > MAX_NAME_LENGTH ? `${name.substring(0, MAX_NAME_LENGTH)}…` : name
+  return `${type} "${shortName}"`
+}
+
+/**
+ * Describe a path as breadcrumb parts, resolving keyed items against the document:
+ * pageBuilder[_key=="a"].rows[_key=="b"].columns[_key=="c"].content[_key=="d"].text
+ * -> ['Section "Hero"', 'Row 1', 'Column 2', 'Heading "Welcome"', 'text']
+ */
+export function describePath(doc: unknown, path: string): string[] {
+  const segments = parsePath(path)
+  if (!segments) return [path]
+
+  const crumbs: string[] = []
+  let current = doc
+  for (const {field, key} of segments) {
+    const value = current && typeof current === 'object' ? (current as Record<string, unknown>)[field] : undefined
+
+    // Structural arrays are implied by the item labels that follow them
+    if (key === undefined || !STRUCTURAL_ARRAYS.has(field)) {
+      crumbs.push(field)
+    }
+
+    if (key === undefined) {
+      current = value
+      continue
+    }
+
+    const found = findKeyedItem(value, key)
+    crumbs.push(found ? describeItem(found.item, found.index) : `Missing item ${key}`)
+    current = found?.item
+  }
+  return crumbs
+}
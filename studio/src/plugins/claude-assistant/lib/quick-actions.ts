@@ -0,0 +1,105 @@
+/**
+ * Quick Action Context
+ *
+ * Decides which quick actions fit what the user is looking at and fills
+ * their prompt placeholders:
+ * - {{document.title}}, {{document._id}}, {{document._type}}, {{document.slug}}
+ *   from the open document
+ * - {{block.path}}, {{block.type}}, {{block.label}} and {{selection}} (the
+ *   block's content preview) from the block selected in Presentation
+ */
+
+import type {QuickAction, QuickActionContext} from '../types'
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g
+
+/**
+ * Placeholders that need an open document
+ */
+const DOCUMENT_PLACEHOLDERS = ['document.title', 'document._id', 'document._type', 'document.slug']
+
+/**
+ * Placeholders that need a selected block
+ */
+const BLOCK_PLACEHOLDERS = ['block.path', 'block.type', 'block.label', 'selection']
+
+/**
+ * Every placeholder a quick action prompt can use
+ */
+export const QUICK_ACTION_PLACEHOLDERS = [...DOCUMENT_PLACEHOLDERS, ...BLOCK_PLACEHOLDERS]
+
+/**
+ * Placeholder names used in a prompt
+ */
+function getPlaceholders(prompt: string): string[] {
+  return Array.from(prompt.matchAll(PLACEHOLDER_PATTERN), (match) => match[1])
+}
+
+/**
+ * Value of one placeholder, or undefined if the context does not have it
+ */
+function getPlaceholderValue(name: string, context: QuickActionContext): string | undefined {
+  const {document, block} = context
+
+  switch (name) {
+    case 'document.title':
+      return document?.name
+    case 'document._id':
+      return document?._id.replace(/^drafts\./, '')
+    case 'document._type':
+      return document?._type
+    case 'document.slug':
+      return document?.slug
+    case 'block.path':
+      return block?.path || undefined
+    case 'block.type':
+      return block?.blockType
+    case 'block.label':
+      return block?.label
+    case 'selection':
+      // The preview is quoted for display: "Welcome to Our Site"
+      return block?.preview ? block.preview.replace(/^"([\s\S]*)"$/, '$1') : undefined
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Check if a quick action fits the context: its document and block type
+ * filters match, and every placeholder in its prompt can be filled
+ */
+export function isQuickActionAvailable(action: QuickAction, context: QuickActionContext): boolean {
+  if (action.documentTypes?.length && !action.documentTypes.includes(context.document?._type || '')) {
+    return false
+  }
+  if (action.blockTypes?.length && !action.blockTypes.includes(context.block?.blockType || '')) {
+    return false
+  }
+
+  return getPlaceholders(action.prompt).every(
+    (name) => !QUICK_ACTION_PLACEHOLDERS.includes(name) || getPlaceholderValue(name, context) !== undefined
+  )
+}
+
+/**
+ * Check if a quick action only makes sense in some contexts: it has type
+ * filters or placeholders that need a document or block
+ */
+export function isContextualQuickAction(action: QuickAction): boolean {
+  return (
+    !!action.documentTypes?.length ||
+    !!action.blockTypes?.length ||
+    getPlaceholders(action.prompt).some((name) => QUICK_ACTION_PLACEHOLDERS.includes(name))
+  )
+}
+
+/**
+ * Fill a quick action prompt's placeholders from the context
+ * Unknown placeholders are kept as written.
+ */
+export function fillQuickActionPrompt(prompt: string, context: QuickActionContext): string {
+  return prompt.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (!QUICK_ACTION_PLACEHOLDERS.includes(name)) return placeholder
+    return getPlaceholderValue(name, context) ?? ''
+  })
+}
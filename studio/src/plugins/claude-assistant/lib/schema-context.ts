@@ -7,6 +7,9 @@
 import type {Schema, SchemaType, ObjectSchemaType, ArraySchemaType} from 'sanity'
 import type {SchemaContext, SchemaInfo, FieldInfo} from '../types'
 
+// The remote API formats the same schema context, so prompt formatting is shared
+export {formatSchemaForPrompt} from 'claude-core'
+
 /**
  * Extract complete schema context from Sanity schema
  */
@@ -159,12 +162,13 @@ function extractFieldInfo(field: {
     }
   }
 
-  // Handle reference types - extract only the type names
+  // Handle reference types - extract only the type names. Compiled reference
+  // targets are schema types, whose `type` is the parent type object
   if (fieldType.type?.name === 'reference') {
-    const refType = fieldType as ObjectSchemaType & {to?: Array<{type?: string; name?: string}>}
+    const refType = fieldType as ObjectSchemaType & {to?: Array<{type?: unknown; name?: string}>}
     if (refType.to && Array.isArray(refType.to)) {
       baseInfo.to = refType.to.map((t) => ({
-        type: t.type || t.name || 'unknown',
+        type: t.name || (typeof t.type === 'string' ? t.type : 'unknown'),
       }))
     }
   }
@@ -181,47 +185,6 @@ function extractFieldInfo(field: {
   return baseInfo
 }
 
-/**
- * Format schema context as a string for Claude's system prompt
- */
-export function formatSchemaForPrompt(context: SchemaContext): string {
-  const lines: string[] = []
-
-  lines.push('# Available Document Types\n')
-  for (const docType of context.documentTypes) {
-    lines.push(`## ${docType.title} (${docType.name})`)
-    if (docType.description) {
-      lines.push(docType.description)
-    }
-    lines.push('\nFields:')
-    for (const field of docType.fields) {
-      const required = field.required ? ' (required)' : ''
-      lines.push(`- ${field.name}: ${field.type}${required}`)
-      if (field.description) {
-        lines.push(`  ${field.description}`)
-      }
-    }
-    lines.push('')
-  }
-
-  if (context.objectTypes.length > 0) {
-    lines.push('\n# Object Types\n')
-    for (const objType of context.objectTypes.slice(0, 20)) {
-      // Limit to avoid token overflow
-      lines.push(`## ${objType.title} (${objType.name})`)
-      if (objType.fields.length > 0) {
-        lines.push('Fields:')
-        for (const field of objType.fields.slice(0, 10)) {
-          lines.push(`- ${field.name}: ${field.type}`)
-        }
-      }
-      lines.push('')
-    }
-  }
-
-  return lines.join('\n')
-}
-
 /**
  * Get a simplified schema summary for quick reference
  */
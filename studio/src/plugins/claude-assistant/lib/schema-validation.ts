@@ -0,0 +1,161 @@
+/**
+ * Schema Validation
+ *
+ * Builds the ValidationSchema claude-core validates Claude's payloads against
+ * from the compiled Studio schema. The studio's extract-schema-context script
+ * writes the same description to claude-core's validation-schema.json, so the
+ * remote API and MCP server validate against exactly what the Studio does.
+ */
+
+import type {ArraySchemaType, ObjectSchemaType, ReferenceSchemaType, Rule, Schema, SchemaType} from 'sanity'
+import {
+  validateArrayItems as validateArrayItemsAgainst,
+  validateDocument as validateDocumentAgainst,
+  validateFieldUpdates as validateFieldUpdatesAgainst,
+  type SchemaValidationResult,
+  type ValidationSchema,
+  type ValidationSchemaNode,
+  type ValidationSchemaType,
+} from 'claude-core'
+
+/**
+ * Built validation schemas, by compiled schema
+ */
+const validationSchemas = new WeakMap<Schema, ValidationSchema>()
+
+/**
+ * Name of the built-in type a schema type is ultimately based on (e.g. "object", "image", "reference")
+ */
+function getBaseTypeName(type: SchemaType): string {
+  let current: SchemaType = type
+  while (current.type) {
+    current = current.type
+  }
+  return current.name
+}
+
+/**
+ * Check if a field's validation marks it as required
+ */
+function isRequiredType(type: SchemaType): boolean {
+  const rules = ([] as unknown[]).concat(type.validation ?? [])
+  return rules.some((rule) => !!rule && typeof (rule as Rule).isRequired === 'function' && (rule as Rule).isRequired())
+}
+
+/**
+ * Allowed values of a string field with an options list, or undefined if any string is allowed
+ */
+function getListValues(type: SchemaType): unknown[] | undefined {
+  const list = (type.options as {list?: unknown[]} | undefined)?.list
+  if (!Array.isArray(list) || list.length === 0) return undefined
+  return list.map((option) => (option && typeof option === 'object' ? (option as {value?: unknown}).value : option))
+}
+
+/**
+ * Check if a type is one of the schema's own object or array types (not a built-in),
+ * which is described once and referenced by name
+ */
+function isNamedType(schema: Schema, type: SchemaType): boolean {
+  return (type.jsonType === 'object' || type.jsonType === 'array') && !!schema.get(type.name)?.type
+}
+
+/**
+ * Build the validation schema for a compiled Studio schema
+ * Named object and array types are described once, so recursive types terminate.
+ */
+export function buildValidationSchema(schema: Schema): ValidationSchema {
+  const cached = validationSchemas.get(schema)
+  if (cached) return cached
+
+  const types: Record<string, ValidationSchemaType> = {}
+
+  const describeNamed = (name: string): void => {
+    const type = schema.get(name)
+    if (!type || types[name]) return
+    // Registered before its fields are described, so a type that contains itself refers to itself by name
+    types[name] = {name, jsonType: 'object', baseType: ''}
+    types[name] = describe(type)
+  }
+
+  const toNode = (type: SchemaType): ValidationSchemaNode => {
+    if (isNamedType(schema, type)) {
+      describeNamed(type.name)
+      return {ref: type.name}
+    }
+    return describe(type)
+  }
+
+  const describe = (type: SchemaType): ValidationSchemaType => {
+    const baseType = getBaseTypeName(type)
+    const described: ValidationSchemaType = {
+      name: type.name,
+      jsonType: type.jsonType as ValidationSchemaType['jsonType'],
+      baseType,
+    }
+    if (type.jsonType === 'string') {
+      const list = getListValues(type)
+      if (list) described.list = list
+    }
+    if (type.jsonType === 'array') {
+      described.of = (type as ArraySchemaType).of.map(toNode)
+    }
+    if (baseType === 'reference') {
+      described.to = ((type as ReferenceSchemaType).to || []).map((target) => target.name)
+    } else if (type.jsonType === 'object' && baseType !== 'block') {
+      // Portable Text blocks are normalized by the editor - their fields are never checked
+      described.fields = ((type as ObjectSchemaType).fields || []).map((field) => ({
+        name: field.name,
+        required: isRequiredType(field.type),
+        type: toNode(field.type),
+      }))
+    }
+    return described
+  }
+
+  for (const name of schema.getTypeNames()) {
+    if (name.startsWith('sanity.') || name.startsWith('system.')) continue
+    const type = schema.get(name)
+    if (type && isNamedType(schema, type)) {
+      describeNamed(name)
+    }
+  }
+
+  const validationSchema = {types}
+  validationSchemas.set(schema, validationSchema)
+  return validationSchema
+}
+
+/**
+ * Validate the fields of a new document
+ */
+export function validateDocument(
+  schema: Schema,
+  documentType: string,
+  fields: Record<string, unknown>
+): SchemaValidationResult {
+  return validateDocumentAgainst(buildValidationSchema(schema), documentType, fields)
+}
+
+/**
+ * Validate the values an update sets, keyed by field path, in an existing document
+ */
+export function validateFieldUpdates(
+  schema: Schema,
+  document: {_type: string},
+  fields: Record<string, unknown>
+): SchemaValidationResult {
+  return validateFieldUpdatesAgainst(buildValidationSchema(schema), document, fields)
+}
+
+/**
+ * Validate items added to an array in an existing document
+ * arrayPath points to the array itself, e.g. pageBuilder[_key=="abc"].rows
+ */
+export function validateArrayItems(
+  schema: Schema,
+  document: {_type: string},
+  arrayPath: string,
+  items: unknown[]
+): SchemaValidationResult {
+  return validateArrayItemsAgainst(buildValidationSchema(schema), document, arrayPath, items)
+}
@@ -0,0 +1,72 @@
+/**
+ * Conversation Summary Helpers
+ *
+ * Map chat messages to the shape summarized by claude-core, and work out
+ * which messages a stored summary already covers.
+ */
+
+import type {ConversationSummary, Message} from '../types'
+import type {SummaryMessage} from 'claude-core'
+
+/**
+ * Describe a message's actions for the summary transcript
+ * Tool-call actions are not in the message text, so their payloads and
+ * results are spelled out to keep document IDs and _keys in the summary.
+ */
+function describeActions(message: Message): string {
+  if (!message.actions?.length) return ''
+
+  const lines = message.actions.map((action) => {
+    const result = action.result
+      ? ` -> ${action.result.success ? 'succeeded' : 'failed'}${action.result.documentId ? ` (${action.result.documentId})` : ''}${action.result.message ? `: ${action.result.message}` : ''}`
+      : ''
+    return `- ${action.type} (${action.status}): ${action.description} ${JSON.stringify(action.payload)}${result}`
+  })
+
+  return `\n\nActions:\n${lines.join('\n')}`
+}
+
+/**
+ * Convert chat messages for summarization
+ */
+export function toSummaryMessages(messages: Message[]): SummaryMessage[] {
+  return messages.map((message, index) => {
+    const previous = messages[index - 1]
+    return {
+      role: message.role === 'assistant' ? 'assistant' : 'user',
+      content: `${message.content}${message.role === 'assistant' ? describeActions(message) : ''}`,
+      continuesToolCall:
+        message.role === 'user' && !!previous?.actions?.some((action) => action.toolUseId) ? true : undefined,
+    }
+  })
+}
+
+/**
+ * Number of leading messages a summary covers, or 0 when its last message is not in the list
+ * Unsaved hidden messages right after the summarized range are skipped too, so the
+ * remaining history starts with a user message that does not answer a tool call.
+ */
+export function getSummarizedCount(messages: Message[], summary: ConversationSummary | null | undefined): number {
+  if (!summary?.throughMessageId) return 0
+
+  let count = messages.findIndex((message) => message.id === summary.throughMessageId) + 1
+  if (count === 0) return 0
+
+  const summaryMessages = toSummaryMessages(messages)
+  while (
+    count < messages.length &&
+    (summaryMessages[count].role !== 'user' || summaryMessages[count].continuesToolCall)
+  ) {
+    count++
+  }
+  // Never leave nothing to send: fall back to the full history
+  return count < messages.length ? count : 0
+}
+
+/**
+ * ID of the last persisted message in a summarized range
+ * Hidden messages are never saved, so the summary points at a visible one.
+ */
+export function getLastSummarizedMessageId(messages: Message[]): string | undefined {
+  return [...messages].reverse().find((message) => !message.hidden)?.id
+}
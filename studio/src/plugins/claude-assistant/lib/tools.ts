@@ -0,0 +1,112 @@
+/**
+ * Action Tools
+ *
+ * The tool definitions are shared with the remote API and MCP server through
+ * claude-core. This module converts executed actions back into tool_use /
+ * tool_result blocks so tool calls round-trip through the conversation history.
+ */
+
+import {actionToToolInput} from 'claude-core'
+import type {ApiContentBlock, ApiMessage, Message, ParsedAction} from '../types'
+
+export {actionToToolInput, getActionTools} from 'claude-core'
+
+/**
+ * Describe an action's outcome as tool_result content
+ */
+function describeToolResult(action: ParsedAction): {content: string; isError: boolean} {
+  switch (action.status) {
+    case 'completed': {
+      const lines = [`Executed successfully. ${action.result?.message || ''}`.trim()]
+      if (action.result?.documentId) {
+        lines.push(`Document ID: ${action.result.documentId}`)
+      }
+      return {content: lines.join('\n'), isError: false}
+    }
+    case 'failed':
+      return {content: `Failed: ${action.error || action.result?.message || 'Unknown error'}`, isError: true}
+    case 'cancelled':
+      return {content: 'The user rejected this action. It was not executed.', isError: false}
+    case 'executing':
+      return {content: 'Still executing - the result is not available yet.', isError: false}
+    default:
+      return {content: 'Not executed yet - waiting for the user to review and approve this action.', isError: false}
+  }
+}
+
+/**
+ * Build tool_use blocks for the tool-based actions of an assistant message
+ */
+function buildToolUseBlocks(actions: ParsedAction[] = []): ApiContentBlock[] {
+  return actions
+    .filter((action) => action.toolUseId)
+    .map((action) => ({
+      type: 'tool_use',
+      id: action.toolUseId,
+      name: action.type,
+      input: actionToToolInput(action),
+    }))
+}
+
+/**
+ * Build tool_result blocks answering the tool_use blocks of an assistant message
+ */
+function buildToolResultBlocks(actions: ParsedAction[] = []): ApiContentBlock[] {
+  return actions
+    .filter((action) => action.toolUseId)
+    .map((action) => {
+      const {content, isError} = describeToolResult(action)
+      return {
+        type: 'tool_result',
+        tool_use_id: action.toolUseId,
+        content,
+        ...(isError ? {is_error: true} : {}),
+      }
+    })
+}
+
+/**
+ * Normalize message content to an array of content blocks
+ */
+function toContentBlocks(content: ApiMessage['content']): ApiContentBlock[] {
+  if (typeof content !== 'string') return content
+  return content.trim() ? [{type: 'text', text: content}] : []
+}
+
+/**
+ * Attach tool_use blocks to assistant messages and answer them with tool_result
+ * blocks at the start of the following user message (inserting one if needed).
+ *
+ * @param messages - Source chat messages, in the same order as history
+ * @param history - API messages built from those chat messages
+ */
+export function attachToolBlocks(messages: Message[], history: ApiMessage[]): ApiMessage[] {
+  const result: ApiMessage[] = []
+  let pendingResults: ApiContentBlock[] = []
+
+  history.forEach((entry, index) => {
+    const source = messages[index]
+    let content = entry.content
+
+    if (pendingResults.length > 0) {
+      if (entry.role === 'user') {
+        content = [...pendingResults, ...toContentBlocks(content)]
+      } else {
+        result.push({role: 'user', content: pendingResults})
+      }
+      pendingResults = []
+    }
+
+    if (entry.role === 'assistant') {
+      const toolUses = buildToolUseBlocks(source?.actions)
+      if (toolUses.length > 0) {
+        content = [...toContentBlocks(content), ...toolUses]
+        pendingResults = buildToolResultBlocks(source?.actions)
+      }
+    }
+
+    result.push({role: entry.role, content})
+  })
+
+  return result
+}
@@ -0,0 +1,171 @@
+/**
+ * Undo
+ *
+ * Decides which executed actions can be undone, builds the conversation-wide
+ * undo stack, and describes conflicts when a document was edited after
+ * Claude's action so undo never silently discards someone else's work.
+ */
+
+import type {ActionResult, ActionType, Message, ParsedAction, UndoConflict, UndoConflictField} from '../types'
+import {describeBatch} from './batch'
+
+/**
+ * Action types that capture a pre-state and can be undone
+ */
+export const UNDOABLE_ACTION_TYPES: ActionType[] = [
+  'update',
+  'patch',
+  'delete',
+  'create',
+  'publish',
+  'unpublish',
+  'discardDraft',
+  'schedulePublish',
+]
+
+/**
+ * System fields that are never compared or reverted
+ */
+export const SYSTEM_FIELDS = new Set(['_id', '_type', '_rev', '_createdAt', '_updatedAt'])
+
+/**
+ * Check if an action completed and can still be undone
+ * The pre-state is cleared after a successful undo, so undone actions drop out.
+ */
+export function canUndoAction(action: ParsedAction): boolean {
+  return (
+    action.status === 'completed' &&
+    !!action.result?.success &&
+    action.result.preState !== undefined &&
+    UNDOABLE_ACTION_TYPES.includes(action.type)
+  )
+}
+
+/**
+ * Check if an executed batch completed and can still be undone as a whole
+ */
+export function canUndoBatch(actions: ParsedAction[]): boolean {
+  return actions.length > 0 && actions.every(canUndoAction)
+}
+
+/**
+ * One entry of the undo stack: a single action, or every action of a batch
+ */
+export interface UndoEntry {
+  actions: ParsedAction[]
+  description: string
+}
+
+/**
+ * Undoable entries of a conversation, most recent first - the order they must be reverted in
+ * Actions that ran in the same batch form a single entry.
+ */
+export function getUndoStack(messages: Message[]): UndoEntry[] {
+  const entries: UndoEntry[] = []
+  const batches = new Map<string, ParsedAction[]>()
+
+  for (const action of messages.flatMap((message) => message.actions || [])) {
+    const batchId = action.result?.batchId
+    if (!batchId) {
+      if (canUndoAction(action)) {
+        entries.push({actions: [action], description: action.description})
+      }
+      continue
+    }
+    const batch = batches.get(batchId)
+    if (batch) {
+      batch.push(action)
+    } else {
+      const actions = [action]
+      batches.set(batchId, actions)
+      entries.push({actions, description: ''})
+    }
+  }
+
+  return entries
+    .filter((entry) => canUndoBatch(entry.actions))
+    .map((entry) => (entry.actions.length > 1 ? {...entry, description: describeBatch(entry.actions)} : entry))
+    .reverse()
+}
+
+/**
+ * Undo entries one by one in stack order, stopping at the first failure or conflict
+ * Returns the number of entries undone and the result that stopped the run, if any.
+ */
+export async function undoInOrder(
+  entries: UndoEntry[],
+  undo: (entry: UndoEntry) => Promise<ActionResult | void>
+): Promise<{undone: number; stoppedBy?: ActionResult}> {
+  let undone = 0
+  for (const entry of entries) {
+    const result = await undo(entry)
+    if (result && !result.success) {
+      return {undone, stoppedBy: result}
+    }
+    undone++
+  }
+  return {undone}
+}
+
+/**
+ * Compare two values structurally
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Top-level content fields present in any of the given documents
+ */
+export function getContentFields(...docs: Array<Record<string, unknown> | null | undefined>): string[] {
+  const fields = new Set<string>()
+  for (const doc of docs) {
+    for (const key of Object.keys(doc || {})) {
+      if (!SYSTEM_FIELDS.has(key)) fields.add(key)
+    }
+  }
+  return [...fields]
+}
+
+/**
+ * Build a three-way conflict between the document before Claude's action,
+ * the document Claude's action produced and the current document
+ *
+ * @param claudeDoc - The document as Claude's action left it (null if unknown,
+ *   in which case every difference is treated as a later edit)
+ */
+export function buildUndoConflict(
+  original: Record<string, unknown>,
+  claudeDoc: Record<string, unknown> | null,
+  current: Record<string, unknown>,
+  expectedRevision?: string
+): UndoConflict {
+  const fields: UndoConflictField[] = getContentFields(original, claudeDoc, current)
+    .filter((field) => !isEqual(original[field], (claudeDoc || current)[field]))
+    .map((field) => ({
+      field,
+      original: original[field],
+      claude: claudeDoc?.[field],
+      current: current[field],
+      editedSince: !claudeDoc || !isEqual(current[field], claudeDoc[field]),
+    }))
+
+  return {
+    documentId: current._id as string,
+    expectedRevision,
+    currentRevision: current._rev as string | undefined,
+    fields,
+    canRevertFields: fields.some((field) => !field.editedSince),
+  }
+}
+
+/**
+ * Describe a conflict for messages and toasts
+ */
+export function describeUndoConflict(conflict: UndoConflict): string {
+  const edited = conflict.fields.filter((field) => field.editedSince).map((field) => field.field)
+  if (edited.length === 0) {
+    return 'The document was edited after Claude\'s action.'
+  }
+  return `The document was edited after Claude's action (${edited.join(', ')} changed since).`
+}
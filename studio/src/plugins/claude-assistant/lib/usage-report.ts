@@ -0,0 +1,213 @@
+/**
+ * Usage Report
+ *
+ * Rolls token usage from conversation messages and remote API requests up
+ * into totals per conversation, user, workflow or model, with estimated
+ * cost, and exports it as CSV.
+ */
+
+import {addUsage, EMPTY_USAGE, estimateCost, getTotalTokens} from 'claude-core'
+import type {ModelPrice, TokenUsage} from '../types'
+
+/**
+ * Ways the usage view can group records
+ */
+export type UsageGroupBy = 'conversation' | 'user' | 'workflow' | 'model'
+
+/**
+ * One Claude response's usage - an assistant message or a remote API request
+ */
+export interface UsageRecord {
+  timestamp: string
+  source: 'studio' | 'remote'
+  /** Conversation ID for Studio messages, usage document ID for remote requests */
+  conversationId: string
+  conversationTitle: string
+  /** Sanity user ID for Studio messages, hashed client ID for remote requests */
+  userId: string
+  workflowIds: string[]
+  model: string
+  usage: TokenUsage
+}
+
+/**
+ * Totals for one group of records
+ */
+export interface UsageGroup {
+  key: string
+  label: string
+  /** Number of Claude responses */
+  responses: number
+  usage: TokenUsage
+  /** Estimated cost in USD; null when none of the group's models has a price */
+  cost: number | null
+  /** Tokens from models without a configured price, left out of cost */
+  unpricedTokens: number
+}
+
+/**
+ * Display names for the IDs records are grouped by
+ */
+export interface UsageLabels {
+  users: Record<string, string>
+  workflows: Record<string, string>
+}
+
+const NO_WORKFLOW_KEY = '__none__'
+
+/**
+ * Estimated cost of one record, or null if its model has no price
+ */
+export function getRecordCost(record: UsageRecord, prices: ModelPrice[]): number | null {
+  return estimateCost(record.usage, record.model, prices)
+}
+
+/**
+ * Group keys for a record
+ * A conversation can apply several workflows, so its usage counts toward each of them
+ */
+function getGroupKeys(record: UsageRecord, groupBy: UsageGroupBy): string[] {
+  switch (groupBy) {
+    case 'conversation':
+      return [record.conversationId]
+    case 'user':
+      return [record.userId]
+    case 'workflow':
+      return record.workflowIds.length > 0 ? record.workflowIds : [NO_WORKFLOW_KEY]
+    case 'model':
+      return [record.model]
+  }
+}
+
+/**
+ * Display label for a group key
+ */
+function getGroupLabel(key: string, record: UsageRecord, groupBy: UsageGroupBy, labels: UsageLabels): string {
+  switch (groupBy) {
+    case 'conversation':
+      return record.conversationTitle
+    case 'user':
+      if (record.source === 'remote') {
+        return `Remote API (${key})`
+      }
+      return labels.users[key] || key
+    case 'workflow':
+      return key === NO_WORKFLOW_KEY ? 'No workflow' : labels.workflows[key] || key
+    case 'model':
+      return key
+  }
+}
+
+/**
+ * Roll records up into groups, most tokens first
+ */
+export function groupUsage(
+  records: UsageRecord[],
+  groupBy: UsageGroupBy,
+  labels: UsageLabels,
+  prices: ModelPrice[]
+): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>()
+
+  for (const record of records) {
+    const cost = getRecordCost(record, prices)
+
+    for (const key of getGroupKeys(record, groupBy)) {
+      const group = groups.get(key) ?? {
+        key,
+        label: getGroupLabel(key, record, groupBy, labels),
+        responses: 0,
+        usage: EMPTY_USAGE,
+        cost: null,
+        unpricedTokens: 0,
+      }
+
+      group.responses += 1
+      group.usage = addUsage(group.usage, record.usage)
+      if (cost === null) {
+        group.unpricedTokens += getTotalTokens(record.usage)
+      } else {
+        group.cost = (group.cost ?? 0) + cost
+      }
+      groups.set(key, group)
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => getTotalTokens(b.usage) - getTotalTokens(a.usage))
+}
+
+/**
+ * Totals across all records
+ */
+export function getUsageTotals(records: UsageRecord[], prices: ModelPrice[]): Omit<UsageGroup, 'key' | 'label'> {
+  return records.reduce<Omit<UsageGroup, 'key' | 'label'>>(
+    (totals, record) => {
+      const cost = getRecordCost(record, prices)
+      return {
+        responses: totals.responses + 1,
+        usage: addUsage(totals.usage, record.usage),
+        cost: cost === null ? totals.cost : (totals.cost ?? 0) + cost,
+        unpricedTokens: totals.unpricedTokens + (cost === null ? getTotalTokens(record.usage) : 0),
+      }
+    },
+    {responses: 0, usage: EMPTY_USAGE, cost: null, unpricedTokens: 0}
+  )
+}
+
+/**
+ * Format a cost in USD for display
+ */
+export function formatCost(cost: number | null): string {
+  if (cost === null) {
+    return '—'
+  }
+  return cost < 0.01 && cost > 0 ? '<$0.01' : `$${cost.toFixed(2)}`
+}
+
+/**
+ * Quote a CSV value when it contains a delimiter, quote or newline
+ * Text starting with a formula character gets a leading ' so spreadsheets
+ * show it as text instead of running it - titles and names are user input.
+ */
+function escapeCsv(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Export records as CSV, one row per Claude response
+ */
+export function usageToCsv(records: UsageRecord[], labels: UsageLabels, prices: ModelPrice[]): string {
+  const header = [
+    'Timestamp',
+    'Source',
+    'Conversation',
+    'User',
+    'Workflows',
+    'Model',
+    'Input Tokens',
+    'Output Tokens',
+    'Cache Write Tokens',
+    'Cache Read Tokens',
+    'Estimated Cost (USD)',
+  ]
+
+  const rows = records.map((record) => {
+    const cost = getRecordCost(record, prices)
+    return [
+      record.timestamp,
+      record.source,
+      record.conversationTitle,
+      getGroupLabel(record.userId, record, 'user', labels),
+      record.workflowIds.map((id) => labels.workflows[id] || id).join('; '),
+      record.model,
+      record.usage.inputTokens,
+      record.usage.outputTokens,
+      record.usage.cacheCreationInputTokens || 0,
+      record.usage.cacheReadInputTokens || 0,
+      cost === null ? '' : cost.toFixed(6),
+    ]
+  })
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\n')
+}
@@ -5,6 +5,52 @@
  */
 
 import type {SanityDocument, Schema, SchemaType} from 'sanity'
+import {DEFAULT_MODEL_PRICES, DEFAULT_SUMMARY_THRESHOLD_TOKENS} from 'claude-core'
+import type {
+  AccessControlSettings,
+  ActionResult,
+  ActionType,
+  AgentStopReason,
+  ConversationSummary,
+  ImageAttachment,
+  ModelPrice,
+  ParsedAction,
+  SchemaTypesContext,
+  TokenUsage,
+} from 'claude-core'
+
+export type {
+  AccessControlSettings,
+  AccessOperation,
+  ActionPayload,
+  ActionResult,
+  ActionStatus,
+  ActionType,
+  AgentStopReason,
+  AuditContext,
+  AuditEntry,
+  AuditSource,
+  BudgetStatus,
+  ConversationSummary,
+  FieldInfo,
+  ImageAttachment,
+  ModelPrice,
+  ParsedAction,
+  PatchOperation,
+  PatchOperationType,
+  PromptCategoryMatch,
+  PromptSection,
+  SchemaInfo,
+  SystemPromptExplanation,
+  TokenUsage,
+  ToolDefinition,
+  ToolUseBlock,
+  UndoConflict,
+  UndoConflictField,
+  WorkflowParameter,
+  WorkflowParameterValues,
+  WorkflowStep,
+} from 'claude-core'
 
 // ============================================================================
 // Message Types
@@ -50,34 +96,6 @@ export interface DocumentContext {
   slug?: string
 }
 
-/**
- * Represents an image attachment in a message
- */
-export interface ImageAttachment {
-  /** Unique identifier for this attachment */
-  id: string
-  /** Display name of the image (original filename) */
-  name: string
-  /** MIME type (image/jpeg, image/png, etc.) */
-  mimeType: string
-  /** Base64-encoded image data for sending to Claude */
-  base64?: string
-  /** URL for displaying the image (Sanity CDN URL or data URL) */
-  url: string
-  /** Sanity asset reference ID if from media library (e.g., "image-abc123-1920x1080-jpg") */
-  sanityAssetId?: string
-  /** Full Sanity asset reference for use in documents */
-  sanityAssetRef?: {
-    _type: 'reference'
-    _ref: string
-  }
-  /** Image dimensions if known */
-  width?: number
-  height?: number
-  /** Source of the image: 'upload' for user-uploaded, 'library' for Sanity media library */
-  source?: 'upload' | 'library'
-}
-
 export interface Message {
   id: string
   role: MessageRole
@@ -90,71 +108,37 @@ export interface Message {
   images?: ImageAttachment[]
   /** Hidden messages are sent to the API for context but not rendered in the chat UI */
   hidden?: boolean
+  /** Position of this response within an agent run (set when read-only actions were chained) */
+  agentStep?: AgentStep
 }
 
 export interface MessageMetadata {
   tokensUsed?: number
   model?: string
   processingTime?: number
+  /** Input, output and cache token counts reported by the API for this response */
+  usage?: TokenUsage
+}
+
+export interface AgentStep {
+  /** 1-based step number within the run */
+  step: number
+  maxSteps: number
+  /** Tokens used by the run so far, including this step */
+  tokensUsed: number
+  /** Set on the last step of a run */
+  stopReason?: AgentStopReason
 }
 
 // ============================================================================
 // Action Types
 // ============================================================================
 
-export type ActionType =
-  | 'create'
-  | 'update'
-  | 'delete'
-  | 'query'
-  | 'navigate'
-  | 'explain'
-  | 'uploadImage'
-  | 'fetchFigmaFrame'
-  | 'uploadFigmaImage'
-  | 'createPinboard'
-
-export type ActionStatus = 'pending' | 'executing' | 'completed' | 'failed' | 'cancelled'
-
-export interface ParsedAction {
-  id: string
-  type: ActionType
-  description: string
-  status: ActionStatus
-  payload: ActionPayload
-  result?: ActionResult
-  error?: string
-}
+// Action, payload and result types are shared with the remote API through claude-core
 
-export interface ActionPayload {
-  documentType?: string
-  documentId?: string
-  fields?: Record<string, unknown>
-  query?: string
-  path?: string
-  explanation?: string
-  /** For uploadImage action: the image attachment to upload */
-  imageAttachment?: ImageAttachment
-  /** For uploadImage action: optional filename override */
-  filename?: string
-  // Figma integration fields
-  /** Figma URL for fetchFigmaFrame action */
-  figmaUrl?: string
-  /** Figma node ID for uploadFigmaImage action */
-  figmaNodeId?: string
-  /** Figma file key (extracted from URL or provided) */
-  figmaFileKey?: string
-  /** For createPinboard action: page document IDs to include */
-  pageIds?: string[]
-}
-
-export interface ActionResult {
-  success: boolean
-  data?: unknown
-  message?: string
-  documentId?: string
-  /** Pre-execution state of the document (for undo functionality) */
-  preState?: unknown
+export interface UndoOptions {
+  /** Revert only these top-level fields, leaving later edits elsewhere in place */
+  fields?: string[]
 }
 
 // ============================================================================
@@ -170,6 +154,19 @@ export interface Conversation {
   context?: ConversationContext
   /** IDs of workflows applied to this conversation */
   workflowIds?: string[]
+  /** Summary sent to Claude in place of the earlier messages */
+  summary?: ConversationSummary
+  /** Current step of the multi-step workflow applied to this conversation */
+  pipelineProgress?: PipelineProgress
+}
+
+/**
+ * Progress through a multi-step workflow
+ */
+export interface PipelineProgress {
+  workflowId: string
+  /** Index of the current step; equal to the number of steps once all are done */
+  stepIndex: number
 }
 
 export interface ConversationContext {
@@ -182,28 +179,7 @@ export interface ConversationContext {
 // Schema Context Types
 // ============================================================================
 
-export interface SchemaInfo {
-  name: string
-  title: string
-  type: string
-  fields: FieldInfo[]
-  description?: string
-}
-
-export interface FieldInfo {
-  name: string
-  title: string
-  type: string
-  required: boolean
-  description?: string
-  options?: Record<string, unknown>
-  of?: FieldInfo[]
-  to?: Array<{type: string}>
-}
-
-export interface SchemaContext {
-  documentTypes: SchemaInfo[]
-  objectTypes: SchemaInfo[]
+export interface SchemaContext extends SchemaTypesContext {
   timestamp: Date
 }
 
@@ -231,10 +207,20 @@ export interface ClaudeResponse {
   content: string
   model: string
   stopReason: string
-  usage: {
-    inputTokens: number
-    outputTokens: number
-  }
+  usage: TokenUsage
+}
+
+/**
+ * Content block in a Claude API message
+ */
+export type ApiContentBlock = {type: string; [key: string]: unknown}
+
+/**
+ * Message in the format sent to the Claude API
+ */
+export interface ApiMessage {
+  role: 'user' | 'assistant'
+  content: string | ApiContentBlock[]
 }
 
 export interface ClaudeStreamChunk {
@@ -276,6 +262,8 @@ export interface SystemPromptContext {
   sectionTemplates?: unknown[]
   /** Whether Figma integration is enabled for the active skill */
   enableFigmaFetch?: boolean
+  /** Access restrictions from the claudeAccessControl singleton */
+  accessControl?: AccessControlSettings | null
 }
 
 // ============================================================================
@@ -287,12 +275,27 @@ export interface QuickAction {
   label: string
   description: string
   icon: string
+  /** May contain placeholders such as {{document.title}}, filled from the context */
   prompt: string
   category: QuickActionCategory
+  /** Only offer the action for these document types; empty offers it everywhere */
+  documentTypes?: string[]
+  /** Only offer the action while a block of these types is selected */
+  blockTypes?: string[]
 }
 
 export type QuickActionCategory = 'content' | 'query' | 'help' | 'navigation'
 
+/**
+ * What the user is looking at, for filtering quick actions and filling their placeholders
+ */
+export interface QuickActionContext {
+  /** The open document */
+  document?: DocumentContext | null
+  /** The block selected in the Presentation preview */
+  block?: BlockContext | null
+}
+
 // ============================================================================
 // Settings Types
 // ============================================================================
@@ -303,6 +306,14 @@ export interface PluginSettings {
   temperature: number
   customInstructions: string
   enableStreaming: boolean
+  /** Maximum responses in one agent run (read-only actions chained without approval) */
+  agentMaxSteps: number
+  /** Token budget for one agent run, across all of its steps */
+  agentTokenBudget: number
+  /** Estimated history tokens past which older messages are summarized */
+  summaryThresholdTokens: number
+  /** Per-model prices used to estimate the cost of token usage */
+  modelPrices: ModelPrice[]
 }
 
 export const DEFAULT_SETTINGS: PluginSettings = {
@@ -311,6 +322,10 @@ export const DEFAULT_SETTINGS: PluginSettings = {
   temperature: 0.7,
   customInstructions: '',
   enableStreaming: true,
+  agentMaxSteps: 5,
+  agentTokenBudget: 100000,
+  summaryThresholdTokens: DEFAULT_SUMMARY_THRESHOLD_TOKENS,
+  modelPrices: DEFAULT_MODEL_PRICES,
 }
 
 // ============================================================================
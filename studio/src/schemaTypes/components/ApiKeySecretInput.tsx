@@ -0,0 +1,110 @@
+import React, {useCallback, useState} from 'react'
+import {CopyIcon, RefreshIcon} from '@sanity/icons'
+import {Button, Card, Code, Flex, Stack, Text} from '@sanity/ui'
+import {set, type ObjectInputProps} from 'sanity'
+
+/**
+ * Stored part of a remote API key: only its SHA-256 hash and a prefix to recognize it by
+ */
+interface ApiKeySecret {
+  hash?: string
+  prefix?: string
+  createdAt?: string
+}
+
+const KEY_PREFIX = 'csk_'
+const KEY_BYTES = 32
+const VISIBLE_PREFIX_LENGTH = 12
+
+/**
+ * Generate a random API key: "csk_" followed by 32 random bytes, base64url-encoded
+ */
+function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(KEY_BYTES))
+  const base64 = btoa(String.fromCharCode(...bytes))
+  return `${KEY_PREFIX}${base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`
+}
+
+/**
+ * Hex-encoded SHA-256 hash of a key, as the remote API computes it
+ */
+async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key))
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Custom input for a remote API key's secret.
+ * Generates the key in the browser and stores only its hash; the key itself
+ * is shown once, until the form is closed.
+ */
+export function ApiKeySecretInput(props: ObjectInputProps) {
+  const value = props.value as ApiKeySecret | undefined
+  const [generatedKey, setGeneratedKey] = useState<string | null>(null)
+  const [isCopied, setIsCopied] = useState(false)
+
+  const handleGenerate = useCallback(async () => {
+    const key = generateApiKey()
+    const hash = await hashApiKey(key)
+    props.onChange(
+      set({
+        hash,
+        prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+        createdAt: new Date().toISOString(),
+      })
+    )
+    setGeneratedKey(key)
+    setIsCopied(false)
+  }, [props])
+
+  const handleCopy = useCallback(async () => {
+    if (!generatedKey) return
+    await navigator.clipboard.writeText(generatedKey)
+    setIsCopied(true)
+  }, [generatedKey])
+
+  return (
+    <Stack space={3}>
+      {generatedKey ? (
+        <Card padding={3} radius={2} tone="caution" border>
+          <Stack space={3}>
+            <Text size={1} weight="medium">
+              Copy this key now. Only its hash is stored, so it cannot be shown again.
+            </Text>
+            <Card padding={2} radius={2} tone="default" style={{overflowX: 'auto'}}>
+              <Code size={1}>{generatedKey}</Code>
+            </Card>
+            <Flex>
+              <Button
+                icon={CopyIcon}
+                text={isCopied ? 'Copied' : 'Copy key'}
+                mode="ghost"
+                fontSize={1}
+                padding={2}
+                onClick={handleCopy}
+              />
+            </Flex>
+          </Stack>
+        </Card>
+      ) : (
+        <Text size={1} muted>
+          {value?.prefix ? `Current key: ${value.prefix}…` : 'No key generated yet.'}
+        </Text>
+      )}
+      <Flex>
+        <Button
+          icon={RefreshIcon}
+          text={value?.hash ? 'Replace key' : 'Generate key'}
+          tone={value?.hash ? 'critical' : 'primary'}
+          mode={value?.hash ? 'ghost' : 'default'}
+          fontSize={1}
+          padding={2}
+          onClick={handleGenerate}
+          disabled={props.readOnly}
+        />
+      </Flex>
+    </Stack>
+  )
+}
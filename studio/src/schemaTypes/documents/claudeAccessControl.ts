@@ -0,0 +1,102 @@
+import {LockIcon} from '@sanity/icons'
+import {defineArrayMember, defineField, defineType} from 'sanity'
+
+/**
+ * Claude Access Control schema (Singleton).
+ * Limits which document types, operations and fields the Claude assistant may touch.
+ * Enforced by both the Studio tool and the remote API before any mutation runs.
+ * Only published versions are used by the Claude tool.
+ */
+
+/**
+ * Document types Claude can be granted access to
+ */
+export const DOCUMENT_TYPE_OPTIONS = [
+  {title: 'Pages', value: 'page'},
+  {title: 'Blog Posts', value: 'post'},
+  {title: 'People', value: 'person'},
+  {title: 'Categories', value: 'category'},
+  {title: 'Section Templates', value: 'sectionTemplate'},
+  {title: 'Content Variables', value: 'contentVariable'},
+  {title: 'Pinboards', value: 'pinboard'},
+  {title: 'Navigation', value: 'navigation'},
+  {title: 'Footer', value: 'footer'},
+  {title: 'Site Settings', value: 'settings'},
+]
+
+/**
+ * Operations Claude can be granted
+ */
+const OPERATION_OPTIONS = [
+  {title: 'Create', value: 'create'},
+  {title: 'Update', value: 'update'},
+  {title: 'Delete', value: 'delete'},
+  {title: 'Publish & Schedule', value: 'publish'},
+  {title: 'Query', value: 'query'},
+  {title: 'Upload Images', value: 'uploadImage'},
+]
+
+export const claudeAccessControl = defineType({
+  name: 'claudeAccessControl',
+  title: 'Access Control',
+  type: 'document',
+  icon: LockIcon,
+  fields: [
+    defineField({
+      name: 'allowedDocumentTypes',
+      title: 'Allowed Document Types',
+      type: 'array',
+      description: 'Document types Claude may create, edit or delete. Leave empty to allow all types.',
+      of: [defineArrayMember({type: 'string'})],
+      options: {
+        list: DOCUMENT_TYPE_OPTIONS,
+        layout: 'grid',
+      },
+    }),
+    defineField({
+      name: 'allowedOperations',
+      title: 'Allowed Operations',
+      type: 'array',
+      description: 'Operations Claude may perform. Leave empty to allow all operations.',
+      of: [defineArrayMember({type: 'string'})],
+      options: {
+        list: OPERATION_OPTIONS,
+        layout: 'grid',
+      },
+    }),
+    defineField({
+      name: 'blockedFields',
+      title: 'Blocked Fields',
+      type: 'array',
+      description:
+        'Field names or paths Claude must never write to (e.g. "slug" or "seo.title"). Applies to every document type.',
+      of: [defineArrayMember({type: 'string'})],
+      options: {
+        layout: 'tags',
+      },
+    }),
+    defineField({
+      name: 'draftsOnly',
+      title: 'Drafts Only (Never Publish)',
+      type: 'boolean',
+      description:
+        'When enabled, Claude only writes to drafts. New documents are created as drafts, published documents cannot be deleted, and publishing is blocked.',
+      initialValue: true,
+    }),
+  ],
+  preview: {
+    select: {
+      allowedDocumentTypes: 'allowedDocumentTypes',
+      draftsOnly: 'draftsOnly',
+    },
+    prepare({allowedDocumentTypes, draftsOnly}) {
+      const types = allowedDocumentTypes as string[] | undefined
+      const scope = types?.length ? `${types.length} document type(s)` : 'All document types'
+      return {
+        title: 'Access Control',
+        subtitle: draftsOnly ? `${scope} · drafts only` : scope,
+        media: LockIcon,
+      }
+    },
+  },
+})
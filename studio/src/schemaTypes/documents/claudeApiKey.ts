@@ -0,0 +1,150 @@
+import {PlugIcon} from '@sanity/icons'
+import {defineArrayMember, defineField, defineType} from 'sanity'
+import {ApiKeySecretInput} from '../components/ApiKeySecretInput'
+import {DOCUMENT_TYPE_OPTIONS} from './claudeAccessControl'
+
+/**
+ * Claude API Key schema.
+ * A named key for the remote Claude API (/api/claude/remote) with its own
+ * scopes, rate limit and expiry. Only the key's hash is stored.
+ * Only published keys are accepted, so changes apply once published.
+ */
+
+/**
+ * Action types the remote API can run
+ */
+const ACTION_TYPE_OPTIONS = [
+  {title: 'Create', value: 'create'},
+  {title: 'Update', value: 'update'},
+  {title: 'Patch', value: 'patch'},
+  {title: 'Delete', value: 'delete'},
+  {title: 'Publish', value: 'publish'},
+  {title: 'Unpublish', value: 'unpublish'},
+  {title: 'Discard Draft', value: 'discardDraft'},
+  {title: 'Schedule Publish', value: 'schedulePublish'},
+  {title: 'Query', value: 'query'},
+  {title: 'Navigate', value: 'navigate'},
+  {title: 'Explain', value: 'explain'},
+]
+
+export const claudeApiKey = defineType({
+  name: 'claudeApiKey',
+  title: 'API Key',
+  type: 'document',
+  icon: PlugIcon,
+  fields: [
+    defineField({
+      name: 'name',
+      title: 'Name',
+      type: 'string',
+      description: 'Which integration uses this key, e.g. "Slack bot". Shown in request logs.',
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: 'description',
+      title: 'Description',
+      type: 'text',
+      rows: 2,
+    }),
+    defineField({
+      name: 'secret',
+      title: 'Key',
+      type: 'object',
+      description: 'Send the key as "Authorization: Bearer <key>". Replacing it stops the old key once published.',
+      components: {
+        input: ApiKeySecretInput,
+      },
+      fields: [
+        defineField({name: 'hash', title: 'SHA-256 Hash', type: 'string'}),
+        defineField({name: 'prefix', title: 'Prefix', type: 'string'}),
+        defineField({name: 'createdAt', title: 'Created At', type: 'datetime'}),
+      ],
+      validation: (Rule) =>
+        Rule.custom((value: {hash?: string} | undefined) => (value?.hash ? true : 'Generate a key')),
+    }),
+    defineField({
+      name: 'access',
+      title: 'Access',
+      type: 'string',
+      description: 'What requests with this key may do',
+      options: {
+        list: [
+          {title: 'Full: run any allowed action', value: 'full'},
+          {title: 'Dry run only: plan actions without running writes', value: 'dryRunOnly'},
+          {title: 'Read only: run queries, never write', value: 'readOnly'},
+        ],
+        layout: 'radio',
+      },
+      initialValue: 'dryRunOnly',
+      validation: (Rule) => Rule.required(),
+    }),
+    defineField({
+      name: 'allowedWorkflows',
+      title: 'Allowed Workflows',
+      type: 'array',
+      description: 'When set, every request must use one of these workflows. Leave empty to allow any workflow, or none.',
+      of: [defineArrayMember({type: 'reference', to: [{type: 'claudeWorkflow'}]})],
+    }),
+    defineField({
+      name: 'allowedDocumentTypes',
+      title: 'Allowed Document Types',
+      type: 'array',
+      description:
+        'Document types this key may touch. Leave empty to allow all types. The Access Control settings apply as well.',
+      of: [defineArrayMember({type: 'string'})],
+      options: {
+        list: DOCUMENT_TYPE_OPTIONS,
+        layout: 'grid',
+      },
+    }),
+    defineField({
+      name: 'allowedActions',
+      title: 'Allowed Actions',
+      type: 'array',
+      description: 'Action types this key may run. Leave empty to allow all actions.',
+      of: [defineArrayMember({type: 'string'})],
+      options: {
+        list: ACTION_TYPE_OPTIONS,
+        layout: 'grid',
+      },
+    }),
+    defineField({
+      name: 'rateLimit',
+      title: 'Rate Limit',
+      type: 'number',
+      description: 'Requests per minute. Leave empty to use the server default (CLAUDE_REMOTE_RATE_LIMIT, 30).',
+      validation: (Rule) => Rule.min(1).integer(),
+    }),
+    defineField({
+      name: 'expiresAt',
+      title: 'Expires At',
+      type: 'datetime',
+      description: 'Requests are refused after this time. Leave empty for a key that does not expire.',
+    }),
+    defineField({
+      name: 'revoked',
+      title: 'Revoked',
+      type: 'boolean',
+      description: 'Refuse every request with this key. Takes effect once published.',
+      initialValue: false,
+    }),
+  ],
+  preview: {
+    select: {
+      name: 'name',
+      prefix: 'secret.prefix',
+      access: 'access',
+      revoked: 'revoked',
+      expiresAt: 'expiresAt',
+    },
+    prepare({name, prefix, access, revoked, expiresAt}) {
+      const expired = expiresAt && new Date(expiresAt) < new Date()
+      const state = revoked ? 'Revoked' : expired ? 'Expired' : access
+      return {
+        title: name || 'Untitled key',
+        subtitle: [prefix ? `${prefix}…` : null, state].filter(Boolean).join(' · '),
+        media: PlugIcon,
+      }
+    },
+  },
+})
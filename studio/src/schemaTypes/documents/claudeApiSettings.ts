@@ -1,5 +1,6 @@
 import {CogIcon} from '@sanity/icons'
-import {defineField, defineType} from 'sanity'
+import {DEFAULT_MODEL_PRICES, DEFAULT_SUMMARY_THRESHOLD_TOKENS, DEFAULT_WARNING_THRESHOLDS} from 'claude-core'
+import {defineArrayMember, defineField, defineType} from 'sanity'
 
 /**
  * Claude API Settings schema (Singleton).
@@ -15,14 +16,50 @@ const AVAILABLE_MODELS = [
   {title: 'Claude Sonnet 4 (Recommended)', value: 'claude-sonnet-4-20250514'},
 ]
 
+/**
+ * Token and cost limits shared by the global, role, user and override budgets
+ */
+const budgetLimitFields = [
+  defineField({
+    name: 'tokenLimit',
+    title: 'Monthly Token Limit',
+    type: 'number',
+    description: 'Input, output and cache tokens per calendar month (UTC). Leave empty for no token limit.',
+    validation: (rule) => rule.min(0).integer(),
+  }),
+  defineField({
+    name: 'costLimit',
+    title: 'Monthly Cost Limit (USD)',
+    type: 'number',
+    description: 'Estimated from Model Prices. Leave empty for no cost limit.',
+    validation: (rule) => rule.min(0),
+  }),
+]
+
+/**
+ * Subtitle for a budget in array previews
+ */
+function describeLimit(tokenLimit?: number, costLimit?: number): string {
+  const parts = [
+    typeof tokenLimit === 'number' ? `${tokenLimit.toLocaleString()} tokens` : null,
+    typeof costLimit === 'number' ? `$${costLimit}` : null,
+  ].filter(Boolean)
+  return parts.length > 0 ? `${parts.join(' / ')} per month` : 'No limit'
+}
+
 export const claudeApiSettings = defineType({
   name: 'claudeApiSettings',
   title: 'API Settings',
   type: 'document',
   icon: CogIcon,
+  groups: [
+    {name: 'model', title: 'Model', default: true},
+    {name: 'usage', title: 'Usage & Budgets'},
+  ],
   fields: [
     defineField({
       name: 'model',
+      group: 'model',
       title: 'Model',
       type: 'string',
       description: 'Select the Claude model to use. Sonnet is recommended for most tasks.',
@@ -35,6 +72,7 @@ export const claudeApiSettings = defineType({
     }),
     defineField({
       name: 'maxTokens',
+      group: 'model',
       title: 'Max Output Tokens',
       type: 'number',
       description: 'Maximum number of tokens in Claude\'s response (100-8192).',
@@ -43,6 +81,7 @@ export const claudeApiSettings = defineType({
     }),
     defineField({
       name: 'temperature',
+      group: 'model',
       title: 'Temperature',
       type: 'number',
       description: 'Lower values (0.0) make responses more focused, higher values (1.0) more creative.',
@@ -57,11 +96,245 @@ export const claudeApiSettings = defineType({
     }),
     defineField({
       name: 'enableStreaming',
+      group: 'model',
       title: 'Enable Streaming',
       type: 'boolean',
       description: 'Show responses as they are generated instead of waiting for the complete response.',
       initialValue: true,
     }),
+    defineField({
+      name: 'agentMaxSteps',
+      group: 'model',
+      title: 'Agent Max Steps',
+      type: 'number',
+      description:
+        'Read-only actions (query, Figma fetch, explain) run automatically and their results are sent back to Claude. This caps how many responses one request can chain (1-20).',
+      initialValue: 5,
+      validation: (rule) => rule.min(1).max(20).integer(),
+    }),
+    defineField({
+      name: 'agentTokenBudget',
+      group: 'model',
+      title: 'Agent Token Budget',
+      type: 'number',
+      description:
+        'Stop chaining read-only actions once a request has used this many tokens across all of its steps.',
+      initialValue: 100000,
+      validation: (rule) => rule.min(1000),
+    }),
+    defineField({
+      name: 'summaryThresholdTokens',
+      group: 'model',
+      title: 'Summary Threshold',
+      type: 'number',
+      description:
+        'Once a conversation’s history passes this many tokens (estimated), older messages are replaced by a summary that keeps document IDs, _keys, decisions and pending tasks.',
+      initialValue: DEFAULT_SUMMARY_THRESHOLD_TOKENS,
+      validation: (rule) => rule.min(10000).integer(),
+    }),
+    defineField({
+      name: 'modelPrices',
+      title: 'Model Prices',
+      type: 'array',
+      group: 'usage',
+      description:
+        'Prices in USD per million tokens, used to estimate cost in the usage view. A model name also matches longer model IDs that start with it.',
+      of: [
+        defineArrayMember({
+          name: 'modelPrice',
+          title: 'Model Price',
+          type: 'object',
+          fields: [
+            defineField({
+              name: 'model',
+              title: 'Model',
+              type: 'string',
+              validation: (rule) => rule.required(),
+            }),
+            defineField({
+              name: 'inputPrice',
+              title: 'Input',
+              type: 'number',
+              validation: (rule) => rule.required().min(0),
+            }),
+            defineField({
+              name: 'outputPrice',
+              title: 'Output',
+              type: 'number',
+              validation: (rule) => rule.required().min(0),
+            }),
+            defineField({
+              name: 'cacheWritePrice',
+              title: 'Cache Write',
+              type: 'number',
+              description: 'Defaults to 1.25x the input price.',
+              validation: (rule) => rule.min(0),
+            }),
+            defineField({
+              name: 'cacheReadPrice',
+              title: 'Cache Read',
+              type: 'number',
+              description: 'Defaults to 0.1x the input price.',
+              validation: (rule) => rule.min(0),
+            }),
+          ],
+          preview: {
+            select: {
+              model: 'model',
+              inputPrice: 'inputPrice',
+              outputPrice: 'outputPrice',
+            },
+            prepare({model, inputPrice, outputPrice}) {
+              return {
+                title: model,
+                subtitle: `$${inputPrice ?? '?'} in / $${outputPrice ?? '?'} out per million tokens`,
+              }
+            },
+          },
+        }),
+      ],
+      initialValue: DEFAULT_MODEL_PRICES.map((price) => ({
+        _key: price.model,
+        _type: 'modelPrice',
+        ...price,
+      })),
+    }),
+    defineField({
+      name: 'monthlyBudget',
+      title: 'Global Monthly Budget',
+      type: 'object',
+      group: 'usage',
+      description:
+        'Caps all Claude usage - Studio users and remote API clients together. Requests are refused once it is reached.',
+      fields: budgetLimitFields,
+    }),
+    defineField({
+      name: 'roleBudgets',
+      title: 'Role Budgets',
+      type: 'array',
+      group: 'usage',
+      description:
+        'The monthly cap for each user with a role. Users with several roles get the most generous one.',
+      of: [
+        defineArrayMember({
+          name: 'roleBudget',
+          title: 'Role Budget',
+          type: 'object',
+          fields: [
+            defineField({
+              name: 'role',
+              title: 'Role',
+              type: 'string',
+              description: 'Role name, e.g. "editor" or "administrator"',
+              validation: (rule) => rule.required(),
+            }),
+            ...budgetLimitFields,
+          ],
+          preview: {
+            select: {role: 'role', tokenLimit: 'tokenLimit', costLimit: 'costLimit'},
+            prepare({role, tokenLimit, costLimit}) {
+              return {title: role, subtitle: describeLimit(tokenLimit, costLimit)}
+            },
+          },
+        }),
+      ],
+    }),
+    defineField({
+      name: 'userBudgets',
+      title: 'User Budgets',
+      type: 'array',
+      group: 'usage',
+      description: 'The monthly cap for one user, replacing their role budget.',
+      of: [
+        defineArrayMember({
+          name: 'userBudget',
+          title: 'User Budget',
+          type: 'object',
+          fields: [
+            defineField({
+              name: 'userId',
+              title: 'User ID',
+              type: 'string',
+              description: 'Sanity user ID (shown under Members in sanity.io/manage)',
+              validation: (rule) => rule.required(),
+            }),
+            defineField({
+              name: 'note',
+              title: 'Note',
+              type: 'string',
+              description: 'Who this is, for other admins',
+            }),
+            ...budgetLimitFields,
+          ],
+          preview: {
+            select: {userId: 'userId', note: 'note', tokenLimit: 'tokenLimit', costLimit: 'costLimit'},
+            prepare({userId, note, tokenLimit, costLimit}) {
+              return {title: note || userId, subtitle: describeLimit(tokenLimit, costLimit)}
+            },
+          },
+        }),
+      ],
+    }),
+    defineField({
+      name: 'budgetOverrides',
+      title: 'Temporary Overrides',
+      type: 'array',
+      group: 'usage',
+      description:
+        "Temporarily replace one user's cap, e.g. to raise it for a launch. The user's normal budget applies again once the override expires.",
+      of: [
+        defineArrayMember({
+          name: 'budgetOverride',
+          title: 'Override',
+          type: 'object',
+          fields: [
+            defineField({
+              name: 'userId',
+              title: 'User ID',
+              type: 'string',
+              validation: (rule) => rule.required(),
+            }),
+            defineField({
+              name: 'expiresAt',
+              title: 'Expires At',
+              type: 'datetime',
+              validation: (rule) => rule.required(),
+            }),
+            defineField({
+              name: 'reason',
+              title: 'Reason',
+              type: 'string',
+            }),
+            ...budgetLimitFields,
+          ],
+          preview: {
+            select: {
+              userId: 'userId',
+              reason: 'reason',
+              expiresAt: 'expiresAt',
+              tokenLimit: 'tokenLimit',
+              costLimit: 'costLimit',
+            },
+            prepare({userId, reason, expiresAt, tokenLimit, costLimit}) {
+              const expired = expiresAt && Date.parse(expiresAt) <= Date.now()
+              return {
+                title: `${expired ? '[Expired] ' : ''}${reason || userId}`,
+                subtitle: `${describeLimit(tokenLimit, costLimit)} until ${expiresAt ? new Date(expiresAt).toLocaleString() : '?'}`,
+              }
+            },
+          },
+        }),
+      ],
+    }),
+    defineField({
+      name: 'warningThresholds',
+      title: 'Warning Thresholds (%)',
+      type: 'array',
+      group: 'usage',
+      description: 'Warn users when they pass these percentages of a budget.',
+      of: [defineArrayMember({type: 'number', validation: (rule) => rule.min(1).max(99)})],
+      initialValue: DEFAULT_WARNING_THRESHOLDS,
+    }),
   ],
   preview: {
     select: {
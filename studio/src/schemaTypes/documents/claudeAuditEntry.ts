@@ -0,0 +1,127 @@
+import {DocumentTextIcon} from '@sanity/icons'
+import {defineField, defineType} from 'sanity'
+import {format, parseISO} from 'date-fns'
+
+const SOURCE_TITLES: Record<string, string> = {
+  studio: 'Claude tool',
+  floatingChat: 'Floating chat',
+  remote: 'Remote API',
+  mcp: 'MCP server',
+}
+
+/**
+ * Claude Audit Entry schema.
+ * One document per content change Claude made, written by the shared
+ * executor for the Studio plugin, the remote API and the MCP server. Entries
+ * are append-only: they are never edited, and have no document actions in
+ * the Studio.
+ */
+export const claudeAuditEntry = defineType({
+  name: 'claudeAuditEntry',
+  title: 'Audit Entry',
+  type: 'document',
+  icon: DocumentTextIcon,
+  readOnly: true,
+  fields: [
+    defineField({name: 'timestamp', title: 'Timestamp', type: 'datetime'}),
+    defineField({
+      name: 'source',
+      title: 'Source',
+      type: 'string',
+      options: {
+        list: Object.entries(SOURCE_TITLES).map(([value, title]) => ({title, value})),
+      },
+    }),
+    defineField({name: 'userId', title: 'User ID', type: 'string'}),
+    defineField({name: 'userName', title: 'User', type: 'string'}),
+    defineField({
+      name: 'apiKeyId',
+      title: 'API Key ID',
+      type: 'string',
+      description: 'claudeApiKey document ID, or "env" for CLAUDE_REMOTE_API_SECRET',
+    }),
+    defineField({name: 'apiKeyName', title: 'API Key', type: 'string'}),
+    defineField({
+      name: 'clientId',
+      title: 'Client ID',
+      type: 'string',
+      description: 'Hashed identifier of the API client',
+    }),
+    defineField({
+      name: 'conversation',
+      title: 'Conversation',
+      type: 'reference',
+      to: [{type: 'claudeConversation'}],
+      weak: true,
+    }),
+    defineField({name: 'actionType', title: 'Action', type: 'string'}),
+    defineField({name: 'description', title: 'Description', type: 'text', rows: 2}),
+    defineField({name: 'documentId', title: 'Document ID', type: 'string'}),
+    defineField({name: 'documentType', title: 'Document Type', type: 'string'}),
+    defineField({
+      name: 'payloadJson',
+      title: 'Payload',
+      type: 'text',
+      rows: 8,
+      description: 'The action as Claude requested it, as JSON',
+    }),
+    defineField({name: 'success', title: 'Succeeded', type: 'boolean'}),
+    defineField({name: 'message', title: 'Outcome', type: 'text', rows: 2}),
+    defineField({
+      name: 'revisionBefore',
+      title: 'Revision Before',
+      type: 'string',
+      description: 'Document revision the action started from',
+    }),
+    defineField({
+      name: 'revisionAfter',
+      title: 'Revision After',
+      type: 'string',
+      description: 'Document revision the action produced',
+    }),
+    defineField({
+      name: 'batchId',
+      title: 'Batch ID',
+      type: 'string',
+      description: 'Shared by actions applied together as one batch',
+    }),
+    defineField({
+      name: 'undo',
+      title: 'Undo',
+      type: 'boolean',
+      description: 'This entry records an undo of an earlier action',
+    }),
+  ],
+  orderings: [
+    {
+      title: 'Newest first',
+      name: 'timestampDesc',
+      by: [{field: 'timestamp', direction: 'desc'}],
+    },
+  ],
+  preview: {
+    select: {
+      actionType: 'actionType',
+      description: 'description',
+      success: 'success',
+      undo: 'undo',
+      timestamp: 'timestamp',
+      source: 'source',
+      userName: 'userName',
+      apiKeyName: 'apiKeyName',
+    },
+    prepare({actionType, description, success, undo, timestamp, source, userName, apiKeyName}) {
+      return {
+        title: `${undo ? 'Undo ' : ''}${actionType || 'action'}${success === false ? ' (failed)' : ''}: ${description || ''}`,
+        subtitle: [
+          timestamp ? format(parseISO(timestamp), 'MMM d, yyyy h:mm a') : null,
+          userName || apiKeyName,
+          SOURCE_TITLES[source] || source,
+        ]
+          .filter(Boolean)
+          .join(' · '),
+        media: DocumentTextIcon,
+      }
+    },
+  },
+})
@@ -7,6 +7,15 @@ import {format, parseISO} from 'date-fns'
  * Stores chat conversations between users and the Claude assistant.
  */
 
+// Token usage of one Claude call, for usage and cost reporting
+const usageFields = [
+  defineField({name: 'model', title: 'Model', type: 'string'}),
+  defineField({name: 'inputTokens', title: 'Input Tokens', type: 'number'}),
+  defineField({name: 'outputTokens', title: 'Output Tokens', type: 'number'}),
+  defineField({name: 'cacheCreationInputTokens', title: 'Cache Write Tokens', type: 'number'}),
+  defineField({name: 'cacheReadInputTokens', title: 'Cache Read Tokens', type: 'number'}),
+]
+
 // Action object for tracking document operations
 const actionObject = defineArrayMember({
   name: 'action',
@@ -21,7 +30,12 @@ const actionObject = defineArrayMember({
         list: [
           {title: 'Create', value: 'create'},
           {title: 'Update', value: 'update'},
+          {title: 'Patch', value: 'patch'},
           {title: 'Delete', value: 'delete'},
+          {title: 'Publish', value: 'publish'},
+          {title: 'Unpublish', value: 'unpublish'},
+          {title: 'Discard Draft', value: 'discardDraft'},
+          {title: 'Schedule Publish', value: 'schedulePublish'},
           {title: 'Query', value: 'query'},
           {title: 'Navigate', value: 'navigate'},
           {title: 'Explain', value: 'explain'},
@@ -48,6 +62,12 @@ const actionObject = defineArrayMember({
       title: 'Document Type',
       type: 'string',
     }),
+    defineField({
+      name: 'resultDocumentId',
+      title: 'Result Document ID',
+      type: 'string',
+      description: 'Document the action produced, such as the ID of a created document',
+    }),
     defineField({
       name: 'status',
       title: 'Status',
@@ -83,6 +103,13 @@ const actionObject = defineArrayMember({
       description: 'Full action result as JSON',
       hidden: true,
     }),
+    defineField({
+      name: 'toolUseId',
+      title: 'Tool Use ID',
+      type: 'string',
+      description: 'ID of the tool_use block this action came from',
+      hidden: true,
+    }),
   ],
   preview: {
     select: {
@@ -137,6 +164,32 @@ const messageObject = defineArrayMember({
       description: 'Hidden messages are API context only, not shown in chat UI',
       hidden: true,
     }),
+    defineField({
+      name: 'agentStep',
+      title: 'Agent Step',
+      type: 'object',
+      description: 'Position of this response within an agent run',
+      hidden: true,
+      fields: [
+        defineField({name: 'step', title: 'Step', type: 'number'}),
+        defineField({name: 'maxSteps', title: 'Max Steps', type: 'number'}),
+        defineField({name: 'tokensUsed', title: 'Tokens Used', type: 'number'}),
+        defineField({
+          name: 'stopReason',
+          title: 'Stop Reason',
+          type: 'string',
+          options: {list: ['complete', 'approval', 'maxSteps', 'tokenBudget']},
+        }),
+      ],
+    }),
+    defineField({
+      name: 'usage',
+      title: 'Usage',
+      type: 'object',
+      description: 'Tokens used by this response, for usage and cost reporting',
+      hidden: true,
+      fields: usageFields,
+    }),
     defineField({
       name: 'actions',
       title: 'Actions',
@@ -211,6 +264,75 @@ export const claudeConversation = defineType({
       of: [{type: 'string'}],
       hidden: true,
     }),
+    defineField({
+      name: 'pipelineProgress',
+      title: 'Workflow Progress',
+      type: 'object',
+      description: 'Current step of the multi-step workflow applied to this conversation',
+      fields: [
+        defineField({name: 'workflowId', title: 'Workflow ID', type: 'string'}),
+        defineField({name: 'stepIndex', title: 'Step Index', type: 'number'}),
+      ],
+      hidden: true,
+    }),
+    defineField({
+      name: 'summary',
+      title: 'Summary',
+      type: 'object',
+      description: 'Replaces the earlier messages in Claude’s context once the conversation grows past the summary threshold',
+      fields: [
+        defineField({
+          name: 'content',
+          title: 'Content',
+          type: 'text',
+          rows: 10,
+        }),
+        defineField({
+          name: 'messageCount',
+          title: 'Summarized Messages',
+          type: 'number',
+          readOnly: true,
+        }),
+        defineField({
+          name: 'throughMessageId',
+          title: 'Last Summarized Message',
+          type: 'string',
+          description: 'Key of the last message the summary covers',
+          readOnly: true,
+        }),
+        defineField({
+          name: 'updatedAt',
+          title: 'Updated At',
+          type: 'datetime',
+          readOnly: true,
+        }),
+        defineField({
+          name: 'edited',
+          title: 'Edited',
+          type: 'boolean',
+          description: 'Whether a user has edited the summary',
+          readOnly: true,
+        }),
+      ],
+    }),
+    defineField({
+      name: 'summaryUsage',
+      title: 'Summary Usage',
+      type: 'array',
+      description: 'Tokens used to summarize this conversation, for usage and cost reporting',
+      hidden: true,
+      of: [
+        defineArrayMember({
+          name: 'summaryUsageEntry',
+          title: 'Summary Usage Entry',
+          type: 'object',
+          fields: [
+            defineField({name: 'timestamp', title: 'Timestamp', type: 'datetime'}),
+            defineField({name: 'usage', title: 'Usage', type: 'object', fields: usageFields}),
+          ],
+        }),
+      ],
+    }),
   ],
   orderings: [
     {
@@ -1,11 +1,28 @@
 import {EditIcon} from '@sanity/icons'
-import {defineField, defineType} from 'sanity'
+import {defineArrayMember, defineField, defineType} from 'sanity'
+import {DOCUMENT_TYPE_OPTIONS} from './claudeAccessControl'
 
 /**
  * Claude Quick Action schema.
  * Stores quick action buttons that appear in the Claude Assistant interface.
  * These are simple shortcuts that pre-populate the message input.
+ *
+ * Actions can be limited to document types and to block types selected in
+ * Presentation, and their prompts can use placeholders such as
+ * {{document.title}} that are filled from what the user is looking at.
  */
+
+const PROMPT_PLACEHOLDERS = [
+  'document.title',
+  'document._id',
+  'document._type',
+  'document.slug',
+  'block.path',
+  'block.type',
+  'block.label',
+  'selection',
+]
+
 export const claudeQuickAction = defineType({
   name: 'claudeQuickAction',
   title: 'Quick Action',
@@ -50,9 +67,40 @@ export const claudeQuickAction = defineType({
       name: 'prompt',
       title: 'Prompt',
       type: 'text',
-      description: 'Text that pre-populates the message input when clicked',
+      description:
+        'Text that pre-populates the message input when clicked. Placeholders: {{document.title}}, {{document._id}}, {{document._type}}, {{document.slug}}, {{block.path}}, {{block.type}}, {{block.label}} and {{selection}} (the selected block’s content). The action is only offered where its placeholders can be filled.',
       rows: 3,
-      validation: (rule) => rule.required(),
+      validation: (rule) => [
+        rule.required(),
+        rule
+          .custom((prompt?: string) => {
+            const unknown = [...(prompt || '').matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)]
+              .map((match) => match[1])
+              .filter((name) => !PROMPT_PLACEHOLDERS.includes(name))
+            return unknown.length > 0 ? `Unknown placeholder: ${unknown.join(', ')}` : true
+          })
+          .warning(),
+      ],
+    }),
+    defineField({
+      name: 'documentTypes',
+      title: 'Document Types',
+      type: 'array',
+      description: 'Only offer this action for these document types. Leave empty to offer it everywhere.',
+      of: [defineArrayMember({type: 'string'})],
+      options: {
+        list: DOCUMENT_TYPE_OPTIONS,
+        layout: 'grid',
+      },
+    }),
+    defineField({
+      name: 'blockTypes',
+      title: 'Block Types',
+      type: 'array',
+      description:
+        'Only offer this action while a block of these types is selected in Presentation (e.g. headingBlock). Leave empty to offer it without a block.',
+      of: [defineArrayMember({type: 'string'})],
+      options: {layout: 'tags'},
     }),
     defineField({
       name: 'category',
@@ -101,11 +149,18 @@ export const claudeQuickAction = defineType({
       title: 'label',
       subtitle: 'description',
       active: 'active',
+      documentTypes: 'documentTypes',
+      blockTypes: 'blockTypes',
     },
-    prepare({title, subtitle, active}) {
+    prepare({title, subtitle, active, documentTypes, blockTypes}) {
+      const badges: string[] = []
+      if (active === false) badges.push('Inactive')
+      if (documentTypes?.length) badges.push(documentTypes.join(', '))
+      if (blockTypes?.length) badges.push(blockTypes.join(', '))
+
       return {
         title: title || 'Untitled Quick Action',
-        subtitle: active === false ? '(Inactive) ' + (subtitle || '') : subtitle || '',
+        subtitle: (badges.length > 0 ? `(${badges.join(' · ')}) ` : '') + (subtitle || ''),
         media: EditIcon,
       }
     },
@@ -0,0 +1,91 @@
+import {CheckmarkCircleIcon} from '@sanity/icons'
+import {defineField, defineType} from 'sanity'
+import {format, parseISO} from 'date-fns'
+
+/**
+ * Claude Remote Approval schema.
+ * Actions a remote API request held for approval (holdActions), and the
+ * decision on them. Written by the remote API and its approvals endpoint.
+ */
+export const claudeRemoteApproval = defineType({
+  name: 'claudeRemoteApproval',
+  title: 'Remote API Approval',
+  type: 'document',
+  icon: CheckmarkCircleIcon,
+  readOnly: true,
+  fields: [
+    defineField({
+      name: 'status',
+      title: 'Status',
+      type: 'string',
+      options: {
+        list: [
+          {title: 'Pending', value: 'pending'},
+          {title: 'Approved', value: 'approved'},
+          {title: 'Rejected', value: 'rejected'},
+        ],
+      },
+    }),
+    defineField({
+      name: 'apiKeyId',
+      title: 'API Key ID',
+      type: 'string',
+      description: 'claudeApiKey document ID, or "env" for CLAUDE_REMOTE_API_SECRET',
+    }),
+    defineField({
+      name: 'apiKeyName',
+      title: 'API Key',
+      type: 'string',
+    }),
+    defineField({
+      name: 'clientId',
+      title: 'Client ID',
+      type: 'string',
+      description: 'Hashed identifier of the API client',
+    }),
+    defineField({name: 'createdAt', title: 'Created At', type: 'datetime'}),
+    defineField({name: 'expiresAt', title: 'Expires At', type: 'datetime'}),
+    defineField({name: 'decidedAt', title: 'Decided At', type: 'datetime'}),
+    defineField({
+      name: 'decidedBy',
+      title: 'Decided By',
+      type: 'string',
+      description: 'As reported by the caller, e.g. a Slack user ID',
+    }),
+    defineField({
+      name: 'actions',
+      title: 'Actions',
+      type: 'text',
+      rows: 10,
+      description: 'The held actions, as JSON',
+    }),
+    defineField({
+      name: 'results',
+      title: 'Results',
+      type: 'text',
+      rows: 10,
+      description: 'Results of the approved actions, as JSON',
+    }),
+  ],
+  orderings: [
+    {
+      title: 'Newest First',
+      name: 'createdAtDesc',
+      by: [{field: 'createdAt', direction: 'desc'}],
+    },
+  ],
+  preview: {
+    select: {
+      status: 'status',
+      createdAt: 'createdAt',
+      apiKeyName: 'apiKeyName',
+    },
+    prepare({status, createdAt, apiKeyName}) {
+      return {
+        title: createdAt ? format(parseISO(createdAt), 'MMM d, yyyy h:mm a') : 'Remote approval',
+        subtitle: [status, apiKeyName].filter(Boolean).join(' · '),
+        media: CheckmarkCircleIcon,
+      }
+    },
+  },
+})
@@ -0,0 +1,137 @@
+import {ClockIcon} from '@sanity/icons'
+import {defineField, defineType} from 'sanity'
+import {format, parseISO} from 'date-fns'
+
+/**
+ * Claude Remote Job schema.
+ * One document per remote API request sent with async: true, tracking its
+ * state and final response. Written by the remote API and read by
+ * GET /api/claude/remote/jobs/[id].
+ */
+export const claudeRemoteJob = defineType({
+  name: 'claudeRemoteJob',
+  title: 'Remote API Job',
+  type: 'document',
+  icon: ClockIcon,
+  readOnly: true,
+  fields: [
+    defineField({
+      name: 'status',
+      title: 'Status',
+      type: 'string',
+      options: {
+        list: [
+          {title: 'Queued', value: 'queued'},
+          {title: 'Running', value: 'running'},
+          {title: 'Succeeded', value: 'succeeded'},
+          {title: 'Failed', value: 'failed'},
+        ],
+      },
+    }),
+    defineField({
+      name: 'clientId',
+      title: 'Client ID',
+      type: 'string',
+      description: 'Hashed identifier of the API client',
+    }),
+    defineField({
+      name: 'apiKeyId',
+      title: 'API Key ID',
+      type: 'string',
+      description: 'claudeApiKey document ID, or "env" for CLAUDE_REMOTE_API_SECRET',
+    }),
+    defineField({
+      name: 'apiKeyName',
+      title: 'API Key',
+      type: 'string',
+    }),
+    defineField({
+      name: 'message',
+      title: 'Message',
+      type: 'text',
+      rows: 3,
+    }),
+    defineField({
+      name: 'workflow',
+      title: 'Workflow',
+      type: 'string',
+      description: 'Workflow name or ID as requested',
+    }),
+    defineField({
+      name: 'dryRun',
+      title: 'Dry Run',
+      type: 'boolean',
+    }),
+    defineField({name: 'createdAt', title: 'Created At', type: 'datetime'}),
+    defineField({name: 'startedAt', title: 'Started At', type: 'datetime'}),
+    defineField({name: 'completedAt', title: 'Completed At', type: 'datetime'}),
+    defineField({
+      name: 'error',
+      title: 'Error',
+      type: 'text',
+      rows: 2,
+    }),
+    defineField({
+      name: 'result',
+      title: 'Result',
+      type: 'text',
+      rows: 10,
+      description: 'The final response, as JSON',
+    }),
+    defineField({
+      name: 'callbackUrl',
+      title: 'Callback URL',
+      type: 'url',
+    }),
+    defineField({
+      name: 'callbackStatus',
+      title: 'Callback Status',
+      type: 'string',
+      options: {
+        list: [
+          {title: 'Pending', value: 'pending'},
+          {title: 'Delivered', value: 'delivered'},
+          {title: 'Failed', value: 'failed'},
+        ],
+      },
+    }),
+    defineField({
+      name: 'callbackAttempts',
+      title: 'Callback Attempts',
+      type: 'number',
+    }),
+    defineField({
+      name: 'callbackError',
+      title: 'Callback Error',
+      type: 'string',
+    }),
+  ],
+  orderings: [
+    {
+      title: 'Newest First',
+      name: 'createdAtDesc',
+      by: [{field: 'createdAt', direction: 'desc'}],
+    },
+  ],
+  preview: {
+    select: {
+      message: 'message',
+      status: 'status',
+      createdAt: 'createdAt',
+      workflow: 'workflow',
+    },
+    prepare({message, status, createdAt, workflow}) {
+      return {
+        title: message || 'Remote job',
+        subtitle: [
+          status,
+          createdAt ? format(parseISO(createdAt), 'MMM d, yyyy h:mm a') : null,
+          workflow,
+        ]
+          .filter(Boolean)
+          .join(' · '),
+        media: ClockIcon,
+      }
+    },
+  },
+})
@@ -0,0 +1,94 @@
+import {BarChartIcon} from '@sanity/icons'
+import {defineField, defineType} from 'sanity'
+import {format, parseISO} from 'date-fns'
+
+/**
+ * Claude Remote Usage schema.
+ * One document per remote API request, recording the tokens it used.
+ * Written by the remote API and read by the usage view in the Claude tool.
+ */
+export const claudeRemoteUsage = defineType({
+  name: 'claudeRemoteUsage',
+  title: 'Remote API Usage',
+  type: 'document',
+  icon: BarChartIcon,
+  readOnly: true,
+  fields: [
+    defineField({
+      name: 'timestamp',
+      title: 'Timestamp',
+      type: 'datetime',
+    }),
+    defineField({
+      name: 'clientId',
+      title: 'Client ID',
+      type: 'string',
+      description: 'Hashed identifier of the API client',
+    }),
+    defineField({
+      name: 'apiKeyId',
+      title: 'API Key ID',
+      type: 'string',
+      description: 'claudeApiKey document ID, or "env" for CLAUDE_REMOTE_API_SECRET',
+    }),
+    defineField({
+      name: 'apiKeyName',
+      title: 'API Key',
+      type: 'string',
+    }),
+    defineField({
+      name: 'model',
+      title: 'Model',
+      type: 'string',
+    }),
+    defineField({name: 'inputTokens', title: 'Input Tokens', type: 'number'}),
+    defineField({name: 'outputTokens', title: 'Output Tokens', type: 'number'}),
+    defineField({name: 'cacheCreationInputTokens', title: 'Cache Write Tokens', type: 'number'}),
+    defineField({name: 'cacheReadInputTokens', title: 'Cache Read Tokens', type: 'number'}),
+    defineField({
+      name: 'steps',
+      title: 'Agent Steps',
+      type: 'number',
+      description: 'Claude responses in the request’s agent run',
+    }),
+    defineField({
+      name: 'workflowId',
+      title: 'Workflow ID',
+      type: 'string',
+    }),
+    defineField({
+      name: 'workflowName',
+      title: 'Workflow Name',
+      type: 'string',
+    }),
+    defineField({
+      name: 'dryRun',
+      title: 'Dry Run',
+      type: 'boolean',
+    }),
+  ],
+  orderings: [
+    {
+      title: 'Newest First',
+      name: 'timestampDesc',
+      by: [{field: 'timestamp', direction: 'desc'}],
+    },
+  ],
+  preview: {
+    select: {
+      timestamp: 'timestamp',
+      model: 'model',
+      inputTokens: 'inputTokens',
+      outputTokens: 'outputTokens',
+      workflowName: 'workflowName',
+    },
+    prepare({timestamp, model, inputTokens, outputTokens, workflowName}) {
+      const tokens = (inputTokens || 0) + (outputTokens || 0)
+      return {
+        title: timestamp ? format(parseISO(timestamp), 'MMM d, yyyy h:mm a') : 'Remote request',
+        subtitle: [model, `${tokens.toLocaleString()} tokens`, workflowName].filter(Boolean).join(' · '),
+        media: BarChartIcon,
+      }
+    },
+  },
+})
@@ -0,0 +1,59 @@
+import {BarChartIcon} from '@sanity/icons'
+import {defineField, defineType} from 'sanity'
+
+/**
+ * Claude Usage Counter schema.
+ * Month-to-date usage for the whole workspace or one user, metered from
+ * Anthropic responses by the API routes and checked against the budgets in
+ * API Settings. One document per month and scope; never edited by hand.
+ */
+export const claudeUsageCounter = defineType({
+  name: 'claudeUsageCounter',
+  title: 'Usage Counter',
+  type: 'document',
+  icon: BarChartIcon,
+  readOnly: true,
+  fields: [
+    defineField({
+      name: 'month',
+      title: 'Month',
+      type: 'string',
+      description: 'YYYY-MM (UTC)',
+    }),
+    defineField({
+      name: 'scope',
+      title: 'Scope',
+      type: 'string',
+      options: {list: ['global', 'user']},
+    }),
+    defineField({
+      name: 'userId',
+      title: 'User ID',
+      type: 'string',
+    }),
+    defineField({name: 'tokens', title: 'Total Tokens', type: 'number'}),
+    defineField({name: 'cost', title: 'Estimated Cost (USD)', type: 'number'}),
+    defineField({name: 'inputTokens', title: 'Input Tokens', type: 'number'}),
+    defineField({name: 'outputTokens', title: 'Output Tokens', type: 'number'}),
+    defineField({name: 'cacheCreationInputTokens', title: 'Cache Write Tokens', type: 'number'}),
+    defineField({name: 'cacheReadInputTokens', title: 'Cache Read Tokens', type: 'number'}),
+    defineField({name: 'requests', title: 'Requests', type: 'number'}),
+    defineField({name: 'updatedAt', title: 'Updated At', type: 'datetime'}),
+  ],
+  preview: {
+    select: {
+      month: 'month',
+      scope: 'scope',
+      userId: 'userId',
+      tokens: 'tokens',
+      cost: 'cost',
+    },
+    prepare({month, scope, userId, tokens, cost}) {
+      return {
+        title: `${month} · ${scope === 'user' ? userId : 'All usage'}`,
+        subtitle: `${(tokens || 0).toLocaleString()} tokens · $${(cost || 0).toFixed(2)}`,
+        media: BarChartIcon,
+      }
+    },
+  },
+})
@@ -1,4 +1,4 @@
-import {BoltIcon} from '@sanity/icons'
+import {BoltIcon, CalendarIcon, DocumentIcon, ImageIcon, LockIcon, StringIcon, UlistIcon} from '@sanity/icons'
 import {defineArrayMember, defineField, defineType} from 'sanity'
 
 /**
@@ -9,6 +9,13 @@ import {defineArrayMember, defineField, defineType} from 'sanity'
  * System instructions use Portable Text (rich text) for better editing UX,
  * supporting markdown paste and consistent formatting with the Training document.
  * The content is serialized to Markdown when sent to Claude.
+ *
+ * Parameters are typed inputs (text, select, document, image, date) that users
+ * fill in before the skill starts; their values replace {{name}} placeholders
+ * in the starter prompt.
+ *
+ * Skills with steps run as a pipeline: one step at a time, each with its own
+ * instructions and allowed actions, pausing at steps that need approval.
  */
 
 /**
@@ -53,6 +60,41 @@ const skillInstructionBlockContent = [
   }),
 ]
 
+/**
+ * Action types a step can be limited to. Read-only actions (query, navigate,
+ * explain) are allowed in every step.
+ */
+const STEP_ACTION_OPTIONS = [
+  {title: 'Create', value: 'create'},
+  {title: 'Update', value: 'update'},
+  {title: 'Patch', value: 'patch'},
+  {title: 'Delete', value: 'delete'},
+  {title: 'Publish', value: 'publish'},
+  {title: 'Unpublish', value: 'unpublish'},
+  {title: 'Discard Draft', value: 'discardDraft'},
+  {title: 'Schedule Publish', value: 'schedulePublish'},
+  {title: 'Upload Image', value: 'uploadImage'},
+  {title: 'Fetch Figma Frame', value: 'fetchFigmaFrame'},
+  {title: 'Upload Figma Image', value: 'uploadFigmaImage'},
+  {title: 'Create Pinboard', value: 'createPinboard'},
+]
+
+const PARAMETER_TYPE_OPTIONS = [
+  {title: 'Text', value: 'text'},
+  {title: 'Select', value: 'select'},
+  {title: 'Document', value: 'reference'},
+  {title: 'Image', value: 'image'},
+  {title: 'Date', value: 'date'},
+]
+
+const PARAMETER_TYPE_ICONS: Record<string, typeof StringIcon> = {
+  text: StringIcon,
+  select: UlistIcon,
+  reference: DocumentIcon,
+  image: ImageIcon,
+  date: CalendarIcon,
+}
+
 export const claudeWorkflow = defineType({
   name: 'claudeWorkflow',
   title: 'Claude Skill',
@@ -60,6 +102,7 @@ export const claudeWorkflow = defineType({
   icon: BoltIcon,
   groups: [
     {name: 'content', title: 'Content', default: true},
+    {name: 'steps', title: 'Steps'},
     {name: 'integrations', title: 'Integrations'},
     {name: 'access', title: 'Access Control'},
   ],
@@ -94,9 +137,177 @@ export const claudeWorkflow = defineType({
       title: 'Starter Prompt',
       type: 'text',
       description:
-        'Optional prompt that auto-fills when user selects this skill (user can edit before sending)',
+        'Optional prompt that auto-fills when user selects this skill (user can edit before sending). Use {{name}} to insert a parameter value.',
       rows: 4,
       group: 'content',
+      validation: (rule) =>
+        rule.custom((starterPrompt, context) => {
+          const names = ((context.document?.parameters as Array<{name?: string}>) || []).map((p) => p.name)
+          const unknown = [...(starterPrompt || '').matchAll(/\{\{\s*([a-zA-Z]\w*)\s*\}\}/g)]
+            .map((match) => match[1])
+            .filter((name) => !names.includes(name))
+          return unknown.length > 0 ? `No parameter named: ${unknown.join(', ')}` : true
+        }).warning(),
+    }),
+    defineField({
+      name: 'parameters',
+      title: 'Parameters',
+      type: 'array',
+      description:
+        'Typed inputs users fill in before the skill starts. Each value replaces {{name}} in the starter prompt.',
+      of: [
+        defineArrayMember({
+          name: 'workflowParameter',
+          title: 'Parameter',
+          type: 'object',
+          fields: [
+            defineField({
+              name: 'title',
+              title: 'Label',
+              type: 'string',
+              validation: (rule) => rule.required().max(60),
+            }),
+            defineField({
+              name: 'name',
+              title: 'Name',
+              type: 'string',
+              description: 'Used as {{name}} in the starter prompt and as the key in the remote API’s params',
+              validation: (rule) =>
+                rule
+                  .required()
+                  .regex(/^[a-zA-Z]\w*$/, {name: 'identifier'})
+                  .error('Use letters, numbers and underscores, starting with a letter'),
+            }),
+            defineField({
+              name: 'type',
+              title: 'Type',
+              type: 'string',
+              options: {list: PARAMETER_TYPE_OPTIONS, layout: 'radio', direction: 'horizontal'},
+              initialValue: 'text',
+              validation: (rule) => rule.required(),
+            }),
+            defineField({
+              name: 'description',
+              title: 'Help Text',
+              type: 'string',
+            }),
+            defineField({
+              name: 'required',
+              title: 'Required',
+              type: 'boolean',
+              initialValue: false,
+            }),
+            defineField({
+              name: 'options',
+              title: 'Options',
+              type: 'array',
+              of: [defineArrayMember({type: 'string'})],
+              options: {layout: 'tags'},
+              hidden: ({parent}) => parent?.type !== 'select',
+              validation: (rule) =>
+                rule.custom((options, context) =>
+                  (context.parent as {type?: string})?.type === 'select' && !options?.length
+                    ? 'Add at least one option'
+                    : true
+                ),
+            }),
+            defineField({
+              name: 'documentTypes',
+              title: 'Document Types',
+              type: 'array',
+              description: 'Document types users can pick from (e.g. page, post). Leave empty to allow any.',
+              of: [defineArrayMember({type: 'string'})],
+              options: {layout: 'tags'},
+              hidden: ({parent}) => parent?.type !== 'reference',
+            }),
+          ],
+          preview: {
+            select: {
+              title: 'title',
+              name: 'name',
+              type: 'type',
+              required: 'required',
+            },
+            prepare({title, name, type, required}) {
+              const typeTitle = PARAMETER_TYPE_OPTIONS.find((option) => option.value === type)?.title || type
+              return {
+                title: title || 'Untitled parameter',
+                subtitle: `{{${name || '…'}}} · ${typeTitle}${required ? ' · required' : ''}`,
+                media: PARAMETER_TYPE_ICONS[type] || StringIcon,
+              }
+            },
+          },
+        }),
+      ],
+      validation: (rule) =>
+        rule.custom((parameters: Array<{name?: string}> | undefined) => {
+          const names = (parameters || []).map((parameter) => parameter.name).filter(Boolean)
+          return new Set(names).size === names.length ? true : 'Parameter names must be unique'
+        }),
+      group: 'content',
+    }),
+    defineField({
+      name: 'steps',
+      title: 'Steps',
+      type: 'array',
+      description:
+        'Optional ordered steps, e.g. outline → draft copy → build sections → SEO pass → review. Claude works on one step at a time, with the system instructions above plus the step’s own.',
+      of: [
+        defineArrayMember({
+          name: 'workflowStep',
+          title: 'Step',
+          type: 'object',
+          fields: [
+            defineField({
+              name: 'title',
+              title: 'Title',
+              type: 'string',
+              validation: (rule) => rule.required().max(80),
+            }),
+            defineField({
+              name: 'instructions',
+              title: 'Instructions',
+              type: 'array',
+              description: 'What Claude should do in this step',
+              of: skillInstructionBlockContent,
+            }),
+            defineField({
+              name: 'allowedActions',
+              title: 'Allowed Actions',
+              type: 'array',
+              description:
+                'Action types Claude may run in this step. Leave empty to allow all actions. Query, navigate and explain are always allowed.',
+              of: [defineArrayMember({type: 'string'})],
+              options: {
+                list: STEP_ACTION_OPTIONS,
+                layout: 'grid',
+              },
+            }),
+            defineField({
+              name: 'requireApproval',
+              title: 'Require Approval',
+              type: 'boolean',
+              description: 'Require human approval before continuing to the next step',
+              initialValue: false,
+            }),
+          ],
+          preview: {
+            select: {
+              title: 'title',
+              requireApproval: 'requireApproval',
+              allowedActions: 'allowedActions',
+            },
+            prepare({title, requireApproval, allowedActions}) {
+              return {
+                title: title || 'Untitled step',
+                subtitle: allowedActions?.length ? `Allowed: ${allowedActions.join(', ')}` : 'All actions allowed',
+                media: requireApproval ? LockIcon : BoltIcon,
+              }
+            },
+          },
+        }),
+      ],
+      group: 'steps',
     }),
     defineField({
       name: 'order',
@@ -162,11 +373,13 @@ export const claudeWorkflow = defineType({
       subtitle: 'description',
       active: 'active',
       enableFigmaFetch: 'enableFigmaFetch',
+      steps: 'steps',
     },
-    prepare({title, subtitle, active, enableFigmaFetch}) {
+    prepare({title, subtitle, active, enableFigmaFetch, steps}) {
       const badges: string[] = []
       if (active === false) badges.push('Inactive')
       if (enableFigmaFetch) badges.push('Figma')
+      if (steps?.length) badges.push(`${steps.length} step${steps.length > 1 ? 's' : ''}`)
 
       const badgeText = badges.length > 0 ? `(${badges.join(', ')}) ` : ''
 
@@ -7,8 +7,15 @@ import {contentVariable} from './documents/contentVariable'
 import {claudeConversation} from './documents/claudeConversation'
 import {claudeInstructions} from './documents/claudeInstructions'
 import {claudeApiSettings} from './documents/claudeApiSettings'
+import {claudeAccessControl} from './documents/claudeAccessControl'
+import {claudeApiKey} from './documents/claudeApiKey'
 import {claudeQuickAction} from './documents/claudeQuickAction'
 import {claudeWorkflow} from './documents/claudeWorkflow'
+import {claudeRemoteUsage} from './documents/claudeRemoteUsage'
+import {claudeRemoteJob} from './documents/claudeRemoteJob'
+import {claudeRemoteApproval} from './documents/claudeRemoteApproval'
+import {claudeAuditEntry} from './documents/claudeAuditEntry'
+import {claudeUsageCounter} from './documents/claudeUsageCounter'
 import {pinboard} from './documents/pinboard'
 import {settings} from './singletons/settings'
 import {navigation} from './singletons/navigation'
@@ -60,8 +67,15 @@ export const schemaTypes = [
   claudeConversation,
   claudeInstructions,
   claudeApiSettings,
+  claudeAccessControl,
+  claudeApiKey,
   claudeQuickAction,
   claudeWorkflow,
+  claudeRemoteUsage,
+  claudeRemoteJob,
+  claudeRemoteApproval,
+  claudeAuditEntry,
+  claudeUsageCounter,
   pinboard,
   // Objects - utility types (must come before blocks that use them)
   smartString,
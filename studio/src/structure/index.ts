@@ -1,6 +1,7 @@
-import {BlockElementIcon, BoltIcon, BookIcon, CogIcon, ComponentIcon, DocumentIcon, EarthGlobeIcon, EditIcon, FolderIcon, MenuIcon, RobotIcon, TagIcon} from '@sanity/icons'
-import type {StructureBuilder, StructureResolver} from 'sanity/structure'
+import {BlockElementIcon, BoltIcon, BookIcon, ClockIcon, CogIcon, ComponentIcon, DocumentIcon, DocumentTextIcon, EarthGlobeIcon, EditIcon, FolderIcon, LockIcon, MenuIcon, PlugIcon, RobotIcon, TagIcon} from '@sanity/icons'
+import type {DefaultDocumentNodeResolver, StructureBuilder, StructureResolver} from 'sanity/structure'
 import pluralize from 'pluralize-esm'
+import {AuditLogDocumentView, AuditLogPane} from '../plugins/claude-assistant'
 
 /**
  * Structure builder is useful whenever you want to control how documents are grouped and
@@ -21,8 +22,15 @@ const DISABLED_TYPES = [
   'claudeConversation',
   'claudeInstructions',
   'claudeApiSettings',
+  'claudeAccessControl',
+  'claudeApiKey',
   'claudeQuickAction',
   'claudeWorkflow',
+  'claudeRemoteUsage',
+  'claudeRemoteJob',
+  'claudeRemoteApproval',
+  'claudeAuditEntry',
+  'claudeUsageCounter',
   // Handled in custom groups
   'page',
   'post',
@@ -161,6 +169,18 @@ export const structure: StructureResolver = (S: StructureBuilder, context) =>
                 .title('API Settings')
                 .child(S.document().schemaType('claudeApiSettings').documentId('claudeApiSettings'))
                 .icon(CogIcon),
+              // Access Control Singleton
+              S.listItem()
+                .id('claudeAccessControl')
+                .title('Access Control')
+                .child(S.document().schemaType('claudeAccessControl').documentId('claudeAccessControl'))
+                .icon(LockIcon),
+              // Remote API Keys List
+              S.listItem()
+                .id('claudeApiKeys')
+                .title('API Keys')
+                .child(S.documentTypeList('claudeApiKey').title('API Keys'))
+                .icon(PlugIcon),
               // Training Singleton
               S.listItem()
                 .id('claudeInstructions')
@@ -179,6 +199,48 @@ export const structure: StructureResolver = (S: StructureBuilder, context) =>
                 .title('Skills')
                 .child(S.documentTypeList('claudeWorkflow').title('Skills'))
                 .icon(BoltIcon),
+              // Remote API Jobs List
+              S.listItem()
+                .id('claudeRemoteJobs')
+                .title('Remote API Jobs')
+                .child(
+                  S.documentTypeList('claudeRemoteJob')
+                    .title('Remote API Jobs')
+                    .defaultOrdering([{field: 'createdAt', direction: 'desc'}])
+                )
+                .icon(ClockIcon),
+              // Audit Log - every content change Claude made
+              S.listItem()
+                .id('claudeAuditLog')
+                .title('Audit Log')
+                .child(S.component(AuditLogPane).id('claudeAuditLogView').title('Audit Log'))
+                .icon(DocumentTextIcon),
             ])
         ),
     ])
+
+/**
+ * Document types Claude can change, which get a "Claude History" view
+ */
+const AUDITED_DOCUMENT_TYPES = [
+  'page',
+  'post',
+  'person',
+  'category',
+  'sectionTemplate',
+  'contentVariable',
+  'navigation',
+  'footer',
+  'settings',
+]
+
+export const defaultDocumentNode: DefaultDocumentNodeResolver = (S, {schemaType}) => {
+  if (!AUDITED_DOCUMENT_TYPES.includes(schemaType)) {
+    return S.document().views([S.view.form()])
+  }
+
+  return S.document().views([
+    S.view.form(),
+    S.view.component(AuditLogDocumentView).id('claudeHistory').title('Claude History').icon(RobotIcon),
+  ])
+}